@@ -0,0 +1,78 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('evidence_custody_ledger', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('evidence_id').references('id').inTable('evidence_items').notNullable();
+    table.integer('sequence_number').notNullable();
+
+    // Custody details (mirrors CustodyRecord in src/evidence-chain/types)
+    table.string('custodian', 255).notNullable(); // User ID or external entity
+    table.string('custodian_name', 255);
+    table.string('custodian_organization', 255);
+    table.string('transferred_from', 255);
+    table.string('transferred_to', 255);
+    table.string('transfer_reason', 50).notNullable();
+    table.string('transfer_method', 50).notNullable();
+    table.string('purpose', 50).notNullable();
+    table.text('reason_description');
+    table.timestamp('received_at').notNullable();
+    table.string('storage_location', 255).notNullable();
+    table.jsonb('storage_conditions');
+    table.text('condition_on_receipt');
+    table.boolean('integrity_verified').defaultTo(false);
+    table.text('integrity_notes');
+    table.string('evidence_integrity_hash', 128); // Evidence hash at the moment of transfer
+    table.text('notes');
+    table.uuid('recorded_by').references('id').inTable('users');
+
+    // Hash chain and server signature
+    table.string('previous_hash', 64).notNullable();
+    table.string('entry_hash', 64).notNullable();
+    table.text('signature').notNullable();
+    table.string('signature_algorithm', 50).notNullable();
+    table.string('signing_key_fingerprint', 64).notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['evidence_id', 'sequence_number'], 'uq_evidence_custody_ledger_sequence');
+    table.unique(['entry_hash'], 'uq_evidence_custody_ledger_entry_hash');
+    table.index(['evidence_id'], 'idx_evidence_custody_ledger_evidence_id');
+    table.index(['custodian'], 'idx_evidence_custody_ledger_custodian');
+  });
+
+  // The ledger is append-only: reject any attempt to rewrite or remove history
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION prevent_custody_ledger_mutation()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        RAISE EXCEPTION 'evidence_custody_ledger is append-only (% rejected)', TG_OP;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_custody_ledger_append_only
+    BEFORE UPDATE OR DELETE ON evidence_custody_ledger
+    FOR EACH ROW EXECUTE FUNCTION prevent_custody_ledger_mutation();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_custody_ledger_no_truncate
+    BEFORE TRUNCATE ON evidence_custody_ledger
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_custody_ledger_mutation();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_custody_ledger_no_truncate ON evidence_custody_ledger');
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_custody_ledger_append_only ON evidence_custody_ledger');
+  await knex.raw('DROP FUNCTION IF EXISTS prevent_custody_ledger_mutation()');
+  await knex.schema.dropTable('evidence_custody_ledger');
+};
@@ -0,0 +1,84 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('court_exports', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('case_id', 255).notNullable();
+    table.string('export_type', 50).notNullable();
+    table.string('format', 50).notNullable();
+
+    // Content (mirrors CourtExport in src/evidence-chain/types)
+    table.jsonb('evidence_ids').notNullable();
+    table.boolean('include_chain_of_custody').defaultTo(true);
+    table.boolean('include_integrity_proof').defaultTo(true);
+    table.boolean('include_timeline').defaultTo(true);
+    table.boolean('include_relationships').defaultTo(false);
+
+    // Legal requirements
+    table.string('jurisdiction', 255).notNullable();
+    table.string('court', 255).notNullable();
+    table.string('case_number', 255).notNullable();
+    table.uuid('requested_by').references('id').inTable('users').notNullable();
+    table.uuid('authorized_by').references('id').inTable('users').notNullable();
+
+    // Certification and signed manifest
+    table.jsonb('certification');
+    table.jsonb('digital_signature');
+    table.jsonb('manifest');
+
+    // Bundle storage and expiring download link
+    table.string('bundle_path', 1000); // Encrypted bundle on disk
+    table.string('bundle_hash', 128); // SHA-256 of the unencrypted bundle
+    table.bigInteger('bundle_size');
+    table.string('download_token_hash', 128); // Only the hash of the link token is stored
+    table.timestamp('expires_at').notNullable();
+
+    table.enum('status', [
+      'REQUESTED',
+      'APPROVED',
+      'PROCESSING',
+      'READY',
+      'DELIVERED',
+      'EXPIRED',
+      'CANCELLED',
+      'FAILED'
+    ]).notNullable().defaultTo('REQUESTED');
+    table.text('failure_reason');
+    table.text('notes');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('completed_at');
+
+    // Indexes
+    table.index(['case_id'], 'idx_court_exports_case_id');
+    table.index(['status'], 'idx_court_exports_status');
+    table.index(['requested_by'], 'idx_court_exports_requested_by');
+    table.index(['expires_at'], 'idx_court_exports_expires_at');
+  });
+
+  await knex.schema.createTable('court_export_access_log', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('export_id').references('id').inTable('court_exports').notNullable();
+    table.uuid('accessed_by').references('id').inTable('users');
+    table.timestamp('accessed_at').defaultTo(knex.fn.now());
+    table.inet('ip_address');
+    table.text('user_agent');
+    table.enum('action', ['VIEW', 'DOWNLOAD', 'PRINT', 'SHARE', 'MODIFY', 'DELETE']).notNullable();
+    table.boolean('success').notNullable();
+    table.text('notes');
+
+    // Indexes
+    table.index(['export_id', 'accessed_at'], 'idx_court_export_access_log_export_accessed');
+    table.index(['accessed_by'], 'idx_court_export_access_log_accessed_by');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('court_export_access_log');
+  await knex.schema.dropTableIfExists('court_exports');
+};
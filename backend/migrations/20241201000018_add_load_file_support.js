@@ -0,0 +1,48 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Production metadata for documents received through Concordance/Opticon load files
+  await knex.schema.alterTable('documents', function(table) {
+    table.string('bates_begin', 100);
+    table.string('bates_end', 100);
+    table.integer('page_count');
+    table.string('custodian', 255);
+    table.timestamp('document_date'); // Date sent / authored, as given by the producing party
+    table.string('producing_party', 255);
+    table.string('production_volume', 100);
+    table.jsonb('load_file_fields'); // Every DAT field of the record as received
+
+    table.index(['bates_begin'], 'idx_documents_bates_begin');
+    table.index(['production_volume'], 'idx_documents_production_volume');
+  });
+
+  // Bates, volume and field map used when an export is produced as a load file
+  await knex.schema.alterTable('court_exports', function(table) {
+    table.jsonb('load_file_options');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('court_exports', function(table) {
+    table.dropColumn('load_file_options');
+  });
+
+  await knex.schema.alterTable('documents', function(table) {
+    table.dropIndex(['production_volume'], 'idx_documents_production_volume');
+    table.dropIndex(['bates_begin'], 'idx_documents_bates_begin');
+    table.dropColumn('load_file_fields');
+    table.dropColumn('production_volume');
+    table.dropColumn('producing_party');
+    table.dropColumn('document_date');
+    table.dropColumn('custodian');
+    table.dropColumn('page_count');
+    table.dropColumn('bates_end');
+    table.dropColumn('bates_begin');
+  });
+};
@@ -0,0 +1,78 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Next unused Bates number per prefix; rows are locked while a range is reserved
+  await knex.schema.createTable('bates_sequences', function(table) {
+    table.string('prefix', 20).primary();
+    table.bigInteger('next_number').notNullable().defaultTo(1);
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.createTable('productions', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('case_id', 255).notNullable();
+    table.string('name', 255).notNullable();
+    table.string('production_volume', 100);
+    table.string('recipient', 255);
+
+    // Endorsement stamped onto every page
+    table.string('bates_prefix', 20).notNullable();
+    table.integer('bates_padding').notNullable().defaultTo(6);
+    table.string('legend', 255); // Confidentiality legend, e.g. CONFIDENTIAL - ATTORNEYS' EYES ONLY
+    table.string('watermark_text', 255);
+
+    table.enum('status', ['OPEN', 'CLOSED']).notNullable().defaultTo('OPEN');
+    table.uuid('created_by').references('id').inTable('users').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('closed_at');
+    table.text('notes');
+
+    table.index(['case_id'], 'idx_productions_case_id');
+    table.index(['bates_prefix'], 'idx_productions_bates_prefix');
+  });
+
+  // Register of every Bates range ever assigned
+  await knex.schema.createTable('production_documents', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('production_id').references('id').inTable('productions').notNullable();
+    table.uuid('document_id').references('id').inTable('documents').notNullable();
+    table.string('bates_prefix', 20).notNullable();
+    table.bigInteger('begin_number').notNullable();
+    table.bigInteger('end_number').notNullable();
+    table.string('bates_begin', 100).notNullable();
+    table.string('bates_end', 100).notNullable();
+    table.integer('page_count').notNullable();
+    table.uuid('allocated_by').references('id').inTable('users').notNullable();
+    table.timestamp('allocated_at').defaultTo(knex.fn.now());
+
+    table.unique(['production_id', 'document_id']);
+    table.index(['document_id'], 'idx_production_documents_document_id');
+    table.index(['bates_begin'], 'idx_production_documents_bates_begin');
+  });
+
+  await knex.raw(`
+    ALTER TABLE production_documents
+    ADD CONSTRAINT chk_production_documents_range
+    CHECK (begin_number > 0 AND end_number = begin_number + page_count - 1);
+  `);
+
+  // Bates numbers are never reused: no two registered ranges under one prefix may overlap
+  await knex.raw('CREATE EXTENSION IF NOT EXISTS btree_gist');
+  await knex.raw(`
+    ALTER TABLE production_documents
+    ADD CONSTRAINT excl_production_documents_bates_range
+    EXCLUDE USING gist (bates_prefix WITH =, int8range(begin_number, end_number, '[]') WITH &&);
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('production_documents');
+  await knex.schema.dropTableIfExists('productions');
+  await knex.schema.dropTableIfExists('bates_sequences');
+};
@@ -0,0 +1,84 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('preservation_orders', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('order_number', 255).notNullable().unique();
+    table.string('issued_by', 255).notNullable(); // Court, agency or counsel issuing the order
+    table.timestamp('issued_at').notNullable();
+    table.timestamp('expires_at');
+
+    // Time range, custodians, keywords, types and locations (mirrors PreservationScope)
+    table.jsonb('scope').notNullable();
+
+    table.string('jurisdiction', 255).notNullable();
+    table.string('court_case', 255);
+    table.text('legal_authority').notNullable();
+
+    table.enum('status', ['ACTIVE', 'EXPIRED', 'TERMINATED', 'SUSPENDED', 'MODIFIED'])
+      .notNullable().defaultTo('ACTIVE');
+    table.uuid('created_by').references('id').inTable('users').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('last_matched_at');
+    table.uuid('released_by').references('id').inTable('users');
+    table.timestamp('released_at');
+    table.text('release_reason');
+
+    table.index(['status'], 'idx_preservation_orders_status');
+    table.index(['court_case'], 'idx_preservation_orders_court_case');
+  });
+
+  await knex.schema.createTable('preservation_requirements', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('order_id').references('id').inTable('preservation_orders').onDelete('CASCADE').notNullable();
+    table.enum('type', [
+      'COLLECTION',
+      'PRESERVATION',
+      'DOCUMENTATION',
+      'ACCESS_CONTROL',
+      'NOTIFICATION',
+      'REPORTING',
+      'DESTRUCTION_SUSPENSION'
+    ]).notNullable();
+    table.text('description').notNullable();
+    table.boolean('mandatory').defaultTo(true);
+    table.timestamp('deadline');
+    table.enum('status', ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'OVERDUE', 'NOT_APPLICABLE'])
+      .notNullable().defaultTo('PENDING');
+    table.uuid('completed_by').references('id').inTable('users');
+    table.timestamp('completed_at');
+    table.text('notes');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['order_id'], 'idx_preservation_requirements_order_id');
+    table.index(['status', 'deadline'], 'idx_preservation_requirements_status_deadline');
+  });
+
+  // Items held under an order, whether matched by scope, linked to held evidence or added by hand
+  await knex.schema.createTable('legal_hold_items', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('order_id').references('id').inTable('preservation_orders').onDelete('CASCADE').notNullable();
+    table.enum('item_type', ['evidence', 'document', 'communication', 'stakeholder']).notNullable();
+    table.uuid('item_id').notNullable();
+    table.enum('match_source', ['SCOPE', 'LINKED_EVIDENCE', 'MANUAL']).notNullable();
+    table.uuid('placed_by').references('id').inTable('users');
+    table.timestamp('placed_at').defaultTo(knex.fn.now());
+    table.timestamp('released_at');
+
+    table.unique(['order_id', 'item_type', 'item_id']);
+    table.index(['item_type', 'item_id'], 'idx_legal_hold_items_item');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('legal_hold_items');
+  await knex.schema.dropTableIfExists('preservation_requirements');
+  await knex.schema.dropTableIfExists('preservation_orders');
+};
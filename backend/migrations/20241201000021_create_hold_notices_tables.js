@@ -0,0 +1,88 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('hold_notice_templates', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('name', 255).notNullable().unique();
+    table.string('subject', 500).notNullable();
+    table.text('body').notNullable(); // {{placeholder}} syntax, must include {{acknowledgementUrl}}
+    table.enum('format', ['text', 'html']).notNullable().defaultTo('text');
+    table.uuid('created_by').references('id').inTable('users').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+
+  // One notice per custodian per order, rendered at issue time
+  await knex.schema.createTable('hold_notices', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('order_id').references('id').inTable('preservation_orders').onDelete('CASCADE').notNullable();
+    table.uuid('template_id').references('id').inTable('hold_notice_templates');
+    table.uuid('stakeholder_id').references('id').inTable('stakeholders');
+    table.string('recipient_name', 255).notNullable();
+    table.string('recipient_email', 255).notNullable();
+    table.string('subject', 500).notNullable();
+    table.text('body').notNullable();
+    table.enum('format', ['text', 'html']).notNullable().defaultTo('text');
+
+    // Only the hash is used for lookup; the encrypted copy lets reminders repeat the link
+    table.string('ack_token_hash', 64).notNullable().unique();
+    table.text('ack_token_encrypted').notNullable();
+
+    table.enum('status', ['PENDING', 'ESCALATED', 'ACKNOWLEDGED', 'WITHDRAWN']).notNullable().defaultTo('PENDING');
+    table.uuid('issued_by').references('id').inTable('users').notNullable();
+    table.timestamp('issued_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('due_at').notNullable();
+
+    table.integer('reminder_interval_days').notNullable();
+    table.integer('max_reminders').notNullable();
+    table.integer('reminder_count').notNullable().defaultTo(0);
+    table.timestamp('last_reminded_at');
+    table.timestamp('next_reminder_at');
+    table.string('escalation_contact', 255);
+    table.timestamp('escalated_at');
+
+    table.timestamp('acknowledged_at');
+    table.string('acknowledged_name', 255);
+    table.string('acknowledged_ip', 64);
+    table.text('acknowledged_user_agent');
+    table.timestamp('withdrawn_at');
+
+    table.unique(['order_id', 'recipient_email']);
+    table.index(['status', 'next_reminder_at'], 'idx_hold_notices_status_next_reminder');
+    table.index(['status', 'due_at'], 'idx_hold_notices_status_due');
+  });
+
+  // Outbox drained by the communication layer, which reports each result back
+  await knex.schema.createTable('hold_notice_deliveries', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('notice_id').references('id').inTable('hold_notices').onDelete('CASCADE').notNullable();
+    table.enum('kind', ['NOTICE', 'REMINDER', 'ESCALATION']).notNullable();
+    table.string('recipient_address', 255).notNullable();
+    table.string('recipient_name', 255);
+    table.string('subject', 500).notNullable();
+    table.text('body').notNullable();
+    table.enum('format', ['text', 'html']).notNullable().defaultTo('text');
+    table.enum('status', ['QUEUED', 'SENDING', 'SENT', 'FAILED', 'CANCELLED']).notNullable().defaultTo('QUEUED');
+    table.integer('attempts').notNullable().defaultTo(0);
+    table.timestamp('queued_at').defaultTo(knex.fn.now());
+    table.timestamp('claimed_at');
+    table.timestamp('sent_at');
+    table.string('message_id', 500);
+    table.text('last_error');
+
+    table.index(['notice_id'], 'idx_hold_notice_deliveries_notice_id');
+    table.index(['status', 'queued_at'], 'idx_hold_notice_deliveries_status');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('hold_notice_deliveries');
+  await knex.schema.dropTableIfExists('hold_notices');
+  await knex.schema.dropTableIfExists('hold_notice_templates');
+};
@@ -0,0 +1,57 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('evidence_relationships', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('case_id', 255).notNullable();
+    table.uuid('source_evidence_id').references('id').inTable('evidence_items').onDelete('CASCADE').notNullable();
+    table.uuid('target_evidence_id').references('id').inTable('evidence_items').onDelete('CASCADE').notNullable();
+    table.enum('relationship_type', [
+      'PARENT_CHILD',
+      'SIBLING',
+      'DERIVED_FROM',
+      'COPY_OF',
+      'RELATED_TO',
+      'CONTRADICTS',
+      'SUPPORTS',
+      'TEMPORAL_SEQUENCE',
+      'CAUSAL',
+      'CONTEXTUAL'
+    ]).notNullable();
+    table.enum('strength', ['WEAK', 'MODERATE', 'STRONG', 'DEFINITIVE']).notNullable().defaultTo('MODERATE');
+    table.integer('confidence').notNullable().checkBetween([0, 100]);
+
+    table.text('description').notNullable();
+    table.string('method', 255).notNullable(); // How the relationship was established
+    table.jsonb('supporting_evidence').defaultTo('[]'); // Array of RelationshipEvidence
+    table.jsonb('tags').defaultTo('[]');
+    table.text('notes');
+
+    table.uuid('established_by').references('id').inTable('users').notNullable();
+    table.timestamp('established_at').defaultTo(knex.fn.now());
+    table.boolean('verified').defaultTo(false);
+    table.uuid('verified_by').references('id').inTable('users');
+    table.timestamp('verified_at');
+
+    table.unique(['source_evidence_id', 'target_evidence_id', 'relationship_type']);
+    table.index(['case_id', 'relationship_type'], 'idx_evidence_relationships_case_type');
+    table.index(['source_evidence_id'], 'idx_evidence_relationships_source');
+    table.index(['target_evidence_id'], 'idx_evidence_relationships_target');
+  });
+
+  await knex.raw(`
+    ALTER TABLE evidence_relationships
+    ADD CONSTRAINT chk_evidence_relationships_distinct_ends
+    CHECK (source_evidence_id <> target_evidence_id)
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('evidence_relationships');
+};
@@ -0,0 +1,122 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Lifecycle status (mirrors EvidenceStatus in src/evidence-chain/types)
+  await knex.schema.alterTable('evidence_items', function(table) {
+    table.enum('status', [
+      'COLLECTED', 'PROCESSING', 'ANALYZED', 'READY', 'PRESENTED', 'ARCHIVED', 'DESTROYED', 'DISPUTED',
+    ]).notNullable().defaultTo('COLLECTED');
+    table.timestamp('status_changed_at').defaultTo(knex.fn.now());
+
+    table.index(['status'], 'idx_evidence_items_status');
+  });
+
+  await knex.schema.createTable('evidence_lifecycle_activities', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('evidence_id').references('id').inTable('evidence_items').notNullable();
+    table.integer('sequence_number').notNullable();
+    table.string('from_status', 20); // Null for the activity that created the item
+    table.string('to_status', 20).notNullable();
+    table.string('stage', 20).notNullable();
+    table.string('activity_type', 20).notNullable();
+    table.text('description').notNullable();
+    table.text('results');
+    table.string('court_order_reference', 255);
+    table.jsonb('requirements').notNullable(); // Preconditions as evaluated at the time of the transition
+    table.text('notes');
+    table.uuid('performed_by').references('id').inTable('users').notNullable();
+    table.timestamp('performed_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['evidence_id', 'sequence_number'], 'uq_evidence_lifecycle_activities_sequence');
+    table.index(['to_status'], 'idx_evidence_lifecycle_activities_to_status');
+    table.index(['performed_by'], 'idx_evidence_lifecycle_activities_performed_by');
+  });
+
+  // Lifecycle history is append-only
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION prevent_lifecycle_activity_mutation()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        RAISE EXCEPTION 'evidence_lifecycle_activities is append-only (% rejected)', TG_OP;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_lifecycle_activities_append_only
+    BEFORE UPDATE OR DELETE ON evidence_lifecycle_activities
+    FOR EACH ROW EXECUTE FUNCTION prevent_lifecycle_activity_mutation();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_lifecycle_activities_no_truncate
+    BEFORE TRUNCATE ON evidence_lifecycle_activities
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_lifecycle_activity_mutation();
+  `);
+
+  // A status change is only accepted when the latest recorded activity describes it,
+  // so evidence rows cannot be moved around the lifecycle by a plain UPDATE
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION enforce_evidence_status_transition()
+    RETURNS TRIGGER AS $$
+    DECLARE
+        latest RECORD;
+    BEGIN
+        IF NEW.status IS DISTINCT FROM OLD.status THEN
+            SELECT from_status, to_status INTO latest
+            FROM evidence_lifecycle_activities
+            WHERE evidence_id = NEW.id
+            ORDER BY sequence_number DESC
+            LIMIT 1;
+
+            IF NOT FOUND OR latest.from_status IS DISTINCT FROM OLD.status::text OR latest.to_status <> NEW.status::text THEN
+                RAISE EXCEPTION 'evidence % cannot move from % to % without a recorded lifecycle transition', NEW.id, OLD.status, NEW.status;
+            END IF;
+
+            NEW.status_changed_at = NOW();
+        END IF;
+        RETURN NEW;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_items_status_transition
+    BEFORE UPDATE OF status ON evidence_items
+    FOR EACH ROW EXECUTE FUNCTION enforce_evidence_status_transition();
+  `);
+
+  // Existing items start their history at COLLECTED, attributed to whoever verified the item or
+  // uploaded its document. Items with neither start their history at their next transition.
+  await knex.raw(`
+    INSERT INTO evidence_lifecycle_activities
+      (evidence_id, sequence_number, from_status, to_status, stage, activity_type, description, requirements, performed_by, performed_at)
+    SELECT item.id, 1, NULL, 'COLLECTED', 'COLLECTION', 'COLLECTION', 'Lifecycle tracking started', '[]'::jsonb,
+           COALESCE(item.verified_by, document.uploaded_by), COALESCE(item.created_at, NOW())
+    FROM evidence_items item
+    LEFT JOIN documents document ON document.id = item.document_id
+    WHERE COALESCE(item.verified_by, document.uploaded_by) IS NOT NULL
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_items_status_transition ON evidence_items');
+  await knex.raw('DROP FUNCTION IF EXISTS enforce_evidence_status_transition()');
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_lifecycle_activities_no_truncate ON evidence_lifecycle_activities');
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_lifecycle_activities_append_only ON evidence_lifecycle_activities');
+  await knex.raw('DROP FUNCTION IF EXISTS prevent_lifecycle_activity_mutation()');
+  await knex.schema.dropTable('evidence_lifecycle_activities');
+
+  await knex.schema.alterTable('evidence_items', function(table) {
+    table.dropIndex(['status'], 'idx_evidence_items_status');
+    table.dropColumn('status_changed_at');
+    table.dropColumn('status');
+  });
+};
@@ -0,0 +1,69 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Leaves of the RFC 6962 evidence transparency log, in log order
+  await knex.schema.createTable('transparency_log_leaves', function(table) {
+    table.bigInteger('leaf_index').primary();
+    table.enum('leaf_type', ['EVIDENCE_FINGERPRINT', 'CUSTODY_EVENT']).notNullable();
+    table.uuid('evidence_id').references('id').inTable('evidence_items').notNullable();
+    table.uuid('source_id').notNullable(); // Evidence item or custody ledger entry the leaf records
+    table.text('leaf_data').notNullable(); // Exact bytes that were hashed (canonical JSON)
+    table.string('leaf_hash', 64).notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['leaf_hash'], 'uq_transparency_log_leaves_leaf_hash');
+    table.index(['evidence_id'], 'idx_transparency_log_leaves_evidence_id');
+    table.index(['leaf_type', 'source_id'], 'idx_transparency_log_leaves_source');
+  });
+
+  await knex.schema.createTable('transparency_log_tree_heads', function(table) {
+    table.bigInteger('tree_size').primary();
+    table.string('root_hash', 64).notNullable();
+    table.timestamp('tree_timestamp').notNullable(); // Signed value, millisecond precision
+    table.text('signature').notNullable();
+    table.string('signature_algorithm', 50).notNullable();
+    table.string('log_id', 64).notNullable(); // SHA-256 of the signing public key
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+  });
+
+  // Neither leaves nor published tree heads may ever change
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION prevent_transparency_log_mutation()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        RAISE EXCEPTION '% is append-only (% rejected)', TG_TABLE_NAME, TG_OP;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  for (const tableName of ['transparency_log_leaves', 'transparency_log_tree_heads']) {
+    await knex.raw(`
+      CREATE TRIGGER ${tableName}_append_only
+      BEFORE UPDATE OR DELETE ON ${tableName}
+      FOR EACH ROW EXECUTE FUNCTION prevent_transparency_log_mutation();
+    `);
+
+    await knex.raw(`
+      CREATE TRIGGER ${tableName}_no_truncate
+      BEFORE TRUNCATE ON ${tableName}
+      FOR EACH STATEMENT EXECUTE FUNCTION prevent_transparency_log_mutation();
+    `);
+  }
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  for (const tableName of ['transparency_log_tree_heads', 'transparency_log_leaves']) {
+    await knex.raw(`DROP TRIGGER IF EXISTS ${tableName}_no_truncate ON ${tableName}`);
+    await knex.raw(`DROP TRIGGER IF EXISTS ${tableName}_append_only ON ${tableName}`);
+  }
+  await knex.raw('DROP FUNCTION IF EXISTS prevent_transparency_log_mutation()');
+  await knex.schema.dropTable('transparency_log_tree_heads');
+  await knex.schema.dropTable('transparency_log_leaves');
+};
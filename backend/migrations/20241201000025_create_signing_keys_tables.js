@@ -0,0 +1,154 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Self-signed root certificates of the internal CA, one per CA key
+  await knex.schema.createTable('signing_certificate_authorities', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('key_fingerprint', 64).notNullable(); // SHA-256 of the CA public key (SPKI DER)
+    table.string('common_name', 255).notNullable();
+    table.string('organization', 255);
+    table.string('serial_number', 40).notNullable();
+    table.text('certificate').notNullable(); // PEM
+    table.timestamp('not_before').notNullable();
+    table.timestamp('not_after').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['key_fingerprint'], 'uq_signing_certificate_authorities_key_fingerprint');
+  });
+
+  // Per-user signing keys; the private key is only stored encrypted under the user's signing passphrase
+  await knex.schema.createTable('user_signing_keys', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').references('id').inTable('users').notNullable();
+    table.string('algorithm', 50).notNullable();
+    table.text('public_key').notNullable(); // PEM (SPKI)
+    table.string('key_fingerprint', 64).notNullable();
+    table.text('encrypted_private_key').notNullable(); // base64(salt || iv || tag || PKCS#8 DER ciphertext)
+    table.jsonb('kdf_params').notNullable();
+
+    // Certificate issued by the internal CA
+    table.string('certificate_serial', 40).notNullable();
+    table.text('certificate').notNullable(); // PEM
+    table.string('issuer_fingerprint', 64).notNullable();
+    table.timestamp('not_before').notNullable();
+    table.timestamp('not_after').notNullable();
+
+    // Revocation
+    table.enum('status', ['ACTIVE', 'REVOKED']).notNullable().defaultTo('ACTIVE');
+    table.string('revocation_reason', 30);
+    table.timestamp('revoked_at');
+    table.uuid('revoked_by').references('id').inTable('users');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['key_fingerprint'], 'uq_user_signing_keys_key_fingerprint');
+    table.unique(['certificate_serial'], 'uq_user_signing_keys_certificate_serial');
+    table.index(['user_id'], 'idx_user_signing_keys_user_id');
+    table.index(['status'], 'idx_user_signing_keys_status');
+  });
+
+  // At most one usable key per user
+  await knex.raw(`
+    CREATE UNIQUE INDEX uq_user_signing_keys_active_user
+    ON user_signing_keys (user_id)
+    WHERE status = 'ACTIVE'
+  `);
+
+  // Keys and certificates never change after issue, and revocation is final
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION enforce_signing_key_revocation()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        IF TG_OP <> 'UPDATE' THEN
+            RAISE EXCEPTION 'user_signing_keys rows cannot be removed (% rejected)', TG_OP;
+        END IF;
+
+        IF OLD.status = 'REVOKED'
+           OR NEW.status <> 'REVOKED'
+           OR NEW.revoked_at IS NULL
+           OR NEW.revocation_reason IS NULL
+           OR (NEW.user_id, NEW.algorithm, NEW.public_key, NEW.key_fingerprint, NEW.encrypted_private_key,
+               NEW.certificate_serial, NEW.certificate, NEW.issuer_fingerprint, NEW.not_before, NEW.not_after)
+              IS DISTINCT FROM
+              (OLD.user_id, OLD.algorithm, OLD.public_key, OLD.key_fingerprint, OLD.encrypted_private_key,
+               OLD.certificate_serial, OLD.certificate, OLD.issuer_fingerprint, OLD.not_before, OLD.not_after) THEN
+            RAISE EXCEPTION 'signing key % can only be revoked once and is otherwise immutable', OLD.id;
+        END IF;
+        RETURN NEW;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER user_signing_keys_revocation_only
+    BEFORE UPDATE OR DELETE ON user_signing_keys
+    FOR EACH ROW EXECUTE FUNCTION enforce_signing_key_revocation();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER user_signing_keys_no_truncate
+    BEFORE TRUNCATE ON user_signing_keys
+    FOR EACH STATEMENT EXECUTE FUNCTION enforce_signing_key_revocation();
+  `);
+
+  // Custodian and witness signatures over custody ledger entries
+  // (mirrors CustodyRecord.digitalSignature / witnessSignature in src/evidence-chain/types)
+  await knex.schema.createTable('evidence_custody_signatures', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('custody_entry_id').references('id').inTable('evidence_custody_ledger').notNullable();
+    table.uuid('evidence_id').references('id').inTable('evidence_items').notNullable();
+    table.enum('role', ['CUSTODIAN', 'WITNESS']).notNullable();
+    table.uuid('signer_id').references('id').inTable('users').notNullable();
+    table.uuid('signing_key_id').references('id').inTable('user_signing_keys').notNullable();
+    table.string('entry_hash', 64).notNullable(); // Ledger entry hash that was signed
+    table.text('signature').notNullable();
+    table.string('signature_algorithm', 50).notNullable();
+    table.timestamp('signed_at').notNullable();
+
+    // Indexes
+    table.unique(['custody_entry_id', 'role'], 'uq_evidence_custody_signatures_entry_role');
+    table.index(['evidence_id'], 'idx_evidence_custody_signatures_evidence_id');
+    table.index(['signing_key_id'], 'idx_evidence_custody_signatures_signing_key_id');
+  });
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION prevent_custody_signature_mutation()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        RAISE EXCEPTION 'evidence_custody_signatures is append-only (% rejected)', TG_OP;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_custody_signatures_append_only
+    BEFORE UPDATE OR DELETE ON evidence_custody_signatures
+    FOR EACH ROW EXECUTE FUNCTION prevent_custody_signature_mutation();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_custody_signatures_no_truncate
+    BEFORE TRUNCATE ON evidence_custody_signatures
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_custody_signature_mutation();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_custody_signatures_no_truncate ON evidence_custody_signatures');
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_custody_signatures_append_only ON evidence_custody_signatures');
+  await knex.raw('DROP FUNCTION IF EXISTS prevent_custody_signature_mutation()');
+  await knex.schema.dropTable('evidence_custody_signatures');
+
+  await knex.raw('DROP TRIGGER IF EXISTS user_signing_keys_no_truncate ON user_signing_keys');
+  await knex.raw('DROP TRIGGER IF EXISTS user_signing_keys_revocation_only ON user_signing_keys');
+  await knex.raw('DROP FUNCTION IF EXISTS enforce_signing_key_revocation()');
+  await knex.schema.dropTable('user_signing_keys');
+
+  await knex.schema.dropTable('signing_certificate_authorities');
+};
@@ -0,0 +1,106 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('integrity_sweeps', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.enum('status', ['RUNNING', 'COMPLETED', 'FAILED']).notNullable().defaultTo('RUNNING');
+    table.uuid('triggered_by').references('id').inTable('users'); // Null when started by the scheduler
+    table.integer('interval_hours').notNullable(); // Items checked more recently than this were skipped
+    table.integer('documents_checked').notNullable().defaultTo(0);
+    table.integer('evidence_checked').notNullable().defaultTo(0);
+    table.integer('tamper_detected').notNullable().defaultTo(0);
+    table.integer('errors').notNullable().defaultTo(0);
+    table.text('failure_reason');
+    table.timestamp('started_at').defaultTo(knex.fn.now());
+    table.timestamp('completed_at');
+
+    table.index(['started_at'], 'idx_integrity_sweeps_started_at');
+  });
+
+  // Only one sweep may run at a time
+  await knex.raw(`
+    CREATE UNIQUE INDEX uq_integrity_sweeps_running
+    ON integrity_sweeps ((status))
+    WHERE status = 'RUNNING'
+  `);
+
+  // One row per check (mirrors TamperCheck in src/evidence-chain/types)
+  await knex.schema.createTable('integrity_checks', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('sweep_id').references('id').inTable('integrity_sweeps');
+    table.enum('item_type', ['EVIDENCE', 'DOCUMENT']).notNullable();
+    table.uuid('item_id').notNullable();
+    table.string('check_type', 30).notNullable();
+    table.uuid('checked_by').references('id').inTable('users'); // Null for scheduled checks
+    table.timestamp('checked_at').defaultTo(knex.fn.now());
+    table.boolean('tamper_detected').notNullable();
+    table.jsonb('tamper_indicators').notNullable();
+    table.integer('integrity_score').notNullable().checkBetween([0, 100]);
+    table.string('check_method', 50).notNullable();
+    table.jsonb('tools').notNullable();
+    table.string('expected_hash', 128);
+    table.string('actual_hash', 128);
+    table.text('notes');
+
+    // Indexes
+    table.index(['item_type', 'item_id', 'checked_at'], 'idx_integrity_checks_item');
+    table.index(['sweep_id'], 'idx_integrity_checks_sweep_id');
+    table.index(['tamper_detected', 'checked_at'], 'idx_integrity_checks_tamper_detected');
+  });
+
+  // Check results are evidence in their own right
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION prevent_integrity_check_mutation()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        RAISE EXCEPTION 'integrity_checks is append-only (% rejected)', TG_OP;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER integrity_checks_append_only
+    BEFORE UPDATE OR DELETE ON integrity_checks
+    FOR EACH ROW EXECUTE FUNCTION prevent_integrity_check_mutation();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER integrity_checks_no_truncate
+    BEFORE TRUNCATE ON integrity_checks
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_integrity_check_mutation();
+  `);
+
+  // Latest result on the checked rows (Evidence.lastIntegrityCheck in src/evidence-chain/types)
+  for (const tableName of ['evidence_items', 'documents']) {
+    await knex.schema.alterTable(tableName, function(table) {
+      table.timestamp('last_integrity_check');
+      table.integer('last_integrity_score');
+      table.boolean('tamper_detected').notNullable().defaultTo(false);
+
+      table.index(['last_integrity_check'], `idx_${tableName}_last_integrity_check`);
+    });
+  }
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  for (const tableName of ['documents', 'evidence_items']) {
+    await knex.schema.alterTable(tableName, function(table) {
+      table.dropIndex(['last_integrity_check'], `idx_${tableName}_last_integrity_check`);
+      table.dropColumn('tamper_detected');
+      table.dropColumn('last_integrity_score');
+      table.dropColumn('last_integrity_check');
+    });
+  }
+
+  await knex.raw('DROP TRIGGER IF EXISTS integrity_checks_no_truncate ON integrity_checks');
+  await knex.raw('DROP TRIGGER IF EXISTS integrity_checks_append_only ON integrity_checks');
+  await knex.raw('DROP FUNCTION IF EXISTS prevent_integrity_check_mutation()');
+  await knex.schema.dropTable('integrity_checks');
+  await knex.schema.dropTable('integrity_sweeps');
+};
@@ -0,0 +1,123 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Registry of places physical evidence can be stored
+  await knex.schema.createTable('storage_locations', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('label_code', 20).notNullable(); // Printed on the shelf/bin label
+    table.string('facility', 255).notNullable();
+    table.string('room', 100).notNullable();
+    table.string('shelf', 50);
+    table.string('bin', 50);
+    table.enum('access_level', ['OPEN', 'RESTRICTED', 'SECURE', 'VAULT', 'CLASSIFIED']).notNullable().defaultTo('RESTRICTED');
+    table.enum('security_level', ['BASIC', 'STANDARD', 'HIGH', 'MAXIMUM', 'SPECIAL']).notNullable().defaultTo('STANDARD');
+    table.jsonb('environment'); // Temperature, humidity, light exposure, special requirements
+    table.integer('capacity'); // Maximum items; unlimited when null
+    table.boolean('active').notNullable().defaultTo(true);
+    table.text('notes');
+    table.uuid('created_by').references('id').inTable('users');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['label_code'], 'uq_storage_locations_label_code');
+    table.index(['facility', 'room'], 'idx_storage_locations_facility_room');
+  });
+
+  await knex.raw(`
+    CREATE UNIQUE INDEX uq_storage_locations_position
+    ON storage_locations (facility, room, COALESCE(shelf, ''), COALESCE(bin, ''))
+  `);
+
+  // Physical properties of evidence items taken in as objects rather than files
+  await knex.schema.createTable('physical_evidence', function(table) {
+    table.uuid('evidence_id').primary().references('id').inTable('evidence_items');
+    table.string('label_code', 20).notNullable();
+    table.text('description').notNullable();
+    table.string('category', 100);
+    table.string('dimensions', 100);
+    table.decimal('weight', 10, 3); // Kilograms
+    table.text('condition_on_intake').notNullable();
+    table.uuid('storage_location_id').references('id').inTable('storage_locations'); // Null while out of storage
+    table.timestamp('located_at');
+    table.uuid('intake_by').references('id').inTable('users').notNullable();
+    table.timestamp('intake_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['label_code'], 'uq_physical_evidence_label_code');
+    table.index(['storage_location_id'], 'idx_physical_evidence_storage_location_id');
+  });
+
+  // Tamper-evident seals (mirrors SealInfo in src/evidence-chain/types)
+  await knex.schema.createTable('evidence_seals', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('evidence_id').references('id').inTable('evidence_items').notNullable();
+    table.string('seal_number', 100).notNullable();
+    table.string('seal_type', 100).notNullable();
+    table.string('label_code', 20).notNullable();
+    table.enum('condition', ['INTACT', 'BROKEN', 'TAMPERED', 'MISSING']).notNullable().defaultTo('INTACT');
+    table.uuid('applied_by').references('id').inTable('users').notNullable();
+    table.timestamp('applied_at').notNullable();
+    table.uuid('applied_custody_entry_id').references('id').inTable('evidence_custody_ledger');
+    table.uuid('removed_by').references('id').inTable('users');
+    table.timestamp('removed_at');
+    table.uuid('removed_custody_entry_id').references('id').inTable('evidence_custody_ledger');
+    table.text('notes');
+
+    table.unique(['seal_number'], 'uq_evidence_seals_seal_number');
+    table.unique(['label_code'], 'uq_evidence_seals_label_code');
+    table.index(['evidence_id'], 'idx_evidence_seals_evidence_id');
+  });
+
+  // Seal condition as found at each custody hand-off
+  await knex.schema.createTable('evidence_seal_inspections', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('seal_id').references('id').inTable('evidence_seals').notNullable();
+    table.uuid('evidence_id').references('id').inTable('evidence_items').notNullable();
+    table.uuid('custody_entry_id').references('id').inTable('evidence_custody_ledger').notNullable();
+    table.enum('condition', ['INTACT', 'BROKEN', 'TAMPERED', 'MISSING']).notNullable();
+    table.boolean('removed').notNullable().defaultTo(false);
+    table.uuid('inspected_by').references('id').inTable('users').notNullable();
+    table.timestamp('inspected_at').defaultTo(knex.fn.now());
+    table.text('notes');
+
+    table.unique(['seal_id', 'custody_entry_id'], 'uq_evidence_seal_inspections_seal_entry');
+    table.index(['evidence_id'], 'idx_evidence_seal_inspections_evidence_id');
+  });
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION prevent_seal_inspection_mutation()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        RAISE EXCEPTION 'evidence_seal_inspections is append-only (% rejected)', TG_OP;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_seal_inspections_append_only
+    BEFORE UPDATE OR DELETE ON evidence_seal_inspections
+    FOR EACH ROW EXECUTE FUNCTION prevent_seal_inspection_mutation();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_seal_inspections_no_truncate
+    BEFORE TRUNCATE ON evidence_seal_inspections
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_seal_inspection_mutation();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_seal_inspections_no_truncate ON evidence_seal_inspections');
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_seal_inspections_append_only ON evidence_seal_inspections');
+  await knex.raw('DROP FUNCTION IF EXISTS prevent_seal_inspection_mutation()');
+  await knex.schema.dropTable('evidence_seal_inspections');
+  await knex.schema.dropTable('evidence_seals');
+  await knex.schema.dropTable('physical_evidence');
+  await knex.schema.dropTable('storage_locations');
+};
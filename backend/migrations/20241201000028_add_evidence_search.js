@@ -0,0 +1,77 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Descriptive fields searched alongside the linked document (mirrors Evidence in src/evidence-chain/types)
+  await knex.schema.alterTable('evidence_items', function(table) {
+    table.string('title', 500);
+    table.text('description');
+    table.jsonb('keywords').notNullable().defaultTo('[]');
+    table.jsonb('statutes').notNullable().defaultTo('[]'); // Statutes and regulations the item bears on
+    table.jsonb('tags').notNullable().defaultTo('[]');
+    table.enum('classification', ['public', 'internal', 'confidential', 'secret']).notNullable().defaultTo('internal');
+
+    table.index(['classification'], 'idx_evidence_items_classification');
+  });
+
+  // Weights: A title, B keywords/statutes/tags/type, C description and notes.
+  // Search scopes select weights with ts_filter.
+  await knex.raw(`
+    ALTER TABLE evidence_items ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(
+        jsonb_to_tsvector('english', keywords, '["string"]') ||
+        jsonb_to_tsvector('english', statutes, '["string"]') ||
+        jsonb_to_tsvector('english', tags, '["string"]') ||
+        to_tsvector('english', coalesce(evidence_type, '')),
+        'B'
+      ) ||
+      setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(notes, '')), 'C')
+    ) STORED
+  `);
+
+  await knex.raw('CREATE INDEX idx_evidence_items_search_vector ON evidence_items USING GIN (search_vector)');
+
+  // Matches the expression the search service uses for linked documents
+  await knex.raw(`
+    CREATE INDEX idx_documents_search_text ON documents
+    USING GIN (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(description, '')))
+  `);
+
+  await knex.schema.createTable('saved_searches', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('owner_id').references('id').inTable('users').notNullable();
+    table.string('name', 255).notNullable();
+    table.text('description');
+    table.jsonb('query').notNullable(); // EvidenceSearchQuery
+    table.boolean('shared').notNullable().defaultTo(false); // Visible to every user; results still follow their clearance
+    table.timestamp('last_run_at');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['owner_id', 'name'], 'uq_saved_searches_owner_name');
+    table.index(['shared'], 'idx_saved_searches_shared');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTable('saved_searches');
+  await knex.raw('DROP INDEX IF EXISTS idx_documents_search_text');
+  await knex.raw('DROP INDEX IF EXISTS idx_evidence_items_search_vector');
+
+  await knex.schema.alterTable('evidence_items', function(table) {
+    table.dropIndex(['classification'], 'idx_evidence_items_classification');
+    table.dropColumn('search_vector');
+    table.dropColumn('classification');
+    table.dropColumn('tags');
+    table.dropColumn('statutes');
+    table.dropColumn('keywords');
+    table.dropColumn('description');
+    table.dropColumn('title');
+  });
+};
@@ -0,0 +1,54 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Mirrors EvidenceBatchOperation in src/evidence-chain/types
+  await knex.schema.createTable('evidence_batch_operations', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.enum('type', [
+      'TRANSFER_CUSTODY', 'UPDATE_CLASSIFICATION', 'APPLY_LEGAL_HOLD',
+      'REMOVE_LEGAL_HOLD', 'VERIFY_INTEGRITY', 'UPDATE_METADATA'
+    ]).notNullable();
+    table.jsonb('parameters').notNullable();
+    table.jsonb('selection'); // Search the items were resolved from, when not listed by id
+    table.enum('status', ['PENDING', 'RUNNING', 'COMPLETED', 'PARTIAL', 'FAILED', 'CANCELLED'])
+      .notNullable().defaultTo('PENDING');
+    table.integer('total_items').notNullable();
+    table.integer('processed_items').notNullable().defaultTo(0);
+    table.uuid('requested_by').references('id').inTable('users').notNullable();
+    table.timestamp('requested_at').defaultTo(knex.fn.now());
+    table.timestamp('started_at');
+    table.timestamp('completed_at');
+    table.uuid('cancelled_by').references('id').inTable('users');
+    table.text('failure_reason'); // Set when the run itself stopped, not for item failures
+    table.text('notes');
+
+    table.index(['requested_by', 'requested_at'], 'idx_evidence_batch_operations_requested_by');
+    table.index(['status'], 'idx_evidence_batch_operations_status');
+  });
+
+  // One row per targeted item, in the order they are processed
+  await knex.schema.createTable('evidence_batch_items', function(table) {
+    table.uuid('batch_id').references('id').inTable('evidence_batch_operations').onDelete('CASCADE').notNullable();
+    table.uuid('evidence_id').notNullable(); // Not a foreign key: unknown ids are reported as failures
+    table.integer('sequence').notNullable();
+    table.enum('status', ['PENDING', 'SUCCEEDED', 'FAILED', 'SKIPPED']).notNullable().defaultTo('PENDING');
+    table.string('error_code', 50);
+    table.text('error');
+    table.jsonb('details');
+    table.timestamp('processed_at');
+
+    table.primary(['batch_id', 'evidence_id']);
+    table.index(['batch_id', 'status', 'sequence'], 'idx_evidence_batch_items_status');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTable('evidence_batch_items');
+  await knex.schema.dropTable('evidence_batch_operations');
+};
@@ -0,0 +1,93 @@
+const SEVERITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const RESULTS = ['COMPLIANT', 'NON_COMPLIANT', 'PARTIALLY_COMPLIANT', 'UNDER_REVIEW'];
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Mirrors ComplianceStandard in src/evidence-chain/types, with rule-backed requirements
+  await knex.schema.createTable('compliance_standards', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('name', 255).notNullable();
+    table.string('version', 50).notNullable();
+    table.string('authority', 255).notNullable();
+    table.string('jurisdiction', 100);
+    table.text('description');
+    table.jsonb('requirements').notNullable(); // ComplianceRequirement[]
+    table.boolean('active').notNullable().defaultTo(true);
+    table.uuid('created_by').references('id').inTable('users'); // Null for seeded standards
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['name', 'version'], 'uq_compliance_standards_name_version');
+  });
+
+  // Mirrors ComplianceCheck in src/evidence-chain/types
+  await knex.schema.createTable('compliance_checks', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.enum('check_type', ['ROUTINE_AUDIT', 'COURT_ORDERED', 'INCIDENT_TRIGGERED', 'PRE_TRIAL', 'REGULATORY']).notNullable();
+    table.uuid('performed_by').references('id').inTable('users').notNullable();
+    table.timestamp('performed_at').defaultTo(knex.fn.now());
+    table.string('case_id', 255);
+    table.jsonb('scope').notNullable(); // Evidence ids
+    table.jsonb('standards').notNullable(); // Standards as they were when the check ran
+    table.enum('result', RESULTS).notNullable();
+    table.integer('score').notNullable().checkBetween([0, 100]);
+    table.jsonb('findings').notNullable();
+    table.jsonb('recommendations').notNullable();
+    table.timestamp('next_check_due');
+    table.text('notes');
+
+    table.index(['case_id', 'performed_at'], 'idx_compliance_checks_case_id');
+    table.index(['performed_at'], 'idx_compliance_checks_performed_at');
+  });
+
+  // Per-item outcome, so the latest result for each item can be rolled up per case
+  await knex.schema.createTable('compliance_check_items', function(table) {
+    table.uuid('check_id').references('id').inTable('compliance_checks').onDelete('CASCADE').notNullable();
+    table.uuid('evidence_id').references('id').inTable('evidence_items').notNullable();
+    table.enum('result', RESULTS).notNullable();
+    table.integer('score').notNullable().checkBetween([0, 100]);
+    table.boolean('trial_ready').notNullable();
+    table.integer('requirements_checked').notNullable();
+    table.jsonb('findings').notNullable();
+    table.timestamp('checked_at').notNullable();
+
+    table.primary(['check_id', 'evidence_id']);
+    table.index(['evidence_id', 'checked_at'], 'idx_compliance_check_items_evidence_id');
+  });
+
+  // Mirrors ComplianceAction in src/evidence-chain/types; OVERDUE is derived, not stored
+  await knex.schema.createTable('compliance_actions', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('check_id').references('id').inTable('compliance_checks').onDelete('CASCADE').notNullable();
+    table.string('standard', 320).notNullable();
+    table.string('requirement', 255).notNullable();
+    table.text('description').notNullable();
+    table.enum('priority', SEVERITIES).notNullable();
+    table.uuid('assigned_to').references('id').inTable('users').notNullable();
+    table.timestamp('due_date').notNullable();
+    table.enum('status', ['PENDING', 'IN_PROGRESS', 'COMPLETED']).notNullable().defaultTo('PENDING');
+    table.jsonb('evidence').notNullable().defaultTo('[]');
+    table.text('notes');
+    table.timestamp('completed_at');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['check_id'], 'idx_compliance_actions_check_id');
+    table.index(['assigned_to', 'status'], 'idx_compliance_actions_assigned_to');
+    table.index(['status', 'due_date'], 'idx_compliance_actions_status_due_date');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTable('compliance_actions');
+  await knex.schema.dropTable('compliance_check_items');
+  await knex.schema.dropTable('compliance_checks');
+  await knex.schema.dropTable('compliance_standards');
+};
@@ -0,0 +1,124 @@
+const LIFECYCLE_STATUSES = ['COLLECTED', 'PROCESSING', 'ANALYZED', 'READY', 'PRESENTED', 'ARCHIVED', 'DESTROYED', 'DISPUTED'];
+
+const statusCheck = (statuses) =>
+  `ALTER TABLE evidence_items ADD CONSTRAINT evidence_items_status_check CHECK (status IN (${statuses.map(status => `'${status}'`).join(', ')}))`;
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Returned items leave the lifecycle like destroyed ones
+  await knex.raw('ALTER TABLE evidence_items DROP CONSTRAINT IF EXISTS evidence_items_status_check');
+  await knex.raw(statusCheck([...LIFECYCLE_STATUSES, 'RETURNED']));
+
+  // Mirrors Evidence.destructionDate / destructionMethod in src/evidence-chain/types
+  await knex.schema.alterTable('evidence_items', function(table) {
+    table.timestamp('destruction_date');
+    table.string('destruction_method', 100);
+  });
+
+  await knex.schema.createTable('evidence_dispositions', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('evidence_id').references('id').inTable('evidence_items').notNullable();
+    table.enum('disposition_type', ['DESTRUCTION', 'RETURN']).notNullable();
+    table.enum('status', ['PENDING_APPROVAL', 'APPROVED', 'REJECTED', 'CANCELLED', 'COMPLETED', 'FAILED'])
+      .notNullable()
+      .defaultTo('PENDING_APPROVAL');
+    table.string('method', 100).notNullable(); // Destruction method, or transfer method for a return
+    table.text('reason').notNullable();
+    table.jsonb('recipient'); // Returns only: DispositionRecipient
+    table.string('court_order_reference', 255);
+    table.uuid('court_order_document_id').references('id').inTable('documents');
+    table.uuid('requested_by').references('id').inTable('users').notNullable();
+    table.timestamp('requested_at').defaultTo(knex.fn.now());
+    table.uuid('cancelled_by').references('id').inTable('users');
+    table.uuid('executed_by').references('id').inTable('users');
+    table.timestamp('executed_at');
+    table.text('failure_reason');
+    table.jsonb('erasures'); // FileErasure[] from the last execution attempt
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['evidence_id'], 'idx_evidence_dispositions_evidence_id');
+    table.index(['status', 'requested_at'], 'idx_evidence_dispositions_status');
+  });
+
+  // One open request per item
+  await knex.raw(`
+    CREATE UNIQUE INDEX uq_evidence_dispositions_open
+    ON evidence_dispositions (evidence_id)
+    WHERE status IN ('PENDING_APPROVAL', 'APPROVED', 'FAILED')
+  `);
+
+  await knex.schema.createTable('evidence_disposition_approvals', function(table) {
+    table.uuid('disposition_id').references('id').inTable('evidence_dispositions').onDelete('CASCADE').notNullable();
+    table.uuid('approver_id').references('id').inTable('users').notNullable();
+    table.enum('decision', ['APPROVED', 'REJECTED']).notNullable();
+    table.text('comments');
+    table.timestamp('decided_at').defaultTo(knex.fn.now());
+
+    table.primary(['disposition_id', 'approver_id']);
+  });
+
+  // Signed certificates of destruction and return receipts
+  await knex.schema.createTable('evidence_disposition_certificates', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('disposition_id').references('id').inTable('evidence_dispositions').notNullable();
+    table.uuid('evidence_id').references('id').inTable('evidence_items').notNullable();
+    table.enum('certificate_type', ['CERTIFICATE_OF_DESTRUCTION', 'RETURN_RECEIPT']).notNullable();
+    table.string('certificate_number', 50).notNullable();
+    table.jsonb('content').notNullable();
+    table.string('content_hash', 64).notNullable(); // SHA-256 of the canonical content
+    table.text('signature').notNullable();
+    table.string('signature_algorithm', 50).notNullable();
+    table.string('signing_key_fingerprint', 64).notNullable();
+    table.timestamp('issued_at').notNullable();
+
+    table.unique(['disposition_id'], 'uq_evidence_disposition_certificates_disposition_id');
+    table.unique(['certificate_number'], 'uq_evidence_disposition_certificates_number');
+    table.index(['evidence_id'], 'idx_evidence_disposition_certificates_evidence_id');
+  });
+
+  // Certificates stay in the audit trail: append-only
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION prevent_disposition_certificate_mutation()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        RAISE EXCEPTION 'evidence_disposition_certificates is append-only (% rejected)', TG_OP;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_disposition_certificates_append_only
+    BEFORE UPDATE OR DELETE ON evidence_disposition_certificates
+    FOR EACH ROW EXECUTE FUNCTION prevent_disposition_certificate_mutation();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER evidence_disposition_certificates_no_truncate
+    BEFORE TRUNCATE ON evidence_disposition_certificates
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_disposition_certificate_mutation();
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_disposition_certificates_no_truncate ON evidence_disposition_certificates');
+  await knex.raw('DROP TRIGGER IF EXISTS evidence_disposition_certificates_append_only ON evidence_disposition_certificates');
+  await knex.raw('DROP FUNCTION IF EXISTS prevent_disposition_certificate_mutation()');
+  await knex.schema.dropTable('evidence_disposition_certificates');
+  await knex.schema.dropTable('evidence_disposition_approvals');
+  await knex.schema.dropTable('evidence_dispositions');
+
+  await knex.schema.alterTable('evidence_items', function(table) {
+    table.dropColumn('destruction_method');
+    table.dropColumn('destruction_date');
+  });
+
+  await knex.raw('ALTER TABLE evidence_items DROP CONSTRAINT IF EXISTS evidence_items_status_check');
+  await knex.raw(statusCheck(LIFECYCLE_STATUSES));
+};
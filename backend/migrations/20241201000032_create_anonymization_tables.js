@@ -0,0 +1,82 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Pseudonym mappings are encrypted to the public key; the private key is wrapped
+  // under a passphrase held by the authorized personnel, never by the server
+  await knex.schema.createTable('pseudonym_keys', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('name', 255).notNullable();
+    table.string('algorithm', 50).notNullable();
+    table.text('public_key').notNullable(); // SPKI PEM
+    table.string('key_fingerprint', 64).notNullable(); // SHA-256 of the SPKI DER
+    table.text('encrypted_private_key').notNullable();
+    table.jsonb('kdf_params').notNullable();
+    table.jsonb('authorized_personnel').notNullable(); // User IDs allowed to re-identify
+    table.uuid('created_by').references('id').inTable('users').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['name'], 'uq_pseudonym_keys_name');
+    table.unique(['key_fingerprint'], 'uq_pseudonym_keys_fingerprint');
+  });
+
+  await knex.schema.createTable('pseudonym_mappings', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('key_id').references('id').inTable('pseudonym_keys').notNullable();
+    table.string('category', 30).notNullable();
+    table.string('pseudonym', 50).notNullable();
+    table.string('value_digest', 64).notNullable(); // HMAC of the normalized value, for reuse across runs
+    table.text('wrapped_key').notNullable(); // Per-mapping data key, RSA-OAEP under the public key
+    table.text('encrypted_value').notNullable(); // AES-256-GCM: iv + tag + ciphertext
+    table.uuid('created_by').references('id').inTable('users').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['key_id', 'value_digest'], 'uq_pseudonym_mappings_value');
+    table.unique(['key_id', 'pseudonym'], 'uq_pseudonym_mappings_pseudonym');
+  });
+
+  await knex.schema.createTable('pseudonym_reidentifications', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('key_id').references('id').inTable('pseudonym_keys').notNullable();
+    table.uuid('requested_by').references('id').inTable('users').notNullable();
+    table.text('reason').notNullable();
+    table.jsonb('pseudonyms').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['key_id', 'created_at'], 'idx_pseudonym_reidentifications_key_id');
+  });
+
+  await knex.schema.createTable('anonymization_runs', function(table) {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.enum('source_type', ['EVIDENCE', 'COMMUNICATION', 'DOCUMENT_TEXT']).notNullable();
+    table.jsonb('source_ids').notNullable();
+    table.uuid('key_id').references('id').inTable('pseudonym_keys');
+    table.jsonb('rules').notNullable(); // AnonymizationFieldRule[]; free-text terms are not kept
+    table.integer('term_count').notNullable().defaultTo(0);
+    table.boolean('detect_patterns').notNullable().defaultTo(true);
+    table.jsonb('quasi_identifiers').notNullable().defaultTo('[]');
+    table.jsonb('records').notNullable(); // AnonymizedRecord[]
+    table.jsonb('risk').notNullable(); // ReidentificationRisk
+    table.enum('status', ['ANONYMIZED', 'RELEASED']).notNullable().defaultTo('ANONYMIZED');
+    table.uuid('created_by').references('id').inTable('users').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.uuid('released_by').references('id').inTable('users');
+    table.timestamp('released_at');
+    table.string('released_to', 255);
+
+    table.index(['source_type', 'created_at'], 'idx_anonymization_runs_source_type');
+    table.index(['status'], 'idx_anonymization_runs_status');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTable('anonymization_runs');
+  await knex.schema.dropTable('pseudonym_reidentifications');
+  await knex.schema.dropTable('pseudonym_mappings');
+  await knex.schema.dropTable('pseudonym_keys');
+};
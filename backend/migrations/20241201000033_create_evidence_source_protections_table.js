@@ -0,0 +1,30 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Mirrors Evidence.sourceProtection in src/evidence-chain/types; denials go to audit_logs
+  await knex.schema.createTable('evidence_source_protections', function(table) {
+    table.uuid('evidence_id').primary().references('id').inTable('evidence_items').onDelete('CASCADE');
+    table.boolean('protection_required').notNullable().defaultTo(true);
+    table.jsonb('protection_types').notNullable().defaultTo('[]');
+    table.jsonb('restrictions').notNullable().defaultTo('[]'); // SourceRestriction[]
+    table.jsonb('authorized_personnel').notNullable().defaultTo('[]'); // User IDs exempt from every restriction
+    table.timestamp('review_date').notNullable();
+    table.text('notes');
+    table.uuid('created_by').references('id').inTable('users').notNullable();
+    table.uuid('updated_by').references('id').inTable('users').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['review_date'], 'idx_evidence_source_protections_review_date');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTable('evidence_source_protections');
+};
@@ -0,0 +1,182 @@
+/**
+ * Standards every deployment starts with. Requirements name a built-in rule
+ * from services/compliance; more standards can be declared through the API.
+ *
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.seed = async function(knex) {
+  // Clear existing entries
+  await knex('compliance_standards').del();
+
+  // Insert seed entries
+  await knex('compliance_standards').insert([
+    {
+      id: 'dd0e8400-e29b-41d4-a716-446655440001',
+      name: 'Federal Rules of Evidence - Rule 901',
+      version: '2011',
+      authority: 'United States Congress',
+      jurisdiction: 'US-Federal',
+      description: 'Authenticating or identifying evidence: the proponent must produce evidence sufficient to support a finding that the item is what it is claimed to be.',
+      requirements: [
+        {
+          id: '901(a)',
+          description: 'Authenticity has been verified and the verifier recorded',
+          rule: 'AUTHENTICITY_VERIFIED',
+          appliesTo: 'ALL',
+          severity: 'CRITICAL',
+          remediation: 'Have the legal team verify authenticity and record the basis for it',
+          remediationDays: 14,
+        },
+        {
+          id: '901(b)(1)',
+          description: 'Custody from collection to now can be testified to without a break',
+          rule: 'CUSTODY_CHAIN_INTACT',
+          appliesTo: 'ALL',
+          severity: 'HIGH',
+          remediation: 'Investigate the broken custody link and document the gap with a sworn statement',
+          remediationDays: 7,
+        },
+        {
+          id: '901(b)(9)',
+          description: 'A hash of the acquired data shows the process produced an accurate result',
+          rule: 'INTEGRITY_HASH_RECORDED',
+          appliesTo: 'DIGITAL',
+          severity: 'HIGH',
+          remediation: 'Record the hash of the original acquisition',
+          remediationDays: 7,
+        },
+      ],
+    },
+    {
+      id: 'dd0e8400-e29b-41d4-a716-446655440002',
+      name: 'Chain of Custody Completeness',
+      version: '1.0',
+      authority: 'Internal evidence handling policy',
+      description: 'Every item has an unbroken, continuous and acknowledged custody record and shows no sign of tampering.',
+      requirements: [
+        {
+          id: 'COC-1',
+          description: 'Custody has been recorded since collection',
+          rule: 'CUSTODY_CHAIN_PRESENT',
+          appliesTo: 'ALL',
+          severity: 'CRITICAL',
+          remediation: 'Record the collection custody entry',
+          remediationDays: 3,
+        },
+        {
+          id: 'COC-2',
+          description: 'Custody ledger verifies from the first entry to the last',
+          rule: 'CUSTODY_CHAIN_INTACT',
+          appliesTo: 'ALL',
+          severity: 'CRITICAL',
+          remediation: 'Raise an incident for the broken ledger link',
+          remediationDays: 1,
+        },
+        {
+          id: 'COC-3',
+          description: 'Each transfer starts from the previous custodian',
+          rule: 'CUSTODY_CONTINUOUS',
+          appliesTo: 'ALL',
+          severity: 'HIGH',
+          remediation: 'Document how the item passed between the recorded custodians',
+          remediationDays: 7,
+        },
+        {
+          id: 'COC-4',
+          description: 'Each receiving custodian has signed for the item',
+          rule: 'CUSTODY_SIGNED',
+          parameters: { roles: ['CUSTODIAN'] },
+          appliesTo: 'ALL',
+          severity: 'MEDIUM',
+          remediation: 'Ask each listed custodian to sign their custody entry',
+          remediationDays: 14,
+        },
+        {
+          id: 'COC-5',
+          description: 'No tampering has been detected',
+          rule: 'NO_TAMPER_DETECTED',
+          appliesTo: 'ALL',
+          severity: 'CRITICAL',
+          remediation: 'Investigate the tamper alert and record the outcome',
+          remediationDays: 1,
+        },
+        {
+          id: 'COC-6',
+          description: 'Integrity has been checked within the last 30 days',
+          rule: 'INTEGRITY_CHECK_CURRENT',
+          parameters: { maxAgeDays: 30 },
+          appliesTo: 'ALL',
+          severity: 'LOW',
+          remediation: 'Run an integrity check',
+          remediationDays: 7,
+        },
+      ],
+    },
+    {
+      id: 'dd0e8400-e29b-41d4-a716-446655440003',
+      name: 'ISO/IEC 27037',
+      version: '2012',
+      authority: 'ISO/IEC JTC 1/SC 27',
+      jurisdiction: 'International',
+      description: 'Guidelines for identification, collection, acquisition and preservation of digital evidence.',
+      requirements: [
+        {
+          id: 'Collection',
+          description: 'Collection is documented',
+          rule: 'COLLECTION_DOCUMENTED',
+          appliesTo: 'ALL',
+          severity: 'HIGH',
+          remediation: 'Record the collection activity',
+          remediationDays: 7,
+        },
+        {
+          id: 'Acquisition',
+          description: 'The acquired data is fingerprinted with a hash',
+          rule: 'INTEGRITY_HASH_RECORDED',
+          appliesTo: 'DIGITAL',
+          severity: 'HIGH',
+          remediation: 'Record the hash of the acquired data',
+          remediationDays: 7,
+        },
+        {
+          id: 'Preservation',
+          description: 'The item has been taken through preservation',
+          rule: 'LIFECYCLE_STAGES_REACHED',
+          parameters: { stages: ['COLLECTION', 'PRESERVATION'] },
+          appliesTo: 'ALL',
+          severity: 'MEDIUM',
+          remediation: 'Move the item into processing so it is preserved before analysis',
+          remediationDays: 14,
+        },
+        {
+          id: 'Transfer verification',
+          description: 'Integrity is verified at every custody hand-off',
+          rule: 'CUSTODY_INTEGRITY_VERIFIED',
+          appliesTo: 'ALL',
+          severity: 'MEDIUM',
+          remediation: 'Verify integrity at the next hand-off and note why earlier hand-offs were not verified',
+          remediationDays: 14,
+        },
+        {
+          id: 'Packaging',
+          description: 'Physical items are sealed and every seal is intact',
+          rule: 'SEALS_INTACT',
+          appliesTo: 'PHYSICAL',
+          severity: 'HIGH',
+          remediation: 'Inspect the item, reseal it and record the new seal at a custody hand-off',
+          remediationDays: 3,
+        },
+        {
+          id: 'Storage',
+          description: 'Physical items are held at a storage location when not being worked on',
+          rule: 'STORAGE_ASSIGNED',
+          appliesTo: 'PHYSICAL',
+          severity: 'MEDIUM',
+          remediation: 'Return the item to a storage location',
+          remediationDays: 7,
+        },
+      ],
+    },
+  ].map(standard => ({ ...standard, requirements: JSON.stringify(standard.requirements) })));
+};
@@ -8,6 +8,7 @@ import database from '../config/database';
 import logger from '../utils/logger';
 import { encryptFile, decryptFile } from '../utils/encryption';
 import { scanFileForViruses } from '../utils/virusScanner';
+import { getActiveHolds } from '../services/legalHold';
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -533,6 +534,20 @@ export class DocumentController {
         });
       }
 
+      // Deleting held documents would be spoliation
+      const holds = await getActiveHolds('document', id as string);
+      if (holds.length > 0) {
+        logger.warn('Blocked deletion of document under legal hold', { documentId: id, userId, holds });
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'LEGAL_HOLD',
+            message: 'Document is under legal hold and cannot be deleted',
+            details: { holds }
+          }
+        });
+      }
+
       const [deletedDocument] = await database('documents')
         .where('id', id)
         .update({
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import database from '../config/database';
 import logger from '../utils/logger';
+import { getActiveHolds } from '../services/legalHold';
 import { StakeholderCategory, StakeholderType, CreateStakeholderRequest, UpdateStakeholderRequest } from '../types';
 
 export class StakeholderController {
@@ -319,6 +320,21 @@ export class StakeholderController {
           });
         }
 
+        // Custodians named in a preservation order must be kept
+        const holds = await getActiveHolds('stakeholder', id as string);
+        if (holds.length > 0) {
+          await trx.rollback();
+          logger.warn('Blocked deletion of stakeholder under legal hold', { stakeholderId: id, userId, holds });
+          return res.status(409).json({
+            success: false,
+            error: {
+              code: 'LEGAL_HOLD',
+              message: 'Stakeholder is under legal hold and cannot be deleted',
+              details: { holds }
+            }
+          });
+        }
+
         // Soft delete
         await trx('stakeholders')
           .where('id', id)
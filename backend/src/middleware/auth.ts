@@ -1,6 +1,8 @@
 import { Response, NextFunction } from 'express';
-import { AuthenticatedRequest, User, UserPermission } from '../types';
+import { AuthenticatedRequest, RestrictionType, User, UserPermission } from '../types';
 import database from '../config/database';
+import { checkSourceAccess, recordSourceProtectionDenials } from '../services/sourceProtection';
+import { verifyToken } from '../config/auth';
 import { logSecurity } from '../utils/logger';
 
 /**
@@ -262,11 +264,65 @@ export const requireSecurityLevel = (minLevel: 'standard' | 'restricted' | 'high
 };
 
 /**
- * Document classification access control
+ * The active user an API token was issued to, for connections that do not pass
+ * through requireAuth such as socket.io
  */
-export const requireDocumentAccess = (minClassification: 'public' | 'internal' | 'confidential' | 'secret') => {
-  const levels = { public: 1, internal: 2, confidential: 3, secret: 4 };
+export const findUserForToken = async (token: unknown): Promise<User | null> => {
+  if (typeof token !== 'string' || !token) {
+    return null;
+  }
+
+  try {
+    const payload = await verifyToken(token);
+    const user = await database('users').select('*').where({ id: payload.id }).first();
+    return user && user.isActive ? user : null;
+  } catch {
+    return null;
+  }
+};
+
+// Roles that work on case material, as required by the case-level evidence routes
+export const CASE_TEAM_ROLES: User['roleType'][] = ['legal_team', 'government_entity'];
+
+export const canAccessCase = (user: Pick<User, 'roleType'>): boolean => CASE_TEAM_ROLES.includes(user.roleType);
+
+export const CLASSIFICATION_LEVELS = { public: 1, internal: 2, confidential: 3, secret: 4 };
+
+/**
+ * Highest classification level a role is cleared for
+ */
+export const clearanceForRole = (roleType: User['roleType']): number => {
+  switch (roleType) {
+    case 'legal_team':
+    case 'government_entity':
+      return 4; // secret
+    case 'witness':
+      return 3; // confidential
+    case 'esop_participant':
+      return 2; // internal
+    case 'media_contact':
+    case 'opposition':
+    default:
+      return 1; // public only
+  }
+};
+
+const sourceProtectedResponse = {
+  success: false,
+  error: {
+    code: 'SOURCE_PROTECTED',
+    message: 'Access restricted to protect the source of this evidence',
+  },
+};
 
+/**
+ * Document classification access control, then the source-protection
+ * restrictions of any evidence built on the document
+ */
+export const requireDocumentAccess = (
+  minClassification: 'public' | 'internal' | 'confidential' | 'secret',
+  restrictionTypes: RestrictionType[] = ['ACCESS']
+) => {
   return async (
     req: AuthenticatedRequest,
     res: Response,
@@ -285,23 +341,7 @@ export const requireDocumentAccess = (minClassification: 'public' | 'internal' |
     }
 
     // Get user's maximum clearance level based on role
-    let userClearance = 1; // public
-    switch (req.user.roleType) {
-      case 'legal_team':
-      case 'government_entity':
-        userClearance = 4; // secret
-        break;
-      case 'witness':
-        userClearance = 3; // confidential
-        break;
-      case 'esop_participant':
-        userClearance = 2; // internal
-        break;
-      case 'media_contact':
-      case 'opposition':
-        userClearance = 1; // public only
-        break;
-    }
+    const userClearance = clearanceForRole(req.user.roleType);
 
     // Get document if accessing specific document
     if (req.params.id) {
@@ -312,7 +352,7 @@ export const requireDocumentAccess = (minClassification: 'public' | 'internal' |
           .first();
 
         if (document) {
-          const requiredLevel = levels[document.classification as keyof typeof levels];
+          const requiredLevel = CLASSIFICATION_LEVELS[document.classification as keyof typeof CLASSIFICATION_LEVELS];
 
           if (userClearance < requiredLevel) {
             logSecurity('document_access_denied', {
@@ -336,6 +376,16 @@ export const requireDocumentAccess = (minClassification: 'public' | 'internal' |
             return;
           }
         }
+
+        const denials = await checkSourceAccess({ documentIds: [req.params.id] }, req.user, restrictionTypes);
+        if (denials.length > 0) {
+          await recordSourceProtectionDenials(denials, req.user, `${req.method} ${req.baseUrl}${req.path}`, {
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+          });
+          res.status(403).json({ ...sourceProtectedResponse, timestamp: new Date() });
+          return;
+        }
       } catch (error) {
         res.status(500).json({
           success: false,
@@ -353,6 +403,58 @@ export const requireDocumentAccess = (minClassification: 'public' | 'internal' |
   };
 };
 
+/**
+ * Source-protection restrictions of the evidence item in req.params.id, or in
+ * the named route parameter
+ */
+export const requireSourceAccess = (restrictionTypes: RestrictionType[] = ['ACCESS'], param = 'id') => {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+        timestamp: new Date(),
+      });
+      return;
+    }
+
+    const evidenceId = req.params[param];
+    if (evidenceId) {
+      try {
+        const denials = await checkSourceAccess({ evidenceIds: [evidenceId] }, req.user, restrictionTypes);
+
+        if (denials.length > 0) {
+          await recordSourceProtectionDenials(denials, req.user, `${req.method} ${req.baseUrl}${req.path}`, {
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+          });
+          res.status(403).json({ ...sourceProtectedResponse, timestamp: new Date() });
+          return;
+        }
+      } catch (error) {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'SOURCE_PROTECTION_CHECK_ERROR',
+            message: 'Source protection verification failed',
+          },
+          timestamp: new Date(),
+        });
+        return;
+      }
+    }
+
+    next();
+  };
+};
+
 /**
  * Check if user owns resource or has admin access
  */
@@ -0,0 +1,679 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse, AnonymizationSourceType } from '../types';
+import {
+  ANONYMIZATION_FIELDS,
+  createAnonymizationRun,
+  createPseudonymKey,
+  getAnonymizationRun,
+  getAnonymizationRuns,
+  getPseudonymKey,
+  getPseudonymKeys,
+  loadSourceRecords,
+  MAX_RUN_RECORDS,
+  needsPseudonymKey,
+  reidentifyPseudonyms,
+  releaseAnonymizationRun,
+  SUPPORTED_TECHNIQUES,
+  TERM_TECHNIQUES,
+} from '../services/anonymization';
+import { checkSourceAccess, recordSourceProtectionDenials } from '../services/sourceProtection';
+import database from '../config/database';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/anonymization by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const SOURCE_TYPES = ['EVIDENCE', 'COMMUNICATION', 'DOCUMENT_TEXT'];
+const STRENGTHS = ['WEAK', 'MEDIUM', 'STRONG', 'PERFECT'];
+const CATEGORY = /^[A-Z][A-Z0-9_]{0,29}$/;
+
+const anonymizationSchemas = {
+  createKey: Joi.object({
+    name: Joi.string().required().max(255),
+    passphrase: Joi.string().min(12).max(1024).required(),
+    authorizedPersonnel: Joi.array().items(Joi.string().uuid()).min(1).max(50).unique().required(),
+  }),
+  reidentify: Joi.object({
+    passphrase: Joi.string().max(1024).required(),
+    pseudonyms: Joi.array().items(Joi.string().max(50)).min(1).max(100).unique().required(),
+    reason: Joi.string().required().max(2000),
+  }),
+  createRun: Joi.object({
+    sourceType: Joi.string().valid(...SOURCE_TYPES).required(),
+    sourceIds: Joi.when('sourceType', {
+      is: 'DOCUMENT_TEXT',
+      then: Joi.array().items(Joi.string().uuid()).length(1).required(),
+      otherwise: Joi.array().items(Joi.string().uuid()).min(1).max(MAX_RUN_RECORDS).unique().required(),
+    }),
+    text: Joi.when('sourceType', {
+      is: 'DOCUMENT_TEXT',
+      then: Joi.string().max(1000000).required(),
+      otherwise: Joi.forbidden(),
+    }),
+    keyId: Joi.string().uuid(),
+    rules: Joi.array().items(Joi.object({
+      field: Joi.string().required().max(50),
+      technique: Joi.string().valid(...SUPPORTED_TECHNIQUES).required(),
+      strength: Joi.string().valid(...STRENGTHS).required(),
+      category: Joi.string().pattern(CATEGORY),
+    })).max(50),
+    terms: Joi.array().items(Joi.object({
+      value: Joi.string().trim().min(2).max(500).required(),
+      technique: Joi.string().valid(...TERM_TECHNIQUES).required(),
+      strength: Joi.string().valid(...STRENGTHS).required(),
+      category: Joi.string().pattern(CATEGORY),
+    })).max(500),
+    detectPatterns: Joi.boolean(),
+    quasiIdentifiers: Joi.array().items(Joi.string().max(50)).max(20).unique(),
+    k: Joi.number().integer().min(2).max(100),
+  }),
+  query: Joi.object({
+    sourceType: Joi.string().valid(...SOURCE_TYPES),
+    status: Joi.string().valid('ANONYMIZED', 'RELEASED'),
+  }),
+  release: Joi.object({
+    releasedTo: Joi.string().required().max(255),
+  }),
+};
+
+// Evidence items and documents are source-protected; communications are not evidence
+const protectedTarget = (sourceType: AnonymizationSourceType, sourceIds: string[]) => {
+  if (sourceType === 'EVIDENCE') {
+    return { evidenceIds: sourceIds };
+  }
+  return sourceType === 'DOCUMENT_TEXT' ? { documentIds: sourceIds } : {};
+};
+
+const errorResponse = (code: string, message: string, details?: any): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+    ...(details && { details }),
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/anonymization/keys:
+ *   get:
+ *     summary: Pseudonym keys
+ *     description: Public keys and authorized personnel; private keys never leave the database unencrypted.
+ *     tags: [Evidence Anonymization]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pseudonym keys, newest first
+ */
+router.get('/keys',
+  async (_req: AuthenticatedRequest, res) => {
+    try {
+      const keys = await getPseudonymKeys();
+
+      const response: APIResponse = {
+        success: true,
+        data: keys,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error listing pseudonym keys:', error);
+      res.status(500).json(errorResponse('ANONYMIZATION_ERROR', 'Failed to list pseudonym keys'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/anonymization/keys:
+ *   post:
+ *     summary: Create a pseudonym key
+ *     description: >
+ *       Pseudonym mappings are encrypted to the new key. Its private key is stored encrypted under the
+ *       passphrase, which only the authorized personnel should hold; it cannot be recovered if lost,
+ *       and without it pseudonyms can never be reversed.
+ *     tags: [Evidence Anonymization]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, passphrase, authorizedPersonnel]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               passphrase:
+ *                 type: string
+ *                 minLength: 12
+ *               authorizedPersonnel:
+ *                 type: array
+ *                 description: Users allowed to re-identify
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       201:
+ *         description: Key created
+ *       400:
+ *         description: Unknown user among the authorized personnel
+ *       409:
+ *         description: A key with this name exists
+ */
+router.post('/keys',
+  validateRequest({ body: anonymizationSchemas.createKey }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { name, passphrase, authorizedPersonnel } = req.body;
+
+      const users = await database('users').select('id').whereIn('id', authorizedPersonnel);
+      const known = new Set(users.map((user: any) => user.id));
+      const unknown = (authorizedPersonnel as string[]).filter(id => !known.has(id));
+      if (unknown.length > 0) {
+        return res.status(400).json(errorResponse('USER_NOT_FOUND', 'Authorized personnel must be existing users', { unknown }));
+      }
+
+      const existing = await database('pseudonym_keys').select('id').where({ name }).first();
+      if (existing) {
+        return res.status(409).json(errorResponse('KEY_NAME_TAKEN', 'A pseudonym key with this name exists'));
+      }
+
+      const key = await createPseudonymKey(name, passphrase, authorizedPersonnel, req.user.id);
+
+      logSecurity('pseudonym_key_created', {
+        keyId: key.id,
+        keyFingerprint: key.keyFingerprint,
+        authorizedPersonnel: key.authorizedPersonnel,
+        createdBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: key,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating pseudonym key:', error);
+      res.status(500).json(errorResponse('ANONYMIZATION_ERROR', 'Failed to create pseudonym key'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/anonymization/keys/{id}/reidentify:
+ *   post:
+ *     summary: Reveal the values behind pseudonyms
+ *     description: Authorized personnel of the key only, with its passphrase. Every re-identification is recorded with its reason.
+ *     tags: [Evidence Anonymization]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [passphrase, pseudonyms, reason]
+ *             properties:
+ *               passphrase:
+ *                 type: string
+ *               pseudonyms:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Original values; pseudonyms not issued under this key are listed as unknown
+ *       403:
+ *         description: Not authorized personnel of the key, or wrong passphrase
+ *       404:
+ *         description: Key not found
+ */
+router.post('/keys/:id/reidentify',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: anonymizationSchemas.reidentify,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const key = await getPseudonymKey(req.params['id'] as string);
+
+      if (!key) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Pseudonym key not found'));
+      }
+
+      if (!key.authorizedPersonnel.includes(req.user.id)) {
+        logSecurity('pseudonym_reidentification_denied', {
+          keyId: key.id,
+          reason: 'NOT_AUTHORIZED_PERSONNEL',
+          attemptedBy: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(403).json(errorResponse('NOT_AUTHORIZED_PERSONNEL', 'Only the authorized personnel of this key can re-identify'));
+      }
+
+      const { passphrase, pseudonyms, reason } = req.body;
+      const revealed = await reidentifyPseudonyms(key.id, passphrase, pseudonyms, reason, req.user.id);
+
+      if (!revealed) {
+        logSecurity('pseudonym_reidentification_denied', {
+          keyId: key.id,
+          reason: 'INVALID_PASSPHRASE',
+          attemptedBy: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(403).json(errorResponse('INVALID_PASSPHRASE', 'Passphrase does not unlock this key'));
+      }
+
+      logSecurity('pseudonyms_reidentified', {
+        keyId: key.id,
+        pseudonyms: revealed.map(entry => entry.pseudonym),
+        reason,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const found = new Set(revealed.map(entry => entry.pseudonym));
+      const response: APIResponse = {
+        success: true,
+        data: {
+          reidentifications: revealed,
+          unknown: (pseudonyms as string[]).filter(pseudonym => !found.has(pseudonym)),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error re-identifying pseudonyms:', error);
+      res.status(500).json(errorResponse('ANONYMIZATION_ERROR', 'Failed to re-identify pseudonyms'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/anonymization/runs:
+ *   get:
+ *     summary: Anonymization runs
+ *     description: Newest first.
+ *     tags: [Evidence Anonymization]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: sourceType
+ *         schema:
+ *           type: string
+ *           enum: [EVIDENCE, COMMUNICATION, DOCUMENT_TEXT]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ANONYMIZED, RELEASED]
+ *     responses:
+ *       200:
+ *         description: Runs with their anonymized records and risk assessments
+ */
+router.get('/runs',
+  validateRequest({ query: anonymizationSchemas.query }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const runs = await getAnonymizationRuns({
+        ...(req.query['sourceType'] && { sourceType: req.query['sourceType'] as AnonymizationSourceType }),
+        ...(req.query['status'] && { status: req.query['status'] as any }),
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: runs,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error listing anonymization runs:', error);
+      res.status(500).json(errorResponse('ANONYMIZATION_ERROR', 'Failed to list anonymization runs'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/anonymization/runs:
+ *   post:
+ *     summary: Anonymize evidence metadata, communication summaries or document text
+ *     description: >
+ *       Field rules apply a technique to a named field. Terms (witness names, addresses...) are replaced
+ *       wherever they appear in text and are not stored. Email addresses, phone and ID numbers in text are
+ *       masked unless detectPatterns is false. Pseudonymization needs a pseudonym key. The result is assessed
+ *       for k-anonymity over the quasi-identifiers against the larger of k and ANONYMIZATION_MIN_K.
+ *     tags: [Evidence Anonymization]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sourceType, sourceIds]
+ *             properties:
+ *               sourceType:
+ *                 type: string
+ *                 enum: [EVIDENCE, COMMUNICATION, DOCUMENT_TEXT]
+ *               sourceIds:
+ *                 type: array
+ *                 description: Evidence items or communications; a single document for DOCUMENT_TEXT
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               text:
+ *                 type: string
+ *                 description: DOCUMENT_TEXT only, the text extracted from the document
+ *               keyId:
+ *                 type: string
+ *                 format: uuid
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [field, technique, strength]
+ *                   properties:
+ *                     field:
+ *                       type: string
+ *                     technique:
+ *                       type: string
+ *                       enum: [PSEUDONYMIZATION, GENERALIZATION, SUPPRESSION, RANDOMIZATION, MASKING]
+ *                     strength:
+ *                       type: string
+ *                       enum: [WEAK, MEDIUM, STRONG, PERFECT]
+ *                     category:
+ *                       type: string
+ *                       description: Pseudonym prefix, e.g. WITNESS
+ *               terms:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [value, technique, strength]
+ *                   properties:
+ *                     value:
+ *                       type: string
+ *                     technique:
+ *                       type: string
+ *                       enum: [PSEUDONYMIZATION, GENERALIZATION, SUPPRESSION, MASKING]
+ *                     strength:
+ *                       type: string
+ *                       enum: [WEAK, MEDIUM, STRONG, PERFECT]
+ *                     category:
+ *                       type: string
+ *               detectPatterns:
+ *                 type: boolean
+ *                 default: true
+ *               quasiIdentifiers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               k:
+ *                 type: integer
+ *                 minimum: 2
+ *     responses:
+ *       201:
+ *         description: Anonymized records with their re-identification risk
+ *       400:
+ *         description: Unknown field, source not found, or pseudonym key missing
+ *       403:
+ *         description: Source protection restricts analysis of an item
+ */
+router.post('/runs',
+  validateRequest({ body: anonymizationSchemas.createRun }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const sourceType = req.body.sourceType as AnonymizationSourceType;
+      const sourceIds = req.body.sourceIds as string[];
+      const rules = req.body.rules || [];
+      const terms = req.body.terms || [];
+      const quasiIdentifiers = req.body.quasiIdentifiers || [];
+
+      const fields = ANONYMIZATION_FIELDS[sourceType];
+      const unknownFields = [...rules.map((rule: any) => rule.field), ...quasiIdentifiers]
+        .filter((field: string) => !fields.includes(field));
+      if (unknownFields.length > 0) {
+        return res.status(400).json(errorResponse('UNKNOWN_FIELD', `Unknown ${sourceType} fields`, { unknownFields, fields }));
+      }
+
+      let key = null;
+      if (req.body.keyId) {
+        key = await getPseudonymKey(req.body.keyId);
+        if (!key) {
+          return res.status(400).json(errorResponse('KEY_NOT_FOUND', 'Pseudonym key not found'));
+        }
+      } else if (needsPseudonymKey(rules, terms)) {
+        return res.status(400).json(errorResponse('KEY_REQUIRED', 'Pseudonymization needs a pseudonym key'));
+      }
+
+      const records = await loadSourceRecords(sourceType, sourceIds, req.body.text);
+      if (records.length < sourceIds.length) {
+        const found = new Set(records.map(record => record.sourceId));
+        return res.status(400).json(errorResponse('SOURCE_NOT_FOUND', 'Some sources were not found', {
+          missing: sourceIds.filter(id => !found.has(id)),
+        }));
+      }
+
+      const denials = await checkSourceAccess(protectedTarget(sourceType, sourceIds), req.user, ['ANALYSIS']);
+      if (denials.length > 0) {
+        await recordSourceProtectionDenials(denials, req.user, 'ANONYMIZATION', {
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+        return res.status(403).json(errorResponse('SOURCE_PROTECTED', 'Some sources are protected against analysis', {
+          evidenceIds: denials.map(denial => denial.evidenceId),
+        }));
+      }
+
+      const run = await createAnonymizationRun({
+        sourceType,
+        rules,
+        terms,
+        detectPatterns: req.body.detectPatterns !== false,
+        quasiIdentifiers,
+        ...(req.body.k && { k: req.body.k }),
+      }, records, key, req.user.id);
+
+      logSecurity('anonymization_run_created', {
+        runId: run.id,
+        sourceType,
+        recordCount: records.length,
+        keyId: run.keyId,
+        k: run.risk.k,
+        riskLevel: run.risk.level,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: run,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating anonymization run:', error);
+      res.status(500).json(errorResponse('ANONYMIZATION_ERROR', 'Failed to anonymize'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/anonymization/runs/{id}:
+ *   get:
+ *     summary: An anonymization run
+ *     tags: [Evidence Anonymization]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Run with its anonymized records and risk assessment
+ *       404:
+ *         description: Run not found
+ */
+router.get('/runs/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const run = await getAnonymizationRun(req.params['id'] as string);
+
+      if (!run) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Anonymization run not found'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: run,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching anonymization run:', error);
+      res.status(500).json(errorResponse('ANONYMIZATION_ERROR', 'Failed to fetch anonymization run'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/anonymization/runs/{id}/release:
+ *   post:
+ *     summary: Release anonymized records outside the legal team
+ *     description: Refused while the run fails its risk assessment (k below the threshold or supplied terms left in the output).
+ *     tags: [Evidence Anonymization]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [releasedTo]
+ *             properties:
+ *               releasedTo:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Run released
+ *       404:
+ *         description: Run not found
+ *       403:
+ *         description: Source protection restricts sharing of an item
+ *       409:
+ *         description: Already released, or re-identification risk too high
+ */
+router.post('/runs/:id/release',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: anonymizationSchemas.release,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const run = await getAnonymizationRun(req.params['id'] as string);
+
+      if (!run) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Anonymization run not found'));
+      }
+      if (run.status === 'RELEASED') {
+        return res.status(409).json(errorResponse('ALREADY_RELEASED', 'Run has already been released', {
+          releasedTo: run.releasedTo,
+          releasedAt: run.releasedAt,
+        }));
+      }
+      if (!run.risk.passes) {
+        logSecurity('anonymization_release_blocked', {
+          runId: run.id,
+          k: run.risk.k,
+          threshold: run.risk.threshold,
+          residualIdentifiers: run.risk.residualIdentifiers,
+          attemptedBy: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(409).json(errorResponse('REIDENTIFICATION_RISK', 'Re-identification risk is too high to release', {
+          risk: run.risk,
+        }));
+      }
+
+      const denials = await checkSourceAccess(protectedTarget(run.sourceType, run.sourceIds), req.user, ['SHARING']);
+      if (denials.length > 0) {
+        await recordSourceProtectionDenials(denials, req.user, 'ANONYMIZATION_RELEASE', {
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+        return res.status(403).json(errorResponse('SOURCE_PROTECTED', 'Some sources are protected against sharing', {
+          evidenceIds: denials.map(denial => denial.evidenceId),
+        }));
+      }
+
+      const released = await releaseAnonymizationRun(run.id, req.body.releasedTo, req.user.id);
+
+      logSecurity('anonymization_run_released', {
+        runId: run.id,
+        releasedTo: released.releasedTo,
+        k: run.risk.k,
+        releasedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: released,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error releasing anonymization run:', error);
+      res.status(500).json(errorResponse('ANONYMIZATION_ERROR', 'Failed to release anonymization run'));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,475 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse, EvidenceBatchProgress } from '../types';
+import {
+  BATCH_TYPES,
+  batchReportToCsv,
+  cancelEvidenceBatch,
+  createEvidenceBatch,
+  getEvidenceBatch,
+  getEvidenceBatchRow,
+  getEvidenceBatches,
+  getEvidenceBatchReport,
+  MAX_BATCH_ITEMS,
+  processEvidenceBatch,
+  resolveBatchTargets,
+} from '../services/evidenceBatch';
+import { getStorageLocation } from '../services/physicalEvidence';
+import { checkSourceAccess, recordSourceProtectionDenials } from '../services/sourceProtection';
+import database from '../config/database';
+import { clearanceForRole, requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import { searchQuerySchema } from './search';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/batches by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const termsSchema = Joi.array().items(Joi.string().max(255)).max(100);
+
+const parameterSchemas = {
+  TRANSFER_CUSTODY: Joi.object({
+    toUser: Joi.string().uuid().required(),
+    reason: Joi.string().required().max(500),
+    location: Joi.string().required().max(255),
+    transferReason: Joi.string().valid(
+      'ANALYSIS', 'STORAGE', 'COURT_PRESENTATION', 'RETURN_TO_OWNER', 'DESTRUCTION', 'INVESTIGATION', 'OTHER'
+    ),
+    transferMethod: Joi.string().valid(
+      'HAND_DELIVERY', 'SECURE_TRANSPORT', 'MAIL_REGISTERED', 'COURIER', 'DIGITAL_TRANSFER', 'OTHER'
+    ),
+    purpose: Joi.string().valid(
+      'COLLECTION', 'ANALYSIS', 'STORAGE', 'EXAMINATION', 'PRESENTATION', 'PRESERVATION', 'DESTRUCTION'
+    ),
+    custodianOrganization: Joi.string().max(255),
+    storageConditions: Joi.object({
+      temperature: Joi.number(),
+      humidity: Joi.number(),
+      lightExposure: Joi.string().valid('DARK', 'LOW', 'NORMAL', 'HIGH'),
+      security: Joi.string(),
+      access: Joi.string(),
+      specialRequirements: Joi.array().items(Joi.string()),
+    }),
+    conditionOnReceipt: Joi.string().max(1000),
+    notes: Joi.string().max(2000),
+    storageLocationId: Joi.string().uuid().allow(null),
+    sealsIntact: Joi.boolean(),
+  }),
+  UPDATE_CLASSIFICATION: Joi.object({
+    classification: Joi.string().valid('public', 'internal', 'confidential', 'secret').required(),
+  }),
+  APPLY_LEGAL_HOLD: Joi.object({
+    orderId: Joi.string().uuid().required(),
+  }),
+  REMOVE_LEGAL_HOLD: Joi.object({
+    orderId: Joi.string().uuid().required(),
+  }),
+  VERIFY_INTEGRITY: Joi.object({}),
+  UPDATE_METADATA: Joi.object({
+    addTags: termsSchema,
+    removeTags: termsSchema,
+    addKeywords: termsSchema,
+    removeKeywords: termsSchema,
+    addStatutes: termsSchema,
+    removeStatutes: termsSchema,
+  }).or('addTags', 'removeTags', 'addKeywords', 'removeKeywords', 'addStatutes', 'removeStatutes'),
+};
+
+const batchSchemas = {
+  create: Joi.object({
+    type: Joi.string().valid(...BATCH_TYPES).required(),
+    parameters: Joi.when('type', {
+      switch: Object.entries(parameterSchemas).map(([type, schema]) => ({ is: type, then: schema })),
+    }),
+    evidenceIds: Joi.array().items(Joi.string().uuid()).min(1).max(MAX_BATCH_ITEMS),
+    selection: searchQuerySchema,
+    notes: Joi.string().max(2000),
+  }).xor('evidenceIds', 'selection'),
+  reportQuery: Joi.object({
+    format: Joi.string().valid('json', 'csv').default('json'),
+  }),
+};
+
+const errorResponse = (code: string, message: string): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+  },
+  timestamp: new Date(),
+});
+
+// Clients follow a batch by joining its room (see the evidence-batch:subscribe handler in server.ts)
+const progressEmitter = (req: AuthenticatedRequest, batchId: string) => (progress: EvidenceBatchProgress) => {
+  req.app.get('socketio')?.to(`evidence-batch:${batchId}`).emit('evidence-batch:progress', progress);
+};
+
+/**
+ * @swagger
+ * /api/evidence/batches:
+ *   get:
+ *     summary: The caller's recent batch operations
+ *     description: Newest first, without per-item results.
+ *     tags: [Evidence Batches]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Batch operations
+ */
+router.get('/',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const batches = await getEvidenceBatches(req.user.id);
+
+      const response: APIResponse = {
+        success: true,
+        data: batches,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error listing evidence batches:', error);
+      res.status(500).json(errorResponse('BATCH_ERROR', 'Failed to list batch operations'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/batches:
+ *   post:
+ *     summary: Start a batch operation
+ *     description: >
+ *       Applies one operation to many evidence items, listed by id or selected with an evidence
+ *       search (for example every item held by one custodian). Items are processed one at a time
+ *       in the background; a failed item is recorded with its reason and does not stop or undo the
+ *       others. Progress is emitted as evidence-batch:progress to the evidence-batch:{id} socket.io
+ *       room, which clients join by emitting evidence-batch:subscribe with the batch id from a socket
+ *       authenticated with their token (handshake auth.token). The batch finishes COMPLETED, PARTIAL (some items failed), FAILED or CANCELLED.
+ *
+ *       Parameters by type: TRANSFER_CUSTODY takes the single-transfer fields plus sealsIntact, which
+ *       must be true to transfer sealed items (each active seal is recorded as intact), and
+ *       storageLocationId, which applies to physical items only. UPDATE_CLASSIFICATION takes
+ *       classification. APPLY_LEGAL_HOLD and REMOVE_LEGAL_HOLD take orderId; only manual holds can be
+ *       removed. UPDATE_METADATA adds and removes tags, keywords and statutes. VERIFY_INTEGRITY takes
+ *       none; tampered items are reported as failures.
+ *     tags: [Evidence Batches]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, parameters]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [TRANSFER_CUSTODY, UPDATE_CLASSIFICATION, APPLY_LEGAL_HOLD, REMOVE_LEGAL_HOLD, VERIFY_INTEGRITY, UPDATE_METADATA]
+ *               parameters:
+ *                 type: object
+ *               evidenceIds:
+ *                 type: array
+ *                 maxItems: 5000
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               selection:
+ *                 type: object
+ *                 description: Evidence search query; every matching item is targeted, not one page
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       202:
+ *         description: Batch accepted and running
+ *       400:
+ *         description: Unknown recipient, storage location or order, no items selected, or more than 5000 items
+ *       403:
+ *         description: Some of the listed evidence items are source-protected against access
+ *       409:
+ *         description: Preservation order has been released, or storage location has been retired
+ */
+router.post('/',
+  validateRequest({ body: batchSchemas.create }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { type, parameters = {}, evidenceIds, selection, notes } = req.body;
+
+      if (type === 'TRANSFER_CUSTODY') {
+        const recipient = await database('users').select('id').where({ id: parameters.toUser }).first();
+        if (!recipient) {
+          return res.status(400).json(errorResponse('USER_NOT_FOUND', 'Target user not found'));
+        }
+
+        if (parameters.storageLocationId) {
+          const location = await getStorageLocation(parameters.storageLocationId);
+          if (!location) {
+            return res.status(400).json(errorResponse('LOCATION_NOT_FOUND', 'Storage location not found'));
+          }
+          if (!location.active) {
+            return res.status(409).json(errorResponse('LOCATION_INACTIVE', 'Storage location has been retired'));
+          }
+        }
+      }
+
+      if (type === 'APPLY_LEGAL_HOLD' || type === 'REMOVE_LEGAL_HOLD') {
+        const order = await database('preservation_orders')
+          .select('id', 'status')
+          .where({ id: parameters.orderId })
+          .first();
+
+        if (!order) {
+          return res.status(400).json(errorResponse('ORDER_NOT_FOUND', 'Preservation order not found'));
+        }
+        if (type === 'APPLY_LEGAL_HOLD' && ['EXPIRED', 'TERMINATED'].includes(order.status)) {
+          return res.status(409).json(errorResponse('ORDER_RELEASED', 'Preservation order has been released'));
+        }
+      }
+
+      const principal = { id: req.user.id, roleType: req.user.roleType };
+      const targets = await resolveBatchTargets(
+        { evidenceIds, selection },
+        { clearance: clearanceForRole(req.user.roleType), principal }
+      );
+
+      // Selections already leave out protected items; listed items are checked here
+      if (evidenceIds) {
+        const denials = await checkSourceAccess({ evidenceIds: targets }, principal, ['ACCESS']);
+        if (denials.length > 0) {
+          await recordSourceProtectionDenials(denials, principal, 'EVIDENCE_BATCH', {
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+          });
+
+          const response: APIResponse = {
+            success: false,
+            error: {
+              code: 'SOURCE_PROTECTED',
+              message: 'Some evidence items are source-protected against access',
+              details: { evidenceIds: [...new Set(denials.map(denial => denial.evidenceId))] },
+            },
+            timestamp: new Date(),
+          };
+          return res.status(403).json(response);
+        }
+      }
+
+      if (targets.length === 0) {
+        return res.status(400).json(errorResponse('NO_EVIDENCE_SELECTED', 'The selection matched no evidence'));
+      }
+      if (targets.length > MAX_BATCH_ITEMS) {
+        return res.status(400).json(errorResponse(
+          'BATCH_TOO_LARGE',
+          `A batch may target at most ${MAX_BATCH_ITEMS} items; narrow the selection`
+        ));
+      }
+
+      const batch = await createEvidenceBatch({ type, parameters, evidenceIds, selection, notes }, targets, req.user.id);
+
+      logSecurity('evidence_batch_started', {
+        batchId: batch.id,
+        type,
+        items: targets.length,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      processEvidenceBatch(batch, progressEmitter(req, batch.id))
+        .then(result => {
+          logSecurity('evidence_batch_completed', {
+            batchId: result.id,
+            type: result.type,
+            status: result.status,
+            succeeded: result.successful.length,
+            failed: result.failed.length,
+            skipped: result.skipped.length,
+            ...(result.failureReason && { failureReason: result.failureReason }),
+          });
+        })
+        .catch(error => logger.error('Error running evidence batch:', error));
+
+      const response: APIResponse = {
+        success: true,
+        data: batch,
+        timestamp: new Date(),
+      };
+
+      res.status(202).json(response);
+    } catch (error) {
+      logger.error('Error starting evidence batch:', error);
+      res.status(500).json(errorResponse('BATCH_ERROR', 'Failed to start batch operation'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/batches/{id}:
+ *   get:
+ *     summary: Batch progress and per-item outcome
+ *     description: Status, progress, and the items that succeeded, failed (with reasons) or were skipped.
+ *     tags: [Evidence Batches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Batch operation
+ *       404:
+ *         description: Batch not found
+ */
+router.get('/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const batch = await getEvidenceBatch(req.params['id'] as string);
+
+      if (!batch) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Batch operation not found'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: batch,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching evidence batch:', error);
+      res.status(500).json(errorResponse('BATCH_ERROR', 'Failed to fetch batch operation'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/batches/{id}/report:
+ *   get:
+ *     summary: Download the batch result report
+ *     description: One row per targeted item in processing order, with its status, error and details (custody entry, hold or integrity check ids).
+ *     tags: [Evidence Batches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Result report
+ *       404:
+ *         description: Batch not found
+ */
+router.get('/:id/report',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }), query: batchSchemas.reportQuery }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const report = await getEvidenceBatchReport(req.params['id'] as string);
+
+      if (!report) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Batch operation not found'));
+      }
+
+      if (req.query['format'] === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="evidence-batch-${report.batch.id}.csv"`);
+        return res.send(batchReportToCsv(report));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: report,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error building evidence batch report:', error);
+      res.status(500).json(errorResponse('BATCH_ERROR', 'Failed to build batch report'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/batches/{id}/cancel:
+ *   post:
+ *     summary: Cancel a batch
+ *     description: Items already processed keep their results; the remaining items are skipped.
+ *     tags: [Evidence Batches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Batch cancelled
+ *       404:
+ *         description: Batch not found
+ *       409:
+ *         description: Batch has already finished
+ */
+router.post('/:id/cancel',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = req.params['id'] as string;
+      const existing = await getEvidenceBatchRow(id);
+
+      if (!existing) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Batch operation not found'));
+      }
+
+      const batch = await cancelEvidenceBatch(id, req.user.id);
+
+      if (!batch) {
+        return res.status(409).json(errorResponse('BATCH_FINISHED', 'Batch operation has already finished'));
+      }
+
+      logSecurity('evidence_batch_cancelled', {
+        batchId: id,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: batch,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error cancelling evidence batch:', error);
+      res.status(500).json(errorResponse('BATCH_ERROR', 'Failed to cancel batch operation'));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,713 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse, ComplianceStandard } from '../types';
+import {
+  COMPLIANCE_RULE_NAMES,
+  COMPLIANCE_RULES,
+  createComplianceStandard,
+  findComplianceStandard,
+  getCaseCompliance,
+  getComplianceAction,
+  getComplianceActions,
+  getComplianceCheck,
+  getComplianceChecks,
+  getComplianceStandard,
+  getComplianceStandards,
+  getEvidenceCompliance,
+  MAX_CHECK_ITEMS,
+  resolveCheckScope,
+  runComplianceCheck,
+  updateComplianceAction,
+  updateComplianceStandard,
+} from '../services/compliance';
+import database from '../config/database';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/compliance by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const SEVERITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+const requirementSchema = Joi.object({
+  id: Joi.string().required().max(100),
+  description: Joi.string().required().max(1000),
+  rule: Joi.string().valid(...COMPLIANCE_RULE_NAMES).required(),
+  parameters: Joi.when('rule', {
+    switch: [
+      { is: 'INTEGRITY_CHECK_CURRENT', then: Joi.object({ maxAgeDays: Joi.number().integer().min(1).max(3650) }) },
+      {
+        is: 'CUSTODY_SIGNED',
+        then: Joi.object({ roles: Joi.array().items(Joi.string().valid('CUSTODIAN', 'WITNESS')).min(1).unique() }),
+      },
+      {
+        is: 'LIFECYCLE_STAGES_REACHED',
+        then: Joi.object({
+          stages: Joi.array().items(Joi.string().valid(
+            'IDENTIFICATION', 'COLLECTION', 'PRESERVATION', 'ANALYSIS', 'REVIEW', 'PRODUCTION', 'PRESENTATION', 'RETURN', 'DISPOSAL'
+          )).min(1).unique().required(),
+        }).required(),
+      },
+      {
+        is: 'STORAGE_ASSIGNED',
+        then: Joi.object({
+          allowedPurposes: Joi.array().items(Joi.string().valid(
+            'COLLECTION', 'ANALYSIS', 'STORAGE', 'EXAMINATION', 'PRESENTATION', 'PRESERVATION', 'DESTRUCTION'
+          )).unique(),
+        }),
+      },
+    ],
+    otherwise: Joi.object({}),
+  }),
+  appliesTo: Joi.string().valid('ALL', 'PHYSICAL', 'DIGITAL').required(),
+  severity: Joi.string().valid(...SEVERITIES).required(),
+  remediation: Joi.string().required().max(1000),
+  remediationDays: Joi.number().integer().min(0).max(365).required(),
+});
+
+const requirementsSchema = Joi.array().items(requirementSchema).min(1).max(200).unique('id');
+
+const complianceSchemas = {
+  standard: Joi.object({
+    name: Joi.string().required().max(255),
+    version: Joi.string().required().max(50),
+    authority: Joi.string().required().max(255),
+    jurisdiction: Joi.string().max(100),
+    description: Joi.string().max(5000),
+    requirements: requirementsSchema.required(),
+  }),
+  standardUpdate: Joi.object({
+    authority: Joi.string().max(255),
+    jurisdiction: Joi.string().max(100).allow(null),
+    description: Joi.string().max(5000).allow(null),
+    requirements: requirementsSchema,
+    active: Joi.boolean(),
+  }).min(1),
+  standardsQuery: Joi.object({
+    includeInactive: Joi.boolean(),
+  }),
+  check: Joi.object({
+    checkType: Joi.string().valid('ROUTINE_AUDIT', 'COURT_ORDERED', 'INCIDENT_TRIGGERED', 'PRE_TRIAL', 'REGULATORY').required(),
+    evidenceIds: Joi.array().items(Joi.string().uuid()).min(1).max(MAX_CHECK_ITEMS),
+    caseId: Joi.string().max(255),
+    standardIds: Joi.array().items(Joi.string().uuid()).min(1).unique(),
+    notes: Joi.string().max(2000),
+  }).or('evidenceIds', 'caseId'),
+  checksQuery: Joi.object({
+    caseId: Joi.string().max(255),
+  }),
+  actionsQuery: Joi.object({
+    status: Joi.string().valid('PENDING', 'IN_PROGRESS', 'COMPLETED', 'OVERDUE'),
+    assignedTo: Joi.string().uuid(),
+    checkId: Joi.string().uuid(),
+  }),
+  actionUpdate: Joi.object({
+    status: Joi.string().valid('PENDING', 'IN_PROGRESS', 'COMPLETED'),
+    assignedTo: Joi.string().uuid(),
+    notes: Joi.string().max(2000).allow(''),
+  }).min(1),
+};
+
+const errorResponse = (code: string, message: string): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/compliance/rules:
+ *   get:
+ *     summary: Built-in rules that standard requirements can use
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rule names, descriptions and accepted parameters
+ */
+router.get('/rules',
+  async (_req: AuthenticatedRequest, res) => {
+    const response: APIResponse = {
+      success: true,
+      data: COMPLIANCE_RULE_NAMES.map(rule => ({
+        rule,
+        description: COMPLIANCE_RULES[rule].description,
+        parameters: COMPLIANCE_RULES[rule].parameters ?? {},
+      })),
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/standards:
+ *   get:
+ *     summary: Declared compliance standards
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Standards with their requirements
+ */
+router.get('/standards',
+  validateRequest({ query: complianceSchemas.standardsQuery }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const standards = await getComplianceStandards(String(req.query['includeInactive']) === 'true');
+
+      const response: APIResponse = {
+        success: true,
+        data: standards,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error listing compliance standards:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to list compliance standards'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/standards:
+ *   post:
+ *     summary: Declare a compliance standard
+ *     description: Each requirement names a built-in rule (see /rules), the items it applies to (ALL, PHYSICAL or DIGITAL), a severity, and the remediation and days allowed for the action raised when an item fails it.
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, version, authority, requirements]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               version:
+ *                 type: string
+ *               authority:
+ *                 type: string
+ *               jurisdiction:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               requirements:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [id, description, rule, appliesTo, severity, remediation, remediationDays]
+ *     responses:
+ *       201:
+ *         description: Standard created
+ *       409:
+ *         description: A standard with this name and version exists
+ */
+router.post('/standards',
+  validateRequest({ body: complianceSchemas.standard }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      if (await findComplianceStandard(req.body.name, req.body.version)) {
+        return res.status(409).json(errorResponse('STANDARD_EXISTS', 'A standard with this name and version exists'));
+      }
+
+      const standard = await createComplianceStandard(req.body, req.user.id);
+
+      logSecurity('compliance_standard_created', {
+        standardId: standard.id,
+        name: standard.name,
+        version: standard.version,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: standard,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating compliance standard:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to create compliance standard'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/standards/{id}:
+ *   patch:
+ *     summary: Update or retire a compliance standard
+ *     description: Past checks keep the requirements they were run with.
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Updated standard
+ *       404:
+ *         description: Standard not found
+ */
+router.patch('/standards/:id',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: complianceSchemas.standardUpdate,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const standardId = req.params['id'] as string;
+
+      if (!await getComplianceStandard(standardId)) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Compliance standard not found'));
+      }
+
+      const standard = await updateComplianceStandard(standardId, req.body);
+
+      logSecurity('compliance_standard_updated', {
+        standardId,
+        fields: Object.keys(req.body),
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: standard,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating compliance standard:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to update compliance standard'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/checks:
+ *   post:
+ *     summary: Check evidence against compliance standards
+ *     description: >
+ *       Evaluates every listed item, or every item in the case (related by evidence relationships
+ *       or held by the case's preservation orders), against the given standards or all active ones.
+ *       Records a result, score and findings per item, one finding per failed requirement across
+ *       items, and an action per finding assigned to the caller and due after the requirement's
+ *       remediation days. Items with CRITICAL or HIGH findings are not trial-ready.
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [checkType]
+ *             properties:
+ *               checkType:
+ *                 type: string
+ *                 enum: [ROUTINE_AUDIT, COURT_ORDERED, INCIDENT_TRIGGERED, PRE_TRIAL, REGULATORY]
+ *               evidenceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               caseId:
+ *                 type: string
+ *               standardIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Check recorded with per-item results and action items
+ *       400:
+ *         description: Unknown evidence or standards, no items in scope, or more than 1000 items
+ */
+router.post('/checks',
+  validateRequest({ body: complianceSchemas.check }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { checkType, evidenceIds, caseId, standardIds, notes } = req.body;
+
+      const scope = await resolveCheckScope({ evidenceIds, caseId });
+      if (scope.unknown.length > 0) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'EVIDENCE_NOT_FOUND',
+            message: 'Evidence items not found',
+            details: { evidenceIds: scope.unknown },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+      if (scope.evidenceIds.length === 0) {
+        return res.status(400).json(errorResponse('NO_EVIDENCE_IN_SCOPE', 'No evidence items to check'));
+      }
+      if (scope.evidenceIds.length > MAX_CHECK_ITEMS) {
+        return res.status(400).json(errorResponse(
+          'CHECK_TOO_LARGE',
+          `A check may cover at most ${MAX_CHECK_ITEMS} items; check the case in parts by evidenceIds`
+        ));
+      }
+
+      const standards = standardIds
+        ? (await Promise.all((standardIds as string[]).map(getComplianceStandard))).filter(standard => standard !== null)
+        : await getComplianceStandards();
+
+      if (standardIds && standards.length !== standardIds.length) {
+        return res.status(400).json(errorResponse('STANDARD_NOT_FOUND', 'Compliance standards not found'));
+      }
+      if (standards.length === 0) {
+        return res.status(400).json(errorResponse('NO_STANDARDS', 'No active compliance standards to check against'));
+      }
+
+      const check = await runComplianceCheck(
+        { checkType, caseId, notes },
+        scope.evidenceIds,
+        standards as ComplianceStandard[],
+        req.user.id
+      );
+
+      logSecurity('compliance_check_completed', {
+        checkId: check.id,
+        checkType,
+        caseId,
+        items: check.scope.length,
+        result: check.result,
+        score: check.score,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: check,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error running compliance check:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to run compliance check'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/checks:
+ *   get:
+ *     summary: Recent compliance checks
+ *     description: Newest first, without per-item results.
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: caseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Compliance checks
+ */
+router.get('/checks',
+  validateRequest({ query: complianceSchemas.checksQuery }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const checks = await getComplianceChecks(req.query['caseId'] as string | undefined);
+
+      const response: APIResponse = {
+        success: true,
+        data: checks,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error listing compliance checks:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to list compliance checks'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/checks/{id}:
+ *   get:
+ *     summary: A compliance check with per-item results and action items
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Compliance check
+ *       404:
+ *         description: Check not found
+ */
+router.get('/checks/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const check = await getComplianceCheck(req.params['id'] as string);
+
+      if (!check) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Compliance check not found'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: check,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching compliance check:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to fetch compliance check'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/cases/{caseId}:
+ *   get:
+ *     summary: Trial readiness of a case
+ *     description: Rolls up the latest compliance result of every item in the case. Items never checked, or with CRITICAL or HIGH findings, are listed as not trial-ready, worst first.
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: caseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Case compliance summary
+ */
+router.get('/cases/:caseId',
+  validateRequest({ params: Joi.object({ caseId: Joi.string().required().max(255) }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const summary = await getCaseCompliance(req.params['caseId'] as string);
+
+      const response: APIResponse = {
+        success: true,
+        data: summary,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error building case compliance summary:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to build case compliance summary'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/evidence/{id}:
+ *   get:
+ *     summary: Latest compliance result of an evidence item
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Latest item result
+ *       404:
+ *         description: Item has never been checked
+ */
+router.get('/evidence/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await getEvidenceCompliance(req.params['id'] as string);
+
+      if (!result) {
+        return res.status(404).json(errorResponse('NOT_CHECKED', 'Evidence item has not been checked'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching evidence compliance:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to fetch evidence compliance'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/actions:
+ *   get:
+ *     summary: Remediation actions
+ *     description: Ordered by due date. OVERDUE selects unfinished actions past their due date.
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, IN_PROGRESS, COMPLETED, OVERDUE]
+ *       - in: query
+ *         name: assignedTo
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: checkId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Actions
+ */
+router.get('/actions',
+  validateRequest({ query: complianceSchemas.actionsQuery }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const actions = await getComplianceActions({
+        ...(req.query['status'] && { status: req.query['status'] as any }),
+        ...(req.query['assignedTo'] && { assignedTo: req.query['assignedTo'] as string }),
+        ...(req.query['checkId'] && { checkId: req.query['checkId'] as string }),
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: actions,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error listing compliance actions:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to list compliance actions'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/compliance/actions/{id}:
+ *   patch:
+ *     summary: Update a remediation action
+ *     description: Reassign it, record progress or mark it completed.
+ *     tags: [Evidence Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Updated action
+ *       400:
+ *         description: Assignee not found
+ *       404:
+ *         description: Action not found
+ */
+router.patch('/actions/:id',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: complianceSchemas.actionUpdate,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const actionId = req.params['id'] as string;
+
+      if (!await getComplianceAction(actionId)) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Compliance action not found'));
+      }
+
+      if (req.body.assignedTo) {
+        const assignee = await database('users').select('id').where({ id: req.body.assignedTo }).first();
+        if (!assignee) {
+          return res.status(400).json(errorResponse('USER_NOT_FOUND', 'Assignee not found'));
+        }
+      }
+
+      const action = await updateComplianceAction(actionId, req.body);
+
+      const response: APIResponse = {
+        success: true,
+        data: action,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating compliance action:', error);
+      res.status(500).json(errorResponse('COMPLIANCE_ERROR', 'Failed to update compliance action'));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,648 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse, EvidenceLifecycleStatus } from '../types';
+import { getCustodySigningKey } from '../services/custodyLedger';
+import {
+  cancelDisposition,
+  createDisposition,
+  decideDisposition,
+  DISPOSITION_TARGET_STATUS,
+  executeDisposition,
+  getCourtOrderAttachmentTypes,
+  getDisposition,
+  getDispositionCertificate,
+  getDispositions,
+  getHeldStoredFiles,
+  getOpenDisposition,
+  OPEN_DISPOSITION_STATUSES,
+  verifyCertificate,
+} from '../services/evidenceDisposition';
+import { evaluateTransition, isTransitionAllowed, LIFECYCLE_TRANSITIONS, unmetRequirements } from '../services/evidenceLifecycle';
+import { getActiveHolds } from '../services/legalHold';
+import database from '../config/database';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/dispositions by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const TRANSFER_METHODS = ['HAND_DELIVERY', 'SECURE_TRANSPORT', 'MAIL_REGISTERED', 'COURIER', 'DIGITAL_TRANSFER', 'OTHER'];
+
+const dispositionSchemas = {
+  create: Joi.object({
+    evidenceId: Joi.string().uuid().required(),
+    dispositionType: Joi.string().valid('DESTRUCTION', 'RETURN').required(),
+    method: Joi.when('dispositionType', {
+      is: 'RETURN',
+      then: Joi.string().valid(...TRANSFER_METHODS).required(),
+      otherwise: Joi.string().max(100).required(),
+    }),
+    reason: Joi.string().required().max(2000),
+    recipient: Joi.when('dispositionType', {
+      is: 'RETURN',
+      then: Joi.object({
+        name: Joi.string().required().max(255),
+        organization: Joi.string().max(255),
+        contact: Joi.string().max(500),
+      }).required(),
+      otherwise: Joi.forbidden(),
+    }),
+    courtOrderReference: Joi.when('dispositionType', {
+      is: 'DESTRUCTION',
+      then: Joi.string().max(255).required(),
+      otherwise: Joi.string().max(255),
+    }),
+    courtOrderDocumentId: Joi.string().uuid(),
+  }),
+  query: Joi.object({
+    status: Joi.string().valid('PENDING_APPROVAL', 'APPROVED', 'REJECTED', 'CANCELLED', 'COMPLETED', 'FAILED'),
+    dispositionType: Joi.string().valid('DESTRUCTION', 'RETURN'),
+    evidenceId: Joi.string().uuid(),
+  }),
+  decision: Joi.object({
+    decision: Joi.string().valid('APPROVED', 'REJECTED').required(),
+    comments: Joi.string().max(2000),
+  }),
+};
+
+const errorResponse = (code: string, message: string, details?: any): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+    ...(details && { details }),
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/dispositions:
+ *   get:
+ *     summary: Destruction and return requests
+ *     description: Newest first.
+ *     tags: [Evidence Dispositions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING_APPROVAL, APPROVED, REJECTED, CANCELLED, COMPLETED, FAILED]
+ *       - in: query
+ *         name: dispositionType
+ *         schema:
+ *           type: string
+ *           enum: [DESTRUCTION, RETURN]
+ *       - in: query
+ *         name: evidenceId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Dispositions with their approvals
+ */
+router.get('/',
+  validateRequest({ query: dispositionSchemas.query }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const dispositions = await getDispositions({
+        ...(req.query['status'] && { status: req.query['status'] as any }),
+        ...(req.query['dispositionType'] && { dispositionType: req.query['dispositionType'] as any }),
+        ...(req.query['evidenceId'] && { evidenceId: req.query['evidenceId'] as string }),
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: dispositions,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error listing dispositions:', error);
+      res.status(500).json(errorResponse('DISPOSITION_ERROR', 'Failed to list dispositions'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/dispositions:
+ *   post:
+ *     summary: Request destruction of an item or its return to its owner
+ *     description: >
+ *       The item must be PRESENTED or ARCHIVED, held by no preservation order and have no other open
+ *       request. Destruction needs a court order reference; types listed in
+ *       DISPOSITION_COURT_ORDER_REQUIRED also need the court order attached as a document.
+ *       The request then needs two approvals from users other than the requester before it can be executed.
+ *     tags: [Evidence Dispositions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [evidenceId, dispositionType, method, reason]
+ *             properties:
+ *               evidenceId:
+ *                 type: string
+ *                 format: uuid
+ *               dispositionType:
+ *                 type: string
+ *                 enum: [DESTRUCTION, RETURN]
+ *               method:
+ *                 type: string
+ *                 description: Destruction method (e.g. CRYPTOGRAPHIC_ERASURE, SHREDDING, INCINERATION), or the transfer method of a return
+ *               reason:
+ *                 type: string
+ *               recipient:
+ *                 type: object
+ *                 description: Returns only
+ *                 required: [name]
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                   organization:
+ *                     type: string
+ *                   contact:
+ *                     type: string
+ *               courtOrderReference:
+ *                 type: string
+ *               courtOrderDocumentId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       201:
+ *         description: Request recorded, awaiting approval
+ *       400:
+ *         description: Court order attachment required or not found
+ *       404:
+ *         description: Evidence item not found
+ *       409:
+ *         description: Item or one of its stored files is under legal hold, cannot be disposed of from its status, or already has an open request
+ */
+router.post('/',
+  validateRequest({ body: dispositionSchemas.create }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { evidenceId, dispositionType, courtOrderDocumentId } = req.body;
+
+      const evidence = await database('evidence_items').select('id', 'status', 'document_id').where({ id: evidenceId }).first();
+      if (!evidence) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Evidence item not found'));
+      }
+
+      const status = evidence.status as EvidenceLifecycleStatus;
+      const toStatus = DISPOSITION_TARGET_STATUS[dispositionType as keyof typeof DISPOSITION_TARGET_STATUS];
+      if (!isTransitionAllowed(status, toStatus)) {
+        return res.status(409).json(errorResponse(
+          'INVALID_TRANSITION',
+          `Evidence cannot move from ${status} to ${toStatus}`,
+          { fromStatus: status, allowed: LIFECYCLE_TRANSITIONS[status] }
+        ));
+      }
+
+      const holds = await getActiveHolds('evidence', evidenceId);
+      if (holds.length > 0) {
+        logSecurity('evidence_disposition_blocked', {
+          evidenceId,
+          dispositionType,
+          holds: holds.map(hold => hold.orderNumber),
+          attemptedBy: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(409).json(errorResponse('LEGAL_HOLD_ACTIVE', 'Evidence is under legal hold', { holds }));
+      }
+
+      const heldFiles = await getHeldStoredFiles(evidence);
+      if (heldFiles.length > 0) {
+        logSecurity('evidence_disposition_blocked', {
+          evidenceId,
+          dispositionType,
+          heldDocuments: heldFiles.map(file => file.documentId),
+          attemptedBy: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(409).json(errorResponse('LEGAL_HOLD_ACTIVE', 'Stored files of the evidence are under legal hold', { heldFiles }));
+      }
+
+      const open = await getOpenDisposition(evidenceId);
+      if (open) {
+        return res.status(409).json(errorResponse(
+          'DISPOSITION_OPEN',
+          'Evidence already has an open disposition request',
+          { dispositionId: open.id, status: open.status }
+        ));
+      }
+
+      if (!courtOrderDocumentId && getCourtOrderAttachmentTypes().includes(dispositionType)) {
+        return res.status(400).json(errorResponse('COURT_ORDER_REQUIRED', 'Attach the court order authorising this disposition'));
+      }
+      if (courtOrderDocumentId) {
+        const document = await database('documents').select('id').where({ id: courtOrderDocumentId }).first();
+        if (!document) {
+          return res.status(400).json(errorResponse('DOCUMENT_NOT_FOUND', 'Court order document not found'));
+        }
+      }
+
+      const disposition = await createDisposition(req.body, req.user.id);
+
+      logSecurity('evidence_disposition_requested', {
+        dispositionId: disposition.id,
+        evidenceId,
+        dispositionType,
+        courtOrderReference: disposition.courtOrderReference,
+        requestedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: disposition,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error requesting disposition:', error);
+      res.status(500).json(errorResponse('DISPOSITION_ERROR', 'Failed to request disposition'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/dispositions/{id}:
+ *   get:
+ *     summary: A disposition request with its approvals
+ *     tags: [Evidence Dispositions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Disposition
+ *       404:
+ *         description: Disposition not found
+ */
+router.get('/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const disposition = await getDisposition(req.params['id'] as string);
+
+      if (!disposition) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Disposition not found'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: disposition,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching disposition:', error);
+      res.status(500).json(errorResponse('DISPOSITION_ERROR', 'Failed to fetch disposition'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/dispositions/{id}/approvals:
+ *   post:
+ *     summary: Approve or reject a disposition request
+ *     description: The requester cannot decide their own request. Two approvals clear it; one rejection ends it.
+ *     tags: [Evidence Dispositions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [decision]
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               comments:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ *       403:
+ *         description: Requester cannot approve their own request
+ *       404:
+ *         description: Disposition not found
+ *       409:
+ *         description: Not awaiting approval, or already decided by this user
+ */
+router.post('/:id/approvals',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: dispositionSchemas.decision,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { decision, comments } = req.body;
+      const existing = await getDisposition(req.params['id'] as string);
+
+      if (!existing) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Disposition not found'));
+      }
+      if (existing.status !== 'PENDING_APPROVAL') {
+        return res.status(409).json(errorResponse('NOT_PENDING_APPROVAL', `Disposition is ${existing.status}`));
+      }
+      if (existing.requestedBy === req.user.id) {
+        return res.status(403).json(errorResponse('SELF_APPROVAL', 'The requester cannot approve their own disposition'));
+      }
+      if (existing.approvals.some(approval => approval.approverId === req.user.id)) {
+        return res.status(409).json(errorResponse('ALREADY_DECIDED', 'You have already decided this disposition'));
+      }
+
+      const disposition = await decideDisposition(existing.id, req.user.id, decision, comments);
+
+      logSecurity('evidence_disposition_decided', {
+        dispositionId: disposition.id,
+        evidenceId: disposition.evidenceId,
+        decision,
+        status: disposition.status,
+        approverId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: disposition,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error deciding disposition:', error);
+      res.status(500).json(errorResponse('DISPOSITION_ERROR', 'Failed to record decision'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/dispositions/{id}/cancel:
+ *   post:
+ *     summary: Withdraw a disposition request before it is executed
+ *     tags: [Evidence Dispositions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Disposition cancelled
+ *       404:
+ *         description: Disposition not found
+ *       409:
+ *         description: Disposition already settled
+ */
+router.post('/:id/cancel',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await getDisposition(req.params['id'] as string);
+
+      if (!existing) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Disposition not found'));
+      }
+      if (!OPEN_DISPOSITION_STATUSES.includes(existing.status)) {
+        return res.status(409).json(errorResponse('DISPOSITION_SETTLED', `Disposition is ${existing.status}`));
+      }
+
+      const disposition = await cancelDisposition(existing.id, req.user.id);
+
+      logSecurity('evidence_disposition_cancelled', {
+        dispositionId: disposition.id,
+        evidenceId: disposition.evidenceId,
+        cancelledBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: disposition,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error cancelling disposition:', error);
+      res.status(500).json(errorResponse('DISPOSITION_ERROR', 'Failed to cancel disposition'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/dispositions/{id}/execute:
+ *   post:
+ *     summary: Carry out an approved disposition
+ *     description: >
+ *       Rechecks legal holds on the item and each of its stored files, and the lifecycle transition. Destruction securely deletes every stored
+ *       file of the item (overwritten, then removed) except files another held item still uses;
+ *       if a file cannot be deleted the request is marked FAILED and can be retried. On success the
+ *       item moves to DESTROYED or RETURNED, a closing custody entry is appended, and a signed
+ *       certificate of destruction or return receipt is issued.
+ *     tags: [Evidence Dispositions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       201:
+ *         description: Disposition completed; returns the disposition and its certificate
+ *       404:
+ *         description: Disposition not found
+ *       409:
+ *         description: Not approved, or the item or one of its stored files is now under legal hold, or it cannot make the transition
+ *       500:
+ *         description: Secure deletion failed; the disposition is marked FAILED with per-file results
+ */
+router.post('/:id/execute',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const disposition = await getDisposition(req.params['id'] as string);
+
+      if (!disposition) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Disposition not found'));
+      }
+      if (disposition.status !== 'APPROVED' && disposition.status !== 'FAILED') {
+        return res.status(409).json(errorResponse('NOT_APPROVED', `Disposition is ${disposition.status}`));
+      }
+
+      const toStatus = DISPOSITION_TARGET_STATUS[disposition.dispositionType];
+      const evaluation = await evaluateTransition(disposition.evidenceId, {
+        toStatus,
+        description: 'Disposition',
+        ...(disposition.courtOrderReference && { courtOrderReference: disposition.courtOrderReference }),
+        dispositionId: disposition.id,
+      });
+
+      if (!evaluation?.allowed) {
+        return res.status(409).json(errorResponse(
+          'INVALID_TRANSITION',
+          `Evidence cannot move from ${evaluation?.fromStatus} to ${toStatus}`
+        ));
+      }
+
+      const unmet = unmetRequirements(evaluation.requirements);
+      if (unmet.length > 0) {
+        logSecurity('evidence_disposition_blocked', {
+          dispositionId: disposition.id,
+          evidenceId: disposition.evidenceId,
+          unmet: unmet.map(requirement => requirement.type),
+          attemptedBy: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(409).json(errorResponse('REQUIREMENTS_NOT_MET', `Requirements for ${toStatus} are not met`, { unmet }));
+      }
+
+      const result = await executeDisposition(disposition, req.user);
+
+      if (result.heldFiles) {
+        logSecurity('evidence_disposition_blocked', {
+          dispositionId: disposition.id,
+          evidenceId: disposition.evidenceId,
+          heldDocuments: result.heldFiles.map(file => file.documentId),
+          attemptedBy: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(409).json(errorResponse(
+          'LEGAL_HOLD_ACTIVE',
+          'Stored files of the evidence are under legal hold',
+          { heldFiles: result.heldFiles }
+        ));
+      }
+
+      if (!result.certificate) {
+        logSecurity('evidence_secure_delete_failed', {
+          dispositionId: disposition.id,
+          evidenceId: disposition.evidenceId,
+          erasures: result.disposition.erasures,
+          executedBy: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(500).json(errorResponse(
+          'SECURE_DELETE_FAILED',
+          result.disposition.failureReason ?? 'Secure deletion failed',
+          { disposition: result.disposition }
+        ));
+      }
+
+      logSecurity('evidence_disposition_executed', {
+        dispositionId: disposition.id,
+        evidenceId: disposition.evidenceId,
+        dispositionType: disposition.dispositionType,
+        toStatus,
+        certificateNumber: result.certificate.certificateNumber,
+        filesErased: result.disposition.erasures?.filter(erasure => erasure.status === 'ERASED').length ?? 0,
+        executedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error executing disposition:', error);
+      res.status(500).json(errorResponse('DISPOSITION_ERROR', 'Failed to execute disposition'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/dispositions/{id}/certificate:
+ *   get:
+ *     summary: Certificate of destruction or return receipt, with its verification
+ *     tags: [Evidence Dispositions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Signed certificate and whether its content hash and signature verify
+ *       404:
+ *         description: No certificate issued for this disposition
+ */
+router.get('/:id/certificate',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const certificate = await getDispositionCertificate(req.params['id'] as string);
+
+      if (!certificate) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'No certificate issued for this disposition'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          certificate,
+          verification: verifyCertificate(certificate, getCustodySigningKey()),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching disposition certificate:', error);
+      res.status(500).json(errorResponse('DISPOSITION_ERROR', 'Failed to fetch disposition certificate'));
+    }
+  }
+);
+
+export default router;
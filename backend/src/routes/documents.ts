@@ -8,12 +8,26 @@ import { requireAuth, requireRole, requireDocumentAccess } from '../middleware/a
 import { validateRequest, documentSchemas, commonSchemas } from '../middleware/validation';
 import { encryptFile, decryptFile, generateFileHash, verifyFileIntegrity } from '../utils/encryption';
 import logger, { logSecurity } from '../utils/logger';
+import {
+  importLoadFileProduction,
+  OptEntry,
+  ParsedDatFile,
+  parseDatFile,
+  parseOptFile,
+  resolveImportFieldMap,
+} from '../services/loadFile';
+import { documentAccessibleCondition } from '../services/sourceProtection';
+import productionRoutes from './productions';
+import Joi from 'joi';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(requireAuth);
 
+// Bates production register; mounted before the /:id routes
+router.use('/productions', productionRoutes);
+
 // Configure multer for file uploads
 const storage = multer.memoryStorage();
 const upload = multer({
@@ -55,6 +69,40 @@ const upload = multer({
   },
 });
 
+// Productions received from other parties: DAT/OPT load files plus their natives and images
+const loadFileUpload = multer({
+  storage,
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB per file
+    files: 500,
+  },
+  fileFilter: (_req, file, cb) => {
+    const dangerousExtensions = ['.exe', '.bat', '.cmd', '.com', '.pif', '.scr', '.vbs', '.js'];
+    const fileExtension = path.extname(file.originalname).toLowerCase();
+
+    if (dangerousExtensions.includes(fileExtension)) {
+      return cb(new Error('File extension not allowed'));
+    }
+
+    cb(null, true);
+  },
+});
+
+const loadFileImportSchema = Joi.object({
+  producingParty: Joi.string().required().max(255),
+  productionVolume: Joi.string().required().max(100),
+  classification: Joi.string().valid('public', 'internal', 'confidential', 'secret').required(),
+  fieldMap: Joi.string().max(10000), // JSON object of DAT header => field
+});
+
+const loadFileFieldMapSchema = Joi.object().pattern(
+  Joi.string().max(64),
+  Joi.string().valid(
+    'batesBegin', 'batesEnd', 'pageCount', 'custodian', 'dateSent', 'hash', 'classification',
+    'fileName', 'title', 'mimeType', 'nativeLink', 'evidenceId', 'documentId', 'evidenceType'
+  )
+);
+
 /**
  * @swagger
  * components:
@@ -195,6 +243,10 @@ router.get('/',
         });
       }
 
+      // Source protection - leave out documents behind evidence the caller is restricted from
+      const accessible = documentAccessibleCondition('documents.id', req.user, ['ACCESS']);
+      query = query.whereRaw(accessible.sql, accessible.bindings);
+
       // Get total count
       const totalQuery = query.clone()
         .clearSelect()
@@ -529,7 +581,7 @@ router.post('/upload',
  */
 router.get('/:id/download',
   validateRequest({ params: { id: commonSchemas.uuid } }),
-  requireDocumentAccess('public'),
+  requireDocumentAccess('public', ['ACCESS', 'COPYING']),
   async (req: AuthenticatedRequest, res) => {
     try {
       const document = await database('documents')
@@ -637,4 +689,175 @@ router.get('/:id/download',
   }
 );
 
-export default router;
\ No newline at end of file
+/**
+ * @swagger
+ * /api/documents/load-files/import:
+ *   post:
+ *     summary: Import a production received as a Concordance/Opticon load file
+ *     description: Parses the DAT (and optional OPT) file, matches each record to its uploaded native or first page image, and creates one document per record with its Bates range, custodian, date and the full set of DAT fields.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - dat
+ *               - producingParty
+ *               - productionVolume
+ *               - classification
+ *             properties:
+ *               dat:
+ *                 type: string
+ *                 format: binary
+ *               opt:
+ *                 type: string
+ *                 format: binary
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *               producingParty:
+ *                 type: string
+ *               productionVolume:
+ *                 type: string
+ *               classification:
+ *                 type: string
+ *                 enum: [public, internal, confidential, secret]
+ *               fieldMap:
+ *                 type: string
+ *                 description: JSON object mapping DAT headers to fields, e.g. {"PRODBEGBATES":"batesBegin"}
+ *     responses:
+ *       201:
+ *         description: Production imported
+ */
+router.post('/load-files/import',
+  requireRole(['legal_team', 'government_entity']),
+  loadFileUpload.fields([
+    { name: 'dat', maxCount: 1 },
+    { name: 'opt', maxCount: 1 },
+    { name: 'files', maxCount: 498 },
+  ]),
+  validateRequest({ body: loadFileImportSchema }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { producingParty, productionVolume, classification, fieldMap } = req.body;
+      const uploads = (req.files || {}) as Record<string, Express.Multer.File[]>;
+      const dat = uploads['dat']?.[0];
+
+      if (!dat) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NO_LOAD_FILE',
+            message: 'A DAT load file is required',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      let parsedFieldMap: Record<string, any> | undefined;
+      if (fieldMap) {
+        let candidate: any;
+        try {
+          candidate = JSON.parse(fieldMap);
+        } catch (parseError) {
+          candidate = null;
+        }
+        const { error } = loadFileFieldMapSchema.validate(candidate);
+
+        if (candidate === null || error) {
+          const response: APIResponse = {
+            success: false,
+            error: {
+              code: 'INVALID_FIELD_MAP',
+              message: error ? error.message : 'fieldMap must be a JSON object',
+            },
+            timestamp: new Date(),
+          };
+          return res.status(400).json(response);
+        }
+        parsedFieldMap = candidate;
+      }
+
+      // Malformed load files are reported back to the caller rather than as server faults
+      let parsedDat: ParsedDatFile;
+      let optEntries: OptEntry[] | undefined;
+      let resolvedFieldMap: ReturnType<typeof resolveImportFieldMap>;
+      try {
+        parsedDat = parseDatFile(dat.buffer);
+        optEntries = uploads['opt']?.[0] ? parseOptFile(uploads['opt'][0].buffer) : undefined;
+        resolvedFieldMap = resolveImportFieldMap(parsedDat.headers, parsedFieldMap);
+        if (!resolvedFieldMap.batesBegin) {
+          throw new Error('Load file has no beginning Bates field; supply a field map');
+        }
+      } catch (parseError: any) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_LOAD_FILE',
+            message: parseError.message,
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      const result = await importLoadFileProduction(
+        {
+          dat: parsedDat,
+          ...(optEntries && { opt: optEntries }),
+          files: (uploads['files'] || []).map(file => ({
+            name: file.originalname,
+            content: file.buffer,
+            mimeType: file.mimetype,
+          })),
+          fieldMap: resolvedFieldMap,
+          classification,
+          producingParty,
+          productionVolume,
+        },
+        req.user.id
+      );
+
+      logSecurity('load_file_production_imported', {
+        producingParty,
+        productionVolume,
+        classification,
+        imported: result.imported.length,
+        skipped: result.skipped.length,
+        hashMismatches: result.imported.filter(item => item.hashVerified === false).length,
+        importedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error importing load file production:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'IMPORT_ERROR',
+          message: 'Failed to import production',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+export default router;
@@ -1,7 +1,46 @@
 import express from 'express';
 import { AuthenticatedRequest, APIResponse, EvidenceItem, ChainOfCustodyEntry } from '../types';
+import { appendCustodyEntry, mapLedgerRow, verifyEvidenceCustody } from '../services/custodyLedger';
+import { DISPOSITION_TRANSFER_REASONS } from '../services/evidenceDisposition';
+import {
+  DISPOSED_STATUSES,
+  evaluateTransition,
+  getEvidenceLifecycle,
+  LIFECYCLE_TRANSITIONS,
+  recordCollection,
+  transitionEvidence,
+  unmetRequirements,
+} from '../services/evidenceLifecycle';
+import { normalizeSearchTerms } from '../services/evidenceSearch';
+import {
+  countLocationItems,
+  getActiveSeals,
+  getPhysicalEvidence,
+  getSealNumbersInUse,
+  getStorageLocation,
+  moveToLocation,
+  planSealHandOff,
+  recordSealHandOff,
+} from '../services/physicalEvidence';
+import { getActiveSigningKey, signCustodyEntry, verifyEvidenceCustodySignatures } from '../services/signingKeys';
+import { sourceAccessibleCondition } from '../services/sourceProtection';
+import { logCustodyEntry, logEvidenceFingerprint } from '../services/transparencyLog';
+import anonymizationRoutes from './anonymization';
+import batchRoutes from './batches';
+import complianceRoutes from './compliance';
+import dispositionRoutes from './dispositions';
+import exportRoutes from './exports';
+import integrityRoutes from './integrity';
+import physicalEvidenceRoutes from './physicalEvidence';
+import preservationRoutes from './preservation';
+import relationshipRoutes from './relationships';
+import searchRoutes from './search';
+import signingKeyRoutes from './signingKeys';
+import sourceProtectionRoutes from './sourceProtection';
+import timelineRoutes from './timeline';
+import transparencyLogRoutes from './transparencyLog';
 import database from '../config/database';
-import { requireAuth, requireRole, requireDocumentAccess } from '../middleware/auth';
+import { requireAuth, requireRole, requireDocumentAccess, requireSourceAccess } from '../middleware/auth';
 import { validateRequest, commonSchemas } from '../middleware/validation';
 import { generateFileHash } from '../utils/encryption';
 import logger, { logSecurity } from '../utils/logger';
@@ -12,12 +51,34 @@ const router = express.Router();
 // Apply authentication to all routes
 router.use(requireAuth);
 
+// Court export packages (registered before /:id so "exports" is not treated as an evidence ID)
+router.use('/anonymization', anonymizationRoutes);
+router.use('/batches', batchRoutes);
+router.use('/compliance', complianceRoutes);
+router.use('/dispositions', dispositionRoutes);
+router.use('/exports', exportRoutes);
+router.use('/integrity', integrityRoutes);
+router.use('/physical', physicalEvidenceRoutes);
+router.use('/preservation-orders', preservationRoutes);
+router.use('/relationships', relationshipRoutes);
+router.use('/search', searchRoutes);
+router.use('/signing-keys', signingKeyRoutes);
+router.use('/source-protections', sourceProtectionRoutes);
+router.use('/timeline', timelineRoutes);
+router.use('/transparency-log', transparencyLogRoutes);
+
 // Evidence validation schemas
 const evidenceSchemas = {
   create: Joi.object({
     documentId: Joi.string().uuid(),
     evidenceType: Joi.string().required().max(100),
     sourceStakeholderId: Joi.string().uuid(),
+    title: Joi.string().max(500),
+    description: Joi.string().max(10000),
+    keywords: Joi.array().items(Joi.string().max(100)).max(100),
+    statutes: Joi.array().items(Joi.string().max(255)).max(100),
+    tags: Joi.array().items(Joi.string().max(100)).max(100),
+    classification: Joi.string().valid('public', 'internal', 'confidential', 'secret'),
     significanceLevel: Joi.number().integer().min(1).max(10),
     notes: Joi.string(),
   }),
@@ -25,11 +86,56 @@ const evidenceSchemas = {
     toUser: Joi.string().uuid().required(),
     reason: Joi.string().required().max(500),
     location: Joi.string().required().max(255),
+    transferReason: Joi.string().valid(
+      'ANALYSIS', 'STORAGE', 'COURT_PRESENTATION', 'RETURN_TO_OWNER', 'DESTRUCTION', 'INVESTIGATION', 'OTHER'
+    ).default('OTHER'),
+    transferMethod: Joi.string().valid(
+      'HAND_DELIVERY', 'SECURE_TRANSPORT', 'MAIL_REGISTERED', 'COURIER', 'DIGITAL_TRANSFER', 'OTHER'
+    ).default('HAND_DELIVERY'),
+    purpose: Joi.string().valid(
+      'COLLECTION', 'ANALYSIS', 'STORAGE', 'EXAMINATION', 'PRESENTATION', 'PRESERVATION', 'DESTRUCTION'
+    ).default('STORAGE'),
+    custodianOrganization: Joi.string().max(255),
+    storageConditions: Joi.object({
+      temperature: Joi.number(),
+      humidity: Joi.number(),
+      lightExposure: Joi.string().valid('DARK', 'LOW', 'NORMAL', 'HIGH'),
+      security: Joi.string(),
+      access: Joi.string(),
+      specialRequirements: Joi.array().items(Joi.string()),
+    }),
+    conditionOnReceipt: Joi.string().max(1000),
+    integrityVerified: Joi.boolean().default(false),
+    integrityNotes: Joi.string().max(1000),
+    notes: Joi.string().max(2000),
+    storageLocationId: Joi.string().uuid(),
+    seals: Joi.array().items(Joi.object({
+      sealNumber: Joi.string().required().max(100),
+      condition: Joi.string().valid('INTACT', 'BROKEN', 'TAMPERED', 'MISSING').required(),
+      removed: Joi.boolean().default(false),
+      notes: Joi.string().max(1000),
+    })).unique('sealNumber'),
+    newSeals: Joi.array().items(Joi.object({
+      sealNumber: Joi.string().required().max(100),
+      sealType: Joi.string().required().max(100),
+      notes: Joi.string().max(1000),
+    })).unique('sealNumber'),
   }),
   verify: Joi.object({
     authenticityVerified: Joi.boolean().required(),
     notes: Joi.string().max(1000),
   }),
+  custodySignature: Joi.object({
+    role: Joi.string().valid('CUSTODIAN', 'WITNESS').required(),
+    passphrase: Joi.string().required().max(1024),
+  }),
+  transition: Joi.object({
+    toStatus: Joi.string().valid(...Object.keys(LIFECYCLE_TRANSITIONS)).required(),
+    description: Joi.string().required().max(2000),
+    results: Joi.string().max(10000),
+    courtOrderReference: Joi.string().max(255),
+    notes: Joi.string().max(2000),
+  }),
 };
 
 /**
@@ -52,6 +158,25 @@ const evidenceSchemas = {
  *         sourceStakeholderId:
  *           type: string
  *           format: uuid
+ *         title:
+ *           type: string
+ *         description:
+ *           type: string
+ *         keywords:
+ *           type: array
+ *           items:
+ *             type: string
+ *         statutes:
+ *           type: array
+ *           items:
+ *             type: string
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         classification:
+ *           type: string
+ *           enum: [public, internal, confidential, secret]
  *         chainOfCustody:
  *           type: array
  *           items:
@@ -178,6 +303,10 @@ router.get('/',
         }
       }
 
+      // Source protection - leave out items the caller is restricted from
+      const accessible = sourceAccessibleCondition('evidence_items.id', req.user, ['ACCESS']);
+      query = query.whereRaw(accessible.sql, accessible.bindings);
+
       // Get total count
       const totalQuery = query.clone()
         .clearSelect()
@@ -267,6 +396,7 @@ router.get('/',
 router.get('/:id',
   validateRequest({ params: { id: commonSchemas.uuid } }),
   requireRole(['legal_team', 'government_entity', 'witness']),
+  requireSourceAccess(['ACCESS']),
   async (req: AuthenticatedRequest, res) => {
     try {
       const evidence = await database('evidence_items')
@@ -392,6 +522,27 @@ router.get('/:id',
  *               sourceStakeholderId:
  *                 type: string
  *                 format: uuid
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               keywords:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               statutes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               classification:
+ *                 type: string
+ *                 enum: [public, internal, confidential, secret]
+ *                 default: internal
+ *                 description: Searches only return the item to users cleared for this level and for the linked document's
  *               significanceLevel:
  *                 type: integer
  *                 minimum: 1
@@ -411,6 +562,12 @@ router.post('/',
         documentId,
         evidenceType,
         sourceStakeholderId,
+        title,
+        description,
+        keywords = [],
+        statutes = [],
+        tags = [],
+        classification = 'internal',
         significanceLevel,
         notes
       } = req.body;
@@ -474,17 +631,49 @@ router.post('/',
         location: 'System',
       }];
 
-      // Create evidence item
-      const [evidenceId] = await database('evidence_items').insert({
-        documentId: documentId || null,
-        evidenceType,
-        sourceStakeholderId: sourceStakeholderId || null,
-        chainOfCustody: JSON.stringify(initialChainOfCustody),
-        integrityHash,
-        authenticityVerified: false,
-        significanceLevel: significanceLevel || null,
-        notes: notes || null,
-      }).returning('id');
+      // Create evidence item together with the genesis entry of its custody ledger
+      const evidenceId = await database.transaction(async (trx) => {
+        const [created] = await trx('evidence_items').insert({
+          document_id: documentId || null,
+          evidence_type: evidenceType,
+          source_stakeholder_id: sourceStakeholderId || null,
+          title: title || null,
+          description: description || null,
+          keywords: JSON.stringify(normalizeSearchTerms(keywords)),
+          statutes: JSON.stringify(normalizeSearchTerms(statutes)),
+          tags: JSON.stringify(normalizeSearchTerms(tags)),
+          classification,
+          chain_of_custody: JSON.stringify(initialChainOfCustody),
+          integrity_hash: integrityHash,
+          authenticity_verified: false,
+          significance_level: significanceLevel || null,
+          notes: notes || null,
+        }).returning('id');
+
+        const genesis = await appendCustodyEntry(trx, created.id, {
+          custodian: req.user.id,
+          custodianName: req.user.email,
+          transferredFrom: 'system',
+          transferredTo: req.user.id,
+          transferReason: 'INVESTIGATION',
+          transferMethod: 'DIGITAL_TRANSFER',
+          purpose: 'COLLECTION',
+          reasonDescription: 'Initial evidence creation',
+          storageLocation: 'System',
+          integrityVerified: Boolean(integrityHash),
+          recordedBy: req.user.id,
+        });
+
+        await recordCollection(trx, created.id, req.user.id);
+
+        // Record the fingerprint and first custody event in the transparency log
+        if (integrityHash) {
+          await logEvidenceFingerprint(trx, created.id, integrityHash);
+        }
+        await logCustodyEntry(trx, genesis);
+
+        return created.id;
+      });
 
       logSecurity('evidence_created', {
         evidenceId,
@@ -555,19 +744,93 @@ router.post('/',
  *                 type: string
  *               location:
  *                 type: string
+ *               transferReason:
+ *                 type: string
+ *                 enum: [ANALYSIS, STORAGE, COURT_PRESENTATION, RETURN_TO_OWNER, DESTRUCTION, INVESTIGATION, OTHER]
+ *               transferMethod:
+ *                 type: string
+ *                 enum: [HAND_DELIVERY, SECURE_TRANSPORT, MAIL_REGISTERED, COURIER, DIGITAL_TRANSFER, OTHER]
+ *               purpose:
+ *                 type: string
+ *                 enum: [COLLECTION, ANALYSIS, STORAGE, EXAMINATION, PRESENTATION, PRESERVATION, DESTRUCTION]
+ *               custodianOrganization:
+ *                 type: string
+ *               storageConditions:
+ *                 type: object
+ *               conditionOnReceipt:
+ *                 type: string
+ *               integrityVerified:
+ *                 type: boolean
+ *               integrityNotes:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *               storageLocationId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Physical items only. Registered location the item is placed in; omit when the item goes to a person rather than into storage.
+ *               seals:
+ *                 type: array
+ *                 description: Physical items only. Condition of every active seal as found at the hand-off.
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     sealNumber:
+ *                       type: string
+ *                     condition:
+ *                       type: string
+ *                       enum: [INTACT, BROKEN, TAMPERED, MISSING]
+ *                     removed:
+ *                       type: boolean
+ *                     notes:
+ *                       type: string
+ *               newSeals:
+ *                 type: array
+ *                 description: Physical items only. Seals applied at this hand-off.
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     sealNumber:
+ *                       type: string
+ *                     sealType:
+ *                       type: string
+ *                     notes:
+ *                       type: string
  *     responses:
  *       200:
- *         description: Evidence transferred successfully
+ *         description: Evidence transferred successfully and appended to the signed custody ledger
+ *       400:
+ *         description: Seal checks missing or unknown, or seal and location details for a non-physical item
+ *       409:
+ *         description: >
+ *           New seal number already in use, storage location inactive or full, item already destroyed or
+ *           returned, or a DESTRUCTION or RETURN_TO_OWNER transfer (use /api/evidence/dispositions)
  */
 router.post('/:id/transfer',
   validateRequest({ 
-    params: { id: commonSchemas.uuid },
+    params: Joi.object({ id: commonSchemas.uuid }),
     body: evidenceSchemas.chainOfCustody 
   }),
   requireRole(['legal_team', 'government_entity']),
   async (req: AuthenticatedRequest, res) => {
     try {
-      const { toUser, reason, location } = req.body;
+      const {
+        toUser,
+        reason,
+        location,
+        transferReason = 'OTHER',
+        transferMethod = 'HAND_DELIVERY',
+        purpose = 'STORAGE',
+        custodianOrganization,
+        storageConditions,
+        conditionOnReceipt,
+        integrityVerified = false,
+        integrityNotes,
+        notes,
+        storageLocationId,
+        seals = [],
+        newSeals = []
+      } = req.body;
 
       // Get evidence item
       const evidence = await database('evidence_items')
@@ -587,9 +850,24 @@ router.post('/:id/transfer',
         return res.status(404).json(response);
       }
 
+      // Destruction and return hand the item over for good; only an approved disposition records them
+      if (DISPOSED_STATUSES.includes(evidence.status) || DISPOSITION_TRANSFER_REASONS.includes(transferReason)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: DISPOSED_STATUSES.includes(evidence.status) ? 'EVIDENCE_DISPOSED' : 'DISPOSITION_REQUIRED',
+            message: DISPOSED_STATUSES.includes(evidence.status)
+              ? `Evidence is ${evidence.status.toLowerCase()} and can no longer change custody`
+              : 'Destruction and return to owner are recorded through an approved disposition request',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
       // Validate target user exists
       const targetUser = await database('users')
-        .select('id')
+        .select('id', 'email')
         .where({ id: toUser })
         .first();
 
@@ -605,6 +883,79 @@ router.post('/:id/transfer',
         return res.status(400).json(response);
       }
 
+      // Physical items: every active seal is checked at the hand-off
+      const physical = await getPhysicalEvidence(req.params['id'] as string);
+      const sealPlan = physical
+        ? planSealHandOff((await getActiveSeals(physical.evidenceId)).map(seal => seal.sealNumber), seals)
+        : null;
+
+      if (!physical && (storageLocationId || seals.length > 0 || newSeals.length > 0)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_PHYSICAL_EVIDENCE',
+            message: 'Seals and storage locations only apply to physical evidence',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      if (sealPlan && (sealPlan.unknown.length > 0 || sealPlan.missing.length > 0)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: sealPlan.unknown.length > 0 ? 'UNKNOWN_SEAL' : 'SEAL_CHECK_REQUIRED',
+            message: sealPlan.unknown.length > 0
+              ? 'Reported seals are not active on this item'
+              : 'Record the condition of every active seal at the hand-off',
+            details: {
+              unknown: sealPlan.unknown,
+              missing: sealPlan.missing,
+            },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      const sealNumbersInUse = await getSealNumbersInUse(newSeals.map((seal: any) => seal.sealNumber));
+      if (sealNumbersInUse.length > 0) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'SEAL_NUMBER_IN_USE',
+            message: 'Seal numbers are already on record',
+            details: { sealNumbers: sealNumbersInUse },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      if (storageLocationId && storageLocationId !== physical?.storageLocationId) {
+        const storageLocation = await getStorageLocation(storageLocationId);
+        const problem = !storageLocation
+          ? { status: 400, code: 'LOCATION_NOT_FOUND', message: 'Storage location not found' }
+          : !storageLocation.active
+            ? { status: 409, code: 'LOCATION_INACTIVE', message: 'Storage location has been retired' }
+            : storageLocation.capacity && await countLocationItems(storageLocation.id) >= storageLocation.capacity
+              ? { status: 409, code: 'LOCATION_FULL', message: 'Storage location is at capacity' }
+              : null;
+
+        if (problem) {
+          const response: APIResponse = {
+            success: false,
+            error: {
+              code: problem.code,
+              message: problem.message,
+            },
+            timestamp: new Date(),
+          };
+          return res.status(problem.status).json(response);
+        }
+      }
+
       // Parse existing chain of custody
       const chainOfCustody: ChainOfCustodyEntry[] = typeof evidence.chain_of_custody === 'string' ?
         JSON.parse(evidence.chain_of_custody) : evidence.chain_of_custody || [];
@@ -620,27 +971,71 @@ router.post('/:id/transfer',
 
       chainOfCustody.push(transferEntry);
 
-      // Update evidence item
-      await database('evidence_items')
-        .where({ id: req.params.id })
-        .update({
-          chainOfCustody: JSON.stringify(chainOfCustody),
+      // The signed ledger entry is authoritative; chain_of_custody is kept as a summary
+      const custodyEntry = await database.transaction(async (trx) => {
+        const entry = await appendCustodyEntry(trx, req.params.id, {
+          custodian: toUser,
+          custodianName: targetUser.email,
+          custodianOrganization,
+          transferredFrom: req.user.id,
+          transferredTo: toUser,
+          transferReason,
+          transferMethod,
+          purpose,
+          reasonDescription: reason,
+          receivedAt: transferEntry.transferredAt,
+          storageLocation: location,
+          storageConditions,
+          conditionOnReceipt,
+          integrityVerified,
+          integrityNotes,
+          notes,
+          recordedBy: req.user.id,
         });
 
+        if (physical) {
+          await recordSealHandOff(trx, physical.evidenceId, entry.id, req.user.id, seals, newSeals);
+          await moveToLocation(trx, physical.evidenceId, storageLocationId ?? null);
+        }
+
+        await trx('evidence_items')
+          .where({ id: req.params.id })
+          .update({
+            chain_of_custody: JSON.stringify(chainOfCustody),
+          });
+
+        await logCustodyEntry(trx, entry);
+
+        return entry;
+      });
+
       logSecurity('evidence_transferred', {
         evidenceId: req.params.id,
         fromUser: req.user.id,
         toUser,
         reason,
         location,
+        custodyEntryId: custodyEntry.id,
+        custodyEntryHash: custodyEntry.entryHash,
         ip: req.ip,
       });
 
+      if (sealPlan && sealPlan.breaches.length > 0) {
+        logSecurity('evidence_seal_breach', {
+          evidenceId: custodyEntry.evidenceId,
+          custodyEntryId: custodyEntry.id,
+          seals: sealPlan.breaches.map(check => ({ sealNumber: check.sealNumber, condition: check.condition })),
+          reportedBy: req.user.id,
+          ip: req.ip,
+        });
+      }
+
       const response: APIResponse = {
         success: true,
         data: {
           message: 'Evidence transferred successfully',
           chainOfCustody,
+          custodyEntry,
         },
         timestamp: new Date(),
       };
@@ -663,6 +1058,521 @@ router.post('/:id/transfer',
   }
 );
 
+/**
+ * @swagger
+ * /api/evidence/{id}/custody/verify:
+ *   get:
+ *     summary: Verify the hash-linked custody ledger of an evidence item
+ *     description: Walks every custody entry, recomputing its hash, checking the link to the previous entry and the server signature, and reports the first broken link. Also checks every custodian and witness signature against its certificate, the internal CA and the revocation list.
+ *     tags: [Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Custody chain verification result
+ */
+router.get('/:id/custody/verify',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  requireRole(['legal_team', 'government_entity']),
+  requireSourceAccess(['ACCESS']),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const evidence = await database('evidence_items')
+        .select('id')
+        .where({ id: req.params.id })
+        .first();
+
+      if (!evidence) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Evidence item not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      const [verification, signatures] = await Promise.all([
+        verifyEvidenceCustody(req.params.id),
+        verifyEvidenceCustodySignatures(req.params.id),
+      ]);
+
+      if (!verification.valid) {
+        logSecurity('evidence_custody_chain_broken', {
+          evidenceId: req.params.id,
+          firstBrokenLink: verification.firstBrokenLink,
+          checkedBy: req.user.id,
+          ip: req.ip,
+        });
+      }
+
+      const invalidSignatures = signatures.filter(signature => !signature.valid);
+      if (invalidSignatures.length > 0) {
+        logSecurity('evidence_custody_signatures_invalid', {
+          evidenceId: req.params.id,
+          invalidSignatures,
+          checkedBy: req.user.id,
+          ip: req.ip,
+        });
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          ...verification,
+          signatures,
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error verifying custody chain:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'CUSTODY_VERIFICATION_ERROR',
+          message: 'Failed to verify custody chain',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/{id}/custody/{entryId}/signatures:
+ *   post:
+ *     summary: Sign a custody entry as its custodian or as a witness
+ *     description: Re-authenticates the caller with their signing passphrase, unlocks their enrolled key and signs the ledger entry hash on their behalf. The signature carries the caller's certificate chain. Only the recorded custodian can sign as CUSTODIAN; witnesses must be another user. Requires a legal team or government role and source access.
+ *     tags: [Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: entryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *               - passphrase
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [CUSTODIAN, WITNESS]
+ *               passphrase:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Custody signature with certificate chain
+ *       401:
+ *         description: Signing passphrase rejected
+ *       403:
+ *         description: Caller may not sign in this role
+ *       404:
+ *         description: Evidence item or custody entry not found
+ *       409:
+ *         description: Caller has no valid signing key, or the entry is already signed in this role
+ */
+router.post('/:id/custody/:entryId/signatures',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid, entryId: commonSchemas.uuid }),
+    body: evidenceSchemas.custodySignature,
+  }),
+  requireRole(['legal_team', 'government_entity']),
+  requireSourceAccess(['ACCESS']),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const evidenceId = req.params['id'] as string;
+      const entryId = req.params['entryId'] as string;
+      const { role, passphrase } = req.body;
+
+      const entryRow = await database('evidence_custody_ledger')
+        .select('*')
+        .where({ id: entryId, evidence_id: evidenceId })
+        .first();
+
+      if (!entryRow) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Custody entry not found for this evidence item',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      const entry = mapLedgerRow(entryRow);
+
+      if (role === 'CUSTODIAN' && entry.custodian !== req.user.id) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_CUSTODIAN',
+            message: 'Only the recorded custodian can sign as custodian',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(403).json(response);
+      }
+
+      if (role === 'WITNESS' && entry.custodian === req.user.id) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'WITNESS_NOT_ELIGIBLE',
+            message: 'The custodian cannot witness their own custody entry',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(403).json(response);
+      }
+
+      const key = await getActiveSigningKey(req.user.id);
+      if (!key) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_ENROLLED',
+            message: 'No active signing key; enroll first',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const now = new Date();
+      if (now < key.notBefore || now > key.notAfter) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'CERTIFICATE_EXPIRED',
+            message: 'Signing certificate is not currently valid; revoke the key and enroll again',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const existing = await database('evidence_custody_signatures')
+        .select('id')
+        .where({ custody_entry_id: entryId, role })
+        .first();
+
+      if (existing) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'ALREADY_SIGNED',
+            message: `Custody entry already has a ${role.toLowerCase()} signature`,
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const signature = await signCustodyEntry(entry, role, req.user.id, passphrase);
+
+      if (!signature) {
+        logSecurity('custody_signature_reauthentication_failed', {
+          evidenceId,
+          custodyEntryId: entryId,
+          role,
+          userId: req.user.id,
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'REAUTHENTICATION_FAILED',
+            message: 'Signing passphrase is incorrect',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(401).json(response);
+      }
+
+      logSecurity('custody_entry_signed', {
+        evidenceId,
+        custodyEntryId: entryId,
+        sequenceNumber: entry.sequenceNumber,
+        role,
+        signerId: req.user.id,
+        certificateSerial: key.certificateSerial,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: signature,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error signing custody entry:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'CUSTODY_SIGNATURE_ERROR',
+          message: 'Failed to sign custody entry',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/{id}/lifecycle:
+ *   get:
+ *     summary: Lifecycle status, history and next steps of an evidence item
+ *     description: Lists every recorded lifecycle activity and, for each status the item may move to next, the preconditions and whether they are met.
+ *     tags: [Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Lifecycle state
+ *       404:
+ *         description: Evidence item not found
+ */
+router.get('/:id/lifecycle',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  requireRole(['legal_team', 'government_entity']),
+  requireSourceAccess(['ACCESS']),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const lifecycle = await getEvidenceLifecycle(req.params['id'] as string);
+
+      if (!lifecycle) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Evidence item not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: lifecycle,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching evidence lifecycle:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'LIFECYCLE_ERROR',
+          message: 'Failed to fetch evidence lifecycle',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/{id}/lifecycle/transitions:
+ *   post:
+ *     summary: Move an evidence item to its next lifecycle status
+ *     description: >
+ *       Only transitions allowed from the current status are accepted
+ *       (COLLECTED, PROCESSING, ANALYZED, READY, PRESENTED, then ARCHIVED, DESTROYED or RETURNED, with
+ *       DISPUTED sending an item back for rework). READY and PRESENTED require an intact custody ledger and
+ *       verified authenticity; ANALYZED requires results; DESTROYED requires a court order reference.
+ *       DESTROYED and RETURNED require no active legal hold and are only reached by executing an approved
+ *       disposition (/api/evidence/dispositions), so requesting them here is refused.
+ *       Every transition is recorded in the item's append-only history.
+ *     tags: [Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - toStatus
+ *               - description
+ *             properties:
+ *               toStatus:
+ *                 type: string
+ *                 enum: [COLLECTED, PROCESSING, ANALYZED, READY, PRESENTED, ARCHIVED, DESTROYED, RETURNED, DISPUTED]
+ *               description:
+ *                 type: string
+ *               results:
+ *                 type: string
+ *               courtOrderReference:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Transition recorded
+ *       404:
+ *         description: Evidence item not found
+ *       409:
+ *         description: Transition not allowed from the current status, or its requirements are not met
+ */
+router.post('/:id/lifecycle/transitions',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: evidenceSchemas.transition,
+  }),
+  requireRole(['legal_team', 'government_entity']),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { toStatus } = req.body;
+
+      const evaluation = await evaluateTransition(req.params['id'] as string, req.body);
+
+      if (!evaluation) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Evidence item not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      if (!evaluation.allowed) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_TRANSITION',
+            message: `Evidence cannot move from ${evaluation.fromStatus} to ${toStatus}`,
+            details: {
+              fromStatus: evaluation.fromStatus,
+              allowed: LIFECYCLE_TRANSITIONS[evaluation.fromStatus],
+            },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const unmet = unmetRequirements(evaluation.requirements);
+      if (unmet.length > 0) {
+        logSecurity('evidence_transition_blocked', {
+          evidenceId: req.params['id'] as string,
+          fromStatus: evaluation.fromStatus,
+          toStatus,
+          unmet: unmet.map(requirement => requirement.type),
+          attemptedBy: req.user.id,
+          ip: req.ip,
+        });
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'REQUIREMENTS_NOT_MET',
+            message: `Requirements for ${toStatus} are not met`,
+            details: { unmet },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const activity = await transitionEvidence(req.params['id'] as string, req.body, req.user.id);
+
+      logSecurity('evidence_status_changed', {
+        evidenceId: req.params['id'] as string,
+        fromStatus: activity.fromStatus,
+        toStatus: activity.toStatus,
+        courtOrderReference: activity.courtOrderReference,
+        changedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: activity,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error changing evidence status:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'LIFECYCLE_ERROR',
+          message: 'Failed to change evidence status',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/evidence/{id}/verify:
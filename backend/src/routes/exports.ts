@@ -0,0 +1,811 @@
+import express from 'express';
+import fs from 'fs/promises';
+import { AuthenticatedRequest, APIResponse } from '../types';
+import {
+  createCourtExport,
+  decryptExportBundle,
+  getExportAccessLog,
+  issueDownloadLink,
+  mapExportRow,
+  matchesDownloadToken,
+  recordExportAccess,
+} from '../services/courtExport';
+import { checkSourceAccess, recordSourceProtectionDenials } from '../services/sourceProtection';
+import database from '../config/database';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/exports by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const exportSchemas = {
+  create: Joi.object({
+    caseId: Joi.string().required().max(255),
+    caseNumber: Joi.string().required().max(255),
+    court: Joi.string().required().max(255),
+    jurisdiction: Joi.string().required().max(255),
+    exportType: Joi.string().valid(
+      'DISCOVERY_PRODUCTION', 'COURT_EXHIBIT', 'AUDIT_REPORT', 'COMPLIANCE_REPORT',
+      'CHAIN_OF_CUSTODY', 'INTEGRITY_REPORT', 'TIMELINE_REPORT'
+    ).required(),
+    format: Joi.string().valid('NATIVE', 'JSON', 'LOAD_FILE').default('NATIVE'),
+    evidenceIds: Joi.array().items(Joi.string().uuid()).min(1).max(500).unique().required(),
+    includeChainOfCustody: Joi.boolean().default(true),
+    includeIntegrityProof: Joi.boolean().default(true),
+    includeTimeline: Joi.boolean().default(true),
+    authorizedBy: Joi.string().uuid().required(),
+    loadFile: Joi.object({
+      batesPrefix: Joi.string().pattern(/^[A-Za-z0-9_-]*$/).max(20),
+      batesStart: Joi.number().integer().min(1),
+      batesDigits: Joi.number().integer().min(4).max(12),
+      volume: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(50),
+      dateFormat: Joi.string().valid('MM/DD/YYYY', 'YYYY-MM-DD', 'ISO'),
+      fieldMap: Joi.array().items(Joi.object({
+        header: Joi.string().pattern(/^[A-Za-z0-9_ ]+$/).max(64).required(),
+        field: Joi.string().valid(
+          'batesBegin', 'batesEnd', 'pageCount', 'custodian', 'dateSent', 'hash', 'classification',
+          'fileName', 'title', 'mimeType', 'nativeLink', 'evidenceId', 'documentId', 'evidenceType'
+        ).required(),
+      })).min(1),
+    }).when('format', { is: 'LOAD_FILE', otherwise: Joi.forbidden() }),
+    expiresInHours: Joi.number().integer().min(1).max(720),
+    notes: Joi.string().max(2000),
+  }),
+  link: Joi.object({
+    expiresInHours: Joi.number().integer().min(1).max(720),
+  }),
+  download: Joi.object({
+    token: Joi.string().hex().length(64).required(),
+  }),
+};
+
+const denialContext = (req: AuthenticatedRequest) => ({
+  ip: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+const accessDetails = (req: AuthenticatedRequest, notes?: string) => ({
+  accessedBy: req.user.id,
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+  ...(notes && { notes }),
+});
+
+/**
+ * @swagger
+ * /api/evidence/exports:
+ *   post:
+ *     summary: Build a signed court export package
+ *     description: Assembles the selected evidence (native files, chain-of-custody reports, integrity proofs and timeline) into a ZIP bundle with a signed manifest and certification page. The response contains the only copy of the expiring download link token, to be POSTed to downloadUrl.
+ *     tags: [Evidence Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - caseId
+ *               - caseNumber
+ *               - court
+ *               - jurisdiction
+ *               - exportType
+ *               - evidenceIds
+ *               - authorizedBy
+ *             properties:
+ *               caseId:
+ *                 type: string
+ *               caseNumber:
+ *                 type: string
+ *               court:
+ *                 type: string
+ *               jurisdiction:
+ *                 type: string
+ *               exportType:
+ *                 type: string
+ *                 enum: [DISCOVERY_PRODUCTION, COURT_EXHIBIT, AUDIT_REPORT, COMPLIANCE_REPORT, CHAIN_OF_CUSTODY, INTEGRITY_REPORT, TIMELINE_REPORT]
+ *               format:
+ *                 type: string
+ *                 enum: [NATIVE, JSON, LOAD_FILE]
+ *               evidenceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               includeChainOfCustody:
+ *                 type: boolean
+ *               includeIntegrityProof:
+ *                 type: boolean
+ *               includeTimeline:
+ *                 type: boolean
+ *               authorizedBy:
+ *                 type: string
+ *                 format: uuid
+ *               loadFile:
+ *                 type: object
+ *                 description: Bates numbering, volume, date format and DAT field map for LOAD_FILE exports
+ *                 properties:
+ *                   batesPrefix:
+ *                     type: string
+ *                   batesStart:
+ *                     type: integer
+ *                   batesDigits:
+ *                     type: integer
+ *                   volume:
+ *                     type: string
+ *                   dateFormat:
+ *                     type: string
+ *                     enum: [MM/DD/YYYY, YYYY-MM-DD, ISO]
+ *                   fieldMap:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         header:
+ *                           type: string
+ *                         field:
+ *                           type: string
+ *               expiresInHours:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Export package built
+ */
+router.post('/',
+  validateRequest({ body: exportSchemas.create }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const {
+        caseId,
+        caseNumber,
+        court,
+        jurisdiction,
+        exportType,
+        format = 'NATIVE',
+        evidenceIds,
+        includeChainOfCustody = true,
+        includeIntegrityProof = true,
+        includeTimeline = true,
+        authorizedBy,
+        loadFile,
+        expiresInHours,
+        notes
+      } = req.body;
+
+      const authorizer = await database('users')
+        .select('id', 'email', 'role_type')
+        .where({ id: authorizedBy })
+        .first();
+
+      if (!authorizer || !['legal_team', 'government_entity'].includes(authorizer.role_type)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_AUTHORIZER',
+            message: 'Exports must be authorized by a legal team or government user',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      const found = await database('evidence_items')
+        .select('id')
+        .whereIn('id', evidenceIds);
+      const foundIds = new Set(found.map((row: any) => row.id));
+      const missing = evidenceIds.filter((id: string) => !foundIds.has(id));
+
+      if (missing.length > 0) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'EVIDENCE_NOT_FOUND',
+            message: 'Some evidence items were not found',
+            details: { missing },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      const denials = await checkSourceAccess({ evidenceIds }, req.user, ['DISCLOSURE', 'COPYING']);
+      if (denials.length > 0) {
+        await recordSourceProtectionDenials(denials, req.user, 'COURT_EXPORT', denialContext(req));
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'SOURCE_PROTECTED',
+            message: 'Some evidence items are source-protected against disclosure',
+            details: { evidenceIds: denials.map(denial => denial.evidenceId) },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(403).json(response);
+      }
+
+      const courtExport = await createCourtExport(
+        {
+          caseId,
+          caseNumber,
+          court,
+          jurisdiction,
+          exportType,
+          format,
+          evidenceIds,
+          includeChainOfCustody,
+          includeIntegrityProof,
+          includeTimeline,
+          authorizedBy,
+          loadFileOptions: loadFile,
+          expiresInHours,
+          notes,
+        },
+        { id: req.user.id, email: req.user.email },
+        { id: authorizer.id, email: authorizer.email }
+      );
+
+      logSecurity('court_export_created', {
+        exportId: courtExport.id,
+        caseId,
+        exportType,
+        evidenceCount: evidenceIds.length,
+        bundleHash: courtExport.bundleHash,
+        integrityVerified: courtExport.certification?.integrityVerified,
+        requestedBy: req.user.id,
+        authorizedBy,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: courtExport,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating court export:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'EXPORT_ERROR',
+          message: 'Failed to build court export',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/exports:
+ *   get:
+ *     summary: List court exports
+ *     tags: [Evidence Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: caseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of court exports
+ */
+router.get('/',
+  validateRequest({
+    query: commonSchemas.pagination.keys({
+      caseId: Joi.string().max(255),
+      status: Joi.string().valid(
+        'REQUESTED', 'APPROVED', 'PROCESSING', 'READY', 'DELIVERED', 'EXPIRED', 'CANCELLED', 'FAILED'
+      ),
+    }),
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { caseId, status, page = 1, limit = 20 } = req.query;
+
+      let query = database('court_exports').select('*');
+
+      if (caseId) {
+        query = query.where('case_id', caseId as string);
+      }
+
+      if (status) {
+        query = query.where('status', status as string);
+      }
+
+      const countRow: any = await query.clone().clearSelect().count('id as count').first();
+      const total = parseInt(countRow.count as string);
+
+      const rows = await query
+        .orderBy('created_at', 'desc')
+        .limit(Number(limit))
+        .offset((Number(page) - 1) * Number(limit));
+
+      const response: APIResponse = {
+        success: true,
+        data: rows.map(mapExportRow),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching court exports:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch court exports',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/exports/{id}:
+ *   get:
+ *     summary: Get a court export with its manifest, certification and access log
+ *     tags: [Evidence Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Court export details
+ */
+router.get('/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const row = await database('court_exports')
+        .select('*')
+        .where({ id: req.params.id })
+        .first();
+
+      if (!row) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Court export not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      await recordExportAccess(row.id, 'VIEW', true, accessDetails(req));
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          ...mapExportRow(row),
+          accessLog: await getExportAccessLog(row.id),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching court export:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch court export',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/exports/{id}/link:
+ *   post:
+ *     summary: Issue a new expiring download link
+ *     description: Replaces the current link token; previously issued links stop working.
+ *     tags: [Evidence Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: New download link and token
+ */
+router.post('/:id/link',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: exportSchemas.link,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const row = await database('court_exports')
+        .select('id', 'status', 'evidence_ids')
+        .where({ id: req.params.id })
+        .first();
+
+      if (!row) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Court export not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      if (!['READY', 'DELIVERED', 'EXPIRED'].includes(row.status)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'EXPORT_NOT_AVAILABLE',
+            message: `Cannot issue a download link for an export that is ${row.status}`,
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      // Protections added since the export was built still apply
+      const evidenceIds = typeof row.evidence_ids === 'string' ? JSON.parse(row.evidence_ids) : row.evidence_ids;
+      const denials = await checkSourceAccess({ evidenceIds }, req.user, ['SHARING']);
+      if (denials.length > 0) {
+        await recordSourceProtectionDenials(denials, req.user, 'COURT_EXPORT_SHARE', denialContext(req));
+        await recordExportAccess(row.id, 'SHARE', false, accessDetails(req, 'Source protection restricts sharing'));
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'SOURCE_PROTECTED',
+            message: 'Some evidence items are source-protected against sharing',
+            details: { evidenceIds: denials.map(denial => denial.evidenceId) },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(403).json(response);
+      }
+
+      const link = await issueDownloadLink(row.id, req.body.expiresInHours);
+
+      await recordExportAccess(row.id, 'SHARE', true, accessDetails(req, `Link valid until ${link.expiresAt.toISOString()}`));
+
+      logSecurity('court_export_link_issued', {
+        exportId: row.id,
+        expiresAt: link.expiresAt,
+        issuedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: link,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error issuing court export link:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'LINK_ERROR',
+          message: 'Failed to issue download link',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/exports/{id}/download:
+ *   post:
+ *     summary: Download a court export bundle
+ *     description: The link token is sent in the body rather than the URL so it is not written to request logs.
+ *     tags: [Evidence Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: ZIP bundle
+ *       403:
+ *         description: Invalid download link
+ *       410:
+ *         description: Download link expired
+ */
+router.post('/:id/download',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: exportSchemas.download,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const row = await database('court_exports')
+        .select('*')
+        .where({ id: req.params.id })
+        .first();
+
+      if (!row) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Court export not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      if (!matchesDownloadToken(req.body.token, row.download_token_hash)) {
+        await recordExportAccess(row.id, 'DOWNLOAD', false, accessDetails(req, 'Invalid download token'));
+        logSecurity('court_export_invalid_token', {
+          exportId: row.id,
+          userId: req.user.id,
+          ip: req.ip,
+        });
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_LINK',
+            message: 'Download link is not valid',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(403).json(response);
+      }
+
+      if (new Date(row.expires_at) < new Date()) {
+        if (['READY', 'DELIVERED'].includes(row.status)) {
+          await database('court_exports').where({ id: row.id }).update({ status: 'EXPIRED' });
+        }
+        await recordExportAccess(row.id, 'DOWNLOAD', false, accessDetails(req, 'Download link expired'));
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'LINK_EXPIRED',
+            message: 'Download link has expired',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(410).json(response);
+      }
+
+      if (!['READY', 'DELIVERED'].includes(row.status) || !row.bundle_path) {
+        await recordExportAccess(row.id, 'DOWNLOAD', false, accessDetails(req, `Export is ${row.status}`));
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'EXPORT_NOT_AVAILABLE',
+            message: `Export is ${row.status}`,
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const evidenceIds = typeof row.evidence_ids === 'string' ? JSON.parse(row.evidence_ids) : row.evidence_ids;
+      const denials = await checkSourceAccess({ evidenceIds }, req.user, ['DISCLOSURE', 'COPYING']);
+      if (denials.length > 0) {
+        await recordSourceProtectionDenials(denials, req.user, 'COURT_EXPORT_DOWNLOAD', denialContext(req));
+        await recordExportAccess(row.id, 'DOWNLOAD', false, accessDetails(req, 'Source protection restricts disclosure'));
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'SOURCE_PROTECTED',
+            message: 'Some evidence items in this export are source-protected against disclosure',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(403).json(response);
+      }
+
+      const tempPath = await decryptExportBundle(row.bundle_path);
+
+      await recordExportAccess(row.id, 'DOWNLOAD', true, accessDetails(req));
+      if (row.status === 'READY') {
+        await database('court_exports').where({ id: row.id }).update({ status: 'DELIVERED' });
+      }
+
+      logSecurity('court_export_downloaded', {
+        exportId: row.id,
+        caseId: row.case_id,
+        bundleHash: row.bundle_hash,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      res.setHeader('X-Bundle-SHA256', row.bundle_hash);
+      res.download(tempPath, `${row.case_number}-${row.id}.zip`.replace(/[^\w.\-]+/g, '_'), async (err) => {
+        try {
+          await fs.unlink(tempPath);
+        } catch (cleanupError) {
+          logger.error('Error cleaning up temp file:', cleanupError);
+        }
+
+        if (err) {
+          logger.error('Error sending court export:', err);
+        }
+      });
+    } catch (error) {
+      logger.error('Error downloading court export:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'DOWNLOAD_ERROR',
+          message: 'Failed to download court export',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/exports/{id}:
+ *   delete:
+ *     summary: Cancel a court export and destroy its bundle
+ *     tags: [Evidence Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Export cancelled
+ */
+router.delete('/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const row = await database('court_exports')
+        .select('id', 'bundle_path', 'status')
+        .where({ id: req.params.id })
+        .first();
+
+      if (!row) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Court export not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      if (row.bundle_path) {
+        await fs.rm(row.bundle_path, { force: true });
+      }
+
+      // The record, manifest and access log are retained for the audit trail
+      await database('court_exports')
+        .where({ id: row.id })
+        .update({
+          status: 'CANCELLED',
+          bundle_path: null,
+          download_token_hash: null,
+        });
+
+      await recordExportAccess(row.id, 'DELETE', true, accessDetails(req));
+
+      logSecurity('court_export_cancelled', {
+        exportId: row.id,
+        previousStatus: row.status,
+        cancelledBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          message: 'Court export cancelled',
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error cancelling court export:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'CANCEL_ERROR',
+          message: 'Failed to cancel court export',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,208 @@
+import express from 'express';
+import { APIResponse } from '../types';
+import { acknowledgeHoldNotice, acknowledgementUrlFor, findHoldNoticeByToken, renderNoticeTemplate } from '../services/holdNotices';
+import { validateRequest } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Public: mounted under /api/hold-notices/acknowledge without requireAuth. Custodians are
+// often not users of the system, so the link token is the only credential.
+const router = express.Router();
+
+const acknowledgementSchemas = {
+  token: Joi.object({
+    token: Joi.string().required().max(128),
+  }),
+  acknowledge: Joi.object({
+    name: Joi.string().required().max(255),
+  }),
+};
+
+const invalidLinkResponse = (): APIResponse => ({
+  success: false,
+  error: {
+    code: 'INVALID_LINK',
+    message: 'Acknowledgement link is not valid',
+  },
+  timestamp: new Date(),
+});
+
+const withdrawnResponse = (): APIResponse => ({
+  success: false,
+  error: {
+    code: 'NOTICE_WITHDRAWN',
+    message: 'This legal hold has been released and no longer needs to be acknowledged',
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/hold-notices/acknowledge/{token}:
+ *   get:
+ *     summary: View a legal hold notice from its acknowledgement link
+ *     tags: [Legal Holds]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notice text and acknowledgement status
+ *       404:
+ *         description: Invalid acknowledgement link
+ *       410:
+ *         description: The hold has been released
+ */
+router.get('/:token',
+  validateRequest({
+    params: acknowledgementSchemas.token,
+  }),
+  async (req, res) => {
+    try {
+      const token = req.params['token'] as string;
+      const found = await findHoldNoticeByToken(token);
+
+      if (!found) {
+        logSecurity('hold_notice_invalid_token', { ip: req.ip });
+        return res.status(404).json(invalidLinkResponse());
+      }
+
+      const { notice, orderNumber } = found;
+      if (notice.status === 'WITHDRAWN') {
+        return res.status(410).json(withdrawnResponse());
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          orderNumber,
+          recipientName: notice.recipientName,
+          subject: notice.subject,
+          body: renderNoticeTemplate(notice.body, { acknowledgementUrl: acknowledgementUrlFor(token) }, notice.format),
+          format: notice.format,
+          issuedAt: notice.issuedAt,
+          dueAt: notice.dueAt,
+          acknowledged: notice.status === 'ACKNOWLEDGED',
+          ...(notice.acknowledgedAt && { acknowledgedAt: notice.acknowledgedAt }),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching hold notice:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'HOLD_NOTICE_ERROR',
+          message: 'Failed to fetch hold notice',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/hold-notices/acknowledge/{token}:
+ *   post:
+ *     summary: Acknowledge a legal hold notice
+ *     description: Records that the custodian has read the notice and will comply. Acknowledging again returns the original acknowledgement.
+ *     tags: [Legal Holds]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Name typed by the custodian as their signature
+ *     responses:
+ *       200:
+ *         description: Notice acknowledged
+ *       404:
+ *         description: Invalid acknowledgement link
+ *       410:
+ *         description: The hold has been released
+ */
+router.post('/:token',
+  validateRequest({
+    params: acknowledgementSchemas.token,
+    body: acknowledgementSchemas.acknowledge,
+  }),
+  async (req, res) => {
+    try {
+      const found = await findHoldNoticeByToken(req.params['token'] as string);
+
+      if (!found) {
+        logSecurity('hold_notice_invalid_token', { ip: req.ip });
+        return res.status(404).json(invalidLinkResponse());
+      }
+
+      let { notice } = found;
+      if (notice.status === 'WITHDRAWN') {
+        return res.status(410).json(withdrawnResponse());
+      }
+
+      if (notice.status !== 'ACKNOWLEDGED') {
+        const userAgent = req.get('user-agent');
+        notice = await acknowledgeHoldNotice(notice.id, {
+          name: req.body.name,
+          ...(req.ip && { ip: req.ip }),
+          ...(userAgent && { userAgent }),
+        });
+
+        logSecurity('hold_notice_acknowledged', {
+          noticeId: notice.id,
+          orderId: notice.orderId,
+          recipientEmail: notice.recipientEmail,
+          ip: req.ip,
+        });
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          orderNumber: found.orderNumber,
+          acknowledgedAt: notice.acknowledgedAt,
+          acknowledgedName: notice.acknowledgedName,
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error acknowledging hold notice:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'HOLD_NOTICE_ERROR',
+          message: 'Failed to record acknowledgement',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+export default router;
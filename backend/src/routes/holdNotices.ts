@@ -0,0 +1,534 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse } from '../types';
+import {
+  claimNoticeDeliveries,
+  createNoticeTemplate,
+  findUnknownPlaceholders,
+  getNoticeDeliveries,
+  listNoticeTemplates,
+  mapNoticeRow,
+  processHoldNoticeSchedule,
+  recordDeliveryResult,
+  resendHoldNotice,
+} from '../services/holdNotices';
+import database from '../config/database';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/preservation-orders/notices by the preservation router,
+// which applies requireAuth and the legal team role check
+const router = express.Router();
+
+const holdNoticeSchemas = {
+  template: Joi.object({
+    name: Joi.string().required().max(255),
+    subject: Joi.string().required().max(500),
+    body: Joi.string().required().max(50000),
+    format: Joi.string().valid('text', 'html'),
+  }),
+  claim: Joi.object({
+    limit: Joi.number().integer().min(1).max(200),
+  }),
+  result: Joi.object({
+    sent: Joi.boolean().required(),
+    messageId: Joi.string().max(500).when('sent', { is: true, then: Joi.required() }),
+    error: Joi.string().max(2000).when('sent', { is: false, then: Joi.required() }),
+  }),
+};
+
+const noticeNotFoundResponse = (): APIResponse => ({
+  success: false,
+  error: {
+    code: 'NOT_FOUND',
+    message: 'Hold notice not found',
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/notices/templates:
+ *   get:
+ *     summary: List hold notice templates
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Templates ordered by name
+ */
+router.get('/templates',
+  async (_req: AuthenticatedRequest, res) => {
+    try {
+      const response: APIResponse = {
+        success: true,
+        data: await listNoticeTemplates(),
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching hold notice templates:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch hold notice templates',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/notices/templates:
+ *   post:
+ *     summary: Create a hold notice template
+ *     description: "Subject and body may use {{custodianName}}, {{orderNumber}}, {{issuedBy}}, {{issuedAt}}, {{courtCase}}, {{jurisdiction}}, {{legalAuthority}}, {{scopeSummary}}, {{dueDate}} and {{acknowledgementUrl}}. The body must include {{acknowledgementUrl}}."
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - subject
+ *               - body
+ *             properties:
+ *               name:
+ *                 type: string
+ *               subject:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *               format:
+ *                 type: string
+ *                 enum: [text, html]
+ *                 default: text
+ *     responses:
+ *       201:
+ *         description: Template created
+ *       400:
+ *         description: Unknown placeholder or missing acknowledgement link
+ *       409:
+ *         description: A template with this name already exists
+ */
+router.post('/templates',
+  validateRequest({
+    body: holdNoticeSchemas.template,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { name, subject, body, format = 'text' } = req.body;
+
+      const unknown = findUnknownPlaceholders(`${subject}\n${body}`);
+      if (unknown.length > 0 || !/\{\{\s*acknowledgementUrl\s*\}\}/.test(body)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'INVALID_TEMPLATE',
+            message: unknown.length > 0
+              ? 'Template uses unknown placeholders'
+              : 'Template body must include {{acknowledgementUrl}}',
+            ...(unknown.length > 0 && { details: { unknownPlaceholders: unknown } }),
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      const existing = await database('hold_notice_templates').select('id').where({ name }).first();
+      if (existing) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'DUPLICATE_TEMPLATE',
+            message: 'A hold notice template with this name already exists',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const template = await createNoticeTemplate({ name, subject, body, format }, req.user.id);
+
+      const response: APIResponse = {
+        success: true,
+        data: template,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating hold notice template:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'HOLD_NOTICE_ERROR',
+          message: 'Failed to create hold notice template',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/notices/schedule/run:
+ *   post:
+ *     summary: Send due reminders and escalations
+ *     description: Queues reminders that have fallen due and escalates notices past their acknowledgement deadline. The API server already runs this every HOLD_NOTICE_SCHEDULE_INTERVAL_MINUTES (default 60); call it to catch up straight away.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of reminders and escalations queued
+ */
+router.post('/schedule/run',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await processHoldNoticeSchedule();
+
+      if (result.escalations > 0) {
+        logSecurity('hold_notices_escalated', {
+          escalations: result.escalations,
+          userId: req.user.id,
+        });
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error processing hold notice schedule:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'HOLD_NOTICE_ERROR',
+          message: 'Failed to process hold notice schedule',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/notices/deliveries/claim:
+ *   post:
+ *     summary: Claim queued notice messages for delivery
+ *     description: Used by the communication layer. Each claimed message must be reported back; unreported claims are offered again after 15 minutes.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               limit:
+ *                 type: integer
+ *                 default: 50
+ *     responses:
+ *       200:
+ *         description: Claimed messages, oldest first
+ */
+router.post('/deliveries/claim',
+  validateRequest({
+    body: holdNoticeSchemas.claim,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { limit = 50 } = req.body;
+
+      const response: APIResponse = {
+        success: true,
+        data: await claimNoticeDeliveries(limit),
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error claiming hold notice deliveries:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'HOLD_NOTICE_ERROR',
+          message: 'Failed to claim hold notice deliveries',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/notices/deliveries/{deliveryId}/result:
+ *   post:
+ *     summary: Report the outcome of a claimed delivery
+ *     description: Failed deliveries are queued again until they have been attempted five times.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sent
+ *             properties:
+ *               sent:
+ *                 type: boolean
+ *               messageId:
+ *                 type: string
+ *               error:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Delivery updated
+ *       404:
+ *         description: Delivery not found
+ *       409:
+ *         description: Delivery is not awaiting a result
+ */
+router.post('/deliveries/:deliveryId/result',
+  validateRequest({
+    params: Joi.object({ deliveryId: commonSchemas.uuid }),
+    body: holdNoticeSchemas.result,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const delivery = await database('hold_notice_deliveries')
+        .select('id', 'status')
+        .where({ id: req.params['deliveryId'] })
+        .first();
+
+      if (!delivery) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Hold notice delivery not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      if (delivery.status !== 'SENDING') {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'DELIVERY_NOT_CLAIMED',
+            message: `Delivery is ${delivery.status}`,
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const { sent, messageId, error } = req.body;
+      const updated = await recordDeliveryResult(delivery.id, sent ? { sent, messageId } : { sent, error });
+
+      if (updated.status === 'FAILED') {
+        logger.warn('Hold notice delivery failed permanently', {
+          deliveryId: updated.id,
+          noticeId: updated.noticeId,
+          error: updated.lastError,
+        });
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: updated,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error recording hold notice delivery:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'HOLD_NOTICE_ERROR',
+          message: 'Failed to record delivery result',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/notices/{noticeId}:
+ *   get:
+ *     summary: Get a hold notice with its delivery history
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: noticeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Notice and deliveries
+ *       404:
+ *         description: Notice not found
+ */
+router.get('/:noticeId',
+  validateRequest({ params: Joi.object({ noticeId: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const row = await database('hold_notices').where({ id: req.params['noticeId'] }).first();
+
+      if (!row) {
+        return res.status(404).json(noticeNotFoundResponse());
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          ...mapNoticeRow(row),
+          deliveries: await getNoticeDeliveries(row.id),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching hold notice:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch hold notice',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/notices/{noticeId}/resend:
+ *   post:
+ *     summary: Send a hold notice again
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: noticeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       201:
+ *         description: Notice queued for delivery
+ *       404:
+ *         description: Notice not found
+ *       409:
+ *         description: Notice has been acknowledged or withdrawn
+ */
+router.post('/:noticeId/resend',
+  validateRequest({ params: Joi.object({ noticeId: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const notice = await database('hold_notices')
+        .select('id', 'status')
+        .where({ id: req.params['noticeId'] })
+        .first();
+
+      if (!notice) {
+        return res.status(404).json(noticeNotFoundResponse());
+      }
+
+      if (!['PENDING', 'ESCALATED'].includes(notice.status)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOTICE_CLOSED',
+            message: `Hold notice is ${notice.status}`,
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const delivery = await resendHoldNotice(notice.id);
+
+      const response: APIResponse = {
+        success: true,
+        data: delivery,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error resending hold notice:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'HOLD_NOTICE_ERROR',
+          message: 'Failed to resend hold notice',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,293 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse } from '../types';
+import {
+  checkIntegrityItem,
+  getIntegrityChecks,
+  getIntegrityDashboard,
+  getIntegritySweep,
+  processIntegritySweep,
+  startIntegritySweep,
+} from '../services/integritySweep';
+import database from '../config/database';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/integrity by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const integritySchemas = {
+  item: Joi.object({
+    itemType: Joi.string().valid('EVIDENCE', 'DOCUMENT').required(),
+    itemId: commonSchemas.uuid,
+  }),
+  check: Joi.object({
+    itemType: Joi.string().valid('EVIDENCE', 'DOCUMENT').required(),
+    itemId: commonSchemas.uuid,
+    checkType: Joi.string().valid(
+      'TRIGGERED', 'COURT_ORDERED', 'INTEGRITY_VERIFICATION', 'INCIDENT_RESPONSE'
+    ).default('TRIGGERED'),
+  }),
+};
+
+const errorResponse = (code: string, message: string): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/integrity/dashboard:
+ *   get:
+ *     summary: Integrity monitoring summary
+ *     description: How many evidence items and documents were checked within the sweep interval, how many are overdue or currently flagged as tampered, the last sweep, tamper indicator counts over the last 30 days and the latest tamper alerts.
+ *     tags: [Integrity]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Dashboard summary
+ */
+router.get('/dashboard',
+  async (_req: AuthenticatedRequest, res) => {
+    try {
+      const dashboard = await getIntegrityDashboard();
+
+      const response: APIResponse = {
+        success: true,
+        data: dashboard,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error building integrity dashboard:', error);
+      res.status(500).json(errorResponse('INTEGRITY_ERROR', 'Failed to build integrity dashboard'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/integrity/sweeps:
+ *   post:
+ *     summary: Start an integrity sweep
+ *     description: Re-hashes every stored document and evidence file not checked within INTEGRITY_SWEEP_INTERVAL_HOURS (default 24), verifies custody ledgers and records a check per item. Tampering is raised as a security alert. The sweep runs in the background; poll it by id. The server also runs sweeps every INTEGRITY_SWEEP_INTERVAL_HOURS, so this is only needed to sweep ahead of schedule.
+ *     tags: [Integrity]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Sweep started
+ *       409:
+ *         description: A sweep is already running
+ */
+router.post('/sweeps',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const sweep = await startIntegritySweep(req.user.id);
+
+      if (!sweep) {
+        return res.status(409).json(errorResponse('SWEEP_IN_PROGRESS', 'An integrity sweep is already running'));
+      }
+
+      processIntegritySweep(sweep)
+        .then(result => {
+          if (result.tamperDetected > 0 || result.status === 'FAILED') {
+            logSecurity('integrity_sweep_completed', {
+              sweepId: result.id,
+              status: result.status,
+              tamperDetected: result.tamperDetected,
+              errors: result.errors,
+            });
+          }
+        })
+        .catch(error => logger.error('Error running integrity sweep:', error));
+
+      const response: APIResponse = {
+        success: true,
+        data: sweep,
+        timestamp: new Date(),
+      };
+
+      res.status(202).json(response);
+    } catch (error) {
+      logger.error('Error starting integrity sweep:', error);
+      res.status(500).json(errorResponse('INTEGRITY_ERROR', 'Failed to start integrity sweep'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/integrity/sweeps/{id}:
+ *   get:
+ *     summary: Integrity sweep progress and totals
+ *     tags: [Integrity]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Sweep
+ *       404:
+ *         description: Sweep not found
+ */
+router.get('/sweeps/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const sweep = await getIntegritySweep(req.params['id'] as string);
+
+      if (!sweep) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Integrity sweep not found'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: sweep,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching integrity sweep:', error);
+      res.status(500).json(errorResponse('INTEGRITY_ERROR', 'Failed to fetch integrity sweep'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/integrity/checks:
+ *   get:
+ *     summary: Integrity check history of an item
+ *     description: The latest 100 checks of an evidence item or document, newest first.
+ *     tags: [Integrity]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: itemType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [EVIDENCE, DOCUMENT]
+ *       - in: query
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Checks
+ */
+router.get('/checks',
+  validateRequest({ query: integritySchemas.item }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { itemType, itemId } = req.query as { itemType: 'EVIDENCE' | 'DOCUMENT'; itemId: string };
+      const checks = await getIntegrityChecks(itemType, itemId);
+
+      const response: APIResponse = {
+        success: true,
+        data: checks,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching integrity checks:', error);
+      res.status(500).json(errorResponse('INTEGRITY_ERROR', 'Failed to fetch integrity checks'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/integrity/checks:
+ *   post:
+ *     summary: Check one item now
+ *     description: Re-hashes the stored file of an evidence item or document outside the sweep cadence and records the result.
+ *     tags: [Integrity]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemType
+ *               - itemId
+ *             properties:
+ *               itemType:
+ *                 type: string
+ *                 enum: [EVIDENCE, DOCUMENT]
+ *               itemId:
+ *                 type: string
+ *                 format: uuid
+ *               checkType:
+ *                 type: string
+ *                 enum: [TRIGGERED, COURT_ORDERED, INTEGRITY_VERIFICATION, INCIDENT_RESPONSE]
+ *                 default: TRIGGERED
+ *     responses:
+ *       201:
+ *         description: Recorded check
+ *       404:
+ *         description: Item not found
+ *       409:
+ *         description: Document has no stored file or recorded hash
+ */
+router.post('/checks',
+  validateRequest({ body: integritySchemas.check }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { itemType, itemId, checkType } = req.body;
+
+      if (itemType === 'DOCUMENT') {
+        const document = await database('documents').where({ id: itemId }).first('id');
+
+        if (!document) {
+          return res.status(404).json(errorResponse('NOT_FOUND', 'Document not found'));
+        }
+      }
+
+      const check = await checkIntegrityItem(itemType, itemId, checkType, req.user.id);
+
+      if (!check) {
+        return itemType === 'EVIDENCE'
+          ? res.status(404).json(errorResponse('NOT_FOUND', 'Evidence item not found'))
+          : res.status(409).json(errorResponse('NOTHING_TO_CHECK', 'Document has no stored file or recorded hash'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: check,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error checking item integrity:', error);
+      res.status(500).json(errorResponse('INTEGRITY_ERROR', 'Failed to check item integrity'));
+    }
+  }
+);
+
+export default router;
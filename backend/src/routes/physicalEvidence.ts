@@ -0,0 +1,783 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse } from '../types';
+import {
+  countLocationItems,
+  createStorageLocation,
+  evidenceLabel,
+  findLabelTarget,
+  findStorageLocation,
+  getActiveSeals,
+  getLocationInventory,
+  getPhysicalEvidence,
+  getPhysicalEvidenceDetail,
+  getSeal,
+  getSealNumbersInUse,
+  getStorageLocation,
+  getStorageLocations,
+  intakePhysicalEvidence,
+  inventoryToCsv,
+  LabelFormat,
+  locationLabel,
+  renderLabels,
+  sealLabel,
+  updateStorageLocation,
+} from '../services/physicalEvidence';
+import { checkSourceAccess, recordSourceProtectionDenials } from '../services/sourceProtection';
+import database from '../config/database';
+import { requireRole, requireSourceAccess } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/physical by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const environmentSchema = Joi.object({
+  temperature: Joi.number(),
+  humidity: Joi.number().min(0).max(100),
+  lightExposure: Joi.string().valid('DARK', 'LOW', 'NORMAL', 'HIGH'),
+  specialRequirements: Joi.array().items(Joi.string().max(255)),
+});
+
+const accessLevelSchema = Joi.string().valid('OPEN', 'RESTRICTED', 'SECURE', 'VAULT', 'CLASSIFIED');
+const securityLevelSchema = Joi.string().valid('BASIC', 'STANDARD', 'HIGH', 'MAXIMUM', 'SPECIAL');
+
+const newSealSchema = Joi.object({
+  sealNumber: Joi.string().required().max(100),
+  sealType: Joi.string().required().max(100),
+  notes: Joi.string().max(1000),
+});
+
+const physicalSchemas = {
+  intake: Joi.object({
+    description: Joi.string().required().max(5000),
+    category: Joi.string().max(100),
+    dimensions: Joi.string().max(100),
+    weight: Joi.number().positive(),
+    conditionOnIntake: Joi.string().required().max(2000),
+    storageLocationId: Joi.string().uuid(),
+    sourceStakeholderId: Joi.string().uuid(),
+    significanceLevel: Joi.number().integer().min(1).max(10),
+    notes: Joi.string().max(2000),
+    seals: Joi.array().items(newSealSchema).unique('sealNumber').default([]),
+  }),
+  location: Joi.object({
+    facility: Joi.string().required().max(255),
+    room: Joi.string().required().max(100),
+    shelf: Joi.string().max(50),
+    bin: Joi.string().max(50),
+    accessLevel: accessLevelSchema.default('RESTRICTED'),
+    securityLevel: securityLevelSchema.default('STANDARD'),
+    environment: environmentSchema,
+    capacity: Joi.number().integer().min(1),
+    notes: Joi.string().max(2000),
+  }),
+  locationUpdate: Joi.object({
+    accessLevel: accessLevelSchema,
+    securityLevel: securityLevelSchema,
+    environment: environmentSchema,
+    capacity: Joi.number().integer().min(1).allow(null),
+    active: Joi.boolean(),
+    notes: Joi.string().max(2000).allow(''),
+  }).min(1),
+  locationQuery: Joi.object({
+    facility: Joi.string().max(255),
+    includeInactive: Joi.boolean().default(false),
+  }),
+  inventoryQuery: Joi.object({
+    locationId: Joi.string().uuid(),
+    facility: Joi.string().max(255),
+    format: Joi.string().valid('json', 'csv').default('json'),
+  }).oxor('locationId', 'facility'),
+  labelQuery: Joi.object({
+    format: Joi.string().valid('png', 'pdf').default('pdf'),
+  }),
+  labelCode: Joi.object({
+    code: Joi.string().pattern(/^(PE|SL|LOC)-[0-9A-Z]{10}$/).required(),
+  }),
+};
+
+const errorResponse = (code: string, message: string, details?: any): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+    ...(details && { details }),
+  },
+  timestamp: new Date(),
+});
+
+// True when the caller is restricted from the evidence item; the denial is audited
+const sourceProtected = async (req: AuthenticatedRequest, evidenceId: string): Promise<boolean> => {
+  const denials = await checkSourceAccess({ evidenceIds: [evidenceId] }, req.user, ['ACCESS']);
+  await recordSourceProtectionDenials(denials, req.user, `${req.method} ${req.baseUrl}${req.path}`, {
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+  });
+  return denials.length > 0;
+};
+
+const sourceProtectedResponse = () =>
+  errorResponse('SOURCE_PROTECTED', 'Access restricted to protect the source of this evidence');
+
+const sendLabel = (res: express.Response, label: Buffer, format: LabelFormat, filename: string) => {
+  res.setHeader('Content-Type', format === 'pdf' ? 'application/pdf' : 'image/png');
+  res.setHeader('Content-Disposition', `inline; filename="${filename}.${format}"`);
+  res.send(label);
+};
+
+/**
+ * @swagger
+ * /api/evidence/physical/locations:
+ *   get:
+ *     summary: Storage location registry
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: facility
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Storage locations ordered by facility, room, shelf and bin
+ */
+router.get('/locations',
+  validateRequest({ query: physicalSchemas.locationQuery }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const locations = await getStorageLocations({
+        ...(req.query['facility'] && { facility: req.query['facility'] as string }),
+        includeInactive: req.query['includeInactive'] === 'true',
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: locations,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching storage locations:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to fetch storage locations'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/physical/locations:
+ *   post:
+ *     summary: Register a storage location
+ *     description: A room, shelf or bin that physical evidence can be stored in. A label code is generated for the location's barcode label.
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - facility
+ *               - room
+ *             properties:
+ *               facility:
+ *                 type: string
+ *               room:
+ *                 type: string
+ *               shelf:
+ *                 type: string
+ *               bin:
+ *                 type: string
+ *               accessLevel:
+ *                 type: string
+ *                 enum: [OPEN, RESTRICTED, SECURE, VAULT, CLASSIFIED]
+ *               securityLevel:
+ *                 type: string
+ *                 enum: [BASIC, STANDARD, HIGH, MAXIMUM, SPECIAL]
+ *               environment:
+ *                 type: object
+ *               capacity:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Storage location
+ *       409:
+ *         description: The position is already registered
+ */
+router.post('/locations',
+  validateRequest({ body: physicalSchemas.location }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await findStorageLocation(req.body);
+      if (existing) {
+        return res.status(409).json(errorResponse('LOCATION_EXISTS', 'This storage position is already registered',
+          { locationId: existing.id }));
+      }
+
+      const location = await createStorageLocation(req.body, req.user.id);
+
+      logSecurity('storage_location_created', {
+        locationId: location.id,
+        labelCode: location.labelCode,
+        accessLevel: location.accessLevel,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: location,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating storage location:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to create storage location'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/physical/locations/{id}:
+ *   patch:
+ *     summary: Update a storage location
+ *     description: Change access or security level, environment or capacity, or retire the location. A location that still holds items cannot be retired.
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Updated storage location
+ *       404:
+ *         description: Storage location not found
+ *       409:
+ *         description: Location still holds items, or holds more than the new capacity
+ */
+router.patch('/locations/:id',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: physicalSchemas.locationUpdate,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const locationId = req.params['id'] as string;
+
+      const location = await getStorageLocation(locationId);
+      if (!location) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Storage location not found'));
+      }
+
+      const itemCount = await countLocationItems(locationId);
+      if (req.body.active === false && itemCount > 0) {
+        return res.status(409).json(errorResponse('LOCATION_NOT_EMPTY',
+          `Move the ${itemCount} item(s) stored here before retiring the location`));
+      }
+      if (req.body.capacity && itemCount > req.body.capacity) {
+        return res.status(409).json(errorResponse('LOCATION_OVER_CAPACITY',
+          `Location holds ${itemCount} item(s), more than the requested capacity`));
+      }
+
+      const updated = await updateStorageLocation(locationId, req.body);
+
+      if (req.body.accessLevel && req.body.accessLevel !== location.accessLevel) {
+        logSecurity('storage_location_access_changed', {
+          locationId,
+          from: location.accessLevel,
+          to: req.body.accessLevel,
+          userId: req.user.id,
+          ip: req.ip,
+        });
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: updated,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating storage location:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to update storage location'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/physical/locations/{id}/label:
+ *   get:
+ *     summary: Barcode label for a storage location
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [png, pdf]
+ *           default: pdf
+ *     responses:
+ *       200:
+ *         description: Label with Code 128 and QR barcodes
+ *       404:
+ *         description: Storage location not found
+ */
+router.get('/locations/:id/label',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    query: physicalSchemas.labelQuery,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const format = (req.query['format'] || 'pdf') as LabelFormat;
+      const location = await getStorageLocation(req.params['id'] as string);
+
+      if (!location) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Storage location not found'));
+      }
+
+      sendLabel(res, renderLabels([locationLabel(location)], format), format, location.labelCode);
+    } catch (error) {
+      logger.error('Error rendering location label:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to render label'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/physical/inventory:
+ *   get:
+ *     summary: Location inventory report
+ *     description: Physical items per storage location with their current custodian and active seals, flagging seals that are not intact. Without filters every active location is listed, plus items out of storage.
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locationId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: facility
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Inventory report
+ */
+router.get('/inventory',
+  validateRequest({ query: physicalSchemas.inventoryQuery }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const report = await getLocationInventory({
+        ...(req.query['locationId'] && { locationId: req.query['locationId'] as string }),
+        ...(req.query['facility'] && { facility: req.query['facility'] as string }),
+      }, req.user);
+
+      logSecurity('location_inventory_generated', {
+        locationId: req.query['locationId'],
+        facility: req.query['facility'],
+        totalItems: report.totalItems,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      if (req.query['format'] === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="inventory-${report.generatedAt.toISOString().slice(0, 10)}.csv"`);
+        return res.send(inventoryToCsv(report));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: report,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error generating location inventory:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to generate location inventory'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/physical/labels/{code}:
+ *   get:
+ *     summary: Look up a scanned label
+ *     description: Resolves a label code read from a barcode to the evidence item, seal or storage location it was printed for.
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: What the label belongs to
+ *       403:
+ *         description: The label belongs to a source-protected evidence item
+ *       404:
+ *         description: Unknown label code
+ */
+router.get('/labels/:code',
+  validateRequest({ params: physicalSchemas.labelCode }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const target = await findLabelTarget(req.params['code'] as string);
+
+      if (!target) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Unknown label code'));
+      }
+
+      if (target.type !== 'LOCATION' && await sourceProtected(req, target.evidenceId)) {
+        return res.status(403).json(sourceProtectedResponse());
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: target,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error resolving label code:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to resolve label code'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/physical/seals/{id}/label:
+ *   get:
+ *     summary: Barcode label for a seal
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [png, pdf]
+ *           default: pdf
+ *     responses:
+ *       200:
+ *         description: Label with Code 128 and QR barcodes
+ *       403:
+ *         description: The sealed item is source-protected
+ *       404:
+ *         description: Seal not found
+ */
+router.get('/seals/:id/label',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    query: physicalSchemas.labelQuery,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const format = (req.query['format'] || 'pdf') as LabelFormat;
+      const seal = await getSeal(req.params['id'] as string);
+      const physical = seal ? await getPhysicalEvidence(seal.evidenceId) : null;
+
+      if (!seal || !physical) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Seal not found'));
+      }
+
+      if (await sourceProtected(req, seal.evidenceId)) {
+        return res.status(403).json(sourceProtectedResponse());
+      }
+
+      sendLabel(res, renderLabels([sealLabel(seal, physical)], format), format, seal.labelCode);
+    } catch (error) {
+      logger.error('Error rendering seal label:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to render label'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/physical:
+ *   post:
+ *     summary: Take in a physical evidence item
+ *     description: Creates the evidence item with its genesis custody entry, records physical properties and condition, optionally places it at a storage location and records the seals applied at intake. Print labels afterwards from /api/evidence/physical/{evidenceId}/labels.
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - description
+ *               - conditionOnIntake
+ *             properties:
+ *               description:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *               dimensions:
+ *                 type: string
+ *               weight:
+ *                 type: number
+ *                 description: Kilograms
+ *               conditionOnIntake:
+ *                 type: string
+ *               storageLocationId:
+ *                 type: string
+ *                 format: uuid
+ *               sourceStakeholderId:
+ *                 type: string
+ *                 format: uuid
+ *               significanceLevel:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *               seals:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     sealNumber:
+ *                       type: string
+ *                     sealType:
+ *                       type: string
+ *                     notes:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Physical evidence record with seals and the genesis custody entry
+ *       400:
+ *         description: Unknown stakeholder or storage location
+ *       409:
+ *         description: Seal number already in use, or location inactive or full
+ */
+router.post('/',
+  validateRequest({ body: physicalSchemas.intake }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { storageLocationId, sourceStakeholderId, seals = [] } = req.body;
+
+      if (sourceStakeholderId) {
+        const stakeholder = await database('stakeholders').where({ id: sourceStakeholderId }).first('id');
+        if (!stakeholder) {
+          return res.status(400).json(errorResponse('STAKEHOLDER_NOT_FOUND', 'Referenced stakeholder not found'));
+        }
+      }
+
+      const location = storageLocationId ? await getStorageLocation(storageLocationId) : null;
+      if (storageLocationId) {
+        if (!location) {
+          return res.status(400).json(errorResponse('LOCATION_NOT_FOUND', 'Storage location not found'));
+        }
+        if (!location.active) {
+          return res.status(409).json(errorResponse('LOCATION_INACTIVE', 'Storage location has been retired'));
+        }
+        if (location.capacity && await countLocationItems(location.id) >= location.capacity) {
+          return res.status(409).json(errorResponse('LOCATION_FULL', 'Storage location is at capacity'));
+        }
+      }
+
+      const sealNumbersInUse = await getSealNumbersInUse(seals.map((seal: any) => seal.sealNumber));
+      if (sealNumbersInUse.length > 0) {
+        return res.status(409).json(errorResponse('SEAL_NUMBER_IN_USE', 'Seal numbers are already on record',
+          { sealNumbers: sealNumbersInUse }));
+      }
+
+      const { physical, custodyEntry } = await intakePhysicalEvidence(
+        { ...req.body, seals }, { id: req.user.id, email: req.user.email }, location
+      );
+
+      logSecurity('physical_evidence_intake', {
+        evidenceId: physical.evidenceId,
+        labelCode: physical.labelCode,
+        storageLocationId,
+        seals: seals.map((seal: any) => seal.sealNumber),
+        custodyEntryId: custodyEntry.id,
+        createdBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          ...physical,
+          custodyEntry,
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error taking in physical evidence:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to take in physical evidence'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/physical/{evidenceId}:
+ *   get:
+ *     summary: Physical record of an evidence item
+ *     description: Physical properties, current storage location and every seal with its condition at each custody hand-off.
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: evidenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Physical evidence record
+ *       403:
+ *         description: Evidence item is source-protected
+ *       404:
+ *         description: Not a physical evidence item
+ */
+router.get('/:evidenceId',
+  validateRequest({ params: Joi.object({ evidenceId: commonSchemas.uuid }) }),
+  requireSourceAccess(['ACCESS'], 'evidenceId'),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const physical = await getPhysicalEvidenceDetail(req.params['evidenceId'] as string);
+
+      if (!physical) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Physical evidence record not found'));
+      }
+
+      const location = physical.storageLocationId ? await getStorageLocation(physical.storageLocationId) : null;
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          ...physical,
+          ...(location && { storageLocation: location }),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching physical evidence:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to fetch physical evidence'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/physical/{evidenceId}/labels:
+ *   get:
+ *     summary: Barcode labels for an item and its seals
+ *     description: PDF with one page for the item followed by one per active seal, sized for 203 dpi label printers. PNG returns the item label only.
+ *     tags: [Physical Evidence]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: evidenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [png, pdf]
+ *           default: pdf
+ *     responses:
+ *       200:
+ *         description: Labels with Code 128 and QR barcodes
+ *       403:
+ *         description: Evidence item is source-protected
+ *       404:
+ *         description: Not a physical evidence item
+ */
+router.get('/:evidenceId/labels',
+  validateRequest({
+    params: Joi.object({ evidenceId: commonSchemas.uuid }),
+    query: physicalSchemas.labelQuery,
+  }),
+  requireSourceAccess(['ACCESS'], 'evidenceId'),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const format = (req.query['format'] || 'pdf') as LabelFormat;
+      const physical = await getPhysicalEvidence(req.params['evidenceId'] as string);
+
+      if (!physical) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Physical evidence record not found'));
+      }
+
+      const seals = format === 'pdf' ? await getActiveSeals(physical.evidenceId) : [];
+      const labels = [evidenceLabel(physical), ...seals.map(seal => sealLabel(seal, physical))];
+
+      sendLabel(res, renderLabels(labels, format), format, physical.labelCode);
+    } catch (error) {
+      logger.error('Error rendering evidence labels:', error);
+      res.status(500).json(errorResponse('PHYSICAL_EVIDENCE_ERROR', 'Failed to render labels'));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,1425 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse } from '../types';
+import {
+  createPreservationOrder,
+  getActiveHolds,
+  getPreservationOrder,
+  hasScopeCriteria,
+  mapHoldRow,
+  mapOrderRow,
+  mapRequirementRow,
+  matchPreservationOrder,
+  parseScope,
+  placeManualHold,
+  refreshPreservationStatuses,
+  releasePreservationOrder,
+} from '../services/legalHold';
+import { complianceReportCsv, getHoldNoticeComplianceReport, issueHoldNotices, listHoldNotices } from '../services/holdNotices';
+import holdNoticeRoutes from './holdNotices';
+import database from '../config/database';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/preservation-orders by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+router.use('/notices', holdNoticeRoutes);
+
+const REQUIREMENT_TYPES = [
+  'COLLECTION', 'PRESERVATION', 'DOCUMENTATION', 'ACCESS_CONTROL', 'NOTIFICATION', 'REPORTING', 'DESTRUCTION_SUSPENSION',
+];
+const HOLD_ITEM_TYPES = ['evidence', 'document', 'communication', 'stakeholder'];
+const HOLD_ITEM_TABLES: Record<string, string> = {
+  evidence: 'evidence_items',
+  document: 'documents',
+  communication: 'communications',
+  stakeholder: 'stakeholders',
+};
+
+const scopeSchema = Joi.object({
+  timeRange: Joi.object({
+    from: Joi.date().iso().required(),
+    to: Joi.date().iso().min(Joi.ref('from')).required(),
+  }),
+  evidenceTypes: Joi.array().items(Joi.string().max(100)).max(100),
+  categories: Joi.array().items(Joi.string().max(100)).max(100),
+  keywords: Joi.array().items(Joi.string().min(2).max(200)).max(500),
+  custodians: Joi.array().items(Joi.string().max(255)).max(500),
+  locations: Joi.array().items(Joi.string().max(255)).max(100),
+});
+
+const requirementSchema = Joi.object({
+  type: Joi.string().valid(...REQUIREMENT_TYPES).required(),
+  description: Joi.string().required().max(2000),
+  mandatory: Joi.boolean(),
+  deadline: Joi.date().iso(),
+});
+
+const preservationSchemas = {
+  create: Joi.object({
+    orderNumber: Joi.string().required().max(255),
+    issuedBy: Joi.string().required().max(255),
+    issuedAt: Joi.date().iso().required(),
+    expiresAt: Joi.date().iso().greater(Joi.ref('issuedAt')),
+    scope: scopeSchema.required(),
+    requirements: Joi.array().items(requirementSchema).max(100),
+    jurisdiction: Joi.string().required().max(255),
+    courtCase: Joi.string().max(255),
+    legalAuthority: Joi.string().required().max(5000),
+  }),
+  update: Joi.object({
+    expiresAt: Joi.date().iso().allow(null),
+    scope: scopeSchema,
+    courtCase: Joi.string().max(255).allow(null),
+    legalAuthority: Joi.string().max(5000),
+  }).min(1),
+  requirement: Joi.object({
+    status: Joi.string().valid('PENDING', 'IN_PROGRESS', 'COMPLETED', 'NOT_APPLICABLE').required(),
+    notes: Joi.string().max(2000),
+  }),
+  hold: Joi.object({
+    itemType: Joi.string().valid(...HOLD_ITEM_TYPES).required(),
+    itemId: Joi.string().uuid().required(),
+  }),
+  release: Joi.object({
+    reason: Joi.string().required().max(2000),
+  }),
+  notices: Joi.object({
+    templateId: Joi.string().uuid(),
+    stakeholderIds: Joi.array().items(Joi.string().uuid()).max(1000),
+    recipients: Joi.array().items(Joi.object({
+      name: Joi.string().required().max(255),
+      email: Joi.string().email().required().max(255),
+    })).max(1000),
+    acknowledgeWithinDays: Joi.number().integer().min(1).max(90),
+    reminderIntervalDays: Joi.number().integer().min(1).max(30),
+    maxReminders: Joi.number().integer().min(0).max(10),
+    escalationContact: Joi.string().email().max(255),
+  }),
+  complianceReport: Joi.object({
+    format: Joi.string().valid('json', 'csv'),
+  }),
+};
+
+const emptyScopeResponse = (): APIResponse => ({
+  success: false,
+  error: {
+    code: 'EMPTY_SCOPE',
+    message: 'A preservation scope needs at least one of: time range, custodians, keywords, types or locations',
+  },
+  timestamp: new Date(),
+});
+
+const notFoundResponse = (): APIResponse => ({
+  success: false,
+  error: {
+    code: 'NOT_FOUND',
+    message: 'Preservation order not found',
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders:
+ *   post:
+ *     summary: Record a preservation order and place legal holds
+ *     description: Creates the order with its requirements, then holds every evidence item, document, communication and custodian stakeholder within its scope.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderNumber
+ *               - issuedBy
+ *               - issuedAt
+ *               - scope
+ *               - jurisdiction
+ *               - legalAuthority
+ *             properties:
+ *               orderNumber:
+ *                 type: string
+ *               issuedBy:
+ *                 type: string
+ *               issuedAt:
+ *                 type: string
+ *                 format: date-time
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               scope:
+ *                 type: object
+ *                 properties:
+ *                   timeRange:
+ *                     type: object
+ *                     properties:
+ *                       from:
+ *                         type: string
+ *                         format: date-time
+ *                       to:
+ *                         type: string
+ *                         format: date-time
+ *                   evidenceTypes:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   categories:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   keywords:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   custodians:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   locations:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *               requirements:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     mandatory:
+ *                       type: boolean
+ *                     deadline:
+ *                       type: string
+ *                       format: date-time
+ *               jurisdiction:
+ *                 type: string
+ *               courtCase:
+ *                 type: string
+ *               legalAuthority:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Order recorded and matching items held
+ */
+router.post('/',
+  validateRequest({ body: preservationSchemas.create }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const {
+        orderNumber,
+        issuedBy,
+        issuedAt,
+        expiresAt,
+        requirements = [],
+        jurisdiction,
+        courtCase,
+        legalAuthority
+      } = req.body;
+      const scope = parseScope(req.body.scope);
+
+      if (!hasScopeCriteria(scope)) {
+        return res.status(400).json(emptyScopeResponse());
+      }
+
+      const existing = await database('preservation_orders')
+        .select('id')
+        .where({ order_number: orderNumber })
+        .first();
+
+      if (existing) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'DUPLICATE_ORDER',
+            message: 'A preservation order with this number already exists',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const order = await createPreservationOrder(
+        {
+          orderNumber,
+          issuedBy,
+          issuedAt: new Date(issuedAt),
+          ...(expiresAt && { expiresAt: new Date(expiresAt) }),
+          scope,
+          requirements: requirements.map((requirement: any) => ({
+            ...requirement,
+            ...(requirement.deadline && { deadline: new Date(requirement.deadline) }),
+          })),
+          jurisdiction,
+          courtCase,
+          legalAuthority,
+        },
+        req.user.id
+      );
+      const matched = await matchPreservationOrder(order.id, req.user.id);
+
+      logSecurity('preservation_order_created', {
+        orderId: order.id,
+        orderNumber,
+        heldItems: matched,
+        createdBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: { ...order, matched },
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating preservation order:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'PRESERVATION_ERROR',
+          message: 'Failed to record preservation order',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders:
+ *   get:
+ *     summary: List preservation orders
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: courtCase
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of preservation orders with held item and overdue requirement counts
+ */
+router.get('/',
+  validateRequest({
+    query: commonSchemas.pagination.keys({
+      status: Joi.string().valid('ACTIVE', 'EXPIRED', 'TERMINATED', 'SUSPENDED', 'MODIFIED'),
+      courtCase: Joi.string().max(255),
+    }),
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { status, courtCase, page = 1, limit = 20 } = req.query;
+
+      await refreshPreservationStatuses();
+
+      let query = database('preservation_orders').select('*');
+
+      if (status) {
+        query = query.where('status', status as string);
+      }
+
+      if (courtCase) {
+        query = query.where('court_case', courtCase as string);
+      }
+
+      const [{ count }] = await query.clone().clearSelect().count('id as count');
+      const total = parseInt(count as string);
+
+      const rows = await query
+        .select(
+          database.raw('(select count(*) from legal_hold_items h where h.order_id = preservation_orders.id and h.released_at is null) as held_items'),
+          database.raw(`(select count(*) from preservation_requirements r where r.order_id = preservation_orders.id and r.status = 'OVERDUE') as overdue_requirements`)
+        )
+        .orderBy('issued_at', 'desc')
+        .limit(Number(limit))
+        .offset((Number(page) - 1) * Number(limit));
+
+      const response: APIResponse = {
+        success: true,
+        data: rows.map((row: any) => ({
+          ...mapOrderRow(row),
+          heldItems: Number(row.held_items),
+          overdueRequirements: Number(row.overdue_requirements),
+        })),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching preservation orders:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch preservation orders',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/requirements/overdue:
+ *   get:
+ *     summary: List overdue preservation requirements
+ *     description: Requirements of in-force orders whose deadline has passed without being completed.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Overdue requirements, oldest deadline first
+ */
+router.get('/requirements/overdue',
+  async (_req: AuthenticatedRequest, res) => {
+    try {
+      await refreshPreservationStatuses();
+
+      const rows = await database('preservation_requirements')
+        .join('preservation_orders', 'preservation_requirements.order_id', 'preservation_orders.id')
+        .select('preservation_requirements.*', 'preservation_orders.order_number')
+        .where('preservation_requirements.status', 'OVERDUE')
+        .orderBy('preservation_requirements.deadline', 'asc');
+
+      const response: APIResponse = {
+        success: true,
+        data: rows.map((row: any) => ({
+          ...mapRequirementRow(row),
+          orderNumber: row.order_number,
+          daysOverdue: Math.floor((Date.now() - new Date(row.deadline).getTime()) / (24 * 60 * 60 * 1000)),
+        })),
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching overdue requirements:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch overdue requirements',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/holds/{itemType}/{itemId}:
+ *   get:
+ *     summary: Check whether an item is under legal hold
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: itemType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [evidence, document, communication, stakeholder]
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Orders currently holding the item
+ */
+router.get('/holds/:itemType/:itemId',
+  validateRequest({ params: preservationSchemas.hold }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const holds = await getActiveHolds(req.params['itemType'] as any, req.params['itemId'] as string);
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          itemType: req.params['itemType'],
+          itemId: req.params['itemId'],
+          onHold: holds.length > 0,
+          holds,
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error checking legal holds:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to check legal holds',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}:
+ *   get:
+ *     summary: Get a preservation order with its requirements
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Preservation order details
+ */
+router.get('/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      await refreshPreservationStatuses();
+
+      const order = await getPreservationOrder(req.params['id'] as string);
+
+      if (!order) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      const heldCounts = await database('legal_hold_items')
+        .select('item_type')
+        .count('id as count')
+        .where({ order_id: order.id })
+        .whereNull('released_at')
+        .groupBy('item_type');
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          ...order,
+          heldItems: Object.fromEntries(heldCounts.map((row: any) => [row.item_type, Number(row.count)])),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching preservation order:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch preservation order',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}:
+ *   patch:
+ *     summary: Amend a preservation order
+ *     description: Changing the scope marks the order MODIFIED and places holds on newly covered items. Items already held stay held until the order is released.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Order amended
+ */
+router.patch('/:id',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: preservationSchemas.update,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { expiresAt, courtCase, legalAuthority } = req.body;
+      const scope = req.body.scope ? parseScope(req.body.scope) : undefined;
+
+      const order = await database('preservation_orders')
+        .select('id', 'status')
+        .where({ id: req.params['id'] })
+        .first();
+
+      if (!order) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      if (['EXPIRED', 'TERMINATED'].includes(order.status)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'ORDER_RELEASED',
+            message: 'Expired or terminated preservation orders cannot be amended',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      if (scope && !hasScopeCriteria(scope)) {
+        return res.status(400).json(emptyScopeResponse());
+      }
+
+      await database('preservation_orders')
+        .where({ id: order.id })
+        .update({
+          ...(expiresAt !== undefined && { expires_at: expiresAt ? new Date(expiresAt) : null }),
+          ...(courtCase !== undefined && { court_case: courtCase }),
+          ...(legalAuthority && { legal_authority: legalAuthority }),
+          ...(scope && { scope: JSON.stringify(scope), status: 'MODIFIED' }),
+          updated_at: new Date(),
+        });
+
+      const matched = scope ? await matchPreservationOrder(order.id, req.user.id) : undefined;
+
+      logSecurity('preservation_order_amended', {
+        orderId: order.id,
+        fields: Object.keys(req.body),
+        heldItems: matched,
+        amendedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: { ...(await getPreservationOrder(order.id)), ...(matched && { matched }) },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error amending preservation order:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'PRESERVATION_ERROR',
+          message: 'Failed to amend preservation order',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}/match:
+ *   post:
+ *     summary: Re-run scope matching
+ *     description: Holds items created or changed since the order was last matched.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Number of newly held items by type
+ */
+router.post('/:id/match',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const order = await database('preservation_orders')
+        .select('id', 'status')
+        .where({ id: req.params['id'] })
+        .first();
+
+      if (!order) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      if (['EXPIRED', 'TERMINATED'].includes(order.status)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'ORDER_RELEASED',
+            message: 'Expired or terminated preservation orders do not hold items',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const matched = await matchPreservationOrder(order.id, req.user.id);
+
+      const response: APIResponse = {
+        success: true,
+        data: matched,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error matching preservation order:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'PRESERVATION_ERROR',
+          message: 'Failed to match preservation order',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}/items:
+ *   get:
+ *     summary: List items held under a preservation order
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: itemType
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Held items
+ */
+router.get('/:id/items',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    query: commonSchemas.pagination.keys({
+      itemType: Joi.string().valid(...HOLD_ITEM_TYPES),
+    }),
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { itemType, page = 1, limit = 20 } = req.query;
+
+      let query = database('legal_hold_items')
+        .select('*')
+        .where({ order_id: req.params['id'] });
+
+      if (itemType) {
+        query = query.where('item_type', itemType as string);
+      }
+
+      const [{ count }] = await query.clone().clearSelect().count('id as count');
+      const total = parseInt(count as string);
+
+      const rows = await query
+        .orderBy('placed_at', 'desc')
+        .limit(Number(limit))
+        .offset((Number(page) - 1) * Number(limit));
+
+      const response: APIResponse = {
+        success: true,
+        data: rows.map(mapHoldRow),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching held items:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch held items',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}/items:
+ *   post:
+ *     summary: Place an item on hold by hand
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemType
+ *               - itemId
+ *             properties:
+ *               itemType:
+ *                 type: string
+ *                 enum: [evidence, document, communication, stakeholder]
+ *               itemId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       201:
+ *         description: Item held
+ */
+router.post('/:id/items',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: preservationSchemas.hold,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { itemType, itemId } = req.body;
+
+      const order = await database('preservation_orders')
+        .select('id', 'status')
+        .where({ id: req.params['id'] })
+        .first();
+
+      if (!order) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      if (['EXPIRED', 'TERMINATED'].includes(order.status)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'ORDER_RELEASED',
+            message: 'Expired or terminated preservation orders do not hold items',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const item = await database(HOLD_ITEM_TABLES[itemType]!)
+        .select('id')
+        .where({ id: itemId })
+        .first();
+
+      if (!item) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'ITEM_NOT_FOUND',
+            message: `No ${itemType} with this ID exists`,
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      const hold = await placeManualHold(order.id, itemType, itemId, req.user.id);
+
+      logSecurity('legal_hold_placed', {
+        orderId: order.id,
+        itemType,
+        itemId,
+        placedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: hold,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error placing legal hold:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'PRESERVATION_ERROR',
+          message: 'Failed to place legal hold',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}/requirements/{requirementId}:
+ *   patch:
+ *     summary: Update the status of a preservation requirement
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: requirementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Requirement updated
+ */
+router.patch('/:id/requirements/:requirementId',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid, requirementId: commonSchemas.uuid }),
+    body: preservationSchemas.requirement,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { status, notes } = req.body;
+      const completed = status === 'COMPLETED';
+
+      const [row] = await database('preservation_requirements')
+        .where({ id: req.params['requirementId'], order_id: req.params['id'] })
+        .update({
+          status,
+          completed_by: completed ? req.user.id : null,
+          completed_at: completed ? new Date() : null,
+          ...(notes && { notes }),
+        })
+        .returning('*');
+
+      if (!row) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Preservation requirement not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      // A requirement reopened after its deadline goes straight back to overdue
+      await refreshPreservationStatuses();
+
+      logSecurity('preservation_requirement_updated', {
+        orderId: req.params['id'],
+        requirementId: row.id,
+        status,
+        updatedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const updated = await database('preservation_requirements').where({ id: row.id }).first();
+
+      const response: APIResponse = {
+        success: true,
+        data: mapRequirementRow(updated),
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating preservation requirement:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'PRESERVATION_ERROR',
+          message: 'Failed to update preservation requirement',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}/notices:
+ *   post:
+ *     summary: Issue hold notices to custodians
+ *     description: Renders the template for each custodian and queues it for delivery. Without stakeholderIds or recipients, every stakeholder held under the order is noticed. Custodians already noticed under the order, or without an email address, are skipped.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               templateId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Defaults to the built-in notice
+ *               stakeholderIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               recipients:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *                       format: email
+ *               acknowledgeWithinDays:
+ *                 type: integer
+ *                 default: 7
+ *               reminderIntervalDays:
+ *                 type: integer
+ *                 default: 3
+ *               maxReminders:
+ *                 type: integer
+ *                 default: 3
+ *               escalationContact:
+ *                 type: string
+ *                 format: email
+ *                 description: Told when a custodian misses the acknowledgement deadline
+ *     responses:
+ *       201:
+ *         description: Issued and skipped custodians
+ *       400:
+ *         description: Unknown template
+ *       404:
+ *         description: Preservation order not found
+ *       409:
+ *         description: Order has expired or been terminated
+ */
+router.post('/:id/notices',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: preservationSchemas.notices,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const {
+        templateId,
+        stakeholderIds,
+        recipients,
+        acknowledgeWithinDays = 7,
+        reminderIntervalDays = 3,
+        maxReminders = 3,
+        escalationContact,
+      } = req.body;
+
+      const order = await database('preservation_orders')
+        .select('id', 'order_number', 'status')
+        .where({ id: req.params['id'] })
+        .first();
+
+      if (!order) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      if (['EXPIRED', 'TERMINATED'].includes(order.status)) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'ORDER_RELEASED',
+            message: 'Expired or terminated preservation orders do not need hold notices',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      if (templateId) {
+        const template = await database('hold_notice_templates').select('id').where({ id: templateId }).first();
+        if (!template) {
+          const response: APIResponse = {
+            success: false,
+            error: {
+              code: 'TEMPLATE_NOT_FOUND',
+              message: 'Hold notice template not found',
+            },
+            timestamp: new Date(),
+          };
+          return res.status(400).json(response);
+        }
+      }
+
+      const result = await issueHoldNotices(order.id, {
+        ...(templateId && { templateId }),
+        ...(stakeholderIds && { stakeholderIds }),
+        ...(recipients && { recipients }),
+        acknowledgeWithinDays,
+        reminderIntervalDays,
+        maxReminders,
+        ...(escalationContact && { escalationContact }),
+      }, req.user.id);
+
+      logSecurity('hold_notices_issued', {
+        orderId: order.id,
+        orderNumber: order.order_number,
+        issued: result.issued.length,
+        skipped: result.skipped.length,
+        issuedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error issuing hold notices:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'HOLD_NOTICE_ERROR',
+          message: 'Failed to issue hold notices',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}/notices:
+ *   get:
+ *     summary: List hold notices issued under a preservation order
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Notices ordered by custodian name
+ *       404:
+ *         description: Preservation order not found
+ */
+router.get('/:id/notices',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const order = await database('preservation_orders')
+        .select('id')
+        .where({ id: req.params['id'] })
+        .first();
+
+      if (!order) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: await listHoldNotices(order.id),
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching hold notices:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch hold notices',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}/compliance-report:
+ *   get:
+ *     summary: Hold notice compliance report
+ *     description: Acknowledgement status of every custodian noticed under the order, with totals. Use format=csv for a spreadsheet.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Compliance report
+ *       404:
+ *         description: Preservation order not found
+ */
+router.get('/:id/compliance-report',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    query: preservationSchemas.complianceReport,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { format = 'json' } = req.query;
+
+      const order = await database('preservation_orders')
+        .select('id')
+        .where({ id: req.params['id'] })
+        .first();
+
+      if (!order) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      const report = await getHoldNoticeComplianceReport(order.id);
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="${`${report.orderNumber}-hold-notice-compliance.csv`.replace(/[^\w.\-]+/g, '_')}"`
+        );
+        return res.send(complianceReportCsv(report));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: report,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error building hold notice compliance report:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'HOLD_NOTICE_ERROR',
+          message: 'Failed to build compliance report',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/preservation-orders/{id}/release:
+ *   post:
+ *     summary: Terminate a preservation order
+ *     description: Releases every hold placed under the order. Items remain protected by any other order that covers them.
+ *     tags: [Legal Holds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Order terminated
+ */
+router.post('/:id/release',
+  requireRole(['legal_team']),
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: preservationSchemas.release,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { reason } = req.body;
+
+      const order = await database('preservation_orders')
+        .select('id', 'order_number', 'status')
+        .where({ id: req.params['id'] })
+        .first();
+
+      if (!order) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      if (order.status === 'TERMINATED') {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'ORDER_RELEASED',
+            message: 'Preservation order has already been terminated',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const released = await releasePreservationOrder(order.id, req.user.id, reason);
+
+      logSecurity('preservation_order_released', {
+        orderId: order.id,
+        orderNumber: order.order_number,
+        reason,
+        releasedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: released,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error releasing preservation order:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'PRESERVATION_ERROR',
+          message: 'Failed to release preservation order',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+export default router;
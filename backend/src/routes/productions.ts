@@ -0,0 +1,611 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse } from '../types';
+import {
+  allocateProductionRanges,
+  createProduction,
+  findByBatesNumber,
+  getProductionRegister,
+  mapProductionRow,
+} from '../services/batesRegister';
+import { checkSourceAccess, recordSourceProtectionDenials } from '../services/sourceProtection';
+import database from '../config/database';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/documents/productions by the documents router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const productionSchemas = {
+  create: Joi.object({
+    caseId: Joi.string().required().max(255),
+    name: Joi.string().required().max(255),
+    productionVolume: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(100),
+    recipient: Joi.string().max(255),
+    batesPrefix: Joi.string().pattern(/^[A-Za-z0-9_-]*$/).max(20).required(),
+    batesPadding: Joi.number().integer().min(4).max(12).default(6),
+    legend: Joi.string().max(255),
+    watermarkText: Joi.string().max(255),
+    notes: Joi.string().max(2000),
+  }),
+  allocate: Joi.object({
+    documents: Joi.array().items(Joi.object({
+      documentId: Joi.string().uuid().required(),
+      pageCount: Joi.number().integer().min(1).max(100000),
+    })).min(1).max(1000).unique('documentId').required(),
+  }),
+};
+
+/**
+ * @swagger
+ * /api/documents/productions:
+ *   post:
+ *     summary: Open a production
+ *     description: Creates a production with the Bates prefix, padding and confidentiality legend that will be endorsed onto every produced page.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - caseId
+ *               - name
+ *               - batesPrefix
+ *             properties:
+ *               caseId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               productionVolume:
+ *                 type: string
+ *               recipient:
+ *                 type: string
+ *               batesPrefix:
+ *                 type: string
+ *               batesPadding:
+ *                 type: integer
+ *               legend:
+ *                 type: string
+ *               watermarkText:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Production created
+ */
+router.post('/',
+  validateRequest({ body: productionSchemas.create }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const {
+        caseId,
+        name,
+        productionVolume,
+        recipient,
+        batesPrefix,
+        batesPadding = 6,
+        legend,
+        watermarkText,
+        notes
+      } = req.body;
+
+      const production = await createProduction(
+        { caseId, name, productionVolume, recipient, batesPrefix, batesPadding, legend, watermarkText, notes },
+        req.user.id
+      );
+
+      logSecurity('production_created', {
+        productionId: production.id,
+        caseId,
+        batesPrefix,
+        createdBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: production,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating production:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'PRODUCTION_ERROR',
+          message: 'Failed to create production',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/documents/productions:
+ *   get:
+ *     summary: List productions
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: caseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, CLOSED]
+ *     responses:
+ *       200:
+ *         description: List of productions
+ */
+router.get('/',
+  validateRequest({
+    query: commonSchemas.pagination.keys({
+      caseId: Joi.string().max(255),
+      status: Joi.string().valid('OPEN', 'CLOSED'),
+    }),
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { caseId, status, page = 1, limit = 20 } = req.query;
+
+      let query = database('productions').select('*');
+
+      if (caseId) {
+        query = query.where('case_id', caseId as string);
+      }
+
+      if (status) {
+        query = query.where('status', status as string);
+      }
+
+      const [{ count }] = await query.clone().clearSelect().count('id as count');
+      const total = parseInt(count as string);
+
+      const rows = await query
+        .orderBy('created_at', 'desc')
+        .limit(Number(limit))
+        .offset((Number(page) - 1) * Number(limit));
+
+      const response: APIResponse = {
+        success: true,
+        data: rows.map(mapProductionRow),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching productions:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch productions',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/documents/productions/bates/{batesNumber}:
+ *   get:
+ *     summary: Look up a Bates number
+ *     description: Returns the production, document and page that a stamped Bates number was assigned to.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batesNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Register entry for the Bates number
+ *       404:
+ *         description: Bates number has not been assigned
+ */
+router.get('/bates/:batesNumber',
+  validateRequest({ params: Joi.object({ batesNumber: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(50).required() }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await findByBatesNumber(req.params['batesNumber'] as string);
+
+      if (!result) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Bates number has not been assigned',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error looking up Bates number:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to look up Bates number',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/documents/productions/{id}:
+ *   get:
+ *     summary: Get a production with its Bates register
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Production and register entries in Bates order
+ */
+router.get('/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const row = await database('productions')
+        .select('*')
+        .where({ id: req.params['id'] })
+        .first();
+
+      if (!row) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Production not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      const register = await getProductionRegister(row.id);
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          ...mapProductionRow(row),
+          register,
+          documentCount: register.length,
+          pageCount: register.reduce((sum, entry) => sum + entry.pageCount, 0),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching production:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch production',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/documents/productions/{id}/documents:
+ *   post:
+ *     summary: Assign Bates ranges to documents
+ *     description: Reserves the next unused Bates numbers for the production prefix and records one range per document. Page counts default to the page count recorded on the document. Numbers are never reused, even if a document is later withdrawn.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - documents
+ *             properties:
+ *               documents:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     documentId:
+ *                       type: string
+ *                       format: uuid
+ *                     pageCount:
+ *                       type: integer
+ *     responses:
+ *       201:
+ *         description: Register entries created
+ */
+router.post('/:id/documents',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: productionSchemas.allocate,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { documents } = req.body as { documents: Array<{ documentId: string; pageCount?: number }> };
+
+      const production = await database('productions')
+        .select('id', 'status')
+        .where({ id: req.params['id'] })
+        .first();
+
+      if (!production) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Production not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      if (production.status !== 'OPEN') {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'PRODUCTION_CLOSED',
+            message: 'Bates numbers cannot be assigned in a closed production',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const documentIds = documents.map(document => document.documentId);
+      const found = await database('documents')
+        .select('id', 'page_count')
+        .whereIn('id', documentIds);
+      const recordedPages = new Map<string, number | null>(found.map((row: any) => [row.id, row.page_count]));
+      const missing = documentIds.filter(id => !recordedPages.has(id));
+
+      if (missing.length > 0) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'DOCUMENT_NOT_FOUND',
+            message: 'Some documents were not found',
+            details: { missing },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      const requests = documents.map(document => ({
+        documentId: document.documentId,
+        pageCount: document.pageCount ?? Number(recordedPages.get(document.documentId) ?? 0),
+      }));
+      const withoutPageCount = requests.filter(request => request.pageCount < 1).map(request => request.documentId);
+
+      if (withoutPageCount.length > 0) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'PAGE_COUNT_REQUIRED',
+            message: 'Page counts are required for documents without a recorded page count',
+            details: { documents: withoutPageCount },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      const denials = await checkSourceAccess({ documentIds }, req.user, ['DISCLOSURE']);
+      if (denials.length > 0) {
+        await recordSourceProtectionDenials(denials, req.user, 'PRODUCTION', {
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'SOURCE_PROTECTED',
+            message: 'Some documents carry source-protected evidence and cannot be produced',
+            details: { documents: [...new Set(denials.map(denial => denial.documentId))] },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(403).json(response);
+      }
+
+      const alreadyProduced = await database('production_documents')
+        .where({ production_id: production.id })
+        .whereIn('document_id', documentIds)
+        .pluck('document_id');
+
+      if (alreadyProduced.length > 0) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'ALREADY_PRODUCED',
+            message: 'Some documents already have Bates numbers in this production',
+            details: { documents: alreadyProduced },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const entries = await allocateProductionRanges(production.id, requests, req.user.id);
+
+      logSecurity('bates_numbers_assigned', {
+        productionId: production.id,
+        documentCount: entries.length,
+        batesBegin: entries[0]?.batesBegin,
+        batesEnd: entries[entries.length - 1]?.batesEnd,
+        assignedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: entries,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error assigning Bates numbers:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'ALLOCATION_ERROR',
+          message: 'Failed to assign Bates numbers',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/documents/productions/{id}/close:
+ *   post:
+ *     summary: Close a production
+ *     description: No further Bates numbers can be assigned once a production is closed.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Production closed
+ */
+router.post('/:id/close',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const [row] = await database('productions')
+        .where({ id: req.params['id'], status: 'OPEN' })
+        .update({ status: 'CLOSED', closed_at: new Date() })
+        .returning('*');
+
+      if (!row) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Open production not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      logSecurity('production_closed', {
+        productionId: row.id,
+        closedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: mapProductionRow(row),
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error closing production:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'PRODUCTION_ERROR',
+          message: 'Failed to close production',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+export default router;
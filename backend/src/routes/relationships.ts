@@ -0,0 +1,824 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse, EvidenceRelationshipType } from '../types';
+import {
+  createRelationship,
+  findDuplicateRelationship,
+  getCaseGraph,
+  getContradictionReport,
+  getNeighborhood,
+  getRelationship,
+  getShortestPath,
+  MAX_PATH_LENGTH,
+  MAX_TRAVERSAL_DEPTH,
+  TraversalDirection,
+  updateRelationship,
+  verifyRelationship,
+} from '../services/evidenceGraph';
+import database from '../config/database';
+import { sourceAccessibleCondition } from '../services/sourceProtection';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/relationships by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const RELATIONSHIP_TYPES = [
+  'PARENT_CHILD', 'SIBLING', 'DERIVED_FROM', 'COPY_OF', 'RELATED_TO',
+  'CONTRADICTS', 'SUPPORTS', 'TEMPORAL_SEQUENCE', 'CAUSAL', 'CONTEXTUAL',
+];
+const STRENGTHS = ['WEAK', 'MODERATE', 'STRONG', 'DEFINITIVE'];
+
+// Comma-separated relationship types in query strings, e.g. ?types=SUPPORTS,CONTRADICTS
+const typeListSchema = Joi.string().pattern(
+  new RegExp(`^(${RELATIONSHIP_TYPES.join('|')})(,(${RELATIONSHIP_TYPES.join('|')}))*$`)
+);
+
+const parseTypes = (value: unknown): EvidenceRelationshipType[] | undefined =>
+  typeof value === 'string' && value ? value.split(',') as EvidenceRelationshipType[] : undefined;
+
+const supportingEvidenceSchema = Joi.object({
+  type: Joi.string().required().max(100),
+  description: Joi.string().required().max(2000),
+  source: Joi.string().required().max(500),
+  confidence: Joi.number().integer().min(0).max(100).required(),
+});
+
+const relationshipSchemas = {
+  create: Joi.object({
+    caseId: Joi.string().required().max(255),
+    sourceEvidenceId: Joi.string().uuid().required(),
+    targetEvidenceId: Joi.string().uuid().invalid(Joi.ref('sourceEvidenceId')).required()
+      .messages({ 'any.invalid': 'An evidence item cannot be related to itself' }),
+    relationshipType: Joi.string().valid(...RELATIONSHIP_TYPES).required(),
+    strength: Joi.string().valid(...STRENGTHS),
+    confidence: Joi.number().integer().min(0).max(100).required(),
+    description: Joi.string().required().max(5000),
+    method: Joi.string().required().max(255),
+    evidence: Joi.array().items(supportingEvidenceSchema).max(50),
+    tags: Joi.array().items(Joi.string().max(100)).max(50),
+    notes: Joi.string().max(5000),
+  }),
+  update: Joi.object({
+    strength: Joi.string().valid(...STRENGTHS),
+    confidence: Joi.number().integer().min(0).max(100),
+    description: Joi.string().max(5000),
+    evidence: Joi.array().items(supportingEvidenceSchema).max(50),
+    tags: Joi.array().items(Joi.string().max(100)).max(50),
+    notes: Joi.string().max(5000).allow(null),
+  }).min(1),
+  neighbors: Joi.object({
+    depth: Joi.number().integer().min(1).max(MAX_TRAVERSAL_DEPTH),
+    direction: Joi.string().valid('out', 'in', 'both'),
+    types: typeListSchema,
+    caseId: Joi.string().max(255),
+  }),
+  path: Joi.object({
+    from: Joi.string().uuid().required(),
+    to: Joi.string().uuid().required(),
+    maxLength: Joi.number().integer().min(1).max(MAX_PATH_LENGTH),
+    types: typeListSchema,
+    caseId: Joi.string().max(255),
+  }),
+  caseGraph: Joi.object({
+    types: typeListSchema,
+  }),
+  contradictions: Joi.object({
+    caseId: Joi.string().max(255),
+  }),
+};
+
+const notFoundResponse = (): APIResponse => ({
+  success: false,
+  error: {
+    code: 'NOT_FOUND',
+    message: 'Evidence relationship not found',
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/relationships:
+ *   post:
+ *     summary: Record a relationship between two evidence items
+ *     description: SIBLING, RELATED_TO, CONTRADICTS and CONTEXTUAL read the same in both directions; the other types run from source to target.
+ *     tags: [Evidence Relationships]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - caseId
+ *               - sourceEvidenceId
+ *               - targetEvidenceId
+ *               - relationshipType
+ *               - confidence
+ *               - description
+ *               - method
+ *             properties:
+ *               caseId:
+ *                 type: string
+ *               sourceEvidenceId:
+ *                 type: string
+ *                 format: uuid
+ *               targetEvidenceId:
+ *                 type: string
+ *                 format: uuid
+ *               relationshipType:
+ *                 type: string
+ *                 enum: [PARENT_CHILD, SIBLING, DERIVED_FROM, COPY_OF, RELATED_TO, CONTRADICTS, SUPPORTS, TEMPORAL_SEQUENCE, CAUSAL, CONTEXTUAL]
+ *               strength:
+ *                 type: string
+ *                 enum: [WEAK, MODERATE, STRONG, DEFINITIVE]
+ *                 default: MODERATE
+ *               confidence:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 100
+ *               description:
+ *                 type: string
+ *               method:
+ *                 type: string
+ *                 description: How the relationship was established, e.g. "Side-by-side comparison"
+ *               evidence:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Relationship recorded
+ *       400:
+ *         description: Unknown evidence item
+ *       409:
+ *         description: The relationship already exists
+ */
+router.post('/',
+  validateRequest({
+    body: relationshipSchemas.create,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { sourceEvidenceId, targetEvidenceId, relationshipType } = req.body;
+
+      const found = await database('evidence_items')
+        .whereIn('id', [sourceEvidenceId, targetEvidenceId])
+        .pluck('id');
+
+      const missing = [sourceEvidenceId, targetEvidenceId].filter(id => !found.includes(id));
+      if (missing.length > 0) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'EVIDENCE_NOT_FOUND',
+            message: 'Both ends of a relationship must be existing evidence items',
+            details: { missing },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(400).json(response);
+      }
+
+      const duplicate = await findDuplicateRelationship(sourceEvidenceId, targetEvidenceId, relationshipType);
+      if (duplicate) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'DUPLICATE_RELATIONSHIP',
+            message: `These items are already linked by ${relationshipType}`,
+            details: { relationshipId: duplicate.id },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
+      const relationship = await createRelationship(req.body, req.user.id);
+
+      logSecurity('evidence_relationship_created', {
+        relationshipId: relationship.id,
+        caseId: relationship.caseId,
+        relationshipType,
+        sourceEvidenceId,
+        targetEvidenceId,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: relationship,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating evidence relationship:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'RELATIONSHIP_ERROR',
+          message: 'Failed to record evidence relationship',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/relationships/contradictions:
+ *   get:
+ *     summary: Contradiction report
+ *     description: Every pair of evidence items marked CONTRADICTS, with the document and source stakeholder behind each side. Strongest and most confident contradictions first.
+ *     tags: [Evidence Relationships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: caseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Contradicting pairs
+ */
+router.get('/contradictions',
+  validateRequest({
+    query: relationshipSchemas.contradictions,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const caseId = req.query['caseId'] as string | undefined;
+      const contradictions = await getContradictionReport(caseId, req.user);
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          ...(caseId && { caseId }),
+          total: contradictions.length,
+          contradictions,
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error building contradiction report:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to build contradiction report',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/relationships/path:
+ *   get:
+ *     summary: Shortest chain of relationships between two evidence items
+ *     description: Relationships are followed in either direction.
+ *     tags: [Evidence Relationships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: maxLength
+ *         schema:
+ *           type: integer
+ *           default: 8
+ *       - in: query
+ *         name: types
+ *         description: Comma-separated relationship types to follow
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: caseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Items along the path in order, and the relationships joining them
+ *       404:
+ *         description: The items are not connected
+ */
+router.get('/path',
+  validateRequest({
+    query: relationshipSchemas.path,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { from, to, maxLength, caseId } = req.query as Record<string, string | undefined>;
+      const types = parseTypes(req.query['types']);
+
+      const path = await getShortestPath(
+        from as string,
+        to as string,
+        { ...(caseId && { caseId }), ...(types && { types }), principal: req.user },
+        maxLength ? Number(maxLength) : MAX_PATH_LENGTH
+      );
+
+      if (!path) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NO_PATH',
+            message: 'The evidence items are not connected by recorded relationships',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: path,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error finding evidence path:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to find path between evidence items',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/relationships/cases/{caseId}:
+ *   get:
+ *     summary: Relationship graph for a case
+ *     tags: [Evidence Relationships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: caseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: types
+ *         description: Comma-separated relationship types to include
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Nodes and relationships
+ */
+router.get('/cases/:caseId',
+  validateRequest({
+    params: Joi.object({ caseId: Joi.string().required().max(255) }),
+    query: relationshipSchemas.caseGraph,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const graph = await getCaseGraph(req.params['caseId'] as string, parseTypes(req.query['types']), req.user);
+
+      const response: APIResponse = {
+        success: true,
+        data: graph,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching case relationship graph:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch case relationship graph',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/relationships/evidence/{evidenceId}/neighbors:
+ *   get:
+ *     summary: Evidence items related to an item
+ *     description: Walks relationships out to the given depth. Symmetric relationships are followed in both directions whatever the direction parameter.
+ *     tags: [Evidence Relationships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: evidenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: depth
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *           maximum: 3
+ *       - in: query
+ *         name: direction
+ *         schema:
+ *           type: string
+ *           enum: [out, in, both]
+ *           default: both
+ *       - in: query
+ *         name: types
+ *         description: Comma-separated relationship types to follow
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: caseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The item and its neighbours, nearest first, with the relationships between them
+ *       404:
+ *         description: Evidence item not found
+ */
+router.get('/evidence/:evidenceId/neighbors',
+  validateRequest({
+    params: Joi.object({ evidenceId: commonSchemas.uuid }),
+    query: relationshipSchemas.neighbors,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { depth = '1', direction = 'both', caseId } = req.query as Record<string, string | undefined>;
+      const types = parseTypes(req.query['types']);
+
+      // Restricted items read as missing, as they do in evidence listings
+      const accessible = sourceAccessibleCondition('evidence_items.id', req.user, ['ACCESS']);
+      const evidence = await database('evidence_items')
+        .select('id')
+        .where({ id: req.params['evidenceId'] })
+        .whereRaw(accessible.sql, accessible.bindings)
+        .first();
+
+      if (!evidence) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Evidence item not found',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(404).json(response);
+      }
+
+      const graph = await getNeighborhood(
+        evidence.id,
+        Number(depth),
+        direction as TraversalDirection,
+        { ...(caseId && { caseId }), ...(types && { types }), principal: req.user }
+      );
+
+      const response: APIResponse = {
+        success: true,
+        data: graph,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching evidence neighbours:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch related evidence',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/relationships/{id}:
+ *   get:
+ *     summary: Get an evidence relationship
+ *     tags: [Evidence Relationships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Relationship details
+ *       404:
+ *         description: Relationship not found
+ */
+router.get('/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const relationship = await getRelationship(req.params['id'] as string);
+
+      if (!relationship) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: relationship,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching evidence relationship:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch evidence relationship',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/relationships/{id}:
+ *   patch:
+ *     summary: Amend an evidence relationship
+ *     description: Any amendment clears the relationship's verification.
+ *     tags: [Evidence Relationships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Relationship amended
+ *       404:
+ *         description: Relationship not found
+ */
+router.patch('/:id',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: relationshipSchemas.update,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await getRelationship(req.params['id'] as string);
+
+      if (!existing) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      const relationship = await updateRelationship(existing.id, req.body);
+
+      logSecurity('evidence_relationship_updated', {
+        relationshipId: existing.id,
+        changes: Object.keys(req.body),
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: relationship,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating evidence relationship:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'RELATIONSHIP_ERROR',
+          message: 'Failed to update evidence relationship',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/relationships/{id}/verify:
+ *   post:
+ *     summary: Verify an evidence relationship
+ *     description: Relationships must be verified by someone other than the person who recorded them.
+ *     tags: [Evidence Relationships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Relationship verified
+ *       403:
+ *         description: Recorder cannot verify their own relationship
+ *       404:
+ *         description: Relationship not found
+ */
+router.post('/:id/verify',
+  requireRole(['legal_team']),
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await getRelationship(req.params['id'] as string);
+
+      if (!existing) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      if (existing.establishedBy === req.user.id) {
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'SELF_VERIFICATION',
+            message: 'A relationship must be verified by someone other than the person who recorded it',
+          },
+          timestamp: new Date(),
+        };
+        return res.status(403).json(response);
+      }
+
+      const relationship = await verifyRelationship(existing.id, req.user.id);
+
+      logSecurity('evidence_relationship_verified', {
+        relationshipId: existing.id,
+        verifiedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: relationship,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error verifying evidence relationship:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'RELATIONSHIP_ERROR',
+          message: 'Failed to verify evidence relationship',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/relationships/{id}:
+ *   delete:
+ *     summary: Remove an evidence relationship
+ *     tags: [Evidence Relationships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Relationship removed
+ *       404:
+ *         description: Relationship not found
+ */
+router.delete('/:id',
+  requireRole(['legal_team']),
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await getRelationship(req.params['id'] as string);
+
+      if (!existing) {
+        return res.status(404).json(notFoundResponse());
+      }
+
+      await database('evidence_relationships').where({ id: existing.id }).del();
+
+      logSecurity('evidence_relationship_deleted', {
+        relationshipId: existing.id,
+        caseId: existing.caseId,
+        relationshipType: existing.relationshipType,
+        sourceEvidenceId: existing.sourceEvidenceId,
+        targetEvidenceId: existing.targetEvidenceId,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: { message: 'Evidence relationship removed' },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error deleting evidence relationship:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'RELATIONSHIP_ERROR',
+          message: 'Failed to remove evidence relationship',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,498 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse, SavedSearch } from '../types';
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  findSavedSearchByName,
+  getSavedSearch,
+  getSavedSearches,
+  runSavedSearch,
+  SEARCH_FACET_FIELDS,
+  SEARCH_FILTER_FIELDS,
+  SEARCH_SCOPES,
+  SEARCH_SORT_FIELDS,
+  SearchAccess,
+  searchEvidence,
+} from '../services/evidenceSearch';
+import database from '../config/database';
+import { clearanceForRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/search by the evidence router, which applies requireAuth.
+// Open to every authenticated user: results are limited to the caller's classification clearance.
+const router = express.Router();
+
+const FILTER_OPERATORS = [
+  'EQUALS', 'NOT_EQUALS', 'CONTAINS', 'STARTS_WITH', 'ENDS_WITH',
+  'GREATER_THAN', 'LESS_THAN', 'BETWEEN', 'IN', 'NOT_IN',
+];
+
+const filterValueSchema = Joi.alternatives().try(Joi.string().max(500), Joi.number(), Joi.boolean());
+
+const paginationSchema = Joi.object({
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100),
+});
+
+export const searchQuerySchema = Joi.object({
+  query: Joi.string().allow('').max(500),
+  filters: Joi.array().items(Joi.object({
+    field: Joi.string().valid(...SEARCH_FILTER_FIELDS).required(),
+    operator: Joi.string().valid(...FILTER_OPERATORS).required(),
+    value: Joi.when('operator', {
+      switch: [
+        { is: 'BETWEEN', then: Joi.array().items(filterValueSchema).length(2).required() },
+        { is: Joi.valid('IN', 'NOT_IN'), then: Joi.array().items(filterValueSchema).min(1).max(100).required() },
+      ],
+      otherwise: filterValueSchema.required(),
+    }),
+    weight: Joi.number().min(0).max(10),
+  })).max(50),
+  sort: Joi.object({
+    field: Joi.string().valid(...SEARCH_SORT_FIELDS).required(),
+    direction: Joi.string().valid('ASC', 'DESC').required(),
+  }),
+  pagination: paginationSchema,
+  searchScope: Joi.array().items(Joi.string().valid(...SEARCH_SCOPES)).min(1),
+  timeRange: Joi.object({
+    from: Joi.date().iso().required(),
+    to: Joi.date().iso().min(Joi.ref('from')).required(),
+    inclusive: Joi.boolean(),
+  }),
+  caseId: Joi.string().max(255),
+  facets: Joi.array().items(Joi.string().valid(...SEARCH_FACET_FIELDS)).unique(),
+});
+
+const searchSchemas = {
+  save: Joi.object({
+    name: Joi.string().required().max(255),
+    description: Joi.string().max(2000),
+    query: searchQuerySchema.required(),
+    shared: Joi.boolean(),
+  }),
+  run: Joi.object({
+    pagination: paginationSchema,
+  }),
+};
+
+const errorResponse = (code: string, message: string): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+  },
+  timestamp: new Date(),
+});
+
+// Witnesses only see evidence they supplied, as in GET /api/evidence; source-protected items are left out
+const searchAccess = async (req: AuthenticatedRequest): Promise<SearchAccess> => {
+  const clearance = clearanceForRole(req.user.roleType);
+  const principal = { id: req.user.id, roleType: req.user.roleType };
+  if (req.user.roleType !== 'witness') {
+    return { clearance, principal };
+  }
+
+  const stakeholder = await database('stakeholders')
+    .select('id')
+    .where({ user_id: req.user.id })
+    .first();
+
+  return { clearance, principal, sourceStakeholderId: stakeholder ? stakeholder.id : null };
+};
+
+const visibleTo = (saved: SavedSearch, req: AuthenticatedRequest): boolean =>
+  saved.ownerId === req.user.id || saved.shared;
+
+/**
+ * @swagger
+ * /api/evidence/search:
+ *   post:
+ *     summary: Faceted evidence search
+ *     description: >
+ *       Full-text search over evidence titles, descriptions, notes, keywords, statutes, tags and
+ *       linked documents (plus custody records and relationship descriptions when those scopes are
+ *       requested), combined with structured filters, a creation date range and an optional case.
+ *       Only items whose classification, and whose document's classification, are within the
+ *       caller's clearance are searched; witnesses only see evidence they supplied, and items whose
+ *       source protection restricts the caller's access are left out. Facet counts for
+ *       a field ignore the filters on that field. Each hit has a relevance breakdown.
+ *     tags: [Evidence Search]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               query:
+ *                 type: string
+ *                 description: Web-search syntax ("quoted phrases", OR, -excluded)
+ *               filters:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     field:
+ *                       type: string
+ *                       enum: [title, evidenceType, status, classification, significanceLevel, authenticityVerified, sourceStakeholderId, custodian, keywords, statutes, tags, createdAt, verifiedAt, statusChangedAt]
+ *                     operator:
+ *                       type: string
+ *                       enum: [EQUALS, NOT_EQUALS, CONTAINS, STARTS_WITH, ENDS_WITH, GREATER_THAN, LESS_THAN, BETWEEN, IN, NOT_IN]
+ *                     value: {}
+ *                     weight:
+ *                       type: number
+ *                       description: Added to the relevance score of every match
+ *               sort:
+ *                 type: object
+ *                 properties:
+ *                   field:
+ *                     type: string
+ *                     description: relevance (default with a query) or a sortable field; createdAt is the default otherwise
+ *                   direction:
+ *                     type: string
+ *                     enum: [ASC, DESC]
+ *               pagination:
+ *                 type: object
+ *                 properties:
+ *                   page:
+ *                     type: integer
+ *                     default: 1
+ *                   limit:
+ *                     type: integer
+ *                     default: 20
+ *                     maximum: 100
+ *               searchScope:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [EVIDENCE, METADATA, CUSTODY_RECORDS, RELATIONSHIPS, FULL_TEXT]
+ *                 default: [FULL_TEXT]
+ *               timeRange:
+ *                 type: object
+ *                 properties:
+ *                   from:
+ *                     type: string
+ *                     format: date-time
+ *                   to:
+ *                     type: string
+ *                     format: date-time
+ *                   inclusive:
+ *                     type: boolean
+ *                     default: true
+ *               caseId:
+ *                 type: string
+ *               facets:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Facet fields to count; all facet fields when omitted
+ *     responses:
+ *       200:
+ *         description: Matching evidence, total, facets, relevance scores and pagination
+ */
+router.post('/',
+  validateRequest({ body: searchQuerySchema }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await searchEvidence(req.body, await searchAccess(req));
+
+      logSecurity('evidence_searched', {
+        userId: req.user.id,
+        query: req.body.query,
+        filterFields: (req.body.filters || []).map((filter: any) => filter.field),
+        caseId: req.body.caseId,
+        total: result.total,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error searching evidence:', error);
+      res.status(500).json(errorResponse('SEARCH_ERROR', 'Failed to search evidence'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/search/saved:
+ *   get:
+ *     summary: The caller's saved searches and those shared with everyone
+ *     tags: [Evidence Search]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Saved searches
+ */
+router.get('/saved',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const response: APIResponse = {
+        success: true,
+        data: await getSavedSearches(req.user.id),
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching saved searches:', error);
+      res.status(500).json(errorResponse('SEARCH_ERROR', 'Failed to fetch saved searches'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/search/saved:
+ *   post:
+ *     summary: Save a search
+ *     description: Shared searches are listed for every user, and each user who runs one only sees results within their own clearance.
+ *     tags: [Evidence Search]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - query
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               query:
+ *                 type: object
+ *                 description: Same body as POST /api/evidence/search
+ *               shared:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Saved search
+ *       409:
+ *         description: The caller already has a saved search with this name
+ */
+router.post('/saved',
+  validateRequest({ body: searchSchemas.save }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { name, description, query, shared = false } = req.body;
+
+      if (await findSavedSearchByName(req.user.id, name)) {
+        return res.status(409).json(errorResponse('SAVED_SEARCH_EXISTS', 'You already have a saved search with this name'));
+      }
+
+      const saved = await createSavedSearch({ name, description, query, shared }, req.user.id);
+
+      logSecurity('evidence_search_saved', {
+        savedSearchId: saved.id,
+        userId: req.user.id,
+        shared,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: saved,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error saving search:', error);
+      res.status(500).json(errorResponse('SEARCH_ERROR', 'Failed to save search'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/search/saved/{id}:
+ *   get:
+ *     summary: Get a saved search
+ *     tags: [Evidence Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Saved search
+ *       404:
+ *         description: Not found, or another user's search that is not shared
+ */
+router.get('/saved/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const saved = await getSavedSearch(req.params['id'] as string);
+
+      if (!saved || !visibleTo(saved, req)) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Saved search not found'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: saved,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching saved search:', error);
+      res.status(500).json(errorResponse('SEARCH_ERROR', 'Failed to fetch saved search'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/search/saved/{id}/run:
+ *   post:
+ *     summary: Run a saved search
+ *     description: Runs with the caller's clearance, not the owner's.
+ *     tags: [Evidence Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               pagination:
+ *                 type: object
+ *                 properties:
+ *                   page:
+ *                     type: integer
+ *                   limit:
+ *                     type: integer
+ *     responses:
+ *       200:
+ *         description: Search results
+ *       404:
+ *         description: Not found, or another user's search that is not shared
+ */
+router.post('/saved/:id/run',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }), body: searchSchemas.run }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const saved = await getSavedSearch(req.params['id'] as string);
+
+      if (!saved || !visibleTo(saved, req)) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Saved search not found'));
+      }
+
+      const result = await runSavedSearch(saved, await searchAccess(req), req.body?.pagination);
+
+      logSecurity('evidence_searched', {
+        userId: req.user.id,
+        savedSearchId: saved.id,
+        query: saved.query.query,
+        filterFields: saved.query.filters.map(filter => filter.field),
+        caseId: saved.query.caseId,
+        total: result.total,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error running saved search:', error);
+      res.status(500).json(errorResponse('SEARCH_ERROR', 'Failed to run saved search'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/search/saved/{id}:
+ *   delete:
+ *     summary: Delete a saved search
+ *     tags: [Evidence Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Deleted
+ *       403:
+ *         description: Shared search owned by another user
+ *       404:
+ *         description: Not found, or another user's search that is not shared
+ */
+router.delete('/saved/:id',
+  validateRequest({ params: Joi.object({ id: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const saved = await getSavedSearch(req.params['id'] as string);
+
+      if (!saved || !visibleTo(saved, req)) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Saved search not found'));
+      }
+
+      if (saved.ownerId !== req.user.id) {
+        return res.status(403).json(errorResponse('FORBIDDEN', 'Only the owner can delete a saved search'));
+      }
+
+      await deleteSavedSearch(saved.id);
+
+      logSecurity('evidence_search_deleted', {
+        savedSearchId: saved.id,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: { message: 'Saved search deleted' },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error deleting saved search:', error);
+      res.status(500).json(errorResponse('SEARCH_ERROR', 'Failed to delete saved search'));
+    }
+  }
+);
+
+export default router;
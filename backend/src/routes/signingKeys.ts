@@ -0,0 +1,293 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse } from '../types';
+import {
+  enrollSigningKey,
+  getActiveSigningKey,
+  getCertificateAuthority,
+  getRevokedCertificates,
+  getSigningKey,
+  revokeSigningKey,
+} from '../services/signingKeys';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/signing-keys by the evidence router, which applies requireAuth.
+// Open to every authenticated user: any custodian or witness may need to sign.
+const router = express.Router();
+
+const signingKeySchemas = {
+  enroll: Joi.object({
+    passphrase: Joi.string().min(12).max(1024).required(),
+  }),
+  revoke: Joi.object({
+    reason: Joi.string().valid(
+      'UNSPECIFIED', 'KEY_COMPROMISE', 'AFFILIATION_CHANGED', 'SUPERSEDED', 'CESSATION_OF_OPERATION'
+    ).required(),
+  }),
+};
+
+const errorResponse = (code: string, message: string): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/signing-keys/ca:
+ *   get:
+ *     summary: Certificate of the internal signing CA
+ *     description: Trust anchor for every custodian and witness certificate. Hand it to anyone verifying custody signatures outside the system.
+ *     tags: [Signing Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CA certificate (PEM)
+ */
+router.get('/ca',
+  async (_req: AuthenticatedRequest, res) => {
+    try {
+      const authority = await getCertificateAuthority();
+
+      const response: APIResponse = {
+        success: true,
+        data: authority,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching signing CA certificate:', error);
+      res.status(500).json(errorResponse('SIGNING_KEY_ERROR', 'Failed to fetch CA certificate'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/signing-keys/revocations:
+ *   get:
+ *     summary: Revoked signing certificates
+ *     description: Serial numbers of every revoked certificate with the RFC 5280 reason and revocation time.
+ *     tags: [Signing Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Revocation list
+ */
+router.get('/revocations',
+  async (_req: AuthenticatedRequest, res) => {
+    try {
+      const revocations = await getRevokedCertificates();
+
+      const response: APIResponse = {
+        success: true,
+        data: revocations,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching certificate revocations:', error);
+      res.status(500).json(errorResponse('SIGNING_KEY_ERROR', 'Failed to fetch revocation list'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/signing-keys/me:
+ *   get:
+ *     summary: The caller's active signing key and certificate
+ *     tags: [Signing Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Signing key
+ *       404:
+ *         description: Not enrolled
+ */
+router.get('/me',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const key = await getActiveSigningKey(req.user.id);
+
+      if (!key) {
+        return res.status(404).json(errorResponse('NOT_ENROLLED', 'No active signing key; enroll first'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: key,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching signing key:', error);
+      res.status(500).json(errorResponse('SIGNING_KEY_ERROR', 'Failed to fetch signing key'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/signing-keys:
+ *   post:
+ *     summary: Enroll for custody signing
+ *     description: Generates a key pair for the caller, stores the private key encrypted under the given signing passphrase and issues a certificate from the internal CA. The passphrase is needed for every signature and cannot be recovered; if it is lost, revoke the key and enroll again.
+ *     tags: [Signing Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - passphrase
+ *             properties:
+ *               passphrase:
+ *                 type: string
+ *                 minLength: 12
+ *     responses:
+ *       201:
+ *         description: Signing key and certificate
+ *       409:
+ *         description: The caller already has an active key
+ */
+router.post('/',
+  validateRequest({ body: signingKeySchemas.enroll }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await getActiveSigningKey(req.user.id);
+      if (existing) {
+        return res.status(409).json(errorResponse('ALREADY_ENROLLED',
+          'An active signing key already exists; revoke it before enrolling again'));
+      }
+
+      const key = await enrollSigningKey({ id: req.user.id, email: req.user.email }, req.body.passphrase);
+
+      logSecurity('signing_key_enrolled', {
+        userId: req.user.id,
+        keyId: key.id,
+        keyFingerprint: key.keyFingerprint,
+        certificateSerial: key.certificateSerial,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: key,
+        timestamp: new Date(),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error enrolling signing key:', error);
+      res.status(500).json(errorResponse('SIGNING_KEY_ERROR', 'Failed to enroll signing key'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/signing-keys/{id}/revoke:
+ *   post:
+ *     summary: Revoke a signing key and its certificate
+ *     description: Holders can revoke their own key; the legal team can revoke anyone's. Signatures made before revocation stay valid unless the reason is KEY_COMPROMISE.
+ *     tags: [Signing Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [UNSPECIFIED, KEY_COMPROMISE, AFFILIATION_CHANGED, SUPERSEDED, CESSATION_OF_OPERATION]
+ *     responses:
+ *       200:
+ *         description: Revoked key
+ *       403:
+ *         description: Not the key holder or the legal team
+ *       404:
+ *         description: Signing key not found
+ *       409:
+ *         description: Already revoked
+ */
+router.post('/:id/revoke',
+  validateRequest({
+    params: Joi.object({ id: commonSchemas.uuid }),
+    body: signingKeySchemas.revoke,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const keyId = req.params['id'] as string;
+      const { reason } = req.body;
+
+      const key = await getSigningKey(keyId);
+      if (!key) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Signing key not found'));
+      }
+
+      if (key.userId !== req.user.id && req.user.roleType !== 'legal_team') {
+        logSecurity('signing_key_revocation_denied', {
+          keyId,
+          keyHolder: key.userId,
+          userId: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(403).json(errorResponse('FORBIDDEN', 'Only the key holder or the legal team can revoke this key'));
+      }
+
+      if (key.status === 'REVOKED') {
+        return res.status(409).json(errorResponse('ALREADY_REVOKED', 'Signing key is already revoked'));
+      }
+
+      const revoked = await revokeSigningKey(keyId, reason, req.user.id);
+
+      logSecurity('signing_key_revoked', {
+        keyId,
+        keyHolder: key.userId,
+        certificateSerial: key.certificateSerial,
+        reason,
+        revokedBy: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: revoked,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error revoking signing key:', error);
+      res.status(500).json(errorResponse('SIGNING_KEY_ERROR', 'Failed to revoke signing key'));
+    }
+  }
+);
+
+export default router;
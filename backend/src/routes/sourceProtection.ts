@@ -0,0 +1,329 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse } from '../types';
+import {
+  getSourceProtection,
+  getSourceProtectionDenials,
+  getSourceProtections,
+  saveSourceProtection,
+} from '../services/sourceProtection';
+import database from '../config/database';
+import { requireRole } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/source-protections by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const PROTECTION_TYPES = [
+  'IDENTITY_PROTECTION', 'LOCATION_PROTECTION', 'METHOD_PROTECTION', 'TIMING_PROTECTION', 'RELATIONSHIP_PROTECTION',
+];
+const RESTRICTION_TYPES = ['ACCESS', 'DISCLOSURE', 'PUBLICATION', 'SHARING', 'COPYING', 'ANALYSIS'];
+
+const sourceProtectionSchemas = {
+  params: Joi.object({
+    evidenceId: Joi.string().uuid().required(),
+  }),
+  save: Joi.object({
+    protectionRequired: Joi.boolean().required(),
+    protectionType: Joi.array().items(Joi.string().valid(...PROTECTION_TYPES)).unique().required(),
+    restrictions: Joi.array().items(Joi.object({
+      type: Joi.string().valid(...RESTRICTION_TYPES).required(),
+      description: Joi.string().required().max(2000),
+      scope: Joi.array().items(Joi.string().max(100)).max(100),
+      exceptions: Joi.array().items(Joi.string().max(100)).max(100),
+      authority: Joi.string().required().max(255),
+      expiresAt: Joi.date().iso(),
+    })).max(50).required(),
+    authorizedPersonnel: Joi.array().items(Joi.string().uuid()).min(1).max(50).unique().required(),
+    reviewDate: Joi.date().iso().required(),
+    notes: Joi.string().max(5000),
+  }),
+  query: Joi.object({
+    reviewDue: Joi.boolean(),
+  }),
+};
+
+const errorResponse = (code: string, message: string, details?: any): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+    ...(details && { details }),
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/source-protections:
+ *   get:
+ *     summary: Source protections
+ *     description: Soonest review first.
+ *     tags: [Source Protection]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: reviewDue
+ *         description: Only protections whose review date has passed
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Source protections
+ */
+router.get('/',
+  validateRequest({ query: sourceProtectionSchemas.query }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const protections = await getSourceProtections({
+        reviewDue: req.query['reviewDue'] === 'true',
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: protections,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error listing source protections:', error);
+      res.status(500).json(errorResponse('SOURCE_PROTECTION_ERROR', 'Failed to list source protections'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/source-protections/{evidenceId}:
+ *   get:
+ *     summary: Source protection of an evidence item
+ *     tags: [Source Protection]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: evidenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Source protection
+ *       404:
+ *         description: The item is not source-protected
+ */
+router.get('/:evidenceId',
+  validateRequest({ params: sourceProtectionSchemas.params }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const protection = await getSourceProtection(req.params['evidenceId'] as string);
+
+      if (!protection) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Evidence item is not source-protected'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: protection,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching source protection:', error);
+      res.status(500).json(errorResponse('SOURCE_PROTECTION_ERROR', 'Failed to fetch source protection'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/source-protections/{evidenceId}:
+ *   put:
+ *     summary: Protect the source of an evidence item
+ *     description: >
+ *       Replaces the item's protection. Restrictions are enforced on reads, downloads, exports,
+ *       productions, shares and anonymization; a restriction applies to the users and roles in its
+ *       scope (everyone when empty or "*") except its exceptions. Authorized personnel are never
+ *       restricted, and once a protection exists only they may change it.
+ *     tags: [Source Protection]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: evidenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [protectionRequired, protectionType, restrictions, authorizedPersonnel, reviewDate]
+ *             properties:
+ *               protectionRequired:
+ *                 type: boolean
+ *               protectionType:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [IDENTITY_PROTECTION, LOCATION_PROTECTION, METHOD_PROTECTION, TIMING_PROTECTION, RELATIONSHIP_PROTECTION]
+ *               restrictions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [type, description, authority]
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum: [ACCESS, DISCLOSURE, PUBLICATION, SHARING, COPYING, ANALYSIS]
+ *                     description:
+ *                       type: string
+ *                     scope:
+ *                       type: array
+ *                       description: User IDs or roles
+ *                       items:
+ *                         type: string
+ *                     exceptions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     authority:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *               authorizedPersonnel:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               reviewDate:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Protection saved
+ *       400:
+ *         description: Unknown user among the authorized personnel
+ *       403:
+ *         description: Not authorized personnel of the existing protection
+ *       404:
+ *         description: Evidence not found
+ */
+router.put('/:evidenceId',
+  validateRequest({
+    params: sourceProtectionSchemas.params,
+    body: sourceProtectionSchemas.save,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const evidenceId = req.params['evidenceId'] as string;
+      const { authorizedPersonnel } = req.body;
+
+      const evidence = await database('evidence_items').select('id').where({ id: evidenceId }).first();
+      if (!evidence) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Evidence not found'));
+      }
+
+      const existing = await getSourceProtection(evidenceId);
+      if (existing && !existing.authorizedPersonnel.includes(req.user.id)) {
+        logSecurity('source_protection_change_denied', {
+          evidenceId,
+          userId: req.user.id,
+          ip: req.ip,
+        });
+        return res.status(403).json(errorResponse('NOT_AUTHORIZED_PERSONNEL', 'Only authorized personnel may change this protection'));
+      }
+
+      const users = await database('users').select('id').whereIn('id', authorizedPersonnel);
+      const known = new Set(users.map((user: any) => user.id));
+      const unknown = (authorizedPersonnel as string[]).filter(id => !known.has(id));
+      if (unknown.length > 0) {
+        return res.status(400).json(errorResponse('USER_NOT_FOUND', 'Authorized personnel must be existing users', { unknown }));
+      }
+
+      const protection = await saveSourceProtection(evidenceId, {
+        protectionRequired: req.body.protectionRequired,
+        protectionType: req.body.protectionType,
+        restrictions: req.body.restrictions,
+        authorizedPersonnel,
+        reviewDate: new Date(req.body.reviewDate),
+        ...(req.body.notes && { notes: req.body.notes }),
+      }, req.user.id);
+
+      logSecurity(existing ? 'source_protection_updated' : 'source_protection_created', {
+        evidenceId,
+        protectionRequired: protection.protectionRequired,
+        restrictions: protection.restrictions.map(restriction => restriction.type),
+        authorizedPersonnel: protection.authorizedPersonnel,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: protection,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error saving source protection:', error);
+      res.status(500).json(errorResponse('SOURCE_PROTECTION_ERROR', 'Failed to save source protection'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/source-protections/{evidenceId}/denials:
+ *   get:
+ *     summary: Attempts denied by an item's source protection
+ *     description: Audit entries with the operation, restriction type and authority; newest first.
+ *     tags: [Source Protection]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: evidenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Denied attempts
+ */
+router.get('/:evidenceId/denials',
+  validateRequest({ params: sourceProtectionSchemas.params }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const denials = await getSourceProtectionDenials(req.params['evidenceId'] as string);
+
+      const response: APIResponse = {
+        success: true,
+        data: denials,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error listing source protection denials:', error);
+      res.status(500).json(errorResponse('SOURCE_PROTECTION_ERROR', 'Failed to list denied attempts'));
+    }
+  }
+);
+
+export default router;
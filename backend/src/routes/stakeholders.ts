@@ -5,6 +5,7 @@ import { requireAuth, requireRole, requireSecurityLevel } from '../middleware/au
 import { validateRequest, stakeholderSchemas, commonSchemas } from '../middleware/validation';
 import { encryptData, decryptData } from '../utils/encryption';
 import logger, { logSecurity } from '../utils/logger';
+import { getActiveHolds } from '../services/legalHold';
 
 const router = express.Router();
 
@@ -572,6 +573,29 @@ router.delete('/:id',
         return res.status(404).json(response);
       }
 
+      // Custodians named in a preservation order must be kept
+      const holds = await getActiveHolds('stakeholder', req.params['id'] as string);
+      if (holds.length > 0) {
+        logSecurity('legal_hold_delete_blocked', {
+          itemType: 'stakeholder',
+          itemId: req.params['id'],
+          holds: holds.map(hold => hold.orderNumber),
+          attemptedBy: req.user.id,
+          ip: req.ip,
+        });
+
+        const response: APIResponse = {
+          success: false,
+          error: {
+            code: 'LEGAL_HOLD',
+            message: 'Stakeholder is under legal hold and cannot be deleted',
+            details: { holds },
+          },
+          timestamp: new Date(),
+        };
+        return res.status(409).json(response);
+      }
+
       // Delete stakeholder
       await database('stakeholders')
         .where({ id: req.params.id })
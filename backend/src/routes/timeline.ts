@@ -0,0 +1,236 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse, TimelineFilter } from '../types';
+import { buildCaseTimeline, DEFAULT_TOLERANCE_MINUTES, TIMELINE_FILTER_FIELDS } from '../services/timeline';
+import { checkSourceAccess, recordSourceProtectionDenials } from '../services/sourceProtection';
+import { requireRole } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/timeline by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const FILTER_OPERATORS = [
+  'EQUALS', 'NOT_EQUALS', 'CONTAINS', 'STARTS_WITH', 'ENDS_WITH',
+  'GREATER_THAN', 'LESS_THAN', 'BETWEEN', 'IN', 'NOT_IN',
+];
+const AGGREGATION_LEVELS = ['NONE', 'HOUR', 'DAY', 'WEEK', 'MONTH'];
+
+const filterValueSchema = Joi.alternatives().try(Joi.string().max(500), Joi.number(), Joi.boolean());
+
+const timelineSchemas = {
+  build: Joi.object({
+    caseId: Joi.string().required().max(255),
+    title: Joi.string().max(255),
+    description: Joi.string().max(5000),
+    evidenceIds: Joi.array().items(Joi.string().uuid()).max(1000),
+    stakeholderIds: Joi.array().items(Joi.string().uuid()).max(200),
+    from: Joi.date().iso(),
+    to: Joi.date().iso().min(Joi.ref('from')),
+    filters: Joi.array().items(Joi.object({
+      field: Joi.string().valid(...TIMELINE_FILTER_FIELDS).required(),
+      operator: Joi.string().valid(...FILTER_OPERATORS).required(),
+      value: Joi.when('operator', {
+        switch: [
+          { is: 'BETWEEN', then: Joi.array().items(filterValueSchema).length(2).required() },
+          { is: Joi.valid('IN', 'NOT_IN'), then: Joi.array().items(filterValueSchema).min(1).max(100).required() },
+        ],
+        otherwise: filterValueSchema.required(),
+      }),
+      active: Joi.boolean(),
+    })).max(50),
+    aggregationLevel: Joi.string().valid(...AGGREGATION_LEVELS),
+    periods: Joi.array().items(Joi.object({
+      id: Joi.string().max(100),
+      title: Joi.string().required().max(255),
+      startDate: Joi.date().iso().required(),
+      endDate: Joi.date().iso().min(Joi.ref('startDate')).required(),
+      description: Joi.string().allow('').max(2000),
+      color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/),
+    })).max(50),
+    toleranceMinutes: Joi.number().integer().min(0).max(7 * 24 * 60),
+  }),
+};
+
+/**
+ * @swagger
+ * /api/evidence/timeline:
+ *   post:
+ *     summary: Reconstruct a case chronology
+ *     description: >
+ *       Assembles events from custody transfers, communication dates, document dates and
+ *       load-file date fields for the evidence in a case (items linked by relationships or held
+ *       under a preservation order for the case, plus any listed). Where two sources place the
+ *       same occurrence more than toleranceMinutes apart, or an ordering that must hold does not
+ *       (a document dated after it was collected, an attachment dated after the message that
+ *       carried it), a conflict is reported and the less certain version is downgraded.
+ *     tags: [Evidence Timeline]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - caseId
+ *             properties:
+ *               caseId:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               evidenceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               stakeholderIds:
+ *                 type: array
+ *                 description: Include communications these stakeholders took part in
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               from:
+ *                 type: string
+ *                 format: date-time
+ *               to:
+ *                 type: string
+ *                 format: date-time
+ *               filters:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     field:
+ *                       type: string
+ *                       enum: [eventType, certainty, timestamp, duration, title, description, location, evidenceId, sources, participants, recordTypes, tags]
+ *                     operator:
+ *                       type: string
+ *                       enum: [EQUALS, NOT_EQUALS, CONTAINS, STARTS_WITH, ENDS_WITH, GREATER_THAN, LESS_THAN, BETWEEN, IN, NOT_IN]
+ *                     value:
+ *                       description: An array of two for BETWEEN, an array for IN and NOT_IN
+ *                     active:
+ *                       type: boolean
+ *                       default: true
+ *               aggregationLevel:
+ *                 type: string
+ *                 enum: [NONE, HOUR, DAY, WEEK, MONTH]
+ *                 default: DAY
+ *               periods:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               toleranceMinutes:
+ *                 type: integer
+ *                 default: 60
+ *     responses:
+ *       200:
+ *         description: The reconstructed timeline
+ *       403:
+ *         description: Some of the listed evidence items are source-protected against access
+ */
+router.post('/',
+  validateRequest({
+    body: timelineSchemas.build,
+  }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const {
+        caseId,
+        title,
+        description,
+        evidenceIds,
+        stakeholderIds,
+        from,
+        to,
+        filters = [],
+        aggregationLevel = 'DAY',
+        periods = [],
+        toleranceMinutes = DEFAULT_TOLERANCE_MINUTES,
+      } = req.body;
+
+      // Case evidence the caller is restricted from is left out; listed items are checked here
+      if (evidenceIds) {
+        const denials = await checkSourceAccess({ evidenceIds }, req.user, ['ACCESS']);
+        if (denials.length > 0) {
+          await recordSourceProtectionDenials(denials, req.user, 'EVIDENCE_TIMELINE', {
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+          });
+
+          const response: APIResponse = {
+            success: false,
+            error: {
+              code: 'SOURCE_PROTECTED',
+              message: 'Some evidence items are source-protected against access',
+              details: { evidenceIds: [...new Set(denials.map(denial => denial.evidenceId))] },
+            },
+            timestamp: new Date(),
+          };
+          return res.status(403).json(response);
+        }
+      }
+
+      const timeline = await buildCaseTimeline({
+        caseId,
+        ...(title && { title }),
+        ...(description && { description }),
+        ...(evidenceIds && { evidenceIds }),
+        ...(stakeholderIds && { stakeholderIds }),
+        ...(from && { from: new Date(from) }),
+        ...(to && { to: new Date(to) }),
+        filters: filters.map((filter: any): TimelineFilter => ({
+          field: filter.field,
+          operator: filter.operator,
+          value: filter.value,
+          active: filter.active !== false,
+        })),
+        aggregationLevel,
+        periods: periods.map((period: any) => ({
+          ...period,
+          startDate: new Date(period.startDate),
+          endDate: new Date(period.endDate),
+          description: period.description || '',
+          color: period.color || '#607d8b',
+        })),
+        toleranceMinutes,
+      }, req.user);
+
+      logSecurity('evidence_timeline_generated', {
+        caseId,
+        eventCount: timeline.events.length,
+        conflictCount: timeline.conflicts.length,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: timeline,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error building evidence timeline:', error);
+
+      const response: APIResponse = {
+        success: false,
+        error: {
+          code: 'TIMELINE_ERROR',
+          message: 'Failed to build evidence timeline',
+        },
+        timestamp: new Date(),
+      };
+
+      res.status(500).json(response);
+    }
+  }
+);
+
+export default router;
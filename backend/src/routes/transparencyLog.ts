@@ -0,0 +1,413 @@
+import express from 'express';
+import { AuthenticatedRequest, APIResponse } from '../types';
+import {
+  findLeaf,
+  getConsistencyProof,
+  getEvidenceTransparencyBundle,
+  getInclusionProof,
+  getLatestTreeHead,
+  getLogLeaves,
+  getLogPublicKey,
+  getTreeHead,
+  publishTreeHead,
+} from '../services/transparencyLog';
+import database from '../config/database';
+import { requireRole } from '../middleware/auth';
+import { validateRequest, commonSchemas } from '../middleware/validation';
+import logger, { logSecurity } from '../utils/logger';
+import Joi from 'joi';
+
+// Mounted under /api/evidence/transparency-log by the evidence router, which applies requireAuth
+const router = express.Router();
+
+router.use(requireRole(['legal_team', 'government_entity']));
+
+const transparencySchemas = {
+  treeSize: Joi.object({
+    treeSize: Joi.number().integer().min(1).required(),
+  }),
+  entries: Joi.object({
+    start: Joi.number().integer().min(0).required(),
+    end: Joi.number().integer().min(Joi.ref('start')).required(),
+  }),
+  inclusion: Joi.object({
+    leafIndex: Joi.number().integer().min(0),
+    leafHash: Joi.string().hex().length(64),
+    treeSize: Joi.number().integer().min(1),
+  }).xor('leafIndex', 'leafHash'),
+  consistency: Joi.object({
+    first: Joi.number().integer().min(1).required(),
+    second: Joi.number().integer().min(Joi.ref('first')).required(),
+  }),
+};
+
+const errorResponse = (code: string, message: string, details?: any): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+    ...(details && { details }),
+  },
+  timestamp: new Date(),
+});
+
+/**
+ * @swagger
+ * /api/evidence/transparency-log/tree-head:
+ *   get:
+ *     summary: Latest signed tree head
+ *     description: RFC 6962 signed tree head over every evidence fingerprint and custody event logged so far, with the log's public key.
+ *     tags: [Transparency Log]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Signed tree head
+ *       404:
+ *         description: No tree head has been published yet
+ */
+router.get('/tree-head',
+  async (_req: AuthenticatedRequest, res) => {
+    try {
+      const treeHead = await getLatestTreeHead();
+
+      if (!treeHead) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'No tree head has been published yet'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: {
+          ...treeHead,
+          logPublicKey: getLogPublicKey(),
+        },
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching tree head:', error);
+      res.status(500).json(errorResponse('TRANSPARENCY_LOG_ERROR', 'Failed to fetch tree head'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/transparency-log/tree-heads:
+ *   post:
+ *     summary: Sign a new tree head
+ *     description: Logs any fingerprints and custody events not yet in the log, checks the stored leaves still match the previous tree head, and signs a head covering every leaf. Call on a schedule, e.g. hourly from cron.
+ *     tags: [Transparency Log]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The latest tree head, and whether a new one was signed
+ */
+router.post('/tree-heads',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await publishTreeHead();
+
+      if (result.published) {
+        logSecurity('transparency_tree_head_published', {
+          treeSize: result.treeHead?.treeSize,
+          rootHash: result.treeHead?.rootHash,
+          leavesLogged: result.leavesLogged,
+          userId: req.user.id,
+        });
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      // A failed consistency check against the previous head means the log was altered
+      logSecurity('transparency_tree_head_failed', {
+        error: (error as Error).message,
+        userId: req.user.id,
+      });
+      logger.error('Error publishing tree head:', error);
+      res.status(500).json(errorResponse('TRANSPARENCY_LOG_ERROR', 'Failed to publish tree head'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/transparency-log/tree-heads/{treeSize}:
+ *   get:
+ *     summary: Signed tree head for a given tree size
+ *     tags: [Transparency Log]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: treeSize
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Signed tree head
+ *       404:
+ *         description: No tree head was signed at that size
+ */
+router.get('/tree-heads/:treeSize',
+  validateRequest({ params: transparencySchemas.treeSize }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const treeHead = await getTreeHead(Number(req.params['treeSize']));
+
+      if (!treeHead) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'No tree head was signed at that size'));
+      }
+
+      const response: APIResponse = {
+        success: true,
+        data: treeHead,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching tree head:', error);
+      res.status(500).json(errorResponse('TRANSPARENCY_LOG_ERROR', 'Failed to fetch tree head'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/transparency-log/entries:
+ *   get:
+ *     summary: Logged leaves in index order
+ *     description: Returns the exact leaf data that was hashed, so anyone can recompute leaf hashes and the tree. At most 1000 leaves per request.
+ *     tags: [Transparency Log]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: end
+ *         required: true
+ *         description: Exclusive
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Log leaves
+ */
+router.get('/entries',
+  validateRequest({ query: transparencySchemas.entries }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const leaves = await getLogLeaves(Number(req.query['start']), Number(req.query['end']));
+
+      const response: APIResponse = {
+        success: true,
+        data: leaves,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error fetching transparency log entries:', error);
+      res.status(500).json(errorResponse('TRANSPARENCY_LOG_ERROR', 'Failed to fetch log entries'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/transparency-log/proofs/inclusion:
+ *   get:
+ *     summary: Inclusion proof for a leaf
+ *     description: Audit path from a leaf (by index or leaf hash) to the root of a signed tree head, the latest by default.
+ *     tags: [Transparency Log]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: leafIndex
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: leafHash
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: treeSize
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Inclusion proof
+ *       404:
+ *         description: Unknown leaf or tree head
+ *       409:
+ *         description: The leaf was logged after the requested tree head
+ */
+router.get('/proofs/inclusion',
+  validateRequest({ query: transparencySchemas.inclusion }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { leafIndex, leafHash, treeSize } = req.query;
+
+      const leaf = await findLeaf(leafIndex !== undefined ?
+        { leafIndex: Number(leafIndex) } :
+        { leafHash: String(leafHash).toLowerCase() });
+      if (!leaf) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Leaf not found in the transparency log'));
+      }
+
+      const treeHead = treeSize ? await getTreeHead(Number(treeSize)) : await getLatestTreeHead();
+      if (!treeHead) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Tree head not found'));
+      }
+
+      if (leaf.leafIndex >= treeHead.treeSize) {
+        return res.status(409).json(errorResponse('LEAF_NOT_YET_COVERED',
+          'The leaf was logged after this tree head was signed', { leafIndex: leaf.leafIndex, treeSize: treeHead.treeSize }));
+      }
+
+      const proof = await getInclusionProof(leaf, treeHead);
+
+      const response: APIResponse = {
+        success: true,
+        data: proof,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error building inclusion proof:', error);
+      res.status(500).json(errorResponse('TRANSPARENCY_LOG_ERROR', 'Failed to build inclusion proof'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/transparency-log/proofs/consistency:
+ *   get:
+ *     summary: Consistency proof between two signed tree heads
+ *     description: Proves the log at the first size is a prefix of the log at the second size, i.e. nothing logged was changed or removed.
+ *     tags: [Transparency Log]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: first
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: second
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Consistency proof with both signed tree heads
+ *       404:
+ *         description: No tree head was signed at one of the sizes
+ */
+router.get('/proofs/consistency',
+  validateRequest({ query: transparencySchemas.consistency }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const [firstTreeHead, secondTreeHead] = await Promise.all([
+        getTreeHead(Number(req.query['first'])),
+        getTreeHead(Number(req.query['second'])),
+      ]);
+
+      if (!firstTreeHead || !secondTreeHead) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Both sizes must have a signed tree head'));
+      }
+
+      const proof = await getConsistencyProof(firstTreeHead, secondTreeHead);
+
+      const response: APIResponse = {
+        success: true,
+        data: proof,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error building consistency proof:', error);
+      res.status(500).json(errorResponse('TRANSPARENCY_LOG_ERROR', 'Failed to build consistency proof'));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/evidence/transparency-log/evidence/{evidenceId}:
+ *   get:
+ *     summary: Offline verification bundle for an evidence item
+ *     description: Every logged fingerprint and custody event of the item with its audit path, the latest signed tree head and the log public key. Can be handed to an outside expert and checked with src/evidence-chain/crypto/merkle-log.ts.
+ *     tags: [Transparency Log]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: evidenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Verification bundle
+ *       404:
+ *         description: Unknown evidence item, or no tree head published yet
+ */
+router.get('/evidence/:evidenceId',
+  validateRequest({ params: Joi.object({ evidenceId: commonSchemas.uuid }) }),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const evidenceId = req.params['evidenceId'] as string;
+
+      const evidence = await database('evidence_items').select('id').where({ id: evidenceId }).first();
+      if (!evidence) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'Evidence item not found'));
+      }
+
+      const bundle = await getEvidenceTransparencyBundle(evidenceId);
+      if (!bundle) {
+        return res.status(404).json(errorResponse('NOT_FOUND', 'No tree head has been published yet'));
+      }
+
+      logSecurity('transparency_bundle_exported', {
+        evidenceId,
+        treeSize: bundle.treeHead.treeSize,
+        userId: req.user.id,
+        ip: req.ip,
+      });
+
+      const response: APIResponse = {
+        success: true,
+        data: bundle,
+        timestamp: new Date(),
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error building transparency bundle:', error);
+      res.status(500).json(errorResponse('TRANSPARENCY_LOG_ERROR', 'Failed to build verification bundle'));
+    }
+  }
+);
+
+export default router;
@@ -10,6 +10,12 @@ import { Server as SocketIOServer } from 'socket.io';
 import * as dotenv from 'dotenv';
 dotenv.config();
 
+import holdNoticeAcknowledgementRoutes from './routes/holdNoticeAcknowledgements';
+import { canAccessCase, findUserForToken } from './middleware/auth';
+import { logSecurity } from './utils/logger';
+import { processHoldNoticeSchedule } from './services/holdNotices';
+import { getSweepIntervalHours, runIntegritySweep } from './services/integritySweep';
+
 const app = express();
 const httpServer = createServer(app);
 const io = new SocketIOServer(httpServer, {
@@ -319,9 +325,62 @@ app.post('/api/stakeholders', (req, res) => {
   });
 });
 
+// Legal hold acknowledgement links - public, the link token is the credential
+app.use('/api/hold-notices/acknowledge', holdNoticeAcknowledgementRoutes);
+
 // Socket.IO real-time connections
+app.set('socketio', io);
+
 io.on('connection', (socket) => {
   console.log('🔌 User connected:', socket.id);
+
+  // Progress of an evidence batch operation is emitted to its room. Batches are
+  // limited to the case team, so the socket must carry a token (handshake auth.token)
+  // for a user who could follow the batch over the batches API.
+  socket.on('evidence-batch:subscribe', async (batchId: string, ack?: (result: { success: boolean }) => void) => {
+    const user = await findUserForToken(socket.handshake.auth?.['token']);
+
+    if (!user || typeof batchId !== 'string' || !canAccessCase(user)) {
+      logSecurity('evidence_batch_subscribe_denied', {
+        batchId,
+        userId: user?.id,
+        ip: socket.handshake.address,
+      });
+      ack?.({ success: false });
+      return;
+    }
+
+    socket.join(`evidence-batch:${batchId}`);
+    ack?.({ success: true });
+  });
+
+  socket.on('evidence-batch:unsubscribe', (batchId: string) => {
+    socket.leave(`evidence-batch:${batchId}`);
+  });
+
+  // Monitoring alerts for a case are emitted to its room. Alerts quote
+  // communications, so the socket must carry a token (handshake auth.token)
+  // for a user with access to the case.
+  socket.on('case-monitoring:subscribe', async (caseId: string, ack?: (result: { success: boolean }) => void) => {
+    const user = await findUserForToken(socket.handshake.auth?.['token']);
+
+    if (!user || typeof caseId !== 'string' || !canAccessCase(user)) {
+      logSecurity('case_monitoring_subscribe_denied', {
+        caseId,
+        userId: user?.id,
+        ip: socket.handshake.address,
+      });
+      ack?.({ success: false });
+      return;
+    }
+
+    socket.join(`case-monitoring:${caseId}`);
+    ack?.({ success: true });
+  });
+
+  socket.on('case-monitoring:unsubscribe', (caseId: string) => {
+    socket.leave(`case-monitoring:${caseId}`);
+  });
   
   socket.on('disconnect', () => {
     console.log('❌ User disconnected:', socket.id);
@@ -348,9 +407,42 @@ app.use('*', (req, res) => {
 
 const PORT = process.env['PORT'] || 3001;
 
+// Queue due hold notice reminders and escalate overdue notices
+const HOLD_NOTICE_SCHEDULE_INTERVAL_MS = Number(process.env['HOLD_NOTICE_SCHEDULE_INTERVAL_MINUTES'] || 60) * 60 * 1000;
+
+const runHoldNoticeSchedule = async () => {
+  try {
+    const { reminders, escalations } = await processHoldNoticeSchedule();
+    if (reminders > 0 || escalations > 0) {
+      console.log(`📨 Hold notices: ${reminders} reminders queued, ${escalations} escalated`);
+    }
+  } catch (error) {
+    console.error('Hold notice schedule failed:', error);
+  }
+};
+
+// Re-check stored files and custody ledgers not checked within the sweep interval
+const INTEGRITY_SWEEP_INTERVAL_MS = getSweepIntervalHours() * 60 * 60 * 1000;
+
+const runScheduledIntegritySweep = async () => {
+  try {
+    const sweep = await runIntegritySweep();
+    if (sweep?.status === 'FAILED') {
+      console.error('Integrity sweep failed:', sweep.failureReason);
+    } else if (sweep && (sweep.tamperDetected > 0 || sweep.errors > 0)) {
+      console.log(`🔍 Integrity sweep: ${sweep.tamperDetected} items tampered, ${sweep.errors} errors`);
+    }
+  } catch (error) {
+    console.error('Integrity sweep failed:', error);
+  }
+};
+
 httpServer.listen(PORT, () => {
   console.log(`🚀 ESOPFable Case Management API Server running on port ${PORT}`);
   console.log(`📊 Health check available at http://localhost:${PORT}/health`);
   console.log(`📚 API Documentation at http://localhost:${PORT}/api-docs`);
   console.log(`⚡ Real-time features enabled with Socket.IO`);
+
+  setInterval(runHoldNoticeSchedule, HOLD_NOTICE_SCHEDULE_INTERVAL_MS);
+  setInterval(runScheduledIntegritySweep, INTEGRITY_SWEEP_INTERVAL_MS);
 });
\ No newline at end of file
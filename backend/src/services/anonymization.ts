@@ -0,0 +1,938 @@
+import crypto from 'crypto';
+import { Knex } from 'knex';
+import { promisify } from 'util';
+import database from '../config/database';
+import {
+  AnonymizationFieldRule,
+  AnonymizationMethod,
+  AnonymizationRun,
+  AnonymizationRunStatus,
+  AnonymizationSourceType,
+  AnonymizationStrength,
+  AnonymizationTechnique,
+  AnonymizationTerm,
+  AnonymizedRecord,
+  EquivalenceClass,
+  PseudonymKey,
+  Reidentification,
+  ReidentificationRisk,
+  ReidentificationRiskLevel,
+} from '../types';
+import { decryptPrivateKey, DEFAULT_KDF_PARAMS, encryptPrivateKey } from './signingKeys';
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+export const PSEUDONYM_KEY_ALGORITHM = 'RSA-OAEP-3072';
+export const MAX_RUN_RECORDS = 1000;
+const RSA_MODULUS_LENGTH = 3072;
+const VALUE_IV_LENGTH = 12;
+const VALUE_TAG_LENGTH = 16;
+const DEFAULT_MIN_K = 5;
+const DEFAULT_CATEGORY = 'SUBJECT';
+const PSEUDONYM_DIGEST_CHARS = 10;
+const REDACTED = '[REDACTED]';
+const PERFECT_MASK = '********'; // Fixed width so the length of the value is not revealed
+const MIN_PHONE_DIGITS = 9;
+const SMALLEST_CLASSES_REPORTED = 10;
+
+// ENCRYPTION and SYNTHETIC stay descriptive; the engine applies the rest
+export const SUPPORTED_TECHNIQUES: AnonymizationTechnique[] = [
+  'PSEUDONYMIZATION', 'GENERALIZATION', 'SUPPRESSION', 'RANDOMIZATION', 'MASKING',
+];
+
+// Identifiers found in free text have no numeric or date form to randomize
+export const TERM_TECHNIQUES: AnonymizationTechnique[] = ['PSEUDONYMIZATION', 'GENERALIZATION', 'SUPPRESSION', 'MASKING'];
+
+// Fields each source exposes to rules and quasi-identifiers
+export const ANONYMIZATION_FIELDS: Record<AnonymizationSourceType, string[]> = {
+  EVIDENCE: [
+    'title', 'description', 'notes', 'evidenceType', 'keywords', 'tags', 'significanceLevel',
+    'createdAt', 'sourceName', 'sourceOrganization', 'sourceCategory',
+  ],
+  COMMUNICATION: [
+    'communicationType', 'subject', 'summary', 'outcome', 'location', 'occurredAt', 'durationMinutes', 'participantNames',
+  ],
+  DOCUMENT_TEXT: ['title', 'description', 'text'],
+};
+
+type GradedStrength = Exclude<AnonymizationStrength, 'PERFECT'>;
+
+// Trailing letters and digits left visible by masking
+const MASK_VISIBLE: Record<GradedStrength, number> = { WEAK: 4, MEDIUM: 2, STRONG: 0 };
+// Width of the ranges numbers are generalized to
+const NUMBER_RANGE_WIDTH: Record<GradedStrength, number> = { WEAK: 5, MEDIUM: 10, STRONG: 25 };
+// Randomization: numbers move by up to this percentage, dates by up to this many days
+const NOISE_PERCENT: Record<GradedStrength, number> = { WEAK: 5, MEDIUM: 10, STRONG: 25 };
+const DATE_SHIFT_DAYS: Record<GradedStrength, number> = { WEAK: 3, MEDIUM: 14, STRONG: 60 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+// Contact details and ID numbers masked in free text even when not listed as terms
+const IDENTIFIER_PATTERNS = [
+  '[\\p{L}\\p{N}._%+-]+@[\\p{L}\\p{N}-]+(?:\\.[\\p{L}\\p{N}-]+)+', // Email address
+  '(?<![\\p{L}\\p{N}])\\d{3}-\\d{2}-\\d{4}(?![\\p{L}\\p{N}])', // National ID number
+  '(?<![\\p{L}\\p{N}])\\+?\\d[\\d\\s().-]{7,}\\d(?![\\p{L}\\p{N}])', // Phone number (checked for length on match)
+];
+
+export interface SourceRecord {
+  sourceId: string;
+  fields: Record<string, any>;
+}
+
+export interface AnonymizationOptions {
+  rules: AnonymizationFieldRule[];
+  terms: AnonymizationTerm[];
+  detectPatterns: boolean;
+  pseudonyms: Map<string, string>; // Normalized value -> pseudonym
+  keyId?: string;
+}
+
+export interface AnonymizationRunInput {
+  sourceType: AnonymizationSourceType;
+  rules: AnonymizationFieldRule[];
+  terms: AnonymizationTerm[];
+  detectPatterns: boolean;
+  quasiIdentifiers: string[];
+  k?: number;
+}
+
+interface AnonymizationRunFilters {
+  sourceType?: AnonymizationSourceType;
+  status?: AnonymizationRunStatus;
+}
+
+interface EncryptedMappingValue {
+  wrappedKey: string;
+  encryptedValue: string;
+}
+
+const parseJson = (value: any, fallback: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? fallback);
+
+const isBlank = (value: any): boolean => value === null || value === undefined || value === '';
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Smallest equivalence class a release may contain (ANONYMIZATION_MIN_K)
+ */
+export const getMinK = (): number => {
+  const value = Number(process.env['ANONYMIZATION_MIN_K']);
+  return Number.isInteger(value) && value >= 2 ? value : DEFAULT_MIN_K;
+};
+
+const getLookupSecret = (): string => {
+  const secret = process.env['PSEUDONYM_LOOKUP_SECRET'];
+  if (!secret) {
+    throw new Error('PSEUDONYM_LOOKUP_SECRET environment variable is required');
+  }
+  return secret;
+};
+
+/**
+ * Case, spacing and Unicode form do not make a different person
+ */
+export const normalizeValue = (value: any): string =>
+  String(value).normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Keyed digest of a normalized value. Lets a key reuse a pseudonym without
+ * storing anything a dictionary attack on the database could reverse.
+ */
+export const pseudonymDigest = (keyId: string, normalizedValue: string, secret: string = getLookupSecret()): string =>
+  crypto.createHmac('sha256', secret).update(`${keyId}:${normalizedValue}`).digest('hex');
+
+export const pseudonymFor = (category: string, digest: string): string =>
+  `${category}-${digest.slice(0, PSEUDONYM_DIGEST_CHARS).toUpperCase()}`;
+
+export const needsPseudonymKey = (rules: AnonymizationFieldRule[], terms: AnonymizationTerm[]): boolean =>
+  [...rules, ...terms].some(entry => entry.technique === 'PSEUDONYMIZATION');
+
+// Techniques
+
+/**
+ * Mask letters and digits, keeping separators so the shape of the value survives
+ */
+export const maskValue = (value: any, strength: AnonymizationStrength): string => {
+  if (strength === 'PERFECT') {
+    return PERFECT_MASK;
+  }
+
+  const chars = Array.from(String(value));
+  const isMaskable = (char: string) => /[\p{L}\p{N}]/u.test(char);
+  const total = chars.filter(isMaskable).length;
+  // Never reveal more than half of a short value
+  const visible = Math.min(MASK_VISIBLE[strength], Math.floor(total / 2));
+
+  let seen = 0;
+  return chars
+    .map((char) => {
+      if (!isMaskable(char)) {
+        return char;
+      }
+      seen += 1;
+      return seen > total - visible ? char : '*';
+    })
+    .join('');
+};
+
+const asDate = (value: any): Date | null => {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+/**
+ * Coarsen a value: dates to day, month or year; numbers to ranges;
+ * comma-separated places ("street, city, region") to their broader parts
+ */
+export const generalizeValue = (value: any, strength: AnonymizationStrength, category?: string): any => {
+  if (strength === 'PERFECT') {
+    return null;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    const width = NUMBER_RANGE_WIDTH[strength];
+    const low = Math.floor(value / width) * width;
+    return `${low}-${low + width - 1}`;
+  }
+
+  const date = asDate(value);
+  if (date) {
+    const iso = date.toISOString();
+    return { WEAK: iso.slice(0, 10), MEDIUM: iso.slice(0, 7), STRONG: iso.slice(0, 4) }[strength];
+  }
+
+  const parts = String(value).split(',').map(part => part.trim()).filter(Boolean);
+  const keep = { WEAK: parts.length - 1, MEDIUM: Math.min(2, parts.length - 1), STRONG: Math.min(1, parts.length - 1) }[strength];
+  return keep > 0 ? parts.slice(-keep).join(', ') : `[${category || 'GENERALIZED'}]`;
+};
+
+/**
+ * Add noise to numbers and shift dates. Values with neither form are suppressed.
+ */
+export const randomizeValue = (
+  value: any,
+  strength: AnonymizationStrength,
+  randomInt: (min: number, max: number) => number = crypto.randomInt
+): any => {
+  if (strength === 'PERFECT') {
+    return null;
+  }
+  if (typeof value === 'number') {
+    const percent = NOISE_PERCENT[strength];
+    const noisy = value * (1 + randomInt(-percent, percent + 1) / 100);
+    return Number.isInteger(value) ? Math.round(noisy) : noisy;
+  }
+
+  const date = asDate(value);
+  if (date) {
+    const days = DATE_SHIFT_DAYS[strength];
+    return new Date(date.getTime() + randomInt(-days, days + 1) * DAY_MS).toISOString();
+  }
+
+  return null;
+};
+
+const pseudonymizeValue = (value: any, pseudonyms: Map<string, string>): string => {
+  const pseudonym = pseudonyms.get(normalizeValue(value));
+  if (!pseudonym) {
+    throw new Error('No pseudonym resolved for value');
+  }
+  return pseudonym;
+};
+
+const applyTechnique = (
+  value: any,
+  technique: AnonymizationTechnique,
+  strength: AnonymizationStrength,
+  category: string | undefined,
+  pseudonyms: Map<string, string>
+): any => {
+  switch (technique) {
+    case 'PSEUDONYMIZATION':
+      return pseudonymizeValue(value, pseudonyms);
+    case 'GENERALIZATION':
+      return generalizeValue(value, strength, category);
+    case 'SUPPRESSION':
+      return null;
+    case 'RANDOMIZATION':
+      return randomizeValue(value, strength);
+    case 'MASKING':
+      return maskValue(value, strength);
+    default:
+      throw new Error(`Anonymization technique ${technique} is not supported`);
+  }
+};
+
+type MethodRecorder = (technique: AnonymizationTechnique, strength: AnonymizationStrength) => void;
+type TextScrubber = (text: string, record: MethodRecorder) => string;
+
+const termPattern = (value: string): string =>
+  `(?<![\\p{L}\\p{N}])${value.trim().split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\p{L}\\p{N}])`;
+
+/**
+ * One pass over the text for every term and identifier pattern, longest terms
+ * first, so replacements are never matched again
+ */
+const buildTextScrubber = (
+  terms: AnonymizationTerm[],
+  detectPatterns: boolean,
+  pseudonyms: Map<string, string>
+): TextScrubber | null => {
+  const termsByValue = new Map(terms.map(term => [normalizeValue(term.value), term]));
+  const sources = [...termsByValue.values()]
+    .sort((a, b) => b.value.length - a.value.length)
+    .map(term => termPattern(term.value));
+  if (detectPatterns) {
+    sources.push(...IDENTIFIER_PATTERNS);
+  }
+  if (sources.length === 0) {
+    return null;
+  }
+
+  const matcher = new RegExp(sources.join('|'), 'giu');
+
+  return (text, record) => text.replace(matcher, (match) => {
+    const term = termsByValue.get(normalizeValue(match));
+    if (term) {
+      record(term.technique, term.strength);
+      if (term.technique === 'SUPPRESSION') {
+        return REDACTED;
+      }
+      if (term.technique === 'GENERALIZATION') {
+        return `[${term.category || DEFAULT_CATEGORY}]`;
+      }
+      return applyTechnique(match, term.technique, term.strength, term.category, pseudonyms);
+    }
+
+    // Runs of digits too short for a phone number are dates, amounts or references
+    if (!match.includes('@') && match.replace(/\D/g, '').length < MIN_PHONE_DIGITS) {
+      return match;
+    }
+    record('MASKING', 'STRONG');
+    return maskValue(match, 'STRONG');
+  });
+};
+
+const scrubValue = (value: any, scrub: TextScrubber, record: MethodRecorder): any => {
+  if (typeof value === 'string') {
+    return scrub(value, record);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => scrubValue(item, scrub, record));
+  }
+  return value;
+};
+
+/**
+ * Apply field rules, then scrub terms and identifier patterns from every other text field
+ */
+export const anonymizeRecords = (records: SourceRecord[], options: AnonymizationOptions): AnonymizedRecord[] => {
+  const scrub = buildTextScrubber(options.terms, options.detectPatterns, options.pseudonyms);
+  const ruled = new Set(options.rules.map(rule => rule.field));
+
+  return records.map((source) => {
+    const applied = new Map<string, AnonymizationMethod>();
+    const record: MethodRecorder = (technique, strength) => {
+      applied.set(`${technique}:${strength}`, {
+        technique,
+        applied: true,
+        strength,
+        reversible: technique === 'PSEUDONYMIZATION',
+        ...(technique === 'PSEUDONYMIZATION' && options.keyId && { keyId: options.keyId }),
+      });
+    };
+
+    const fields: Record<string, any> = { ...source.fields };
+
+    for (const rule of options.rules) {
+      const value = fields[rule.field];
+      if (isBlank(value) || (Array.isArray(value) && value.length === 0)) {
+        continue;
+      }
+      const transform = (item: any) =>
+        applyTechnique(item, rule.technique, rule.strength, rule.category, options.pseudonyms);
+      fields[rule.field] = Array.isArray(value)
+        ? value.filter(item => !isBlank(item)).map(transform).filter(item => item !== null)
+        : transform(value);
+      record(rule.technique, rule.strength);
+    }
+
+    if (scrub) {
+      for (const field of Object.keys(fields)) {
+        if (!ruled.has(field)) {
+          fields[field] = scrubValue(fields[field], scrub, record);
+        }
+      }
+    }
+
+    return { sourceId: source.sourceId, fields, methods: [...applied.values()] };
+  });
+};
+
+/**
+ * Values that need a pseudonym, keyed by normalized value; the first category seen wins
+ */
+export const collectPseudonymValues = (
+  records: SourceRecord[],
+  rules: AnonymizationFieldRule[],
+  terms: AnonymizationTerm[]
+): Map<string, { value: string; category: string }> => {
+  const values = new Map<string, { value: string; category: string }>();
+  const add = (value: any, category: string | undefined) => {
+    if (isBlank(value)) {
+      return;
+    }
+    const normalized = normalizeValue(value);
+    if (!values.has(normalized)) {
+      values.set(normalized, { value: String(value).trim(), category: category || DEFAULT_CATEGORY });
+    }
+  };
+
+  for (const rule of rules.filter(rule => rule.technique === 'PSEUDONYMIZATION')) {
+    for (const source of records) {
+      const value = source.fields[rule.field];
+      (Array.isArray(value) ? value : [value]).forEach(item => add(item, rule.category));
+    }
+  }
+  for (const term of terms.filter(term => term.technique === 'PSEUDONYMIZATION')) {
+    add(term.value, term.category);
+  }
+
+  return values;
+};
+
+const collectStrings = (value: any): string[] => {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectStrings);
+  }
+  return [];
+};
+
+/**
+ * Number of supplied terms that can still be found in the anonymized output
+ */
+export const countResidualIdentifiers = (records: AnonymizedRecord[], terms: AnonymizationTerm[]): number => {
+  const texts = records.flatMap(record => Object.values(record.fields).flatMap(collectStrings));
+  return terms.filter((term) => {
+    const pattern = new RegExp(termPattern(term.value), 'iu');
+    return texts.some(text => pattern.test(text));
+  }).length;
+};
+
+const quasiIdentifierValue = (value: any): any => {
+  if (isBlank(value)) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(String).sort();
+  }
+  return value;
+};
+
+const riskLevel = (k: number, threshold: number, hasQuasiIdentifiers: boolean, residualIdentifiers: number): ReidentificationRiskLevel => {
+  if (residualIdentifiers > 0 || (hasQuasiIdentifiers && k <= 1)) {
+    return 'EXTREME';
+  }
+  if (hasQuasiIdentifiers && k < threshold) {
+    return 'HIGH';
+  }
+  return !hasQuasiIdentifiers || k >= threshold * 2 ? 'LOW' : 'MEDIUM';
+};
+
+/**
+ * k-anonymity over the quasi-identifiers: every record must share its combination
+ * of values with at least k - 1 others. Suppressed values match each other.
+ * Without quasi-identifiers only residual identifiers are checked.
+ */
+export const assessReidentificationRisk = (
+  records: Record<string, any>[],
+  quasiIdentifiers: string[],
+  threshold: number,
+  residualIdentifiers: number = 0,
+  assessedAt: Date = new Date()
+): ReidentificationRisk => {
+  const classes = new Map<string, EquivalenceClass>();
+  for (const fields of records) {
+    const values = Object.fromEntries(quasiIdentifiers.map(field => [field, quasiIdentifierValue(fields[field])]));
+    const key = JSON.stringify(quasiIdentifiers.map(field => values[field]));
+    const equivalenceClass = classes.get(key);
+    if (equivalenceClass) {
+      equivalenceClass.size += 1;
+    } else {
+      classes.set(key, { values, size: 1 });
+    }
+  }
+
+  const sorted = [...classes.values()].sort((a, b) => a.size - b.size);
+  const hasQuasiIdentifiers = quasiIdentifiers.length > 0;
+  const k = sorted.length > 0 ? sorted[0]!.size : 0;
+
+  return {
+    quasiIdentifiers,
+    recordCount: records.length,
+    k,
+    threshold,
+    equivalenceClassCount: classes.size,
+    recordsAtRisk: hasQuasiIdentifiers
+      ? sorted.filter(entry => entry.size < threshold).reduce((sum, entry) => sum + entry.size, 0)
+      : 0,
+    maxProbability: k > 0 ? 1 / k : 1,
+    averageProbability: records.length > 0 ? classes.size / records.length : 1,
+    residualIdentifiers,
+    level: riskLevel(k, threshold, hasQuasiIdentifiers, residualIdentifiers),
+    passes: k > 0 && (!hasQuasiIdentifiers || k >= threshold) && residualIdentifiers === 0,
+    smallestClasses: hasQuasiIdentifiers ? sorted.slice(0, SMALLEST_CLASSES_REPORTED) : [],
+    assessedAt,
+  };
+};
+
+// Pseudonym keys and mappings
+
+/**
+ * Encrypt a mapped value to the key: a fresh AES-256-GCM data key per value,
+ * wrapped with RSA-OAEP. The pseudonym is bound as additional data.
+ */
+export const encryptMappingValue = (publicKeyPem: string, value: string, pseudonym: string): EncryptedMappingValue => {
+  const dataKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(VALUE_IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+  cipher.setAAD(Buffer.from(pseudonym, 'utf8'));
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  const wrappedKey = crypto.publicEncrypt(
+    { key: publicKeyPem, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    dataKey
+  );
+
+  return {
+    wrappedKey: wrappedKey.toString('base64'),
+    encryptedValue: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64'),
+  };
+};
+
+export const decryptMappingValue = (
+  privateKey: crypto.KeyObject,
+  mapping: EncryptedMappingValue,
+  pseudonym: string
+): string => {
+  const dataKey = crypto.privateDecrypt(
+    { key: privateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    Buffer.from(mapping.wrappedKey, 'base64')
+  );
+  const data = Buffer.from(mapping.encryptedValue, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, data.subarray(0, VALUE_IV_LENGTH));
+  decipher.setAAD(Buffer.from(pseudonym, 'utf8'));
+  decipher.setAuthTag(data.subarray(VALUE_IV_LENGTH, VALUE_IV_LENGTH + VALUE_TAG_LENGTH));
+
+  return Buffer.concat([
+    decipher.update(data.subarray(VALUE_IV_LENGTH + VALUE_TAG_LENGTH)),
+    decipher.final(),
+  ]).toString('utf8');
+};
+
+export const mapPseudonymKeyRow = (row: any): PseudonymKey => ({
+  id: row.id,
+  name: row.name,
+  algorithm: row.algorithm,
+  publicKey: row.public_key,
+  keyFingerprint: row.key_fingerprint,
+  authorizedPersonnel: parseJson(row.authorized_personnel, []),
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at),
+});
+
+const keyColumns = ['id', 'name', 'algorithm', 'public_key', 'key_fingerprint', 'authorized_personnel', 'created_by', 'created_at'];
+
+export const getPseudonymKeys = async (): Promise<PseudonymKey[]> => {
+  const rows = await database('pseudonym_keys')
+    .select(keyColumns)
+    .orderBy('created_at', 'desc');
+
+  return rows.map(mapPseudonymKeyRow);
+};
+
+export const getPseudonymKey = async (id: string): Promise<PseudonymKey | null> => {
+  const row = await database('pseudonym_keys')
+    .select(keyColumns)
+    .where({ id })
+    .first();
+
+  return row ? mapPseudonymKeyRow(row) : null;
+};
+
+/**
+ * Generate a pseudonym key. The private key is encrypted under the passphrase,
+ * which the authorized personnel hold; it cannot be recovered if lost.
+ */
+export const createPseudonymKey = async (
+  name: string,
+  passphrase: string,
+  authorizedPersonnel: string[],
+  userId: string
+): Promise<PseudonymKey> => {
+  const { publicKey, privateKey } = await generateKeyPair('rsa', { modulusLength: RSA_MODULUS_LENGTH });
+  const fingerprint = crypto.createHash('sha256')
+    .update(publicKey.export({ type: 'spki', format: 'der' }))
+    .digest('hex');
+
+  const [row] = await database('pseudonym_keys').insert({
+    name,
+    algorithm: PSEUDONYM_KEY_ALGORITHM,
+    public_key: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    key_fingerprint: fingerprint,
+    encrypted_private_key: await encryptPrivateKey(privateKey, passphrase, fingerprint),
+    kdf_params: JSON.stringify(DEFAULT_KDF_PARAMS),
+    authorized_personnel: JSON.stringify([...new Set(authorizedPersonnel)]),
+    created_by: userId,
+  }).returning(keyColumns);
+
+  return mapPseudonymKeyRow(row);
+};
+
+/**
+ * Pseudonyms for the values under a key, reusing existing mappings and
+ * storing new ones encrypted to the key
+ */
+const resolvePseudonyms = async (
+  trx: Knex.Transaction,
+  key: PseudonymKey,
+  values: Map<string, { value: string; category: string }>,
+  userId: string
+): Promise<Map<string, string>> => {
+  if (values.size === 0) {
+    return new Map();
+  }
+
+  const secret = getLookupSecret();
+  const digests = new Map([...values.keys()].map(normalized => [pseudonymDigest(key.id, normalized, secret), normalized]));
+
+  const existing = await trx('pseudonym_mappings')
+    .select('value_digest')
+    .where({ key_id: key.id })
+    .whereIn('value_digest', [...digests.keys()]);
+  const known = new Set(existing.map((row: any) => row.value_digest));
+
+  const newRows = [...digests.entries()]
+    .filter(([digest]) => !known.has(digest))
+    .map(([digest, normalized]) => {
+      const { value, category } = values.get(normalized)!;
+      const pseudonym = pseudonymFor(category, digest);
+      const encrypted = encryptMappingValue(key.publicKey, value, pseudonym);
+      return {
+        key_id: key.id,
+        category,
+        pseudonym,
+        value_digest: digest,
+        wrapped_key: encrypted.wrappedKey,
+        encrypted_value: encrypted.encryptedValue,
+        created_by: userId,
+      };
+    });
+
+  if (newRows.length > 0) {
+    // A concurrent run may have mapped the same value
+    await trx('pseudonym_mappings').insert(newRows).onConflict(['key_id', 'value_digest']).ignore();
+  }
+
+  const rows = await trx('pseudonym_mappings')
+    .select('value_digest', 'pseudonym')
+    .where({ key_id: key.id })
+    .whereIn('value_digest', [...digests.keys()]);
+
+  return new Map(rows.map((row: any) => [digests.get(row.value_digest)!, row.pseudonym]));
+};
+
+/**
+ * Recover the values behind pseudonyms. Returns null when the passphrase is wrong;
+ * every successful re-identification is recorded.
+ */
+export const reidentifyPseudonyms = async (
+  keyId: string,
+  passphrase: string,
+  pseudonyms: string[],
+  reason: string,
+  userId: string
+): Promise<Reidentification[] | null> => {
+  const key = await database('pseudonym_keys')
+    .select('encrypted_private_key', 'key_fingerprint', 'kdf_params')
+    .where({ id: keyId })
+    .first();
+
+  if (!key) {
+    throw new Error(`Pseudonym key ${keyId} not found`);
+  }
+
+  const privateKey = await decryptPrivateKey(
+    key.encrypted_private_key,
+    passphrase,
+    key.key_fingerprint,
+    parseJson(key.kdf_params, DEFAULT_KDF_PARAMS)
+  );
+  if (!privateKey) {
+    return null;
+  }
+
+  const rows = await database('pseudonym_mappings')
+    .select('pseudonym', 'category', 'wrapped_key', 'encrypted_value')
+    .where({ key_id: keyId })
+    .whereIn('pseudonym', pseudonyms);
+
+  await database('pseudonym_reidentifications').insert({
+    key_id: keyId,
+    requested_by: userId,
+    reason,
+    pseudonyms: JSON.stringify(rows.map((row: any) => row.pseudonym)),
+  });
+
+  return rows.map((row: any) => ({
+    pseudonym: row.pseudonym,
+    category: row.category,
+    value: decryptMappingValue(privateKey, { wrappedKey: row.wrapped_key, encryptedValue: row.encrypted_value }, row.pseudonym),
+  }));
+};
+
+// Sources
+
+const loadEvidenceRecords = async (ids: string[]): Promise<SourceRecord[]> => {
+  const rows = await database('evidence_items')
+    .leftJoin('stakeholders', 'evidence_items.source_stakeholder_id', 'stakeholders.id')
+    .select(
+      'evidence_items.id',
+      'evidence_items.title',
+      'evidence_items.description',
+      'evidence_items.notes',
+      'evidence_items.evidence_type',
+      'evidence_items.keywords',
+      'evidence_items.tags',
+      'evidence_items.significance_level',
+      'evidence_items.created_at',
+      'stakeholders.name as source_name',
+      'stakeholders.organization as source_organization',
+      'stakeholders.category as source_category'
+    )
+    .whereIn('evidence_items.id', ids);
+
+  return rows.map((row: any) => ({
+    sourceId: row.id,
+    fields: {
+      title: row.title ?? null,
+      description: row.description ?? null,
+      notes: row.notes ?? null,
+      evidenceType: row.evidence_type,
+      keywords: parseJson(row.keywords, []),
+      tags: parseJson(row.tags, []),
+      significanceLevel: row.significance_level ?? null,
+      createdAt: row.created_at ? new Date(row.created_at) : null,
+      sourceName: row.source_name ?? null,
+      sourceOrganization: row.source_organization ?? null,
+      sourceCategory: row.source_category ?? null,
+    },
+  }));
+};
+
+const loadCommunicationRecords = async (ids: string[]): Promise<SourceRecord[]> => {
+  const rows = await database('communications')
+    .select('id', 'communication_type', 'subject', 'summary', 'outcome', 'location', 'occurred_at', 'duration_minutes', 'participants')
+    .whereIn('id', ids);
+
+  const participantIds = [...new Set(rows.flatMap((row: any) => parseJson(row.participants, []) as string[]))];
+  const stakeholders = participantIds.length > 0
+    ? await database('stakeholders').select('id', 'name').whereIn('id', participantIds)
+    : [];
+  const names = new Map(stakeholders.map((stakeholder: any) => [stakeholder.id, stakeholder.name]));
+
+  return rows.map((row: any) => ({
+    sourceId: row.id,
+    fields: {
+      communicationType: row.communication_type,
+      subject: row.subject ?? null,
+      summary: row.summary ?? null,
+      outcome: row.outcome ?? null,
+      location: row.location ?? null,
+      occurredAt: new Date(row.occurred_at),
+      durationMinutes: row.duration_minutes ?? null,
+      participantNames: (parseJson(row.participants, []) as string[])
+        .map(id => names.get(id))
+        .filter((name): name is string => Boolean(name)),
+    },
+  }));
+};
+
+// Text is extracted by the caller; only the document's own metadata is read here
+const loadDocumentTextRecords = async (ids: string[], text: string): Promise<SourceRecord[]> => {
+  const rows = await database('documents')
+    .select('id', 'title', 'description')
+    .whereIn('id', ids);
+
+  return rows.map((row: any) => ({
+    sourceId: row.id,
+    fields: {
+      title: row.title,
+      description: row.description ?? null,
+      text,
+    },
+  }));
+};
+
+/**
+ * Source records for a run; ids that do not exist are left out
+ */
+export const loadSourceRecords = async (
+  sourceType: AnonymizationSourceType,
+  ids: string[],
+  documentText: string = ''
+): Promise<SourceRecord[]> => {
+  switch (sourceType) {
+    case 'EVIDENCE':
+      return loadEvidenceRecords(ids);
+    case 'COMMUNICATION':
+      return loadCommunicationRecords(ids);
+    case 'DOCUMENT_TEXT':
+      return loadDocumentTextRecords(ids, documentText);
+    default:
+      throw new Error(`Unknown anonymization source ${sourceType}`);
+  }
+};
+
+// Runs
+
+export const mapRunRow = (row: any): AnonymizationRun => {
+  const risk = parseJson(row.risk, {});
+
+  return {
+    id: row.id,
+    sourceType: row.source_type,
+    sourceIds: parseJson(row.source_ids, []),
+    ...(row.key_id && { keyId: row.key_id }),
+    rules: parseJson(row.rules, []),
+    termCount: row.term_count,
+    detectPatterns: row.detect_patterns,
+    quasiIdentifiers: parseJson(row.quasi_identifiers, []),
+    records: parseJson(row.records, []),
+    risk: { ...risk, assessedAt: new Date(risk.assessedAt) },
+    status: row.status,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+    ...(row.released_by && { releasedBy: row.released_by }),
+    ...(row.released_at && { releasedAt: new Date(row.released_at) }),
+    ...(row.released_to && { releasedTo: row.released_to }),
+  };
+};
+
+/**
+ * Anonymize the records and measure their re-identification risk. The supplied
+ * terms are used and discarded; only their count is kept with the run.
+ */
+export const createAnonymizationRun = async (
+  input: AnonymizationRunInput,
+  records: SourceRecord[],
+  key: PseudonymKey | null,
+  userId: string
+): Promise<AnonymizationRun> => {
+  const values = collectPseudonymValues(records, input.rules, input.terms);
+  if (values.size > 0 && !key) {
+    throw new Error('A pseudonym key is required for pseudonymization');
+  }
+
+  return database.transaction(async (trx) => {
+    const pseudonyms = key ? await resolvePseudonyms(trx, key, values, userId) : new Map<string, string>();
+    const anonymized = anonymizeRecords(records, {
+      rules: input.rules,
+      terms: input.terms,
+      detectPatterns: input.detectPatterns,
+      pseudonyms,
+      ...(key && { keyId: key.id }),
+    });
+    const risk = assessReidentificationRisk(
+      anonymized.map(record => record.fields),
+      input.quasiIdentifiers,
+      Math.max(getMinK(), input.k ?? 0),
+      countResidualIdentifiers(anonymized, input.terms)
+    );
+
+    const [row] = await trx('anonymization_runs').insert({
+      source_type: input.sourceType,
+      source_ids: JSON.stringify(records.map(record => record.sourceId)),
+      key_id: key?.id ?? null,
+      rules: JSON.stringify(input.rules),
+      term_count: input.terms.length,
+      detect_patterns: input.detectPatterns,
+      quasi_identifiers: JSON.stringify(input.quasiIdentifiers),
+      records: JSON.stringify(anonymized),
+      risk: JSON.stringify(risk),
+      status: 'ANONYMIZED',
+      created_by: userId,
+    }).returning('*');
+
+    return mapRunRow(row);
+  });
+};
+
+export const getAnonymizationRun = async (id: string): Promise<AnonymizationRun | null> => {
+  const row = await database('anonymization_runs')
+    .select('*')
+    .where({ id })
+    .first();
+
+  return row ? mapRunRow(row) : null;
+};
+
+export const getAnonymizationRuns = async (
+  filters: AnonymizationRunFilters = {},
+  limit = 100
+): Promise<AnonymizationRun[]> => {
+  let query = database('anonymization_runs')
+    .select('*')
+    .orderBy('created_at', 'desc')
+    .limit(limit);
+
+  if (filters.sourceType) {
+    query = query.where({ source_type: filters.sourceType });
+  }
+  if (filters.status) {
+    query = query.where({ status: filters.status });
+  }
+
+  const rows = await query;
+  return rows.map(mapRunRow);
+};
+
+/**
+ * Record that a run left the legal team. Callers check the risk assessment first.
+ */
+export const releaseAnonymizationRun = async (
+  id: string,
+  releasedTo: string,
+  userId: string
+): Promise<AnonymizationRun> => {
+  const [row] = await database('anonymization_runs')
+    .where({ id, status: 'ANONYMIZED' })
+    .update({
+      status: 'RELEASED',
+      released_by: userId,
+      released_at: new Date(),
+      released_to: releasedTo,
+    })
+    .returning('*');
+
+  if (!row) {
+    throw new Error(`Anonymization run ${id} is not awaiting release`);
+  }
+
+  return mapRunRow(row);
+};
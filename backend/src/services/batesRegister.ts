@@ -0,0 +1,222 @@
+import { Knex } from 'knex';
+import database from '../config/database';
+import { Production, ProductionRegisterEntry } from '../types';
+import { formatBatesNumber } from './loadFile';
+
+export interface ProductionInput {
+  caseId: string;
+  name: string;
+  productionVolume?: string;
+  recipient?: string;
+  batesPrefix: string;
+  batesPadding: number;
+  legend?: string;
+  watermarkText?: string;
+  notes?: string;
+}
+
+export interface RangeRequest {
+  documentId: string;
+  pageCount: number;
+}
+
+export interface PlannedRange extends RangeRequest {
+  beginNumber: number;
+  endNumber: number;
+}
+
+export interface BatesLookupResult {
+  batesNumber: string;
+  page: number; // 1-based page within the document
+  production: Production;
+  entry: ProductionRegisterEntry;
+}
+
+/**
+ * Lay out consecutive Bates ranges for documents, in the order given
+ */
+export const planBatesRanges = (startNumber: number, requests: RangeRequest[]): PlannedRange[] => {
+  let next = startNumber;
+
+  return requests.map(request => {
+    if (!Number.isInteger(request.pageCount) || request.pageCount < 1) {
+      throw new Error(`Document ${request.documentId} has no page count`);
+    }
+
+    const range = { ...request, beginNumber: next, endNumber: next + request.pageCount - 1 };
+    next = range.endNumber + 1;
+    return range;
+  });
+};
+
+/**
+ * Page number of a Bates number within a register entry, if it falls in its range
+ */
+export const pageInRange = (
+  batesNumber: string,
+  entry: Pick<ProductionRegisterEntry, 'batesPrefix' | 'beginNumber' | 'endNumber'>
+): number | undefined => {
+  if (!batesNumber.startsWith(entry.batesPrefix)) {
+    return undefined;
+  }
+
+  const digits = batesNumber.slice(entry.batesPrefix.length);
+  if (!/^\d+$/.test(digits)) {
+    return undefined;
+  }
+
+  const value = parseInt(digits, 10);
+  return value >= entry.beginNumber && value <= entry.endNumber ? value - entry.beginNumber + 1 : undefined;
+};
+
+export const mapProductionRow = (row: any): Production => ({
+  id: row.id,
+  caseId: row.case_id,
+  name: row.name,
+  ...(row.production_volume && { productionVolume: row.production_volume }),
+  ...(row.recipient && { recipient: row.recipient }),
+  batesPrefix: row.bates_prefix,
+  batesPadding: Number(row.bates_padding),
+  ...(row.legend && { legend: row.legend }),
+  ...(row.watermark_text && { watermarkText: row.watermark_text }),
+  status: row.status,
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at),
+  ...(row.closed_at && { closedAt: new Date(row.closed_at) }),
+  ...(row.notes && { notes: row.notes }),
+});
+
+export const mapRegisterRow = (row: any): ProductionRegisterEntry => ({
+  id: row.id,
+  productionId: row.production_id,
+  documentId: row.document_id,
+  batesPrefix: row.bates_prefix,
+  beginNumber: Number(row.begin_number),
+  endNumber: Number(row.end_number),
+  batesBegin: row.bates_begin,
+  batesEnd: row.bates_end,
+  pageCount: Number(row.page_count),
+  allocatedBy: row.allocated_by,
+  allocatedAt: new Date(row.allocated_at),
+});
+
+/**
+ * Reserve `count` consecutive numbers for a prefix and return the first.
+ * Must run inside a transaction; the sequence row stays locked until commit
+ * so concurrent productions under the same prefix cannot be given the same numbers.
+ */
+export const reserveBatesNumbers = async (
+  trx: Knex.Transaction,
+  prefix: string,
+  count: number
+): Promise<number> => {
+  await trx('bates_sequences').insert({ prefix, next_number: 1 }).onConflict('prefix').ignore();
+
+  const sequence = await trx('bates_sequences')
+    .select('next_number')
+    .where({ prefix })
+    .forUpdate()
+    .first();
+
+  const startNumber = Number(sequence.next_number);
+
+  await trx('bates_sequences')
+    .where({ prefix })
+    .update({ next_number: startNumber + count, updated_at: new Date() });
+
+  return startNumber;
+};
+
+export const createProduction = async (input: ProductionInput, userId: string): Promise<Production> => {
+  const [row] = await database('productions').insert({
+    case_id: input.caseId,
+    name: input.name,
+    production_volume: input.productionVolume ?? null,
+    recipient: input.recipient ?? null,
+    bates_prefix: input.batesPrefix,
+    bates_padding: input.batesPadding,
+    legend: input.legend ?? null,
+    watermark_text: input.watermarkText ?? null,
+    status: 'OPEN',
+    created_by: userId,
+    notes: input.notes ?? null,
+  }).returning('*');
+
+  return mapProductionRow(row);
+};
+
+/**
+ * Assign Bates ranges to documents in an open production. The production row
+ * is locked for the duration so ranges within it stay contiguous.
+ */
+export const allocateProductionRanges = async (
+  productionId: string,
+  requests: RangeRequest[],
+  userId: string
+): Promise<ProductionRegisterEntry[]> => {
+  // Validate page counts before any numbers are consumed
+  planBatesRanges(1, requests);
+
+  return database.transaction(async trx => {
+    const production = await trx('productions').where({ id: productionId }).forUpdate().first();
+
+    if (!production) {
+      throw new Error(`Production ${productionId} not found`);
+    }
+    if (production.status !== 'OPEN') {
+      throw new Error(`Production ${productionId} is closed`);
+    }
+
+    const totalPages = requests.reduce((sum, request) => sum + request.pageCount, 0);
+    const startNumber = await reserveBatesNumbers(trx, production.bates_prefix, totalPages);
+    const format = (value: number) => formatBatesNumber(production.bates_prefix, value, production.bates_padding);
+
+    const inserted = await trx('production_documents').insert(
+      planBatesRanges(startNumber, requests).map(range => ({
+        production_id: productionId,
+        document_id: range.documentId,
+        bates_prefix: production.bates_prefix,
+        begin_number: range.beginNumber,
+        end_number: range.endNumber,
+        bates_begin: format(range.beginNumber),
+        bates_end: format(range.endNumber),
+        page_count: range.pageCount,
+        allocated_by: userId,
+      }))
+    ).returning('*');
+
+    return inserted.map(mapRegisterRow);
+  });
+};
+
+/**
+ * Register entries of a production, in Bates order
+ */
+export const getProductionRegister = async (productionId: string): Promise<ProductionRegisterEntry[]> => {
+  const rows = await database('production_documents')
+    .where({ production_id: productionId })
+    .orderBy('begin_number', 'asc');
+
+  return rows.map(mapRegisterRow);
+};
+
+/**
+ * Find the production and document a stamped Bates number belongs to
+ */
+export const findByBatesNumber = async (batesNumber: string): Promise<BatesLookupResult | null> => {
+  const rows = await database('production_documents as pd')
+    .join('productions as p', 'pd.production_id', 'p.id')
+    .select('pd.*', database.raw('row_to_json(p.*) as production'))
+    .whereRaw('left(?, char_length(pd.bates_prefix)) = pd.bates_prefix', [batesNumber]);
+
+  for (const row of rows) {
+    const entry = mapRegisterRow(row);
+    const page = pageInRange(batesNumber, entry);
+
+    if (page !== undefined) {
+      return { batesNumber, page, production: mapProductionRow(row.production), entry };
+    }
+  }
+
+  return null;
+};
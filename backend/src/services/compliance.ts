@@ -0,0 +1,852 @@
+import database from '../config/database';
+import {
+  CaseComplianceItem,
+  CaseComplianceSummary,
+  ComplianceAction,
+  ComplianceActionStatus,
+  ComplianceApplicability,
+  ComplianceCheck,
+  ComplianceCheckType,
+  ComplianceFinding,
+  ComplianceRequirement,
+  ComplianceResult,
+  ComplianceRule,
+  ComplianceSeverity,
+  ComplianceStandard,
+  ComplianceStandardSnapshot,
+  CustodyLedgerEntry,
+  CustodyPurpose,
+  CustodySignatureCheck,
+  CustodySignatureRole,
+  CustodyVerificationResult,
+  EvidenceComplianceResult,
+  EvidenceLifecycleStatus,
+  EvidenceSeal,
+  LifecycleActivity,
+  LifecycleStage,
+} from '../types';
+import { getCustodyLedger, getCustodyVerificationKeys, verifyCustodyChain } from './custodyLedger';
+import { getLifecycleHistory } from './evidenceLifecycle';
+import { getActiveSeals, getPhysicalEvidence } from './physicalEvidence';
+import { verifyEvidenceCustodySignatures } from './signingKeys';
+import { resolveCaseEvidence } from './timeline';
+
+export const MAX_CHECK_ITEMS = 1000; // Checks run in the request
+const DEFAULT_CHECK_INTERVAL_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Score weight of a requirement, and the order findings are listed in
+export const SEVERITY_WEIGHTS: Record<ComplianceSeverity, number> = {
+  CRITICAL: 10,
+  HIGH: 5,
+  MEDIUM: 3,
+  LOW: 1,
+};
+
+const SEVERITIES = Object.keys(SEVERITY_WEIGHTS) as ComplianceSeverity[];
+
+// Findings at these severities keep an item from being trial-ready
+const BLOCKING_SEVERITIES: ComplianceSeverity[] = ['CRITICAL', 'HIGH'];
+
+/**
+ * What the rules look at for one evidence item
+ */
+export interface ComplianceContext {
+  evidenceId: string;
+  status: EvidenceLifecycleStatus;
+  authenticityVerified: boolean;
+  verifiedBy?: string;
+  integrityHash?: string;
+  lastIntegrityCheck?: Date;
+  tamperDetected: boolean;
+  physical: boolean;
+  storageLocationId?: string;
+  activeSeals: Pick<EvidenceSeal, 'sealNumber' | 'condition'>[];
+  ledger: CustodyLedgerEntry[];
+  custody: CustodyVerificationResult;
+  signatures: CustodySignatureCheck[];
+  lifecycle: Pick<LifecycleActivity, 'stage' | 'activityType'>[];
+}
+
+export interface RuleOutcome {
+  passed: boolean;
+  details?: Record<string, any>;
+}
+
+interface RuleDefinition {
+  description: string;
+  parameters?: Record<string, string>;
+  evaluate: (context: ComplianceContext, parameters: Record<string, any>, now: Date) => RuleOutcome;
+}
+
+export interface ComplianceStandardInput {
+  name: string;
+  version: string;
+  authority: string;
+  jurisdiction?: string;
+  description?: string;
+  requirements: ComplianceRequirement[];
+}
+
+export interface ComplianceStandardUpdate {
+  authority?: string;
+  jurisdiction?: string | null;
+  description?: string | null;
+  requirements?: ComplianceRequirement[];
+  active?: boolean;
+}
+
+export interface ComplianceCheckInput {
+  checkType: ComplianceCheckType;
+  evidenceIds?: string[];
+  caseId?: string;
+  standardIds?: string[];
+  notes?: string;
+}
+
+export interface ComplianceActionFilters {
+  status?: ComplianceActionStatus;
+  assignedTo?: string;
+  checkId?: string;
+}
+
+export interface ComplianceActionUpdate {
+  status?: Exclude<ComplianceActionStatus, 'OVERDUE'>;
+  assignedTo?: string;
+  notes?: string;
+}
+
+const parseJson = (value: any, fallback: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? fallback);
+
+const daysAfter = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Days between compliance checks of the same items (COMPLIANCE_CHECK_INTERVAL_DAYS)
+ */
+export const getCheckIntervalDays = (): number => {
+  const value = Number(process.env['COMPLIANCE_CHECK_INTERVAL_DAYS']);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CHECK_INTERVAL_DAYS;
+};
+
+// Rules
+
+export const COMPLIANCE_RULES: Record<ComplianceRule, RuleDefinition> = {
+  AUTHENTICITY_VERIFIED: {
+    description: 'Authenticity has been verified and the verifier is recorded',
+    evaluate: context => ({
+      passed: context.authenticityVerified && Boolean(context.verifiedBy),
+      ...(context.authenticityVerified && !context.verifiedBy && { details: { reason: 'Verifier not recorded' } }),
+    }),
+  },
+  INTEGRITY_HASH_RECORDED: {
+    description: 'An integrity hash was recorded for the item',
+    evaluate: context => ({ passed: Boolean(context.integrityHash) }),
+  },
+  INTEGRITY_CHECK_CURRENT: {
+    description: 'The item passed an integrity check within maxAgeDays',
+    parameters: { maxAgeDays: 'Days since the last integrity check (default 30)' },
+    evaluate: (context, parameters, now) => {
+      const maxAgeDays = parameters['maxAgeDays'] ?? 30;
+      if (!context.lastIntegrityCheck) {
+        return { passed: false, details: { reason: 'Never checked' } };
+      }
+      const ageDays = Math.floor((now.getTime() - context.lastIntegrityCheck.getTime()) / DAY_MS);
+      return {
+        passed: ageDays <= maxAgeDays,
+        details: { lastIntegrityCheck: context.lastIntegrityCheck, ageDays },
+      };
+    },
+  },
+  NO_TAMPER_DETECTED: {
+    description: 'The latest integrity check found no sign of tampering',
+    evaluate: context => ({ passed: !context.tamperDetected }),
+  },
+  CUSTODY_CHAIN_PRESENT: {
+    description: 'The custody ledger has at least the collection entry',
+    evaluate: context => ({ passed: context.ledger.length > 0 }),
+  },
+  CUSTODY_CHAIN_INTACT: {
+    description: 'The custody ledger verifies from the first entry to the last',
+    evaluate: context => ({
+      passed: context.custody.valid && context.custody.entriesChecked > 0,
+      details: {
+        entriesChecked: context.custody.entriesChecked,
+        ...(context.custody.firstBrokenLink && { firstBrokenLink: context.custody.firstBrokenLink }),
+      },
+    }),
+  },
+  CUSTODY_CONTINUOUS: {
+    description: 'Every transfer is from the custodian recorded by the entry before it',
+    evaluate: context => {
+      const gaps = context.ledger
+        .slice(1)
+        .filter((entry, index) => entry.transferredFrom !== context.ledger[index]!.custodian)
+        .map(entry => entry.sequenceNumber);
+      return { passed: gaps.length === 0, ...(gaps.length > 0 && { details: { sequenceNumbers: gaps } }) };
+    },
+  },
+  CUSTODY_SIGNED: {
+    description: 'Every custody entry carries a valid signature in each of the given roles',
+    parameters: { roles: 'Signature roles required on each entry: CUSTODIAN, WITNESS (default CUSTODIAN)' },
+    evaluate: (context, parameters) => {
+      const roles: CustodySignatureRole[] = parameters['roles'] ?? ['CUSTODIAN'];
+      const unsigned: { sequenceNumber: number; role: CustodySignatureRole }[] = [];
+
+      for (const entry of context.ledger) {
+        for (const role of roles) {
+          const signed = context.signatures.some(check =>
+            check.custodyEntryId === entry.id && check.role === role && check.valid
+          );
+          if (!signed) {
+            unsigned.push({ sequenceNumber: entry.sequenceNumber, role });
+          }
+        }
+      }
+
+      return { passed: unsigned.length === 0, ...(unsigned.length > 0 && { details: { unsigned } }) };
+    },
+  },
+  CUSTODY_INTEGRITY_VERIFIED: {
+    description: 'Integrity was verified at every hand-off after collection',
+    evaluate: context => {
+      const unverified = context.ledger
+        .slice(1)
+        .filter(entry => !entry.integrityVerified)
+        .map(entry => entry.sequenceNumber);
+      return { passed: unverified.length === 0, ...(unverified.length > 0 && { details: { sequenceNumbers: unverified } }) };
+    },
+  },
+  COLLECTION_DOCUMENTED: {
+    description: 'Collection is recorded in the lifecycle and as the first custody entry',
+    evaluate: context => {
+      const activity = context.lifecycle.some(entry => entry.activityType === 'COLLECTION');
+      const custody = context.ledger[0]?.purpose === 'COLLECTION';
+      return {
+        passed: activity && custody,
+        ...(!(activity && custody) && { details: { collectionActivity: activity, collectionCustodyEntry: custody } }),
+      };
+    },
+  },
+  LIFECYCLE_STAGES_REACHED: {
+    description: 'The item has been taken through each of the given lifecycle stages',
+    parameters: { stages: 'Lifecycle stages that must appear in the item\'s history' },
+    evaluate: (context, parameters) => {
+      const stages: LifecycleStage[] = parameters['stages'] ?? [];
+      const missing = stages.filter(stage => !context.lifecycle.some(entry => entry.stage === stage));
+      return { passed: missing.length === 0, ...(missing.length > 0 && { details: { missingStages: missing } }) };
+    },
+  },
+  SEALS_INTACT: {
+    description: 'The item has at least one active seal and every active seal is intact',
+    evaluate: context => {
+      const compromised = context.activeSeals.filter(seal => seal.condition !== 'INTACT');
+      return {
+        passed: context.activeSeals.length > 0 && compromised.length === 0,
+        ...(context.activeSeals.length === 0 && { details: { reason: 'No active seal' } }),
+        ...(compromised.length > 0 && {
+          details: { seals: compromised.map(seal => ({ sealNumber: seal.sealNumber, condition: seal.condition })) },
+        }),
+      };
+    },
+  },
+  STORAGE_ASSIGNED: {
+    description: 'The item is at a storage location, or out with a custodian for one of the allowed purposes',
+    parameters: { allowedPurposes: 'Custody purposes that excuse an item from storage (default ANALYSIS, EXAMINATION, PRESENTATION)' },
+    evaluate: (context, parameters) => {
+      if (context.storageLocationId) {
+        return { passed: true };
+      }
+      const allowed: CustodyPurpose[] = parameters['allowedPurposes'] ?? ['ANALYSIS', 'EXAMINATION', 'PRESENTATION'];
+      const purpose = context.ledger[context.ledger.length - 1]?.purpose;
+      return { passed: Boolean(purpose && allowed.includes(purpose)), details: { currentPurpose: purpose ?? null } };
+    },
+  },
+};
+
+export const COMPLIANCE_RULE_NAMES = Object.keys(COMPLIANCE_RULES) as ComplianceRule[];
+
+const appliesTo = (applicability: ComplianceApplicability, context: ComplianceContext): boolean =>
+  applicability === 'ALL' || (applicability === 'PHYSICAL') === context.physical;
+
+export const standardLabel = (standard: Pick<ComplianceStandard, 'name' | 'version'>): string =>
+  `${standard.name} ${standard.version}`;
+
+const worstFirst = (a: { severity: ComplianceSeverity }, b: { severity: ComplianceSeverity }): number =>
+  SEVERITY_WEIGHTS[b.severity] - SEVERITY_WEIGHTS[a.severity];
+
+/**
+ * Check one item against every requirement of the given standards that applies
+ * to it. The score is the severity-weighted share of requirements met.
+ */
+export const evaluateEvidenceCompliance = (
+  context: ComplianceContext,
+  standards: ComplianceStandardSnapshot[],
+  now: Date
+): EvidenceComplianceResult => {
+  const findings: ComplianceFinding[] = [];
+  let possible = 0;
+  let met = 0;
+  let requirementsChecked = 0;
+
+  for (const standard of standards) {
+    for (const requirement of standard.requirements) {
+      if (!appliesTo(requirement.appliesTo, context)) {
+        continue;
+      }
+
+      const weight = SEVERITY_WEIGHTS[requirement.severity];
+      const outcome = COMPLIANCE_RULES[requirement.rule].evaluate(context, requirement.parameters ?? {}, now);
+      requirementsChecked++;
+      possible += weight;
+
+      if (outcome.passed) {
+        met += weight;
+        continue;
+      }
+
+      findings.push({
+        severity: requirement.severity,
+        category: requirement.rule,
+        description: requirement.description,
+        standard: standardLabel(standard),
+        requirement: requirement.id,
+        evidence: [context.evidenceId],
+        remediation: requirement.remediation,
+        deadline: daysAfter(now, requirement.remediationDays),
+        ...(outcome.details && { details: outcome.details }),
+      });
+    }
+  }
+
+  findings.sort(worstFirst);
+  const blocking = findings.some(finding => BLOCKING_SEVERITIES.includes(finding.severity));
+
+  return {
+    evidenceId: context.evidenceId,
+    result: findings.length === 0 ? 'COMPLIANT' : blocking ? 'NON_COMPLIANT' : 'PARTIALLY_COMPLIANT',
+    score: possible === 0 ? 100 : Math.round((met / possible) * 100),
+    trialReady: !blocking,
+    requirementsChecked,
+    findings,
+  };
+};
+
+/**
+ * Overall result for a set of item results: any non-compliant item makes the
+ * whole non-compliant
+ */
+export const combineResults = (results: ComplianceResult[]): ComplianceResult => {
+  if (results.includes('NON_COMPLIANT')) {
+    return 'NON_COMPLIANT';
+  }
+  if (results.includes('UNDER_REVIEW')) {
+    return 'UNDER_REVIEW';
+  }
+  return results.every(result => result === 'COMPLIANT') ? 'COMPLIANT' : 'PARTIALLY_COMPLIANT';
+};
+
+/**
+ * Merge item findings into one finding per failed requirement, listing every
+ * affected item, worst first
+ */
+export const aggregateFindings = (items: EvidenceComplianceResult[]): ComplianceFinding[] => {
+  const merged = new Map<string, ComplianceFinding>();
+
+  for (const finding of items.flatMap(item => item.findings)) {
+    const key = `${finding.standard}\u0000${finding.requirement}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.evidence = [...(existing.evidence ?? []), ...(finding.evidence ?? [])];
+    } else {
+      const { details, ...rest } = finding;
+      merged.set(key, { ...rest, evidence: [...(finding.evidence ?? [])] });
+    }
+  }
+
+  return [...merged.values()].sort(worstFirst);
+};
+
+export const recommendationFor = (finding: ComplianceFinding): string => {
+  const count = finding.evidence?.length ?? 0;
+  return `${finding.standard} ${finding.requirement}: ${finding.remediation} (${count} item${count === 1 ? '' : 's'})`;
+};
+
+const emptySeverityCounts = (): Record<ComplianceSeverity, number> =>
+  Object.fromEntries(SEVERITIES.map(severity => [severity, 0])) as Record<ComplianceSeverity, number>;
+
+const countBySeverity = (findings: Pick<ComplianceFinding, 'severity'>[]): Record<ComplianceSeverity, number> => {
+  const counts = emptySeverityCounts();
+  for (const finding of findings) {
+    counts[finding.severity]++;
+  }
+  return counts;
+};
+
+/**
+ * Roll the latest result of each case item up into a trial-readiness summary.
+ * Items never checked count as not ready.
+ */
+export const summarizeCaseCompliance = (
+  caseId: string,
+  evidenceIds: string[],
+  latest: (EvidenceComplianceResult & { checkId: string; checkedAt: Date })[],
+  actions: { open: number; overdue: number },
+  now: Date
+): CaseComplianceSummary => {
+  const latestById = new Map(latest.map(result => [result.evidenceId, result]));
+
+  const items: CaseComplianceItem[] = evidenceIds.map(evidenceId => {
+    const result = latestById.get(evidenceId);
+    return result
+      ? {
+        evidenceId,
+        checkId: result.checkId,
+        checkedAt: result.checkedAt,
+        result: result.result,
+        score: result.score,
+        trialReady: result.trialReady,
+        findingsBySeverity: countBySeverity(result.findings),
+      }
+      : { evidenceId, trialReady: false, findingsBySeverity: emptySeverityCounts() };
+  });
+
+  const checked = items.filter(item => item.result);
+  const findingsBySeverity = emptySeverityCounts();
+  for (const item of items) {
+    for (const severity of SEVERITIES) {
+      findingsBySeverity[severity] += item.findingsBySeverity[severity];
+    }
+  }
+
+  // Never-checked items sort with the failing ones: they are just as unready
+  const notTrialReady = items
+    .filter(item => !item.trialReady)
+    .sort((a, b) => (a.score ?? -1) - (b.score ?? -1));
+
+  return {
+    caseId,
+    result: evidenceIds.length === 0
+      ? 'UNDER_REVIEW'
+      : combineResults(items.map(item => item.result ?? 'UNDER_REVIEW')),
+    evidenceCount: evidenceIds.length,
+    checkedCount: checked.length,
+    trialReadyCount: items.length - notTrialReady.length,
+    ...(checked.length > 0 && {
+      averageScore: Math.round(checked.reduce((sum, item) => sum + item.score!, 0) / checked.length),
+    }),
+    findingsBySeverity,
+    openActions: actions.open,
+    overdueActions: actions.overdue,
+    notTrialReady,
+    items,
+    generatedAt: now,
+  };
+};
+
+// Row mappers
+
+export const mapStandardRow = (row: any): ComplianceStandard => ({
+  id: row.id,
+  name: row.name,
+  version: row.version,
+  authority: row.authority,
+  ...(row.jurisdiction && { jurisdiction: row.jurisdiction }),
+  ...(row.description && { description: row.description }),
+  requirements: parseJson(row.requirements, []),
+  active: Boolean(row.active),
+  ...(row.created_by && { createdBy: row.created_by }),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toSnapshot = (standard: ComplianceStandard): ComplianceStandardSnapshot => ({
+  id: standard.id,
+  name: standard.name,
+  version: standard.version,
+  authority: standard.authority,
+  ...(standard.jurisdiction && { jurisdiction: standard.jurisdiction }),
+  requirements: standard.requirements,
+});
+
+const mapFinding = (finding: any): ComplianceFinding => ({
+  ...finding,
+  ...(finding.deadline && { deadline: new Date(finding.deadline) }),
+});
+
+export const mapActionRow = (row: any, now: Date = new Date()): ComplianceAction => ({
+  id: row.id,
+  checkId: row.check_id,
+  standard: row.standard,
+  requirement: row.requirement,
+  description: row.description,
+  priority: row.priority,
+  assignedTo: row.assigned_to,
+  dueDate: new Date(row.due_date),
+  status: row.status !== 'COMPLETED' && new Date(row.due_date) < now ? 'OVERDUE' : row.status,
+  evidence: parseJson(row.evidence, []),
+  ...(row.notes && { notes: row.notes }),
+  ...(row.completed_at && { completedAt: new Date(row.completed_at) }),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const mapCheckItemRow = (row: any): EvidenceComplianceResult & { checkId: string; checkedAt: Date } => ({
+  checkId: row.check_id,
+  evidenceId: row.evidence_id,
+  result: row.result,
+  score: row.score,
+  trialReady: Boolean(row.trial_ready),
+  requirementsChecked: row.requirements_checked,
+  findings: parseJson(row.findings, []).map(mapFinding),
+  checkedAt: new Date(row.checked_at),
+});
+
+export const mapCheckRow = (
+  row: any,
+  actionItems: ComplianceAction[] = [],
+  items?: EvidenceComplianceResult[]
+): ComplianceCheck => ({
+  id: row.id,
+  checkType: row.check_type,
+  performedBy: row.performed_by,
+  performedAt: new Date(row.performed_at),
+  ...(row.case_id && { caseId: row.case_id }),
+  scope: parseJson(row.scope, []),
+  standards: parseJson(row.standards, []),
+  result: row.result,
+  findings: parseJson(row.findings, []).map(mapFinding),
+  score: row.score,
+  recommendations: parseJson(row.recommendations, []),
+  actionItems,
+  ...(items && { items }),
+  ...(row.next_check_due && { nextCheckDue: new Date(row.next_check_due) }),
+  ...(row.notes && { notes: row.notes }),
+});
+
+// Standards
+
+export const getComplianceStandards = async (includeInactive = false): Promise<ComplianceStandard[]> => {
+  const query = database('compliance_standards').orderBy([{ column: 'name' }, { column: 'version' }]);
+  if (!includeInactive) {
+    query.where({ active: true });
+  }
+  const rows = await query;
+  return rows.map(mapStandardRow);
+};
+
+export const getComplianceStandard = async (id: string): Promise<ComplianceStandard | null> => {
+  const row = await database('compliance_standards').where({ id }).first();
+  return row ? mapStandardRow(row) : null;
+};
+
+export const findComplianceStandard = async (name: string, version: string): Promise<ComplianceStandard | null> => {
+  const row = await database('compliance_standards').where({ name, version }).first();
+  return row ? mapStandardRow(row) : null;
+};
+
+export const createComplianceStandard = async (
+  input: ComplianceStandardInput,
+  userId: string
+): Promise<ComplianceStandard> => {
+  const [row] = await database('compliance_standards')
+    .insert({
+      name: input.name,
+      version: input.version,
+      authority: input.authority,
+      jurisdiction: input.jurisdiction ?? null,
+      description: input.description ?? null,
+      requirements: JSON.stringify(input.requirements),
+      created_by: userId,
+    })
+    .returning('*');
+
+  return mapStandardRow(row);
+};
+
+/**
+ * Update a standard in place. Past checks keep the requirements they ran with.
+ */
+export const updateComplianceStandard = async (
+  id: string,
+  updates: ComplianceStandardUpdate
+): Promise<ComplianceStandard> => {
+  const [row] = await database('compliance_standards')
+    .where({ id })
+    .update({
+      ...(updates.authority !== undefined && { authority: updates.authority }),
+      ...(updates.jurisdiction !== undefined && { jurisdiction: updates.jurisdiction }),
+      ...(updates.description !== undefined && { description: updates.description }),
+      ...(updates.requirements && { requirements: JSON.stringify(updates.requirements) }),
+      ...(updates.active !== undefined && { active: updates.active }),
+      updated_at: new Date(),
+    })
+    .returning('*');
+
+  return mapStandardRow(row);
+};
+
+// Checks
+
+/**
+ * Gather everything the rules need for one item; null when it does not exist
+ */
+export const loadComplianceContext = async (evidenceId: string): Promise<ComplianceContext | null> => {
+  const evidence = await database('evidence_items')
+    .select('id', 'status', 'authenticity_verified', 'verified_by', 'integrity_hash', 'last_integrity_check', 'tamper_detected')
+    .where({ id: evidenceId })
+    .first();
+  if (!evidence) {
+    return null;
+  }
+
+  const [ledger, signatures, lifecycle, physical, activeSeals] = await Promise.all([
+    getCustodyLedger(evidenceId),
+    verifyEvidenceCustodySignatures(evidenceId),
+    getLifecycleHistory(evidenceId),
+    getPhysicalEvidence(evidenceId),
+    getActiveSeals(evidenceId),
+  ]);
+
+  return {
+    evidenceId,
+    status: evidence.status,
+    authenticityVerified: Boolean(evidence.authenticity_verified),
+    ...(evidence.verified_by && { verifiedBy: evidence.verified_by }),
+    ...(evidence.integrity_hash && { integrityHash: evidence.integrity_hash }),
+    ...(evidence.last_integrity_check && { lastIntegrityCheck: new Date(evidence.last_integrity_check) }),
+    tamperDetected: Boolean(evidence.tamper_detected),
+    physical: Boolean(physical),
+    ...(physical?.storageLocationId && { storageLocationId: physical.storageLocationId }),
+    activeSeals,
+    ledger,
+    custody: verifyCustodyChain(evidenceId, ledger, getCustodyVerificationKeys()),
+    signatures,
+    lifecycle,
+  };
+};
+
+/**
+ * Items a check covers: those listed plus those in the case. Ids with no
+ * evidence item are returned separately.
+ */
+export const resolveCheckScope = async (
+  input: Pick<ComplianceCheckInput, 'evidenceIds' | 'caseId'>
+): Promise<{ evidenceIds: string[]; unknown: string[] }> => {
+  const requested = input.caseId
+    ? await resolveCaseEvidence(input.caseId, input.evidenceIds)
+    : [...new Set(input.evidenceIds ?? [])];
+
+  const found = requested.length > 0
+    ? new Set(await database('evidence_items').whereIn('id', requested).pluck('id'))
+    : new Set<string>();
+
+  return {
+    evidenceIds: requested.filter(id => found.has(id)),
+    unknown: requested.filter(id => !found.has(id)),
+  };
+};
+
+/**
+ * Check items against standards, record the per-item results and raise one
+ * action per failed requirement, assigned to whoever ran the check
+ */
+export const runComplianceCheck = async (
+  input: ComplianceCheckInput,
+  evidenceIds: string[],
+  standards: ComplianceStandard[],
+  userId: string
+): Promise<ComplianceCheck> => {
+  const now = new Date();
+  const snapshots = standards.map(toSnapshot);
+  const items: EvidenceComplianceResult[] = [];
+
+  for (const evidenceId of evidenceIds) {
+    const context = await loadComplianceContext(evidenceId);
+    if (context) {
+      items.push(evaluateEvidenceCompliance(context, snapshots, now));
+    }
+  }
+
+  const findings = aggregateFindings(items);
+  const score = items.length === 0 ? 100 : Math.round(items.reduce((sum, item) => sum + item.score, 0) / items.length);
+
+  return database.transaction(async (trx) => {
+    const [row] = await trx('compliance_checks')
+      .insert({
+        check_type: input.checkType,
+        performed_by: userId,
+        performed_at: now,
+        case_id: input.caseId ?? null,
+        scope: JSON.stringify(items.map(item => item.evidenceId)),
+        standards: JSON.stringify(snapshots),
+        result: items.length === 0 ? 'UNDER_REVIEW' : combineResults(items.map(item => item.result)),
+        score,
+        findings: JSON.stringify(findings),
+        recommendations: JSON.stringify(findings.map(recommendationFor)),
+        next_check_due: daysAfter(now, getCheckIntervalDays()),
+        notes: input.notes ?? null,
+      })
+      .returning('*');
+
+    if (items.length > 0) {
+      await trx('compliance_check_items').insert(items.map(item => ({
+        check_id: row.id,
+        evidence_id: item.evidenceId,
+        result: item.result,
+        score: item.score,
+        trial_ready: item.trialReady,
+        requirements_checked: item.requirementsChecked,
+        findings: JSON.stringify(item.findings),
+        checked_at: now,
+      })));
+    }
+
+    const actionRows = findings.length > 0
+      ? await trx('compliance_actions')
+        .insert(findings.map(finding => ({
+          check_id: row.id,
+          standard: finding.standard,
+          requirement: finding.requirement,
+          description: `${finding.description}. ${finding.remediation}`,
+          priority: finding.severity,
+          assigned_to: userId,
+          due_date: finding.deadline,
+          evidence: JSON.stringify(finding.evidence ?? []),
+        })))
+        .returning('*')
+      : [];
+
+    return mapCheckRow(row, actionRows.map((action: any) => mapActionRow(action, now)), items);
+  });
+};
+
+export const getComplianceCheck = async (id: string): Promise<ComplianceCheck | null> => {
+  const row = await database('compliance_checks').where({ id }).first();
+  if (!row) {
+    return null;
+  }
+
+  const [actions, items] = await Promise.all([
+    database('compliance_actions').where({ check_id: id }).orderBy('created_at', 'asc'),
+    database('compliance_check_items').where({ check_id: id }).orderBy('score', 'asc'),
+  ]);
+
+  return mapCheckRow(
+    row,
+    actions.map((action: any) => mapActionRow(action)),
+    items.map((item: any) => {
+      const { checkId, checkedAt, ...result } = mapCheckItemRow(item);
+      return result;
+    })
+  );
+};
+
+/**
+ * Checks newest first, optionally for one case, without item results
+ */
+export const getComplianceChecks = async (caseId?: string, limit = 50): Promise<ComplianceCheck[]> => {
+  const query = database('compliance_checks').orderBy('performed_at', 'desc').limit(limit);
+  if (caseId) {
+    query.where({ case_id: caseId });
+  }
+  const rows = await query;
+  return rows.map((row: any) => mapCheckRow(row));
+};
+
+/**
+ * Latest compliance result of one item, or null if it has never been checked
+ */
+export const getEvidenceCompliance = async (
+  evidenceId: string
+): Promise<(EvidenceComplianceResult & { checkId: string; checkedAt: Date }) | null> => {
+  const row = await database('compliance_check_items')
+    .where({ evidence_id: evidenceId })
+    .orderBy('checked_at', 'desc')
+    .first();
+  return row ? mapCheckItemRow(row) : null;
+};
+
+/**
+ * Trial readiness of a case from the latest result of each of its items
+ */
+export const getCaseCompliance = async (caseId: string): Promise<CaseComplianceSummary> => {
+  const checkedForCase = await database('compliance_checks')
+    .where({ case_id: caseId })
+    .select('scope');
+  const evidenceIds = await resolveCaseEvidence(
+    caseId,
+    [...new Set(checkedForCase.flatMap((row: any) => parseJson(row.scope, []) as string[]))]
+  );
+
+  const now = new Date();
+  const [latestRows, actionCounts]: [any[], any] = evidenceIds.length > 0
+    ? await Promise.all([
+      database('compliance_check_items')
+        .distinctOn('evidence_id')
+        .whereIn('evidence_id', evidenceIds)
+        .orderBy([{ column: 'evidence_id' }, { column: 'checked_at', order: 'desc' }]),
+      database('compliance_actions')
+        .whereNot('status', 'COMPLETED')
+        .whereRaw('jsonb_exists_any(evidence, ?::text[])', [evidenceIds])
+        .select(
+          database.raw('count(*) as open'),
+          database.raw('count(*) filter (where due_date < ?) as overdue', [now])
+        )
+        .first(),
+    ])
+    : [[], null];
+
+  return summarizeCaseCompliance(
+    caseId,
+    evidenceIds,
+    latestRows.map(mapCheckItemRow),
+    { open: Number(actionCounts?.open ?? 0), overdue: Number(actionCounts?.overdue ?? 0) },
+    now
+  );
+};
+
+// Actions
+
+export const getComplianceActions = async (filters: ComplianceActionFilters = {}): Promise<ComplianceAction[]> => {
+  const now = new Date();
+  const query = database('compliance_actions').orderBy([{ column: 'due_date' }, { column: 'created_at' }]);
+
+  if (filters.assignedTo) {
+    query.where({ assigned_to: filters.assignedTo });
+  }
+  if (filters.checkId) {
+    query.where({ check_id: filters.checkId });
+  }
+  if (filters.status === 'OVERDUE') {
+    query.whereNot('status', 'COMPLETED').where('due_date', '<', now);
+  } else if (filters.status === 'COMPLETED') {
+    query.where({ status: 'COMPLETED' });
+  } else if (filters.status) {
+    query.where({ status: filters.status }).where('due_date', '>=', now);
+  }
+
+  const rows = await query;
+  return rows.map((row: any) => mapActionRow(row, now));
+};
+
+export const getComplianceAction = async (id: string): Promise<ComplianceAction | null> => {
+  const row = await database('compliance_actions').where({ id }).first();
+  return row ? mapActionRow(row) : null;
+};
+
+export const updateComplianceAction = async (id: string, updates: ComplianceActionUpdate): Promise<ComplianceAction> => {
+  const [row] = await database('compliance_actions')
+    .where({ id })
+    .update({
+      ...(updates.status && {
+        status: updates.status,
+        completed_at: updates.status === 'COMPLETED' ? new Date() : null,
+      }),
+      ...(updates.assignedTo && { assigned_to: updates.assignedTo }),
+      ...(updates.notes !== undefined && { notes: updates.notes }),
+      updated_at: new Date(),
+    })
+    .returning('*');
+
+  return mapActionRow(row);
+};
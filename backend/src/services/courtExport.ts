@@ -0,0 +1,667 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import database from '../config/database';
+import {
+  CourtExport,
+  CourtExportAction,
+  CourtExportFormat,
+  CourtExportType,
+  CustodyLedgerEntry,
+  CustodyVerificationResult,
+  ExportAccessLogEntry,
+  ExportCertification,
+  ExportManifest,
+  ExportManifestFile,
+  ExportManifestSignature,
+  LoadFileOptions,
+} from '../types';
+import {
+  CustodySigningKey,
+  CustodyVerificationKey,
+  getCustodyLedger,
+  getCustodySigningKey,
+  getCustodyVerificationKeys,
+  signEntryHash,
+  verifyCustodyChain,
+} from './custodyLedger';
+import { decryptFile, encryptFile, generateSecureToken } from '../utils/encryption';
+import { createZipArchive, ZipEntry } from '../utils/zipArchive';
+import { buildLoadFileProduction, DEFAULT_EXPORT_FIELD_MAP } from './loadFile';
+
+export const EXPORT_STANDARDS = ['Fed. R. Evid. 901(b)(9)', 'Fed. R. Evid. 902(13)', 'Fed. R. Evid. 902(14)'];
+
+export interface CourtExportRequest {
+  caseId: string;
+  exportType: CourtExportType;
+  format: CourtExportFormat;
+  evidenceIds: string[];
+  includeChainOfCustody: boolean;
+  includeIntegrityProof: boolean;
+  includeTimeline: boolean;
+  jurisdiction: string;
+  court: string;
+  caseNumber: string;
+  authorizedBy: string;
+  loadFileOptions?: LoadFileOptions;
+  expiresInHours?: number;
+  notes?: string;
+}
+
+export interface ExportParticipant {
+  id: string;
+  email: string;
+}
+
+export interface ExportEvidenceMaterial {
+  evidenceId: string;
+  evidenceType: string;
+  significanceLevel?: number;
+  authenticityVerified: boolean;
+  verifiedBy?: string;
+  verifiedAt?: Date;
+  integrityHash?: string;
+  notes?: string;
+  createdAt: Date;
+  native?: {
+    documentId?: string;
+    filename: string;
+    mimeType?: string;
+    classification?: string;
+    documentDate?: Date;
+    pageCount?: number;
+    content: Buffer;
+  };
+  custodyLedger: CustodyLedgerEntry[];
+}
+
+export interface ExportBundle {
+  archive: Buffer;
+  archiveHash: string;
+  manifest: ExportManifest;
+  certification: ExportCertification;
+  digitalSignature: ExportManifestSignature;
+}
+
+export interface ExportTimelineEvent {
+  occurredAt: Date;
+  evidenceId: string;
+  event: 'EVIDENCE_REGISTERED' | 'CUSTODY_ESTABLISHED' | 'CUSTODY_TRANSFER' | 'AUTHENTICITY_VERIFIED';
+  description: string;
+  actor?: string;
+}
+
+const EXPORTS_DIR = path.join(process.cwd(), 'storage', 'exports');
+
+export const DEFAULT_LOAD_FILE_OPTIONS: LoadFileOptions = {
+  batesPrefix: 'PROD',
+  batesStart: 1,
+  batesDigits: 7,
+  volume: 'VOL001',
+  fieldMap: DEFAULT_EXPORT_FIELD_MAP,
+  dateFormat: 'MM/DD/YYYY',
+};
+
+const sha256 = (data: Buffer | string): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const toJsonBuffer = (value: any): Buffer => Buffer.from(JSON.stringify(value, null, 2), 'utf8');
+
+/**
+ * Make a stored filename safe for use inside the bundle
+ */
+const safeFilename = (filename: string): string =>
+  path.basename(filename).replace(/[^\w.\- ]+/g, '_').slice(0, 200) || 'native';
+
+/**
+ * Hash a download link token; only the hash is persisted
+ */
+export const hashDownloadToken = (token: string): string => sha256(token);
+
+/**
+ * Constant-time comparison of a presented link token with the stored hash
+ */
+export const matchesDownloadToken = (token: string, storedHash?: string | null): boolean => {
+  if (!token || !storedHash) {
+    return false;
+  }
+  const presented = Buffer.from(hashDownloadToken(token), 'hex');
+  const expected = Buffer.from(storedHash, 'hex');
+  return presented.length === expected.length && crypto.timingSafeEqual(presented, expected);
+};
+
+/**
+ * Merge registration, custody and verification events of all exported items into one timeline
+ */
+export const buildExportTimeline = (materials: ExportEvidenceMaterial[]): ExportTimelineEvent[] => {
+  const events: ExportTimelineEvent[] = [];
+
+  for (const material of materials) {
+    events.push({
+      occurredAt: material.createdAt,
+      evidenceId: material.evidenceId,
+      event: 'EVIDENCE_REGISTERED',
+      description: `${material.evidenceType} evidence registered`,
+    });
+
+    for (const entry of material.custodyLedger) {
+      events.push({
+        occurredAt: entry.receivedAt,
+        evidenceId: material.evidenceId,
+        event: entry.sequenceNumber === 0 ? 'CUSTODY_ESTABLISHED' : 'CUSTODY_TRANSFER',
+        description: `${entry.custodianName || entry.custodian} took custody at ${entry.storageLocation}` +
+          (entry.reasonDescription ? ` (${entry.reasonDescription})` : ''),
+        ...(entry.recordedBy && { actor: entry.recordedBy }),
+      });
+    }
+
+    if (material.authenticityVerified && material.verifiedAt) {
+      events.push({
+        occurredAt: material.verifiedAt,
+        evidenceId: material.evidenceId,
+        event: 'AUTHENTICITY_VERIFIED',
+        description: 'Authenticity verified',
+        ...(material.verifiedBy && { actor: material.verifiedBy }),
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+};
+
+const buildCertificationText = (
+  exportRecord: Pick<CourtExport, 'id' | 'exportType' | 'court' | 'caseNumber' | 'jurisdiction'>,
+  certifier: ExportParticipant,
+  authorizer: ExportParticipant,
+  certifiedAt: Date,
+  itemCount: number,
+  problems: string[],
+  keyFingerprint: string
+): string => {
+  const lines = [
+    'CERTIFICATION OF AUTHENTICITY',
+    '',
+    `Court: ${exportRecord.court}`,
+    `Case number: ${exportRecord.caseNumber}`,
+    `Jurisdiction: ${exportRecord.jurisdiction}`,
+    `Production: ${exportRecord.exportType} (${exportRecord.id})`,
+    '',
+    `I, ${certifier.email}, certify that:`,
+    '',
+    `1. The ${itemCount} evidence item(s) listed in manifest.json were produced from the evidence repository ` +
+      `of the case management system on ${certifiedAt.toISOString()}.`,
+    '2. Each file in this production is identified by the SHA-256 hash recorded in manifest.json. The manifest ' +
+      `is signed with the server custody key (SHA-256 fingerprint ${keyFingerprint}); the signature and public ` +
+      'key are provided in manifest.sig.json.',
+  ];
+
+  if (problems.length === 0) {
+    lines.push(
+      '3. Every native file matches the integrity hash recorded when the evidence was registered, and the ' +
+        'signed custody ledger of every item verified without a broken link.'
+    );
+  } else {
+    lines.push('3. The following exceptions were found while preparing this production:');
+    problems.forEach(problem => lines.push(`   - ${problem}`));
+  }
+
+  lines.push(
+    '',
+    `Production authorized by: ${authorizer.email}`,
+    `Prepared in accordance with: ${EXPORT_STANDARDS.join('; ')}`,
+    '',
+    `Certified by: ${certifier.email}`,
+    `Date: ${certifiedAt.toISOString()}`,
+    ''
+  );
+
+  return lines.join('\n');
+};
+
+/**
+ * Assemble the production bundle (natives, custody reports, integrity proofs, timeline,
+ * certification page) with a manifest signed by the server custody key. Custody ledgers
+ * are checked against verificationKeys, which include keys retired by rotation.
+ */
+export const assembleExportBundle = (
+  exportRecord: Pick<CourtExport, 'id' | 'caseId' | 'caseNumber' | 'court' | 'jurisdiction' | 'exportType' | 'format' |
+    'includeChainOfCustody' | 'includeIntegrityProof' | 'includeTimeline' | 'loadFileOptions'>,
+  materials: ExportEvidenceMaterial[],
+  certifier: ExportParticipant,
+  authorizer: ExportParticipant,
+  key: CustodySigningKey,
+  verificationKeys: CustodyVerificationKey[] = [key]
+): ExportBundle => {
+  const generatedAt = new Date();
+  const entries: Array<ZipEntry & Omit<ExportManifestFile, 'path' | 'sha256' | 'size'>> = [];
+  const problems: string[] = [];
+  let integrityVerified = true;
+  let completenessVerified = true;
+
+  for (const material of materials) {
+    const custodyVerification: CustodyVerificationResult = verifyCustodyChain(
+      material.evidenceId,
+      material.custodyLedger,
+      verificationKeys
+    );
+    const computedHash = material.native ? sha256(material.native.content) : undefined;
+    const hashMatches = computedHash !== undefined && computedHash === material.integrityHash;
+
+    if (!custodyVerification.valid) {
+      integrityVerified = false;
+      problems.push(`Evidence ${material.evidenceId}: custody ledger broken at entry ` +
+        `${custodyVerification.firstBrokenLink?.sequenceNumber} (${custodyVerification.firstBrokenLink?.reason})`);
+    }
+
+    if (exportRecord.format === 'NATIVE' || exportRecord.format === 'LOAD_FILE') {
+      if (!material.native) {
+        completenessVerified = false;
+        problems.push(`Evidence ${material.evidenceId}: no native file is associated with this item`);
+      } else {
+        if (!hashMatches) {
+          integrityVerified = false;
+          problems.push(`Evidence ${material.evidenceId}: native file does not match the recorded integrity hash`);
+        }
+      }
+    }
+
+    if (exportRecord.format === 'NATIVE' && material.native) {
+      entries.push({
+        name: `natives/${material.evidenceId}/${safeFilename(material.native.filename)}`,
+        data: material.native.content,
+        evidenceId: material.evidenceId,
+        description: `Native file (${material.native.mimeType || 'application/octet-stream'})`,
+      });
+    }
+
+    if (exportRecord.includeChainOfCustody) {
+      entries.push({
+        name: `chain-of-custody/${material.evidenceId}.json`,
+        data: toJsonBuffer({
+          evidenceId: material.evidenceId,
+          entries: material.custodyLedger,
+          verification: custodyVerification,
+        }),
+        evidenceId: material.evidenceId,
+        description: 'Chain-of-custody report',
+      });
+    }
+
+    if (exportRecord.includeIntegrityProof) {
+      entries.push({
+        name: `integrity/${material.evidenceId}.json`,
+        data: toJsonBuffer({
+          evidenceId: material.evidenceId,
+          hashAlgorithm: 'SHA-256',
+          recordedIntegrityHash: material.integrityHash ?? null,
+          computedHash: computedHash ?? null,
+          hashMatches,
+          authenticityVerified: material.authenticityVerified,
+          verifiedBy: material.verifiedBy ?? null,
+          verifiedAt: material.verifiedAt ?? null,
+          custodyHeadHash: custodyVerification.headHash ?? null,
+          custodyVerification,
+        }),
+        evidenceId: material.evidenceId,
+        description: 'Integrity proof',
+      });
+    }
+  }
+
+  // Load-file productions name natives by Bates number and index them in DAT/OPT files
+  if (exportRecord.format === 'LOAD_FILE') {
+    const production = buildLoadFileProduction(
+      materials.map(material => {
+        const currentCustody = material.custodyLedger[material.custodyLedger.length - 1];
+        const custodian = currentCustody ? currentCustody.custodianName || currentCustody.custodian : undefined;
+        return {
+          evidenceId: material.evidenceId,
+          evidenceType: material.evidenceType,
+          ...(custodian && { custodian }),
+          ...(material.integrityHash && { hash: material.integrityHash }),
+          ...(material.native && {
+            content: material.native.content,
+            fileName: safeFilename(material.native.filename),
+            ...(material.native.documentId && { documentId: material.native.documentId }),
+            ...(material.native.mimeType && { mimeType: material.native.mimeType }),
+            ...(material.native.classification && { classification: material.native.classification }),
+            ...(material.native.documentDate && { dateSent: material.native.documentDate }),
+            ...(material.native.pageCount && { pageCount: material.native.pageCount }),
+          }),
+        };
+      }),
+      exportRecord.loadFileOptions || DEFAULT_LOAD_FILE_OPTIONS
+    );
+    entries.push(...production.files);
+  }
+
+  if (exportRecord.includeTimeline) {
+    entries.push({
+      name: 'timeline.json',
+      data: toJsonBuffer(buildExportTimeline(materials)),
+      description: 'Combined evidence timeline',
+    });
+  }
+
+  const certification: ExportCertification = {
+    certifiedBy: certifier.id,
+    certificationDate: generatedAt,
+    certificationText: buildCertificationText(
+      exportRecord, certifier, authorizer, generatedAt, materials.length, problems, key.fingerprint
+    ),
+    standardsCompliance: EXPORT_STANDARDS,
+    authenticityVerified: materials.every(material => material.authenticityVerified),
+    completenessVerified,
+    integrityVerified,
+  };
+
+  entries.unshift({
+    name: 'certification.txt',
+    data: Buffer.from(certification.certificationText, 'utf8'),
+    description: 'Certification page',
+  });
+
+  const manifest: ExportManifest = {
+    exportId: exportRecord.id,
+    caseId: exportRecord.caseId,
+    caseNumber: exportRecord.caseNumber,
+    court: exportRecord.court,
+    jurisdiction: exportRecord.jurisdiction,
+    exportType: exportRecord.exportType,
+    format: exportRecord.format,
+    generatedAt,
+    generatedBy: certifier.id,
+    evidenceIds: materials.map(material => material.evidenceId),
+    files: entries.map(entry => ({
+      path: entry.name,
+      sha256: sha256(entry.data),
+      size: entry.data.length,
+      ...(entry.evidenceId && { evidenceId: entry.evidenceId }),
+      description: entry.description,
+    })),
+  };
+
+  const manifestData = toJsonBuffer(manifest);
+  const manifestSha256 = sha256(manifestData);
+  const digitalSignature: ExportManifestSignature = {
+    algorithm: key.algorithm,
+    keyFingerprint: key.fingerprint,
+    publicKey: key.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    manifestSha256,
+    signature: signEntryHash(manifestSha256, key),
+    signedAt: generatedAt,
+  };
+
+  const archive = createZipArchive([
+    { name: 'manifest.json', data: manifestData, modifiedAt: generatedAt },
+    { name: 'manifest.sig.json', data: toJsonBuffer(digitalSignature), modifiedAt: generatedAt },
+    ...entries.map(entry => ({ name: entry.name, data: entry.data, modifiedAt: generatedAt })),
+  ]);
+
+  return {
+    archive,
+    archiveHash: sha256(archive),
+    manifest,
+    certification,
+    digitalSignature,
+  };
+};
+
+/**
+ * Load evidence rows, decrypted native files and custody ledgers for an export
+ */
+export const loadExportMaterials = async (
+  evidenceIds: string[],
+  includeNatives: boolean
+): Promise<ExportEvidenceMaterial[]> => {
+  const rows = await database('evidence_items')
+    .leftJoin('documents', 'evidence_items.document_id', 'documents.id')
+    .select([
+      'evidence_items.*',
+      'documents.title as document_title',
+      'documents.original_filename as document_original_filename',
+      'documents.file_path as document_file_path',
+      'documents.mime_type as document_mime_type',
+      'documents.classification as document_classification',
+      'documents.document_date as document_date',
+      'documents.page_count as document_page_count',
+    ])
+    .whereIn('evidence_items.id', evidenceIds);
+
+  const byId = new Map(rows.map((row: any) => [row.id, row]));
+  const materials: ExportEvidenceMaterial[] = [];
+
+  for (const evidenceId of evidenceIds) {
+    const row: any = byId.get(evidenceId);
+    if (!row) {
+      throw new Error(`Evidence item ${evidenceId} not found`);
+    }
+
+    let native: ExportEvidenceMaterial['native'];
+    if (includeNatives && row.document_file_path) {
+      const tempPath = path.join(process.cwd(), 'uploads', 'temp', `${uuidv4()}-export`);
+      try {
+        await decryptFile(row.document_file_path, tempPath);
+        native = {
+          documentId: row.document_id,
+          filename: row.document_original_filename || row.document_title || evidenceId,
+          mimeType: row.document_mime_type ?? undefined,
+          classification: row.document_classification ?? undefined,
+          ...(row.document_date && { documentDate: new Date(row.document_date) }),
+          pageCount: row.document_page_count ?? undefined,
+          content: await fs.readFile(tempPath),
+        };
+      } finally {
+        await fs.rm(tempPath, { force: true });
+      }
+    }
+
+    materials.push({
+      evidenceId,
+      evidenceType: row.evidence_type,
+      significanceLevel: row.significance_level ?? undefined,
+      authenticityVerified: Boolean(row.authenticity_verified),
+      verifiedBy: row.verified_by ?? undefined,
+      ...(row.verified_at && { verifiedAt: new Date(row.verified_at) }),
+      integrityHash: row.integrity_hash ?? undefined,
+      notes: row.notes ?? undefined,
+      createdAt: new Date(row.created_at),
+      ...(native && { native }),
+      custodyLedger: await getCustodyLedger(evidenceId),
+    });
+  }
+
+  return materials;
+};
+
+/**
+ * Map a database row to a CourtExport
+ */
+export const mapExportRow = (row: any): CourtExport => {
+  const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? undefined);
+
+  return {
+    id: row.id,
+    caseId: row.case_id,
+    exportType: row.export_type,
+    format: row.format,
+    evidenceIds: parse(row.evidence_ids) || [],
+    includeChainOfCustody: Boolean(row.include_chain_of_custody),
+    includeIntegrityProof: Boolean(row.include_integrity_proof),
+    includeTimeline: Boolean(row.include_timeline),
+    includeRelationships: Boolean(row.include_relationships),
+    loadFileOptions: parse(row.load_file_options),
+    jurisdiction: row.jurisdiction,
+    court: row.court,
+    caseNumber: row.case_number,
+    requestedBy: row.requested_by,
+    authorizedBy: row.authorized_by,
+    certification: parse(row.certification),
+    digitalSignature: parse(row.digital_signature),
+    manifest: parse(row.manifest),
+    bundleHash: row.bundle_hash ?? undefined,
+    ...(row.bundle_size !== null && row.bundle_size !== undefined && { bundleSize: Number(row.bundle_size) }),
+    status: row.status,
+    failureReason: row.failure_reason ?? undefined,
+    createdAt: new Date(row.created_at),
+    ...(row.completed_at && { completedAt: new Date(row.completed_at) }),
+    expiresAt: new Date(row.expires_at),
+    notes: row.notes ?? undefined,
+  };
+};
+
+const linkExpiry = (expiresInHours?: number): Date => {
+  const hours = expiresInHours || Number(process.env['EXPORT_LINK_TTL_HOURS'] || 72);
+  return new Date(Date.now() + hours * 60 * 60 * 1000);
+};
+
+// The token travels in the request body so it stays out of URLs and request logs
+const downloadUrlFor = (exportId: string): string => `/api/evidence/exports/${exportId}/download`;
+
+/**
+ * Build and store a court export. The returned downloadToken is the only copy of the link token.
+ */
+export const createCourtExport = async (
+  request: CourtExportRequest,
+  requester: ExportParticipant,
+  authorizer: ExportParticipant
+): Promise<CourtExport> => {
+  const token = generateSecureToken(32);
+
+  const [row] = await database('court_exports').insert({
+    case_id: request.caseId,
+    export_type: request.exportType,
+    format: request.format,
+    evidence_ids: JSON.stringify(request.evidenceIds),
+    include_chain_of_custody: request.includeChainOfCustody,
+    include_integrity_proof: request.includeIntegrityProof,
+    include_timeline: request.includeTimeline,
+    include_relationships: false,
+    load_file_options: request.format === 'LOAD_FILE' ?
+      JSON.stringify({ ...DEFAULT_LOAD_FILE_OPTIONS, ...request.loadFileOptions }) : null,
+    jurisdiction: request.jurisdiction,
+    court: request.court,
+    case_number: request.caseNumber,
+    requested_by: requester.id,
+    authorized_by: authorizer.id,
+    download_token_hash: hashDownloadToken(token),
+    expires_at: linkExpiry(request.expiresInHours),
+    status: 'PROCESSING',
+    notes: request.notes ?? null,
+  }).returning('*');
+
+  const exportRecord = mapExportRow(row);
+
+  try {
+    const materials = await loadExportMaterials(request.evidenceIds, request.format !== 'JSON');
+    const bundle = assembleExportBundle(
+      exportRecord, materials, requester, authorizer, getCustodySigningKey(), getCustodyVerificationKeys()
+    );
+
+    // Bundles contain decrypted natives, so they are encrypted at rest like documents
+    await fs.mkdir(EXPORTS_DIR, { recursive: true });
+    const tempPath = path.join(EXPORTS_DIR, `${exportRecord.id}.zip`);
+    await fs.writeFile(tempPath, bundle.archive);
+    const encryptedPath = await encryptFile(tempPath);
+    await fs.rm(tempPath, { force: true });
+
+    const [updated] = await database('court_exports')
+      .where({ id: exportRecord.id })
+      .update({
+        status: 'READY',
+        certification: JSON.stringify(bundle.certification),
+        digital_signature: JSON.stringify(bundle.digitalSignature),
+        manifest: JSON.stringify(bundle.manifest),
+        bundle_path: encryptedPath,
+        bundle_hash: bundle.archiveHash,
+        bundle_size: bundle.archive.length,
+        completed_at: new Date(),
+      })
+      .returning('*');
+
+    return { ...mapExportRow(updated), downloadUrl: downloadUrlFor(exportRecord.id), downloadToken: token };
+  } catch (error) {
+    await database('court_exports')
+      .where({ id: exportRecord.id })
+      .update({
+        status: 'FAILED',
+        failure_reason: error instanceof Error ? error.message : String(error),
+      });
+    throw error;
+  }
+};
+
+/**
+ * Replace the download link of an export; any previously issued link stops working
+ */
+export const issueDownloadLink = async (
+  exportId: string,
+  expiresInHours?: number
+): Promise<{ downloadUrl: string; downloadToken: string; expiresAt: Date }> => {
+  const token = generateSecureToken(32);
+  const expiresAt = linkExpiry(expiresInHours);
+
+  await database('court_exports')
+    .where({ id: exportId })
+    .update({
+      download_token_hash: hashDownloadToken(token),
+      expires_at: expiresAt,
+      status: database.raw(`CASE WHEN status = 'EXPIRED' THEN 'READY' ELSE status END`),
+    });
+
+  return { downloadUrl: downloadUrlFor(exportId), downloadToken: token, expiresAt };
+};
+
+/**
+ * Decrypt an export bundle to a temporary file; the caller removes it after sending
+ */
+export const decryptExportBundle = async (bundlePath: string): Promise<string> => {
+  const tempDir = path.join(process.cwd(), 'uploads', 'temp');
+  await fs.mkdir(tempDir, { recursive: true });
+
+  const tempPath = path.join(tempDir, `${uuidv4()}.zip`);
+  await decryptFile(bundlePath, tempPath);
+  return tempPath;
+};
+
+/**
+ * Record an access to an export
+ */
+export const recordExportAccess = async (
+  exportId: string,
+  action: CourtExportAction,
+  success: boolean,
+  details: { accessedBy?: string; ipAddress?: string | undefined; userAgent?: string | undefined; notes?: string } = {}
+): Promise<void> => {
+  await database('court_export_access_log').insert({
+    export_id: exportId,
+    accessed_by: details.accessedBy ?? null,
+    ip_address: details.ipAddress ?? null,
+    user_agent: details.userAgent ?? null,
+    action,
+    success,
+    notes: details.notes ?? null,
+  });
+};
+
+/**
+ * Get the access log of an export, newest first
+ */
+export const getExportAccessLog = async (exportId: string): Promise<ExportAccessLogEntry[]> => {
+  const rows = await database('court_export_access_log')
+    .select('*')
+    .where({ export_id: exportId })
+    .orderBy('accessed_at', 'desc');
+
+  return rows.map((row: any) => ({
+    id: row.id,
+    exportId: row.export_id,
+    accessedBy: row.accessed_by ?? undefined,
+    accessedAt: new Date(row.accessed_at),
+    ipAddress: row.ip_address ?? undefined,
+    userAgent: row.user_agent ?? undefined,
+    action: row.action,
+    success: Boolean(row.success),
+    notes: row.notes ?? undefined,
+  }));
+};
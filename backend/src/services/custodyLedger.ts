@@ -0,0 +1,420 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Knex } from 'knex';
+import database from '../config/database';
+import {
+  CustodyLedgerEntry,
+  CustodyChainBreak,
+  CustodyVerificationResult,
+  CustodyTransferReason,
+  CustodyTransferMethod,
+  CustodyPurpose,
+} from '../types';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface CustodyEntryInput {
+  custodian: string;
+  custodianName?: string;
+  custodianOrganization?: string;
+  transferredFrom?: string;
+  transferredTo?: string;
+  transferReason: CustodyTransferReason;
+  transferMethod: CustodyTransferMethod;
+  purpose: CustodyPurpose;
+  reasonDescription?: string;
+  receivedAt?: Date;
+  storageLocation: string;
+  storageConditions?: Record<string, any>;
+  conditionOnReceipt?: string;
+  integrityVerified?: boolean;
+  integrityNotes?: string;
+  notes?: string;
+  recordedBy?: string;
+}
+
+export interface CustodySigningKey {
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  algorithm: string;
+  fingerprint: string;
+}
+
+export type CustodyVerificationKey = Pick<CustodySigningKey, 'publicKey' | 'fingerprint'>;
+
+// Everything except the hash, signature and storage bookkeeping is covered by the entry hash
+type HashedCustodyFields = {
+  [K in keyof Omit<CustodyLedgerEntry, 'id' | 'entryHash' | 'signature' | 'signatureAlgorithm' | 'signingKeyFingerprint' | 'createdAt'>]:
+    CustodyLedgerEntry[K] | undefined;
+};
+
+let cachedSigningKey: CustodySigningKey | null = null;
+let cachedVerificationKeys: CustodyVerificationKey[] | null = null;
+
+/**
+ * Deterministic JSON serialization (sorted keys, ISO dates) so hashes
+ * survive JSONB key reordering in PostgreSQL
+ */
+export const canonicalize = (value: any): string => {
+  if (value === undefined || value === null) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Build a signing key descriptor from a private key
+ */
+export const signingKeyFromPrivateKey = (privateKey: crypto.KeyObject): CustodySigningKey => {
+  const publicKey = crypto.createPublicKey(privateKey);
+  const spki = publicKey.export({ type: 'spki', format: 'der' });
+
+  let algorithm: string;
+  switch (privateKey.asymmetricKeyType) {
+    case 'ed25519':
+      algorithm = 'Ed25519';
+      break;
+    case 'rsa':
+      algorithm = 'RSA-SHA256';
+      break;
+    case 'ec':
+      algorithm = 'ECDSA-SHA256';
+      break;
+    default:
+      throw new Error(`Unsupported custody signing key type: ${privateKey.asymmetricKeyType}`);
+  }
+
+  return {
+    privateKey,
+    publicKey,
+    algorithm,
+    fingerprint: crypto.createHash('sha256').update(spki).digest('hex'),
+  };
+};
+
+/**
+ * Build a signing key descriptor from a PEM private key
+ */
+export const loadSigningKey = (privateKeyPem: string): CustodySigningKey =>
+  signingKeyFromPrivateKey(crypto.createPrivateKey(privateKeyPem));
+
+/**
+ * Get the server custody signing key (PEM file referenced by CUSTODY_SIGNING_KEY_PATH)
+ */
+export const getCustodySigningKey = (): CustodySigningKey => {
+  if (cachedSigningKey) {
+    return cachedSigningKey;
+  }
+
+  const keyPath = process.env['CUSTODY_SIGNING_KEY_PATH'];
+  if (!keyPath) {
+    throw new Error('CUSTODY_SIGNING_KEY_PATH environment variable is required');
+  }
+
+  cachedSigningKey = loadSigningKey(fs.readFileSync(keyPath, 'utf8'));
+  return cachedSigningKey;
+};
+
+/**
+ * Keys custody entries may be signed with: the current server key plus the keys it
+ * replaced (PEM public or private keys listed in CUSTODY_RETIRED_KEY_PATHS, comma separated),
+ * so entries signed before a key rotation still verify
+ */
+export const getCustodyVerificationKeys = (): CustodyVerificationKey[] => {
+  if (cachedVerificationKeys) {
+    return cachedVerificationKeys;
+  }
+
+  const retired = (process.env['CUSTODY_RETIRED_KEY_PATHS'] || '')
+    .split(',')
+    .map(keyPath => keyPath.trim())
+    .filter(Boolean)
+    .map(keyPath => {
+      const publicKey = crypto.createPublicKey(fs.readFileSync(keyPath, 'utf8'));
+      const spki = publicKey.export({ type: 'spki', format: 'der' });
+      return { publicKey, fingerprint: crypto.createHash('sha256').update(spki).digest('hex') };
+    });
+
+  cachedVerificationKeys = [getCustodySigningKey(), ...retired];
+  return cachedVerificationKeys;
+};
+
+const digestFor = (algorithm: string): string | null => (algorithm === 'Ed25519' ? null : 'sha256');
+
+/**
+ * Compute the hash of a custody entry; covers every persisted field plus the previous link
+ */
+export const computeEntryHash = (entry: HashedCustodyFields): string => {
+  const payload = canonicalize({
+    evidenceId: entry.evidenceId,
+    sequenceNumber: entry.sequenceNumber,
+    custodian: entry.custodian,
+    custodianName: entry.custodianName ?? null,
+    custodianOrganization: entry.custodianOrganization ?? null,
+    transferredFrom: entry.transferredFrom ?? null,
+    transferredTo: entry.transferredTo ?? null,
+    transferReason: entry.transferReason,
+    transferMethod: entry.transferMethod,
+    purpose: entry.purpose,
+    reasonDescription: entry.reasonDescription ?? null,
+    receivedAt: entry.receivedAt,
+    storageLocation: entry.storageLocation,
+    storageConditions: entry.storageConditions ?? null,
+    conditionOnReceipt: entry.conditionOnReceipt ?? null,
+    integrityVerified: entry.integrityVerified,
+    integrityNotes: entry.integrityNotes ?? null,
+    evidenceIntegrityHash: entry.evidenceIntegrityHash ?? null,
+    notes: entry.notes ?? null,
+    recordedBy: entry.recordedBy ?? null,
+    previousHash: entry.previousHash,
+  });
+
+  return crypto.createHash('sha256').update(payload).digest('hex');
+};
+
+/**
+ * Sign an entry hash with the server custody key
+ */
+export const signEntryHash = (entryHash: string, key: CustodySigningKey): string => {
+  return crypto
+    .sign(digestFor(key.algorithm), Buffer.from(entryHash, 'hex'), key.privateKey)
+    .toString('base64');
+};
+
+/**
+ * Verify an entry signature against a public key
+ */
+export const verifyEntrySignature = (
+  entryHash: string,
+  signature: string,
+  algorithm: string,
+  publicKey: crypto.KeyObject
+): boolean => {
+  try {
+    return crypto.verify(
+      digestFor(algorithm),
+      Buffer.from(entryHash, 'hex'),
+      publicKey,
+      Buffer.from(signature, 'base64')
+    );
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Map a database row to a CustodyLedgerEntry
+ */
+export const mapLedgerRow = (row: any): CustodyLedgerEntry => ({
+  id: row.id,
+  evidenceId: row.evidence_id,
+  sequenceNumber: Number(row.sequence_number),
+  custodian: row.custodian,
+  custodianName: row.custodian_name ?? undefined,
+  custodianOrganization: row.custodian_organization ?? undefined,
+  transferredFrom: row.transferred_from ?? undefined,
+  transferredTo: row.transferred_to ?? undefined,
+  transferReason: row.transfer_reason,
+  transferMethod: row.transfer_method,
+  purpose: row.purpose,
+  reasonDescription: row.reason_description ?? undefined,
+  receivedAt: new Date(row.received_at),
+  storageLocation: row.storage_location,
+  storageConditions: typeof row.storage_conditions === 'string' ?
+    JSON.parse(row.storage_conditions) : row.storage_conditions ?? undefined,
+  conditionOnReceipt: row.condition_on_receipt ?? undefined,
+  integrityVerified: Boolean(row.integrity_verified),
+  integrityNotes: row.integrity_notes ?? undefined,
+  evidenceIntegrityHash: row.evidence_integrity_hash ?? undefined,
+  notes: row.notes ?? undefined,
+  recordedBy: row.recorded_by ?? undefined,
+  previousHash: row.previous_hash,
+  entryHash: row.entry_hash,
+  signature: row.signature,
+  signatureAlgorithm: row.signature_algorithm,
+  signingKeyFingerprint: row.signing_key_fingerprint,
+  createdAt: new Date(row.created_at),
+});
+
+/**
+ * Append a signed entry to an evidence item's custody ledger.
+ * Must run inside a transaction; the evidence row is locked so concurrent
+ * transfers cannot fork the chain.
+ */
+export const appendCustodyEntry = async (
+  trx: Knex.Transaction,
+  evidenceId: string,
+  input: CustodyEntryInput
+): Promise<CustodyLedgerEntry> => {
+  const key = getCustodySigningKey();
+
+  const evidence = await trx('evidence_items')
+    .select('id', 'integrity_hash')
+    .where({ id: evidenceId })
+    .forUpdate()
+    .first();
+
+  if (!evidence) {
+    throw new Error(`Evidence item ${evidenceId} not found`);
+  }
+
+  const head = await trx('evidence_custody_ledger')
+    .select('sequence_number', 'entry_hash')
+    .where({ evidence_id: evidenceId })
+    .orderBy('sequence_number', 'desc')
+    .first();
+
+  const unsigned = {
+    evidenceId,
+    sequenceNumber: head ? Number(head.sequence_number) + 1 : 0,
+    custodian: input.custodian,
+    custodianName: input.custodianName,
+    custodianOrganization: input.custodianOrganization,
+    transferredFrom: input.transferredFrom,
+    transferredTo: input.transferredTo,
+    transferReason: input.transferReason,
+    transferMethod: input.transferMethod,
+    purpose: input.purpose,
+    reasonDescription: input.reasonDescription,
+    receivedAt: input.receivedAt || new Date(),
+    storageLocation: input.storageLocation,
+    storageConditions: input.storageConditions,
+    conditionOnReceipt: input.conditionOnReceipt,
+    integrityVerified: input.integrityVerified ?? false,
+    integrityNotes: input.integrityNotes,
+    evidenceIntegrityHash: evidence.integrity_hash ?? undefined,
+    notes: input.notes,
+    recordedBy: input.recordedBy,
+    previousHash: head ? head.entry_hash : GENESIS_HASH,
+  };
+
+  const entryHash = computeEntryHash(unsigned);
+  const signature = signEntryHash(entryHash, key);
+
+  const [row] = await trx('evidence_custody_ledger').insert({
+    evidence_id: unsigned.evidenceId,
+    sequence_number: unsigned.sequenceNumber,
+    custodian: unsigned.custodian,
+    custodian_name: unsigned.custodianName ?? null,
+    custodian_organization: unsigned.custodianOrganization ?? null,
+    transferred_from: unsigned.transferredFrom ?? null,
+    transferred_to: unsigned.transferredTo ?? null,
+    transfer_reason: unsigned.transferReason,
+    transfer_method: unsigned.transferMethod,
+    purpose: unsigned.purpose,
+    reason_description: unsigned.reasonDescription ?? null,
+    received_at: unsigned.receivedAt,
+    storage_location: unsigned.storageLocation,
+    storage_conditions: unsigned.storageConditions ? JSON.stringify(unsigned.storageConditions) : null,
+    condition_on_receipt: unsigned.conditionOnReceipt ?? null,
+    integrity_verified: unsigned.integrityVerified,
+    integrity_notes: unsigned.integrityNotes ?? null,
+    evidence_integrity_hash: unsigned.evidenceIntegrityHash ?? null,
+    notes: unsigned.notes ?? null,
+    recorded_by: unsigned.recordedBy ?? null,
+    previous_hash: unsigned.previousHash,
+    entry_hash: entryHash,
+    signature,
+    signature_algorithm: key.algorithm,
+    signing_key_fingerprint: key.fingerprint,
+  }).returning('*');
+
+  return mapLedgerRow(row);
+};
+
+/**
+ * Get the full custody ledger for an evidence item, oldest first
+ */
+export const getCustodyLedger = async (
+  evidenceId: string,
+  db: Knex = database
+): Promise<CustodyLedgerEntry[]> => {
+  const rows = await db('evidence_custody_ledger')
+    .select('*')
+    .where({ evidence_id: evidenceId })
+    .orderBy('sequence_number', 'asc');
+
+  return rows.map(mapLedgerRow);
+};
+
+/**
+ * Walk a custody chain and report the first broken link. Each entry is verified
+ * against the key matching its recorded fingerprint.
+ * Entries must be ordered by sequence number.
+ */
+export const verifyCustodyChain = (
+  evidenceId: string,
+  entries: CustodyLedgerEntry[],
+  keys: CustodyVerificationKey | CustodyVerificationKey[]
+): CustodyVerificationResult => {
+  const keysByFingerprint = new Map((Array.isArray(keys) ? keys : [keys]).map(key => [key.fingerprint, key]));
+  let previousHash = GENESIS_HASH;
+  let firstBrokenLink: CustodyChainBreak | undefined;
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index]!;
+    const brokenLink = (reason: CustodyChainBreak['reason'], message: string): CustodyChainBreak => ({
+      sequenceNumber: entry.sequenceNumber,
+      entryId: entry.id,
+      reason,
+      message,
+    });
+
+    if (entry.sequenceNumber !== index) {
+      firstBrokenLink = brokenLink('SEQUENCE_GAP', `Expected sequence number ${index}, found ${entry.sequenceNumber}`);
+      break;
+    }
+
+    if (entry.previousHash !== previousHash) {
+      firstBrokenLink = brokenLink('PREVIOUS_HASH_MISMATCH', 'Entry does not reference the hash of the preceding entry');
+      break;
+    }
+
+    if (computeEntryHash(entry) !== entry.entryHash) {
+      firstBrokenLink = brokenLink('ENTRY_HASH_MISMATCH', 'Entry contents do not match the recorded entry hash');
+      break;
+    }
+
+    const key = keysByFingerprint.get(entry.signingKeyFingerprint);
+    if (!key) {
+      firstBrokenLink = brokenLink('UNKNOWN_SIGNING_KEY', `Entry signed by unrecognised key ${entry.signingKeyFingerprint}`);
+      break;
+    }
+
+    if (!verifyEntrySignature(entry.entryHash, entry.signature, entry.signatureAlgorithm, key.publicKey)) {
+      firstBrokenLink = brokenLink('SIGNATURE_INVALID', 'Server signature does not verify for this entry');
+      break;
+    }
+
+    previousHash = entry.entryHash;
+  }
+
+  const lastEntry = entries[entries.length - 1];
+
+  return {
+    evidenceId,
+    valid: !firstBrokenLink,
+    entriesChecked: entries.length,
+    ...(lastEntry && { headHash: lastEntry.entryHash }),
+    ...(firstBrokenLink && { firstBrokenLink }),
+    verifiedAt: new Date(),
+  };
+};
+
+/**
+ * Load and verify the custody ledger of an evidence item against the server keys
+ */
+export const verifyEvidenceCustody = async (evidenceId: string): Promise<CustodyVerificationResult> => {
+  const entries = await getCustodyLedger(evidenceId);
+  return verifyCustodyChain(evidenceId, entries, getCustodyVerificationKeys());
+};
@@ -0,0 +1,607 @@
+import { Knex } from 'knex';
+import database from '../config/database';
+import {
+  BatchFailure,
+  BatchItemResult,
+  BatchItemStatus,
+  BatchOperationStatus,
+  ChainOfCustodyEntry,
+  CustodyPurpose,
+  CustodyTransferMethod,
+  CustodyTransferReason,
+  Document,
+  EvidenceBatchOperation,
+  EvidenceBatchProgress,
+  EvidenceBatchReport,
+  EvidenceBatchType,
+  EvidenceSearchQuery,
+} from '../types';
+import { appendCustodyEntry } from './custodyLedger';
+import { DISPOSITION_TRANSFER_REASONS } from './evidenceDisposition';
+import { findEvidenceIds, normalizeSearchTerms, SearchAccess } from './evidenceSearch';
+import { checkIntegrityItem } from './integritySweep';
+import { getActiveHolds, placeManualHold, releaseManualHold } from './legalHold';
+import {
+  countLocationItems,
+  getActiveSeals,
+  getPhysicalEvidence,
+  getStorageLocation,
+  moveToLocation,
+  recordSealHandOff,
+} from './physicalEvidence';
+import { logCustodyEntry } from './transparencyLog';
+
+export const BATCH_TYPES: EvidenceBatchType[] = [
+  'TRANSFER_CUSTODY',
+  'UPDATE_CLASSIFICATION',
+  'APPLY_LEGAL_HOLD',
+  'REMOVE_LEGAL_HOLD',
+  'VERIFY_INTEGRITY',
+  'UPDATE_METADATA',
+];
+
+export const MAX_BATCH_ITEMS = 5000;
+const ITEM_PAGE_SIZE = 100;
+const INSERT_CHUNK_SIZE = 500;
+
+const FINISHED_STATUSES: BatchOperationStatus[] = ['COMPLETED', 'PARTIAL', 'FAILED', 'CANCELLED'];
+
+export interface TransferCustodyParameters {
+  toUser: string;
+  reason: string;
+  location: string;
+  transferReason?: CustodyTransferReason;
+  transferMethod?: CustodyTransferMethod;
+  purpose?: CustodyPurpose;
+  custodianOrganization?: string;
+  storageConditions?: Record<string, any>;
+  conditionOnReceipt?: string;
+  notes?: string;
+  storageLocationId?: string | null; // Physical items only; digital items are transferred without it
+  sealsIntact?: boolean; // The person transferring attests every active seal is intact
+}
+
+export interface MetadataChanges {
+  addTags?: string[];
+  removeTags?: string[];
+  addKeywords?: string[];
+  removeKeywords?: string[];
+  addStatutes?: string[];
+  removeStatutes?: string[];
+}
+
+export type MetadataLists = Record<'tags' | 'keywords' | 'statutes', string[]>;
+
+export interface EvidenceBatchInput {
+  type: EvidenceBatchType;
+  parameters: Record<string, any>;
+  evidenceIds?: string[];
+  selection?: Partial<EvidenceSearchQuery>;
+  notes?: string;
+}
+
+export type BatchItemOutcome =
+  | { status: 'SUCCEEDED'; details?: Record<string, any> }
+  | { status: 'FAILED'; errorCode: string; error: string; details?: Record<string, any> };
+
+type ItemHandler = (evidence: any, parameters: Record<string, any>, userId: string) => Promise<BatchItemOutcome>;
+
+const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? undefined);
+
+const failure = (errorCode: string, error: string, details?: Record<string, any>): BatchItemOutcome => ({
+  status: 'FAILED',
+  errorCode,
+  error,
+  ...(details && { details }),
+});
+
+/**
+ * Whole-number percentage of items processed; an empty batch is complete
+ */
+export const batchProgress = (processed: number, total: number): number =>
+  total === 0 ? 100 : Math.floor((processed / total) * 100);
+
+/**
+ * Final status once every item has been attempted
+ */
+export const finalBatchStatus = (succeeded: number, failed: number): BatchOperationStatus =>
+  failed === 0 ? 'COMPLETED' : succeeded === 0 ? 'FAILED' : 'PARTIAL';
+
+/**
+ * Apply tag, keyword and statute additions and removals. Additions are
+ * normalised like terms entered at creation; removals ignore case.
+ * Returns only the lists that changed.
+ */
+export const applyMetadataChanges = (current: MetadataLists, changes: MetadataChanges): Partial<MetadataLists> => {
+  const lists: { field: keyof MetadataLists; add: string[] | undefined; remove: string[] | undefined }[] = [
+    { field: 'tags', add: changes.addTags, remove: changes.removeTags },
+    { field: 'keywords', add: changes.addKeywords, remove: changes.removeKeywords },
+    { field: 'statutes', add: changes.addStatutes, remove: changes.removeStatutes },
+  ];
+  const updated: Partial<MetadataLists> = {};
+
+  for (const { field, add = [], remove = [] } of lists) {
+    const removed = new Set(remove.map(value => value.trim().toLowerCase()));
+    const next = normalizeSearchTerms([...current[field], ...add])
+      .filter(value => !removed.has(value.toLowerCase()));
+
+    if (next.length !== current[field].length || next.some((value, index) => value !== current[field][index])) {
+      updated[field] = next;
+    }
+  }
+
+  return updated;
+};
+
+export const mapBatchItemRow = (row: any): BatchItemResult => ({
+  evidenceId: row.evidence_id,
+  sequence: row.sequence,
+  status: row.status,
+  ...(row.error_code && { errorCode: row.error_code }),
+  ...(row.error && { error: row.error }),
+  ...(row.details && { details: parseJson(row.details) }),
+  ...(row.processed_at && { processedAt: new Date(row.processed_at) }),
+});
+
+export const mapBatchRow = (row: any, items: BatchItemResult[] = []): EvidenceBatchOperation => ({
+  id: row.id,
+  type: row.type,
+  evidenceIds: items.map(item => item.evidenceId),
+  parameters: parseJson(row.parameters),
+  ...(row.selection && { selection: parseJson(row.selection) }),
+  status: row.status,
+  progress: batchProgress(row.processed_items, row.total_items),
+  processed: row.processed_items,
+  successful: items.filter(item => item.status === 'SUCCEEDED').map(item => item.evidenceId),
+  failed: items
+    .filter(item => item.status === 'FAILED')
+    .map((item): BatchFailure => ({
+      evidenceId: item.evidenceId,
+      errorCode: item.errorCode ?? 'UNKNOWN',
+      error: item.error ?? '',
+      ...(item.details && { details: item.details }),
+    })),
+  skipped: items.filter(item => item.status === 'SKIPPED').map(item => item.evidenceId),
+  requestedBy: row.requested_by,
+  requestedAt: new Date(row.requested_at),
+  ...(row.started_at && { startedAt: new Date(row.started_at) }),
+  ...(row.completed_at && { completedAt: new Date(row.completed_at) }),
+  ...(row.cancelled_by && { cancelledBy: row.cancelled_by }),
+  ...(row.failure_reason && { failureReason: row.failure_reason }),
+  ...(row.notes && { notes: row.notes }),
+});
+
+const csvField = (value: unknown): string => {
+  const text = value instanceof Date ? value.toISOString() : value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Flatten a batch report to CSV, one row per targeted item in processing order
+ */
+export const batchReportToCsv = (report: EvidenceBatchReport): string => {
+  const header = ['Sequence', 'Evidence ID', 'Status', 'Error Code', 'Error', 'Details', 'Processed At'];
+  const rows = report.items.map(item => [
+    item.sequence,
+    item.evidenceId,
+    item.status,
+    item.errorCode,
+    item.error,
+    item.details ? JSON.stringify(item.details) : '',
+    item.processedAt,
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// Item handlers. Each item runs on its own, so one failure never undoes another item.
+
+const transferCustody: ItemHandler = async (evidence, parameters, userId) => {
+  const input = parameters as TransferCustodyParameters;
+
+  if (evidence.status === 'DESTROYED') {
+    return failure('EVIDENCE_DESTROYED', 'Destroyed evidence cannot change custody');
+  }
+  if (evidence.status === 'RETURNED') {
+    return failure('EVIDENCE_RETURNED', 'Evidence returned to its owner cannot change custody');
+  }
+  if (input.transferReason && DISPOSITION_TRANSFER_REASONS.includes(input.transferReason)) {
+    return failure('DISPOSITION_REQUIRED', 'Destruction and return to owner are recorded through an approved disposition request');
+  }
+
+  const physical = await getPhysicalEvidence(evidence.id);
+  const activeSeals = physical ? await getActiveSeals(physical.evidenceId) : [];
+
+  if (activeSeals.length > 0 && !input.sealsIntact) {
+    return failure('SEAL_CHECK_REQUIRED', 'Item has active seals; attest they are intact or transfer it individually', {
+      sealNumbers: activeSeals.map(seal => seal.sealNumber),
+    });
+  }
+
+  const storageLocationId = physical ? input.storageLocationId ?? null : undefined;
+  if (physical && storageLocationId && storageLocationId !== physical.storageLocationId) {
+    const location = await getStorageLocation(storageLocationId);
+    if (location?.capacity && await countLocationItems(storageLocationId) >= location.capacity) {
+      return failure('LOCATION_FULL', 'Storage location is at capacity');
+    }
+  }
+
+  const recipient = await database('users').select('id', 'email').where({ id: input.toUser }).first();
+  const chainOfCustody: ChainOfCustodyEntry[] = parseJson(evidence.chain_of_custody) || [];
+  const transferEntry: ChainOfCustodyEntry = {
+    fromUser: userId,
+    toUser: input.toUser,
+    transferredAt: new Date(),
+    reason: input.reason,
+    location: input.location,
+  };
+  chainOfCustody.push(transferEntry);
+
+  // Same ledger steps as a single transfer, with every seal recorded as intact
+  const entry = await database.transaction(async (trx: Knex.Transaction) => {
+    const entry = await appendCustodyEntry(trx, evidence.id, {
+      custodian: input.toUser,
+      custodianName: recipient?.email,
+      ...(input.custodianOrganization && { custodianOrganization: input.custodianOrganization }),
+      transferredFrom: userId,
+      transferredTo: input.toUser,
+      transferReason: input.transferReason ?? 'OTHER',
+      transferMethod: input.transferMethod ?? 'HAND_DELIVERY',
+      purpose: input.purpose ?? 'STORAGE',
+      reasonDescription: input.reason,
+      receivedAt: transferEntry.transferredAt,
+      storageLocation: input.location,
+      ...(input.storageConditions && { storageConditions: input.storageConditions }),
+      ...(input.conditionOnReceipt && { conditionOnReceipt: input.conditionOnReceipt }),
+      ...(input.notes && { notes: input.notes }),
+      recordedBy: userId,
+    });
+
+    if (physical) {
+      const checks = activeSeals.map(seal => ({ sealNumber: seal.sealNumber, condition: 'INTACT' as const }));
+      await recordSealHandOff(trx, physical.evidenceId, entry.id, userId, checks, []);
+      await moveToLocation(trx, physical.evidenceId, storageLocationId ?? null);
+    }
+
+    await trx('evidence_items')
+      .where({ id: evidence.id })
+      .update({ chain_of_custody: JSON.stringify(chainOfCustody) });
+
+    await logCustodyEntry(trx, entry);
+
+    return entry;
+  });
+
+  return {
+    status: 'SUCCEEDED',
+    details: {
+      custodyEntryId: entry.id,
+      custodyEntryHash: entry.entryHash,
+      ...(activeSeals.length > 0 && { sealsInspected: activeSeals.map(seal => seal.sealNumber) }),
+    },
+  };
+};
+
+const updateClassification: ItemHandler = async (evidence, parameters) => {
+  const classification = parameters['classification'] as Document['classification'];
+
+  if (evidence.classification === classification) {
+    return { status: 'SUCCEEDED', details: { unchanged: true } };
+  }
+
+  await database('evidence_items')
+    .where({ id: evidence.id })
+    .update({ classification, updated_at: new Date() });
+
+  return { status: 'SUCCEEDED', details: { from: evidence.classification, to: classification } };
+};
+
+const applyLegalHold: ItemHandler = async (evidence, parameters, userId) => {
+  const hold = await placeManualHold(parameters['orderId'], 'evidence', evidence.id, userId);
+  return { status: 'SUCCEEDED', details: { holdId: hold.id } };
+};
+
+const removeLegalHold: ItemHandler = async (evidence, parameters) => {
+  const orderId = parameters['orderId'];
+  const released = await releaseManualHold(orderId, 'evidence', evidence.id);
+
+  if (released) {
+    return { status: 'SUCCEEDED', details: { holdId: released.id } };
+  }
+
+  const holds = await getActiveHolds('evidence', evidence.id);
+  return holds.some(hold => hold.orderId === orderId)
+    ? failure('HELD_BY_SCOPE', 'Item is held by the order\'s scope; it is released with the order')
+    : failure('NOT_HELD', 'Item has no manual hold under this order');
+};
+
+const verifyIntegrity: ItemHandler = async (evidence, _parameters, userId) => {
+  const check = await checkIntegrityItem('EVIDENCE', evidence.id, 'INTEGRITY_VERIFICATION', userId);
+
+  if (!check) {
+    return failure('NOTHING_TO_CHECK', 'Item has no stored file or recorded hash');
+  }
+
+  const details = { checkId: check.id, integrityScore: check.integrityScore };
+  return check.tamperDetected
+    ? failure('TAMPER_DETECTED', 'Integrity check detected tampering', {
+      ...details,
+      indicators: check.tamperIndicators.map(indicator => indicator.type),
+    })
+    : { status: 'SUCCEEDED', details };
+};
+
+const updateMetadata: ItemHandler = async (evidence, parameters) => {
+  const updated = applyMetadataChanges({
+    tags: parseJson(evidence.tags) || [],
+    keywords: parseJson(evidence.keywords) || [],
+    statutes: parseJson(evidence.statutes) || [],
+  }, parameters as MetadataChanges);
+
+  if (Object.keys(updated).length === 0) {
+    return { status: 'SUCCEEDED', details: { unchanged: true } };
+  }
+
+  await database('evidence_items')
+    .where({ id: evidence.id })
+    .update({
+      ...Object.fromEntries(Object.entries(updated).map(([field, values]) => [field, JSON.stringify(values)])),
+      updated_at: new Date(),
+    });
+
+  return { status: 'SUCCEEDED', details: updated };
+};
+
+const ITEM_HANDLERS: Record<EvidenceBatchType, ItemHandler> = {
+  TRANSFER_CUSTODY: transferCustody,
+  UPDATE_CLASSIFICATION: updateClassification,
+  APPLY_LEGAL_HOLD: applyLegalHold,
+  REMOVE_LEGAL_HOLD: removeLegalHold,
+  VERIFY_INTEGRITY: verifyIntegrity,
+  UPDATE_METADATA: updateMetadata,
+};
+
+/**
+ * Run one item. Unexpected errors become item failures so the batch carries on.
+ */
+export const processBatchItem = async (
+  type: EvidenceBatchType,
+  evidenceId: string,
+  parameters: Record<string, any>,
+  userId: string
+): Promise<BatchItemOutcome> => {
+  try {
+    const evidence = await database('evidence_items').where({ id: evidenceId }).first();
+    if (!evidence) {
+      return failure('NOT_FOUND', 'Evidence item not found');
+    }
+
+    return await ITEM_HANDLERS[type](evidence, parameters, userId);
+  } catch (error) {
+    return failure('ITEM_ERROR', error instanceof Error ? error.message : String(error));
+  }
+};
+
+/**
+ * Items to target: the listed ids (deduplicated, in the order given) or every
+ * item the selection search matches for the requester. Returns at most
+ * MAX_BATCH_ITEMS + 1 ids so callers can reject oversized batches.
+ */
+export const resolveBatchTargets = async (
+  input: Pick<EvidenceBatchInput, 'evidenceIds' | 'selection'>,
+  access: SearchAccess
+): Promise<string[]> => {
+  if (input.evidenceIds) {
+    return [...new Set(input.evidenceIds)].slice(0, MAX_BATCH_ITEMS + 1);
+  }
+
+  return findEvidenceIds(input.selection || {}, access, MAX_BATCH_ITEMS + 1);
+};
+
+export const getEvidenceBatchRow = async (id: string): Promise<any> =>
+  database('evidence_batch_operations').where({ id }).first();
+
+const getBatchItems = async (batchId: string): Promise<BatchItemResult[]> => {
+  const rows = await database('evidence_batch_items').where({ batch_id: batchId }).orderBy('sequence', 'asc');
+  return rows.map(mapBatchItemRow);
+};
+
+export const getEvidenceBatch = async (id: string): Promise<EvidenceBatchOperation | null> => {
+  const row = await getEvidenceBatchRow(id);
+  return row ? mapBatchRow(row, await getBatchItems(id)) : null;
+};
+
+/**
+ * Batches the user requested, newest first, without their item lists
+ */
+export const getEvidenceBatches = async (userId: string, limit = 50): Promise<EvidenceBatchOperation[]> => {
+  const rows = await database('evidence_batch_operations')
+    .where({ requested_by: userId })
+    .orderBy('requested_at', 'desc')
+    .limit(limit);
+
+  return rows.map((row: any) => mapBatchRow(row));
+};
+
+/**
+ * Record a batch and its targeted items, ready to process
+ */
+export const createEvidenceBatch = async (
+  input: EvidenceBatchInput,
+  evidenceIds: string[],
+  userId: string
+): Promise<EvidenceBatchOperation> =>
+  database.transaction(async (trx) => {
+    const [row] = await trx('evidence_batch_operations')
+      .insert({
+        type: input.type,
+        parameters: JSON.stringify(input.parameters),
+        selection: input.evidenceIds || !input.selection ? null : JSON.stringify(input.selection),
+        total_items: evidenceIds.length,
+        requested_by: userId,
+        notes: input.notes ?? null,
+      })
+      .returning('*');
+
+    const items = evidenceIds.map((evidenceId, index) => ({
+      batch_id: row.id,
+      evidence_id: evidenceId,
+      sequence: index + 1,
+    }));
+
+    for (let start = 0; start < items.length; start += INSERT_CHUNK_SIZE) {
+      await trx('evidence_batch_items').insert(items.slice(start, start + INSERT_CHUNK_SIZE));
+    }
+
+    return mapBatchRow(row, items.map(item => ({ evidenceId: item.evidence_id, sequence: item.sequence, status: 'PENDING' })));
+  });
+
+/**
+ * Stop a pending or running batch. Items already processed keep their
+ * results; the rest are skipped. Returns null when the batch has finished.
+ */
+export const cancelEvidenceBatch = async (id: string, userId: string): Promise<EvidenceBatchOperation | null> => {
+  const [row] = await database('evidence_batch_operations')
+    .where({ id })
+    .whereIn('status', ['PENDING', 'RUNNING'])
+    .update({ status: 'CANCELLED', cancelled_by: userId })
+    .returning('*');
+
+  if (!row) {
+    return null;
+  }
+
+  // A running batch skips its remaining items when it next checks its status
+  if (!row.started_at) {
+    await database('evidence_batch_items')
+      .where({ batch_id: id, status: 'PENDING' })
+      .update({ status: 'SKIPPED' });
+    await database('evidence_batch_operations').where({ id }).update({ completed_at: new Date() });
+  }
+
+  return getEvidenceBatch(id);
+};
+
+/**
+ * Work through a batch's pending items in order, recording each outcome.
+ * onProgress is called whenever the whole-number percentage moves and once
+ * at the end. The batch finishes COMPLETED, PARTIAL (some items failed),
+ * FAILED (every item failed, or the run itself stopped) or CANCELLED.
+ */
+export const processEvidenceBatch = async (
+  batch: EvidenceBatchOperation,
+  onProgress?: (progress: EvidenceBatchProgress) => void
+): Promise<EvidenceBatchOperation> => {
+  const total = batch.evidenceIds.length;
+  const counts = { processed: 0, succeeded: 0, failed: 0 };
+  let reported = -1;
+
+  const report = (status: BatchOperationStatus) => {
+    const progress = batchProgress(counts.processed, total);
+    if (onProgress && (progress !== reported || FINISHED_STATUSES.includes(status))) {
+      reported = progress;
+      onProgress({ batchId: batch.id, status, progress, total, ...counts });
+    }
+  };
+
+  const started = await database('evidence_batch_operations')
+    .where({ id: batch.id, status: 'PENDING' })
+    .update({ status: 'RUNNING', started_at: new Date() });
+
+  if (!started) {
+    return (await getEvidenceBatch(batch.id))!;
+  }
+
+  report('RUNNING');
+
+  try {
+    for (;;) {
+      const current = await getEvidenceBatchRow(batch.id);
+      if (current.status === 'CANCELLED') {
+        await database('evidence_batch_items')
+          .where({ batch_id: batch.id, status: 'PENDING' })
+          .update({ status: 'SKIPPED' });
+        await database('evidence_batch_operations').where({ id: batch.id }).update({ completed_at: new Date() });
+        report('CANCELLED');
+        break;
+      }
+
+      const items = await database('evidence_batch_items')
+        .where({ batch_id: batch.id, status: 'PENDING' })
+        .orderBy('sequence', 'asc')
+        .limit(ITEM_PAGE_SIZE)
+        .select('evidence_id');
+
+      if (items.length === 0) {
+        const status = finalBatchStatus(counts.succeeded, counts.failed);
+        await database('evidence_batch_operations')
+          .where({ id: batch.id })
+          .update({ status, completed_at: new Date() });
+        report(status);
+        break;
+      }
+
+      for (const item of items) {
+        const outcome = await processBatchItem(batch.type, item.evidence_id, batch.parameters, batch.requestedBy);
+
+        await database('evidence_batch_items')
+          .where({ batch_id: batch.id, evidence_id: item.evidence_id })
+          .update({
+            status: outcome.status,
+            error_code: outcome.status === 'FAILED' ? outcome.errorCode : null,
+            error: outcome.status === 'FAILED' ? outcome.error : null,
+            details: outcome.details ? JSON.stringify(outcome.details) : null,
+            processed_at: new Date(),
+          });
+
+        counts.processed++;
+        counts[outcome.status === 'SUCCEEDED' ? 'succeeded' : 'failed']++;
+
+        await database('evidence_batch_operations')
+          .where({ id: batch.id })
+          .update({ processed_items: counts.processed });
+
+        report('RUNNING');
+      }
+    }
+  } catch (error) {
+    await database('evidence_batch_items')
+      .where({ batch_id: batch.id, status: 'PENDING' })
+      .update({ status: 'SKIPPED' });
+    await database('evidence_batch_operations')
+      .where({ id: batch.id })
+      .update({
+        status: 'FAILED',
+        failure_reason: error instanceof Error ? error.message : String(error),
+        completed_at: new Date(),
+      });
+    report('FAILED');
+  }
+
+  return (await getEvidenceBatch(batch.id))!;
+};
+
+/**
+ * Per-item results with totals, for download
+ */
+export const getEvidenceBatchReport = async (id: string): Promise<EvidenceBatchReport | null> => {
+  const row = await getEvidenceBatchRow(id);
+  if (!row) {
+    return null;
+  }
+
+  const items = await getBatchItems(id);
+  const totals: Record<BatchItemStatus, number> = { PENDING: 0, SUCCEEDED: 0, FAILED: 0, SKIPPED: 0 };
+  for (const item of items) {
+    totals[item.status]++;
+  }
+
+  const { evidenceIds, successful, failed, skipped, ...batch } = mapBatchRow(row);
+
+  return {
+    batch,
+    totals,
+    items,
+    generatedAt: new Date(),
+  };
+};
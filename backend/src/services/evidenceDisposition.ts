@@ -0,0 +1,603 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { Knex } from 'knex';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import database from '../config/database';
+import {
+  ActiveLegalHold,
+  ChainOfCustodyEntry,
+  CustodyTransferMethod,
+  CustodyTransferReason,
+  DispositionApproval,
+  DispositionCertificate,
+  DispositionCertificateVerification,
+  DispositionDecision,
+  DispositionRecipient,
+  DispositionStatus,
+  DispositionType,
+  EvidenceDisposition,
+  EvidenceLifecycleStatus,
+  FileErasure,
+} from '../types';
+import {
+  appendCustodyEntry,
+  canonicalize,
+  CustodySigningKey,
+  getCustodyLedger,
+  getCustodySigningKey,
+  signEntryHash,
+  verifyEntrySignature,
+} from './custodyLedger';
+import { DISPOSED_STATUSES, transitionEvidence } from './evidenceLifecycle';
+import { getPhysicalEvidence, moveToLocation } from './physicalEvidence';
+import { getActiveHolds } from './legalHold';
+import { logCustodyEntry } from './transparencyLog';
+import { secureDelete } from '../utils/encryption';
+
+// Distinct approvers, none of them the requester, needed before a disposition can run
+export const REQUIRED_APPROVALS = 2;
+
+// Transfers that only an executed disposition may record
+export const DISPOSITION_TRANSFER_REASONS: CustodyTransferReason[] = ['DESTRUCTION', 'RETURN_TO_OWNER'];
+
+export const DISPOSITION_TARGET_STATUS: Record<DispositionType, EvidenceLifecycleStatus> = {
+  DESTRUCTION: 'DESTROYED',
+  RETURN: 'RETURNED',
+};
+
+// Requests that still hold the item; FAILED executions can be retried or cancelled
+export const OPEN_DISPOSITION_STATUSES: DispositionStatus[] = ['PENDING_APPROVAL', 'APPROVED', 'FAILED'];
+
+const CERTIFICATE_PREFIXES: Record<DispositionType, string> = {
+  DESTRUCTION: 'COD',
+  RETURN: 'RTN',
+};
+
+export interface DispositionInput {
+  evidenceId: string;
+  dispositionType: DispositionType;
+  method: string;
+  reason: string;
+  recipient?: DispositionRecipient;
+  courtOrderReference?: string;
+  courtOrderDocumentId?: string;
+}
+
+export interface DispositionFilters {
+  status?: DispositionStatus;
+  dispositionType?: DispositionType;
+  evidenceId?: string;
+}
+
+export interface DispositionExecution {
+  disposition: EvidenceDisposition;
+  certificate: DispositionCertificate | null;
+  heldFiles?: HeldStoredFile[];
+}
+
+export interface HeldStoredFile {
+  documentId: string;
+  holds: ActiveLegalHold[];
+}
+
+interface StoredFile {
+  documentId: string;
+  filePath: string;
+  fileHash?: string;
+  shared: boolean;
+}
+
+const parseJson = (value: any, fallback: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? fallback);
+
+/**
+ * Disposition types that must carry an attached court order document
+ * (DISPOSITION_COURT_ORDER_REQUIRED, comma separated, e.g. "DESTRUCTION,RETURN")
+ */
+export const getCourtOrderAttachmentTypes = (): DispositionType[] =>
+  (process.env['DISPOSITION_COURT_ORDER_REQUIRED'] || '')
+    .split(',')
+    .map(type => type.trim().toUpperCase())
+    .filter((type): type is DispositionType => type === 'DESTRUCTION' || type === 'RETURN');
+
+/**
+ * Status after a decision: one rejection ends the request, REQUIRED_APPROVALS approvals clear it
+ */
+export const approvalOutcome = (approvals: Pick<DispositionApproval, 'decision'>[]): DispositionStatus => {
+  if (approvals.some(approval => approval.decision === 'REJECTED')) {
+    return 'REJECTED';
+  }
+  return approvals.filter(approval => approval.decision === 'APPROVED').length >= REQUIRED_APPROVALS
+    ? 'APPROVED'
+    : 'PENDING_APPROVAL';
+};
+
+export const certificateNumber = (dispositionType: DispositionType, certificateId: string, issuedAt: Date): string =>
+  `${CERTIFICATE_PREFIXES[dispositionType]}-${issuedAt.toISOString().slice(0, 10).replace(/-/g, '')}-${certificateId.slice(0, 8).toUpperCase()}`;
+
+export const hashCertificateContent = (content: Record<string, any>): string =>
+  crypto.createHash('sha256').update(canonicalize(content)).digest('hex');
+
+/**
+ * Check a certificate's content against its hash and the hash against the signature
+ */
+export const verifyCertificate = (
+  certificate: DispositionCertificate,
+  key: Pick<CustodySigningKey, 'publicKey' | 'fingerprint'>
+): DispositionCertificateVerification => {
+  const contentHashMatches = hashCertificateContent(certificate.content) === certificate.contentHash;
+  const signatureValid = certificate.signingKeyFingerprint === key.fingerprint &&
+    verifyEntrySignature(certificate.contentHash, certificate.signature, certificate.signatureAlgorithm, key.publicKey);
+
+  return {
+    certificateId: certificate.id,
+    valid: contentHashMatches && signatureValid,
+    contentHashMatches,
+    signatureValid,
+    verifiedAt: new Date(),
+  };
+};
+
+export const mapApprovalRow = (row: any): DispositionApproval => ({
+  approverId: row.approver_id,
+  decision: row.decision,
+  ...(row.comments && { comments: row.comments }),
+  decidedAt: row.decided_at,
+});
+
+export const mapDispositionRow = (row: any, approvals: DispositionApproval[] = []): EvidenceDisposition => ({
+  id: row.id,
+  evidenceId: row.evidence_id,
+  dispositionType: row.disposition_type,
+  status: row.status,
+  method: row.method,
+  reason: row.reason,
+  ...(row.recipient && { recipient: parseJson(row.recipient, undefined) }),
+  ...(row.court_order_reference && { courtOrderReference: row.court_order_reference }),
+  ...(row.court_order_document_id && { courtOrderDocumentId: row.court_order_document_id }),
+  requestedBy: row.requested_by,
+  requestedAt: row.requested_at,
+  approvals,
+  ...(row.cancelled_by && { cancelledBy: row.cancelled_by }),
+  ...(row.executed_by && { executedBy: row.executed_by }),
+  ...(row.executed_at && { executedAt: row.executed_at }),
+  ...(row.failure_reason && { failureReason: row.failure_reason }),
+  ...(row.erasures && { erasures: parseJson(row.erasures, []) }),
+  ...(row.certificate_id && { certificateId: row.certificate_id }),
+});
+
+export const mapCertificateRow = (row: any): DispositionCertificate => ({
+  id: row.id,
+  dispositionId: row.disposition_id,
+  evidenceId: row.evidence_id,
+  certificateType: row.certificate_type,
+  certificateNumber: row.certificate_number,
+  content: parseJson(row.content, {}),
+  contentHash: row.content_hash,
+  signature: row.signature,
+  signatureAlgorithm: row.signature_algorithm,
+  signingKeyFingerprint: row.signing_key_fingerprint,
+  issuedAt: row.issued_at,
+});
+
+const dispositionQuery = () =>
+  database('evidence_dispositions')
+    .leftJoin(
+      'evidence_disposition_certificates',
+      'evidence_disposition_certificates.disposition_id',
+      'evidence_dispositions.id'
+    )
+    .select('evidence_dispositions.*', 'evidence_disposition_certificates.id as certificate_id');
+
+const withApprovals = async (rows: any[]): Promise<EvidenceDisposition[]> => {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const approvalRows = await database('evidence_disposition_approvals')
+    .whereIn('disposition_id', rows.map(row => row.id))
+    .orderBy('decided_at', 'asc');
+
+  return rows.map(row => mapDispositionRow(
+    row,
+    approvalRows.filter((approval: any) => approval.disposition_id === row.id).map(mapApprovalRow)
+  ));
+};
+
+export const getDisposition = async (id: string): Promise<EvidenceDisposition | null> => {
+  const row = await dispositionQuery().where('evidence_dispositions.id', id).first();
+  return row ? (await withApprovals([row]))[0]! : null;
+};
+
+export const getDispositions = async (filters: DispositionFilters = {}, limit = 100): Promise<EvidenceDisposition[]> => {
+  const query = dispositionQuery().orderBy('evidence_dispositions.requested_at', 'desc').limit(limit);
+
+  if (filters.status) {
+    query.where('evidence_dispositions.status', filters.status);
+  }
+  if (filters.dispositionType) {
+    query.where('evidence_dispositions.disposition_type', filters.dispositionType);
+  }
+  if (filters.evidenceId) {
+    query.where('evidence_dispositions.evidence_id', filters.evidenceId);
+  }
+
+  return withApprovals(await query);
+};
+
+export const getOpenDisposition = async (evidenceId: string): Promise<EvidenceDisposition | null> => {
+  const row = await dispositionQuery()
+    .where('evidence_dispositions.evidence_id', evidenceId)
+    .whereIn('evidence_dispositions.status', OPEN_DISPOSITION_STATUSES)
+    .first();
+  return row ? (await withApprovals([row]))[0]! : null;
+};
+
+export const createDisposition = async (input: DispositionInput, userId: string): Promise<EvidenceDisposition> => {
+  const [row] = await database('evidence_dispositions')
+    .insert({
+      evidence_id: input.evidenceId,
+      disposition_type: input.dispositionType,
+      method: input.method,
+      reason: input.reason,
+      recipient: input.recipient ? JSON.stringify(input.recipient) : null,
+      court_order_reference: input.courtOrderReference ?? null,
+      court_order_document_id: input.courtOrderDocumentId ?? null,
+      requested_by: userId,
+      requested_at: new Date(),
+    })
+    .returning('*');
+
+  return mapDispositionRow(row);
+};
+
+/**
+ * Record an approver's decision and move the request on when it settles it
+ */
+export const decideDisposition = async (
+  id: string,
+  approverId: string,
+  decision: DispositionDecision,
+  comments?: string
+): Promise<EvidenceDisposition> => {
+  await database.transaction(async (trx) => {
+    const row = await trx('evidence_dispositions').where({ id }).forUpdate().first();
+    if (row?.status !== 'PENDING_APPROVAL') {
+      throw new Error(`Disposition ${id} is not awaiting approval`);
+    }
+
+    await trx('evidence_disposition_approvals').insert({
+      disposition_id: id,
+      approver_id: approverId,
+      decision,
+      comments: comments ?? null,
+      decided_at: new Date(),
+    });
+
+    const approvals = await trx('evidence_disposition_approvals').select('decision').where({ disposition_id: id });
+    const status = approvalOutcome(approvals);
+    if (status !== row.status) {
+      await trx('evidence_dispositions').where({ id }).update({ status, updated_at: new Date() });
+    }
+  });
+
+  return (await getDisposition(id))!;
+};
+
+export const cancelDisposition = async (id: string, userId: string): Promise<EvidenceDisposition> => {
+  await database('evidence_dispositions')
+    .where({ id })
+    .whereIn('status', OPEN_DISPOSITION_STATUSES)
+    .update({ status: 'CANCELLED', cancelled_by: userId, updated_at: new Date() });
+
+  return (await getDisposition(id))!;
+};
+
+/**
+ * Uploads store a path relative to uploads/documents; imports store an absolute path
+ */
+const resolveStoredPath = (filePath: string): string =>
+  path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), 'uploads', 'documents', filePath);
+
+/**
+ * Stored files behind an item: its document and that document's versions. A file
+ * another item that is still held relies on is marked shared and kept.
+ */
+const getStoredFiles = async (evidence: { id: string; document_id?: string }): Promise<StoredFile[]> => {
+  if (!evidence.document_id) {
+    return [];
+  }
+
+  const documents = await database('documents')
+    .select('id', 'file_path', 'file_hash')
+    .where(function() {
+      this.where({ id: evidence.document_id }).orWhere({ parent_document_id: evidence.document_id });
+    })
+    .whereNotNull('file_path');
+
+  const shared = new Set(await database('evidence_items')
+    .whereIn('document_id', documents.map((document: any) => document.id))
+    .whereNot('id', evidence.id)
+    .whereNotIn('status', DISPOSED_STATUSES)
+    .pluck('document_id'));
+
+  return documents.map((document: any) => ({
+    documentId: document.id,
+    filePath: document.file_path,
+    ...(document.file_hash && { fileHash: document.file_hash }),
+    shared: shared.has(document.id),
+  }));
+};
+
+/**
+ * Stored files of an item that a preservation order holds in their own right:
+ * by a manual hold on the document, or by an order's keyword or custodian scope
+ */
+export const getHeldStoredFiles = async (evidence: { id: string; document_id?: string }): Promise<HeldStoredFile[]> => {
+  const held: HeldStoredFile[] = [];
+  for (const file of await getStoredFiles(evidence)) {
+    const holds = await getActiveHolds('document', file.documentId);
+    if (holds.length > 0) {
+      held.push({ documentId: file.documentId, holds });
+    }
+  }
+  return held;
+};
+
+/**
+ * Securely delete an item's stored files. Each erased file is cleared from its
+ * document straight away, so a retry after a failure only handles what is left.
+ */
+const eraseStoredFiles = async (evidence: { id: string; document_id?: string }): Promise<FileErasure[]> => {
+  const erasures: FileErasure[] = [];
+
+  for (const file of await getStoredFiles(evidence)) {
+    const base = { documentId: file.documentId, ...(file.fileHash && { fileHash: file.fileHash }) };
+
+    if (file.shared) {
+      erasures.push({ ...base, status: 'RETAINED_SHARED' });
+      continue;
+    }
+
+    const storedPath = resolveStoredPath(file.filePath);
+    const exists = await fs.access(storedPath).then(() => true, () => false);
+
+    try {
+      if (exists) {
+        await secureDelete(storedPath);
+      }
+      await database('documents').where({ id: file.documentId }).update({ file_path: null, updated_at: new Date() });
+      erasures.push({ ...base, status: exists ? 'ERASED' : 'MISSING' });
+    } catch (error) {
+      erasures.push({ ...base, status: 'FAILED', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return erasures;
+};
+
+/**
+ * Earlier attempts' erasures stand; this attempt's results are added after them
+ */
+const mergeErasures = (previous: FileErasure[], current: FileErasure[]): FileErasure[] => [
+  ...previous.filter(erasure => erasure.status === 'ERASED' || erasure.status === 'MISSING'),
+  ...current,
+];
+
+const buildCertificateContent = (
+  fields: {
+    certificateNumber: string;
+    issuedAt: Date;
+    evidence: any;
+    labelCode?: string;
+    disposition: EvidenceDisposition;
+    executedBy: string;
+    lifecycleActivityId: string;
+    custodyEntry: { id: string; sequenceNumber: number; entryHash: string };
+    erasures: FileErasure[];
+  }
+): Record<string, any> => {
+  const { disposition } = fields;
+  return {
+    certificateNumber: fields.certificateNumber,
+    certificateType: disposition.dispositionType === 'DESTRUCTION' ? 'CERTIFICATE_OF_DESTRUCTION' : 'RETURN_RECEIPT',
+    issuedAt: fields.issuedAt,
+    evidence: {
+      id: fields.evidence.id,
+      evidenceType: fields.evidence.evidence_type,
+      ...(fields.evidence.integrity_hash && { integrityHash: fields.evidence.integrity_hash }),
+      ...(fields.evidence.document_id && { documentId: fields.evidence.document_id }),
+      ...(fields.labelCode && { labelCode: fields.labelCode }),
+    },
+    disposition: {
+      id: disposition.id,
+      type: disposition.dispositionType,
+      method: disposition.method,
+      reason: disposition.reason,
+      ...(disposition.recipient && { recipient: disposition.recipient }),
+      ...(disposition.courtOrderReference && { courtOrderReference: disposition.courtOrderReference }),
+      ...(disposition.courtOrderDocumentId && { courtOrderDocumentId: disposition.courtOrderDocumentId }),
+      requestedBy: disposition.requestedBy,
+      requestedAt: new Date(disposition.requestedAt),
+      approvals: disposition.approvals.map(approval => ({
+        approverId: approval.approverId,
+        decidedAt: new Date(approval.decidedAt),
+        ...(approval.comments && { comments: approval.comments }),
+      })),
+    },
+    executedBy: fields.executedBy,
+    executedAt: fields.issuedAt,
+    lifecycleActivityId: fields.lifecycleActivityId,
+    custodyEntry: fields.custodyEntry,
+    ...(disposition.dispositionType === 'DESTRUCTION' && { erasures: fields.erasures }),
+  };
+};
+
+/**
+ * Carry out an approved disposition. Nothing is done while any of the item's
+ * stored files is under legal hold; heldFiles lists them. Destruction first
+ * securely deletes the item's stored files; if any cannot be deleted the request
+ * is marked FAILED and nothing else changes. Otherwise the lifecycle transition, the closing custody entry and
+ * the signed certificate are written together.
+ */
+export const executeDisposition = async (
+  disposition: EvidenceDisposition,
+  user: { id: string; email: string }
+): Promise<DispositionExecution> => {
+  const evidence = await database('evidence_items')
+    .select('id', 'evidence_type', 'integrity_hash', 'document_id', 'chain_of_custody')
+    .where({ id: disposition.evidenceId })
+    .first();
+  if (!evidence) {
+    throw new Error(`Evidence item ${disposition.evidenceId} not found`);
+  }
+
+  const heldFiles = await getHeldStoredFiles(evidence);
+  if (heldFiles.length > 0) {
+    return { disposition, certificate: null, heldFiles };
+  }
+
+  const destruction = disposition.dispositionType === 'DESTRUCTION';
+  const erasures = destruction ? mergeErasures(disposition.erasures ?? [], await eraseStoredFiles(evidence)) : [];
+  const failed = erasures.filter(erasure => erasure.status === 'FAILED');
+
+  if (failed.length > 0) {
+    await database('evidence_dispositions')
+      .where({ id: disposition.id })
+      .update({
+        status: 'FAILED',
+        failure_reason: `Secure deletion failed for ${failed.length} stored file${failed.length === 1 ? '' : 's'}`,
+        erasures: JSON.stringify(erasures),
+        updated_at: new Date(),
+      });
+    return { disposition: (await getDisposition(disposition.id))!, certificate: null };
+  }
+
+  const key = getCustodySigningKey();
+  const physical = await getPhysicalEvidence(evidence.id);
+
+  const certificate = await database.transaction(async (trx: Knex.Transaction) => {
+    const current = await trx('evidence_dispositions').select('status').where({ id: disposition.id }).forUpdate().first();
+    if (current?.status !== 'APPROVED' && current?.status !== 'FAILED') {
+      throw new Error(`Disposition ${disposition.id} is not approved`);
+    }
+
+    const executedAt = new Date();
+    const activity = await transitionEvidence(evidence.id, {
+      toStatus: DISPOSITION_TARGET_STATUS[disposition.dispositionType],
+      description: destruction
+        ? `Destroyed by ${disposition.method}`
+        : `Returned to ${disposition.recipient?.name ?? 'owner'}`,
+      ...(disposition.courtOrderReference && { courtOrderReference: disposition.courtOrderReference }),
+      dispositionId: disposition.id,
+      notes: disposition.reason,
+    }, user.id, trx);
+
+    const ledger = await getCustodyLedger(evidence.id, trx);
+    const previousCustodian = ledger[ledger.length - 1]?.custodian;
+    const recipient = disposition.recipient;
+
+    const entry = await appendCustodyEntry(trx, evidence.id, destruction
+      ? {
+        custodian: user.id,
+        custodianName: user.email,
+        ...(previousCustodian && { transferredFrom: previousCustodian }),
+        transferReason: 'DESTRUCTION',
+        transferMethod: 'OTHER',
+        purpose: 'DESTRUCTION',
+        reasonDescription: disposition.reason,
+        receivedAt: executedAt,
+        storageLocation: `Destroyed (${disposition.method})`,
+        notes: `Disposition ${disposition.id}`,
+        recordedBy: user.id,
+      }
+      : {
+        custodian: recipient!.name,
+        custodianName: recipient!.name,
+        ...(recipient!.organization && { custodianOrganization: recipient!.organization }),
+        ...(previousCustodian && { transferredFrom: previousCustodian }),
+        transferredTo: recipient!.name,
+        transferReason: 'RETURN_TO_OWNER',
+        transferMethod: disposition.method as CustodyTransferMethod,
+        purpose: 'STORAGE', // CustodyPurpose has no return; the transfer reason records it
+        reasonDescription: disposition.reason,
+        receivedAt: executedAt,
+        storageLocation: `Returned to ${recipient!.name}`,
+        notes: `Disposition ${disposition.id}`,
+        recordedBy: user.id,
+      });
+
+    await logCustodyEntry(trx, entry);
+
+    if (physical) {
+      await moveToLocation(trx, physical.evidenceId, null);
+    }
+
+    const chainOfCustody: ChainOfCustodyEntry[] = parseJson(evidence.chain_of_custody, []);
+    chainOfCustody.push({
+      fromUser: previousCustodian ?? user.id,
+      toUser: destruction ? user.id : recipient!.name,
+      transferredAt: executedAt,
+      reason: disposition.reason,
+      location: entry.storageLocation,
+    });
+
+    await trx('evidence_items')
+      .where({ id: evidence.id })
+      .update({
+        chain_of_custody: JSON.stringify(chainOfCustody),
+        ...(destruction && { destruction_date: executedAt, destruction_method: disposition.method }),
+      });
+
+    const certificateId = uuidv4();
+    const number = certificateNumber(disposition.dispositionType, certificateId, executedAt);
+    const content = buildCertificateContent({
+      certificateNumber: number,
+      issuedAt: executedAt,
+      evidence,
+      ...(physical && { labelCode: physical.labelCode }),
+      disposition,
+      executedBy: user.id,
+      lifecycleActivityId: activity.id,
+      custodyEntry: { id: entry.id, sequenceNumber: entry.sequenceNumber, entryHash: entry.entryHash },
+      erasures,
+    });
+    const contentHash = hashCertificateContent(content);
+
+    const [row] = await trx('evidence_disposition_certificates')
+      .insert({
+        id: certificateId,
+        disposition_id: disposition.id,
+        evidence_id: evidence.id,
+        certificate_type: content['certificateType'],
+        certificate_number: number,
+        content: JSON.stringify(content),
+        content_hash: contentHash,
+        signature: signEntryHash(contentHash, key),
+        signature_algorithm: key.algorithm,
+        signing_key_fingerprint: key.fingerprint,
+        issued_at: executedAt,
+      })
+      .returning('*');
+
+    await trx('evidence_dispositions')
+      .where({ id: disposition.id })
+      .update({
+        status: 'COMPLETED',
+        executed_by: user.id,
+        executed_at: executedAt,
+        failure_reason: null,
+        ...(destruction && { erasures: JSON.stringify(erasures) }),
+        updated_at: executedAt,
+      });
+
+    return mapCertificateRow(row);
+  });
+
+  return { disposition: (await getDisposition(disposition.id))!, certificate };
+};
+
+export const getDispositionCertificate = async (dispositionId: string): Promise<DispositionCertificate | null> => {
+  const row = await database('evidence_disposition_certificates').where({ disposition_id: dispositionId }).first();
+  return row ? mapCertificateRow(row) : null;
+};
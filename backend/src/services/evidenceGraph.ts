@@ -0,0 +1,412 @@
+import database from '../config/database';
+import {
+  ContradictionReportEntry,
+  EvidenceGraph,
+  EvidenceGraphNode,
+  EvidenceGraphPath,
+  EvidenceRelationship,
+  EvidenceRelationshipStrength,
+  EvidenceRelationshipType,
+  RelationshipEvidence,
+} from '../types';
+import { SourcePrincipal, sourceAccessibleCondition } from './sourceProtection';
+
+export type TraversalDirection = 'out' | 'in' | 'both';
+
+/**
+ * Loads every relationship touching any of the given evidence items
+ */
+export type EdgeLoader = (evidenceIds: string[]) => Promise<EvidenceRelationship[]>;
+
+export interface GraphFilter {
+  caseId?: string;
+  types?: EvidenceRelationshipType[];
+  // Leave out relationships touching items this principal is restricted from
+  principal?: SourcePrincipal;
+}
+
+export interface EvidenceRelationshipInput {
+  caseId: string;
+  sourceEvidenceId: string;
+  targetEvidenceId: string;
+  relationshipType: EvidenceRelationshipType;
+  strength?: EvidenceRelationshipStrength;
+  confidence: number;
+  description: string;
+  method: string;
+  evidence?: RelationshipEvidence[];
+  tags?: string[];
+  notes?: string;
+}
+
+// Relationships that read the same in both directions
+export const SYMMETRIC_RELATIONSHIP_TYPES: EvidenceRelationshipType[] = ['SIBLING', 'RELATED_TO', 'CONTRADICTS', 'CONTEXTUAL'];
+
+export const MAX_TRAVERSAL_DEPTH = 3;
+export const MAX_PATH_LENGTH = 8;
+
+const parseJson = (value: any, fallback: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? fallback);
+
+export const mapRelationshipRow = (row: any): EvidenceRelationship => ({
+  id: row.id,
+  caseId: row.case_id,
+  sourceEvidenceId: row.source_evidence_id,
+  targetEvidenceId: row.target_evidence_id,
+  relationshipType: row.relationship_type,
+  strength: row.strength,
+  confidence: Number(row.confidence),
+  description: row.description,
+  method: row.method,
+  evidence: parseJson(row.supporting_evidence, []),
+  tags: parseJson(row.tags, []),
+  ...(row.notes && { notes: row.notes }),
+  establishedBy: row.established_by,
+  establishedAt: new Date(row.established_at),
+  verified: Boolean(row.verified),
+  ...(row.verified_by && { verifiedBy: row.verified_by }),
+  ...(row.verified_at && { verifiedAt: new Date(row.verified_at) }),
+});
+
+export const mapGraphNodeRow = (row: any): EvidenceGraphNode => ({
+  id: row.id,
+  evidenceType: row.evidence_type,
+  ...(row.document_id && { documentId: row.document_id }),
+  ...(row.document_title && { documentTitle: row.document_title }),
+  ...(row.source_stakeholder_id && { sourceStakeholderId: row.source_stakeholder_id }),
+  ...(row.source_name && { sourceName: row.source_name }),
+  ...(row.source_category && { sourceCategory: row.source_category }),
+  ...(row.significance_level !== null && row.significance_level !== undefined && {
+    significanceLevel: Number(row.significance_level),
+  }),
+  authenticityVerified: Boolean(row.authenticity_verified),
+});
+
+/**
+ * The item at the other end of a relationship from evidenceId, if the relationship
+ * can be followed from evidenceId in the given direction
+ */
+export const followRelationship = (
+  relationship: EvidenceRelationship,
+  evidenceId: string,
+  direction: TraversalDirection
+): string | undefined => {
+  const symmetric = SYMMETRIC_RELATIONSHIP_TYPES.includes(relationship.relationshipType);
+  if (relationship.sourceEvidenceId === evidenceId && (direction !== 'in' || symmetric)) {
+    return relationship.targetEvidenceId;
+  }
+  if (relationship.targetEvidenceId === evidenceId && (direction !== 'out' || symmetric)) {
+    return relationship.sourceEvidenceId;
+  }
+  return undefined;
+};
+
+/**
+ * Breadth-first walk out to the given depth. Returns the items reached, nearest
+ * first, and every relationship followed to reach them.
+ */
+export const traverseGraph = async (
+  startId: string,
+  depth: number,
+  direction: TraversalDirection,
+  loadEdges: EdgeLoader
+): Promise<{ evidenceIds: string[]; relationships: EvidenceRelationship[] }> => {
+  const visited = new Set<string>([startId]);
+  const relationships = new Map<string, EvidenceRelationship>();
+  let frontier = [startId];
+
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const frontierSet = new Set(frontier);
+    const next: string[] = [];
+
+    for (const relationship of await loadEdges(frontier)) {
+      for (const from of [relationship.sourceEvidenceId, relationship.targetEvidenceId]) {
+        if (!frontierSet.has(from)) {
+          continue;
+        }
+        const to = followRelationship(relationship, from, direction);
+        if (to === undefined) {
+          continue;
+        }
+        relationships.set(relationship.id, relationship);
+        if (!visited.has(to)) {
+          visited.add(to);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return { evidenceIds: [...visited], relationships: [...relationships.values()] };
+};
+
+/**
+ * Shortest chain of relationships linking two items, ignoring direction.
+ * Returns null when they are not connected within maxLength hops.
+ */
+export const findShortestPath = async (
+  fromId: string,
+  toId: string,
+  maxLength: number,
+  loadEdges: EdgeLoader
+): Promise<{ evidenceIds: string[]; relationships: EvidenceRelationship[] } | null> => {
+  if (fromId === toId) {
+    return { evidenceIds: [fromId], relationships: [] };
+  }
+
+  // How each reached item was first reached: the previous item and the relationship used
+  const reachedBy = new Map<string, { previous: string; relationship: EvidenceRelationship } | null>([[fromId, null]]);
+  let frontier = [fromId];
+
+  for (let level = 0; level < maxLength && frontier.length > 0; level++) {
+    const frontierSet = new Set(frontier);
+    const next: string[] = [];
+
+    for (const relationship of await loadEdges(frontier)) {
+      for (const from of [relationship.sourceEvidenceId, relationship.targetEvidenceId]) {
+        const to = followRelationship(relationship, from, 'both');
+        if (!frontierSet.has(from) || to === undefined || reachedBy.has(to)) {
+          continue;
+        }
+        reachedBy.set(to, { previous: from, relationship });
+        next.push(to);
+      }
+    }
+
+    if (reachedBy.has(toId)) {
+      const evidenceIds = [toId];
+      const relationships: EvidenceRelationship[] = [];
+      for (let step = reachedBy.get(toId); step; step = reachedBy.get(step.previous)) {
+        evidenceIds.unshift(step.previous);
+        relationships.unshift(step.relationship);
+      }
+      return { evidenceIds, relationships };
+    }
+    frontier = next;
+  }
+
+  return null;
+};
+
+const relationshipQuery = (filter: GraphFilter) => {
+  const query = database('evidence_relationships');
+  if (filter.caseId) {
+    query.where('case_id', filter.caseId);
+  }
+  if (filter.types?.length) {
+    query.whereIn('relationship_type', filter.types);
+  }
+  if (filter.principal) {
+    for (const column of ['source_evidence_id', 'target_evidence_id']) {
+      const accessible = sourceAccessibleCondition(`evidence_relationships.${column}`, filter.principal, ['ACCESS']);
+      query.whereRaw(accessible.sql, accessible.bindings);
+    }
+  }
+  return query;
+};
+
+export const relationshipEdgeLoader = (filter: GraphFilter): EdgeLoader => async evidenceIds => {
+  const rows = await relationshipQuery(filter)
+    .where(function() {
+      this.whereIn('source_evidence_id', evidenceIds).orWhereIn('target_evidence_id', evidenceIds);
+    })
+    .orderBy('established_at', 'asc');
+  return rows.map(mapRelationshipRow);
+};
+
+/**
+ * Summaries of evidence items for display as graph nodes, in the order requested.
+ * Items the principal is restricted from are left out.
+ */
+export const loadGraphNodes = async (evidenceIds: string[], principal?: SourcePrincipal): Promise<EvidenceGraphNode[]> => {
+  if (evidenceIds.length === 0) {
+    return [];
+  }
+
+  const query = database('evidence_items')
+    .leftJoin('documents', 'evidence_items.document_id', 'documents.id')
+    .leftJoin('stakeholders', 'evidence_items.source_stakeholder_id', 'stakeholders.id')
+    .whereIn('evidence_items.id', evidenceIds)
+    .select(
+      'evidence_items.id',
+      'evidence_items.evidence_type',
+      'evidence_items.document_id',
+      'evidence_items.source_stakeholder_id',
+      'evidence_items.significance_level',
+      'evidence_items.authenticity_verified',
+      'documents.title as document_title',
+      'stakeholders.name as source_name',
+      'stakeholders.category as source_category'
+    );
+  if (principal) {
+    const accessible = sourceAccessibleCondition('evidence_items.id', principal, ['ACCESS']);
+    query.whereRaw(accessible.sql, accessible.bindings);
+  }
+
+  const rows = await query;
+  const nodes = new Map<string, EvidenceGraphNode>(rows.map((row: any) => [row.id, mapGraphNodeRow(row)]));
+  return evidenceIds.map(id => nodes.get(id)).filter((node): node is EvidenceGraphNode => Boolean(node));
+};
+
+export const getRelationship = async (relationshipId: string): Promise<EvidenceRelationship | null> => {
+  const row = await database('evidence_relationships').where({ id: relationshipId }).first();
+  return row ? mapRelationshipRow(row) : null;
+};
+
+/**
+ * An existing relationship of the same type between the two items. Symmetric
+ * relationships are matched in either direction.
+ */
+export const findDuplicateRelationship = async (
+  sourceEvidenceId: string,
+  targetEvidenceId: string,
+  relationshipType: EvidenceRelationshipType
+): Promise<EvidenceRelationship | null> => {
+  const row = await database('evidence_relationships')
+    .where({ relationship_type: relationshipType })
+    .where(function() {
+      this.where({ source_evidence_id: sourceEvidenceId, target_evidence_id: targetEvidenceId });
+      if (SYMMETRIC_RELATIONSHIP_TYPES.includes(relationshipType)) {
+        this.orWhere({ source_evidence_id: targetEvidenceId, target_evidence_id: sourceEvidenceId });
+      }
+    })
+    .first();
+  return row ? mapRelationshipRow(row) : null;
+};
+
+export const createRelationship = async (
+  input: EvidenceRelationshipInput,
+  userId: string
+): Promise<EvidenceRelationship> => {
+  const [row] = await database('evidence_relationships')
+    .insert({
+      case_id: input.caseId,
+      source_evidence_id: input.sourceEvidenceId,
+      target_evidence_id: input.targetEvidenceId,
+      relationship_type: input.relationshipType,
+      strength: input.strength ?? 'MODERATE',
+      confidence: input.confidence,
+      description: input.description,
+      method: input.method,
+      supporting_evidence: JSON.stringify(input.evidence ?? []),
+      tags: JSON.stringify(input.tags ?? []),
+      notes: input.notes ?? null,
+      established_by: userId,
+    })
+    .returning('*');
+
+  return mapRelationshipRow(row);
+};
+
+export const updateRelationship = async (
+  relationshipId: string,
+  changes: Partial<Pick<EvidenceRelationshipInput, 'strength' | 'confidence' | 'description' | 'evidence' | 'tags' | 'notes'>>
+): Promise<EvidenceRelationship> => {
+  const [row] = await database('evidence_relationships')
+    .where({ id: relationshipId })
+    .update({
+      ...(changes.strength !== undefined && { strength: changes.strength }),
+      ...(changes.confidence !== undefined && { confidence: changes.confidence }),
+      ...(changes.description !== undefined && { description: changes.description }),
+      ...(changes.evidence !== undefined && { supporting_evidence: JSON.stringify(changes.evidence) }),
+      ...(changes.tags !== undefined && { tags: JSON.stringify(changes.tags) }),
+      ...(changes.notes !== undefined && { notes: changes.notes }),
+      // Any change to the substance of a relationship needs verifying again
+      verified: false,
+      verified_by: null,
+      verified_at: null,
+    })
+    .returning('*');
+
+  return mapRelationshipRow(row);
+};
+
+export const verifyRelationship = async (relationshipId: string, userId: string): Promise<EvidenceRelationship> => {
+  const [row] = await database('evidence_relationships')
+    .where({ id: relationshipId })
+    .update({ verified: true, verified_by: userId, verified_at: new Date() })
+    .returning('*');
+
+  return mapRelationshipRow(row);
+};
+
+export const getNeighborhood = async (
+  evidenceId: string,
+  depth: number,
+  direction: TraversalDirection,
+  filter: GraphFilter
+): Promise<EvidenceGraph> => {
+  const { evidenceIds, relationships } = await traverseGraph(
+    evidenceId,
+    Math.min(depth, MAX_TRAVERSAL_DEPTH),
+    direction,
+    relationshipEdgeLoader(filter)
+  );
+  return { nodes: await loadGraphNodes(evidenceIds, filter.principal), relationships };
+};
+
+export const getShortestPath = async (
+  fromId: string,
+  toId: string,
+  filter: GraphFilter,
+  maxLength: number = MAX_PATH_LENGTH
+): Promise<EvidenceGraphPath | null> => {
+  const path = await findShortestPath(fromId, toId, Math.min(maxLength, MAX_PATH_LENGTH), relationshipEdgeLoader(filter));
+  if (!path) {
+    return null;
+  }
+  return {
+    nodes: await loadGraphNodes(path.evidenceIds, filter.principal),
+    relationships: path.relationships,
+    length: path.relationships.length,
+  };
+};
+
+/**
+ * Every relationship recorded for a case and the items they connect
+ */
+export const getCaseGraph = async (
+  caseId: string,
+  types?: EvidenceRelationshipType[],
+  principal?: SourcePrincipal
+): Promise<EvidenceGraph> => {
+  const rows = await relationshipQuery({ caseId, ...(types && { types }), ...(principal && { principal }) })
+    .orderBy('established_at', 'asc');
+  const relationships = rows.map(mapRelationshipRow);
+
+  const evidenceIds = new Set<string>();
+  for (const relationship of relationships) {
+    evidenceIds.add(relationship.sourceEvidenceId);
+    evidenceIds.add(relationship.targetEvidenceId);
+  }
+
+  return { nodes: await loadGraphNodes([...evidenceIds], principal), relationships };
+};
+
+/**
+ * Every pair of items marked CONTRADICTS, with the documents and sources behind
+ * each side, strongest and most confident first
+ */
+export const getContradictionReport = async (
+  caseId?: string,
+  principal?: SourcePrincipal
+): Promise<ContradictionReportEntry[]> => {
+  const rows = await relationshipQuery({ ...(caseId && { caseId }), types: ['CONTRADICTS'], ...(principal && { principal }) })
+    .orderByRaw(`CASE strength WHEN 'DEFINITIVE' THEN 0 WHEN 'STRONG' THEN 1 WHEN 'MODERATE' THEN 2 ELSE 3 END`)
+    .orderBy([{ column: 'confidence', order: 'desc' }, { column: 'established_at', order: 'asc' }]);
+  const relationships = rows.map(mapRelationshipRow);
+
+  const nodes = new Map<string, EvidenceGraphNode>();
+  const evidenceIds = [...new Set(relationships.flatMap(rel => [rel.sourceEvidenceId, rel.targetEvidenceId]))];
+  for (const node of await loadGraphNodes(evidenceIds, principal)) {
+    nodes.set(node.id, node);
+  }
+
+  return relationships
+    .filter(relationship => nodes.has(relationship.sourceEvidenceId) && nodes.has(relationship.targetEvidenceId))
+    .map(relationship => ({
+      relationship,
+      source: nodes.get(relationship.sourceEvidenceId)!,
+      target: nodes.get(relationship.targetEvidenceId)!,
+    }));
+};
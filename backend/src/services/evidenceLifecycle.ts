@@ -0,0 +1,328 @@
+import { Knex } from 'knex';
+import database from '../config/database';
+import {
+  ActiveLegalHold,
+  CustodyVerificationResult,
+  EvidenceLifecycleState,
+  EvidenceLifecycleStatus,
+  LifecycleActivity,
+  LifecycleActivityType,
+  LifecycleRequirement,
+  LifecycleStage,
+} from '../types';
+import { verifyEvidenceCustody } from './custodyLedger';
+import { getActiveHolds } from './legalHold';
+
+export interface LifecycleTransitionInput {
+  toStatus: EvidenceLifecycleStatus;
+  description: string;
+  results?: string;
+  courtOrderReference?: string;
+  dispositionId?: string; // Approved disposition carrying out a DESTROYED or RETURNED transition
+  notes?: string;
+}
+
+// What the preconditions are checked against
+export interface LifecycleContext {
+  authenticityVerified: boolean;
+  custody: CustodyVerificationResult;
+  activeHolds: ActiveLegalHold[];
+}
+
+export interface TransitionEvaluation {
+  fromStatus: EvidenceLifecycleStatus;
+  allowed: boolean;
+  requirements: LifecycleRequirement[];
+}
+
+/**
+ * Allowed moves between statuses. Evidence normally runs
+ * COLLECTED -> PROCESSING -> ANALYZED -> (READY ->) PRESENTED -> ARCHIVED / DESTROYED / RETURNED;
+ * a dispute can be raised at any point before archival and sends it back for rework.
+ */
+export const LIFECYCLE_TRANSITIONS: Record<EvidenceLifecycleStatus, EvidenceLifecycleStatus[]> = {
+  COLLECTED: ['PROCESSING', 'DISPUTED'],
+  PROCESSING: ['ANALYZED', 'DISPUTED'],
+  ANALYZED: ['READY', 'PRESENTED', 'PROCESSING', 'DISPUTED'],
+  READY: ['PRESENTED', 'ANALYZED', 'DISPUTED'],
+  PRESENTED: ['ARCHIVED', 'DESTROYED', 'RETURNED', 'DISPUTED'],
+  ARCHIVED: ['PRESENTED', 'DESTROYED', 'RETURNED'],
+  DISPUTED: ['PROCESSING', 'ANALYZED', 'ARCHIVED'],
+  DESTROYED: [],
+  RETURNED: [],
+};
+
+// Final statuses, only reached through an approved disposition; the item has left our custody
+export const DISPOSED_STATUSES: EvidenceLifecycleStatus[] = ['DESTROYED', 'RETURNED'];
+
+export const LIFECYCLE_STAGES: Record<EvidenceLifecycleStatus, LifecycleStage> = {
+  COLLECTED: 'COLLECTION',
+  PROCESSING: 'PRESERVATION',
+  ANALYZED: 'ANALYSIS',
+  READY: 'PRODUCTION',
+  PRESENTED: 'PRESENTATION',
+  ARCHIVED: 'PRESERVATION',
+  DESTROYED: 'DISPOSAL',
+  RETURNED: 'RETURN',
+  DISPUTED: 'REVIEW',
+};
+
+const ACTIVITY_TYPES: Record<EvidenceLifecycleStatus, LifecycleActivityType> = {
+  COLLECTED: 'COLLECTION',
+  PROCESSING: 'PROCESSING',
+  ANALYZED: 'ANALYSIS',
+  READY: 'REVIEW',
+  PRESENTED: 'PRESENTATION',
+  ARCHIVED: 'ARCHIVAL',
+  DESTROYED: 'DESTRUCTION',
+  RETURNED: 'RETURN',
+  DISPUTED: 'DISPUTE',
+};
+
+const parseJson = (value: any, fallback: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? fallback);
+
+export const isTransitionAllowed = (from: EvidenceLifecycleStatus, to: EvidenceLifecycleStatus): boolean =>
+  LIFECYCLE_TRANSITIONS[from].includes(to);
+
+/**
+ * Preconditions for entering a status. Without an input (when listing the options)
+ * requirements met by what is supplied with the transition show as PENDING.
+ */
+export const lifecycleRequirements = (
+  toStatus: EvidenceLifecycleStatus,
+  context: LifecycleContext,
+  input?: Pick<LifecycleTransitionInput, 'results' | 'courtOrderReference' | 'dispositionId'>
+): LifecycleRequirement[] => {
+  const requirements: LifecycleRequirement[] = [];
+
+  if (toStatus === 'ANALYZED') {
+    requirements.push({
+      type: 'ANALYSIS_RESULTS',
+      description: 'Analysis results are recorded with the transition',
+      mandatory: true,
+      status: input?.results?.trim() ? 'COMPLETED' : 'PENDING',
+    });
+  }
+
+  if (toStatus === 'READY' || toStatus === 'PRESENTED') {
+    requirements.push({
+      type: 'CUSTODY_CHAIN_INTACT',
+      description: 'Custody ledger verifies from the first entry to the last',
+      mandatory: true,
+      status: context.custody.valid ? 'COMPLETED' : 'PENDING',
+      details: {
+        entriesChecked: context.custody.entriesChecked,
+        ...(context.custody.firstBrokenLink && { firstBrokenLink: context.custody.firstBrokenLink }),
+      },
+    });
+    requirements.push({
+      type: 'AUTHENTICITY_VERIFIED',
+      description: 'Authenticity has been verified by the legal team',
+      mandatory: true,
+      status: context.authenticityVerified ? 'COMPLETED' : 'PENDING',
+    });
+  }
+
+  if (toStatus === 'DESTROYED') {
+    requirements.push({
+      type: 'COURT_ORDER',
+      description: 'A court order authorising destruction is referenced',
+      mandatory: true,
+      status: input?.courtOrderReference?.trim() ? 'COMPLETED' : 'PENDING',
+    });
+  }
+
+  if (DISPOSED_STATUSES.includes(toStatus)) {
+    requirements.push({
+      type: 'DISPOSITION_APPROVED',
+      description: 'Carried out by a disposition request with two approvals',
+      mandatory: true,
+      status: input?.dispositionId ? 'COMPLETED' : 'PENDING',
+      ...(input?.dispositionId && { details: { dispositionId: input.dispositionId } }),
+    });
+    requirements.push({
+      type: 'NO_ACTIVE_LEGAL_HOLD',
+      description: 'No preservation order holds the item',
+      mandatory: true,
+      status: context.activeHolds.length === 0 ? 'COMPLETED' : 'PENDING',
+      ...(context.activeHolds.length > 0 && { details: { holds: context.activeHolds } }),
+    });
+  }
+
+  return requirements;
+};
+
+export const unmetRequirements = (requirements: LifecycleRequirement[]): LifecycleRequirement[] =>
+  requirements.filter(requirement => requirement.mandatory && requirement.status !== 'COMPLETED');
+
+export const mapActivityRow = (row: any): LifecycleActivity => ({
+  id: row.id,
+  evidenceId: row.evidence_id,
+  sequenceNumber: Number(row.sequence_number),
+  ...(row.from_status && { fromStatus: row.from_status }),
+  toStatus: row.to_status,
+  stage: row.stage,
+  activityType: row.activity_type,
+  description: row.description,
+  ...(row.results && { results: row.results }),
+  ...(row.court_order_reference && { courtOrderReference: row.court_order_reference }),
+  requirements: parseJson(row.requirements, []),
+  ...(row.notes && { notes: row.notes }),
+  performedBy: row.performed_by,
+  performedAt: row.performed_at,
+});
+
+const loadLifecycleContext = async (evidence: any): Promise<LifecycleContext> => {
+  const [custody, activeHolds] = await Promise.all([
+    verifyEvidenceCustody(evidence.id),
+    getActiveHolds('evidence', evidence.id),
+  ]);
+  return { authenticityVerified: Boolean(evidence.authenticity_verified), custody, activeHolds };
+};
+
+export const getLifecycleHistory = async (evidenceId: string): Promise<LifecycleActivity[]> => {
+  const rows = await database('evidence_lifecycle_activities')
+    .where({ evidence_id: evidenceId })
+    .orderBy('sequence_number', 'asc');
+  return rows.map(mapActivityRow);
+};
+
+export const getEvidenceLifecycle = async (evidenceId: string): Promise<EvidenceLifecycleState | null> => {
+  const evidence = await database('evidence_items')
+    .select('id', 'status', 'status_changed_at', 'authenticity_verified')
+    .where({ id: evidenceId })
+    .first();
+  if (!evidence) {
+    return null;
+  }
+
+  const status = evidence.status as EvidenceLifecycleStatus;
+  const [context, history] = await Promise.all([loadLifecycleContext(evidence), getLifecycleHistory(evidenceId)]);
+
+  return {
+    evidenceId,
+    status,
+    stage: LIFECYCLE_STAGES[status],
+    ...(evidence.status_changed_at && { statusChangedAt: evidence.status_changed_at }),
+    transitions: LIFECYCLE_TRANSITIONS[status].map(toStatus => ({
+      toStatus,
+      stage: LIFECYCLE_STAGES[toStatus],
+      requirements: lifecycleRequirements(toStatus, context),
+    })),
+    history,
+  };
+};
+
+/**
+ * Check a requested transition without making it
+ */
+export const evaluateTransition = async (
+  evidenceId: string,
+  input: LifecycleTransitionInput
+): Promise<TransitionEvaluation | null> => {
+  const evidence = await database('evidence_items')
+    .select('id', 'status', 'authenticity_verified')
+    .where({ id: evidenceId })
+    .first();
+  if (!evidence) {
+    return null;
+  }
+
+  const fromStatus = evidence.status as EvidenceLifecycleStatus;
+  if (!isTransitionAllowed(fromStatus, input.toStatus)) {
+    return { fromStatus, allowed: false, requirements: [] };
+  }
+
+  const context = await loadLifecycleContext(evidence);
+  return { fromStatus, allowed: true, requirements: lifecycleRequirements(input.toStatus, context, input) };
+};
+
+const insertActivity = async (
+  trx: Knex.Transaction,
+  evidenceId: string,
+  fields: Omit<LifecycleActivity, 'id' | 'evidenceId' | 'sequenceNumber' | 'stage' | 'activityType' | 'performedAt'>
+): Promise<LifecycleActivity> => {
+  const last = await trx('evidence_lifecycle_activities')
+    .where({ evidence_id: evidenceId })
+    .max('sequence_number as sequence')
+    .first();
+
+  const [row] = await trx('evidence_lifecycle_activities')
+    .insert({
+      evidence_id: evidenceId,
+      sequence_number: Number(last?.['sequence'] || 0) + 1,
+      from_status: fields.fromStatus || null,
+      to_status: fields.toStatus,
+      stage: LIFECYCLE_STAGES[fields.toStatus],
+      activity_type: ACTIVITY_TYPES[fields.toStatus],
+      description: fields.description,
+      results: fields.results || null,
+      court_order_reference: fields.courtOrderReference || null,
+      requirements: JSON.stringify(fields.requirements),
+      notes: fields.notes || null,
+      performed_by: fields.performedBy,
+      performed_at: new Date(),
+    })
+    .returning('*');
+
+  return mapActivityRow(row);
+};
+
+/**
+ * First history entry for a newly created evidence item, written in the creating transaction
+ */
+export const recordCollection = (trx: Knex.Transaction, evidenceId: string, userId: string): Promise<LifecycleActivity> =>
+  insertActivity(trx, evidenceId, {
+    toStatus: 'COLLECTED',
+    description: 'Evidence collected',
+    requirements: [],
+    performedBy: userId,
+  });
+
+/**
+ * Move evidence to a new status. The activity and the status change are written
+ * together; the database rejects status changes that no activity describes.
+ * Pass a transaction to make the transition part of a larger change.
+ */
+export const transitionEvidence = async (
+  evidenceId: string,
+  input: LifecycleTransitionInput,
+  userId: string,
+  db: Knex = database
+): Promise<LifecycleActivity> => {
+  const evaluation = await evaluateTransition(evidenceId, input);
+  if (!evaluation) {
+    throw new Error(`Evidence item ${evidenceId} not found`);
+  }
+  if (!evaluation.allowed) {
+    throw new Error(`Evidence cannot move from ${evaluation.fromStatus} to ${input.toStatus}`);
+  }
+  const unmet = unmetRequirements(evaluation.requirements);
+  if (unmet.length > 0) {
+    throw new Error(`Requirements not met for ${input.toStatus}: ${unmet.map(requirement => requirement.type).join(', ')}`);
+  }
+
+  return db.transaction(async trx => {
+    const current = await trx('evidence_items').select('status').where({ id: evidenceId }).forUpdate().first();
+    if (current?.status !== evaluation.fromStatus) {
+      throw new Error(`Evidence ${evidenceId} changed status during the transition`);
+    }
+
+    const activity = await insertActivity(trx, evidenceId, {
+      fromStatus: evaluation.fromStatus,
+      toStatus: input.toStatus,
+      description: input.description,
+      ...(input.results && { results: input.results }),
+      ...(input.courtOrderReference && { courtOrderReference: input.courtOrderReference }),
+      requirements: evaluation.requirements,
+      ...(input.notes && { notes: input.notes }),
+      performedBy: userId,
+    });
+
+    await trx('evidence_items')
+      .where({ id: evidenceId })
+      .update({ status: input.toStatus });
+
+    return activity;
+  });
+};
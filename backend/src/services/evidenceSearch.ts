@@ -0,0 +1,616 @@
+import { Knex } from 'knex';
+import database from '../config/database';
+import {
+  Document,
+  EvidenceSearchFilter,
+  EvidenceSearchHit,
+  EvidenceSearchQuery,
+  EvidenceSearchResult,
+  FacetValue,
+  RelevanceScore,
+  SavedSearch,
+  ScoreFactor,
+  SearchFacet,
+  SearchScope,
+} from '../types';
+import { SourcePrincipal, sourceAccessibleCondition } from './sourceProtection';
+import { resolveCaseEvidence } from './timeline';
+
+export const DEFAULT_SEARCH_SCOPE: SearchScope[] = ['FULL_TEXT'];
+export const DEFAULT_SEARCH_LIMIT = 20;
+const FACET_VALUE_LIMIT = 20;
+
+// Position + 1 is the clearance level needed to see an item (see clearanceForRole)
+const CLASSIFICATIONS: Document['classification'][] = ['public', 'internal', 'confidential', 'secret'];
+
+const classificationLevel = (column: string): string =>
+  `CASE ${column} ${CLASSIFICATIONS.map((name, index) => `WHEN '${name}' THEN ${index + 1}`).join(' ')} ELSE 0 END`;
+
+// Stricter of the item's own classification and its document's
+const EFFECTIVE_LEVEL =
+  `GREATEST(${classificationLevel('evidence_items.classification')}, ${classificationLevel('documents.classification')})`;
+const EFFECTIVE_CLASSIFICATION =
+  `(ARRAY[${CLASSIFICATIONS.map(name => `'${name}'`).join(', ')}])[${EFFECTIVE_LEVEL}]`;
+
+const CURRENT_CUSTODIAN = `(
+  SELECT custodian FROM evidence_custody_ledger
+  WHERE evidence_custody_ledger.evidence_id = evidence_items.id
+  ORDER BY sequence_number DESC LIMIT 1
+)`;
+
+// Same expression as idx_documents_search_text
+const DOCUMENT_TEXT = `to_tsvector('english', coalesce(documents.title, '') || ' ' || coalesce(documents.description, ''))`;
+
+const CUSTODY_MATCH = `EXISTS (
+  SELECT 1 FROM evidence_custody_ledger
+  WHERE evidence_custody_ledger.evidence_id = evidence_items.id
+  AND to_tsvector('english', concat_ws(' ', custodian_name, custodian_organization, reason_description, storage_location, notes))
+    @@ search.query
+)`;
+
+const RELATIONSHIP_MATCH = `EXISTS (
+  SELECT 1 FROM evidence_relationships
+  WHERE (source_evidence_id = evidence_items.id OR target_evidence_id = evidence_items.id)
+  AND to_tsvector('english', description || ' ' || coalesce(notes, '')) @@ search.query
+)`;
+
+type SearchFieldKind = 'text' | 'number' | 'boolean' | 'date' | 'list';
+
+interface SearchField {
+  expression: string;
+  kind: SearchFieldKind;
+  facet?: boolean;
+  sortable?: boolean;
+}
+
+export const SEARCH_FIELDS: Record<string, SearchField> = {
+  title: { expression: 'coalesce(evidence_items.title, documents.title)', kind: 'text', sortable: true },
+  evidenceType: { expression: 'evidence_items.evidence_type', kind: 'text', facet: true, sortable: true },
+  status: { expression: 'evidence_items.status', kind: 'text', facet: true, sortable: true },
+  classification: { expression: EFFECTIVE_CLASSIFICATION, kind: 'text', facet: true },
+  significanceLevel: { expression: 'evidence_items.significance_level', kind: 'number', facet: true, sortable: true },
+  authenticityVerified: { expression: 'evidence_items.authenticity_verified', kind: 'boolean', facet: true },
+  sourceStakeholderId: { expression: 'evidence_items.source_stakeholder_id', kind: 'text' },
+  custodian: { expression: CURRENT_CUSTODIAN, kind: 'text', facet: true },
+  keywords: { expression: 'evidence_items.keywords', kind: 'list', facet: true },
+  statutes: { expression: 'evidence_items.statutes', kind: 'list', facet: true },
+  tags: { expression: 'evidence_items.tags', kind: 'list', facet: true },
+  createdAt: { expression: 'evidence_items.created_at', kind: 'date', sortable: true },
+  verifiedAt: { expression: 'evidence_items.verified_at', kind: 'date', sortable: true },
+  statusChangedAt: { expression: 'evidence_items.status_changed_at', kind: 'date', sortable: true },
+};
+
+export const SEARCH_FILTER_FIELDS = Object.keys(SEARCH_FIELDS);
+export const SEARCH_FACET_FIELDS = SEARCH_FILTER_FIELDS.filter(field => SEARCH_FIELDS[field]!.facet);
+export const SEARCH_SORT_FIELDS = ['relevance', ...SEARCH_FILTER_FIELDS.filter(field => SEARCH_FIELDS[field]!.sortable)];
+export const SEARCH_SCOPES: SearchScope[] = ['EVIDENCE', 'METADATA', 'CUSTODY_RECORDS', 'RELATIONSHIPS', 'FULL_TEXT'];
+
+// Multipliers applied to each relevance factor before summing
+export const RELEVANCE_WEIGHTS = {
+  title: 1.0,
+  document: 0.5,
+  metadata: 0.7,
+  description: 0.4,
+  custody: 0.2,
+  relationships: 0.2,
+  significance: 0.2,
+  verified: 0.1,
+};
+
+export type RelevanceComponents = Record<keyof typeof RELEVANCE_WEIGHTS, number>;
+
+// Text-match components, each 0 unless a scope that covers it was searched.
+// ts_rank is given flat weights so the factor weights alone decide importance.
+const TEXT_COMPONENTS: { component: keyof RelevanceComponents; scopes: SearchScope[]; expression: string }[] = [
+  {
+    component: 'title',
+    scopes: ['EVIDENCE', 'FULL_TEXT'],
+    expression: `ts_rank('{1,1,1,1}', ts_filter(evidence_items.search_vector, '{a}'), search.query)`,
+  },
+  {
+    component: 'document',
+    scopes: ['EVIDENCE', 'FULL_TEXT'],
+    expression: `ts_rank('{1,1,1,1}', ${DOCUMENT_TEXT}, search.query)`,
+  },
+  {
+    component: 'metadata',
+    scopes: ['METADATA', 'FULL_TEXT'],
+    expression: `ts_rank('{1,1,1,1}', ts_filter(evidence_items.search_vector, '{b}'), search.query)`,
+  },
+  {
+    component: 'description',
+    scopes: ['EVIDENCE', 'FULL_TEXT'],
+    expression: `ts_rank('{1,1,1,1}', ts_filter(evidence_items.search_vector, '{c}'), search.query)`,
+  },
+  { component: 'custody', scopes: ['CUSTODY_RECORDS'], expression: `CASE WHEN ${CUSTODY_MATCH} THEN 1 ELSE 0 END` },
+  { component: 'relationships', scopes: ['RELATIONSHIPS'], expression: `CASE WHEN ${RELATIONSHIP_MATCH} THEN 1 ELSE 0 END` },
+];
+
+// Which part of the indexed text each scope matches against
+const SCOPE_MATCHES: Record<SearchScope, string> = {
+  FULL_TEXT: `(evidence_items.search_vector @@ search.query OR ${DOCUMENT_TEXT} @@ search.query)`,
+  EVIDENCE: `(ts_filter(evidence_items.search_vector, '{a,c}') @@ search.query OR ${DOCUMENT_TEXT} @@ search.query)`,
+  METADATA: `ts_filter(evidence_items.search_vector, '{b}') @@ search.query`,
+  CUSTODY_RECORDS: CUSTODY_MATCH,
+  RELATIONSHIPS: RELATIONSHIP_MATCH,
+};
+
+/**
+ * Who is searching: their classification clearance, the user source-protection
+ * restrictions are checked against and, for witnesses, the stakeholder whose
+ * evidence they are limited to (null when they have none)
+ */
+export interface SearchAccess {
+  clearance: number;
+  principal: SourcePrincipal;
+  sourceStakeholderId?: string | null;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  description?: string;
+  query: EvidenceSearchQuery;
+  shared: boolean;
+}
+
+/**
+ * Trim, collapse whitespace and drop case-insensitive duplicates, keeping the first spelling
+ */
+export const normalizeSearchTerms = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values
+    .map(value => value.replace(/\s+/g, ' ').trim())
+    .filter(value => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+};
+
+/**
+ * Fill in the defaults the request schema leaves out
+ */
+export const normalizeSearchQuery = (input: Partial<EvidenceSearchQuery>): EvidenceSearchQuery => ({
+  query: (input.query || '').trim(),
+  filters: input.filters || [],
+  ...(input.sort && { sort: input.sort }),
+  pagination: {
+    page: input.pagination?.page || 1,
+    limit: input.pagination?.limit || DEFAULT_SEARCH_LIMIT,
+  },
+  searchScope: input.searchScope && input.searchScope.length > 0 ? [...new Set(input.searchScope)] : DEFAULT_SEARCH_SCOPE,
+  ...(input.timeRange && { timeRange: input.timeRange }),
+  ...(input.caseId && { caseId: input.caseId }),
+  ...(input.facets && { facets: input.facets }),
+});
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const filterValue = (value: any, kind: SearchFieldKind): any => {
+  switch (kind) {
+    case 'number':
+      return Number(value);
+    case 'boolean':
+      return value === true || value === 'true';
+    case 'date':
+      return new Date(value);
+    default:
+      return String(value).toLowerCase();
+  }
+};
+
+/**
+ * SQL condition for a filter. Text comparisons ignore case. Filters on list
+ * fields (keywords, statutes, tags) pass when any element matches; NOT_EQUALS
+ * and NOT_IN pass when nothing matches, including items with no value.
+ */
+export const filterCondition = (filter: EvidenceSearchFilter): { sql: string; bindings: any[] } => {
+  const field = SEARCH_FIELDS[filter.field];
+  if (!field) {
+    throw new Error(`Unknown search field: ${filter.field}`);
+  }
+
+  const raw: any[] = Array.isArray(filter.value) ? filter.value : [filter.value];
+  const subject = field.kind === 'list'
+    ? 'lower(element.value)'
+    : field.kind === 'text' ? `lower(${field.expression})` : field.expression;
+
+  let test: string;
+  let bindings: any[];
+  switch (filter.operator) {
+    case 'EQUALS':
+    case 'NOT_EQUALS':
+    case 'IN':
+    case 'NOT_IN':
+      bindings = raw.map(value => filterValue(value, field.kind));
+      test = `${subject} IN (${bindings.map(() => '?').join(', ')})`;
+      break;
+    case 'CONTAINS':
+    case 'STARTS_WITH':
+    case 'ENDS_WITH': {
+      const text = escapeLike(String(raw[0]).toLowerCase());
+      const textSubject = field.kind === 'list' ? subject : `lower((${field.expression})::text)`;
+      test = `${textSubject} LIKE ?`;
+      bindings = [filter.operator === 'STARTS_WITH' ? `${text}%` : filter.operator === 'ENDS_WITH' ? `%${text}` : `%${text}%`];
+      break;
+    }
+    case 'GREATER_THAN':
+      test = `${subject} > ?`;
+      bindings = [filterValue(raw[0], field.kind)];
+      break;
+    case 'LESS_THAN':
+      test = `${subject} < ?`;
+      bindings = [filterValue(raw[0], field.kind)];
+      break;
+    case 'BETWEEN':
+      test = `${subject} BETWEEN ? AND ?`;
+      bindings = [filterValue(raw[0], field.kind), filterValue(raw[1], field.kind)];
+      break;
+    default:
+      throw new Error(`Unsupported filter operator: ${filter.operator}`);
+  }
+
+  const negated = filter.operator === 'NOT_EQUALS' || filter.operator === 'NOT_IN';
+  const matches = field.kind === 'list'
+    ? `EXISTS (SELECT 1 FROM jsonb_array_elements_text(${field.expression}) AS element(value) WHERE ${test})`
+    : `COALESCE(${test}, false)`;
+
+  return { sql: negated ? `NOT ${matches}` : matches, bindings };
+};
+
+/**
+ * Combine relevance components into a score with its breakdown. Weighted
+ * filters add their weight: every result has passed them.
+ */
+export const scoreRelevance = (
+  evidenceId: string,
+  components: RelevanceComponents,
+  filters: EvidenceSearchFilter[]
+): RelevanceScore => {
+  const factors: ScoreFactor[] = [
+    ...(Object.keys(RELEVANCE_WEIGHTS) as (keyof RelevanceComponents)[]).map(factor => ({
+      factor,
+      weight: RELEVANCE_WEIGHTS[factor],
+      contribution: RELEVANCE_WEIGHTS[factor] * components[factor],
+    })),
+    ...filters
+      .filter(filter => filter.weight)
+      .map(filter => ({ factor: `filter:${filter.field}`, weight: filter.weight!, contribution: filter.weight! })),
+  ]
+    .filter(factor => factor.contribution !== 0)
+    .map(factor => ({ ...factor, contribution: Math.round(factor.contribution * 10000) / 10000 }));
+
+  return {
+    evidenceId,
+    score: Math.round(factors.reduce((sum, factor) => sum + factor.contribution, 0) * 10000) / 10000,
+    factors,
+  };
+};
+
+/**
+ * Facet counts for a field. A value is selected when an EQUALS or IN filter on
+ * the field names it.
+ */
+export const buildFacet = (field: string, rows: { value: any; count: any }[], filters: EvidenceSearchFilter[]): SearchFacet => {
+  const selected = new Set(
+    filters
+      .filter(filter => filter.field === field && (filter.operator === 'EQUALS' || filter.operator === 'IN'))
+      .flatMap(filter => (Array.isArray(filter.value) ? filter.value : [filter.value]))
+      .map(value => String(value).toLowerCase())
+  );
+
+  return {
+    field,
+    values: rows.map(row => ({
+      value: row.value,
+      count: Number(row.count),
+      selected: selected.has(String(row.value).toLowerCase()),
+    })),
+  };
+};
+
+export const mapSearchHitRow = (row: any): EvidenceSearchHit => ({
+  id: row.id,
+  ...(row.title && { title: row.title }),
+  ...(row.description && { description: row.description }),
+  evidenceType: row.evidence_type,
+  status: row.status,
+  classification: row.effective_classification,
+  keywords: row.keywords || [],
+  statutes: row.statutes || [],
+  tags: row.tags || [],
+  ...(row.significance_level && { significanceLevel: row.significance_level }),
+  authenticityVerified: Boolean(row.authenticity_verified),
+  ...(row.source_stakeholder_id && { sourceStakeholderId: row.source_stakeholder_id }),
+  ...(row.custodian && { custodian: row.custodian }),
+  ...(row.document_id && {
+    document: {
+      id: row.document_id,
+      title: row.document_title,
+      classification: row.document_classification,
+    },
+  }),
+  createdAt: row.created_at,
+});
+
+export const mapSavedSearchRow = (row: any): SavedSearch => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  name: row.name,
+  ...(row.description && { description: row.description }),
+  query: typeof row.query === 'string' ? JSON.parse(row.query) : row.query,
+  shared: Boolean(row.shared),
+  ...(row.last_run_at && { lastRunAt: row.last_run_at }),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Evidence the searcher may see that matches the text, scopes, filters, time
+ * range and case, optionally leaving out filters on one field (for its facet)
+ */
+const matchingEvidence = (
+  search: EvidenceSearchQuery,
+  access: SearchAccess,
+  caseEvidenceIds: string[] | null,
+  excludeField?: string
+): Knex.QueryBuilder => {
+  const query = database('evidence_items')
+    .leftJoin('documents', 'evidence_items.document_id', 'documents.id')
+    .whereRaw(`${EFFECTIVE_LEVEL} <= ?`, [access.clearance]);
+
+  if (access.sourceStakeholderId === null) {
+    query.whereRaw('false');
+  } else if (access.sourceStakeholderId) {
+    query.where('evidence_items.source_stakeholder_id', access.sourceStakeholderId);
+  }
+
+  const accessible = sourceAccessibleCondition('evidence_items.id', access.principal, ['ACCESS']);
+  query.whereRaw(accessible.sql, accessible.bindings);
+
+  if (search.query) {
+    query.joinRaw(`CROSS JOIN websearch_to_tsquery('english', ?) AS search(query)`, [search.query]);
+    query.whereRaw(`(${search.searchScope.map(scope => SCOPE_MATCHES[scope]).join(' OR ')})`);
+  }
+
+  for (const filter of search.filters) {
+    if (filter.field !== excludeField) {
+      const { sql, bindings } = filterCondition(filter);
+      query.whereRaw(sql, bindings);
+    }
+  }
+
+  if (search.timeRange) {
+    const inclusive = search.timeRange.inclusive !== false;
+    query
+      .where('evidence_items.created_at', inclusive ? '>=' : '>', search.timeRange.from)
+      .where('evidence_items.created_at', inclusive ? '<=' : '<', search.timeRange.to);
+  }
+
+  if (caseEvidenceIds) {
+    query.whereIn('evidence_items.id', caseEvidenceIds);
+  }
+
+  return query;
+};
+
+const relevanceExpressions = (search: EvidenceSearchQuery): Record<keyof RelevanceComponents, string> => {
+  const expressions = {
+    significance: 'coalesce(evidence_items.significance_level, 0) / 10.0',
+    verified: 'CASE WHEN evidence_items.authenticity_verified THEN 1 ELSE 0 END',
+  } as Record<keyof RelevanceComponents, string>;
+
+  for (const { component, scopes, expression } of TEXT_COMPONENTS) {
+    const searched = search.query && scopes.some(scope => search.searchScope.includes(scope));
+    expressions[component] = searched ? expression : '0';
+  }
+  return expressions;
+};
+
+const facetRows = async (
+  field: string,
+  search: EvidenceSearchQuery,
+  access: SearchAccess,
+  caseEvidenceIds: string[] | null
+): Promise<{ value: any; count: any }[]> => {
+  const { expression, kind } = SEARCH_FIELDS[field]!;
+  const values = matchingEvidence(search, access, caseEvidenceIds, field)
+    .select(database.raw(`${kind === 'list' ? `jsonb_array_elements_text(${expression})` : expression} AS value`));
+
+  return database
+    .from(values.as('hits'))
+    .whereNotNull('value')
+    .select('value')
+    .count('* as count')
+    .groupBy('value')
+    .orderBy([{ column: 'count', order: 'desc' }, { column: 'value', order: 'asc' }])
+    .limit(FACET_VALUE_LIMIT);
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Custodians are user IDs or external entities; label the users with their email
+const labelCustodians = async (values: FacetValue[]): Promise<FacetValue[]> => {
+  const userIds = values.map(value => String(value.value)).filter(value => UUID_PATTERN.test(value));
+  const users = userIds.length > 0
+    ? await database('users').whereIn('id', userIds).select('id', 'email')
+    : [];
+  const emails = new Map(users.map((user: any) => [user.id, user.email]));
+
+  return values.map(value => ({
+    ...value,
+    ...(emails.has(value.value) && { label: emails.get(value.value) }),
+  }));
+};
+
+/**
+ * Full-text and structured evidence search with facet counts and relevance
+ * breakdowns. Facet counts for a field ignore the filters on that field, so
+ * they show what selecting another value would return.
+ */
+export const searchEvidence = async (
+  input: Partial<EvidenceSearchQuery>,
+  access: SearchAccess
+): Promise<EvidenceSearchResult> => {
+  const startedAt = Date.now();
+  const search = normalizeSearchQuery(input);
+  const { page, limit } = search.pagination;
+  const caseEvidenceIds = search.caseId ? await resolveCaseEvidence(search.caseId) : null;
+
+  const relevance = relevanceExpressions(search);
+  const relevanceOrder = (Object.keys(RELEVANCE_WEIGHTS) as (keyof RelevanceComponents)[])
+    .map(component => `${RELEVANCE_WEIGHTS[component]} * (${relevance[component]})`)
+    .join(' + ');
+
+  const sort = search.sort || { field: search.query ? 'relevance' : 'createdAt', direction: 'DESC' };
+  const direction = sort.direction === 'ASC' ? 'ASC' : 'DESC';
+  const sortExpression = sort.field === 'relevance' ? relevanceOrder : SEARCH_FIELDS[sort.field]!.expression;
+
+  const pageQuery = matchingEvidence(search, access, caseEvidenceIds)
+    .select(
+      'evidence_items.id',
+      database.raw('coalesce(evidence_items.title, documents.title) as title'),
+      'evidence_items.description',
+      'evidence_items.evidence_type',
+      'evidence_items.status',
+      'evidence_items.keywords',
+      'evidence_items.statutes',
+      'evidence_items.tags',
+      'evidence_items.significance_level',
+      'evidence_items.authenticity_verified',
+      'evidence_items.source_stakeholder_id',
+      'evidence_items.document_id',
+      'evidence_items.created_at',
+      'documents.title as document_title',
+      'documents.classification as document_classification',
+      database.raw(`${EFFECTIVE_CLASSIFICATION} as effective_classification`),
+      database.raw(`${CURRENT_CUSTODIAN} as custodian`),
+      ...(Object.keys(relevance) as (keyof RelevanceComponents)[])
+        .map(component => database.raw(`${relevance[component]} as rank_${component}`))
+    )
+    .orderByRaw(`${sortExpression} ${direction} NULLS LAST, evidence_items.created_at DESC, evidence_items.id ASC`)
+    .limit(limit)
+    .offset((page - 1) * limit);
+
+  const facetFields = (search.facets || SEARCH_FACET_FIELDS).filter(field => SEARCH_FIELDS[field]?.facet);
+
+  const [rows, totalRow, facetResults]: [any[], any, { value: any; count: any }[][]] = await Promise.all([
+    pageQuery,
+    matchingEvidence(search, access, caseEvidenceIds).count('* as count').first(),
+    Promise.all(facetFields.map(field => facetRows(field, search, access, caseEvidenceIds))),
+  ]);
+
+  const facets = facetFields.map((field, index) => buildFacet(field, facetResults[index]!, search.filters));
+  const custodianFacet = facets.find(facet => facet.field === 'custodian');
+  if (custodianFacet) {
+    custodianFacet.values = await labelCustodians(custodianFacet.values);
+  }
+
+  const total = Number(totalRow?.count ?? 0);
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    evidence: rows.map(mapSearchHitRow),
+    total,
+    facets,
+    searchTime: Date.now() - startedAt,
+    relevanceScores: rows.map(row => scoreRelevance(
+      row.id,
+      Object.fromEntries(
+        Object.keys(RELEVANCE_WEIGHTS).map(component => [component, Number(row[`rank_${component}`]) || 0])
+      ) as RelevanceComponents,
+      search.filters
+    )),
+    pagination: {
+      page,
+      limit,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrevious: page > 1,
+    },
+  };
+};
+
+/**
+ * Ids of every item the search matches, oldest first, up to limit. Used to
+ * target bulk operations at a search instead of a page of results.
+ */
+export const findEvidenceIds = async (
+  input: Partial<EvidenceSearchQuery>,
+  access: SearchAccess,
+  limit: number
+): Promise<string[]> => {
+  const search = normalizeSearchQuery(input);
+  const caseEvidenceIds = search.caseId ? await resolveCaseEvidence(search.caseId) : null;
+
+  const rows = await matchingEvidence(search, access, caseEvidenceIds)
+    .select('evidence_items.id')
+    .orderBy([{ column: 'evidence_items.created_at', order: 'asc' }, { column: 'evidence_items.id', order: 'asc' }])
+    .limit(limit);
+
+  return rows.map((row: any) => row.id);
+};
+
+// Saved searches
+
+/**
+ * The user's own saved searches and those shared with everyone
+ */
+export const getSavedSearches = async (userId: string): Promise<SavedSearch[]> => {
+  const rows = await database('saved_searches')
+    .where('owner_id', userId)
+    .orWhere('shared', true)
+    .orderBy('name', 'asc');
+
+  return rows.map(mapSavedSearchRow);
+};
+
+export const getSavedSearch = async (id: string): Promise<SavedSearch | null> => {
+  const row = await database('saved_searches').where({ id }).first();
+  return row ? mapSavedSearchRow(row) : null;
+};
+
+export const findSavedSearchByName = async (ownerId: string, name: string): Promise<SavedSearch | null> => {
+  const row = await database('saved_searches').where({ owner_id: ownerId, name }).first();
+  return row ? mapSavedSearchRow(row) : null;
+};
+
+export const createSavedSearch = async (input: SavedSearchInput, ownerId: string): Promise<SavedSearch> => {
+  const [row] = await database('saved_searches')
+    .insert({
+      owner_id: ownerId,
+      name: input.name,
+      description: input.description || null,
+      query: JSON.stringify(normalizeSearchQuery(input.query)),
+      shared: input.shared,
+    })
+    .returning('*');
+
+  return mapSavedSearchRow(row);
+};
+
+export const deleteSavedSearch = async (id: string): Promise<void> => {
+  await database('saved_searches').where({ id }).del();
+};
+
+/**
+ * Run a saved search with the runner's access, not the owner's
+ */
+export const runSavedSearch = async (
+  saved: SavedSearch,
+  access: SearchAccess,
+  pagination?: Partial<EvidenceSearchQuery['pagination']>
+): Promise<EvidenceSearchResult> => {
+  await database('saved_searches').where({ id: saved.id }).update({ last_run_at: database.fn.now() });
+
+  return searchEvidence({
+    ...saved.query,
+    pagination: {
+      page: pagination?.page || saved.query.pagination.page,
+      limit: pagination?.limit || saved.query.pagination.limit,
+    },
+  }, access);
+};
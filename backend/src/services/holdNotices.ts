@@ -0,0 +1,748 @@
+import crypto from 'crypto';
+import database from '../config/database';
+import {
+  HoldNotice,
+  HoldNoticeComplianceReport,
+  HoldNoticeDelivery,
+  HoldNoticeDeliveryKind,
+  HoldNoticeDeliveryStatus,
+  HoldNoticeFormat,
+  HoldNoticeTemplate,
+  PreservationScope,
+} from '../types';
+import { decryptFromDatabase, decryptText, encryptText, generateSecureToken } from '../utils/encryption';
+import { parseScope } from './legalHold';
+
+export const NOTICE_PLACEHOLDERS = [
+  'custodianName',
+  'orderNumber',
+  'issuedBy',
+  'issuedAt',
+  'courtCase',
+  'jurisdiction',
+  'legalAuthority',
+  'scopeSummary',
+  'dueDate',
+  'acknowledgementUrl',
+] as const;
+
+export type NoticePlaceholder = typeof NOTICE_PLACEHOLDERS[number];
+export type NoticeVariables = Partial<Record<NoticePlaceholder, string>>;
+
+export const DEFAULT_HOLD_NOTICE_TEMPLATE = {
+  subject: 'Legal hold notice: {{orderNumber}}',
+  body: [
+    'Dear {{custodianName}},',
+    '',
+    'You are receiving this notice because you hold information subject to preservation order {{orderNumber}}, issued by {{issuedBy}} on {{issuedAt}} ({{jurisdiction}}).',
+    '',
+    'Effective immediately, you must not delete, discard, alter or overwrite any documents, communications or other records, in any form, that fall within the following scope:',
+    '',
+    '{{scopeSummary}}',
+    '',
+    'This obligation overrides any retention schedule or routine deletion and stays in force until you are told in writing that the hold has been released.',
+    '',
+    'Please confirm that you have read and will comply with this notice by {{dueDate}}:',
+    '{{acknowledgementUrl}}',
+  ].join('\n'),
+  format: 'text' as HoldNoticeFormat,
+};
+
+export interface HoldNoticeRecipientInput {
+  name: string;
+  email: string;
+  stakeholderId?: string;
+}
+
+export interface HoldNoticeIssueOptions {
+  templateId?: string;
+  stakeholderIds?: string[];
+  recipients?: HoldNoticeRecipientInput[];
+  acknowledgeWithinDays: number;
+  reminderIntervalDays: number;
+  maxReminders: number;
+  escalationContact?: string;
+}
+
+export interface HoldNoticeIssueResult {
+  issued: HoldNotice[];
+  skipped: Array<{ stakeholderId?: string; name: string; reason: string }>;
+}
+
+export interface NoticeFollowUp {
+  reminder: boolean;
+  escalate: boolean;
+}
+
+export interface ClaimedNoticeDelivery extends HoldNoticeDelivery {
+  orderId: string;
+  orderNumber: string;
+  caseReference: string;
+}
+
+export type DeliveryResult = { sent: true; messageId: string } | { sent: false; error: string };
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_DELIVERY_ATTEMPTS = 5;
+// A claimed delivery that has not reported back within this window is offered again
+const CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+const OPEN_STATUSES = ['PENDING', 'ESCALATED'];
+
+const sha256 = (data: string): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Placeholders in a template that renderNoticeTemplate does not know about
+ */
+export const findUnknownPlaceholders = (text: string): string[] => {
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1] as string;
+    if (!(NOTICE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      unknown.add(name);
+    }
+  }
+  return [...unknown];
+};
+
+/**
+ * Fill in the given placeholders; any that are not supplied are left in place
+ * so the acknowledgement link can be added when each message is queued
+ */
+export const renderNoticeTemplate = (text: string, variables: NoticeVariables, format: HoldNoticeFormat): string =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = variables[name as NoticePlaceholder];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return format === 'html' ? escapeHtml(value) : value;
+  });
+
+/**
+ * Plain-language description of a preservation scope for custodians
+ */
+export const summarizeScope = (scope: PreservationScope): string => {
+  const lines: string[] = [];
+  if (scope.timeRange) {
+    lines.push(`- Period: ${formatDate(scope.timeRange.from)} to ${formatDate(scope.timeRange.to)}`);
+  }
+  if (scope.custodians?.length) {
+    lines.push(`- Custodians: ${scope.custodians.join(', ')}`);
+  }
+  if (scope.keywords?.length) {
+    lines.push(`- Subjects or keywords: ${scope.keywords.join(', ')}`);
+  }
+  const types = [...(scope.evidenceTypes || []), ...(scope.categories || [])];
+  if (types.length) {
+    lines.push(`- Types of material: ${types.join(', ')}`);
+  }
+  if (scope.locations?.length) {
+    lines.push(`- Locations: ${scope.locations.join(', ')}`);
+  }
+  return lines.join('\n');
+};
+
+export const hashAcknowledgementToken = (token: string): string => sha256(token);
+
+export const acknowledgementUrlFor = (token: string): string =>
+  `${process.env['HOLD_NOTICE_ACK_BASE_URL'] || '/api/hold-notices/acknowledge'}/${token}`;
+
+/**
+ * Email address from a stakeholder's contact_info, which may be stored encrypted
+ */
+export const contactEmailOf = (contactInfo: any): string | undefined => {
+  let info = typeof contactInfo === 'string' ? JSON.parse(contactInfo) : contactInfo;
+  if (info?.encryptedData) {
+    info = decryptFromDatabase(info.encryptedData, info);
+  }
+  const email = info?.email;
+  return typeof email === 'string' && email.trim() ? email.trim() : undefined;
+};
+
+/**
+ * Decide what is owed on an unacknowledged notice: the next scheduled reminder,
+ * and a one-off escalation once the acknowledgement deadline has passed
+ */
+export const planNoticeFollowUp = (notice: HoldNotice, now: Date): NoticeFollowUp => {
+  if (!OPEN_STATUSES.includes(notice.status)) {
+    return { reminder: false, escalate: false };
+  }
+  return {
+    reminder: Boolean(notice.nextReminderAt && notice.nextReminderAt <= now && notice.reminderCount < notice.maxReminders),
+    escalate: notice.status === 'PENDING' && notice.dueAt <= now,
+  };
+};
+
+export const mapTemplateRow = (row: any): HoldNoticeTemplate => ({
+  id: row.id,
+  name: row.name,
+  subject: row.subject,
+  body: row.body,
+  format: row.format,
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+export const mapNoticeRow = (row: any): HoldNotice => ({
+  id: row.id,
+  orderId: row.order_id,
+  ...(row.template_id && { templateId: row.template_id }),
+  ...(row.stakeholder_id && { stakeholderId: row.stakeholder_id }),
+  recipientName: row.recipient_name,
+  recipientEmail: row.recipient_email,
+  subject: row.subject,
+  body: row.body,
+  format: row.format,
+  status: row.status,
+  issuedBy: row.issued_by,
+  issuedAt: new Date(row.issued_at),
+  dueAt: new Date(row.due_at),
+  reminderIntervalDays: Number(row.reminder_interval_days),
+  maxReminders: Number(row.max_reminders),
+  reminderCount: Number(row.reminder_count),
+  ...(row.last_reminded_at && { lastRemindedAt: new Date(row.last_reminded_at) }),
+  ...(row.next_reminder_at && { nextReminderAt: new Date(row.next_reminder_at) }),
+  ...(row.escalation_contact && { escalationContact: row.escalation_contact }),
+  ...(row.escalated_at && { escalatedAt: new Date(row.escalated_at) }),
+  ...(row.acknowledged_at && { acknowledgedAt: new Date(row.acknowledged_at) }),
+  ...(row.acknowledged_name && { acknowledgedName: row.acknowledged_name }),
+  ...(row.withdrawn_at && { withdrawnAt: new Date(row.withdrawn_at) }),
+});
+
+export const mapDeliveryRow = (row: any): HoldNoticeDelivery => ({
+  id: row.id,
+  noticeId: row.notice_id,
+  kind: row.kind,
+  recipientAddress: row.recipient_address,
+  ...(row.recipient_name && { recipientName: row.recipient_name }),
+  subject: row.subject,
+  body: row.body,
+  format: row.format,
+  status: row.status,
+  attempts: Number(row.attempts),
+  queuedAt: new Date(row.queued_at),
+  ...(row.sent_at && { sentAt: new Date(row.sent_at) }),
+  ...(row.message_id && { messageId: row.message_id }),
+  ...(row.last_error && { lastError: row.last_error }),
+});
+
+/**
+ * Build the report that replaces the acknowledgement tracking spreadsheet
+ */
+export const summarizeNoticeCompliance = (
+  order: { id: string; orderNumber: string },
+  notices: HoldNotice[],
+  lastDeliveryStatus: Map<string, HoldNoticeDeliveryStatus>,
+  now: Date
+): HoldNoticeComplianceReport => {
+  const custodians = notices.map(notice => {
+    const deliveryStatus = lastDeliveryStatus.get(notice.id);
+    return {
+      noticeId: notice.id,
+      recipientName: notice.recipientName,
+      recipientEmail: notice.recipientEmail,
+      ...(notice.stakeholderId && { stakeholderId: notice.stakeholderId }),
+      status: notice.status,
+      issuedAt: notice.issuedAt,
+      dueAt: notice.dueAt,
+      overdue: OPEN_STATUSES.includes(notice.status) && notice.dueAt < now,
+      reminderCount: notice.reminderCount,
+      ...(notice.escalatedAt && { escalatedAt: notice.escalatedAt }),
+      ...(notice.acknowledgedAt && { acknowledgedAt: notice.acknowledgedAt }),
+      ...(notice.acknowledgedName && { acknowledgedName: notice.acknowledgedName }),
+      ...(deliveryStatus && { lastDeliveryStatus: deliveryStatus }),
+    };
+  });
+
+  const count = (predicate: (entry: typeof custodians[number]) => boolean) => custodians.filter(predicate).length;
+  const acknowledged = count(entry => entry.status === 'ACKNOWLEDGED');
+  const withdrawn = count(entry => entry.status === 'WITHDRAWN');
+  const live = custodians.length - withdrawn;
+
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    generatedAt: now,
+    totals: {
+      issued: custodians.length,
+      acknowledged,
+      outstanding: count(entry => OPEN_STATUSES.includes(entry.status)),
+      overdue: count(entry => entry.overdue),
+      escalated: count(entry => Boolean(entry.escalatedAt)),
+      withdrawn,
+      deliveryFailures: count(entry => entry.lastDeliveryStatus === 'FAILED'),
+    },
+    acknowledgementRate: live > 0 ? Math.round((acknowledged / live) * 1000) / 1000 : 0,
+    custodians,
+  };
+};
+
+const csvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoOrEmpty = (date?: Date): string => (date ? date.toISOString() : '');
+
+export const complianceReportCsv = (report: HoldNoticeComplianceReport): string => {
+  const header = [
+    'Custodian', 'Email', 'Status', 'Issued', 'Due', 'Overdue', 'Reminders', 'Escalated', 'Acknowledged', 'Acknowledged By', 'Last Delivery',
+  ];
+  const rows = report.custodians.map(entry => [
+    entry.recipientName,
+    entry.recipientEmail,
+    entry.status,
+    entry.issuedAt.toISOString(),
+    entry.dueAt.toISOString(),
+    entry.overdue ? 'yes' : 'no',
+    entry.reminderCount,
+    isoOrEmpty(entry.escalatedAt),
+    isoOrEmpty(entry.acknowledgedAt),
+    entry.acknowledgedName,
+    entry.lastDeliveryStatus,
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+export const createNoticeTemplate = async (
+  input: { name: string; subject: string; body: string; format: HoldNoticeFormat },
+  userId: string
+): Promise<HoldNoticeTemplate> => {
+  const [row] = await database('hold_notice_templates')
+    .insert({
+      name: input.name,
+      subject: input.subject,
+      body: input.body,
+      format: input.format,
+      created_by: userId,
+    })
+    .returning('*');
+
+  return mapTemplateRow(row);
+};
+
+export const listNoticeTemplates = async (): Promise<HoldNoticeTemplate[]> => {
+  const rows = await database('hold_notice_templates').orderBy('name', 'asc');
+  return rows.map(mapTemplateRow);
+};
+
+export const getNoticeTemplate = async (templateId: string): Promise<HoldNoticeTemplate | null> => {
+  const row = await database('hold_notice_templates').where({ id: templateId }).first();
+  return row ? mapTemplateRow(row) : null;
+};
+
+/**
+ * Render a queued message for a notice. Notices and reminders go to the custodian with
+ * the acknowledgement link filled in; escalations go to the escalation contact.
+ */
+const buildDelivery = (noticeRow: any, kind: HoldNoticeDeliveryKind, orderNumber: string) => {
+  if (kind === 'ESCALATION') {
+    return {
+      notice_id: noticeRow.id,
+      kind,
+      recipient_address: noticeRow.escalation_contact,
+      recipient_name: null,
+      subject: `Unacknowledged legal hold notice: ${orderNumber} (${noticeRow.recipient_name})`,
+      body: [
+        `${noticeRow.recipient_name} <${noticeRow.recipient_email}> has not acknowledged the legal hold notice for preservation order ${orderNumber}.`,
+        '',
+        `Issued: ${new Date(noticeRow.issued_at).toISOString()}`,
+        `Acknowledgement due: ${new Date(noticeRow.due_at).toISOString()}`,
+        `Reminders sent: ${noticeRow.reminder_count}`,
+        '',
+        'Please follow up with the custodian directly.',
+      ].join('\n'),
+      format: 'text',
+      status: 'QUEUED',
+    };
+  }
+
+  const format: HoldNoticeFormat = noticeRow.format;
+  const token = decryptText(noticeRow.ack_token_encrypted);
+  let body = renderNoticeTemplate(noticeRow.body, { acknowledgementUrl: acknowledgementUrlFor(token) }, format);
+  let subject = noticeRow.subject;
+
+  if (kind === 'REMINDER') {
+    const preface = `Reminder ${Number(noticeRow.reminder_count) + 1} of ${noticeRow.max_reminders}: `
+      + `please acknowledge the legal hold notice below by ${formatDate(new Date(noticeRow.due_at))}.`;
+    body = format === 'html' ? `<p><strong>${escapeHtml(preface)}</strong></p>\n${body}` : `${preface}\n\n${body}`;
+    subject = `Reminder: ${subject}`;
+  }
+
+  return {
+    notice_id: noticeRow.id,
+    kind,
+    recipient_address: noticeRow.recipient_email,
+    recipient_name: noticeRow.recipient_name,
+    subject,
+    body,
+    format,
+    status: 'QUEUED',
+  };
+};
+
+/**
+ * Issue notices to the custodians of an order. Without explicit recipients every
+ * stakeholder held under the order is noticed. Custodians who already have a notice
+ * for the order, or who have no email address, are skipped.
+ */
+export const issueHoldNotices = async (
+  orderId: string,
+  options: HoldNoticeIssueOptions,
+  userId: string
+): Promise<HoldNoticeIssueResult> => {
+  const order = await database('preservation_orders').where({ id: orderId }).first();
+  if (!order) {
+    throw new Error(`Preservation order ${orderId} not found`);
+  }
+
+  const template = options.templateId
+    ? await getNoticeTemplate(options.templateId)
+    : DEFAULT_HOLD_NOTICE_TEMPLATE;
+  if (!template) {
+    throw new Error(`Hold notice template ${options.templateId} not found`);
+  }
+
+  const stakeholderQuery = database('stakeholders').select('id', 'name', 'contact_info');
+  if (options.stakeholderIds) {
+    stakeholderQuery.whereIn('id', options.stakeholderIds);
+  } else if (!options.recipients) {
+    stakeholderQuery.whereIn('id', database('legal_hold_items')
+      .select('item_id')
+      .where({ order_id: orderId, item_type: 'stakeholder' })
+      .whereNull('released_at'));
+  } else {
+    stakeholderQuery.whereRaw('false');
+  }
+  const stakeholders = await stakeholderQuery;
+
+  const skipped: HoldNoticeIssueResult['skipped'] = [];
+  const recipients: HoldNoticeRecipientInput[] = [...(options.recipients || [])];
+  for (const stakeholder of stakeholders) {
+    const email = contactEmailOf(stakeholder.contact_info);
+    if (email) {
+      recipients.push({ name: stakeholder.name, email, stakeholderId: stakeholder.id });
+    } else {
+      skipped.push({ stakeholderId: stakeholder.id, name: stakeholder.name, reason: 'No email address on file' });
+    }
+  }
+
+  const issuedAt = new Date();
+  const dueAt = addDays(issuedAt, options.acknowledgeWithinDays);
+  const baseVariables: NoticeVariables = {
+    orderNumber: order.order_number,
+    issuedBy: order.issued_by,
+    issuedAt: formatDate(new Date(order.issued_at)),
+    courtCase: order.court_case || '',
+    jurisdiction: order.jurisdiction,
+    legalAuthority: order.legal_authority,
+    scopeSummary: summarizeScope(parseScope(order.scope)),
+    dueDate: formatDate(dueAt),
+  };
+
+  const issuedIds = await database.transaction(async trx => {
+    const existing = new Set<string>((await trx('hold_notices')
+      .where({ order_id: orderId })
+      .pluck('recipient_email')).map((email: string) => email.toLowerCase()));
+
+    const ids: string[] = [];
+    for (const recipient of recipients) {
+      const email = recipient.email.toLowerCase();
+      if (existing.has(email)) {
+        skipped.push({
+          ...(recipient.stakeholderId && { stakeholderId: recipient.stakeholderId }),
+          name: recipient.name,
+          reason: 'Already noticed under this order',
+        });
+        continue;
+      }
+      existing.add(email);
+
+      const variables = { ...baseVariables, custodianName: recipient.name };
+      const token = generateSecureToken(32);
+      const [row] = await trx('hold_notices').insert({
+        order_id: orderId,
+        template_id: options.templateId ?? null,
+        stakeholder_id: recipient.stakeholderId ?? null,
+        recipient_name: recipient.name,
+        recipient_email: email,
+        subject: renderNoticeTemplate(template.subject, variables, 'text'),
+        body: renderNoticeTemplate(template.body, variables, template.format),
+        format: template.format,
+        ack_token_hash: hashAcknowledgementToken(token),
+        ack_token_encrypted: encryptText(token),
+        status: 'PENDING',
+        issued_by: userId,
+        issued_at: issuedAt,
+        due_at: dueAt,
+        reminder_interval_days: options.reminderIntervalDays,
+        max_reminders: options.maxReminders,
+        next_reminder_at: options.maxReminders > 0 ? addDays(issuedAt, options.reminderIntervalDays) : null,
+        escalation_contact: options.escalationContact ?? null,
+      }).returning('*');
+
+      await trx('hold_notice_deliveries').insert(buildDelivery(row, 'NOTICE', order.order_number));
+      ids.push(row.id);
+    }
+    return ids;
+  });
+
+  const issued = issuedIds.length > 0
+    ? (await database('hold_notices').whereIn('id', issuedIds).orderBy('recipient_name', 'asc')).map(mapNoticeRow)
+    : [];
+
+  return { issued, skipped };
+};
+
+export const listHoldNotices = async (orderId: string): Promise<HoldNotice[]> => {
+  const rows = await database('hold_notices')
+    .where({ order_id: orderId })
+    .orderBy([{ column: 'recipient_name', order: 'asc' }, { column: 'issued_at', order: 'asc' }]);
+  return rows.map(mapNoticeRow);
+};
+
+export const getNoticeDeliveries = async (noticeId: string): Promise<HoldNoticeDelivery[]> => {
+  const rows = await database('hold_notice_deliveries')
+    .where({ notice_id: noticeId })
+    .orderBy('queued_at', 'asc');
+  return rows.map(mapDeliveryRow);
+};
+
+/**
+ * Queue the original notice again, e.g. after a delivery failure or a corrected address
+ */
+export const resendHoldNotice = async (noticeId: string): Promise<HoldNoticeDelivery> => {
+  const notice = await database('hold_notices')
+    .join('preservation_orders', 'hold_notices.order_id', 'preservation_orders.id')
+    .where('hold_notices.id', noticeId)
+    .select('hold_notices.*', 'preservation_orders.order_number')
+    .first();
+  if (!notice) {
+    throw new Error(`Hold notice ${noticeId} not found`);
+  }
+
+  const [row] = await database('hold_notice_deliveries')
+    .insert(buildDelivery(notice, 'NOTICE', notice.order_number))
+    .returning('*');
+
+  return mapDeliveryRow(row);
+};
+
+/**
+ * Look up a notice from the token in its acknowledgement link
+ */
+export const findHoldNoticeByToken = async (
+  token: string
+): Promise<{ notice: HoldNotice; orderNumber: string } | null> => {
+  if (!/^[0-9a-f]{64}$/.test(token)) {
+    return null;
+  }
+
+  const row = await database('hold_notices')
+    .join('preservation_orders', 'hold_notices.order_id', 'preservation_orders.id')
+    .where('hold_notices.ack_token_hash', hashAcknowledgementToken(token))
+    .select('hold_notices.*', 'preservation_orders.order_number')
+    .first();
+
+  return row ? { notice: mapNoticeRow(row), orderNumber: row.order_number } : null;
+};
+
+/**
+ * Record a custodian's acknowledgement and stop any further reminders
+ */
+export const acknowledgeHoldNotice = async (
+  noticeId: string,
+  details: { name: string; ip?: string; userAgent?: string }
+): Promise<HoldNotice> => {
+  const acknowledgedAt = new Date();
+
+  await database.transaction(async trx => {
+    await trx('hold_notices')
+      .where({ id: noticeId })
+      .whereIn('status', OPEN_STATUSES)
+      .update({
+        status: 'ACKNOWLEDGED',
+        acknowledged_at: acknowledgedAt,
+        acknowledged_name: details.name,
+        acknowledged_ip: details.ip ?? null,
+        acknowledged_user_agent: details.userAgent ?? null,
+        next_reminder_at: null,
+      });
+
+    await trx('hold_notice_deliveries')
+      .where({ notice_id: noticeId, kind: 'REMINDER', status: 'QUEUED' })
+      .update({ status: 'CANCELLED' });
+  });
+
+  return mapNoticeRow(await database('hold_notices').where({ id: noticeId }).first());
+};
+
+/**
+ * Queue reminders that have fallen due and escalate notices past their acknowledgement
+ * deadline. Only notices under orders that are still in force are followed up.
+ * Intended to be run on a schedule.
+ */
+export const processHoldNoticeSchedule = async (
+  now: Date = new Date()
+): Promise<{ reminders: number; escalations: number }> => {
+  const due = await database('hold_notices')
+    .join('preservation_orders', 'hold_notices.order_id', 'preservation_orders.id')
+    .whereIn('hold_notices.status', OPEN_STATUSES)
+    .whereNotIn('preservation_orders.status', ['EXPIRED', 'TERMINATED'])
+    .where(function() {
+      this.where('hold_notices.next_reminder_at', '<=', now)
+        .orWhere(function() {
+          this.where('hold_notices.status', 'PENDING').where('hold_notices.due_at', '<=', now);
+        });
+    })
+    .select('hold_notices.id', 'preservation_orders.order_number');
+
+  let reminders = 0;
+  let escalations = 0;
+
+  for (const { id, order_number: orderNumber } of due) {
+    await database.transaction(async trx => {
+      const row = await trx('hold_notices').where({ id }).forUpdate().first();
+      const plan = planNoticeFollowUp(mapNoticeRow(row), now);
+      const updates: Record<string, any> = {};
+
+      if (plan.reminder) {
+        await trx('hold_notice_deliveries').insert(buildDelivery(row, 'REMINDER', orderNumber));
+        const reminderCount = Number(row.reminder_count) + 1;
+        updates['reminder_count'] = reminderCount;
+        updates['last_reminded_at'] = now;
+        updates['next_reminder_at'] = reminderCount < Number(row.max_reminders)
+          ? addDays(now, Number(row.reminder_interval_days))
+          : null;
+        reminders++;
+      }
+
+      if (plan.escalate) {
+        if (row.escalation_contact) {
+          await trx('hold_notice_deliveries').insert(buildDelivery(row, 'ESCALATION', orderNumber));
+        }
+        updates['status'] = 'ESCALATED';
+        updates['escalated_at'] = now;
+        escalations++;
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await trx('hold_notices').where({ id }).update(updates);
+      }
+    });
+  }
+
+  return { reminders, escalations };
+};
+
+/**
+ * Hand queued messages to the communication layer. Claimed messages are marked
+ * SENDING and must be reported back with recordDeliveryResult.
+ */
+export const claimNoticeDeliveries = async (limit: number): Promise<ClaimedNoticeDelivery[]> => {
+  const now = new Date();
+
+  const ids = await database.transaction(async trx => {
+    const claimable = await trx('hold_notice_deliveries')
+      .where('status', 'QUEUED')
+      .orWhere(function() {
+        this.where('status', 'SENDING').where('claimed_at', '<', new Date(now.getTime() - CLAIM_TIMEOUT_MS));
+      })
+      .orderBy('queued_at', 'asc')
+      .limit(limit)
+      .forUpdate()
+      .skipLocked()
+      .pluck('id');
+
+    if (claimable.length > 0) {
+      await trx('hold_notice_deliveries')
+        .whereIn('id', claimable)
+        .update({ status: 'SENDING', claimed_at: now, attempts: trx.raw('attempts + 1') });
+    }
+    return claimable;
+  });
+
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const rows = await database('hold_notice_deliveries')
+    .join('hold_notices', 'hold_notice_deliveries.notice_id', 'hold_notices.id')
+    .join('preservation_orders', 'hold_notices.order_id', 'preservation_orders.id')
+    .whereIn('hold_notice_deliveries.id', ids)
+    .orderBy('hold_notice_deliveries.queued_at', 'asc')
+    .select(
+      'hold_notice_deliveries.*',
+      'hold_notices.order_id',
+      'preservation_orders.order_number',
+      'preservation_orders.court_case'
+    );
+
+  return rows.map((row: any) => ({
+    ...mapDeliveryRow(row),
+    orderId: row.order_id,
+    orderNumber: row.order_number,
+    caseReference: row.court_case || row.order_number,
+  }));
+};
+
+/**
+ * Record the outcome of a claimed delivery. Failures are retried until
+ * MAX_DELIVERY_ATTEMPTS is reached.
+ */
+export const recordDeliveryResult = async (deliveryId: string, result: DeliveryResult): Promise<HoldNoticeDelivery> => {
+  const delivery = await database('hold_notice_deliveries').where({ id: deliveryId }).first();
+  if (!delivery) {
+    throw new Error(`Hold notice delivery ${deliveryId} not found`);
+  }
+
+  const updates = result.sent
+    ? { status: 'SENT', sent_at: new Date(), message_id: result.messageId, last_error: null }
+    : {
+      status: Number(delivery.attempts) >= MAX_DELIVERY_ATTEMPTS ? 'FAILED' : 'QUEUED',
+      last_error: result.error,
+    };
+
+  const [row] = await database('hold_notice_deliveries')
+    .where({ id: deliveryId })
+    .update(updates)
+    .returning('*');
+
+  return mapDeliveryRow(row);
+};
+
+export const getHoldNoticeComplianceReport = async (orderId: string): Promise<HoldNoticeComplianceReport> => {
+  const order = await database('preservation_orders').where({ id: orderId }).first();
+  if (!order) {
+    throw new Error(`Preservation order ${orderId} not found`);
+  }
+
+  const notices = await listHoldNotices(orderId);
+  const deliveries = notices.length > 0
+    ? await database('hold_notice_deliveries')
+      .distinctOn('notice_id')
+      .whereIn('notice_id', notices.map(notice => notice.id))
+      .whereIn('kind', ['NOTICE', 'REMINDER'])
+      .orderBy([{ column: 'notice_id' }, { column: 'queued_at', order: 'desc' }])
+      .select('notice_id', 'status')
+    : [];
+
+  const lastDeliveryStatus = new Map<string, HoldNoticeDeliveryStatus>(
+    deliveries.map((row: any) => [row.notice_id, row.status])
+  );
+
+  return summarizeNoticeCompliance({ id: order.id, orderNumber: order.order_number }, notices, lastDeliveryStatus, new Date());
+};
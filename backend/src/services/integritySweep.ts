@@ -0,0 +1,560 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import database from '../config/database';
+import {
+  CustodyLedgerEntry,
+  CustodyVerificationResult,
+  IntegrityCheck,
+  IntegrityCheckItemType,
+  IntegrityCoverage,
+  IntegrityDashboard,
+  IntegritySweep,
+  TamperCheckType,
+  TamperIndicator,
+  TamperIndicatorType,
+} from '../types';
+import { getCustodyLedger, getCustodyVerificationKeys, verifyCustodyChain } from './custodyLedger';
+import { DISPOSED_STATUSES } from './evidenceLifecycle';
+import { calculateFileChecksum, decryptFile } from '../utils/encryption';
+import { logSecurity } from '../utils/logger';
+
+export const DEFAULT_SWEEP_INTERVAL_HOURS = 24;
+const DEFAULT_SWEEP_BATCH_SIZE = 500;
+
+// A RUNNING sweep older than this is assumed to have died with its process
+const STALE_SWEEP_HOURS = 12;
+
+const SEVERITY_DEDUCTIONS: Record<TamperIndicator['severity'], number> = {
+  CRITICAL: 40,
+  HIGH: 25,
+  MEDIUM: 15,
+  LOW: 5,
+};
+
+export type StoredFileHash = { hash: string } | { error: string };
+
+export interface IntegrityEvaluation {
+  indicators: TamperIndicator[];
+  expectedHash?: string;
+  actualHash?: string;
+}
+
+export interface EvidenceIntegrityInput {
+  integrityHash?: string;
+  documentHash?: string;
+  stored?: StoredFileHash; // Absent when the evidence has no stored file
+  custody: CustodyVerificationResult;
+  custodyIntegrityHash?: string; // Fingerprint recorded on the latest custody entry
+}
+
+const positiveIntegerFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Hours after which an item is due for another check (INTEGRITY_SWEEP_INTERVAL_HOURS)
+ */
+export const getSweepIntervalHours = (): number =>
+  positiveIntegerFromEnv('INTEGRITY_SWEEP_INTERVAL_HOURS', DEFAULT_SWEEP_INTERVAL_HOURS);
+
+/**
+ * Same deductions as IntegrityService.performTamperCheck
+ */
+export const integrityScore = (indicators: TamperIndicator[]): number =>
+  Math.max(0, 100 - indicators.reduce((total, indicator) => total + SEVERITY_DEDUCTIONS[indicator.severity], 0));
+
+/**
+ * Decrypt a stored file to a temporary location and hash the plaintext.
+ * Uploads store a path relative to uploads/documents; imports store an absolute path.
+ */
+export const hashStoredFile = async (filePath: string): Promise<StoredFileHash> => {
+  const encryptedPath = path.isAbsolute(filePath)
+    ? filePath
+    : path.join(process.cwd(), 'uploads', 'documents', filePath);
+
+  const tempDir = path.join(process.cwd(), 'uploads', 'temp');
+  await fs.mkdir(tempDir, { recursive: true });
+  const tempPath = path.join(tempDir, `${uuidv4()}-integrity`);
+
+  try {
+    await decryptFile(encryptedPath, tempPath);
+    return { hash: await calculateFileChecksum(tempPath) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+};
+
+const storedFileIndicators = (expectedHash: string, stored: StoredFileHash): TamperIndicator[] => {
+  if ('error' in stored) {
+    return [{
+      type: 'FILE_MODIFICATION',
+      severity: 'CRITICAL',
+      description: 'Stored file is missing or no longer decrypts',
+      evidence: stored.error,
+      confidence: 90,
+    }];
+  }
+
+  if (stored.hash !== expectedHash) {
+    return [{
+      type: 'HASH_MISMATCH',
+      severity: 'CRITICAL',
+      description: 'SHA256 hash does not match original',
+      evidence: `Original: ${expectedHash}, Current: ${stored.hash}`,
+      confidence: 95,
+    }];
+  }
+
+  return [];
+};
+
+/**
+ * Compare a re-hashed document against the hash recorded at upload
+ */
+export const evaluateDocumentIntegrity = (recordedHash: string, stored: StoredFileHash): IntegrityEvaluation => ({
+  indicators: storedFileIndicators(recordedHash, stored),
+  expectedHash: recordedHash,
+  ...('hash' in stored && { actualHash: stored.hash }),
+});
+
+/**
+ * Check an evidence item: its fingerprint against the document it was taken from,
+ * the re-hashed file against the fingerprint, and the custody ledger
+ */
+export const evaluateEvidenceIntegrity = (input: EvidenceIntegrityInput): IntegrityEvaluation => {
+  const indicators: TamperIndicator[] = [];
+  const { integrityHash, documentHash, stored, custody, custodyIntegrityHash } = input;
+
+  if (integrityHash && documentHash && integrityHash !== documentHash) {
+    indicators.push({
+      type: 'METADATA_CHANGE',
+      severity: 'HIGH',
+      description: 'Evidence fingerprint no longer matches the hash recorded for its document',
+      evidence: `Evidence: ${integrityHash}, Document: ${documentHash}`,
+      confidence: 90,
+    });
+  }
+
+  const expectedHash = integrityHash ?? documentHash;
+  if (expectedHash && stored) {
+    indicators.push(...storedFileIndicators(expectedHash, stored));
+  }
+
+  if (integrityHash && custodyIntegrityHash && integrityHash !== custodyIntegrityHash) {
+    indicators.push({
+      type: 'METADATA_CHANGE',
+      severity: 'HIGH',
+      description: 'Evidence fingerprint differs from the one recorded in the custody ledger',
+      evidence: `Evidence: ${integrityHash}, Ledger: ${custodyIntegrityHash}`,
+      confidence: 90,
+    });
+  }
+
+  if (custody.firstBrokenLink) {
+    const { reason, sequenceNumber, message } = custody.firstBrokenLink;
+    indicators.push({
+      type: reason === 'SIGNATURE_INVALID' || reason === 'UNKNOWN_SIGNING_KEY' ? 'SIGNATURE_INVALID' : 'METADATA_CHANGE',
+      severity: 'CRITICAL',
+      description: `Custody ledger broken at entry ${sequenceNumber}: ${message}`,
+      evidence: reason,
+      confidence: 98,
+    });
+  }
+
+  return {
+    indicators,
+    ...(expectedHash && { expectedHash }),
+    ...(stored && 'hash' in stored && { actualHash: stored.hash }),
+  };
+};
+
+export const mapCheckRow = (row: any): IntegrityCheck => ({
+  id: row.id,
+  ...(row.sweep_id && { sweepId: row.sweep_id }),
+  itemType: row.item_type,
+  itemId: row.item_id,
+  checkType: row.check_type,
+  ...(row.checked_by && { checkedBy: row.checked_by }),
+  checkedAt: row.checked_at,
+  tamperDetected: row.tamper_detected,
+  tamperIndicators: row.tamper_indicators,
+  integrityScore: Number(row.integrity_score),
+  checkMethod: row.check_method,
+  tools: row.tools,
+  ...(row.expected_hash && { expectedHash: row.expected_hash }),
+  ...(row.actual_hash && { actualHash: row.actual_hash }),
+  ...(row.notes && { notes: row.notes }),
+});
+
+export const mapSweepRow = (row: any): IntegritySweep => ({
+  id: row.id,
+  status: row.status,
+  ...(row.triggered_by && { triggeredBy: row.triggered_by }),
+  intervalHours: Number(row.interval_hours),
+  documentsChecked: Number(row.documents_checked),
+  evidenceChecked: Number(row.evidence_checked),
+  tamperDetected: Number(row.tamper_detected),
+  errors: Number(row.errors),
+  ...(row.failure_reason && { failureReason: row.failure_reason }),
+  startedAt: row.started_at,
+  ...(row.completed_at && { completedAt: row.completed_at }),
+});
+
+interface CheckContext {
+  sweepId?: string;
+  checkType: TamperCheckType;
+  checkedBy?: string;
+}
+
+/**
+ * Store a check and copy its result onto the checked row. Tampering is raised
+ * into the security log, which feeds security monitoring.
+ */
+const recordCheck = async (
+  itemType: IntegrityCheckItemType,
+  itemId: string,
+  evaluation: IntegrityEvaluation,
+  context: CheckContext
+): Promise<IntegrityCheck> => {
+  const score = integrityScore(evaluation.indicators);
+  const tamperDetected = evaluation.indicators.length > 0;
+  const checkedAt = new Date();
+  const tools = itemType === 'EVIDENCE'
+    ? ['SHA256', 'AES-256-GCM', 'Custody_Ledger']
+    : ['SHA256', 'AES-256-GCM'];
+
+  const row = await database.transaction(async trx => {
+    const [inserted] = await trx('integrity_checks').insert({
+      sweep_id: context.sweepId ?? null,
+      item_type: itemType,
+      item_id: itemId,
+      check_type: context.checkType,
+      checked_by: context.checkedBy ?? null,
+      checked_at: checkedAt,
+      tamper_detected: tamperDetected,
+      tamper_indicators: JSON.stringify(evaluation.indicators),
+      integrity_score: score,
+      check_method: itemType === 'EVIDENCE' ? 'STORED_FILE_REHASH_AND_CUSTODY_VERIFICATION' : 'STORED_FILE_REHASH',
+      tools: JSON.stringify(tools),
+      expected_hash: evaluation.expectedHash ?? null,
+      actual_hash: evaluation.actualHash ?? null,
+      notes: `Integrity check completed. Score: ${score}/100. ${tamperDetected ? 'Potential tampering detected.' : 'No tampering detected.'}`,
+    }).returning('*');
+
+    await trx(itemType === 'EVIDENCE' ? 'evidence_items' : 'documents')
+      .where({ id: itemId })
+      .update({
+        last_integrity_check: checkedAt,
+        last_integrity_score: score,
+        tamper_detected: tamperDetected,
+      });
+
+    return inserted;
+  });
+
+  const check = mapCheckRow(row);
+
+  if (tamperDetected) {
+    logSecurity('integrity_tamper_detected', {
+      itemType,
+      itemId,
+      checkId: check.id,
+      sweepId: context.sweepId,
+      checkType: context.checkType,
+      integrityScore: score,
+      indicators: evaluation.indicators.map(indicator => ({ type: indicator.type, severity: indicator.severity })),
+    });
+  }
+
+  return check;
+};
+
+const checkDocument = async (row: any, context: CheckContext): Promise<IntegrityCheck> => {
+  const stored = await hashStoredFile(row.file_path);
+  return recordCheck('DOCUMENT', row.id, evaluateDocumentIntegrity(row.file_hash, stored), context);
+};
+
+const checkEvidence = async (
+  row: any,
+  context: CheckContext,
+  storedHashes: Map<string, StoredFileHash> = new Map()
+): Promise<IntegrityCheck> => {
+  let stored: StoredFileHash | undefined;
+  if (row.document_id && row.document_file_path) {
+    stored = storedHashes.get(row.document_id) ?? await hashStoredFile(row.document_file_path);
+  }
+
+  const entries: CustodyLedgerEntry[] = await getCustodyLedger(row.id);
+  const lastEntry = entries[entries.length - 1];
+
+  const evaluation = evaluateEvidenceIntegrity({
+    ...(row.integrity_hash && { integrityHash: row.integrity_hash }),
+    ...(row.document_file_hash && { documentHash: row.document_file_hash }),
+    ...(stored && { stored }),
+    custody: verifyCustodyChain(row.id, entries, getCustodyVerificationKeys()),
+    ...(lastEntry?.evidenceIntegrityHash && { custodyIntegrityHash: lastEntry.evidenceIntegrityHash }),
+  });
+
+  return recordCheck('EVIDENCE', row.id, evaluation, context);
+};
+
+const evidenceQuery = () => database('evidence_items')
+  .leftJoin('documents', 'evidence_items.document_id', 'documents.id')
+  .select(
+    'evidence_items.id',
+    'evidence_items.document_id',
+    'evidence_items.integrity_hash',
+    'documents.file_path as document_file_path',
+    'documents.file_hash as document_file_hash'
+  );
+
+/**
+ * Start a sweep. Returns null while another sweep is still running.
+ */
+export const startIntegritySweep = async (triggeredBy?: string): Promise<IntegritySweep | null> => {
+  const staleBefore = new Date(Date.now() - STALE_SWEEP_HOURS * 60 * 60 * 1000);
+
+  await database('integrity_sweeps')
+    .where('status', 'RUNNING')
+    .where('started_at', '<', staleBefore)
+    .update({ status: 'FAILED', failure_reason: 'Sweep did not finish', completed_at: new Date() });
+
+  const [row] = await database('integrity_sweeps')
+    .insert({
+      status: 'RUNNING',
+      triggered_by: triggeredBy ?? null,
+      interval_hours: getSweepIntervalHours(),
+    })
+    .onConflict()
+    .ignore() // uq_integrity_sweeps_running
+    .returning('*');
+
+  return row ? mapSweepRow(row) : null;
+};
+
+/**
+ * Re-hash every document and evidence item not checked within the sweep interval,
+ * oldest check first, in batches of INTEGRITY_SWEEP_BATCH_SIZE of each until none
+ * are due. A failure on one item is counted and the sweep moves on without
+ * retrying it.
+ */
+export const processIntegritySweep = async (sweep: IntegritySweep): Promise<IntegritySweep> => {
+  const batchSize = positiveIntegerFromEnv('INTEGRITY_SWEEP_BATCH_SIZE', DEFAULT_SWEEP_BATCH_SIZE);
+  const dueBefore = new Date(sweep.startedAt.getTime() - sweep.intervalHours * 60 * 60 * 1000);
+  const context: CheckContext = { sweepId: sweep.id, checkType: 'ROUTINE' };
+  const counts = { documents_checked: 0, evidence_checked: 0, tamper_detected: 0, errors: 0 };
+
+  // Checked items are no longer due; failed ones still are, so skip them explicitly
+  const failedDocuments: string[] = [];
+  const failedEvidence: string[] = [];
+
+  const isDue = (table: string) => function(this: any) {
+    this.whereNull(`${table}.last_integrity_check`).orWhere(`${table}.last_integrity_check`, '<', dueBefore);
+  };
+
+  try {
+    let moreDue = true;
+
+    while (moreDue) {
+      const storedHashes = new Map<string, StoredFileHash>();
+
+      const documents = await database('documents')
+        .whereNotNull('file_path')
+        .whereNotNull('file_hash')
+        .whereNotIn('id', failedDocuments)
+        .where(isDue('documents'))
+        .orderByRaw('last_integrity_check ASC NULLS FIRST')
+        .limit(batchSize)
+        .select('id', 'file_path', 'file_hash');
+
+      for (const row of documents) {
+        try {
+          const check = await checkDocument(row, context);
+          storedHashes.set(row.id, check.actualHash ? { hash: check.actualHash } : { error: 'Stored file unreadable' });
+          counts.documents_checked++;
+          if (check.tamperDetected) {
+            counts.tamper_detected++;
+          }
+        } catch (error) {
+          failedDocuments.push(row.id);
+          counts.errors++;
+        }
+      }
+
+      const evidence = await evidenceQuery()
+        .whereNotIn('evidence_items.status', DISPOSED_STATUSES)
+        .whereNotIn('evidence_items.id', failedEvidence)
+        .where(isDue('evidence_items'))
+        .orderByRaw('evidence_items.last_integrity_check ASC NULLS FIRST')
+        .limit(batchSize);
+
+      for (const row of evidence) {
+        try {
+          const check = await checkEvidence(row, context, storedHashes);
+          counts.evidence_checked++;
+          if (check.tamperDetected) {
+            counts.tamper_detected++;
+          }
+        } catch (error) {
+          failedEvidence.push(row.id);
+          counts.errors++;
+        }
+      }
+
+      moreDue = documents.length === batchSize || evidence.length === batchSize;
+
+      // Progress for anyone polling the sweep
+      await database('integrity_sweeps').where({ id: sweep.id }).update(counts);
+    }
+
+    const [row] = await database('integrity_sweeps')
+      .where({ id: sweep.id })
+      .update({ ...counts, status: 'COMPLETED', completed_at: new Date() })
+      .returning('*');
+
+    return mapSweepRow(row);
+  } catch (error) {
+    const [row] = await database('integrity_sweeps')
+      .where({ id: sweep.id })
+      .update({
+        ...counts,
+        status: 'FAILED',
+        failure_reason: error instanceof Error ? error.message : String(error),
+        completed_at: new Date(),
+      })
+      .returning('*');
+
+    return mapSweepRow(row);
+  }
+};
+
+/**
+ * Start and run a sweep to completion. The server runs this every
+ * INTEGRITY_SWEEP_INTERVAL_HOURS.
+ */
+export const runIntegritySweep = async (triggeredBy?: string): Promise<IntegritySweep | null> => {
+  const sweep = await startIntegritySweep(triggeredBy);
+  return sweep ? processIntegritySweep(sweep) : null;
+};
+
+/**
+ * Check a single item now, outside the sweep cadence. Returns null for
+ * evidence that does not exist and documents with no stored file or recorded hash.
+ */
+export const checkIntegrityItem = async (
+  itemType: IntegrityCheckItemType,
+  itemId: string,
+  checkType: TamperCheckType,
+  checkedBy: string
+): Promise<IntegrityCheck | null> => {
+  const context: CheckContext = { checkType, checkedBy };
+
+  if (itemType === 'DOCUMENT') {
+    const row = await database('documents').where({ id: itemId }).select('id', 'file_path', 'file_hash').first();
+    if (!row?.file_path || !row.file_hash) {
+      return null;
+    }
+    return checkDocument(row, context);
+  }
+
+  const row = await evidenceQuery().where('evidence_items.id', itemId).first();
+  if (!row) {
+    return null;
+  }
+  return checkEvidence(row, context);
+};
+
+/**
+ * Check history of an item, newest first
+ */
+export const getIntegrityChecks = async (itemType: IntegrityCheckItemType, itemId: string): Promise<IntegrityCheck[]> => {
+  const rows = await database('integrity_checks')
+    .where({ item_type: itemType, item_id: itemId })
+    .orderBy('checked_at', 'desc')
+    .limit(100);
+
+  return rows.map(mapCheckRow);
+};
+
+export const getIntegritySweep = async (id: string): Promise<IntegritySweep | null> => {
+  const row = await database('integrity_sweeps').where({ id }).first();
+  return row ? mapSweepRow(row) : null;
+};
+
+const getCoverage = async (table: 'evidence_items' | 'documents', dueBefore: Date): Promise<IntegrityCoverage> => {
+  const query = database(table)
+    .select(
+      database.raw('count(*) as total'),
+      database.raw('count(*) filter (where last_integrity_check >= ?) as checked', [dueBefore]),
+      database.raw('count(*) filter (where tamper_detected) as tampered'),
+      database.raw('avg(last_integrity_score) as average_score')
+    );
+
+  if (table === 'documents') {
+    query.whereNotNull('file_path').whereNotNull('file_hash');
+  } else {
+    query.whereNotIn('status', DISPOSED_STATUSES);
+  }
+
+  const row: any = await query.first();
+  const total = Number(row.total);
+  const checked = Number(row.checked);
+
+  return {
+    total,
+    checkedWithinInterval: checked,
+    overdue: total - checked,
+    tampered: Number(row.tampered),
+    ...(row.average_score !== null && { averageScore: Math.round(Number(row.average_score) * 10) / 10 }),
+  };
+};
+
+/**
+ * Coverage of the sweep, the last sweep, and recent tamper alerts
+ */
+export const getIntegrityDashboard = async (): Promise<IntegrityDashboard> => {
+  const now = new Date();
+  const intervalHours = getSweepIntervalHours();
+  const dueBefore = new Date(now.getTime() - intervalHours * 60 * 60 * 1000);
+  const alertsSince = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+  const [evidence, documents, lastSweep, indicatorRows, alerts] = await Promise.all([
+    getCoverage('evidence_items', dueBefore),
+    getCoverage('documents', dueBefore),
+    database('integrity_sweeps').orderBy('started_at', 'desc').first(),
+    database
+      .select('indicator_type')
+      .count('* as count')
+      .from(
+        database('integrity_checks')
+          .where('tamper_detected', true)
+          .where('checked_at', '>=', alertsSince)
+          .select(database.raw("jsonb_array_elements(tamper_indicators)->>'type' as indicator_type"))
+          .as('indicators')
+      )
+      .groupBy('indicator_type'),
+    database('integrity_checks')
+      .where('tamper_detected', true)
+      .orderBy('checked_at', 'desc')
+      .limit(20),
+  ]);
+
+  const indicatorCounts: Partial<Record<TamperIndicatorType, number>> = {};
+  for (const row of indicatorRows as any[]) {
+    indicatorCounts[row.indicator_type as TamperIndicatorType] = Number(row.count);
+  }
+
+  return {
+    intervalHours,
+    evidence,
+    documents,
+    ...(lastSweep && { lastSweep: mapSweepRow(lastSweep) }),
+    indicatorCounts,
+    recentAlerts: alerts.map(mapCheckRow),
+    generatedAt: now,
+  };
+};
@@ -0,0 +1,543 @@
+import database from '../config/database';
+import {
+  ActiveLegalHold,
+  LegalHoldItem,
+  LegalHoldItemType,
+  PreservationOrder,
+  PreservationRequirement,
+  PreservationScope,
+} from '../types';
+
+export interface HoldCandidate {
+  itemType: Exclude<LegalHoldItemType, 'stakeholder'>;
+  itemId: string;
+  occurredAt?: Date;
+  custodians: string[];
+  text: string[];
+  types: string[];
+  locations: string[];
+  linkedDocumentId?: string;
+}
+
+export interface ScopeMatchCounts {
+  evidence: number;
+  document: number;
+  communication: number;
+  stakeholder: number;
+}
+
+export interface PreservationRequirementInput {
+  type: PreservationRequirement['type'];
+  description: string;
+  mandatory?: boolean;
+  deadline?: Date;
+}
+
+export interface PreservationOrderInput {
+  orderNumber: string;
+  issuedBy: string;
+  issuedAt: Date;
+  expiresAt?: Date;
+  scope: PreservationScope;
+  requirements: PreservationRequirementInput[];
+  jurisdiction: string;
+  courtCase?: string;
+  legalAuthority: string;
+}
+
+// Orders keep their items on hold until they expire or are terminated
+const RELEASED_STATUSES = ['EXPIRED', 'TERMINATED'];
+const MATCH_BATCH_SIZE = 500;
+
+const lower = (values: Array<string | null | undefined>): string[] =>
+  values.filter((value): value is string => Boolean(value)).map(value => value.toLowerCase());
+
+const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? undefined);
+
+export const parseScope = (value: any): PreservationScope => {
+  const scope = parseJson(value) || {};
+  return {
+    ...(scope.timeRange && {
+      timeRange: { from: new Date(scope.timeRange.from), to: new Date(scope.timeRange.to) },
+    }),
+    evidenceTypes: scope.evidenceTypes || [],
+    categories: scope.categories || [],
+    keywords: scope.keywords || [],
+    custodians: scope.custodians || [],
+    locations: scope.locations || [],
+  };
+};
+
+export const hasScopeCriteria = (scope: PreservationScope): boolean =>
+  Boolean(scope.timeRange) ||
+  [scope.evidenceTypes, scope.categories, scope.keywords, scope.custodians, scope.locations]
+    .some(values => values.length > 0);
+
+/**
+ * Whether an item falls within an order's scope. Every criterion set on the
+ * scope must match (any value within a criterion will do); an item type with
+ * no field for a criterion cannot satisfy it. A scope with no criteria matches nothing.
+ */
+export const scopeMatches = (candidate: HoldCandidate, scope: PreservationScope): boolean => {
+  if (!hasScopeCriteria(scope)) {
+    return false;
+  }
+
+  if (scope.timeRange) {
+    if (!candidate.occurredAt) {
+      return false;
+    }
+    const time = candidate.occurredAt.getTime();
+    if (time < scope.timeRange.from.getTime() || time > scope.timeRange.to.getTime()) {
+      return false;
+    }
+  }
+
+  if (scope.custodians.length > 0) {
+    const custodians = new Set(lower(candidate.custodians));
+    if (!lower(scope.custodians).some(custodian => custodians.has(custodian))) {
+      return false;
+    }
+  }
+
+  if (scope.keywords.length > 0) {
+    const text = lower(candidate.text).join('\n');
+    if (!lower(scope.keywords).some(keyword => text.includes(keyword))) {
+      return false;
+    }
+  }
+
+  const types = [...scope.evidenceTypes, ...scope.categories];
+  if (types.length > 0) {
+    const candidateTypes = new Set(lower(candidate.types));
+    if (!lower(types).some(type => candidateTypes.has(type))) {
+      return false;
+    }
+  }
+
+  if (scope.locations.length > 0) {
+    const locations = lower(candidate.locations);
+    if (!lower(scope.locations).some(location => locations.some(candidateLocation => candidateLocation.includes(location)))) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Whether a stakeholder is named as a custodian, by ID or name
+ */
+export const isNamedCustodian = (stakeholder: { id: string; name?: string }, scope: PreservationScope): boolean => {
+  const custodians = new Set(lower(scope.custodians));
+  return custodians.has(stakeholder.id.toLowerCase()) ||
+    (stakeholder.name !== undefined && custodians.has(stakeholder.name.toLowerCase()));
+};
+
+const candidateQuery = (itemType: HoldCandidate['itemType']) => {
+  switch (itemType) {
+    case 'evidence':
+      return database('evidence_items as item')
+        .leftJoin('documents', 'item.document_id', 'documents.id')
+        .select(
+          'item.id',
+          'item.document_id',
+          'item.evidence_type',
+          'item.source_stakeholder_id',
+          'item.notes',
+          'item.created_at',
+          'documents.title as document_title',
+          database.raw(`coalesce(
+            (select json_agg(distinct l.custodian) from evidence_custody_ledger l where l.evidence_id = item.id),
+            '[]'::json
+          ) as ledger_custodians`),
+          database.raw(`(
+            select l.storage_location from evidence_custody_ledger l
+            where l.evidence_id = item.id order by l.sequence_number desc limit 1
+          ) as storage_location`)
+        );
+    case 'document':
+      return database('documents as item')
+        .select('item.id', 'item.title', 'item.description', 'item.custodian', 'item.uploaded_by',
+          'item.document_date', 'item.created_at');
+    case 'communication':
+      return database('communications as item')
+        .select('item.id', 'item.communication_type', 'item.subject', 'item.summary', 'item.participants',
+          'item.initiated_by', 'item.occurred_at', 'item.location');
+  }
+};
+
+export const toHoldCandidate = (itemType: HoldCandidate['itemType'], row: any): HoldCandidate => {
+  switch (itemType) {
+    case 'evidence':
+      return {
+        itemType,
+        itemId: row.id,
+        occurredAt: new Date(row.created_at),
+        custodians: [row.source_stakeholder_id, ...(parseJson(row.ledger_custodians) || [])],
+        text: [row.notes, row.document_title, row.evidence_type],
+        types: [row.evidence_type],
+        locations: [row.storage_location],
+        ...(row.document_id && { linkedDocumentId: row.document_id }),
+      };
+    case 'document':
+      return {
+        itemType,
+        itemId: row.id,
+        occurredAt: new Date(row.document_date || row.created_at),
+        custodians: [row.custodian, row.uploaded_by],
+        text: [row.title, row.description],
+        types: [],
+        locations: [],
+      };
+    case 'communication':
+      return {
+        itemType,
+        itemId: row.id,
+        occurredAt: new Date(row.occurred_at),
+        custodians: [row.initiated_by, ...(parseJson(row.participants) || [])],
+        text: [row.subject, row.summary],
+        types: [row.communication_type],
+        locations: [row.location],
+      };
+  }
+};
+
+export const mapRequirementRow = (row: any): PreservationRequirement => ({
+  id: row.id,
+  orderId: row.order_id,
+  type: row.type,
+  description: row.description,
+  mandatory: Boolean(row.mandatory),
+  ...(row.deadline && { deadline: new Date(row.deadline) }),
+  status: row.status,
+  ...(row.completed_by && { completedBy: row.completed_by }),
+  ...(row.completed_at && { completedAt: new Date(row.completed_at) }),
+  ...(row.notes && { notes: row.notes }),
+});
+
+export const mapOrderRow = (row: any, requirements: PreservationRequirement[] = []): PreservationOrder => ({
+  id: row.id,
+  orderNumber: row.order_number,
+  issuedBy: row.issued_by,
+  issuedAt: new Date(row.issued_at),
+  ...(row.expires_at && { expiresAt: new Date(row.expires_at) }),
+  scope: parseScope(row.scope),
+  requirements,
+  jurisdiction: row.jurisdiction,
+  ...(row.court_case && { courtCase: row.court_case }),
+  legalAuthority: row.legal_authority,
+  status: row.status,
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  ...(row.last_matched_at && { lastMatchedAt: new Date(row.last_matched_at) }),
+  ...(row.released_by && { releasedBy: row.released_by }),
+  ...(row.released_at && { releasedAt: new Date(row.released_at) }),
+  ...(row.release_reason && { releaseReason: row.release_reason }),
+});
+
+export const mapHoldRow = (row: any): LegalHoldItem => ({
+  id: row.id,
+  orderId: row.order_id,
+  itemType: row.item_type,
+  itemId: row.item_id,
+  matchSource: row.match_source,
+  ...(row.placed_by && { placedBy: row.placed_by }),
+  placedAt: new Date(row.placed_at),
+  ...(row.released_at && { releasedAt: new Date(row.released_at) }),
+});
+
+/**
+ * Orders that are currently holding items: not expired, terminated or past their expiry date
+ */
+const holdingOrders = () =>
+  database('preservation_orders')
+    .whereNotIn('preservation_orders.status', RELEASED_STATUSES)
+    .where(function() {
+      this.whereNull('preservation_orders.expires_at').orWhere('preservation_orders.expires_at', '>', new Date());
+    });
+
+export const getPreservationOrder = async (orderId: string): Promise<PreservationOrder | null> => {
+  const row = await database('preservation_orders').where({ id: orderId }).first();
+  if (!row) {
+    return null;
+  }
+
+  const requirements = await database('preservation_requirements')
+    .where({ order_id: orderId })
+    .orderBy([{ column: 'deadline', order: 'asc' }, { column: 'created_at', order: 'asc' }]);
+
+  return mapOrderRow(row, requirements.map(mapRequirementRow));
+};
+
+export const createPreservationOrder = async (
+  input: PreservationOrderInput,
+  userId: string
+): Promise<PreservationOrder> => {
+  const orderId = await database.transaction(async trx => {
+    const [row] = await trx('preservation_orders').insert({
+      order_number: input.orderNumber,
+      issued_by: input.issuedBy,
+      issued_at: input.issuedAt,
+      expires_at: input.expiresAt ?? null,
+      scope: JSON.stringify(input.scope),
+      jurisdiction: input.jurisdiction,
+      court_case: input.courtCase ?? null,
+      legal_authority: input.legalAuthority,
+      status: 'ACTIVE',
+      created_by: userId,
+    }).returning('id');
+    const id = typeof row === 'object' ? row.id : row;
+
+    if (input.requirements.length > 0) {
+      await trx('preservation_requirements').insert(input.requirements.map(requirement => ({
+        order_id: id,
+        type: requirement.type,
+        description: requirement.description,
+        mandatory: requirement.mandatory ?? true,
+        deadline: requirement.deadline ?? null,
+        status: 'PENDING',
+      })));
+    }
+
+    return id;
+  });
+
+  return (await getPreservationOrder(orderId))!;
+};
+
+/**
+ * Place holds on every item currently within an order's scope. Evidence that
+ * matches also holds its underlying document. Existing holds are left as they are.
+ */
+export const matchPreservationOrder = async (orderId: string, userId?: string): Promise<ScopeMatchCounts> => {
+  const order = await database('preservation_orders').where({ id: orderId }).first();
+  if (!order) {
+    throw new Error(`Preservation order ${orderId} not found`);
+  }
+
+  const scope = parseScope(order.scope);
+  const counts: ScopeMatchCounts = { evidence: 0, document: 0, communication: 0, stakeholder: 0 };
+
+  const placeHolds = async (
+    itemType: LegalHoldItemType,
+    itemIds: string[],
+    matchSource: LegalHoldItem['matchSource']
+  ): Promise<number> => {
+    if (itemIds.length === 0) {
+      return 0;
+    }
+
+    const inserted = await database('legal_hold_items')
+      .insert(itemIds.map(itemId => ({
+        order_id: orderId,
+        item_type: itemType,
+        item_id: itemId,
+        match_source: matchSource,
+        placed_by: userId ?? null,
+      })))
+      .onConflict(['order_id', 'item_type', 'item_id'])
+      .ignore()
+      .returning('id');
+
+    return inserted.length;
+  };
+
+  for (const itemType of ['evidence', 'document', 'communication'] as const) {
+    let lastId: string | undefined;
+
+    for (;;) {
+      let query = candidateQuery(itemType).orderBy('item.id').limit(MATCH_BATCH_SIZE);
+      if (lastId) {
+        query = query.where('item.id', '>', lastId);
+      }
+
+      const rows = await query;
+      if (rows.length === 0) {
+        break;
+      }
+      lastId = rows[rows.length - 1].id;
+
+      const matched = rows.map((row: any) => toHoldCandidate(itemType, row)).filter(candidate => scopeMatches(candidate, scope));
+      counts[itemType] += await placeHolds(itemType, matched.map(candidate => candidate.itemId), 'SCOPE');
+
+      const linkedDocuments = matched
+        .map(candidate => candidate.linkedDocumentId)
+        .filter((documentId): documentId is string => Boolean(documentId));
+      counts.document += await placeHolds('document', [...new Set(linkedDocuments)], 'LINKED_EVIDENCE');
+    }
+  }
+
+  if (scope.custodians.length > 0) {
+    const stakeholders = await database('stakeholders').select('id', 'name');
+    const named = stakeholders.filter((stakeholder: any) => isNamedCustodian(stakeholder, scope));
+    counts.stakeholder += await placeHolds('stakeholder', named.map((stakeholder: any) => stakeholder.id), 'SCOPE');
+  }
+
+  await database('preservation_orders')
+    .where({ id: orderId })
+    .update({ last_matched_at: new Date() });
+
+  return counts;
+};
+
+/**
+ * Preservation orders currently holding an item. Besides recorded holds, the
+ * scope of every in-force order is checked against the item as it is now, so
+ * items created since the last matching run are protected too.
+ */
+export const getActiveHolds = async (itemType: LegalHoldItemType, itemId: string): Promise<ActiveLegalHold[]> => {
+  const holds = new Map<string, ActiveLegalHold>();
+
+  const recorded = await holdingOrders()
+    .join('legal_hold_items', 'legal_hold_items.order_id', 'preservation_orders.id')
+    .where({ 'legal_hold_items.item_type': itemType, 'legal_hold_items.item_id': itemId })
+    .whereNull('legal_hold_items.released_at')
+    .select('preservation_orders.id', 'preservation_orders.order_number', 'legal_hold_items.match_source');
+
+  for (const row of recorded) {
+    holds.set(row.id, { orderId: row.id, orderNumber: row.order_number, matchSource: row.match_source });
+  }
+
+  const orders = (await holdingOrders().select('id', 'order_number', 'scope'))
+    .filter((order: any) => !holds.has(order.id))
+    .map((order: any) => ({ id: order.id, orderNumber: order.order_number, scope: parseScope(order.scope) }));
+
+  if (orders.length === 0) {
+    return [...holds.values()];
+  }
+
+  if (itemType === 'stakeholder') {
+    const stakeholder = await database('stakeholders').select('id', 'name').where({ id: itemId }).first();
+    for (const order of orders) {
+      if (stakeholder && isNamedCustodian(stakeholder, order.scope)) {
+        holds.set(order.id, { orderId: order.id, orderNumber: order.orderNumber, matchSource: 'SCOPE' });
+      }
+    }
+    return [...holds.values()];
+  }
+
+  const row = await candidateQuery(itemType).where('item.id', itemId).first();
+  const candidate = row ? toHoldCandidate(itemType, row) : undefined;
+
+  // A document is also held through any evidence item built on it
+  const linkedEvidence = itemType === 'document' ?
+    (await candidateQuery('evidence').where('item.document_id', itemId)).map((evidence: any) => toHoldCandidate('evidence', evidence)) :
+    [];
+
+  for (const order of orders) {
+    if (candidate && scopeMatches(candidate, order.scope)) {
+      holds.set(order.id, { orderId: order.id, orderNumber: order.orderNumber, matchSource: 'SCOPE' });
+    } else if (linkedEvidence.some(evidence => scopeMatches(evidence, order.scope))) {
+      holds.set(order.id, { orderId: order.id, orderNumber: order.orderNumber, matchSource: 'LINKED_EVIDENCE' });
+    }
+  }
+
+  return [...holds.values()];
+};
+
+/**
+ * Hold an item by hand, regardless of the order's scope
+ */
+export const placeManualHold = async (
+  orderId: string,
+  itemType: LegalHoldItemType,
+  itemId: string,
+  userId: string
+): Promise<LegalHoldItem> => {
+  const [row] = await database('legal_hold_items')
+    .insert({
+      order_id: orderId,
+      item_type: itemType,
+      item_id: itemId,
+      match_source: 'MANUAL',
+      placed_by: userId,
+    })
+    .onConflict(['order_id', 'item_type', 'item_id'])
+    .merge({ released_at: null })
+    .returning('*');
+
+  return mapHoldRow(row);
+};
+
+/**
+ * Release a hold placed by hand. Holds that come from the order's scope or
+ * linked evidence stay until the order is released. Returns null when the
+ * item has no active manual hold under the order.
+ */
+export const releaseManualHold = async (
+  orderId: string,
+  itemType: LegalHoldItemType,
+  itemId: string
+): Promise<LegalHoldItem | null> => {
+  const [row] = await database('legal_hold_items')
+    .where({ order_id: orderId, item_type: itemType, item_id: itemId, match_source: 'MANUAL' })
+    .whereNull('released_at')
+    .update({ released_at: new Date() })
+    .returning('*');
+
+  return row ? mapHoldRow(row) : null;
+};
+
+/**
+ * Terminate an order and release everything it was holding
+ */
+export const releasePreservationOrder = async (
+  orderId: string,
+  userId: string,
+  reason: string
+): Promise<PreservationOrder> => {
+  const releasedAt = new Date();
+
+  await database.transaction(async trx => {
+    await trx('preservation_orders')
+      .where({ id: orderId })
+      .update({
+        status: 'TERMINATED',
+        released_by: userId,
+        released_at: releasedAt,
+        release_reason: reason,
+        updated_at: releasedAt,
+      });
+
+    await trx('legal_hold_items')
+      .where({ order_id: orderId })
+      .whereNull('released_at')
+      .update({ released_at: releasedAt });
+
+    // Custodians no longer owe an acknowledgement, so stop chasing them
+    const noticeIds = trx('hold_notices').select('id').where({ order_id: orderId });
+    await trx('hold_notices')
+      .where({ order_id: orderId })
+      .whereIn('status', ['PENDING', 'ESCALATED'])
+      .update({ status: 'WITHDRAWN', withdrawn_at: releasedAt, next_reminder_at: null });
+    await trx('hold_notice_deliveries')
+      .whereIn('notice_id', noticeIds)
+      .where({ status: 'QUEUED' })
+      .update({ status: 'CANCELLED' });
+  });
+
+  return (await getPreservationOrder(orderId))!;
+};
+
+/**
+ * Expire orders past their expiry date and flag requirements that have missed
+ * their deadline. Run before orders or requirements are read.
+ */
+export const refreshPreservationStatuses = async (): Promise<{ expiredOrders: number; overdueRequirements: number }> => {
+  const now = new Date();
+
+  const expiredOrders = await database('preservation_orders')
+    .whereNotIn('status', RELEASED_STATUSES)
+    .where('expires_at', '<=', now)
+    .update({ status: 'EXPIRED', updated_at: now });
+
+  const overdueRequirements = await database('preservation_requirements')
+    .whereIn('status', ['PENDING', 'IN_PROGRESS'])
+    .where('deadline', '<', now)
+    .whereIn('order_id', database('preservation_orders').select('id').whereNotIn('status', RELEASED_STATUSES))
+    .update({ status: 'OVERDUE' });
+
+  return { expiredOrders, overdueRequirements };
+};
@@ -0,0 +1,547 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import database from '../config/database';
+import {
+  Document,
+  LoadFileDateFormat,
+  LoadFileField,
+  LoadFileFieldMapping,
+  LoadFileImportResult,
+  LoadFileOptions,
+  LoadFileRecord,
+} from '../types';
+import { encryptFile } from '../utils/encryption';
+
+/**
+ * Standard Concordance delimiters: DC4 between fields, thorn as text qualifier,
+ * registered sign in place of line breaks inside a field
+ */
+export const DAT_DELIMITERS = {
+  field: '\u0014',
+  quote: 'þ',
+  newline: '®',
+} as const;
+
+export const DEFAULT_EXPORT_FIELD_MAP: LoadFileFieldMapping[] = [
+  { header: 'BEGBATES', field: 'batesBegin' },
+  { header: 'ENDBATES', field: 'batesEnd' },
+  { header: 'PAGECOUNT', field: 'pageCount' },
+  { header: 'CUSTODIAN', field: 'custodian' },
+  { header: 'DATESENT', field: 'dateSent' },
+  { header: 'SHA256HASH', field: 'hash' },
+  { header: 'CLASSIFICATION', field: 'classification' },
+  { header: 'FILENAME', field: 'fileName' },
+  { header: 'NATIVELINK', field: 'nativeLink' },
+  { header: 'EVIDENCEID', field: 'evidenceId' },
+];
+
+// Header names commonly used by review platforms, matched case-insensitively on import
+const IMPORT_HEADER_ALIASES: Record<LoadFileField, string[]> = {
+  batesBegin: ['BEGBATES', 'BEGDOC', 'BATESBEGIN', 'BATES_BEGIN', 'PRODBEG', 'BEGNO', 'DOCID'],
+  batesEnd: ['ENDBATES', 'ENDDOC', 'BATESEND', 'BATES_END', 'PRODEND', 'ENDNO'],
+  pageCount: ['PAGECOUNT', 'PAGES', 'PGCOUNT'],
+  custodian: ['CUSTODIAN', 'CUSTODIANS', 'ALLCUSTODIANS'],
+  dateSent: ['DATESENT', 'SENTDATE', 'DATE_SENT', 'DOCDATE', 'DATECREATED'],
+  hash: ['SHA256HASH', 'SHA256', 'SHA1HASH', 'SHA1', 'MD5HASH', 'MD5', 'HASH'],
+  classification: ['CLASSIFICATION', 'CONFIDENTIALITY', 'DESIGNATION'],
+  fileName: ['FILENAME', 'FILE_NAME', 'ORIGINALFILENAME'],
+  title: ['TITLE', 'SUBJECT', 'EMAILSUBJECT'],
+  mimeType: ['MIMETYPE', 'FILETYPE'],
+  nativeLink: ['NATIVELINK', 'NATIVEPATH', 'NATIVE', 'FILEPATH'],
+  evidenceId: ['EVIDENCEID'],
+  documentId: ['DOCUMENTID'],
+  evidenceType: ['EVIDENCETYPE'],
+};
+
+const IMAGE_MIME_TYPES = ['image/tiff', 'image/jpeg', 'image/png'];
+
+export interface LoadFileSourceItem {
+  evidenceId?: string;
+  documentId?: string;
+  evidenceType?: string;
+  custodian?: string;
+  dateSent?: Date;
+  hash?: string;
+  classification?: string;
+  fileName?: string;
+  title?: string;
+  mimeType?: string;
+  pageCount?: number;
+  content?: Buffer;
+}
+
+export interface LoadFileProductionFile {
+  name: string;
+  data: Buffer;
+  evidenceId?: string;
+  description: string;
+}
+
+export interface LoadFileProduction {
+  records: LoadFileRecord[];
+  files: LoadFileProductionFile[];
+  nextBatesNumber: number;
+}
+
+export interface OptEntry {
+  imageKey: string;
+  volume: string;
+  imagePath: string;
+  documentBreak: boolean;
+  pageCount?: number;
+}
+
+export interface ParsedDatFile {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface LoadFileImportInput {
+  dat: ParsedDatFile;
+  opt?: OptEntry[];
+  files: Array<{ name: string; content: Buffer; mimeType: string }>;
+  fieldMap: Partial<Record<LoadFileField, string>>; // Resolved with resolveImportFieldMap
+  classification: Document['classification'];
+  producingParty: string;
+  productionVolume: string;
+}
+
+/**
+ * Format a Bates number, e.g. formatBatesNumber('ABC', 12, 6) => 'ABC000012'
+ */
+export const formatBatesNumber = (prefix: string, value: number, digits: number): string =>
+  `${prefix}${String(value).padStart(digits, '0')}`;
+
+/**
+ * Format a date for a DAT field
+ */
+export const formatLoadFileDate = (date: Date, format: LoadFileDateFormat): string => {
+  const iso = date.toISOString();
+  switch (format) {
+    case 'MM/DD/YYYY':
+      return `${iso.slice(5, 7)}/${iso.slice(8, 10)}/${iso.slice(0, 4)}`;
+    case 'YYYY-MM-DD':
+      return iso.slice(0, 10);
+    default:
+      return iso;
+  }
+};
+
+/**
+ * Parse a DAT date value (MM/DD/YYYY with optional time, or ISO 8601)
+ */
+export const parseLoadFileDate = (value: string): Date | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i.exec(trimmed);
+  if (us) {
+    let hours = Number(us[4] || 0);
+    if (us[7]) {
+      hours = (hours % 12) + (us[7].toUpperCase() === 'PM' ? 12 : 0);
+    }
+    return new Date(Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2]), hours, Number(us[5] || 0), Number(us[6] || 0)));
+  }
+
+  const parsed = new Date(trimmed);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+const quoteDatField = (value: string): string =>
+  `${DAT_DELIMITERS.quote}${value
+    .replace(/\r\n|\r|\n/g, DAT_DELIMITERS.newline)
+    .split(DAT_DELIMITERS.quote).join('')}${DAT_DELIMITERS.quote}`;
+
+const datValue = (record: LoadFileRecord, field: LoadFileField, dateFormat: LoadFileDateFormat): string => {
+  const value = record[field];
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return formatLoadFileDate(value, dateFormat);
+  }
+  return String(value);
+};
+
+/**
+ * Write a Concordance DAT file (UTF-8 with BOM, CRLF line endings)
+ */
+export const writeDatFile = (
+  records: LoadFileRecord[],
+  fieldMap: LoadFileFieldMapping[],
+  dateFormat: LoadFileDateFormat
+): Buffer => {
+  const lines = [
+    fieldMap.map(mapping => quoteDatField(mapping.header)).join(DAT_DELIMITERS.field),
+    ...records.map(record =>
+      fieldMap.map(mapping => quoteDatField(datValue(record, mapping.field, dateFormat))).join(DAT_DELIMITERS.field)
+    ),
+  ];
+
+  return Buffer.from('\ufeff' + lines.join('\r\n') + '\r\n', 'utf8');
+};
+
+/**
+ * Decode a load file; UTF-8 (with or without BOM) or, failing that, Windows-1252/Latin-1
+ */
+const decodeLoadFile = (content: Buffer): string => {
+  if (content[0] === 0xef && content[1] === 0xbb && content[2] === 0xbf) {
+    return content.subarray(3).toString('utf8');
+  }
+  if (content[0] === 0xff && content[1] === 0xfe) {
+    return content.subarray(2).toString('utf16le');
+  }
+
+  const text = content.toString('utf8');
+  return text.includes('\ufffd') ? content.toString('latin1') : text;
+};
+
+/**
+ * Parse a Concordance DAT file into rows keyed by header
+ */
+export const parseDatFile = (content: Buffer): ParsedDatFile => {
+  const text = decodeLoadFile(content);
+  const records: string[][] = [];
+  let fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (char === DAT_DELIMITERS.quote) {
+      quoted = !quoted;
+    } else if (char === DAT_DELIMITERS.field && !quoted) {
+      fields.push(current);
+      current = '';
+    } else if ((char === '\n' || char === '\r') && !quoted) {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      fields.push(current);
+      if (fields.length > 1 || fields[0] !== '') {
+        records.push(fields);
+      }
+      fields = [];
+      current = '';
+    } else {
+      current += char === DAT_DELIMITERS.newline ? '\n' : char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated text qualifier in DAT file');
+  }
+  if (current !== '' || fields.length > 0) {
+    fields.push(current);
+    records.push(fields);
+  }
+
+  const [headers, ...rows] = records;
+  if (!headers) {
+    throw new Error('DAT file is empty');
+  }
+
+  return {
+    headers,
+    rows: rows.map((values, index) => {
+      if (values.length !== headers.length) {
+        throw new Error(`DAT row ${index + 1} has ${values.length} fields, expected ${headers.length}`);
+      }
+      return Object.fromEntries(headers.map((header, column) => [header, values[column]!]));
+    }),
+  };
+};
+
+/**
+ * Write an Opticon OPT image cross-reference file
+ */
+export const writeOptFile = (records: LoadFileRecord[], volume: string): Buffer => {
+  const lines: string[] = [];
+
+  for (const record of records) {
+    record.imageLinks.forEach((imagePath, page) => {
+      const imageKey = page === 0 ? record.batesBegin : `${record.batesBegin}_${page + 1}`;
+      lines.push([
+        imageKey,
+        volume,
+        imagePath,
+        page === 0 ? 'Y' : '',
+        '',
+        '',
+        page === 0 ? String(record.imageLinks.length) : '',
+      ].join(','));
+    });
+  }
+
+  return Buffer.from(lines.length ? lines.join('\r\n') + '\r\n' : '', 'utf8');
+};
+
+/**
+ * Parse an Opticon OPT file
+ */
+export const parseOptFile = (content: Buffer): OptEntry[] =>
+  decodeLoadFile(content)
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim() !== '')
+    .map((line, index) => {
+      const columns = line.split(',');
+      if (columns.length < 3 || !columns[0] || !columns[2]) {
+        throw new Error(`OPT line ${index + 1} is malformed`);
+      }
+      return {
+        imageKey: columns[0].trim(),
+        volume: (columns[1] || '').trim(),
+        imagePath: columns[2].trim(),
+        documentBreak: (columns[3] || '').trim().toUpperCase() === 'Y',
+        ...(columns[6] && columns[6].trim() && { pageCount: Number(columns[6].trim()) }),
+      };
+    });
+
+/**
+ * Assign Bates ranges and lay out a load-file production (DAT, OPT, natives and images)
+ */
+export const buildLoadFileProduction = (
+  items: LoadFileSourceItem[],
+  options: LoadFileOptions
+): LoadFileProduction => {
+  const records: LoadFileRecord[] = [];
+  const files: LoadFileProductionFile[] = [];
+  let next = options.batesStart;
+
+  for (const item of items) {
+    const isImage = !!item.content && IMAGE_MIME_TYPES.includes(item.mimeType || '');
+    const pageCount = isImage ? 1 : Math.max(1, item.pageCount || 1);
+    const batesBegin = formatBatesNumber(options.batesPrefix, next, options.batesDigits);
+    const batesEnd = formatBatesNumber(options.batesPrefix, next + pageCount - 1, options.batesDigits);
+    next += pageCount;
+
+    const extension = path.extname(item.fileName || '').toLowerCase();
+    const record: LoadFileRecord = {
+      batesBegin,
+      batesEnd,
+      pageCount,
+      imageLinks: [],
+      ...(item.custodian && { custodian: item.custodian }),
+      ...(item.dateSent && { dateSent: item.dateSent }),
+      ...(item.hash && { hash: item.hash }),
+      ...(item.classification && { classification: item.classification }),
+      ...(item.fileName && { fileName: item.fileName }),
+      ...(item.title && { title: item.title }),
+      ...(item.mimeType && { mimeType: item.mimeType }),
+      ...(item.evidenceId && { evidenceId: item.evidenceId }),
+      ...(item.documentId && { documentId: item.documentId }),
+      ...(item.evidenceType && { evidenceType: item.evidenceType }),
+    };
+
+    if (item.content) {
+      const folder = isImage ? 'IMAGES' : 'NATIVES';
+      const relativePath = `${folder}/${options.volume}/${batesBegin}${extension}`;
+      const link = relativePath.replace(/\//g, '\\');
+
+      files.push({
+        name: relativePath,
+        data: item.content,
+        ...(item.evidenceId && { evidenceId: item.evidenceId }),
+        description: isImage ? `Page image ${batesBegin}` : `Native file ${batesBegin}-${batesEnd}`,
+      });
+
+      record.nativeLink = link;
+      if (isImage) {
+        record.imageLinks.push(link);
+      }
+    }
+
+    records.push(record);
+  }
+
+  files.push(
+    {
+      name: `DATA/${options.volume}.dat`,
+      data: writeDatFile(records, options.fieldMap, options.dateFormat),
+      description: 'Concordance load file',
+    },
+    {
+      name: `DATA/${options.volume}.opt`,
+      data: writeOptFile(records, options.volume),
+      description: 'Opticon image cross-reference',
+    }
+  );
+
+  return { records, files, nextBatesNumber: next };
+};
+
+/**
+ * Resolve which DAT column feeds each field: explicit overrides first, then known aliases
+ */
+export const resolveImportFieldMap = (
+  headers: string[],
+  overrides: Record<string, LoadFileField> = {}
+): Partial<Record<LoadFileField, string>> => {
+  const resolved: Partial<Record<LoadFileField, string>> = {};
+
+  for (const [header, field] of Object.entries(overrides)) {
+    const match = headers.find(candidate => candidate.toUpperCase() === header.toUpperCase());
+    if (!match) {
+      throw new Error(`Mapped DAT field ${header} is not present in the load file`);
+    }
+    resolved[field] = match;
+  }
+
+  for (const [field, aliases] of Object.entries(IMPORT_HEADER_ALIASES) as Array<[LoadFileField, string[]]>) {
+    if (resolved[field]) {
+      continue;
+    }
+    const match = aliases
+      .map(alias => headers.find(header => header.toUpperCase().replace(/\s+/g, '') === alias))
+      .find(Boolean);
+    if (match) {
+      resolved[field] = match;
+    }
+  }
+
+  return resolved;
+};
+
+/**
+ * Check content against a hash from the producing party (MD5, SHA-1 or SHA-256 by length)
+ */
+export const matchesProducedHash = (content: Buffer, expected: string): boolean | undefined => {
+  const normalized = expected.trim().toLowerCase();
+  const algorithm = { 32: 'md5', 40: 'sha1', 64: 'sha256' }[normalized.length];
+  if (!algorithm || !/^[0-9a-f]+$/.test(normalized)) {
+    return undefined;
+  }
+  return crypto.createHash(algorithm).update(content).digest('hex') === normalized;
+};
+
+const linkBasename = (link: string): string => path.basename(link.replace(/\\/g, '/')).toLowerCase();
+
+/**
+ * Ingest a production received from another party into documents.
+ * Natives are matched to DAT rows by the file name in the native link (or first OPT image).
+ */
+export const importLoadFileProduction = async (
+  input: LoadFileImportInput,
+  userId: string
+): Promise<LoadFileImportResult> => {
+  const { dat, fieldMap } = input;
+  if (!fieldMap.batesBegin) {
+    throw new Error('Load file has no beginning Bates field; supply a field map');
+  }
+
+  const imagesByKey = new Map<string, string>();
+  if (input.opt) {
+    for (const entry of input.opt) {
+      if (entry.documentBreak) {
+        imagesByKey.set(entry.imageKey, entry.imagePath);
+      }
+    }
+  }
+
+  const filesByName = new Map(input.files.map(file => [file.name.toLowerCase(), file]));
+  const value = (row: Record<string, string>, field: LoadFileField): string | undefined => {
+    const header = fieldMap[field];
+    const raw = header ? row[header] : undefined;
+    return raw && raw.trim() ? raw.trim() : undefined;
+  };
+
+  const result: LoadFileImportResult = {
+    productionVolume: input.productionVolume,
+    producingParty: input.producingParty,
+    imported: [],
+    skipped: [],
+  };
+  const storageDir = path.join(process.cwd(), 'storage', 'documents');
+  const tempDir = path.join(process.cwd(), 'uploads', 'temp');
+  await fs.mkdir(storageDir, { recursive: true });
+  await fs.mkdir(tempDir, { recursive: true });
+
+  const storedPaths: string[] = [];
+
+  try {
+    await database.transaction(async (trx) => {
+      for (let index = 0; index < dat.rows.length; index++) {
+        const row = dat.rows[index]!;
+        const batesBegin = value(row, 'batesBegin');
+
+        if (!batesBegin) {
+          result.skipped.push({ row: index + 1, reason: 'Missing beginning Bates number' });
+          continue;
+        }
+
+        const existing = await trx('documents')
+          .select('id')
+          .where({ bates_begin: batesBegin, producing_party: input.producingParty })
+          .first();
+
+        if (existing) {
+          result.skipped.push({ row: index + 1, batesBegin, reason: 'Bates number already imported from this party' });
+          continue;
+        }
+
+        const nativeLink = value(row, 'nativeLink') || imagesByKey.get(batesBegin);
+        const native = nativeLink ? filesByName.get(linkBasename(nativeLink)) : undefined;
+        const producedHash = value(row, 'hash');
+        const hashVerified = native && producedHash ? matchesProducedHash(native.content, producedHash) : undefined;
+
+        let filePath: string | null = null;
+        if (native) {
+          const tempPath = path.join(tempDir, `${uuidv4()}-import`);
+          await fs.writeFile(tempPath, native.content);
+          try {
+            const encryptedPath = await encryptFile(tempPath);
+            filePath = path.join(storageDir, `${uuidv4()}.enc`);
+            await fs.rename(encryptedPath, filePath);
+            storedPaths.push(filePath);
+          } finally {
+            await fs.rm(tempPath, { force: true });
+          }
+        }
+
+        const batesEnd = value(row, 'batesEnd') || batesBegin;
+        const title = value(row, 'title') || value(row, 'fileName') || batesBegin;
+        const pageCount = Number(value(row, 'pageCount'));
+        const documentDate = value(row, 'dateSent');
+
+        const [document] = await trx('documents').insert({
+          title: title.slice(0, 500),
+          description: `Received from ${input.producingParty} in ${input.productionVolume} (${batesBegin}-${batesEnd})`,
+          file_path: filePath,
+          file_hash: native ? crypto.createHash('sha256').update(native.content).digest('hex') : null,
+          file_size: native ? native.content.length : null,
+          mime_type: native ? native.mimeType : value(row, 'mimeType') ?? null,
+          classification: input.classification,
+          uploaded_by: userId,
+          bates_begin: batesBegin,
+          bates_end: batesEnd,
+          page_count: Number.isFinite(pageCount) && pageCount > 0 ? pageCount : null,
+          custodian: value(row, 'custodian') ?? null,
+          document_date: documentDate ? parseLoadFileDate(documentDate) ?? null : null,
+          producing_party: input.producingParty,
+          production_volume: input.productionVolume,
+          load_file_fields: JSON.stringify(row),
+        }).returning(['id']);
+
+        result.imported.push({
+          documentId: document.id,
+          batesBegin,
+          batesEnd,
+          title,
+          hasNative: !!native,
+          ...(hashVerified !== undefined && { hashVerified }),
+        });
+      }
+    });
+  } catch (error) {
+    // Nothing was recorded, so remove the encrypted natives written for this import
+    await Promise.all(storedPaths.map(storedPath => fs.rm(storedPath, { force: true })));
+    throw error;
+  }
+
+  return result;
+};
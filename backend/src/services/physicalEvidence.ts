@@ -0,0 +1,695 @@
+import crypto from 'crypto';
+import { Knex } from 'knex';
+import database from '../config/database';
+import {
+  ChainOfCustodyEntry,
+  CustodyLedgerEntry,
+  EvidenceSeal,
+  LocationInventory,
+  LocationInventoryItem,
+  LocationInventoryReport,
+  PhysicalEvidence,
+  SealCondition,
+  SealInspection,
+  StorageAccessLevel,
+  StorageEnvironment,
+  StorageLocation,
+  StorageSecurityLevel,
+} from '../types';
+import { appendCustodyEntry } from './custodyLedger';
+import { DISPOSED_STATUSES, recordCollection } from './evidenceLifecycle';
+import { SourcePrincipal, sourceAccessibleCondition } from './sourceProtection';
+import { logCustodyEntry } from './transparencyLog';
+import { Bitmap, LabelContent, encodeLabelPdf, encodePng, renderLabel } from '../utils/labelImage';
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud or retyped
+const LABEL_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const LABEL_CODE_LENGTH = 10;
+
+export type LabelPrefix = 'PE' | 'SL' | 'LOC';
+export type LabelFormat = 'png' | 'pdf';
+
+export interface StorageLocationInput {
+  facility: string;
+  room: string;
+  shelf?: string;
+  bin?: string;
+  accessLevel?: StorageAccessLevel;
+  securityLevel?: StorageSecurityLevel;
+  environment?: StorageEnvironment;
+  capacity?: number;
+  notes?: string;
+}
+
+export interface StorageLocationUpdate {
+  accessLevel?: StorageAccessLevel;
+  securityLevel?: StorageSecurityLevel;
+  environment?: StorageEnvironment;
+  capacity?: number | null;
+  active?: boolean;
+  notes?: string;
+}
+
+export interface NewSeal {
+  sealNumber: string;
+  sealType: string;
+  notes?: string;
+}
+
+export interface SealCheck {
+  sealNumber: string;
+  condition: SealCondition;
+  removed?: boolean;
+  notes?: string;
+}
+
+export interface PhysicalIntakeInput {
+  description: string;
+  category?: string;
+  dimensions?: string;
+  weight?: number;
+  conditionOnIntake: string;
+  storageLocationId?: string;
+  sourceStakeholderId?: string;
+  significanceLevel?: number;
+  notes?: string;
+  seals: NewSeal[];
+}
+
+export interface SealHandOffPlan {
+  missing: string[]; // Active seals nobody reported on
+  unknown: string[]; // Reported seals that are not active on the item
+  breaches: SealCheck[]; // Reported in any condition but INTACT
+}
+
+export type LabelTarget =
+  | { type: 'EVIDENCE'; evidenceId: string }
+  | { type: 'SEAL'; sealId: string; evidenceId: string }
+  | { type: 'LOCATION'; locationId: string };
+
+/**
+ * Random label code, e.g. PE-7KQ2M9XA3D
+ */
+export const generateLabelCode = (prefix: LabelPrefix): string => {
+  const bytes = crypto.randomBytes(LABEL_CODE_LENGTH);
+  return `${prefix}-${Array.from(bytes, byte => LABEL_ALPHABET[byte & 31]).join('')}`;
+};
+
+const positionWithinFacility = (location: Pick<StorageLocation, 'room' | 'shelf' | 'bin'>): string[] => [
+  location.room,
+  ...(location.shelf ? [`Shelf ${location.shelf}`] : []),
+  ...(location.bin ? [`Bin ${location.bin}`] : []),
+];
+
+/**
+ * Human-readable position, used as the custody ledger storage location
+ */
+export const describeLocation = (location: Pick<StorageLocation, 'facility' | 'room' | 'shelf' | 'bin'>): string =>
+  [location.facility, ...positionWithinFacility(location)].join(' / ');
+
+export const mapLocationRow = (row: any): StorageLocation => ({
+  id: row.id,
+  labelCode: row.label_code,
+  facility: row.facility,
+  room: row.room,
+  ...(row.shelf && { shelf: row.shelf }),
+  ...(row.bin && { bin: row.bin }),
+  accessLevel: row.access_level,
+  securityLevel: row.security_level,
+  ...(row.environment && { environment: row.environment }),
+  ...(row.capacity !== null && row.capacity !== undefined && { capacity: Number(row.capacity) }),
+  active: row.active,
+  ...(row.notes && { notes: row.notes }),
+  ...(row.created_by && { createdBy: row.created_by }),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const mapPhysicalRow = (row: any): PhysicalEvidence => ({
+  evidenceId: row.evidence_id,
+  labelCode: row.label_code,
+  description: row.description,
+  ...(row.category && { category: row.category }),
+  ...(row.dimensions && { dimensions: row.dimensions }),
+  ...(row.weight !== null && row.weight !== undefined && { weight: Number(row.weight) }),
+  conditionOnIntake: row.condition_on_intake,
+  ...(row.storage_location_id && { storageLocationId: row.storage_location_id }),
+  ...(row.located_at && { locatedAt: row.located_at }),
+  intakeBy: row.intake_by,
+  intakeAt: row.intake_at,
+});
+
+export const mapSealRow = (row: any): EvidenceSeal => ({
+  id: row.id,
+  evidenceId: row.evidence_id,
+  sealNumber: row.seal_number,
+  sealType: row.seal_type,
+  labelCode: row.label_code,
+  condition: row.condition,
+  appliedBy: row.applied_by,
+  appliedAt: row.applied_at,
+  ...(row.applied_custody_entry_id && { appliedCustodyEntryId: row.applied_custody_entry_id }),
+  ...(row.removed_by && { removedBy: row.removed_by }),
+  ...(row.removed_at && { removedAt: row.removed_at }),
+  ...(row.removed_custody_entry_id && { removedCustodyEntryId: row.removed_custody_entry_id }),
+  ...(row.notes && { notes: row.notes }),
+});
+
+export const mapInspectionRow = (row: any): SealInspection => ({
+  id: row.id,
+  sealId: row.seal_id,
+  evidenceId: row.evidence_id,
+  custodyEntryId: row.custody_entry_id,
+  condition: row.condition,
+  removed: row.removed,
+  inspectedBy: row.inspected_by,
+  inspectedAt: row.inspected_at,
+  ...(row.notes && { notes: row.notes }),
+});
+
+/**
+ * Check the seals reported at a hand-off against the seals on the item.
+ * Every active seal must be accounted for.
+ */
+export const planSealHandOff = (activeSealNumbers: string[], checks: SealCheck[]): SealHandOffPlan => {
+  const reported = new Set(checks.map(check => check.sealNumber));
+  const active = new Set(activeSealNumbers);
+
+  return {
+    missing: activeSealNumbers.filter(sealNumber => !reported.has(sealNumber)),
+    unknown: checks.map(check => check.sealNumber).filter(sealNumber => !active.has(sealNumber)),
+    breaches: checks.filter(check => check.condition !== 'INTACT'),
+  };
+};
+
+// Storage locations
+
+export const getStorageLocations = async (
+  filters: { facility?: string; includeInactive?: boolean } = {}
+): Promise<StorageLocation[]> => {
+  const query = database('storage_locations')
+    .orderBy([{ column: 'facility' }, { column: 'room' }, { column: 'shelf' }, { column: 'bin' }]);
+
+  if (filters.facility) {
+    query.where({ facility: filters.facility });
+  }
+  if (!filters.includeInactive) {
+    query.where({ active: true });
+  }
+
+  const rows = await query;
+  return rows.map(mapLocationRow);
+};
+
+export const getStorageLocation = async (id: string, db: Knex = database): Promise<StorageLocation | null> => {
+  const row = await db('storage_locations').where({ id }).first();
+  return row ? mapLocationRow(row) : null;
+};
+
+export const findStorageLocation = async (
+  position: Pick<StorageLocationInput, 'facility' | 'room' | 'shelf' | 'bin'>
+): Promise<StorageLocation | null> => {
+  const row = await database('storage_locations')
+    .where({ facility: position.facility, room: position.room })
+    .whereRaw("COALESCE(shelf, '') = ?", [position.shelf ?? ''])
+    .whereRaw("COALESCE(bin, '') = ?", [position.bin ?? ''])
+    .first();
+
+  return row ? mapLocationRow(row) : null;
+};
+
+export const createStorageLocation = async (input: StorageLocationInput, createdBy: string): Promise<StorageLocation> => {
+  const [row] = await database('storage_locations').insert({
+    label_code: generateLabelCode('LOC'),
+    facility: input.facility,
+    room: input.room,
+    shelf: input.shelf ?? null,
+    bin: input.bin ?? null,
+    access_level: input.accessLevel ?? 'RESTRICTED',
+    security_level: input.securityLevel ?? 'STANDARD',
+    environment: input.environment ? JSON.stringify(input.environment) : null,
+    capacity: input.capacity ?? null,
+    notes: input.notes ?? null,
+    created_by: createdBy,
+  }).returning('*');
+
+  return mapLocationRow(row);
+};
+
+export const updateStorageLocation = async (id: string, updates: StorageLocationUpdate): Promise<StorageLocation> => {
+  const [row] = await database('storage_locations')
+    .where({ id })
+    .update({
+      ...(updates.accessLevel && { access_level: updates.accessLevel }),
+      ...(updates.securityLevel && { security_level: updates.securityLevel }),
+      ...(updates.environment && { environment: JSON.stringify(updates.environment) }),
+      ...(updates.capacity !== undefined && { capacity: updates.capacity }),
+      ...(updates.active !== undefined && { active: updates.active }),
+      ...(updates.notes !== undefined && { notes: updates.notes }),
+      updated_at: new Date(),
+    })
+    .returning('*');
+
+  return mapLocationRow(row);
+};
+
+/**
+ * Items currently stored at a location
+ */
+export const countLocationItems = async (locationId: string, db: Knex = database): Promise<number> => {
+  const row: any = await db('physical_evidence').where({ storage_location_id: locationId }).count('* as count').first();
+  return Number(row?.count ?? 0);
+};
+
+// Physical evidence and seals
+
+export const getPhysicalEvidence = async (evidenceId: string, db: Knex = database): Promise<PhysicalEvidence | null> => {
+  const row = await db('physical_evidence').where({ evidence_id: evidenceId }).first();
+  return row ? mapPhysicalRow(row) : null;
+};
+
+export const getActiveSeals = async (evidenceId: string, db: Knex = database): Promise<EvidenceSeal[]> => {
+  const rows = await db('evidence_seals')
+    .where({ evidence_id: evidenceId })
+    .whereNull('removed_at')
+    .orderBy('applied_at', 'asc');
+
+  return rows.map(mapSealRow);
+};
+
+export const getSeal = async (id: string): Promise<EvidenceSeal | null> => {
+  const row = await database('evidence_seals').where({ id }).first();
+  return row ? mapSealRow(row) : null;
+};
+
+/**
+ * Seal numbers from the list that are already on record
+ */
+export const getSealNumbersInUse = async (sealNumbers: string[]): Promise<string[]> => {
+  if (sealNumbers.length === 0) {
+    return [];
+  }
+  const rows = await database('evidence_seals').whereIn('seal_number', sealNumbers).select('seal_number');
+  return rows.map((row: any) => row.seal_number);
+};
+
+/**
+ * Physical record with every seal ever applied and its inspection history
+ */
+export const getPhysicalEvidenceDetail = async (evidenceId: string): Promise<PhysicalEvidence | null> => {
+  const physical = await getPhysicalEvidence(evidenceId);
+  if (!physical) {
+    return null;
+  }
+
+  const [sealRows, inspectionRows] = await Promise.all([
+    database('evidence_seals').where({ evidence_id: evidenceId }).orderBy('applied_at', 'asc'),
+    database('evidence_seal_inspections').where({ evidence_id: evidenceId }).orderBy('inspected_at', 'asc'),
+  ]);
+
+  const inspections = inspectionRows.map(mapInspectionRow);
+
+  return {
+    ...physical,
+    seals: sealRows.map((row: any) => ({
+      ...mapSealRow(row),
+      inspections: inspections.filter(inspection => inspection.sealId === row.id),
+    })),
+  };
+};
+
+const applySeals = async (
+  trx: Knex.Transaction,
+  evidenceId: string,
+  custodyEntryId: string,
+  appliedBy: string,
+  seals: NewSeal[]
+): Promise<void> => {
+  const appliedAt = new Date();
+
+  for (const seal of seals) {
+    const [row] = await trx('evidence_seals').insert({
+      evidence_id: evidenceId,
+      seal_number: seal.sealNumber,
+      seal_type: seal.sealType,
+      label_code: generateLabelCode('SL'),
+      condition: 'INTACT',
+      applied_by: appliedBy,
+      applied_at: appliedAt,
+      applied_custody_entry_id: custodyEntryId,
+      notes: seal.notes ?? null,
+    }).returning('id');
+
+    await trx('evidence_seal_inspections').insert({
+      seal_id: typeof row === 'object' ? row.id : row,
+      evidence_id: evidenceId,
+      custody_entry_id: custodyEntryId,
+      condition: 'INTACT',
+      inspected_by: appliedBy,
+      inspected_at: appliedAt,
+      notes: 'Seal applied',
+    });
+  }
+};
+
+/**
+ * Record seal conditions and newly applied seals against a custody ledger entry.
+ * Checks must already have been validated with planSealHandOff.
+ */
+export const recordSealHandOff = async (
+  trx: Knex.Transaction,
+  evidenceId: string,
+  custodyEntryId: string,
+  inspectedBy: string,
+  checks: SealCheck[],
+  newSeals: NewSeal[]
+): Promise<void> => {
+  const inspectedAt = new Date();
+
+  for (const check of checks) {
+    const seal = await trx('evidence_seals')
+      .where({ evidence_id: evidenceId, seal_number: check.sealNumber })
+      .whereNull('removed_at')
+      .forUpdate()
+      .first();
+
+    await trx('evidence_seal_inspections').insert({
+      seal_id: seal.id,
+      evidence_id: evidenceId,
+      custody_entry_id: custodyEntryId,
+      condition: check.condition,
+      removed: Boolean(check.removed),
+      inspected_by: inspectedBy,
+      inspected_at: inspectedAt,
+      notes: check.notes ?? null,
+    });
+
+    await trx('evidence_seals')
+      .where({ id: seal.id })
+      .update({
+        condition: check.condition,
+        ...(check.removed && {
+          removed_by: inspectedBy,
+          removed_at: inspectedAt,
+          removed_custody_entry_id: custodyEntryId,
+        }),
+      });
+  }
+
+  await applySeals(trx, evidenceId, custodyEntryId, inspectedBy, newSeals);
+};
+
+/**
+ * Put an item at a storage location, or take it out of storage (null)
+ */
+export const moveToLocation = async (
+  trx: Knex.Transaction,
+  evidenceId: string,
+  storageLocationId: string | null
+): Promise<void> => {
+  const current = await trx('physical_evidence').where({ evidence_id: evidenceId }).forUpdate().first();
+  if (current.storage_location_id === storageLocationId) {
+    return;
+  }
+
+  await trx('physical_evidence')
+    .where({ evidence_id: evidenceId })
+    .update({
+      storage_location_id: storageLocationId,
+      located_at: storageLocationId ? new Date() : null,
+      updated_at: new Date(),
+    });
+};
+
+/**
+ * Take in a physical item: creates the evidence item, its genesis custody entry,
+ * the physical record and any seals applied at intake
+ */
+export const intakePhysicalEvidence = async (
+  input: PhysicalIntakeInput,
+  user: { id: string; email: string },
+  location: StorageLocation | null
+): Promise<{ physical: PhysicalEvidence; custodyEntry: CustodyLedgerEntry }> => {
+  const storageLocation = location ? describeLocation(location) : 'Intake';
+  const receivedAt = new Date();
+
+  const initialChainOfCustody: ChainOfCustodyEntry[] = [{
+    fromUser: 'system',
+    toUser: user.id,
+    transferredAt: receivedAt,
+    reason: 'Physical evidence intake',
+    location: storageLocation,
+  }];
+
+  const { evidenceId, custodyEntry } = await database.transaction(async trx => {
+    const [created] = await trx('evidence_items').insert({
+      evidence_type: 'PHYSICAL',
+      source_stakeholder_id: input.sourceStakeholderId ?? null,
+      chain_of_custody: JSON.stringify(initialChainOfCustody),
+      authenticity_verified: false,
+      significance_level: input.significanceLevel ?? null,
+      notes: input.notes ?? null,
+    }).returning('id');
+    const id = typeof created === 'object' ? created.id : created;
+
+    const genesis = await appendCustodyEntry(trx, id, {
+      custodian: user.id,
+      custodianName: user.email,
+      transferredFrom: 'system',
+      transferredTo: user.id,
+      transferReason: 'INVESTIGATION',
+      transferMethod: 'HAND_DELIVERY',
+      purpose: 'COLLECTION',
+      reasonDescription: 'Physical evidence intake',
+      receivedAt,
+      storageLocation,
+      ...(location?.environment && { storageConditions: location.environment }),
+      conditionOnReceipt: input.conditionOnIntake,
+      recordedBy: user.id,
+    });
+
+    await recordCollection(trx, id, user.id);
+    await logCustodyEntry(trx, genesis);
+
+    await trx('physical_evidence').insert({
+      evidence_id: id,
+      label_code: generateLabelCode('PE'),
+      description: input.description,
+      category: input.category ?? null,
+      dimensions: input.dimensions ?? null,
+      weight: input.weight ?? null,
+      condition_on_intake: input.conditionOnIntake,
+      storage_location_id: location?.id ?? null,
+      located_at: location ? receivedAt : null,
+      intake_by: user.id,
+      intake_at: receivedAt,
+    });
+
+    await applySeals(trx, id, genesis.id, user.id, input.seals);
+
+    return { evidenceId: id, custodyEntry: genesis };
+  });
+
+  return { physical: (await getPhysicalEvidenceDetail(evidenceId))!, custodyEntry };
+};
+
+// Inventory
+
+/**
+ * Items per storage location, with the current custodian and active seals.
+ * Without filters, every active location is listed (empty ones included) plus
+ * the items that are out of storage. Items the principal is restricted from
+ * are left out.
+ */
+export const getLocationInventory = async (
+  filters: { locationId?: string; facility?: string },
+  principal: SourcePrincipal
+): Promise<LocationInventoryReport> => {
+  const locationQuery = database('storage_locations')
+    .orderBy([{ column: 'facility' }, { column: 'room' }, { column: 'shelf' }, { column: 'bin' }]);
+
+  if (filters.locationId) {
+    locationQuery.where({ id: filters.locationId });
+  } else {
+    locationQuery.where({ active: true });
+    if (filters.facility) {
+      locationQuery.where({ facility: filters.facility });
+    }
+  }
+
+  const locations = (await locationQuery).map(mapLocationRow);
+  const includeOutOfStorage = !filters.locationId && !filters.facility;
+
+  const itemQuery = database('physical_evidence')
+    .join('evidence_items', 'physical_evidence.evidence_id', 'evidence_items.id')
+    .whereNotIn('evidence_items.status', DISPOSED_STATUSES)
+    .select(
+      'physical_evidence.*',
+      'evidence_items.status',
+      database.raw(`(
+        SELECT custodian FROM evidence_custody_ledger
+        WHERE evidence_custody_ledger.evidence_id = physical_evidence.evidence_id
+        ORDER BY sequence_number DESC LIMIT 1
+      ) as custodian`)
+    )
+    .orderBy('physical_evidence.label_code', 'asc');
+
+  const accessible = sourceAccessibleCondition('evidence_items.id', principal, ['ACCESS']);
+  itemQuery.whereRaw(accessible.sql, accessible.bindings);
+
+  const locationIds = locations.map(location => location.id);
+  itemQuery.where(function() {
+    this.whereIn('physical_evidence.storage_location_id', locationIds);
+    if (includeOutOfStorage) {
+      this.orWhereNull('physical_evidence.storage_location_id');
+    }
+  });
+
+  const items = await itemQuery;
+  const seals = items.length > 0
+    ? await database('evidence_seals')
+      .whereIn('evidence_id', items.map((item: any) => item.evidence_id))
+      .whereNull('removed_at')
+      .orderBy('applied_at', 'asc')
+    : [];
+
+  const toInventoryItem = (row: any): LocationInventoryItem => {
+    const activeSeals = seals
+      .filter((seal: any) => seal.evidence_id === row.evidence_id)
+      .map((seal: any) => ({ sealNumber: seal.seal_number, condition: seal.condition as SealCondition }));
+
+    return {
+      evidenceId: row.evidence_id,
+      labelCode: row.label_code,
+      description: row.description,
+      ...(row.category && { category: row.category }),
+      status: row.status,
+      ...(row.custodian && { custodian: row.custodian }),
+      ...(row.located_at && { locatedAt: row.located_at }),
+      activeSeals,
+    };
+  };
+
+  const inventory = (rows: any[], location?: StorageLocation): LocationInventory => {
+    const inventoryItems = rows.map(toInventoryItem);
+    return {
+      ...(location && { location }),
+      items: inventoryItems,
+      sealIssues: inventoryItems.filter(item => item.activeSeals.some(seal => seal.condition !== 'INTACT')).length,
+    };
+  };
+
+  const report: LocationInventory[] = locations.map(location =>
+    inventory(items.filter((item: any) => item.storage_location_id === location.id), location)
+  );
+
+  if (includeOutOfStorage) {
+    report.push(inventory(items.filter((item: any) => !item.storage_location_id)));
+  }
+
+  return {
+    generatedAt: new Date(),
+    generatedBy: principal.id,
+    totalItems: items.length,
+    locations: report,
+  };
+};
+
+const csvField = (value: unknown): string => {
+  const text = value instanceof Date ? value.toISOString() : value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Flatten an inventory report to CSV, one row per item (or per empty location)
+ */
+export const inventoryToCsv = (report: LocationInventoryReport): string => {
+  const header = [
+    'Facility', 'Room', 'Shelf', 'Bin', 'Location Code', 'Access Level',
+    'Evidence ID', 'Label Code', 'Description', 'Category', 'Status', 'Custodian', 'Located At', 'Seals',
+  ];
+  const rows: unknown[][] = [];
+
+  for (const { location, items } of report.locations) {
+    const locationFields = location
+      ? [location.facility, location.room, location.shelf, location.bin, location.labelCode, location.accessLevel]
+      : ['OUT OF STORAGE', '', '', '', '', ''];
+
+    if (items.length === 0) {
+      rows.push([...locationFields, '', '', '', '', '', '', '', '']);
+    }
+    for (const item of items) {
+      rows.push([
+        ...locationFields,
+        item.evidenceId,
+        item.labelCode,
+        item.description,
+        item.category,
+        item.status,
+        item.custodian,
+        item.locatedAt,
+        item.activeSeals.map(seal => `${seal.sealNumber} (${seal.condition})`).join('; '),
+      ]);
+    }
+  }
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// Labels
+
+/**
+ * What a scanned label code refers to
+ */
+export const findLabelTarget = async (labelCode: string): Promise<LabelTarget | null> => {
+  const [physical, seal, location] = await Promise.all([
+    database('physical_evidence').where({ label_code: labelCode }).first('evidence_id'),
+    database('evidence_seals').where({ label_code: labelCode }).first('id', 'evidence_id'),
+    database('storage_locations').where({ label_code: labelCode }).first('id'),
+  ]);
+
+  if (physical) {
+    return { type: 'EVIDENCE', evidenceId: physical.evidence_id };
+  }
+  if (seal) {
+    return { type: 'SEAL', sealId: seal.id, evidenceId: seal.evidence_id };
+  }
+  if (location) {
+    return { type: 'LOCATION', locationId: location.id };
+  }
+  return null;
+};
+
+export const evidenceLabel = (physical: PhysicalEvidence): LabelContent => ({
+  heading: 'Evidence',
+  code: physical.labelCode,
+  lines: [
+    physical.description,
+    ...(physical.category ? [physical.category] : []),
+    `Intake ${new Date(physical.intakeAt).toISOString().slice(0, 10)}`,
+  ],
+});
+
+export const sealLabel = (seal: EvidenceSeal, physical: PhysicalEvidence): LabelContent => ({
+  heading: 'Evidence seal',
+  code: seal.labelCode,
+  lines: [`Seal ${seal.sealNumber}`, seal.sealType, `Item ${physical.labelCode}`],
+});
+
+export const locationLabel = (location: StorageLocation): LabelContent => ({
+  heading: 'Storage location',
+  code: location.labelCode,
+  lines: [
+    location.facility,
+    positionWithinFacility(location).join(' / '),
+    `Access ${location.accessLevel}`,
+  ],
+});
+
+/**
+ * PNG holds the first label only; PDF has a page per label
+ */
+export const renderLabels = (labels: LabelContent[], format: LabelFormat): Buffer => {
+  const bitmaps: Bitmap[] = labels.map(renderLabel);
+  return format === 'pdf' ? encodeLabelPdf(bitmaps) : encodePng(bitmaps[0]!);
+};
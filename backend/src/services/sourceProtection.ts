@@ -0,0 +1,289 @@
+import database from '../config/database';
+import {
+  AuditLog,
+  ProtectionType,
+  RestrictionType,
+  SourceProtection,
+  SourceProtectionDenial,
+  SourceRestriction,
+  User,
+} from '../types';
+import { logSecurity } from '../utils/logger';
+
+export const SOURCE_PROTECTION_DENIED = 'SOURCE_PROTECTION_DENIED';
+const EVERYONE = '*';
+
+export type SourcePrincipal = Pick<User, 'id' | 'roleType'>;
+
+export interface SourceProtectionInput {
+  protectionRequired: boolean;
+  protectionType: ProtectionType[];
+  restrictions: SourceRestriction[];
+  authorizedPersonnel: string[];
+  reviewDate: Date;
+  notes?: string;
+}
+
+interface DenialContext {
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+interface ProtectionFilters {
+  reviewDue?: boolean;
+}
+
+const parseJson = (value: any, fallback: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? fallback);
+
+const placeholders = (values: any[]): string => values.map(() => '?').join(', ');
+
+export const mapRestriction = (restriction: any): SourceRestriction => ({
+  type: restriction.type,
+  description: restriction.description,
+  scope: restriction.scope ?? [],
+  ...(restriction.exceptions?.length && { exceptions: restriction.exceptions }),
+  authority: restriction.authority,
+  ...(restriction.expiresAt && { expiresAt: new Date(restriction.expiresAt) }),
+});
+
+export const mapProtectionRow = (row: any): SourceProtection => ({
+  evidenceId: row.evidence_id,
+  protectionRequired: row.protection_required,
+  protectionType: parseJson(row.protection_types, []),
+  restrictions: parseJson(row.restrictions, []).map(mapRestriction),
+  authorizedPersonnel: parseJson(row.authorized_personnel, []),
+  reviewDate: new Date(row.review_date),
+  ...(row.notes && { notes: row.notes }),
+  createdBy: row.created_by,
+  updatedBy: row.updated_by,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+export const isRestrictionActive = (restriction: SourceRestriction, now: Date = new Date()): boolean =>
+  !restriction.expiresAt || restriction.expiresAt > now;
+
+const names = (principal: SourcePrincipal): string[] => [principal.id, principal.roleType];
+
+const appliesTo = (restriction: SourceRestriction, principal: SourcePrincipal): boolean => {
+  const inScope = restriction.scope.length === 0 ||
+    restriction.scope.some(entry => entry === EVERYONE || names(principal).includes(entry));
+  const excepted = (restriction.exceptions ?? []).some(entry => names(principal).includes(entry));
+  return inScope && !excepted;
+};
+
+/**
+ * First active restriction of the given types that applies to the principal.
+ * Authorized personnel are never restricted; expired restrictions no longer apply.
+ */
+export const findBlockingRestriction = (
+  protection: SourceProtection | null,
+  principal: SourcePrincipal,
+  restrictionTypes: RestrictionType[],
+  now: Date = new Date()
+): SourceRestriction | null => {
+  if (!protection || !protection.protectionRequired || protection.authorizedPersonnel.includes(principal.id)) {
+    return null;
+  }
+
+  return protection.restrictions.find(restriction =>
+    restrictionTypes.includes(restriction.type) &&
+    isRestrictionActive(restriction, now) &&
+    appliesTo(restriction, principal)
+  ) ?? null;
+};
+
+/**
+ * SQL condition that keeps only evidence the principal is not restricted from,
+ * for list and search queries. Same rules as findBlockingRestriction.
+ */
+export const sourceAccessibleCondition = (
+  evidenceColumn: string,
+  principal: SourcePrincipal,
+  restrictionTypes: RestrictionType[],
+  now: Date = new Date()
+): { sql: string; bindings: any[] } => ({
+  sql: `NOT EXISTS (
+    SELECT 1 FROM evidence_source_protections AS protection
+    CROSS JOIN LATERAL jsonb_array_elements(protection.restrictions) AS restriction(value)
+    WHERE protection.evidence_id = ${evidenceColumn}
+      AND protection.protection_required
+      AND NOT protection.authorized_personnel @> to_jsonb(?::text)
+      AND restriction.value->>'type' IN (${placeholders(restrictionTypes)})
+      AND (restriction.value->>'expiresAt' IS NULL OR (restriction.value->>'expiresAt')::timestamptz > ?)
+      AND (
+        jsonb_array_length(coalesce(restriction.value->'scope', '[]'::jsonb)) = 0
+        OR EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(restriction.value->'scope') AS scope(entry)
+          WHERE scope.entry IN (?, ?, ?)
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(coalesce(restriction.value->'exceptions', '[]'::jsonb)) AS exception(entry)
+        WHERE exception.entry IN (?, ?)
+      )
+  )`,
+  bindings: [principal.id, ...restrictionTypes, now, EVERYONE, ...names(principal), ...names(principal)],
+});
+
+/**
+ * As sourceAccessibleCondition, for documents: a document is hidden when any
+ * evidence item built on it is restricted
+ */
+export const documentAccessibleCondition = (
+  documentColumn: string,
+  principal: SourcePrincipal,
+  restrictionTypes: RestrictionType[],
+  now: Date = new Date()
+): { sql: string; bindings: any[] } => {
+  const evidence = sourceAccessibleCondition('protected_item.id', principal, restrictionTypes, now);
+  return {
+    sql: `NOT EXISTS (
+      SELECT 1 FROM evidence_items AS protected_item
+      WHERE protected_item.document_id = ${documentColumn} AND NOT ${evidence.sql}
+    )`,
+    bindings: evidence.bindings,
+  };
+};
+
+export const getSourceProtection = async (evidenceId: string): Promise<SourceProtection | null> => {
+  const row = await database('evidence_source_protections')
+    .select('*')
+    .where({ evidence_id: evidenceId })
+    .first();
+
+  return row ? mapProtectionRow(row) : null;
+};
+
+export const getSourceProtections = async (filters: ProtectionFilters = {}, limit = 100): Promise<SourceProtection[]> => {
+  let query = database('evidence_source_protections')
+    .select('*')
+    .orderBy('review_date', 'asc')
+    .limit(limit);
+
+  if (filters.reviewDue) {
+    query = query.where('review_date', '<=', new Date());
+  }
+
+  const rows = await query;
+  return rows.map(mapProtectionRow);
+};
+
+export const saveSourceProtection = async (
+  evidenceId: string,
+  input: SourceProtectionInput,
+  userId: string
+): Promise<SourceProtection> => {
+  const [row] = await database('evidence_source_protections')
+    .insert({
+      evidence_id: evidenceId,
+      protection_required: input.protectionRequired,
+      protection_types: JSON.stringify(input.protectionType),
+      restrictions: JSON.stringify(input.restrictions.map(restriction => ({
+        ...restriction,
+        scope: restriction.scope ?? [],
+      }))),
+      authorized_personnel: JSON.stringify([...new Set(input.authorizedPersonnel)]),
+      review_date: input.reviewDate,
+      notes: input.notes ?? null,
+      created_by: userId,
+      updated_by: userId,
+    })
+    .onConflict('evidence_id')
+    .merge(['protection_required', 'protection_types', 'restrictions', 'authorized_personnel', 'review_date', 'notes', 'updated_by', 'updated_at'])
+    .returning('*');
+
+  return mapProtectionRow(row);
+};
+
+/**
+ * Restrictions that stop the principal from an operation on the given evidence
+ * items, or on the evidence built on the given documents
+ */
+export const checkSourceAccess = async (
+  target: { evidenceIds?: string[]; documentIds?: string[] },
+  principal: SourcePrincipal,
+  restrictionTypes: RestrictionType[],
+  now: Date = new Date()
+): Promise<SourceProtectionDenial[]> => {
+  const evidenceIds = target.evidenceIds ?? [];
+  const documentIds = target.documentIds ?? [];
+  if (evidenceIds.length === 0 && documentIds.length === 0) {
+    return [];
+  }
+
+  const rows = await database('evidence_source_protections as protection')
+    .join('evidence_items', 'evidence_items.id', 'protection.evidence_id')
+    .select('protection.*', 'evidence_items.document_id')
+    .where(function() {
+      this.whereIn('protection.evidence_id', evidenceIds).orWhereIn('evidence_items.document_id', documentIds);
+    });
+
+  return rows.flatMap((row: any) => {
+    const restriction = findBlockingRestriction(mapProtectionRow(row), principal, restrictionTypes, now);
+    if (!restriction) {
+      return [];
+    }
+    return [{
+      evidenceId: row.evidence_id,
+      ...(row.document_id && documentIds.includes(row.document_id) && { documentId: row.document_id }),
+      restrictionType: restriction.type,
+      authority: restriction.authority,
+    }];
+  });
+};
+
+/**
+ * Audit every denial: one audit_logs row per restricted item and a security event
+ */
+export const recordSourceProtectionDenials = async (
+  denials: SourceProtectionDenial[],
+  principal: SourcePrincipal,
+  operation: string,
+  context: DenialContext = {}
+): Promise<void> => {
+  if (denials.length === 0) {
+    return;
+  }
+
+  await database('audit_logs').insert(denials.map(denial => ({
+    user_id: principal.id,
+    action: SOURCE_PROTECTION_DENIED,
+    resource_type: 'evidence',
+    resource_id: denial.evidenceId,
+    new_values: JSON.stringify({ operation, ...denial }),
+    ip_address: context.ip ?? null,
+    user_agent: context.userAgent ?? null,
+  })));
+
+  logSecurity('source_protection_denied', {
+    operation,
+    denials,
+    userId: principal.id,
+    userRole: principal.roleType,
+    ip: context.ip,
+  });
+};
+
+/**
+ * Denied attempts on an item, newest first
+ */
+export const getSourceProtectionDenials = async (evidenceId: string, limit = 100): Promise<AuditLog[]> => {
+  const rows = await database('audit_logs')
+    .select('*')
+    .where({ action: SOURCE_PROTECTION_DENIED, resource_type: 'evidence', resource_id: evidenceId })
+    .orderBy('timestamp', 'desc')
+    .limit(limit);
+
+  return rows.map((row: any) => ({
+    id: row.id,
+    ...(row.user_id && { userId: row.user_id }),
+    action: row.action,
+    resourceType: row.resource_type,
+    resourceId: row.resource_id,
+    newValues: parseJson(row.new_values, {}),
+    ...(row.ip_address && { ipAddress: row.ip_address }),
+    ...(row.user_agent && { userAgent: row.user_agent }),
+    timestamp: new Date(row.timestamp),
+  }));
+};
@@ -0,0 +1,685 @@
+import database from '../config/database';
+import {
+  EvidenceTimeline,
+  TimelineAggregationLevel,
+  TimelineBucket,
+  TimelineConflict,
+  TimelineEvent,
+  TimelineEventCertainty,
+  TimelineEventParticipant,
+  TimelineEventType,
+  TimelineFilter,
+  TimelinePeriod,
+} from '../types';
+import { parseLoadFileDate } from './loadFile';
+import { documentAccessibleCondition, SourcePrincipal, sourceAccessibleCondition } from './sourceProtection';
+
+/**
+ * A timeline event before reconciliation. Candidates that describe the same
+ * occurrence share a subject, e.g. "evidence:<id>:custody:0" for the collection
+ * recorded in both the custody ledger and the custody summary.
+ */
+export interface CandidateEvent extends TimelineEvent {
+  subject: string;
+}
+
+/**
+ * The occurrence with subject `before` must not be later than the one with subject `after`
+ */
+export interface SequenceConstraint {
+  before: string;
+  after: string;
+  reason: string;
+}
+
+export interface TimelineSourceData {
+  evidence: any[];
+  ledgerEntries: any[];
+  communications: any[];
+  documents: any[];
+  attachments: Array<{ communication_id: string; document_id: string }>;
+  temporalSequences: Array<{ source_evidence_id: string; target_evidence_id: string }>;
+}
+
+export interface TimelineRequest {
+  caseId: string;
+  title?: string;
+  description?: string;
+  evidenceIds?: string[];
+  stakeholderIds?: string[];
+  from?: Date;
+  to?: Date;
+  filters?: TimelineFilter[];
+  aggregationLevel?: TimelineAggregationLevel;
+  periods?: Array<Omit<TimelinePeriod, 'id' | 'evidenceIds'> & { id?: string }>;
+  toleranceMinutes?: number;
+}
+
+export const DEFAULT_TOLERANCE_MINUTES = 60;
+
+export const TIMELINE_FILTER_FIELDS = [
+  'eventType', 'certainty', 'timestamp', 'duration', 'title', 'description', 'location',
+  'evidenceId', 'sources', 'participants', 'recordTypes', 'tags',
+];
+
+// DAT headers that loadFile maps to documents.document_date on import
+const LOAD_FILE_DATE_FIELDS = ['DATESENT', 'SENTDATE', 'DATE_SENT', 'DOCDATE'];
+
+const CERTAINTY_ORDER: TimelineEventCertainty[] = ['CONFIRMED', 'PROBABLE', 'POSSIBLE', 'SPECULATIVE'];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const parseJson = (value: any, fallback: any) => (typeof value === 'string' ? JSON.parse(value) : value ?? fallback);
+
+const certaintyRank = (certainty: TimelineEventCertainty): number => CERTAINTY_ORDER.indexOf(certainty);
+
+export const downgradeCertainty = (certainty: TimelineEventCertainty): TimelineEventCertainty =>
+  CERTAINTY_ORDER[Math.min(certaintyRank(certainty) + 1, CERTAINTY_ORDER.length - 1)]!;
+
+const union = (a: string[], b: string[]): string[] => [...new Set([...a, ...b])];
+
+const custodySubject = (evidenceId: string, index: number) => `evidence:${evidenceId}:custody:${index}`;
+const documentSubject = (documentId: string) => `document:${documentId}:dated`;
+const communicationSubject = (communicationId: string) => `communication:${communicationId}`;
+
+/**
+ * Turn stored records into candidate events, and the ordering rules that must hold between them
+ */
+export const buildCandidateEvents = (
+  data: TimelineSourceData
+): { candidates: CandidateEvent[]; constraints: SequenceConstraint[] } => {
+  const candidates: CandidateEvent[] = [];
+  const constraints: SequenceConstraint[] = [];
+
+  const evidenceByDocument = new Map<string, string[]>();
+  for (const item of data.evidence) {
+    if (item.document_id) {
+      evidenceByDocument.set(item.document_id, [...(evidenceByDocument.get(item.document_id) || []), item.id]);
+    }
+  }
+  const evidenceTypes = new Map<string, string>(data.evidence.map(item => [item.id, item.evidence_type]));
+
+  const custodyEvent = (
+    evidenceId: string,
+    index: number,
+    fields: { timestamp: Date; custodian: string; custodianName?: string; from?: string; location?: string; reason?: string },
+    record: CandidateEvent['records'][number],
+    certainty: TimelineEventCertainty
+  ): CandidateEvent => {
+    const participants: TimelineEventParticipant[] = [{ id: fields.custodian, role: 'CUSTODIAN', anonymized: false }];
+    if (fields.from && fields.from !== 'system') {
+      participants.push({ id: fields.from, role: 'OTHER', anonymized: false, notes: 'Transferred from' });
+    }
+    return {
+      id: `${record.type}:${record.id}`,
+      subject: custodySubject(evidenceId, index),
+      evidenceId,
+      eventType: index === 0 ? 'COLLECTION' : 'TRANSFER',
+      timestamp: fields.timestamp,
+      title: index === 0
+        ? `Evidence collected (${evidenceTypes.get(evidenceId) || 'evidence'})`
+        : `Custody transferred to ${fields.custodianName || fields.custodian}`,
+      description: fields.reason || '',
+      ...(fields.location && { location: fields.location }),
+      participants,
+      certainty,
+      sources: [evidenceId],
+      records: [record],
+      tags: ['custody'],
+    };
+  };
+
+  // Signed ledger entries are authoritative for custody
+  const ledgerCounts = new Map<string, number>();
+  for (const entry of data.ledgerEntries) {
+    const index = Number(entry.sequence_number) - 1;
+    const receivedAt = new Date(entry.received_at);
+    candidates.push(custodyEvent(entry.evidence_id, index, {
+      timestamp: receivedAt,
+      custodian: entry.custodian,
+      ...(entry.custodian_name && { custodianName: entry.custodian_name }),
+      ...(entry.transferred_from && { from: entry.transferred_from }),
+      ...(entry.storage_location && { location: entry.storage_location }),
+      ...(entry.reason_description && { reason: entry.reason_description }),
+    }, { type: 'custody_ledger', id: entry.id, field: 'received_at', timestamp: receivedAt }, 'CONFIRMED'));
+    ledgerCounts.set(entry.evidence_id, Math.max(ledgerCounts.get(entry.evidence_id) || 0, index + 1));
+  }
+
+  for (const item of data.evidence) {
+    // The chain_of_custody summary is kept alongside the ledger, one entry per transfer
+    const summary: any[] = parseJson(item.chain_of_custody, []);
+    summary.forEach((transfer, index) => {
+      const transferredAt = new Date(transfer.transferredAt);
+      if (isNaN(transferredAt.getTime())) {
+        return;
+      }
+      candidates.push(custodyEvent(item.id, index, {
+        timestamp: transferredAt,
+        custodian: transfer.toUser,
+        ...(transfer.fromUser && { from: transfer.fromUser }),
+        ...(transfer.location && { location: transfer.location }),
+        ...(transfer.reason && { reason: transfer.reason }),
+      }, { type: 'custody_summary', id: `${item.id}#${index}`, field: 'transferredAt', timestamp: transferredAt }, 'PROBABLE'));
+    });
+
+    const custodyLength = Math.max(ledgerCounts.get(item.id) || 0, summary.length);
+    for (let index = 1; index < custodyLength; index++) {
+      constraints.push({
+        before: custodySubject(item.id, index - 1),
+        after: custodySubject(item.id, index),
+        reason: 'Custody transfers are recorded out of order',
+      });
+    }
+
+    if (item.document_id) {
+      constraints.push({
+        before: documentSubject(item.document_id),
+        after: custodySubject(item.id, 0),
+        reason: 'Evidence was collected before the date on its document',
+      });
+    }
+  }
+
+  for (const document of data.documents) {
+    const evidenceIds = evidenceByDocument.get(document.id) || [];
+    const base = {
+      subject: documentSubject(document.id),
+      ...(evidenceIds[0] && { evidenceId: evidenceIds[0] }),
+      eventType: 'CREATION' as TimelineEventType,
+      title: `Document dated: ${document.title}`,
+      description: [
+        document.producing_party && `Produced by ${document.producing_party}`,
+        document.custodian && `Custodian ${document.custodian}`,
+      ].filter(Boolean).join('; '),
+      participants: [],
+      sources: evidenceIds,
+      tags: ['document'],
+    };
+
+    if (document.document_date) {
+      const documentDate = new Date(document.document_date);
+      candidates.push({
+        ...base,
+        id: `document:${document.id}`,
+        timestamp: documentDate,
+        certainty: 'PROBABLE',
+        records: [{ type: 'document', id: document.id, field: 'document_date', timestamp: documentDate }],
+      });
+    }
+
+    const loadFileFields: Record<string, string> = parseJson(document.load_file_fields, {});
+    for (const [header, value] of Object.entries(loadFileFields)) {
+      if (!LOAD_FILE_DATE_FIELDS.includes(header.toUpperCase()) || typeof value !== 'string') {
+        continue;
+      }
+      const parsed = parseLoadFileDate(value);
+      if (parsed) {
+        candidates.push({
+          ...base,
+          id: `load_file:${document.id}:${header}`,
+          timestamp: parsed,
+          certainty: 'POSSIBLE',
+          records: [{ type: 'load_file', id: document.id, field: header, timestamp: parsed }],
+        });
+      }
+    }
+  }
+
+  for (const communication of data.communications) {
+    const occurredAt = new Date(communication.occurred_at);
+    const participantIds: string[] = parseJson(communication.participants, []);
+    const participants: TimelineEventParticipant[] = [
+      ...(communication.initiated_by ? [{ id: communication.initiated_by, role: 'CREATOR' as const, anonymized: false }] : []),
+      ...participantIds
+        .filter(id => id !== communication.initiated_by)
+        .map(id => ({ id, role: 'RECIPIENT' as const, anonymized: false })),
+    ];
+    candidates.push({
+      id: `communication:${communication.id}`,
+      subject: communicationSubject(communication.id),
+      eventType: communication.communication_type === 'meeting' ? 'MEETING' : 'COMMUNICATION',
+      timestamp: occurredAt,
+      ...(communication.duration_minutes && { duration: Number(communication.duration_minutes) }),
+      title: communication.subject || `${communication.communication_type} communication`,
+      description: communication.summary || '',
+      ...(communication.location && { location: communication.location }),
+      participants,
+      certainty: 'PROBABLE',
+      sources: [],
+      records: [{ type: 'communication', id: communication.id, field: 'occurred_at', timestamp: occurredAt }],
+      tags: [communication.communication_type],
+    });
+  }
+
+  for (const attachment of data.attachments) {
+    constraints.push({
+      before: documentSubject(attachment.document_id),
+      after: communicationSubject(attachment.communication_id),
+      reason: 'Attachment is dated after the communication that carried it',
+    });
+  }
+
+  const documentOf = new Map<string, string>(
+    data.evidence.filter(item => item.document_id).map(item => [item.id, item.document_id])
+  );
+  for (const sequence of data.temporalSequences) {
+    const before = documentOf.get(sequence.source_evidence_id);
+    const after = documentOf.get(sequence.target_evidence_id);
+    if (before && after) {
+      constraints.push({
+        before: documentSubject(before),
+        after: documentSubject(after),
+        reason: 'Evidence recorded as earlier in a TEMPORAL_SEQUENCE is dated later',
+      });
+    }
+  }
+
+  return { candidates, constraints };
+};
+
+/**
+ * Merge candidates that describe the same occurrence at (nearly) the same time.
+ * Where sources disagree by more than the tolerance, every version is kept and the
+ * disagreement is reported. The most certain version is the primary one.
+ */
+export const reconcileEvents = (
+  candidates: CandidateEvent[],
+  toleranceMs: number
+): { events: CandidateEvent[]; conflicts: TimelineConflict[]; primary: Map<string, CandidateEvent>; weaker: Set<string> } => {
+  const bySubject = new Map<string, CandidateEvent[]>();
+  for (const candidate of candidates) {
+    bySubject.set(candidate.subject, [...(bySubject.get(candidate.subject) || []), candidate]);
+  }
+
+  const events: CandidateEvent[] = [];
+  const conflicts: TimelineConflict[] = [];
+  const primary = new Map<string, CandidateEvent>();
+  const weaker = new Set<string>();
+
+  for (const [subject, group] of bySubject) {
+    const [anchor, ...others] = [...group].sort((a, b) =>
+      certaintyRank(a.certainty) - certaintyRank(b.certainty) || a.timestamp.getTime() - b.timestamp.getTime());
+    const merged: CandidateEvent = { ...anchor!, records: [...anchor!.records], sources: [...anchor!.sources] };
+    events.push(merged);
+    primary.set(subject, merged);
+
+    for (const other of others) {
+      const difference = Math.abs(other.timestamp.getTime() - merged.timestamp.getTime());
+      if (difference <= toleranceMs) {
+        merged.records.push(...other.records);
+        merged.sources = union(merged.sources, other.sources);
+        continue;
+      }
+
+      const disagreeing: CandidateEvent = { ...other };
+      events.push(disagreeing);
+      conflicts.push({
+        id: `disagreement:${merged.id}:${disagreeing.id}`,
+        kind: 'DISAGREEMENT',
+        description: `${merged.records[0]!.type}.${merged.records[0]!.field} and `
+          + `${disagreeing.records[0]!.type}.${disagreeing.records[0]!.field} disagree on when this happened`,
+        eventIds: [merged.id, disagreeing.id],
+        differenceMinutes: Math.round(difference / MINUTE_MS),
+      });
+      weaker.add(disagreeing.id);
+      if (disagreeing.certainty === merged.certainty) {
+        weaker.add(merged.id);
+      }
+    }
+  }
+
+  return { events, conflicts, primary, weaker };
+};
+
+/**
+ * Ordering rules broken by the primary version of each occurrence
+ */
+export const checkSequences = (
+  constraints: SequenceConstraint[],
+  primary: Map<string, CandidateEvent>,
+  toleranceMs: number
+): { conflicts: TimelineConflict[]; weaker: Set<string> } => {
+  const conflicts: TimelineConflict[] = [];
+  const weaker = new Set<string>();
+
+  for (const constraint of constraints) {
+    const before = primary.get(constraint.before);
+    const after = primary.get(constraint.after);
+    if (!before || !after) {
+      continue;
+    }
+
+    const overlap = before.timestamp.getTime() - after.timestamp.getTime();
+    if (overlap <= toleranceMs) {
+      continue;
+    }
+
+    conflicts.push({
+      id: `sequence:${before.id}:${after.id}`,
+      kind: 'SEQUENCE',
+      description: constraint.reason,
+      eventIds: [before.id, after.id],
+      differenceMinutes: Math.round(overlap / MINUTE_MS),
+    });
+
+    const rankDifference = certaintyRank(before.certainty) - certaintyRank(after.certainty);
+    if (rankDifference >= 0) {
+      weaker.add(before.id);
+    }
+    if (rankDifference <= 0) {
+      weaker.add(after.id);
+    }
+  }
+
+  return { conflicts, weaker };
+};
+
+const fieldValue = (event: TimelineEvent, field: string): any => {
+  switch (field) {
+    case 'participants':
+      return event.participants.map(participant => participant.id);
+    case 'recordTypes':
+      return event.records.map(record => record.type);
+    default:
+      return (event as any)[field];
+  }
+};
+
+const comparable = (value: any, like: any): any => {
+  if (like instanceof Date) {
+    return new Date(value).getTime();
+  }
+  if (typeof like === 'number') {
+    return Number(value);
+  }
+  return typeof value === 'string' ? value.toLowerCase() : value;
+};
+
+/**
+ * Whether an event passes a filter. Filters on list fields (participants, sources,
+ * tags, recordTypes) pass when any element matches; NOT_EQUALS and NOT_IN pass
+ * when no element matches.
+ */
+export const matchesTimelineFilter = (event: TimelineEvent, filter: TimelineFilter): boolean => {
+  if (!filter.active) {
+    return true;
+  }
+
+  const raw = fieldValue(event, filter.field);
+  const values: any[] = (Array.isArray(raw) ? raw : [raw]).filter(value => value !== undefined && value !== null);
+  const filterValues: any[] = Array.isArray(filter.value) ? filter.value : [filter.value];
+
+  const test = (value: any): boolean => {
+    const actual = comparable(value, value);
+    const expected = filterValues.map(candidate => comparable(candidate, value));
+    switch (filter.operator) {
+      case 'EQUALS':
+      case 'NOT_EQUALS':
+      case 'IN':
+      case 'NOT_IN':
+        return expected.includes(actual);
+      case 'CONTAINS':
+        return expected.some(candidate => String(actual).includes(String(candidate)));
+      case 'STARTS_WITH':
+        return expected.some(candidate => String(actual).startsWith(String(candidate)));
+      case 'ENDS_WITH':
+        return expected.some(candidate => String(actual).endsWith(String(candidate)));
+      case 'GREATER_THAN':
+        return actual > expected[0];
+      case 'LESS_THAN':
+        return actual < expected[0];
+      case 'BETWEEN':
+        return actual >= expected[0] && actual <= expected[1];
+      default:
+        return false;
+    }
+  };
+
+  const negated = filter.operator === 'NOT_EQUALS' || filter.operator === 'NOT_IN';
+  return negated ? !values.some(test) : values.some(test);
+};
+
+/**
+ * Start of the aggregation bucket containing a moment, in UTC. Weeks start on Monday.
+ */
+export const bucketStart = (date: Date, level: Exclude<TimelineAggregationLevel, 'NONE'>): Date => {
+  switch (level) {
+    case 'HOUR':
+      return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+    case 'DAY':
+      return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+    case 'WEEK': {
+      const day = new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+      return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+    }
+    case 'MONTH':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+};
+
+const bucketEnd = (start: Date, level: Exclude<TimelineAggregationLevel, 'NONE'>): Date => {
+  switch (level) {
+    case 'HOUR':
+      return new Date(start.getTime() + HOUR_MS);
+    case 'DAY':
+      return new Date(start.getTime() + DAY_MS);
+    case 'WEEK':
+      return new Date(start.getTime() + 7 * DAY_MS);
+    case 'MONTH':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  }
+};
+
+export const bucketTimelineEvents = (
+  events: TimelineEvent[],
+  level: TimelineAggregationLevel,
+  conflictedIds: Set<string> = new Set()
+): TimelineBucket[] => {
+  if (level === 'NONE') {
+    return [];
+  }
+
+  const buckets = new Map<number, TimelineBucket>();
+  for (const event of events) {
+    const start = bucketStart(event.timestamp, level);
+    let bucket = buckets.get(start.getTime());
+    if (!bucket) {
+      bucket = { start, end: bucketEnd(start, level), eventCount: 0, eventIds: [], eventTypes: {}, conflictCount: 0 };
+      buckets.set(start.getTime(), bucket);
+    }
+    bucket.eventCount++;
+    bucket.eventIds.push(event.id);
+    bucket.eventTypes[event.eventType] = (bucket.eventTypes[event.eventType] || 0) + 1;
+    if (conflictedIds.has(event.id)) {
+      bucket.conflictCount++;
+    }
+  }
+
+  return [...buckets.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Assemble a chronology from source records: reconcile duplicates, flag conflicts,
+ * then filter, sort and bucket the result
+ */
+export const assembleTimeline = (
+  data: TimelineSourceData,
+  options: {
+    filters?: TimelineFilter[];
+    aggregationLevel?: TimelineAggregationLevel;
+    periods?: TimelineRequest['periods'];
+    toleranceMinutes?: number;
+    from?: Date;
+    to?: Date;
+  }
+): Pick<EvidenceTimeline, 'events' | 'periods' | 'buckets' | 'conflicts'> => {
+  const toleranceMs = (options.toleranceMinutes ?? DEFAULT_TOLERANCE_MINUTES) * MINUTE_MS;
+  const { candidates, constraints } = buildCandidateEvents(data);
+  const reconciled = reconcileEvents(candidates, toleranceMs);
+  const sequences = checkSequences(constraints, reconciled.primary, toleranceMs);
+
+  const allConflicts = [...reconciled.conflicts, ...sequences.conflicts];
+  const conflictedIds = new Set(allConflicts.flatMap(conflict => conflict.eventIds));
+  const weaker = new Set([...reconciled.weaker, ...sequences.weaker]);
+
+  const filters = options.filters || [];
+  const events: TimelineEvent[] = reconciled.events
+    .map(({ subject, ...event }) => ({
+      ...event,
+      // A version that loses a conflict is one step less certain, however many conflicts it is in
+      certainty: weaker.has(event.id) ? downgradeCertainty(event.certainty) : event.certainty,
+      tags: conflictedIds.has(event.id) ? union(event.tags, ['conflict']) : event.tags,
+    }))
+    .filter(event => (!options.from || event.timestamp >= options.from) && (!options.to || event.timestamp <= options.to))
+    .filter(event => filters.every(filter => matchesTimelineFilter(event, filter)))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id.localeCompare(b.id));
+
+  const included = new Set(events.map(event => event.id));
+  const conflicts = allConflicts.filter(conflict => conflict.eventIds.some(id => included.has(id)));
+
+  const periods: TimelinePeriod[] = (options.periods || []).map((period, index) => ({
+    id: period.id || `period-${index + 1}`,
+    title: period.title,
+    startDate: period.startDate,
+    endDate: period.endDate,
+    description: period.description,
+    color: period.color,
+    evidenceIds: [...new Set(events
+      .filter(event => event.timestamp >= period.startDate && event.timestamp <= period.endDate)
+      .flatMap(event => event.sources))],
+  }));
+
+  return {
+    events,
+    periods,
+    buckets: bucketTimelineEvents(events, options.aggregationLevel || 'NONE', conflictedIds),
+    conflicts,
+  };
+};
+
+/**
+ * Evidence in a case: items linked by recorded relationships or held under a
+ * preservation order for the case, plus any named explicitly
+ */
+export const resolveCaseEvidence = async (caseId: string, evidenceIds: string[] = []): Promise<string[]> => {
+  const [related, held] = await Promise.all([
+    database('evidence_relationships')
+      .where({ case_id: caseId })
+      .select('source_evidence_id', 'target_evidence_id'),
+    database('legal_hold_items')
+      .join('preservation_orders', 'legal_hold_items.order_id', 'preservation_orders.id')
+      .where('preservation_orders.court_case', caseId)
+      .where('legal_hold_items.item_type', 'evidence')
+      .pluck('legal_hold_items.item_id'),
+  ]);
+
+  return [...new Set([
+    ...evidenceIds,
+    ...related.flatMap((row: any) => [row.source_evidence_id, row.target_evidence_id]),
+    ...held,
+  ])];
+};
+
+/**
+ * Everything a timeline is built from. Evidence and documents the principal is
+ * restricted from are left out, along with anything reached only through them.
+ */
+export const loadTimelineSources = async (
+  request: TimelineRequest,
+  principal: SourcePrincipal
+): Promise<TimelineSourceData> => {
+  const caseEvidenceIds = await resolveCaseEvidence(request.caseId, request.evidenceIds);
+
+  const accessible = sourceAccessibleCondition('evidence_items.id', principal, ['ACCESS']);
+  const evidence = caseEvidenceIds.length > 0
+    ? await database('evidence_items')
+      .whereIn('id', caseEvidenceIds)
+      .whereRaw(accessible.sql, accessible.bindings)
+      .select('id', 'document_id', 'evidence_type', 'source_stakeholder_id', 'chain_of_custody', 'created_at')
+    : [];
+  const evidenceIds = evidence.map((item: any) => item.id);
+
+  const stakeholderIds = [...new Set([
+    ...(request.stakeholderIds || []),
+    ...evidence.map((item: any) => item.source_stakeholder_id).filter(Boolean),
+  ])];
+
+  const [ledgerEntries, communications, temporalSequences] = await Promise.all([
+    evidenceIds.length > 0
+      ? database('evidence_custody_ledger')
+        .whereIn('evidence_id', evidenceIds)
+        .orderBy([{ column: 'evidence_id' }, { column: 'sequence_number' }])
+      : [],
+    stakeholderIds.length > 0
+      ? database('communications')
+        .where(function() {
+          this.whereIn('initiated_by', stakeholderIds)
+            .orWhereRaw('jsonb_exists_any(participants, ?)', [stakeholderIds]);
+        })
+        .modify(query => {
+          if (request.from) {
+            query.where('occurred_at', '>=', request.from);
+          }
+          if (request.to) {
+            query.where('occurred_at', '<=', request.to);
+          }
+        })
+        .orderBy('occurred_at', 'asc')
+      : [],
+    evidenceIds.length > 0
+      ? database('evidence_relationships')
+        .where({ case_id: request.caseId, relationship_type: 'TEMPORAL_SEQUENCE' })
+        .whereIn('source_evidence_id', evidenceIds)
+        .whereIn('target_evidence_id', evidenceIds)
+        .select('source_evidence_id', 'target_evidence_id')
+      : [],
+  ]);
+
+  const attachments = communications.length > 0
+    ? await database('communication_attachments')
+      .whereIn('communication_id', communications.map((row: any) => row.id))
+      .select('communication_id', 'document_id')
+    : [];
+
+  const documentIds = [...new Set([
+    ...evidence.map((item: any) => item.document_id).filter(Boolean),
+    ...attachments.map((row: any) => row.document_id),
+  ])];
+  const accessibleDocument = documentAccessibleCondition('documents.id', principal, ['ACCESS']);
+  const documents = documentIds.length > 0
+    ? await database('documents')
+      .whereIn('id', documentIds)
+      .whereRaw(accessibleDocument.sql, accessibleDocument.bindings)
+      .select('id', 'title', 'document_date', 'load_file_fields', 'custodian', 'producing_party')
+    : [];
+
+  return { evidence, ledgerEntries, communications, documents, attachments, temporalSequences };
+};
+
+export const buildCaseTimeline = async (request: TimelineRequest, principal: SourcePrincipal): Promise<EvidenceTimeline> => {
+  const data = await loadTimelineSources(request, principal);
+  const aggregationLevel = request.aggregationLevel || 'NONE';
+  const filters = request.filters || [];
+
+  const assembled = assembleTimeline(data, {
+    filters,
+    aggregationLevel,
+    ...(request.periods && { periods: request.periods }),
+    ...(request.toleranceMinutes !== undefined && { toleranceMinutes: request.toleranceMinutes }),
+    ...(request.from && { from: request.from }),
+    ...(request.to && { to: request.to }),
+  });
+
+  return {
+    caseId: request.caseId,
+    title: request.title || `Chronology for ${request.caseId}`,
+    ...(request.description && { description: request.description }),
+    ...assembled,
+    aggregationLevel,
+    filters,
+    generatedBy: principal.id,
+    generatedAt: new Date(),
+  };
+};
@@ -0,0 +1,332 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Knex } from 'knex';
+import database from '../config/database';
+import {
+  CustodyLedgerEntry,
+  EvidenceTransparencyBundle,
+  SignedTreeHead,
+  TransparencyConsistencyProof,
+  TransparencyLogLeaf,
+  TransparencyLogLeafType,
+  TransparencyLogProof,
+} from '../types';
+import { canonicalize, CustodySigningKey, getCustodySigningKey, loadSigningKey } from './custodyLedger';
+import { consistencyProof, inclusionProof, leafHash, merkleTreeHash, treeHeadSignatureInput } from '../utils/merkleLog';
+
+/*
+ * RFC 6962 Merkle tree over every evidence fingerprint and custody event.
+ * Hashing and proofs come from utils/merkleLog, which outside experts can also
+ * use (as src/evidence-chain/crypto/merkle-log.ts) to check exported proofs offline.
+ */
+
+export interface LeafInput {
+  leafType: TransparencyLogLeafType;
+  evidenceId: string;
+  sourceId: string;
+  leafData: string;
+}
+
+// Transaction-scoped advisory lock serialising appends, so leaf indexes have no gaps or forks
+const LOG_APPEND_LOCK = 6962;
+const MAX_ENTRIES_PER_PAGE = 1000;
+
+let cachedLogKey: CustodySigningKey | null = null;
+
+export const signTreeHead = (
+  treeSize: number,
+  rootHash: string,
+  timestamp: Date,
+  key: CustodySigningKey
+): SignedTreeHead => ({
+  logId: key.fingerprint,
+  treeSize,
+  rootHash,
+  timestamp,
+  signature: crypto
+    .sign(key.algorithm === 'Ed25519' ? null : 'sha256', treeHeadSignatureInput(treeSize, timestamp, Buffer.from(rootHash, 'hex')), key.privateKey)
+    .toString('base64'),
+  signatureAlgorithm: key.algorithm,
+});
+
+export const fingerprintLeaf = (evidenceId: string, integrityHash: string): LeafInput => ({
+  leafType: 'EVIDENCE_FINGERPRINT',
+  evidenceId,
+  sourceId: evidenceId,
+  leafData: canonicalize({ type: 'EVIDENCE_FINGERPRINT', evidenceId, hashAlgorithm: 'sha256', hash: integrityHash }),
+});
+
+// The custody entry hash already commits to every field of the transfer
+export const custodyLeaf = (
+  entry: Pick<CustodyLedgerEntry, 'id' | 'evidenceId' | 'sequenceNumber' | 'entryHash' | 'signingKeyFingerprint'>
+): LeafInput => ({
+  leafType: 'CUSTODY_EVENT',
+  evidenceId: entry.evidenceId,
+  sourceId: entry.id,
+  leafData: canonicalize({
+    type: 'CUSTODY_EVENT',
+    evidenceId: entry.evidenceId,
+    sequenceNumber: entry.sequenceNumber,
+    entryHash: entry.entryHash,
+    signingKeyFingerprint: entry.signingKeyFingerprint,
+  }),
+});
+
+export const mapLeafRow = (row: any): TransparencyLogLeaf => ({
+  leafIndex: Number(row.leaf_index),
+  leafType: row.leaf_type,
+  evidenceId: row.evidence_id,
+  sourceId: row.source_id,
+  leafData: row.leaf_data,
+  leafHash: row.leaf_hash,
+  createdAt: row.created_at,
+});
+
+export const mapTreeHeadRow = (row: any): SignedTreeHead => ({
+  logId: row.log_id,
+  treeSize: Number(row.tree_size),
+  rootHash: row.root_hash,
+  timestamp: new Date(row.tree_timestamp),
+  signature: row.signature,
+  signatureAlgorithm: row.signature_algorithm,
+});
+
+/**
+ * Tree head signing key: TRANSPARENCY_LOG_SIGNING_KEY_PATH, or the server custody key
+ */
+export const getLogSigningKey = (): CustodySigningKey => {
+  const keyPath = process.env['TRANSPARENCY_LOG_SIGNING_KEY_PATH'];
+  if (!keyPath) {
+    return getCustodySigningKey();
+  }
+  if (!cachedLogKey) {
+    cachedLogKey = loadSigningKey(fs.readFileSync(keyPath, 'utf8'));
+  }
+  return cachedLogKey;
+};
+
+export const getLogPublicKey = (): string =>
+  getLogSigningKey().publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+/**
+ * Append leaves to the log. Leaves already present (same hash) are skipped,
+ * so callers may safely log the same record twice.
+ */
+export const appendLeaves = async (trx: Knex.Transaction, leaves: LeafInput[]): Promise<TransparencyLogLeaf[]> => {
+  if (leaves.length === 0) {
+    return [];
+  }
+
+  await trx.raw('SELECT pg_advisory_xact_lock(?)', [LOG_APPEND_LOCK]);
+
+  const hashed = leaves.map(leaf => ({ ...leaf, leafHash: leafHash(leaf.leafData).toString('hex') }));
+  const existing = new Set<string>(await trx('transparency_log_leaves')
+    .whereIn('leaf_hash', hashed.map(leaf => leaf.leafHash))
+    .pluck('leaf_hash'));
+
+  // Indexes start at 0 and have no gaps, so the next one is the current size
+  const countRow = await trx('transparency_log_leaves').count('leaf_index as count').first();
+  let nextIndex = Number(countRow?.['count'] || 0);
+
+  const rows: Record<string, any>[] = [];
+  for (const leaf of hashed) {
+    if (existing.has(leaf.leafHash)) {
+      continue;
+    }
+    existing.add(leaf.leafHash);
+    rows.push({
+      leaf_index: nextIndex++,
+      leaf_type: leaf.leafType,
+      evidence_id: leaf.evidenceId,
+      source_id: leaf.sourceId,
+      leaf_data: leaf.leafData,
+      leaf_hash: leaf.leafHash,
+    });
+  }
+
+  if (rows.length === 0) {
+    return [];
+  }
+  const inserted = await trx('transparency_log_leaves').insert(rows).returning('*');
+  return inserted.map(mapLeafRow);
+};
+
+export const logEvidenceFingerprint = (trx: Knex.Transaction, evidenceId: string, integrityHash: string) =>
+  appendLeaves(trx, [fingerprintLeaf(evidenceId, integrityHash)]);
+
+export const logCustodyEntry = (trx: Knex.Transaction, entry: CustodyLedgerEntry) =>
+  appendLeaves(trx, [custodyLeaf(entry)]);
+
+/**
+ * Log custody entries and fingerprints recorded before the log existed,
+ * or outside the routes that log them as they are written
+ */
+export const logUnrecordedEntries = async (): Promise<number> => {
+  const [custodyRows, evidenceRows] = await Promise.all([
+    database('evidence_custody_ledger as entry')
+      .leftJoin('transparency_log_leaves as leaf', function() {
+        this.on('leaf.source_id', '=', 'entry.id').andOnVal('leaf.leaf_type', '=', 'CUSTODY_EVENT');
+      })
+      .whereNull('leaf.leaf_index')
+      .orderBy([{ column: 'entry.created_at' }, { column: 'entry.sequence_number' }])
+      .select('entry.id', 'entry.evidence_id', 'entry.sequence_number', 'entry.entry_hash', 'entry.signing_key_fingerprint'),
+    database('evidence_items as item')
+      .leftJoin('transparency_log_leaves as leaf', function() {
+        this.on('leaf.source_id', '=', 'item.id').andOnVal('leaf.leaf_type', '=', 'EVIDENCE_FINGERPRINT');
+      })
+      .whereNotNull('item.integrity_hash')
+      .whereNull('leaf.leaf_index')
+      .orderBy('item.created_at', 'asc')
+      .select('item.id', 'item.integrity_hash'),
+  ]);
+
+  const leaves = [
+    ...evidenceRows.map((row: any) => fingerprintLeaf(row.id, row.integrity_hash)),
+    ...custodyRows.map((row: any) => custodyLeaf({
+      id: row.id,
+      evidenceId: row.evidence_id,
+      sequenceNumber: Number(row.sequence_number),
+      entryHash: row.entry_hash,
+      signingKeyFingerprint: row.signing_key_fingerprint,
+    })),
+  ];
+
+  const appended = await database.transaction(trx => appendLeaves(trx, leaves));
+  return appended.length;
+};
+
+const getLeafHashes = async (treeSize: number, db: Knex | Knex.Transaction = database): Promise<Buffer[]> => {
+  const hashes: string[] = await db('transparency_log_leaves')
+    .where('leaf_index', '<', treeSize)
+    .orderBy('leaf_index', 'asc')
+    .pluck('leaf_hash');
+  return hashes.map(hash => Buffer.from(hash, 'hex'));
+};
+
+export const getLatestTreeHead = async (): Promise<SignedTreeHead | null> => {
+  const row = await database('transparency_log_tree_heads').orderBy('tree_size', 'desc').first();
+  return row ? mapTreeHeadRow(row) : null;
+};
+
+export const getTreeHead = async (treeSize: number): Promise<SignedTreeHead | null> => {
+  const row = await database('transparency_log_tree_heads').where({ tree_size: treeSize }).first();
+  return row ? mapTreeHeadRow(row) : null;
+};
+
+/**
+ * Log anything unrecorded, then sign a tree head covering every leaf.
+ * Before signing, the stored leaves are checked against the previous head
+ * so a rewritten log is never signed over. Intended to be run on a schedule.
+ */
+export const publishTreeHead = async (): Promise<{ treeHead: SignedTreeHead | null; published: boolean; leavesLogged: number }> => {
+  const leavesLogged = await logUnrecordedEntries();
+  const key = getLogSigningKey();
+
+  return database.transaction(async trx => {
+    await trx.raw('SELECT pg_advisory_xact_lock(?)', [LOG_APPEND_LOCK]);
+
+    const latestRow = await trx('transparency_log_tree_heads').orderBy('tree_size', 'desc').first();
+    const latest = latestRow ? mapTreeHeadRow(latestRow) : null;
+
+    const countRow = await trx('transparency_log_leaves').count('leaf_index as count').first();
+    const treeSize = Number(countRow?.['count'] || 0);
+    if (treeSize === 0 || (latest && latest.treeSize === treeSize)) {
+      return { treeHead: latest, published: false, leavesLogged };
+    }
+
+    const leafHashes = await getLeafHashes(treeSize, trx);
+    if (leafHashes.length !== treeSize) {
+      throw new Error(`Transparency log has gaps: ${leafHashes.length} leaves below index ${treeSize}`);
+    }
+    if (latest && merkleTreeHash(leafHashes.slice(0, latest.treeSize)).toString('hex') !== latest.rootHash) {
+      throw new Error(`Transparency log leaves no longer match the tree head of size ${latest.treeSize}`);
+    }
+
+    const timestamp = new Date();
+    const treeHead = signTreeHead(treeSize, merkleTreeHash(leafHashes).toString('hex'), timestamp, key);
+
+    await trx('transparency_log_tree_heads').insert({
+      tree_size: treeHead.treeSize,
+      root_hash: treeHead.rootHash,
+      tree_timestamp: treeHead.timestamp,
+      signature: treeHead.signature,
+      signature_algorithm: treeHead.signatureAlgorithm,
+      log_id: treeHead.logId,
+    });
+
+    return { treeHead, published: true, leavesLogged };
+  });
+};
+
+export const getLogLeaves = async (start: number, end: number): Promise<TransparencyLogLeaf[]> => {
+  const rows = await database('transparency_log_leaves')
+    .where('leaf_index', '>=', start)
+    .where('leaf_index', '<', Math.min(end, start + MAX_ENTRIES_PER_PAGE))
+    .orderBy('leaf_index', 'asc');
+  return rows.map(mapLeafRow);
+};
+
+export const findLeaf = async (criteria: { leafIndex?: number; leafHash?: string }): Promise<TransparencyLogLeaf | null> => {
+  const row = await database('transparency_log_leaves')
+    .where(criteria.leafIndex !== undefined ? { leaf_index: criteria.leafIndex } : { leaf_hash: criteria.leafHash })
+    .first();
+  return row ? mapLeafRow(row) : null;
+};
+
+const buildInclusionProofs = (leaves: TransparencyLogLeaf[], treeHead: SignedTreeHead, leafHashes: Buffer[]): TransparencyLogProof[] =>
+  leaves.map(leaf => ({
+    leafIndex: leaf.leafIndex,
+    leafData: leaf.leafData,
+    leafHash: leaf.leafHash,
+    treeSize: treeHead.treeSize,
+    rootHash: treeHead.rootHash,
+    inclusionProof: inclusionProof(leaf.leafIndex, leafHashes).map(node => node.toString('hex')),
+    treeHead,
+  }));
+
+/**
+ * Audit path for a leaf under a published tree head (the latest by default)
+ */
+export const getInclusionProof = async (leaf: TransparencyLogLeaf, treeHead: SignedTreeHead): Promise<TransparencyLogProof> => {
+  if (leaf.leafIndex >= treeHead.treeSize) {
+    throw new Error(`Leaf ${leaf.leafIndex} is not covered by the tree head of size ${treeHead.treeSize}`);
+  }
+  const [proof] = buildInclusionProofs([leaf], treeHead, await getLeafHashes(treeHead.treeSize));
+  return proof!;
+};
+
+export const getConsistencyProof = async (
+  firstTreeHead: SignedTreeHead,
+  secondTreeHead: SignedTreeHead
+): Promise<TransparencyConsistencyProof> => {
+  const leafHashes = await getLeafHashes(secondTreeHead.treeSize);
+  return {
+    firstTreeHead,
+    secondTreeHead,
+    proof: consistencyProof(firstTreeHead.treeSize, leafHashes).map(node => node.toString('hex')),
+  };
+};
+
+/**
+ * Every logged leaf of an evidence item with its audit path under the latest tree head
+ */
+export const getEvidenceTransparencyBundle = async (evidenceId: string): Promise<EvidenceTransparencyBundle | null> => {
+  const treeHead = await getLatestTreeHead();
+  if (!treeHead) {
+    return null;
+  }
+
+  const leaves = (await database('transparency_log_leaves')
+    .where({ evidence_id: evidenceId })
+    .orderBy('leaf_index', 'asc'))
+    .map(mapLeafRow);
+  const covered = leaves.filter(leaf => leaf.leafIndex < treeHead.treeSize);
+
+  return {
+    evidenceId,
+    logPublicKey: getLogPublicKey(),
+    treeHead,
+    proofs: covered.length > 0 ? buildInclusionProofs(covered, treeHead, await getLeafHashes(treeHead.treeSize)) : [],
+    pendingLeaves: leaves.length - covered.length,
+  };
+};
@@ -78,12 +78,23 @@ export interface EvidenceItem {
   documentId?: string;
   evidenceType: string;
   sourceStakeholderId?: string;
+  title?: string;
+  description?: string;
+  keywords: string[];
+  statutes: string[];
+  tags: string[];
+  classification: Document['classification'];
   chainOfCustody: ChainOfCustodyEntry[];
   integrityHash?: string;
   authenticityVerified: boolean;
   verifiedBy?: string;
   verifiedAt?: Date;
   significanceLevel?: number; // 1-10
+  status: EvidenceLifecycleStatus;
+  statusChangedAt?: Date;
+  lastIntegrityCheck?: Date;
+  lastIntegrityScore?: number;
+  tamperDetected?: boolean;
   notes?: string;
   createdAt: Date;
 }
@@ -96,6 +107,1495 @@ export interface ChainOfCustodyEntry {
   location: string;
 }
 
+export type CustodyTransferReason = 'ANALYSIS' | 'STORAGE' | 'COURT_PRESENTATION' | 'RETURN_TO_OWNER' | 'DESTRUCTION' | 'INVESTIGATION' | 'OTHER';
+export type CustodyTransferMethod = 'HAND_DELIVERY' | 'SECURE_TRANSPORT' | 'MAIL_REGISTERED' | 'COURIER' | 'DIGITAL_TRANSFER' | 'OTHER';
+export type CustodyPurpose = 'COLLECTION' | 'ANALYSIS' | 'STORAGE' | 'EXAMINATION' | 'PRESENTATION' | 'PRESERVATION' | 'DESTRUCTION';
+
+// Append-only, hash-linked custody record (evidence_custody_ledger)
+export interface CustodyLedgerEntry {
+  id: string;
+  evidenceId: string;
+  sequenceNumber: number;
+  custodian: string;
+  custodianName?: string;
+  custodianOrganization?: string;
+  transferredFrom?: string;
+  transferredTo?: string;
+  transferReason: CustodyTransferReason;
+  transferMethod: CustodyTransferMethod;
+  purpose: CustodyPurpose;
+  reasonDescription?: string;
+  receivedAt: Date;
+  storageLocation: string;
+  storageConditions?: Record<string, any>;
+  conditionOnReceipt?: string;
+  integrityVerified: boolean;
+  integrityNotes?: string;
+  evidenceIntegrityHash?: string;
+  notes?: string;
+  recordedBy?: string;
+  previousHash: string;
+  entryHash: string;
+  signature: string;
+  signatureAlgorithm: string;
+  signingKeyFingerprint: string;
+  createdAt: Date;
+}
+
+export interface CustodyChainBreak {
+  sequenceNumber: number;
+  entryId: string;
+  reason: 'SEQUENCE_GAP' | 'PREVIOUS_HASH_MISMATCH' | 'ENTRY_HASH_MISMATCH' | 'UNKNOWN_SIGNING_KEY' | 'SIGNATURE_INVALID';
+  message: string;
+}
+
+export interface CustodyVerificationResult {
+  evidenceId: string;
+  valid: boolean;
+  entriesChecked: number;
+  headHash?: string;
+  firstBrokenLink?: CustodyChainBreak;
+  verifiedAt: Date;
+}
+
+// Court Export Types
+export type CourtExportType = 'DISCOVERY_PRODUCTION' | 'COURT_EXHIBIT' | 'AUDIT_REPORT' | 'COMPLIANCE_REPORT' | 'CHAIN_OF_CUSTODY' | 'INTEGRITY_REPORT' | 'TIMELINE_REPORT';
+export type CourtExportFormat = 'NATIVE' | 'JSON' | 'LOAD_FILE';
+export type CourtExportStatus = 'REQUESTED' | 'APPROVED' | 'PROCESSING' | 'READY' | 'DELIVERED' | 'EXPIRED' | 'CANCELLED' | 'FAILED';
+export type CourtExportAction = 'VIEW' | 'DOWNLOAD' | 'PRINT' | 'SHARE' | 'MODIFY' | 'DELETE';
+
+export interface CourtExport {
+  id: string;
+  caseId: string;
+  exportType: CourtExportType;
+  format: CourtExportFormat;
+  evidenceIds: string[];
+  includeChainOfCustody: boolean;
+  includeIntegrityProof: boolean;
+  includeTimeline: boolean;
+  includeRelationships: boolean;
+  jurisdiction: string;
+  court: string;
+  caseNumber: string;
+  requestedBy: string;
+  authorizedBy: string;
+  certification?: ExportCertification;
+  digitalSignature?: ExportManifestSignature;
+  manifest?: ExportManifest;
+  bundleHash?: string;
+  bundleSize?: number;
+  status: CourtExportStatus;
+  failureReason?: string;
+  createdAt: Date;
+  completedAt?: Date;
+  downloadUrl?: string;
+  downloadToken?: string; // Only returned when a link is issued; POSTed to downloadUrl
+  expiresAt: Date;
+  accessLog?: ExportAccessLogEntry[];
+  loadFileOptions?: LoadFileOptions;
+  notes?: string;
+}
+
+export interface ExportCertification {
+  certifiedBy: string;
+  certificationDate: Date;
+  certificationText: string;
+  standardsCompliance: string[];
+  authenticityVerified: boolean;
+  completenessVerified: boolean;
+  integrityVerified: boolean;
+}
+
+export interface ExportManifestFile {
+  path: string;
+  sha256: string;
+  size: number;
+  evidenceId?: string;
+  description: string;
+}
+
+export interface ExportManifest {
+  exportId: string;
+  caseId: string;
+  caseNumber: string;
+  court: string;
+  jurisdiction: string;
+  exportType: CourtExportType;
+  format: CourtExportFormat;
+  generatedAt: Date;
+  generatedBy: string;
+  evidenceIds: string[];
+  files: ExportManifestFile[];
+}
+
+export interface ExportManifestSignature {
+  algorithm: string;
+  keyFingerprint: string;
+  publicKey: string; // PEM, so recipients can verify the bundle offline
+  manifestSha256: string;
+  signature: string;
+  signedAt: Date;
+}
+
+export interface ExportAccessLogEntry {
+  id: string;
+  exportId: string;
+  accessedBy?: string;
+  accessedAt: Date;
+  ipAddress?: string;
+  userAgent?: string;
+  action: CourtExportAction;
+  success: boolean;
+  notes?: string;
+}
+
+// Load File Types (Concordance DAT / Opticon OPT)
+export type LoadFileField =
+  | 'batesBegin'
+  | 'batesEnd'
+  | 'pageCount'
+  | 'custodian'
+  | 'dateSent'
+  | 'hash'
+  | 'classification'
+  | 'fileName'
+  | 'title'
+  | 'mimeType'
+  | 'nativeLink'
+  | 'evidenceId'
+  | 'documentId'
+  | 'evidenceType';
+
+export type LoadFileDateFormat = 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'ISO';
+
+export interface LoadFileFieldMapping {
+  header: string; // DAT column name
+  field: LoadFileField;
+}
+
+export interface LoadFileOptions {
+  batesPrefix: string;
+  batesStart: number;
+  batesDigits: number;
+  volume: string;
+  fieldMap: LoadFileFieldMapping[];
+  dateFormat: LoadFileDateFormat;
+}
+
+export interface LoadFileRecord {
+  batesBegin: string;
+  batesEnd: string;
+  pageCount: number;
+  custodian?: string;
+  dateSent?: Date;
+  hash?: string;
+  classification?: string;
+  fileName?: string;
+  title?: string;
+  mimeType?: string;
+  nativeLink?: string;
+  imageLinks: string[];
+  evidenceId?: string;
+  documentId?: string;
+  evidenceType?: string;
+}
+
+export interface LoadFileImportResult {
+  productionVolume: string;
+  producingParty: string;
+  imported: Array<{
+    documentId: string;
+    batesBegin: string;
+    batesEnd: string;
+    title: string;
+    hasNative: boolean;
+    hashVerified?: boolean;
+  }>;
+  skipped: Array<{
+    row: number;
+    batesBegin?: string;
+    reason: string;
+  }>;
+}
+
+// Production Register Types
+export type ProductionStatus = 'OPEN' | 'CLOSED';
+
+export interface Production {
+  id: string;
+  caseId: string;
+  name: string;
+  productionVolume?: string;
+  recipient?: string;
+  batesPrefix: string;
+  batesPadding: number;
+  legend?: string;
+  watermarkText?: string;
+  status: ProductionStatus;
+  createdBy: string;
+  createdAt: Date;
+  closedAt?: Date;
+  notes?: string;
+}
+
+export interface ProductionRegisterEntry {
+  id: string;
+  productionId: string;
+  documentId: string;
+  batesPrefix: string;
+  beginNumber: number;
+  endNumber: number;
+  batesBegin: string;
+  batesEnd: string;
+  pageCount: number;
+  allocatedBy: string;
+  allocatedAt: Date;
+}
+
+// Legal Hold Types (mirror PreservationOrder in src/evidence-chain/types)
+export type PreservationOrderStatus = 'ACTIVE' | 'EXPIRED' | 'TERMINATED' | 'SUSPENDED' | 'MODIFIED';
+export type PreservationRequirementType =
+  | 'COLLECTION'
+  | 'PRESERVATION'
+  | 'DOCUMENTATION'
+  | 'ACCESS_CONTROL'
+  | 'NOTIFICATION'
+  | 'REPORTING'
+  | 'DESTRUCTION_SUSPENSION';
+export type PreservationRequirementStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'OVERDUE' | 'NOT_APPLICABLE';
+export type LegalHoldItemType = 'evidence' | 'document' | 'communication' | 'stakeholder';
+export type LegalHoldMatchSource = 'SCOPE' | 'LINKED_EVIDENCE' | 'MANUAL';
+
+export interface PreservationScope {
+  timeRange?: {
+    from: Date;
+    to: Date;
+  };
+  evidenceTypes: string[];
+  categories: string[];
+  keywords: string[];
+  custodians: string[]; // Stakeholder IDs, user IDs or custodian names
+  locations: string[];
+}
+
+export interface PreservationRequirement {
+  id: string;
+  orderId: string;
+  type: PreservationRequirementType;
+  description: string;
+  mandatory: boolean;
+  deadline?: Date;
+  status: PreservationRequirementStatus;
+  completedBy?: string;
+  completedAt?: Date;
+  notes?: string;
+}
+
+export interface PreservationOrder {
+  id: string;
+  orderNumber: string;
+  issuedBy: string;
+  issuedAt: Date;
+  expiresAt?: Date;
+  scope: PreservationScope;
+  requirements: PreservationRequirement[];
+  jurisdiction: string;
+  courtCase?: string;
+  legalAuthority: string;
+  status: PreservationOrderStatus;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  lastMatchedAt?: Date;
+  releasedBy?: string;
+  releasedAt?: Date;
+  releaseReason?: string;
+}
+
+export interface LegalHoldItem {
+  id: string;
+  orderId: string;
+  itemType: LegalHoldItemType;
+  itemId: string;
+  matchSource: LegalHoldMatchSource;
+  placedBy?: string;
+  placedAt: Date;
+  releasedAt?: Date;
+}
+
+export interface ActiveLegalHold {
+  orderId: string;
+  orderNumber: string;
+  matchSource: LegalHoldMatchSource;
+}
+
+// Hold Notice Types
+export type HoldNoticeStatus = 'PENDING' | 'ESCALATED' | 'ACKNOWLEDGED' | 'WITHDRAWN';
+export type HoldNoticeFormat = 'text' | 'html';
+export type HoldNoticeDeliveryKind = 'NOTICE' | 'REMINDER' | 'ESCALATION';
+export type HoldNoticeDeliveryStatus = 'QUEUED' | 'SENDING' | 'SENT' | 'FAILED' | 'CANCELLED';
+
+export interface HoldNoticeTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  format: HoldNoticeFormat;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface HoldNotice {
+  id: string;
+  orderId: string;
+  templateId?: string;
+  stakeholderId?: string;
+  recipientName: string;
+  recipientEmail: string;
+  subject: string;
+  body: string;
+  format: HoldNoticeFormat;
+  status: HoldNoticeStatus;
+  issuedBy: string;
+  issuedAt: Date;
+  dueAt: Date;
+  reminderIntervalDays: number;
+  maxReminders: number;
+  reminderCount: number;
+  lastRemindedAt?: Date;
+  nextReminderAt?: Date;
+  escalationContact?: string;
+  escalatedAt?: Date;
+  acknowledgedAt?: Date;
+  acknowledgedName?: string;
+  withdrawnAt?: Date;
+}
+
+export interface HoldNoticeDelivery {
+  id: string;
+  noticeId: string;
+  kind: HoldNoticeDeliveryKind;
+  recipientAddress: string;
+  recipientName?: string;
+  subject: string;
+  body: string;
+  format: HoldNoticeFormat;
+  status: HoldNoticeDeliveryStatus;
+  attempts: number;
+  queuedAt: Date;
+  sentAt?: Date;
+  messageId?: string;
+  lastError?: string;
+}
+
+export interface HoldNoticeComplianceEntry {
+  noticeId: string;
+  recipientName: string;
+  recipientEmail: string;
+  stakeholderId?: string;
+  status: HoldNoticeStatus;
+  issuedAt: Date;
+  dueAt: Date;
+  overdue: boolean;
+  reminderCount: number;
+  escalatedAt?: Date;
+  acknowledgedAt?: Date;
+  acknowledgedName?: string;
+  lastDeliveryStatus?: HoldNoticeDeliveryStatus;
+}
+
+export interface HoldNoticeComplianceReport {
+  orderId: string;
+  orderNumber: string;
+  generatedAt: Date;
+  totals: {
+    issued: number;
+    acknowledged: number;
+    outstanding: number;
+    overdue: number;
+    escalated: number;
+    withdrawn: number;
+    deliveryFailures: number;
+  };
+  acknowledgementRate: number;
+  custodians: HoldNoticeComplianceEntry[];
+}
+
+// Evidence Relationship Types (mirror EvidenceRelationship in src/evidence-chain/types)
+export type EvidenceRelationshipType =
+  | 'PARENT_CHILD'
+  | 'SIBLING'
+  | 'DERIVED_FROM'
+  | 'COPY_OF'
+  | 'RELATED_TO'
+  | 'CONTRADICTS'
+  | 'SUPPORTS'
+  | 'TEMPORAL_SEQUENCE'
+  | 'CAUSAL'
+  | 'CONTEXTUAL';
+export type EvidenceRelationshipStrength = 'WEAK' | 'MODERATE' | 'STRONG' | 'DEFINITIVE';
+
+export interface RelationshipEvidence {
+  type: string;
+  description: string;
+  source: string;
+  confidence: number;
+}
+
+export interface EvidenceRelationship {
+  id: string;
+  caseId: string;
+  sourceEvidenceId: string;
+  targetEvidenceId: string;
+  relationshipType: EvidenceRelationshipType;
+  strength: EvidenceRelationshipStrength;
+  confidence: number; // 0-100
+  description: string;
+  method: string;
+  evidence: RelationshipEvidence[];
+  tags: string[];
+  notes?: string;
+  establishedBy: string;
+  establishedAt: Date;
+  verified: boolean;
+  verifiedBy?: string;
+  verifiedAt?: Date;
+}
+
+export interface EvidenceGraphNode {
+  id: string;
+  evidenceType: string;
+  documentId?: string;
+  documentTitle?: string;
+  sourceStakeholderId?: string;
+  sourceName?: string;
+  sourceCategory?: string;
+  significanceLevel?: number;
+  authenticityVerified: boolean;
+}
+
+export interface EvidenceGraph {
+  nodes: EvidenceGraphNode[];
+  relationships: EvidenceRelationship[];
+}
+
+export interface EvidenceGraphPath extends EvidenceGraph {
+  length: number; // Number of relationships between the two items
+}
+
+export interface ContradictionReportEntry {
+  relationship: EvidenceRelationship;
+  source: EvidenceGraphNode;
+  target: EvidenceGraphNode;
+}
+
+// Timeline Types (mirror EvidenceTimeline in src/evidence-chain/types)
+export type TimelineEventType =
+  | 'COLLECTION'
+  | 'CREATION'
+  | 'MODIFICATION'
+  | 'ACCESS'
+  | 'TRANSFER'
+  | 'ANALYSIS'
+  | 'INCIDENT'
+  | 'COMMUNICATION'
+  | 'TRANSACTION'
+  | 'MEETING'
+  | 'OTHER';
+export type TimelineEventCertainty = 'CONFIRMED' | 'PROBABLE' | 'POSSIBLE' | 'SPECULATIVE';
+export type TimelineParticipantRole =
+  'CREATOR' | 'RECIPIENT' | 'WITNESS' | 'ANALYST' | 'CUSTODIAN' | 'INVESTIGATOR' | 'SUBJECT' | 'OTHER';
+export type TimelineFilterOperator =
+  | 'EQUALS'
+  | 'NOT_EQUALS'
+  | 'CONTAINS'
+  | 'STARTS_WITH'
+  | 'ENDS_WITH'
+  | 'GREATER_THAN'
+  | 'LESS_THAN'
+  | 'BETWEEN'
+  | 'IN'
+  | 'NOT_IN';
+export type TimelineAggregationLevel = 'NONE' | 'HOUR' | 'DAY' | 'WEEK' | 'MONTH';
+export type TimelineRecordType = 'custody_ledger' | 'custody_summary' | 'communication' | 'document' | 'load_file';
+
+export interface TimelineEventParticipant {
+  id: string;
+  role: TimelineParticipantRole;
+  anonymized: boolean;
+  notes?: string;
+}
+
+// The stored record a timeline event was read from
+export interface TimelineRecordRef {
+  type: TimelineRecordType;
+  id: string;
+  field: string;
+  timestamp: Date;
+}
+
+export interface TimelineEvent {
+  id: string;
+  evidenceId?: string;
+  eventType: TimelineEventType;
+  timestamp: Date;
+  duration?: number; // minutes
+  title: string;
+  description: string;
+  location?: string;
+  participants: TimelineEventParticipant[];
+  certainty: TimelineEventCertainty;
+  sources: string[]; // Evidence IDs
+  records: TimelineRecordRef[];
+  tags: string[];
+}
+
+export interface TimelinePeriod {
+  id: string;
+  title: string;
+  startDate: Date;
+  endDate: Date;
+  description: string;
+  color: string;
+  evidenceIds: string[];
+}
+
+export interface TimelineFilter {
+  field: string;
+  operator: TimelineFilterOperator;
+  value: any;
+  active: boolean;
+}
+
+export interface TimelineBucket {
+  start: Date;
+  end: Date;
+  eventCount: number;
+  eventIds: string[];
+  eventTypes: Partial<Record<TimelineEventType, number>>;
+  conflictCount: number;
+}
+
+export interface TimelineConflict {
+  id: string;
+  kind: 'DISAGREEMENT' | 'SEQUENCE';
+  description: string;
+  eventIds: string[];
+  differenceMinutes: number;
+}
+
+export interface EvidenceTimeline {
+  caseId: string;
+  title: string;
+  description?: string;
+  events: TimelineEvent[];
+  periods: TimelinePeriod[];
+  buckets: TimelineBucket[];
+  aggregationLevel: TimelineAggregationLevel;
+  filters: TimelineFilter[];
+  conflicts: TimelineConflict[];
+  generatedBy: string;
+  generatedAt: Date;
+}
+
+// Lifecycle Types (mirror EvidenceStatus and EvidenceLifecycle in src/evidence-chain/types)
+export type EvidenceLifecycleStatus =
+  | 'COLLECTED'
+  | 'PROCESSING'
+  | 'ANALYZED'
+  | 'READY'
+  | 'PRESENTED'
+  | 'ARCHIVED'
+  | 'DESTROYED'
+  | 'RETURNED'
+  | 'DISPUTED';
+export type LifecycleStage =
+  | 'IDENTIFICATION'
+  | 'COLLECTION'
+  | 'PRESERVATION'
+  | 'ANALYSIS'
+  | 'REVIEW'
+  | 'PRODUCTION'
+  | 'PRESENTATION'
+  | 'RETURN'
+  | 'DISPOSAL';
+export type LifecycleActivityType =
+  | 'COLLECTION'
+  | 'PROCESSING'
+  | 'ANALYSIS'
+  | 'REVIEW'
+  | 'PRESENTATION'
+  | 'ARCHIVAL'
+  | 'DESTRUCTION'
+  | 'RETURN'
+  | 'DISPUTE';
+export type LifecycleRequirementType =
+  | 'CUSTODY_CHAIN_INTACT'
+  | 'AUTHENTICITY_VERIFIED'
+  | 'ANALYSIS_RESULTS'
+  | 'COURT_ORDER'
+  | 'NO_ACTIVE_LEGAL_HOLD'
+  | 'DISPOSITION_APPROVED';
+export type LifecycleRequirementStatus = 'COMPLETED' | 'PENDING';
+
+export interface LifecycleRequirement {
+  type: LifecycleRequirementType;
+  description: string;
+  mandatory: boolean;
+  status: LifecycleRequirementStatus;
+  details?: Record<string, any>;
+}
+
+export interface LifecycleActivity {
+  id: string;
+  evidenceId: string;
+  sequenceNumber: number;
+  fromStatus?: EvidenceLifecycleStatus;
+  toStatus: EvidenceLifecycleStatus;
+  stage: LifecycleStage;
+  activityType: LifecycleActivityType;
+  description: string;
+  results?: string;
+  courtOrderReference?: string;
+  requirements: LifecycleRequirement[];
+  notes?: string;
+  performedBy: string;
+  performedAt: Date;
+}
+
+export interface LifecycleTransitionOption {
+  toStatus: EvidenceLifecycleStatus;
+  stage: LifecycleStage;
+  requirements: LifecycleRequirement[];
+}
+
+export interface EvidenceLifecycleState {
+  evidenceId: string;
+  status: EvidenceLifecycleStatus;
+  stage: LifecycleStage;
+  statusChangedAt?: Date;
+  transitions: LifecycleTransitionOption[];
+  history: LifecycleActivity[];
+}
+
+// Transparency Log Types (mirror SignedTreeHead and TransparencyLogProof in src/evidence-chain/types)
+export type TransparencyLogLeafType = 'EVIDENCE_FINGERPRINT' | 'CUSTODY_EVENT';
+
+export interface TransparencyLogLeaf {
+  leafIndex: number;
+  leafType: TransparencyLogLeafType;
+  evidenceId: string;
+  sourceId: string;
+  leafData: string;
+  leafHash: string;
+  createdAt: Date;
+}
+
+export interface SignedTreeHead {
+  logId: string;
+  treeSize: number;
+  rootHash: string;
+  timestamp: Date;
+  signature: string;
+  signatureAlgorithm: string;
+}
+
+export interface TransparencyLogProof {
+  leafIndex: number;
+  leafData: string;
+  leafHash: string;
+  treeSize: number;
+  rootHash: string;
+  inclusionProof: string[];
+  treeHead: SignedTreeHead;
+}
+
+export interface TransparencyConsistencyProof {
+  firstTreeHead: SignedTreeHead;
+  secondTreeHead: SignedTreeHead;
+  proof: string[];
+}
+
+// Everything needed to check an item's log entries offline
+export interface EvidenceTransparencyBundle {
+  evidenceId: string;
+  logPublicKey: string;
+  treeHead: SignedTreeHead;
+  proofs: TransparencyLogProof[];
+  pendingLeaves: number; // Logged after the latest tree head was signed
+}
+
+// Signing Key Types (per-user keys certified by the internal CA)
+export type SigningKeyStatus = 'ACTIVE' | 'REVOKED';
+export type CertificateRevocationReason = 'UNSPECIFIED' | 'KEY_COMPROMISE' | 'AFFILIATION_CHANGED' | 'SUPERSEDED' | 'CESSATION_OF_OPERATION';
+
+export interface SigningCertificateAuthority {
+  keyFingerprint: string;
+  commonName: string;
+  organization?: string;
+  serialNumber: string;
+  certificate: string;
+  notBefore: Date;
+  notAfter: Date;
+}
+
+// Never carries the encrypted private key
+export interface UserSigningKey {
+  id: string;
+  userId: string;
+  algorithm: string;
+  publicKey: string;
+  keyFingerprint: string;
+  certificateSerial: string;
+  certificate: string;
+  issuerFingerprint: string;
+  notBefore: Date;
+  notAfter: Date;
+  status: SigningKeyStatus;
+  revocationReason?: CertificateRevocationReason;
+  revokedAt?: Date;
+  revokedBy?: string;
+  createdAt: Date;
+}
+
+export interface RevokedCertificate {
+  certificateSerial: string;
+  keyFingerprint: string;
+  userId: string;
+  revocationReason: CertificateRevocationReason;
+  reasonCode: number; // RFC 5280 CRLReason
+  revokedAt: Date;
+}
+
+export type CustodySignatureRole = 'CUSTODIAN' | 'WITNESS';
+
+// Mirrors DigitalSignature in src/evidence-chain/types
+export interface CustodySignature {
+  id: string;
+  custodyEntryId: string;
+  evidenceId: string;
+  role: CustodySignatureRole;
+  signerId: string;
+  signingKeyId: string;
+  entryHash: string;
+  signature: string;
+  signatureAlgorithm: string;
+  publicKey: string;
+  certificateChain: string[]; // Signer certificate first, CA certificate last
+  signedAt: Date;
+}
+
+export interface CustodySignatureCheck {
+  signatureId: string;
+  custodyEntryId: string;
+  sequenceNumber: number;
+  role: CustodySignatureRole;
+  signerId: string;
+  certificateSerial: string;
+  valid: boolean;
+  reason?: 'ENTRY_HASH_MISMATCH' | 'CERTIFICATE_UNTRUSTED' | 'CERTIFICATE_NOT_VALID_AT_SIGNING' | 'CERTIFICATE_REVOKED' | 'SIGNATURE_INVALID';
+  message?: string;
+}
+
+// Integrity Check Types (mirror TamperCheck and TamperIndicator in src/evidence-chain/types)
+export type IntegrityCheckItemType = 'EVIDENCE' | 'DOCUMENT';
+export type TamperCheckType = 'ROUTINE' | 'TRIGGERED' | 'COURT_ORDERED' | 'INTEGRITY_VERIFICATION' | 'INCIDENT_RESPONSE';
+export type TamperIndicatorType =
+  | 'HASH_MISMATCH'
+  | 'TIMESTAMP_ANOMALY'
+  | 'SEAL_BREACH'
+  | 'UNAUTHORIZED_ACCESS'
+  | 'FILE_MODIFICATION'
+  | 'METADATA_CHANGE'
+  | 'SIGNATURE_INVALID'
+  | 'PHYSICAL_DAMAGE'
+  | 'SUSPICIOUS_ACTIVITY';
+export type TamperIndicatorSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export interface TamperIndicator {
+  type: TamperIndicatorType;
+  severity: TamperIndicatorSeverity;
+  description: string;
+  evidence?: string;
+  confidence: number; // 0-100
+}
+
+export interface IntegrityCheck {
+  id: string;
+  sweepId?: string;
+  itemType: IntegrityCheckItemType;
+  itemId: string;
+  checkType: TamperCheckType;
+  checkedBy?: string;
+  checkedAt: Date;
+  tamperDetected: boolean;
+  tamperIndicators: TamperIndicator[];
+  integrityScore: number; // 0-100
+  checkMethod: string;
+  tools: string[];
+  expectedHash?: string;
+  actualHash?: string;
+  notes?: string;
+}
+
+export type IntegritySweepStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface IntegritySweep {
+  id: string;
+  status: IntegritySweepStatus;
+  triggeredBy?: string;
+  intervalHours: number;
+  documentsChecked: number;
+  evidenceChecked: number;
+  tamperDetected: number;
+  errors: number;
+  failureReason?: string;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export interface IntegrityCoverage {
+  total: number;
+  checkedWithinInterval: number;
+  overdue: number; // Never checked, or last checked before the interval
+  tampered: number; // Latest check detected tampering
+  averageScore?: number;
+}
+
+export interface IntegrityDashboard {
+  intervalHours: number;
+  evidence: IntegrityCoverage;
+  documents: IntegrityCoverage;
+  lastSweep?: IntegritySweep;
+  indicatorCounts: Partial<Record<TamperIndicatorType, number>>; // Over the last 30 days
+  recentAlerts: IntegrityCheck[];
+  generatedAt: Date;
+}
+
+// Physical Evidence Types (mirror SealInfo, SealCondition and StorageConditions in src/evidence-chain/types)
+export type StorageAccessLevel = 'OPEN' | 'RESTRICTED' | 'SECURE' | 'VAULT' | 'CLASSIFIED';
+export type StorageSecurityLevel = 'BASIC' | 'STANDARD' | 'HIGH' | 'MAXIMUM' | 'SPECIAL';
+export type SealCondition = 'INTACT' | 'BROKEN' | 'TAMPERED' | 'MISSING';
+
+export interface StorageEnvironment {
+  temperature?: number; // Celsius
+  humidity?: number; // Percent
+  lightExposure?: 'DARK' | 'LOW' | 'NORMAL' | 'HIGH';
+  specialRequirements?: string[];
+}
+
+export interface StorageLocation {
+  id: string;
+  labelCode: string;
+  facility: string;
+  room: string;
+  shelf?: string;
+  bin?: string;
+  accessLevel: StorageAccessLevel;
+  securityLevel: StorageSecurityLevel;
+  environment?: StorageEnvironment;
+  capacity?: number;
+  active: boolean;
+  notes?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PhysicalEvidence {
+  evidenceId: string;
+  labelCode: string;
+  description: string;
+  category?: string;
+  dimensions?: string;
+  weight?: number; // Kilograms
+  conditionOnIntake: string;
+  storageLocationId?: string; // Unset while the item is out of storage with a custodian
+  locatedAt?: Date;
+  intakeBy: string;
+  intakeAt: Date;
+  seals?: EvidenceSeal[];
+}
+
+export interface EvidenceSeal {
+  id: string;
+  evidenceId: string;
+  sealNumber: string;
+  sealType: string;
+  labelCode: string;
+  condition: SealCondition; // As of the latest inspection
+  appliedBy: string;
+  appliedAt: Date;
+  appliedCustodyEntryId?: string;
+  removedBy?: string;
+  removedAt?: Date;
+  removedCustodyEntryId?: string;
+  notes?: string;
+  inspections?: SealInspection[];
+}
+
+// Seal condition recorded at a custody hand-off
+export interface SealInspection {
+  id: string;
+  sealId: string;
+  evidenceId: string;
+  custodyEntryId: string;
+  condition: SealCondition;
+  removed: boolean;
+  inspectedBy: string;
+  inspectedAt: Date;
+  notes?: string;
+}
+
+export interface LocationInventoryItem {
+  evidenceId: string;
+  labelCode: string;
+  description: string;
+  category?: string;
+  status: EvidenceLifecycleStatus;
+  custodian?: string;
+  locatedAt?: Date;
+  activeSeals: { sealNumber: string; condition: SealCondition }[];
+}
+
+export interface LocationInventory {
+  location?: StorageLocation; // Absent for items out of storage
+  items: LocationInventoryItem[];
+  sealIssues: number; // Items with an active seal that is not INTACT
+}
+
+export interface LocationInventoryReport {
+  generatedAt: Date;
+  generatedBy: string;
+  totalItems: number;
+  locations: LocationInventory[];
+}
+
+// Search Types (mirror EvidenceSearchQuery, SearchFacet and RelevanceScore in src/evidence-chain/types)
+export type SearchScope = 'EVIDENCE' | 'METADATA' | 'CUSTODY_RECORDS' | 'RELATIONSHIPS' | 'FULL_TEXT';
+
+export interface EvidenceSearchFilter {
+  field: string;
+  operator: TimelineFilterOperator;
+  value: any;
+  weight?: number; // Relevance boost for items matching the filter
+}
+
+export interface EvidenceSearchSort {
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+export interface EvidenceSearchQuery {
+  query: string;
+  filters: EvidenceSearchFilter[];
+  sort?: EvidenceSearchSort;
+  pagination: {
+    page: number;
+    limit: number;
+  };
+  searchScope: SearchScope[];
+  timeRange?: {
+    from: Date;
+    to: Date;
+    inclusive: boolean;
+  };
+  caseId?: string; // Limit to evidence in the case (relationships and preservation orders)
+  facets?: string[]; // Facet fields to count; all when omitted
+}
+
+export interface FacetValue {
+  value: any;
+  label?: string; // Display name where the value is an ID
+  count: number;
+  selected: boolean;
+}
+
+export interface SearchFacet {
+  field: string;
+  values: FacetValue[];
+}
+
+export interface ScoreFactor {
+  factor: string;
+  weight: number;
+  contribution: number;
+}
+
+export interface RelevanceScore {
+  evidenceId: string;
+  score: number;
+  factors: ScoreFactor[];
+}
+
+export interface EvidenceSearchHit {
+  id: string;
+  title?: string;
+  description?: string;
+  evidenceType: string;
+  status: EvidenceLifecycleStatus;
+  classification: Document['classification']; // Stricter of the item's and its document's
+  keywords: string[];
+  statutes: string[];
+  tags: string[];
+  significanceLevel?: number;
+  authenticityVerified: boolean;
+  sourceStakeholderId?: string;
+  custodian?: string;
+  document?: {
+    id: string;
+    title: string;
+    classification: Document['classification'];
+  };
+  createdAt: Date;
+}
+
+export interface EvidenceSearchResult {
+  evidence: EvidenceSearchHit[];
+  total: number;
+  facets: SearchFacet[];
+  searchTime: number; // Milliseconds
+  relevanceScores: RelevanceScore[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrevious: boolean;
+  };
+}
+
+export interface SavedSearch {
+  id: string;
+  ownerId: string;
+  name: string;
+  description?: string;
+  query: EvidenceSearchQuery;
+  shared: boolean;
+  lastRunAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Batch Operation Types (mirror EvidenceBatchOperation and BatchFailure in src/evidence-chain/types)
+export type EvidenceBatchType =
+  | 'TRANSFER_CUSTODY'
+  | 'UPDATE_CLASSIFICATION'
+  | 'APPLY_LEGAL_HOLD'
+  | 'REMOVE_LEGAL_HOLD'
+  | 'VERIFY_INTEGRITY'
+  | 'UPDATE_METADATA';
+
+export type BatchOperationStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'PARTIAL' | 'FAILED' | 'CANCELLED';
+
+export type BatchItemStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+
+export interface BatchFailure {
+  evidenceId: string;
+  errorCode: string;
+  error: string;
+  details?: Record<string, any>;
+}
+
+export interface EvidenceBatchOperation {
+  id: string;
+  type: EvidenceBatchType;
+  evidenceIds: string[];
+  parameters: Record<string, any>;
+  selection?: Partial<EvidenceSearchQuery>;
+  status: BatchOperationStatus;
+  progress: number; // 0-100
+  processed: number;
+  successful: string[];
+  failed: BatchFailure[];
+  skipped: string[]; // Not reached before the batch was cancelled or stopped
+  requestedBy: string;
+  requestedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  cancelledBy?: string;
+  failureReason?: string;
+  notes?: string;
+}
+
+// Emitted to the evidence-batch:<id> socket.io room while a batch runs
+export interface EvidenceBatchProgress {
+  batchId: string;
+  status: BatchOperationStatus;
+  progress: number;
+  processed: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface BatchItemResult {
+  evidenceId: string;
+  sequence: number;
+  status: BatchItemStatus;
+  errorCode?: string;
+  error?: string;
+  details?: Record<string, any>;
+  processedAt?: Date;
+}
+
+export interface EvidenceBatchReport {
+  batch: Omit<EvidenceBatchOperation, 'evidenceIds' | 'successful' | 'failed' | 'skipped'>;
+  totals: Record<BatchItemStatus, number>;
+  items: BatchItemResult[];
+  generatedAt: Date;
+}
+
+// Compliance Types (mirror ComplianceCheck, ComplianceStandard, ComplianceFinding and ComplianceAction in src/evidence-chain/types)
+export type ComplianceCheckType = 'ROUTINE_AUDIT' | 'COURT_ORDERED' | 'INCIDENT_TRIGGERED' | 'PRE_TRIAL' | 'REGULATORY';
+export type ComplianceResult = 'COMPLIANT' | 'NON_COMPLIANT' | 'PARTIALLY_COMPLIANT' | 'UNDER_REVIEW';
+export type ComplianceSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+export type ComplianceActionStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'OVERDUE';
+export type ComplianceApplicability = 'ALL' | 'PHYSICAL' | 'DIGITAL';
+
+// Built-in checks a standard's requirements are declared against
+export type ComplianceRule =
+  | 'AUTHENTICITY_VERIFIED'
+  | 'INTEGRITY_HASH_RECORDED'
+  | 'INTEGRITY_CHECK_CURRENT'
+  | 'NO_TAMPER_DETECTED'
+  | 'CUSTODY_CHAIN_PRESENT'
+  | 'CUSTODY_CHAIN_INTACT'
+  | 'CUSTODY_CONTINUOUS'
+  | 'CUSTODY_SIGNED'
+  | 'CUSTODY_INTEGRITY_VERIFIED'
+  | 'COLLECTION_DOCUMENTED'
+  | 'LIFECYCLE_STAGES_REACHED'
+  | 'SEALS_INTACT'
+  | 'STORAGE_ASSIGNED';
+
+export interface ComplianceRequirement {
+  id: string; // Clause or policy reference, unique within the standard
+  description: string;
+  rule: ComplianceRule;
+  parameters?: Record<string, any>;
+  appliesTo: ComplianceApplicability;
+  severity: ComplianceSeverity;
+  remediation: string;
+  remediationDays: number; // Actions raised for the requirement are due this many days after the check
+}
+
+export interface ComplianceStandard {
+  id: string;
+  name: string;
+  version: string;
+  authority: string;
+  jurisdiction?: string;
+  description?: string;
+  requirements: ComplianceRequirement[];
+  active: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The standard as it was when a check ran
+export type ComplianceStandardSnapshot = Pick<
+  ComplianceStandard, 'id' | 'name' | 'version' | 'authority' | 'jurisdiction' | 'requirements'
+>;
+
+export interface ComplianceFinding {
+  severity: ComplianceSeverity;
+  category: ComplianceRule;
+  description: string;
+  standard: string; // Name and version
+  requirement: string;
+  evidence?: string[];
+  remediation: string;
+  deadline?: Date;
+  details?: Record<string, any>;
+}
+
+export interface EvidenceComplianceResult {
+  evidenceId: string;
+  result: ComplianceResult;
+  score: number; // 0-100, weighted by severity
+  trialReady: boolean; // No CRITICAL or HIGH findings
+  requirementsChecked: number;
+  findings: ComplianceFinding[];
+}
+
+export interface ComplianceAction {
+  id: string;
+  checkId: string;
+  standard: string;
+  requirement: string;
+  description: string;
+  priority: ComplianceSeverity;
+  assignedTo: string;
+  dueDate: Date;
+  status: ComplianceActionStatus; // OVERDUE is derived from dueDate
+  evidence?: string[];
+  notes?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ComplianceCheck {
+  id: string;
+  checkType: ComplianceCheckType;
+  performedBy: string;
+  performedAt: Date;
+  caseId?: string;
+  scope: string[]; // Evidence ids
+  standards: ComplianceStandardSnapshot[];
+  result: ComplianceResult;
+  findings: ComplianceFinding[]; // One per failed requirement, listing the affected items
+  score: number;
+  recommendations: string[];
+  actionItems: ComplianceAction[];
+  items?: EvidenceComplianceResult[];
+  nextCheckDue?: Date;
+  notes?: string;
+}
+
+export interface CaseComplianceItem {
+  evidenceId: string;
+  checkId?: string; // Unset when the item has never been checked
+  checkedAt?: Date;
+  result?: ComplianceResult;
+  score?: number;
+  trialReady: boolean;
+  findingsBySeverity: Record<ComplianceSeverity, number>;
+}
+
+export interface CaseComplianceSummary {
+  caseId: string;
+  result: ComplianceResult;
+  evidenceCount: number;
+  checkedCount: number;
+  trialReadyCount: number;
+  averageScore?: number;
+  findingsBySeverity: Record<ComplianceSeverity, number>;
+  openActions: number;
+  overdueActions: number;
+  notTrialReady: CaseComplianceItem[]; // Failing or never checked, worst first
+  items: CaseComplianceItem[];
+  generatedAt: Date;
+}
+
+// Disposition Types (destruction or return to owner; Evidence.destructionDate / destructionMethod
+// and TransferReason.DESTRUCTION / RETURN_TO_OWNER in src/evidence-chain/types)
+export type DispositionType = 'DESTRUCTION' | 'RETURN';
+export type DispositionStatus = 'PENDING_APPROVAL' | 'APPROVED' | 'REJECTED' | 'CANCELLED' | 'COMPLETED' | 'FAILED';
+export type DispositionDecision = 'APPROVED' | 'REJECTED';
+export type DispositionCertificateType = 'CERTIFICATE_OF_DESTRUCTION' | 'RETURN_RECEIPT';
+export type FileErasureStatus = 'ERASED' | 'MISSING' | 'RETAINED_SHARED' | 'FAILED';
+
+export interface DispositionRecipient {
+  name: string;
+  organization?: string;
+  contact?: string;
+}
+
+export interface DispositionApproval {
+  approverId: string;
+  decision: DispositionDecision;
+  comments?: string;
+  decidedAt: Date;
+}
+
+export interface FileErasure {
+  documentId: string;
+  fileHash?: string;
+  status: FileErasureStatus;
+  error?: string;
+}
+
+export interface EvidenceDisposition {
+  id: string;
+  evidenceId: string;
+  dispositionType: DispositionType;
+  status: DispositionStatus;
+  method: string;
+  reason: string;
+  recipient?: DispositionRecipient;
+  courtOrderReference?: string;
+  courtOrderDocumentId?: string;
+  requestedBy: string;
+  requestedAt: Date;
+  approvals: DispositionApproval[];
+  cancelledBy?: string;
+  executedBy?: string;
+  executedAt?: Date;
+  failureReason?: string;
+  erasures?: FileErasure[];
+  certificateId?: string;
+}
+
+export interface DispositionCertificate {
+  id: string;
+  dispositionId: string;
+  evidenceId: string;
+  certificateType: DispositionCertificateType;
+  certificateNumber: string;
+  content: Record<string, any>;
+  contentHash: string;
+  signature: string;
+  signatureAlgorithm: string;
+  signingKeyFingerprint: string;
+  issuedAt: Date;
+}
+
+export interface DispositionCertificateVerification {
+  certificateId: string;
+  valid: boolean;
+  contentHashMatches: boolean;
+  signatureValid: boolean;
+  verifiedAt: Date;
+}
+
+// Anonymization Types (AnonymizationMethod / AnonymizationTechnique / AnonymizationStrength and
+// AnonymizedWitnessInfo in src/evidence-chain/types)
+export type AnonymizationTechnique =
+  | 'PSEUDONYMIZATION'
+  | 'GENERALIZATION'
+  | 'SUPPRESSION'
+  | 'RANDOMIZATION'
+  | 'ENCRYPTION'
+  | 'MASKING'
+  | 'SYNTHETIC';
+export type AnonymizationStrength = 'WEAK' | 'MEDIUM' | 'STRONG' | 'PERFECT';
+export type AnonymizationSourceType = 'EVIDENCE' | 'COMMUNICATION' | 'DOCUMENT_TEXT';
+export type AnonymizationRunStatus = 'ANONYMIZED' | 'RELEASED';
+export type ReidentificationRiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'EXTREME';
+
+export interface AnonymizationMethod {
+  technique: AnonymizationTechnique;
+  applied: boolean;
+  strength: AnonymizationStrength;
+  reversible: boolean;
+  keyId?: string; // Pseudonym key holding the reversible mappings
+}
+
+export interface AnonymizationFieldRule {
+  field: string;
+  technique: AnonymizationTechnique;
+  strength: AnonymizationStrength;
+  category?: string; // Pseudonym prefix, e.g. WITNESS
+}
+
+// Identifier to replace wherever it appears in free text. Never stored.
+export interface AnonymizationTerm {
+  value: string;
+  technique: AnonymizationTechnique;
+  strength: AnonymizationStrength;
+  category?: string;
+}
+
+// Reversible pseudonym mappings are encrypted to this key; only its authorized
+// personnel, holding the passphrase, can re-identify
+export interface PseudonymKey {
+  id: string;
+  name: string;
+  algorithm: string;
+  publicKey: string;
+  keyFingerprint: string;
+  authorizedPersonnel: string[];
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface Reidentification {
+  pseudonym: string;
+  category: string;
+  value: string;
+}
+
+export interface EquivalenceClass {
+  values: Record<string, any>; // Quasi-identifier values shared by the class
+  size: number;
+}
+
+// k-anonymity of the anonymized records over their quasi-identifiers
+export interface ReidentificationRisk {
+  quasiIdentifiers: string[];
+  recordCount: number;
+  k: number;
+  threshold: number;
+  equivalenceClassCount: number;
+  recordsAtRisk: number; // Records in classes smaller than the threshold
+  maxProbability: number; // 1 / k
+  averageProbability: number; // Classes / records
+  residualIdentifiers: number; // Supplied terms still present in the output
+  level: ReidentificationRiskLevel;
+  passes: boolean;
+  smallestClasses: EquivalenceClass[];
+  assessedAt: Date;
+}
+
+export interface AnonymizedRecord {
+  sourceId: string;
+  fields: Record<string, any>;
+  methods: AnonymizationMethod[];
+}
+
+export interface AnonymizationRun {
+  id: string;
+  sourceType: AnonymizationSourceType;
+  sourceIds: string[];
+  keyId?: string;
+  rules: AnonymizationFieldRule[];
+  termCount: number;
+  detectPatterns: boolean;
+  quasiIdentifiers: string[];
+  records: AnonymizedRecord[];
+  risk: ReidentificationRisk;
+  status: AnonymizationRunStatus;
+  createdBy: string;
+  createdAt: Date;
+  releasedBy?: string;
+  releasedAt?: Date;
+  releasedTo?: string;
+}
+
+// Source Protection Types (SourceProtection / ProtectionType / SourceRestriction / RestrictionType
+// in src/evidence-chain/types)
+export type ProtectionType =
+  | 'IDENTITY_PROTECTION'
+  | 'LOCATION_PROTECTION'
+  | 'METHOD_PROTECTION'
+  | 'TIMING_PROTECTION'
+  | 'RELATIONSHIP_PROTECTION';
+export type RestrictionType = 'ACCESS' | 'DISCLOSURE' | 'PUBLICATION' | 'SHARING' | 'COPYING' | 'ANALYSIS';
+
+export interface SourceRestriction {
+  type: RestrictionType;
+  description: string;
+  scope: string[]; // User IDs or role types the restriction applies to; empty or "*" for everyone
+  exceptions?: string[]; // User IDs or role types exempted
+  authority: string;
+  expiresAt?: Date;
+}
+
+export interface SourceProtection {
+  evidenceId: string;
+  protectionRequired: boolean;
+  protectionType: ProtectionType[];
+  restrictions: SourceRestriction[];
+  authorizedPersonnel: string[]; // Never restricted
+  reviewDate: Date;
+  notes?: string;
+  createdBy: string;
+  updatedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SourceProtectionDenial {
+  evidenceId: string;
+  documentId?: string;
+  restrictionType: RestrictionType;
+  authority: string;
+}
+
 // Communication Types
 export interface Communication {
   id: string;
@@ -0,0 +1,424 @@
+/**
+ * Barcode symbologies for evidence, seal and storage-location labels:
+ * Code 128 (code set B) for handheld scanners and QR codes (ISO/IEC 18004,
+ * byte mode, error correction level M, versions 1-10) for phones.
+ */
+
+// Bar/space widths of Code 128 symbols 0-106; every symbol is 11 modules wide, the stop symbol 13
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+/**
+ * Encode printable ASCII as Code 128 code set B. Returns one entry per module
+ * (true = bar), without quiet zones.
+ */
+export const encodeCode128 = (value: string): boolean[] => {
+  const symbols = [CODE128_START_B];
+
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error(`Code 128 code set B cannot encode character ${JSON.stringify(char)}`);
+    }
+    symbols.push(code - 32);
+  }
+
+  const checksum = symbols.reduce((sum, symbol, index) => sum + symbol * Math.max(index, 1), 0) % 103;
+  symbols.push(checksum, CODE128_STOP);
+
+  const modules: boolean[] = [];
+  for (const symbol of symbols) {
+    const pattern = CODE128_PATTERNS[symbol]!;
+    for (let index = 0; index < pattern.length; index++) {
+      modules.push(...Array<boolean>(Number(pattern[index])).fill(index % 2 === 0));
+    }
+  }
+
+  return modules;
+};
+
+// Error correction blocks at level M: [EC codewords per block, group 1 blocks, data codewords, group 2 blocks, data codewords]
+const QR_BLOCKS_M: [number, number, number, number, number][] = [
+  [10, 1, 16, 0, 0],
+  [16, 1, 28, 0, 0],
+  [26, 1, 44, 0, 0],
+  [18, 2, 32, 0, 0],
+  [24, 2, 43, 0, 0],
+  [16, 4, 27, 0, 0],
+  [18, 4, 31, 0, 0],
+  [22, 2, 38, 2, 39],
+  [22, 3, 36, 2, 37],
+  [26, 4, 43, 1, 44],
+];
+
+const QR_ALIGNMENT_POSITIONS = [
+  [], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50],
+];
+
+// Format information bits for error correction level M
+const QR_EC_LEVEL_M = 0b00;
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+(() => {
+  let value = 1;
+  for (let index = 0; index < 255; index++) {
+    GF_EXP[index] = value;
+    GF_LOG[value] = index;
+    value <<= 1;
+    if (value & 0x100) {
+      value ^= 0x11d;
+    }
+  }
+  for (let index = 255; index < 512; index++) {
+    GF_EXP[index] = GF_EXP[index - 255]!;
+  }
+})();
+
+const gfMultiply = (a: number, b: number): number =>
+  a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a]! + GF_LOG[b]!]!;
+
+/**
+ * Reed-Solomon error correction codewords over GF(256), as QR codes use them
+ */
+export const reedSolomonRemainder = (data: number[], degree: number): number[] => {
+  let generator = [1];
+  for (let index = 0; index < degree; index++) {
+    const next = Array<number>(generator.length + 1).fill(0);
+    generator.forEach((coefficient, position) => {
+      next[position] = next[position]! ^ coefficient;
+      next[position + 1] = next[position + 1]! ^ gfMultiply(coefficient, GF_EXP[index]!);
+    });
+    generator = next;
+  }
+
+  const remainder = [...data, ...Array<number>(degree).fill(0)];
+  for (let index = 0; index < data.length; index++) {
+    const factor = remainder[index]!;
+    if (factor !== 0) {
+      generator.forEach((coefficient, position) => {
+        remainder[index + position] = remainder[index + position]! ^ gfMultiply(coefficient, factor);
+      });
+    }
+  }
+
+  return remainder.slice(data.length);
+};
+
+const dataCapacity = (version: number): number => {
+  const [, group1Blocks, group1Data, group2Blocks, group2Data] = QR_BLOCKS_M[version - 1]!;
+  return group1Blocks * group1Data + group2Blocks * group2Data;
+};
+
+const encodeDataCodewords = (data: Buffer, version: number): number[] => {
+  const capacityBits = dataCapacity(version) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let bit = length - 1; bit >= 0; bit--) {
+      bits.push((value >>> bit) & 1);
+    }
+  };
+
+  append(0b0100, 4); // Byte mode
+  append(data.length, version < 10 ? 8 : 16);
+  data.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacityBits - bits.length)); // Terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let index = 0; index < bits.length; index += 8) {
+    codewords.push(parseInt(bits.slice(index, index + 8).join(''), 2));
+  }
+  for (let pad = 0; codewords.length < capacityBits / 8; pad++) {
+    codewords.push(pad % 2 === 0 ? 0xec : 0x11);
+  }
+
+  return codewords;
+};
+
+const interleaveBlocks = (codewords: number[], version: number): number[] => {
+  const [ecPerBlock, group1Blocks, group1Data, group2Blocks, group2Data] = QR_BLOCKS_M[version - 1]!;
+  const dataBlocks: number[][] = [];
+  let offset = 0;
+
+  for (let block = 0; block < group1Blocks + group2Blocks; block++) {
+    const length = block < group1Blocks ? group1Data : group2Data;
+    dataBlocks.push(codewords.slice(offset, offset + length));
+    offset += length;
+  }
+
+  const ecBlocks = dataBlocks.map(block => reedSolomonRemainder(block, ecPerBlock));
+  const result: number[] = [];
+
+  for (let index = 0; index < Math.max(group1Data, group2Data); index++) {
+    dataBlocks.forEach(block => {
+      if (index < block.length) {
+        result.push(block[index]!);
+      }
+    });
+  }
+  for (let index = 0; index < ecPerBlock; index++) {
+    ecBlocks.forEach(block => result.push(block[index]!));
+  }
+
+  return result;
+};
+
+const bchRemainder = (value: number, generator: number, degree: number): number => {
+  let remainder = value << degree;
+  const generatorLength = Math.floor(Math.log2(generator));
+  for (let bit = Math.floor(Math.log2(remainder || 1)); bit >= generatorLength; bit--) {
+    if ((remainder >>> bit) & 1) {
+      remainder ^= generator << (bit - generatorLength);
+    }
+  }
+  return remainder;
+};
+
+/**
+ * 15-bit format information (error correction level and mask), masked with 0x5412
+ */
+export const qrFormatBits = (mask: number): number => {
+  const data = (QR_EC_LEVEL_M << 3) | mask;
+  return ((data << 10) | bchRemainder(data, 0x537, 10)) ^ 0x5412;
+};
+
+/**
+ * 18-bit version information carried by versions 7 and up
+ */
+export const qrVersionBits = (version: number): number =>
+  (version << 12) | bchRemainder(version, 0x1f25, 12);
+
+const MASKS: ((row: number, column: number) => boolean)[] = [
+  (row, column) => (row + column) % 2 === 0,
+  row => row % 2 === 0,
+  (_row, column) => column % 3 === 0,
+  (row, column) => (row + column) % 3 === 0,
+  (row, column) => (Math.floor(row / 2) + Math.floor(column / 3)) % 2 === 0,
+  (row, column) => ((row * column) % 2) + ((row * column) % 3) === 0,
+  (row, column) => (((row * column) % 2) + ((row * column) % 3)) % 2 === 0,
+  (row, column) => (((row + column) % 2) + ((row * column) % 3)) % 2 === 0,
+];
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => Array<boolean>(this.size).fill(false));
+  }
+
+  setFunction(row: number, column: number, dark: boolean) {
+    this.modules[row]![column] = dark;
+    this.reserved[row]![column] = true;
+  }
+
+  drawFunctionPatterns() {
+    const last = this.size - 1;
+
+    for (const [top, left] of [[0, 0], [0, this.size - 7], [this.size - 7, 0]] as const) {
+      for (let row = -1; row <= 7; row++) {
+        for (let column = -1; column <= 7; column++) {
+          const y = top + row;
+          const x = left + column;
+          if (y < 0 || y > last || x < 0 || x > last) {
+            continue;
+          }
+          const ring = Math.max(Math.abs(row - 3), Math.abs(column - 3));
+          this.setFunction(y, x, ring !== 2 && ring !== 4);
+        }
+      }
+    }
+
+    for (let index = 8; index < this.size - 8; index++) {
+      this.setFunction(6, index, index % 2 === 0);
+      this.setFunction(index, 6, index % 2 === 0);
+    }
+
+    const positions = QR_ALIGNMENT_POSITIONS[this.version - 1]!;
+    const lastPosition = positions.length - 1;
+    positions.forEach((row, rowIndex) => {
+      positions.forEach((column, columnIndex) => {
+        if ((rowIndex === 0 && (columnIndex === 0 || columnIndex === lastPosition)) || (rowIndex === lastPosition && columnIndex === 0)) {
+          return; // Overlaps a finder pattern
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(row + dy, column + dx, Math.max(Math.abs(dy), Math.abs(dx)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas; drawFormatBits fills them once the mask is chosen
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      const bits = qrVersionBits(this.version);
+      for (let index = 0; index < 18; index++) {
+        const dark = ((bits >>> index) & 1) === 1;
+        const a = this.size - 11 + (index % 3);
+        const b = Math.floor(index / 3);
+        this.setFunction(b, a, dark);
+        this.setFunction(a, b, dark);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const bits = qrFormatBits(mask);
+    const bit = (index: number) => ((bits >>> index) & 1) === 1;
+
+    for (let index = 0; index <= 5; index++) {
+      this.setFunction(index, 8, bit(index));
+    }
+    this.setFunction(7, 8, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(8, 7, bit(8));
+    for (let index = 9; index < 15; index++) {
+      this.setFunction(8, 14 - index, bit(index));
+    }
+
+    for (let index = 0; index < 8; index++) {
+      this.setFunction(8, this.size - 1 - index, bit(index));
+    }
+    for (let index = 8; index < 15; index++) {
+      this.setFunction(this.size - 15 + index, 8, bit(index));
+    }
+    this.setFunction(this.size - 8, 8, true); // Dark module
+  }
+
+  placeCodewords(codewords: number[]) {
+    let bitIndex = 0;
+    const totalBits = codewords.length * 8;
+
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5; // Skip the vertical timing pattern
+      }
+      const upward = ((right + 1) & 2) === 0;
+      for (let step = 0; step < this.size; step++) {
+        const row = upward ? this.size - 1 - step : step;
+        for (let offset = 0; offset < 2; offset++) {
+          const column = right - offset;
+          if (this.reserved[row]![column] || bitIndex >= totalBits) {
+            continue;
+          }
+          this.modules[row]![column] = ((codewords[bitIndex >>> 3]! >>> (7 - (bitIndex & 7))) & 1) === 1;
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    const shouldFlip = MASKS[mask]!;
+    for (let row = 0; row < this.size; row++) {
+      for (let column = 0; column < this.size; column++) {
+        if (!this.reserved[row]![column] && shouldFlip(row, column)) {
+          this.modules[row]![column] = !this.modules[row]![column];
+        }
+      }
+    }
+  }
+
+  penalty(): number {
+    const { size, modules } = this;
+    let score = 0;
+    const lines: boolean[][] = [
+      ...modules,
+      ...modules.map((_row, column) => modules.map(row => row[column]!)),
+    ];
+
+    for (const line of lines) {
+      let runLength = 1;
+      for (let index = 1; index <= size; index++) {
+        if (index < size && line[index] === line[index - 1]) {
+          runLength++;
+          continue;
+        }
+        if (runLength >= 5) {
+          score += runLength - 2;
+        }
+        runLength = 1;
+      }
+
+      const pattern = line.map(dark => (dark ? '1' : '0')).join('');
+      for (const finderLike of ['10111010000', '00001011101']) {
+        for (let start = pattern.indexOf(finderLike); start !== -1; start = pattern.indexOf(finderLike, start + 1)) {
+          score += 40;
+        }
+      }
+    }
+
+    let dark = 0;
+    for (let row = 0; row < size; row++) {
+      for (let column = 0; column < size; column++) {
+        if (modules[row]![column]) {
+          dark++;
+        }
+        if (row < size - 1 && column < size - 1) {
+          const color = modules[row]![column];
+          if (color === modules[row]![column + 1] && color === modules[row + 1]![column] && color === modules[row + 1]![column + 1]) {
+            score += 3;
+          }
+        }
+      }
+    }
+
+    return score + 10 * Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5);
+  }
+}
+
+/**
+ * Encode a string (UTF-8) as a QR code. Returns rows of modules (true = dark),
+ * without the quiet zone. Uses the smallest version that fits, up to version 10.
+ */
+export const encodeQrCode = (value: string): boolean[][] => {
+  const data = Buffer.from(value, 'utf8');
+  let version = 1;
+  // Mode indicator, character count and data must fit in the data codewords
+  while (version <= QR_BLOCKS_M.length && 4 + (version < 10 ? 8 : 16) + data.length * 8 > dataCapacity(version) * 8) {
+    version++;
+  }
+  if (version > QR_BLOCKS_M.length) {
+    throw new Error(`QR code payload of ${data.length} bytes is too long for a label`);
+  }
+
+  const codewords = interleaveBlocks(encodeDataCodewords(data, version), version);
+
+  let best: QrMatrix | undefined;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const matrix = new QrMatrix(version);
+    matrix.drawFunctionPatterns();
+    matrix.placeCodewords(codewords);
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      best = matrix;
+      bestPenalty = penalty;
+    }
+  }
+
+  return best!.modules;
+};
@@ -8,6 +8,7 @@ const IV_LENGTH = 12; // For GCM mode
 const TAG_LENGTH = 16;
 const SALT_LENGTH = 32;
 const KEY_LENGTH = 32;
+const SECURE_DELETE_CHUNK = 1024 * 1024; // Overwrite large files a megabyte at a time
 
 // Get encryption key from environment variable
 const getEncryptionKey = (): Buffer => {
@@ -212,6 +213,31 @@ export const verifyFileIntegrity = async (filePath: string, expectedChecksum: st
   }
 };
 
+/**
+ * Secure file deletion: overwrite with random data, flushing each pass to disk,
+ * then unlink (same passes as EncryptionService.secureDelete)
+ */
+export const secureDelete = async (filePath: string, passes: number = 3): Promise<void> => {
+  try {
+    const { size } = await fs.stat(filePath);
+    const handle = await fs.open(filePath, 'r+');
+    try {
+      for (let i = 0; i < passes; i++) {
+        for (let offset = 0; offset < size; offset += SECURE_DELETE_CHUNK) {
+          const length = Math.min(SECURE_DELETE_CHUNK, size - offset);
+          await handle.write(crypto.randomBytes(length), 0, length, offset);
+        }
+        await handle.sync();
+      }
+    } finally {
+      await handle.close();
+    }
+    await fs.unlink(filePath);
+  } catch (error) {
+    throw new Error(`Secure deletion failed: ${(error as Error).message}`);
+  }
+};
+
 /**
  * Secure data for database storage
  */
@@ -0,0 +1,267 @@
+import zlib from 'zlib';
+import { encodeCode128, encodeQrCode } from './barcode';
+import { crc32 } from './zipArchive';
+
+// Thermal label printers print at 203 dpi (8 dots/mm)
+export const LABEL_DPI = 203;
+
+export interface LabelContent {
+  heading: string;
+  code: string; // Encoded in both barcodes and printed under the Code 128 bars
+  lines: string[];
+}
+
+// Monochrome image, one byte per pixel (1 = black)
+export interface Bitmap {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+// 5x7 glyphs, one hex byte per row (bit 4 = leftmost column)
+const GLYPHS: Record<string, string> = {
+  ' ': '00000000000000', '#': '0a0a1f0a1f0a0a', '&': '0c12140815120d', '\'': '0c040800000000',
+  '(': '02040808080402', ')': '08040202020408', ',': '000000000c0408', '-': '0000001f000000',
+  '.': '00000000000c0c', '/': '00010204081000', ':': '000c0c000c0c00', '?': '0e110102040004',
+  '_': '0000000000001f',
+  '0': '0e11131519110e', '1': '040c040404040e', '2': '0e11010204081f', '3': '1f02040201110e',
+  '4': '02060a121f0202', '5': '1f101e0101110e', '6': '0608101e11110e', '7': '1f010204080808',
+  '8': '0e11110e11110e', '9': '0e11110f01020c',
+  'A': '0e1111111f1111', 'B': '1e11111e11111e', 'C': '0e11101010110e', 'D': '1c12111111121c',
+  'E': '1f10101e10101f', 'F': '1f10101e101010', 'G': '0e11101711110f', 'H': '1111111f111111',
+  'I': '0e04040404040e', 'J': '0702020202120c', 'K': '11121418141211', 'L': '1010101010101f',
+  'M': '111b1515111111', 'N': '11111915131111', 'O': '0e11111111110e', 'P': '1e11111e101010',
+  'Q': '0e11111115120d', 'R': '1e11111e141211', 'S': '0f10100e01011e', 'T': '1f040404040404',
+  'U': '1111111111110e', 'V': '111111110a0a04', 'W': '1111111515150a', 'X': '11110a040a1111',
+  'Y': '1111110a040404', 'Z': '1f01020408101f',
+};
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+
+const MARGIN = 16;
+const HEADING_SCALE = 3;
+const LINE_SCALE = 2;
+const MAX_LINE_LENGTH = 40;
+const MAX_LINES = 3;
+const BAR_WIDTH = 2;
+const BAR_HEIGHT = 100;
+const BAR_QUIET_ZONE = 10; // Modules
+const QR_SCALE = 6;
+const QR_QUIET_ZONE = 4; // Modules
+
+class Canvas implements Bitmap {
+  readonly pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = new Uint8Array(width * height);
+  }
+
+  fill(x: number, y: number, width: number, height: number) {
+    for (let row = y; row < y + height; row++) {
+      this.pixels.fill(1, row * this.width + x, row * this.width + x + width);
+    }
+  }
+
+  text(value: string, x: number, y: number, scale: number) {
+    let cursor = x;
+    for (const char of value) {
+      const rows = GLYPHS[char] ?? GLYPHS['?']!;
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        const bits = parseInt(rows.slice(row * 2, row * 2 + 2), 16);
+        for (let column = 0; column < GLYPH_WIDTH; column++) {
+          if ((bits >> (GLYPH_WIDTH - 1 - column)) & 1) {
+            this.fill(cursor + column * scale, y + row * scale, scale, scale);
+          }
+        }
+      }
+      cursor += textWidth(char, scale) + scale;
+    }
+  }
+}
+
+const textWidth = (value: string, scale: number): number =>
+  value.length === 0 ? 0 : value.length * (GLYPH_WIDTH + 1) * scale - scale;
+
+// The font only has capitals, digits and common punctuation
+const printable = (value: string, maxLength: number): string => {
+  const upper = value.toUpperCase().replace(/\s+/g, ' ').trim();
+  return upper.length > maxLength ? `${upper.slice(0, maxLength - 3)}...` : upper;
+};
+
+/**
+ * Lay out a label: heading and detail lines over a Code 128 barcode with the
+ * code printed beneath it, and a QR code of the same value on the right
+ */
+export const renderLabel = (content: LabelContent): Bitmap => {
+  const heading = printable(content.heading, MAX_LINE_LENGTH);
+  const lines = content.lines.slice(0, MAX_LINES).map(line => printable(line, MAX_LINE_LENGTH));
+  const code = printable(content.code, MAX_LINE_LENGTH);
+
+  const bars = encodeCode128(content.code);
+  const qr = encodeQrCode(content.code);
+
+  const barsWidth = (bars.length + 2 * BAR_QUIET_ZONE) * BAR_WIDTH;
+  const qrWidth = (qr.length + 2 * QR_QUIET_ZONE) * QR_SCALE;
+  const headingHeight = GLYPH_HEIGHT * HEADING_SCALE;
+  const lineHeight = (GLYPH_HEIGHT + 3) * LINE_SCALE;
+
+  const leftWidth = Math.max(
+    textWidth(heading, HEADING_SCALE),
+    ...lines.map(line => textWidth(line, LINE_SCALE)),
+    barsWidth,
+    textWidth(code, HEADING_SCALE)
+  );
+  const leftHeight = headingHeight + 8 + lines.length * lineHeight + 12 + BAR_HEIGHT + 8 + headingHeight;
+
+  const canvas = new Canvas(
+    MARGIN + leftWidth + MARGIN + qrWidth + MARGIN,
+    MARGIN + Math.max(leftHeight, qrWidth) + MARGIN
+  );
+
+  let y = MARGIN;
+  canvas.text(heading, MARGIN, y, HEADING_SCALE);
+  y += headingHeight + 8;
+
+  for (const line of lines) {
+    canvas.text(line, MARGIN, y, LINE_SCALE);
+    y += lineHeight;
+  }
+  y += 12;
+
+  bars.forEach((bar, index) => {
+    if (bar) {
+      canvas.fill(MARGIN + (BAR_QUIET_ZONE + index) * BAR_WIDTH, y, BAR_WIDTH, BAR_HEIGHT);
+    }
+  });
+  y += BAR_HEIGHT + 8;
+  canvas.text(code, MARGIN + Math.floor((barsWidth - textWidth(code, HEADING_SCALE)) / 2), y, HEADING_SCALE);
+
+  const qrLeft = MARGIN + leftWidth + MARGIN + QR_QUIET_ZONE * QR_SCALE;
+  const qrTop = MARGIN + QR_QUIET_ZONE * QR_SCALE;
+  qr.forEach((row, rowIndex) => row.forEach((dark, columnIndex) => {
+    if (dark) {
+      canvas.fill(qrLeft + columnIndex * QR_SCALE, qrTop + rowIndex * QR_SCALE, QR_SCALE, QR_SCALE);
+    }
+  }));
+
+  return canvas;
+};
+
+// 8-bit grayscale rows, white background
+const grayscaleRows = (bitmap: Bitmap, filterBytes: boolean): Buffer => {
+  const rowLength = bitmap.width + (filterBytes ? 1 : 0);
+  const raw = Buffer.alloc(rowLength * bitmap.height);
+  for (let row = 0; row < bitmap.height; row++) {
+    const offset = row * rowLength + (filterBytes ? 1 : 0); // Filter byte 0 (None)
+    for (let column = 0; column < bitmap.width; column++) {
+      raw[offset + column] = bitmap.pixels[row * bitmap.width + column] ? 0 : 255;
+    }
+  }
+  return raw;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+/**
+ * Encode a bitmap as a grayscale PNG tagged with the printer resolution
+ */
+export const encodePng = (bitmap: Bitmap, dpi: number = LABEL_DPI): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(bitmap.width, 0);
+  header.writeUInt32BE(bitmap.height, 4);
+  header.writeUInt8(8, 8); // Bit depth
+  header.writeUInt8(0, 9); // Grayscale
+  // Compression, filter and interlace methods are all 0
+
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const physical = Buffer.alloc(9);
+  physical.writeUInt32BE(pixelsPerMetre, 0);
+  physical.writeUInt32BE(pixelsPerMetre, 4);
+  physical.writeUInt8(1, 8); // Unit: metre
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('pHYs', physical),
+    pngChunk('IDAT', zlib.deflateSync(grayscaleRows(bitmap, true))),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+/**
+ * Encode bitmaps as a PDF with one page per label, each page the size of its
+ * label at the given resolution so label printers print them 1:1
+ */
+export const encodeLabelPdf = (bitmaps: Bitmap[], dpi: number = LABEL_DPI): Buffer => {
+  const objects: Buffer[] = [];
+  const pageIds: number[] = [];
+  // Objects 1 and 2 are the catalog and page tree
+  let nextId = 3;
+
+  const pageObjects = bitmaps.map(bitmap => {
+    const ids = { page: nextId++, contents: nextId++, image: nextId++ };
+    pageIds.push(ids.page);
+
+    const width = ((bitmap.width * 72) / dpi).toFixed(2);
+    const height = ((bitmap.height * 72) / dpi).toFixed(2);
+    const contents = Buffer.from(`q ${width} 0 0 ${height} 0 0 cm /Label Do Q`, 'ascii');
+    const image = zlib.deflateSync(grayscaleRows(bitmap, false));
+
+    return [
+      [ids.page, Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Label ${ids.image} 0 R >> >> /Contents ${ids.contents} 0 R >>`, 'ascii')],
+      [ids.contents, Buffer.concat([
+        Buffer.from(`<< /Length ${contents.length} >>\nstream\n`, 'ascii'), contents, Buffer.from('\nendstream', 'ascii'),
+      ])],
+      [ids.image, Buffer.concat([
+        Buffer.from(
+          `<< /Type /XObject /Subtype /Image /Width ${bitmap.width} /Height ${bitmap.height} ` +
+          `/ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.length} >>\nstream\n`, 'ascii'),
+        image,
+        Buffer.from('\nendstream', 'ascii'),
+      ])],
+    ] as [number, Buffer][];
+  }).flat();
+
+  const allObjects: [number, Buffer][] = [
+    [1, Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'ascii')],
+    [2, Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'ascii')],
+    ...pageObjects,
+  ];
+
+  const header = Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1');
+  const offsets: number[] = [];
+  let offset = header.length;
+  objects.push(header);
+
+  for (const [id, body] of allObjects) {
+    const object = Buffer.concat([Buffer.from(`${id} 0 obj\n`, 'ascii'), body, Buffer.from('\nendobj\n', 'ascii')]);
+    offsets[id] = offset;
+    offset += object.length;
+    objects.push(object);
+  }
+
+  const xref = [
+    'xref',
+    `0 ${allObjects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.slice(1).map(position => `${String(position).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${allObjects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+
+  objects.push(Buffer.from(`${xref}\n`, 'ascii'));
+  return Buffer.concat(objects);
+};
@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import { SignedTreeHead, TransparencyLogProof } from '../types';
+
+/**
+ * RFC 6962 (Certificate Transparency) Merkle tree hashing and proofs.
+ *
+ * Leaves are hashed as SHA-256(0x00 || data) and interior nodes as
+ * SHA-256(0x01 || left || right), so a leaf can never be passed off as a node.
+ * The evidence transparency log builds its trees and proofs with these functions,
+ * and the verifiers below work on data a verifier holds locally, so proofs
+ * exported by the log can be checked without access to our database.
+ * src/evidence-chain/crypto/merkle-log.ts re-exports this module.
+ */
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+// RFC 6962 section 3.5: digitally-signed TreeHeadSignature, version v1, signature type tree_hash
+const TREE_HEAD_VERSION = 0;
+const TREE_HASH_SIGNATURE_TYPE = 1;
+
+const sha256 = (...parts: Buffer[]): Buffer => {
+  const hash = crypto.createHash('sha256');
+  parts.forEach(part => hash.update(part));
+  return hash.digest();
+};
+
+// Tree sizes can exceed 32 bits, so avoid JavaScript bitwise operators
+const isOdd = (value: number): boolean => value % 2 === 1;
+const halve = (value: number): number => Math.floor(value / 2);
+
+function isPowerOfTwo(value: number): boolean {
+  let n = value;
+  while (n > 1 && !isOdd(n)) {
+    n = halve(n);
+  }
+  return n === 1;
+}
+
+/**
+ * Largest power of two strictly smaller than n (n > 1)
+ */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) {
+    k *= 2;
+  }
+  return k;
+}
+
+export function leafHash(data: Buffer | string): Buffer {
+  return sha256(LEAF_PREFIX, Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8'));
+}
+
+export function nodeHash(left: Buffer, right: Buffer): Buffer {
+  return sha256(NODE_PREFIX, left, right);
+}
+
+/**
+ * MTH(D[n]) computed from the leaf hashes
+ */
+export function merkleTreeHash(leafHashes: Buffer[]): Buffer {
+  if (leafHashes.length === 0) {
+    return sha256();
+  }
+  if (leafHashes.length === 1) {
+    return leafHashes[0]!;
+  }
+
+  const k = splitPoint(leafHashes.length);
+  return nodeHash(merkleTreeHash(leafHashes.slice(0, k)), merkleTreeHash(leafHashes.slice(k)));
+}
+
+/**
+ * PATH(m, D[n]): audit path for leaf m, ordered from the leaf up
+ */
+export function inclusionProof(leafIndex: number, leafHashes: Buffer[]): Buffer[] {
+  if (leafIndex < 0 || leafIndex >= leafHashes.length) {
+    throw new Error(`Leaf ${leafIndex} is outside a tree of size ${leafHashes.length}`);
+  }
+  if (leafHashes.length === 1) {
+    return [];
+  }
+
+  const k = splitPoint(leafHashes.length);
+  if (leafIndex < k) {
+    return [...inclusionProof(leafIndex, leafHashes.slice(0, k)), merkleTreeHash(leafHashes.slice(k))];
+  }
+  return [...inclusionProof(leafIndex - k, leafHashes.slice(k)), merkleTreeHash(leafHashes.slice(0, k))];
+}
+
+function subproof(m: number, leafHashes: Buffer[], complete: boolean): Buffer[] {
+  const n = leafHashes.length;
+  if (m === n) {
+    return complete ? [] : [merkleTreeHash(leafHashes)];
+  }
+
+  const k = splitPoint(n);
+  if (m <= k) {
+    return [...subproof(m, leafHashes.slice(0, k), complete), merkleTreeHash(leafHashes.slice(k))];
+  }
+  return [...subproof(m - k, leafHashes.slice(k), false), merkleTreeHash(leafHashes.slice(0, k))];
+}
+
+/**
+ * PROOF(m, D[n]): shows the tree of size m is a prefix of the tree of size n
+ */
+export function consistencyProof(firstSize: number, leafHashes: Buffer[]): Buffer[] {
+  if (firstSize < 1 || firstSize > leafHashes.length) {
+    throw new Error(`Cannot prove consistency from size ${firstSize} to ${leafHashes.length}`);
+  }
+  return subproof(firstSize, leafHashes, true);
+}
+
+/**
+ * Verify an audit path (RFC 9162 section 2.1.3.2)
+ */
+export function verifyInclusion(
+  leaf: Buffer,
+  leafIndex: number,
+  treeSize: number,
+  proof: Buffer[],
+  rootHash: Buffer
+): boolean {
+  if (leafIndex < 0 || leafIndex >= treeSize) {
+    return false;
+  }
+
+  let fn = leafIndex;
+  let sn = treeSize - 1;
+  let r = leaf;
+
+  for (const p of proof) {
+    if (sn === 0) {
+      return false;
+    }
+    if (isOdd(fn) || fn === sn) {
+      r = nodeHash(p, r);
+      if (!isOdd(fn)) {
+        while (!isOdd(fn) && fn !== 0) {
+          fn = halve(fn);
+          sn = halve(sn);
+        }
+      }
+    } else {
+      r = nodeHash(r, p);
+    }
+    fn = halve(fn);
+    sn = halve(sn);
+  }
+
+  return sn === 0 && r.equals(rootHash);
+}
+
+/**
+ * Verify a consistency proof between two tree heads (RFC 9162 section 2.1.4.2)
+ */
+export function verifyConsistency(
+  firstSize: number,
+  secondSize: number,
+  firstRoot: Buffer,
+  secondRoot: Buffer,
+  proof: Buffer[]
+): boolean {
+  if (firstSize < 1 || firstSize > secondSize) {
+    return false;
+  }
+  if (firstSize === secondSize) {
+    return proof.length === 0 && firstRoot.equals(secondRoot);
+  }
+
+  // When the old tree is a complete subtree its root is the first node of the path
+  const path = isPowerOfTwo(firstSize) ? [firstRoot, ...proof] : proof;
+  if (path.length === 0) {
+    return false;
+  }
+
+  let fn = firstSize - 1;
+  let sn = secondSize - 1;
+  while (isOdd(fn)) {
+    fn = halve(fn);
+    sn = halve(sn);
+  }
+
+  let fr = path[0]!;
+  let sr = path[0]!;
+
+  for (const c of path.slice(1)) {
+    if (sn === 0) {
+      return false;
+    }
+    if (isOdd(fn) || fn === sn) {
+      fr = nodeHash(c, fr);
+      sr = nodeHash(c, sr);
+      if (!isOdd(fn)) {
+        while (!isOdd(fn) && fn !== 0) {
+          fn = halve(fn);
+          sn = halve(sn);
+        }
+      }
+    } else {
+      sr = nodeHash(sr, c);
+    }
+    fn = halve(fn);
+    sn = halve(sn);
+  }
+
+  return sn === 0 && fr.equals(firstRoot) && sr.equals(secondRoot);
+}
+
+/**
+ * Bytes covered by a tree head signature
+ */
+export function treeHeadSignatureInput(treeSize: number, timestamp: Date, rootHash: Buffer): Buffer {
+  const input = Buffer.alloc(2 + 8 + 8 + 32);
+  input.writeUInt8(TREE_HEAD_VERSION, 0);
+  input.writeUInt8(TREE_HASH_SIGNATURE_TYPE, 1);
+  input.writeBigUInt64BE(BigInt(timestamp.getTime()), 2);
+  input.writeBigUInt64BE(BigInt(treeSize), 10);
+  rootHash.copy(input, 18);
+  return input;
+}
+
+/**
+ * Check a signed tree head against the log's public key
+ */
+export function verifyTreeHead(treeHead: SignedTreeHead, publicKeyPem: string): boolean {
+  try {
+    const publicKey = crypto.createPublicKey(publicKeyPem);
+    const spki = publicKey.export({ type: 'spki', format: 'der' });
+    if (crypto.createHash('sha256').update(spki).digest('hex') !== treeHead.logId) {
+      return false;
+    }
+
+    return crypto.verify(
+      treeHead.signatureAlgorithm === 'Ed25519' ? null : 'sha256',
+      treeHeadSignatureInput(treeHead.treeSize, new Date(treeHead.timestamp), Buffer.from(treeHead.rootHash, 'hex')),
+      publicKey,
+      Buffer.from(treeHead.signature, 'base64')
+    );
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Verify that a logged leaf is included under a tree head signed by the log
+ */
+export function verifyTransparencyProof(proof: TransparencyLogProof, publicKeyPem: string): boolean {
+  const { treeHead } = proof;
+
+  return (
+    proof.treeSize === treeHead.treeSize &&
+    proof.rootHash === treeHead.rootHash &&
+    leafHash(proof.leafData).toString('hex') === proof.leafHash &&
+    verifyInclusion(
+      Buffer.from(proof.leafHash, 'hex'),
+      proof.leafIndex,
+      proof.treeSize,
+      proof.inclusionProof.map(node => Buffer.from(node, 'hex')),
+      Buffer.from(proof.rootHash, 'hex')
+    ) &&
+    verifyTreeHead(treeHead, publicKeyPem)
+  );
+}
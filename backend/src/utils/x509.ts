@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+
+/**
+ * Minimal DER encoding and X.509 v3 certificate issuing for the internal
+ * signing CA. Node can parse and verify certificates (crypto.X509Certificate)
+ * but not create them, so the TBSCertificate is assembled here.
+ */
+
+export interface CertificateName {
+  commonName: string;
+  organization?: string;
+  userId?: string;
+}
+
+export interface CertificateRequest {
+  serialNumber: string; // hex
+  subject: CertificateName;
+  issuer: CertificateName;
+  subjectPublicKey: crypto.KeyObject;
+  issuerPublicKey: crypto.KeyObject;
+  issuerPrivateKey: crypto.KeyObject;
+  notBefore: Date;
+  notAfter: Date;
+  isCertificateAuthority: boolean;
+}
+
+const OID = {
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+  userId: '0.9.2342.19200300.100.1.1',
+  basicConstraints: '2.5.29.19',
+  keyUsage: '2.5.29.15',
+  subjectKeyIdentifier: '2.5.29.14',
+  authorityKeyIdentifier: '2.5.29.35',
+  ed25519: '1.3.101.112',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  sha256WithRsaEncryption: '1.2.840.113549.1.1.11',
+};
+
+// RFC 5280 section 5.3.1
+export const REVOCATION_REASON_CODES = {
+  UNSPECIFIED: 0,
+  KEY_COMPROMISE: 1,
+  AFFILIATION_CHANGED: 3,
+  SUPERSEDED: 4,
+  CESSATION_OF_OPERATION: 5,
+} as const;
+
+const encodeLength = (length: number): Buffer => {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  const bytes: number[] = [];
+  let remaining = length;
+  while (remaining > 0) {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  }
+  return Buffer.from([0x80 + bytes.length, ...bytes]);
+};
+
+const tlv = (tag: number, content: Buffer): Buffer => Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+
+export const der = {
+  sequence: (...items: Buffer[]): Buffer => tlv(0x30, Buffer.concat(items)),
+  set: (...items: Buffer[]): Buffer => tlv(0x31, Buffer.concat([...items].sort(Buffer.compare))),
+  boolean: (value: boolean): Buffer => tlv(0x01, Buffer.from([value ? 0xff : 0x00])),
+  null: (): Buffer => Buffer.from([0x05, 0x00]),
+  octetString: (value: Buffer): Buffer => tlv(0x04, value),
+  bitString: (value: Buffer, unusedBits: number = 0): Buffer => tlv(0x03, Buffer.concat([Buffer.from([unusedBits]), value])),
+  utf8String: (value: string): Buffer => tlv(0x0c, Buffer.from(value, 'utf8')),
+
+  /**
+   * Non-negative integer from its unsigned big-endian magnitude
+   */
+  integer: (magnitude: Buffer): Buffer => {
+    let start = 0;
+    while (start < magnitude.length - 1 && magnitude[start] === 0) {
+      start++;
+    }
+    const bytes = magnitude.length === 0 ? Buffer.from([0]) : magnitude.subarray(start);
+    return tlv(0x02, bytes[0]! >= 0x80 ? Buffer.concat([Buffer.from([0]), bytes]) : bytes);
+  },
+
+  oid: (oid: string): Buffer => {
+    const parts = oid.split('.').map(Number);
+    const bytes: number[] = [parts[0]! * 40 + parts[1]!];
+    for (const part of parts.slice(2)) {
+      const encoded: number[] = [part % 128];
+      let remaining = Math.floor(part / 128);
+      while (remaining > 0) {
+        encoded.unshift((remaining % 128) + 0x80);
+        remaining = Math.floor(remaining / 128);
+      }
+      bytes.push(...encoded);
+    }
+    return tlv(0x06, Buffer.from(bytes));
+  },
+
+  /**
+   * RFC 5280 Time: UTCTime through 2049, GeneralizedTime afterwards, whole seconds only
+   */
+  time: (date: Date): Buffer => {
+    const digits = date.toISOString().slice(0, 19).replace(/[-:T]/g, '');
+    return date.getUTCFullYear() < 2050 ?
+      tlv(0x17, Buffer.from(`${digits.slice(2)}Z`, 'ascii')) :
+      tlv(0x18, Buffer.from(`${digits}Z`, 'ascii'));
+  },
+
+  explicit: (tagNumber: number, inner: Buffer): Buffer => tlv(0xa0 + tagNumber, inner),
+  implicitPrimitive: (tagNumber: number, content: Buffer): Buffer => tlv(0x80 + tagNumber, content),
+};
+
+const encodeName = (name: CertificateName): Buffer => {
+  const attribute = (oid: string, value: string) => der.set(der.sequence(der.oid(oid), der.utf8String(value)));
+
+  return der.sequence(
+    ...(name.organization ? [attribute(OID.organizationName, name.organization)] : []),
+    attribute(OID.commonName, name.commonName),
+    ...(name.userId ? [attribute(OID.userId, name.userId)] : [])
+  );
+};
+
+const extension = (oid: string, critical: boolean, value: Buffer): Buffer =>
+  der.sequence(der.oid(oid), ...(critical ? [der.boolean(true)] : []), der.octetString(value));
+
+/**
+ * Key identifier: leftmost 160 bits of the SHA-256 of the SubjectPublicKeyInfo (RFC 7093 method 1 variant)
+ */
+export const keyIdentifier = (publicKey: crypto.KeyObject): Buffer =>
+  crypto.createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest().subarray(0, 20);
+
+/**
+ * AlgorithmIdentifier and digest for signing with the issuer key
+ */
+const signatureAlgorithmFor = (issuerPrivateKey: crypto.KeyObject): { identifier: Buffer; digest: string | null } => {
+  switch (issuerPrivateKey.asymmetricKeyType) {
+    case 'ed25519':
+      return { identifier: der.sequence(der.oid(OID.ed25519)), digest: null };
+    case 'ec':
+      return { identifier: der.sequence(der.oid(OID.ecdsaWithSha256)), digest: 'sha256' };
+    case 'rsa':
+      return { identifier: der.sequence(der.oid(OID.sha256WithRsaEncryption), der.null()), digest: 'sha256' };
+    default:
+      throw new Error(`Unsupported certificate signing key type: ${issuerPrivateKey.asymmetricKeyType}`);
+  }
+};
+
+/**
+ * Random positive 128-bit certificate serial number, as hex
+ */
+export const generateSerialNumber = (): string => {
+  const serial = crypto.randomBytes(16);
+  serial[0] = serial[0]! % 0x80 || 0x01;
+  return serial.toString('hex').toUpperCase();
+};
+
+/**
+ * Issue a DER-encoded X.509 v3 certificate and return it as PEM
+ */
+export const issueCertificate = (request: CertificateRequest): string => {
+  const { identifier, digest } = signatureAlgorithmFor(request.issuerPrivateKey);
+
+  // CA: keyCertSign + cRLSign; end entity: digitalSignature + nonRepudiation
+  const keyUsage = request.isCertificateAuthority ? der.bitString(Buffer.from([0x06]), 1) : der.bitString(Buffer.from([0xc0]), 6);
+  const basicConstraints = request.isCertificateAuthority ?
+    der.sequence(der.boolean(true), der.integer(Buffer.from([0]))) :
+    der.sequence();
+
+  const tbsCertificate = der.sequence(
+    der.explicit(0, der.integer(Buffer.from([2]))), // v3
+    der.integer(Buffer.from(request.serialNumber, 'hex')),
+    identifier,
+    encodeName(request.issuer),
+    der.sequence(der.time(request.notBefore), der.time(request.notAfter)),
+    encodeName(request.subject),
+    request.subjectPublicKey.export({ type: 'spki', format: 'der' }),
+    der.explicit(3, der.sequence(
+      extension(OID.basicConstraints, true, basicConstraints),
+      extension(OID.keyUsage, true, keyUsage),
+      extension(OID.subjectKeyIdentifier, false, der.octetString(keyIdentifier(request.subjectPublicKey))),
+      extension(OID.authorityKeyIdentifier, false, der.sequence(der.implicitPrimitive(0, keyIdentifier(request.issuerPublicKey))))
+    ))
+  );
+
+  const signature = crypto.sign(digest, tbsCertificate, request.issuerPrivateKey);
+  const certificate = der.sequence(tbsCertificate, identifier, der.bitString(signature));
+
+  const base64 = certificate.toString('base64').match(/.{1,64}/g)!.join('\n');
+  return `-----BEGIN CERTIFICATE-----\n${base64}\n-----END CERTIFICATE-----\n`;
+};
@@ -1,7 +1,7 @@
 import { CommunicationChannel, ChannelConfig, CommunicationData, OutboundCommunication, ChannelQuery } from '../../core/types';
 import { EmailParser } from './email-parser';
 import { EmailProvider } from './providers/email-provider';
-import { ImapProvider } from './providers/imap-provider';
+import { ImapProvider, MailboxSyncStore } from './providers/imap-provider';
 import { ExchangeProvider } from './providers/exchange-provider';
 import { GmailProvider } from './providers/gmail-provider';
 import { EventEmitter } from 'events';
@@ -21,7 +21,7 @@ export class EmailChannel extends EventEmitter implements CommunicationChannel {
   private isRunning = false;
   private syncInterval: NodeJS.Timeout | null = null;
 
-  constructor() {
+  constructor(private dependencies: EmailChannelDependencies = {}) {
     super();
     this.parser = new EmailParser();
   }
@@ -31,7 +31,7 @@ export class EmailChannel extends EventEmitter implements CommunicationChannel {
     
     // Initialize email providers based on configuration
     if (config.settings.imap) {
-      this.providers.set('imap', new ImapProvider(config.settings.imap));
+      this.providers.set('imap', new ImapProvider(config.settings.imap, this.dependencies.mailboxSyncStore));
     }
     
     if (config.settings.exchange) {
@@ -298,6 +298,10 @@ export class EmailChannel extends EventEmitter implements CommunicationChannel {
   }
 }
 
+export interface EmailChannelDependencies {
+  mailboxSyncStore?: MailboxSyncStore; // Where IMAP sync positions persist between runs
+}
+
 export interface ParsedEmail {
   messageId: string;
   threadId?: string;
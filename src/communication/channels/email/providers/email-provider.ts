@@ -0,0 +1,34 @@
+import { EventEmitter } from 'events';
+import { ChannelQuery, OutboundCommunication } from '../../../core/types';
+
+/**
+ * Email Provider
+ * A mail service the email channel reads from and sends through. Providers emit
+ * "new-email" with a RawEmail for each message that arrives while monitoring,
+ * plus "connected", "disconnected" and "error".
+ */
+export interface EmailProvider extends EventEmitter {
+  initialize(): Promise<void>;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+
+  supportsRealTime(): boolean;
+  startRealTimeMonitoring(): Promise<void>;
+
+  sendEmail(communication: OutboundCommunication): Promise<string>;
+  retrieveEmails(query: ChannelQuery): Promise<RawEmail[]>;
+  getEmailThread(threadId: string): Promise<RawEmail[]>;
+}
+
+/**
+ * An RFC 822 message as stored by the provider; EmailParser reads raw
+ */
+export interface RawEmail {
+  raw: Buffer;
+  folder: string;
+  uid?: number;
+  messageId?: string;
+  receivedAt?: Date;
+  flags?: string[];
+  resync?: boolean; // Delivered again after the folder's UIDVALIDITY changed
+}
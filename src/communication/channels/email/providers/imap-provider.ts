@@ -0,0 +1,515 @@
+import { EventEmitter } from 'events';
+import { FetchMessageObject, ImapFlow, SearchObject } from 'imapflow';
+import nodemailer, { Transporter } from 'nodemailer';
+import { ChannelQuery, OutboundCommunication, Priority } from '../../../core/types';
+import { EmailProvider, RawEmail } from './email-provider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RECONNECT: Required<Omit<ReconnectConfig, 'maxAttempts'>> = {
+  initialDelay: 1000,
+  maxDelay: 5 * 60 * 1000
+};
+
+const MAIL_PRIORITY: Record<Priority, 'low' | 'normal' | 'high'> = {
+  low: 'low',
+  normal: 'normal',
+  high: 'high',
+  urgent: 'high'
+};
+
+/**
+ * IMAP Provider
+ * Ingests mail over IMAP. Each configured folder is synced incrementally by UID
+ * from a persisted high-water mark, the first folder is watched with IDLE for
+ * new mail, and a dropped connection is re-established with exponential
+ * backoff. Sending goes through the optional SMTP settings.
+ *
+ * For local testing, `docker compose --profile mail up mailserver` starts a
+ * GreenMail server with IMAP on 3143 and SMTP on 3025 (secure: false, any
+ * user and password).
+ */
+export class ImapProvider extends EventEmitter implements EmailProvider {
+  private client: ImapFlow | null = null;
+  private transport: Transporter | null = null;
+  private folders: string[];
+  private monitoring = false;
+  private stopping = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private config: ImapProviderConfig, private syncState: MailboxSyncStore = new MemoryMailboxSyncStore()) {
+    super();
+    this.folders = config.folders && config.folders.length > 0 ? config.folders : ['INBOX'];
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.host || !this.config.auth?.user) {
+      throw new Error('IMAP provider needs a host and auth.user');
+    }
+    if (!this.config.auth.pass && !this.config.auth.accessToken) {
+      throw new Error('IMAP provider needs auth.pass or auth.accessToken');
+    }
+  }
+
+  async connect(): Promise<void> {
+    this.stopping = false;
+    await this.open();
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopping = true;
+    this.monitoring = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    const client = this.client;
+    if (client) {
+      await client.logout().catch(() => client.close());
+    }
+  }
+
+  /**
+   * IDLE where the server has it; otherwise the IMAP client polls with NOOP
+   */
+  supportsRealTime(): boolean {
+    return true;
+  }
+
+  /**
+   * Catch up on every folder, then watch the first one with IDLE. The other
+   * folders are synced again every pollInterval.
+   */
+  async startRealTimeMonitoring(): Promise<void> {
+    this.monitoring = true;
+    await this.syncFolders(this.folders);
+
+    if (!this.pollTimer && this.folders.length > 1) {
+      this.pollTimer = setInterval(() => {
+        if (this.client) {
+          this.syncFolders(this.folders).catch((error: Error) => this.emit('error', error));
+        }
+      }, this.config.pollInterval || 60000);
+    }
+  }
+
+  async sendEmail(communication: OutboundCommunication): Promise<string> {
+    const smtp = this.config.smtp;
+    if (!smtp) {
+      throw new Error('IMAP provider has no SMTP settings and cannot send email');
+    }
+    if (!this.transport) {
+      this.transport = nodemailer.createTransport({
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.secure,
+        ...(smtp.auth && { auth: smtp.auth })
+      });
+    }
+
+    const recipients = (type: 'to' | 'cc' | 'bcc') => communication.recipients
+      .filter(recipient => recipient.type === type)
+      .map(recipient => (recipient.name ? { name: recipient.name, address: recipient.address } : recipient.address));
+
+    const info = await this.transport.sendMail({
+      from: smtp.from,
+      to: recipients('to'),
+      cc: recipients('cc'),
+      bcc: recipients('bcc'),
+      subject: communication.subject ?? communication.content.subject ?? '',
+      ...(communication.content.format === 'html' ? { html: communication.content.body } : { text: communication.content.body }),
+      attachments: (communication.attachments || []).map(attachment => ({
+        filename: attachment.name,
+        path: attachment.path,
+        contentType: attachment.type
+      })),
+      priority: MAIL_PRIORITY[communication.priority],
+      // The email channel files incoming replies under this case
+      headers: { 'X-Case-ID': communication.metadata.caseId },
+      ...(communication.metadata.requireReadReceipt && { dispositionNotificationTo: smtp.from })
+    });
+    return info.messageId;
+  }
+
+  /**
+   * Messages across the configured folders matching the query, oldest first
+   */
+  async retrieveEmails(query: ChannelQuery): Promise<RawEmail[]> {
+    const groups = searchGroups(query);
+    const emails = await this.searchFolders(groups);
+
+    const range = query.dateRange;
+    const offset = query.offset || 0;
+    return emails
+      .filter(email => !range || !email.receivedAt || (email.receivedAt >= range.start && email.receivedAt <= range.end))
+      .sort((a, b) => (a.receivedAt?.getTime() ?? 0) - (b.receivedAt?.getTime() ?? 0))
+      .slice(offset, query.limit ? offset + query.limit : undefined);
+  }
+
+  /**
+   * Messages in a thread, found through Message-ID, References and In-Reply-To.
+   * Thread IDs that are not message IDs cannot be looked up over IMAP.
+   */
+  async getEmailThread(threadId: string): Promise<RawEmail[]> {
+    if (!threadId.includes('@')) {
+      return [];
+    }
+
+    const messageId = threadId.startsWith('<') ? threadId : `<${threadId}>`;
+    const groups: SearchObject[] = [{
+      or: [
+        { header: { 'message-id': messageId } },
+        { header: { references: messageId } },
+        { header: { 'in-reply-to': messageId } }
+      ]
+    }];
+
+    return await this.searchFolders(groups);
+  }
+
+  private async open(): Promise<void> {
+    const { host, port, secure = true, auth, tls } = this.config;
+    const client = new ImapFlow({
+      host,
+      port: port || (secure ? 993 : 143),
+      secure,
+      auth: auth.accessToken ? { user: auth.user, accessToken: auth.accessToken } : { user: auth.user, pass: auth.pass },
+      ...(tls && { tls }),
+      logger: false
+    });
+
+    client.on('error', error => this.emit('error', error));
+    client.on('exists', (event: { path: string }) => {
+      if (this.monitoring) {
+        this.syncFolders([event.path]).catch((error: Error) => this.emit('error', error));
+      }
+    });
+    client.on('close', () => this.handleClose(client));
+
+    await client.connect();
+    this.client = client;
+    this.reconnectAttempts = 0;
+    this.emit('connected');
+  }
+
+  private handleClose(client: ImapFlow): void {
+    // Only the live connection matters; clients that never connected are the caller's failure
+    if (this.client !== client) {
+      return;
+    }
+    this.client = null;
+    this.emit('disconnected');
+
+    if (!this.stopping) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    const { initialDelay, maxDelay } = { ...DEFAULT_RECONNECT, ...this.config.reconnect };
+    const maxAttempts = this.config.reconnect?.maxAttempts;
+    if (maxAttempts !== undefined && this.reconnectAttempts >= maxAttempts) {
+      this.emit('error', new Error(`IMAP reconnect gave up after ${this.reconnectAttempts} attempts`));
+      return;
+    }
+
+    const delay = backoffDelay(this.reconnectAttempts, initialDelay, maxDelay);
+    this.reconnectAttempts++;
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  private async reconnect(): Promise<void> {
+    if (this.stopping) {
+      return;
+    }
+
+    try {
+      await this.open();
+    } catch (error) {
+      this.emit('error', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    // Pick up whatever arrived while the connection was down
+    if (this.monitoring) {
+      await this.syncFolders(this.folders).catch((error: Error) => this.emit('error', error));
+    }
+  }
+
+  private syncFolders(folders: string[]): Promise<void> {
+    return this.exclusive(async client => {
+      for (const folder of folders) {
+        await this.syncFolder(client, folder);
+      }
+    });
+  }
+
+  /**
+   * Emit "new-email" for every message above the folder's high-water mark,
+   * advancing the mark after each one. A changed UIDVALIDITY invalidates the
+   * mark and the folder is synced again from the start; messages from that
+   * pass are marked resync, and any whose Message-ID was already ingested from
+   * the folder are skipped.
+   */
+  private async syncFolder(client: ImapFlow, folder: string): Promise<number> {
+    const lock = await client.getMailboxLock(folder);
+    try {
+      const mailbox = client.mailbox;
+      if (!mailbox) {
+        throw new Error(`Could not open IMAP folder ${folder}`);
+      }
+
+      const account = this.account();
+      const uidValidity = String(mailbox.uidValidity);
+      const state = await this.syncState.get(account, folder);
+      const resync = Boolean(state && state.uidValidity !== uidValidity);
+      if (state && resync) {
+        this.emit('sync-reset', { folder, previousUidValidity: state.uidValidity, uidValidity });
+      }
+
+      let lastUid = state && state.uidValidity === uidValidity ? state.lastUid : 0;
+      if (!state || state.uidValidity !== uidValidity) {
+        await this.syncState.save({ account, folder, uidValidity, lastUid, syncedAt: new Date() });
+      }
+      if (mailbox.exists === 0 || (mailbox.uidNext && mailbox.uidNext <= lastUid + 1)) {
+        return 0;
+      }
+
+      let count = 0;
+      let skipped = 0;
+      for await (const message of client.fetch(`${lastUid + 1}:*`, FETCH_FIELDS, { uid: true })) {
+        // "n:*" always includes the highest UID, even when it is below n
+        if (message.uid <= lastUid || !message.source) {
+          continue;
+        }
+
+        const email = toRawEmail(folder, message);
+        if (email.messageId && await this.syncState.hasMessage(account, folder, email.messageId)) {
+          skipped++;
+        } else {
+          this.emit('new-email', resync ? { ...email, resync: true } : email);
+          if (email.messageId) {
+            await this.syncState.recordMessage(account, folder, email.messageId);
+          }
+          count++;
+        }
+
+        lastUid = message.uid;
+        await this.syncState.save({ account, folder, uidValidity, lastUid, syncedAt: new Date() });
+      }
+
+      if (count > 0 || skipped > 0) {
+        this.emit('folder-synced', { folder, count, skipped, lastUid });
+      }
+      return count;
+    } finally {
+      lock.release();
+    }
+  }
+
+  private searchFolders(groups: SearchObject[]): Promise<RawEmail[]> {
+    return this.exclusive(async client => {
+      const found: RawEmail[] = [];
+      for (const folder of this.folders) {
+        found.push(...await this.fetchMatching(client, folder, groups));
+      }
+      return found;
+    });
+  }
+
+  private async fetchMatching(client: ImapFlow, folder: string, groups: SearchObject[]): Promise<RawEmail[]> {
+    const lock = await client.getMailboxLock(folder);
+    try {
+      let uids: number[] | null = null;
+      for (const group of groups) {
+        const matched = (await client.search(group, { uid: true })) || [];
+        uids = uids === null ? matched : uids.filter(uid => matched.includes(uid));
+      }
+      if (!uids || uids.length === 0) {
+        return [];
+      }
+
+      const found: RawEmail[] = [];
+      for await (const message of client.fetch(uids, FETCH_FIELDS, { uid: true })) {
+        if (message.source) {
+          found.push(toRawEmail(folder, message));
+        }
+      }
+      return found;
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * Run IMAP work one task at a time. Selecting another folder ends IDLE on the
+   * watched one, so it is selected again afterwards.
+   */
+  private exclusive<T>(task: (client: ImapFlow) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      const client = this.client;
+      if (!client || !client.usable) {
+        throw new Error('IMAP provider is not connected');
+      }
+
+      try {
+        return await task(client);
+      } finally {
+        const watched = this.folders[0]!;
+        if (this.monitoring && client.usable && (!client.mailbox || client.mailbox.path !== watched)) {
+          await client.mailboxOpen(watched).catch((error: Error) => this.emit('error', error));
+        }
+      }
+    });
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private account(): string {
+    return `${this.config.auth.user}@${this.config.host}`;
+  }
+}
+
+const FETCH_FIELDS = { uid: true, source: true, internalDate: true, flags: true, envelope: true };
+
+/**
+ * Delay before reconnect attempt n (from 0): doubling from initialDelay up to
+ * maxDelay, with jitter so many clients do not reconnect in step
+ */
+export function backoffDelay(attempt: number, initialDelay: number, maxDelay: number): number {
+  const capped = Math.min(maxDelay, initialDelay * 2 ** attempt);
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+/**
+ * IMAP searches for a channel query; a message matches when every search
+ * matches it. Dates are widened by a day because IMAP compares dates without
+ * times or time zones; exact bounds are applied to the results.
+ */
+export function searchGroups(query: ChannelQuery): SearchObject[] {
+  const groups: SearchObject[] = [];
+
+  const range: SearchObject = {};
+  if (query.dateRange) {
+    range.since = new Date(query.dateRange.start.getTime() - DAY_MS);
+    range.before = new Date(query.dateRange.end.getTime() + DAY_MS);
+  }
+  groups.push(Object.keys(range).length > 0 ? range : { all: true });
+
+  if (query.senders && query.senders.length > 0) {
+    groups.push(anyOf(query.senders.map(sender => ({ from: sender }))));
+  }
+  if (query.recipients && query.recipients.length > 0) {
+    groups.push(anyOf(query.recipients.flatMap(recipient => [{ to: recipient }, { cc: recipient }])));
+  }
+  if (query.keywords && query.keywords.length > 0) {
+    groups.push(anyOf(query.keywords.map(keyword => ({ text: keyword }))));
+  }
+  return groups;
+}
+
+function anyOf(searches: SearchObject[]): SearchObject {
+  return searches.length === 1 ? searches[0]! : { or: searches };
+}
+
+function toRawEmail(folder: string, message: FetchMessageObject): RawEmail {
+  return {
+    raw: message.source!,
+    folder,
+    uid: message.uid,
+    ...(message.envelope?.messageId && { messageId: message.envelope.messageId }),
+    ...(message.internalDate && { receivedAt: new Date(message.internalDate) }),
+    ...(message.flags && { flags: [...message.flags] })
+  };
+}
+
+/**
+ * High-water marks kept in process memory; for development and tests only
+ */
+export class MemoryMailboxSyncStore implements MailboxSyncStore {
+  private states: Map<string, MailboxSyncState> = new Map();
+  private messages: Set<string> = new Set();
+
+  async get(account: string, folder: string): Promise<MailboxSyncState | null> {
+    return this.states.get(`${account}\n${folder}`) ?? null;
+  }
+
+  async save(state: MailboxSyncState): Promise<void> {
+    this.states.set(`${state.account}\n${state.folder}`, state);
+  }
+
+  async hasMessage(account: string, folder: string, messageId: string): Promise<boolean> {
+    return this.messages.has(`${account}\n${folder}\n${messageId}`);
+  }
+
+  async recordMessage(account: string, folder: string, messageId: string): Promise<void> {
+    this.messages.add(`${account}\n${folder}\n${messageId}`);
+  }
+}
+
+// Supporting interfaces
+export interface ImapProviderConfig {
+  host: string;
+  port?: number;
+  secure?: boolean; // Implicit TLS; defaults to true (port 993)
+  auth: {
+    user: string;
+    pass?: string;
+    accessToken?: string; // XOAUTH2
+  };
+  tls?: { rejectUnauthorized?: boolean };
+  folders?: string[]; // Defaults to INBOX; the first is watched with IDLE
+  pollInterval?: number; // ms between syncs of the other folders
+  reconnect?: ReconnectConfig;
+  smtp?: SmtpConfig;
+}
+
+export interface ReconnectConfig {
+  initialDelay?: number; // ms
+  maxDelay?: number; // ms
+  maxAttempts?: number; // Unlimited when not set
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  auth?: { user: string; pass: string };
+  from: string;
+}
+
+/**
+ * Where each folder's high-water mark is kept between runs, with the
+ * Message-IDs already ingested so a resync does not deliver them twice
+ */
+export interface MailboxSyncStore {
+  get(account: string, folder: string): Promise<MailboxSyncState | null>;
+  save(state: MailboxSyncState): Promise<void>;
+  hasMessage(account: string, folder: string, messageId: string): Promise<boolean>;
+  recordMessage(account: string, folder: string, messageId: string): Promise<void>;
+}
+
+export interface MailboxSyncState {
+  account: string;
+  folder: string;
+  uidValidity: string;
+  lastUid: number;
+  syncedAt: Date;
+}
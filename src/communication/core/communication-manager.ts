@@ -1,8 +1,22 @@
 import { EventEmitter } from 'events';
-import { CommunicationChannel } from './types';
-import { PrivilegeManager } from '../security/privilege-manager';
-import { DiscoveryEngine } from '../discovery/discovery-engine';
-import { MonitoringService } from '../monitoring/monitoring-service';
+import { CommunicationChannel, MonitoringAlert, OutboundCommunication } from './types';
+import {
+  CounselDirectory,
+  PrivilegeDecision,
+  PrivilegeDecisionStore,
+  PrivilegeManager,
+  PrivilegeReview
+} from '../security/privilege-manager';
+import { AttachmentTextExtractor, DiscoveryEngine } from '../discovery/discovery-engine';
+import { generatePrivilegeLog, PrivilegeLog, PrivilegeLogProduction } from '../discovery/privilege-log';
+import {
+  AlertBroadcaster,
+  MonitoringAlertFilter,
+  MonitoringAlertStore,
+  MonitoringService,
+  SentimentScorer
+} from '../monitoring/monitoring-service';
+import { HoldNoticeDispatcher, HoldNoticeDispatcherOptions, HoldNoticeOutbox } from '../legal-hold/hold-notice-dispatcher';
 import { Database } from '../storage/database';
 
 /**
@@ -14,17 +28,40 @@ export class CommunicationManager extends EventEmitter {
   private privilegeManager: PrivilegeManager;
   private discoveryEngine: DiscoveryEngine;
   private monitoringService: MonitoringService;
+  private holdNoticeDispatcher: HoldNoticeDispatcher | null = null;
   private database: Database;
 
-  constructor(config: CommunicationManagerConfig) {
+  constructor(config: CommunicationManagerConfig, dependencies: CommunicationManagerDependencies = {}) {
     super();
-    this.privilegeManager = new PrivilegeManager(config.privilege);
-    this.discoveryEngine = new DiscoveryEngine(config.discovery);
-    this.monitoringService = new MonitoringService(config.monitoring);
+    this.privilegeManager = new PrivilegeManager(
+      config.privilege,
+      dependencies.privilegeStore,
+      dependencies.counselDirectory
+    );
+    this.discoveryEngine = new DiscoveryEngine(config.discovery, this.privilegeManager, dependencies.attachmentText);
+    this.monitoringService = new MonitoringService(config.monitoring, {
+      store: dependencies.alertStore,
+      broadcaster: dependencies.alertBroadcaster,
+      sentiment: dependencies.sentimentScorer
+    });
     this.database = new Database(config.database);
     
     this.initializeChannels();
     this.setupEventHandlers();
+
+    if (dependencies.holdNoticeOutbox) {
+      const { intervalMs, ...options } = config.holdNotices || {};
+      this.holdNoticeDispatcher = new HoldNoticeDispatcher(this, dependencies.holdNoticeOutbox, options);
+      this.holdNoticeDispatcher.on('error', error => this.handleError('Failed to dispatch hold notices', error));
+      this.holdNoticeDispatcher.start(intervalMs);
+    }
+  }
+
+  /**
+   * Stop background work started by the manager
+   */
+  shutdown(): void {
+    this.holdNoticeDispatcher?.stop();
   }
 
   /**
@@ -44,16 +81,18 @@ export class CommunicationManager extends EventEmitter {
       // Apply privilege protection
       const protectedComm = await this.privilegeManager.applyProtection(communication);
       
+      // Check for monitoring alerts before anything is kept; a blocked
+      // communication is neither stored nor indexed
+      const monitoring = await this.monitoringService.processCommunication(protectedComm);
+      if (monitoring.blocked) {
+        this.emit('communication-blocked', { id: protectedComm.id, communication: protectedComm, alerts: monitoring.alerts });
+        return protectedComm.id;
+      }
+
       // Store in database
       const commId = await this.database.storeCommunication(protectedComm);
-      
-      // Index for discovery
-      await this.discoveryEngine.indexCommunication(protectedComm, commId);
-      
-      // Check for monitoring alerts
-      await this.monitoringService.processCommunication(protectedComm);
-      
-      // Emit event for real-time updates
+
+      // Emit event for real-time updates; discovery indexes from it
       this.emit('communication-logged', { id: commId, communication: protectedComm });
       
       return commId;
@@ -63,6 +102,28 @@ export class CommunicationManager extends EventEmitter {
     }
   }
 
+  /**
+   * Send an outbound communication through a registered channel
+   */
+  async sendCommunication(channelType: string, communication: OutboundCommunication): Promise<string> {
+    const channel = this.channels.get(channelType);
+    if (!channel) {
+      throw new Error(`No ${channelType} channel registered`);
+    }
+    if (!channel.sendCommunication) {
+      throw new Error(`The ${channelType} channel cannot send communications`);
+    }
+
+    try {
+      const messageId = await channel.sendCommunication(communication);
+      this.emit('communication-sent', { channelType, messageId, communication });
+      return messageId;
+    } catch (error) {
+      this.handleError('Failed to send communication', error);
+      throw error;
+    }
+  }
+
   /**
    * Search communications across all channels
    */
@@ -84,6 +145,27 @@ export class CommunicationManager extends EventEmitter {
     return await this.discoveryEngine.exportForDiscovery(request);
   }
 
+  /**
+   * Open privilege reviews, optionally for one reviewer
+   */
+  async getPrivilegeReviewQueue(reviewerId?: string): Promise<PrivilegeDecision[]> {
+    return await this.privilegeManager.getReviewQueue(reviewerId);
+  }
+
+  /**
+   * Record an attorney's privilege decision on a queued communication
+   */
+  async recordPrivilegeReview(communicationId: string, review: PrivilegeReview): Promise<PrivilegeDecision> {
+    return await this.privilegeManager.recordReview(communicationId, review);
+  }
+
+  /**
+   * Privilege log for a production, from the stored privilege decisions
+   */
+  async getPrivilegeLog(production: PrivilegeLogProduction): Promise<PrivilegeLog> {
+    return await generatePrivilegeLog(production, this.privilegeManager);
+  }
+
   /**
    * Start real-time monitoring
    */
@@ -98,6 +180,20 @@ export class CommunicationManager extends EventEmitter {
     this.monitoringService.stopMonitoring(caseId);
   }
 
+  /**
+   * Monitoring alerts, newest first
+   */
+  async getMonitoringAlerts(filter?: MonitoringAlertFilter): Promise<MonitoringAlert[]> {
+    return await this.monitoringService.getAlerts(filter);
+  }
+
+  /**
+   * Acknowledge a monitoring alert so it is no longer escalated
+   */
+  async acknowledgeAlert(alertId: string, userId: string): Promise<MonitoringAlert> {
+    return await this.monitoringService.acknowledgeAlert(alertId, userId);
+  }
+
   private async handleCommunication(data: CommunicationData): Promise<void> {
     try {
       const communication: CommunicationRecord = {
@@ -124,18 +220,11 @@ export class CommunicationManager extends EventEmitter {
     return {
       sensitivity: 'medium',
       category: data.type,
-      requiresReview: this.requiresLegalReview(data),
+      requiresReview: await this.privilegeManager.requiresReview(data),
       tags: await this.extractTags(data)
     };
   }
 
-  private requiresLegalReview(data: CommunicationData): boolean {
-    // Check for attorney-client privilege indicators
-    const sensitiveKeywords = ['attorney', 'lawyer', 'confidential', 'privileged'];
-    const content = data.content.toLowerCase();
-    return sensitiveKeywords.some(keyword => content.includes(keyword));
-  }
-
   private async extractTags(data: CommunicationData): Promise<string[]> {
     // Extract relevant tags from communication content
     return [];
@@ -153,8 +242,9 @@ export class CommunicationManager extends EventEmitter {
     this.on('communication-logged', this.handleCommunicationLogged.bind(this));
   }
 
-  private handleCommunicationLogged(event: any): void {
-    // Handle post-logging activities
+  private handleCommunicationLogged(event: { id: string; communication: CommunicationRecord }): void {
+    this.discoveryEngine.indexCommunication(event.communication, event.id)
+      .catch(error => this.handleError('Failed to index communication', error));
   }
 
   private handleChannelError(error: Error): void {
@@ -172,6 +262,17 @@ export interface CommunicationManagerConfig {
   discovery: DiscoveryEngineConfig;
   monitoring: MonitoringServiceConfig;
   database: DatabaseConfig;
+  holdNotices?: HoldNoticeDispatcherOptions & { intervalMs?: number };
+}
+
+export interface CommunicationManagerDependencies {
+  privilegeStore?: PrivilegeDecisionStore;
+  counselDirectory?: CounselDirectory;
+  attachmentText?: AttachmentTextExtractor;
+  alertStore?: MonitoringAlertStore;
+  alertBroadcaster?: AlertBroadcaster; // e.g. the socket.io server
+  sentimentScorer?: SentimentScorer;
+  holdNoticeOutbox?: HoldNoticeOutbox; // e.g. HttpHoldNoticeOutbox, to deliver legal hold notices
 }
 
 export interface CommunicationRecord {
@@ -266,12 +367,14 @@ export interface SearchResults {
   communications: CommunicationRecord[];
   total: number;
   facets: SearchFacets;
+  highlights?: Record<string, string>; // Snippet per communication ID, matches in <mark>
 }
 
 export interface TimelineEntry {
   communication: CommunicationRecord;
   relatedCommunications: string[];
   context: TimelineContext;
+  period?: string; // Day (2024-03-15), ISO week (2024-W11) or month (2024-03) when grouped
 }
 
 export interface DiscoveryRequest {
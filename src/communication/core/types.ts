@@ -146,9 +146,16 @@ export interface ExportMetadata {
 }
 
 export interface PrivilegeLogEntry {
+  entryNumber: number;
   communicationId: string;
+  date: Date; // When the communication was sent or took place
+  communicationType: CommunicationType;
+  author: string;
+  recipients: string[];
   status: PrivilegeStatus;
-  reason: string;
+  privilegeType: string; // e.g. Attorney-Client Privilege
+  treatment: 'withheld' | 'redacted';
+  reason: string; // Basis for the claim, without revealing privileged content
   reviewedBy: string;
   reviewDate: Date;
 }
@@ -199,12 +206,16 @@ export interface MonitoringAlert {
   caseId: string;
   communicationId: string;
   rule: string;
+  ruleType: MonitoringRuleType;
+  action: AlertAction;
   severity: AlertSeverity;
   message: string;
   participants: string[];
   acknowledged: boolean;
   acknowledgedBy?: string;
   acknowledgedAt?: Date;
+  escalatedTo?: string[];
+  escalatedAt?: Date;
 }
 
 export type CommunicationType = 'email' | 'call' | 'meeting' | 'letter' | 'sms' | 'chat' | 'video_call' | 'court_filing' | 'voicemail' | 'fax';
@@ -212,6 +223,7 @@ export type RecipientType = 'to' | 'cc' | 'bcc';
 export type Priority = 'low' | 'normal' | 'high' | 'urgent';
 export type AlertSeverity = 'info' | 'warning' | 'error' | 'critical';
 export type AlertAction = 'log' | 'notify' | 'block' | 'escalate';
+export type MonitoringRuleType = 'keyword' | 'participant' | 'pattern' | 'volume' | 'sentiment';
 
 // Database interfaces
 export interface DatabaseConfig {
@@ -279,6 +291,7 @@ export interface ExportConfig {
   maxFileSize: number; // MB
   compressionEnabled: boolean;
   watermarking: boolean;
+  directory?: string; // Where export files are written; defaults to the system temp directory
 }
 
 // Monitoring interfaces
@@ -0,0 +1,548 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import {
+  DateFacet,
+  DiscoveryEngineConfig,
+  FacetCount,
+  PrivilegeLogEntry,
+  SearchFacets,
+  TimelineContext,
+  TimelineOptions
+} from '../core/types';
+import {
+  Attachment,
+  CommunicationRecord,
+  DiscoveryRequest,
+  ExportResult,
+  Participant,
+  SearchQuery,
+  SearchResults,
+  TimelineEntry
+} from '../core/communication-manager';
+import { generatePrivilegeLog, PrivilegeDecisionSource, renderPrivilegeLog } from './privilege-log';
+import { encodePdf, PDF, pdfText, wrapText } from './pdf-writer';
+import { InvertedIndex, parseQuery, QueryNode, queryWords, tokenize } from './search-index';
+
+const PRIVILEGED_STATUSES = new Set(['privileged', 'work_product']);
+const TOP_FACETS = 20;
+const SNIPPET_CONTEXT = 80;
+
+// Concordance load file delimiters
+const DAT_FIELD = '\u0014';
+const DAT_QUOTE = '\u00fe';
+const DAT_NEWLINE = '\u00ae';
+
+/**
+ * Discovery Engine
+ * Keeps an embedded full-text index of logged communications for search,
+ * builds case timelines and produces discovery exports with a privilege log
+ */
+export class DiscoveryEngine {
+  private index: InvertedIndex;
+  private records: Map<string, CommunicationRecord> = new Map();
+  private pending: Array<{ communication: CommunicationRecord; id: string }> = [];
+
+  constructor(
+    private config: DiscoveryEngineConfig,
+    private privilege?: PrivilegeSource,
+    private attachmentText?: AttachmentTextExtractor
+  ) {
+    this.index = new InvertedIndex({
+      stemming: config.search.stemming,
+      fuzzy: config.search.fuzzySearch,
+      synonyms: config.search.synonyms
+    });
+  }
+
+  /**
+   * Add or replace a communication in the index. Outside real-time mode,
+   * communications are indexed once a batch has built up.
+   */
+  async indexCommunication(communication: CommunicationRecord, id: string): Promise<void> {
+    if (!this.config.indexing.enabled) {
+      return;
+    }
+
+    this.pending.push({ communication, id });
+    if (this.config.indexing.realTime || this.pending.length >= this.config.indexing.batchSize) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Index everything waiting for a batch
+   */
+  async flush(): Promise<void> {
+    const batch = this.pending.splice(0, this.pending.length);
+    for (const { communication, id } of batch) {
+      this.index.add(id, {
+        subject: communication.content.subject || '',
+        body: communication.content.body,
+        participants: communication.participants.map(participantText).join('\n'),
+        attachments: await this.attachmentsText(communication.attachments)
+      });
+      this.records.set(id, communication);
+    }
+  }
+
+  removeCommunication(id: string): void {
+    this.pending = this.pending.filter(entry => entry.id !== id);
+    this.index.remove(id);
+    this.records.delete(id);
+  }
+
+  /**
+   * Search with the query language of parseQuery plus filters. Facets cover
+   * every match; results are ranked by relevance when there are terms, else newest first.
+   */
+  async search(query: SearchQuery): Promise<SearchResults> {
+    await this.flush();
+
+    const node = parseQuery(query.terms || '');
+    const matches = [...this.index.search(node)]
+      .map(([id, score]) => ({ id, score, communication: this.records.get(id)! }))
+      .filter(match => matchesFilters(match.communication, query))
+      .sort((a, b) => (query.terms ? b.score - a.score : 0) ||
+        b.communication.timestamp.getTime() - a.communication.timestamp.getTime());
+
+    const limit = Math.min(query.limit ?? this.config.search.maxResults, this.config.search.maxResults);
+    const offset = query.offset ?? 0;
+    const page = matches.slice(offset, offset + limit);
+
+    const results: SearchResults = {
+      communications: page.map(match => match.communication),
+      total: matches.length,
+      facets: buildFacets(matches.map(match => match.communication))
+    };
+
+    if (this.config.search.highlightEnabled && query.terms) {
+      results.highlights = Object.fromEntries(
+        page.map(match => [match.communication.id, this.highlight(match.communication, node)])
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * A case's communications in date order, each with its thread and context
+   */
+  async getTimeline(caseId: string, options: TimelineOptions = {}): Promise<TimelineEntry[]> {
+    await this.flush();
+
+    let communications = [...this.records.values()]
+      .filter(communication => communication.caseId === caseId)
+      .filter(communication => !options.participantFilter?.length ||
+        hasParticipant(communication.participants, options.participantFilter))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (options.maxEntries && communications.length > options.maxEntries) {
+      communications = communications.slice(-options.maxEntries);
+    }
+
+    const periods = new Map<string, CommunicationRecord[]>();
+    if (options.groupBy) {
+      for (const communication of communications) {
+        const key = periodKey(communication.timestamp, options.groupBy);
+        periods.set(key, [...(periods.get(key) ?? []), communication]);
+      }
+    }
+
+    const includeContext = options.includeContext !== false;
+    return communications.map(communication => {
+      const period = options.groupBy ? periodKey(communication.timestamp, options.groupBy) : undefined;
+      const group = period ? periods.get(period)! : [communication];
+
+      return {
+        communication,
+        relatedCommunications: includeContext ? relatedIn(communication, communications) : [],
+        context: timelineContext(communication, group, includeContext),
+        ...(period && { period })
+      };
+    });
+  }
+
+  /**
+   * Write a discovery production. Excluding privilege withholds privileged and
+   * work-product communications (or produces them redacted) and serves the
+   * privilege log with it; the export fails while any privilege review is open.
+   */
+  async exportForDiscovery(request: DiscoveryRequest): Promise<ExportResult> {
+    if (!this.config.export.formats.includes(request.format)) {
+      throw new Error(`Export format ${request.format} is not enabled`);
+    }
+    await this.flush();
+
+    const exportId = crypto.randomUUID();
+    const selected = this.selectForExport(request);
+
+    let produced: Array<{ id: string; communication: CommunicationRecord; redacted: boolean }>;
+    let privilegeLog: PrivilegeLogEntry[] = [];
+    const files: Array<{ name: string; content: Buffer }> = [];
+
+    if (request.privilegeFilter === 'exclude_privileged') {
+      if (!this.privilege) {
+        throw new Error('Privilege decisions are required to withhold privileged communications');
+      }
+
+      const log = await generatePrivilegeLog(
+        { productionId: exportId, caseId: request.caseId, communications: selected.map(entry => entry.communication) },
+        this.privilege
+      );
+      if (log.issues.length > 0) {
+        throw new Error(`Cannot export: privilege log has ${log.issues.length} issue(s), e.g. ${log.issues[0]!.code} for ${log.issues[0]!.communicationId}`);
+      }
+
+      const withheld = new Set(log.withheldIds);
+      const redacted = new Set(log.redactedIds);
+      produced = selected
+        .filter(entry => !withheld.has(entry.communication.id))
+        .map(entry => redacted.has(entry.communication.id)
+          ? { id: entry.id, communication: this.privilege!.redact(entry.communication), redacted: true }
+          : { ...entry, redacted: false });
+
+      privilegeLog = log.entries;
+      files.push(
+        { name: 'privilege-log.csv', content: renderPrivilegeLog(log, 'csv').content },
+        { name: 'privilege-log.pdf', content: renderPrivilegeLog(log, 'pdf').content }
+      );
+    } else {
+      produced = selected
+        .filter(entry => request.privilegeFilter !== 'privileged_only' ||
+          PRIVILEGED_STATUSES.has(entry.communication.privilegeStatus))
+        .map(entry => ({ ...entry, redacted: false }));
+    }
+
+    files.unshift(...this.renderProduction(exportId, produced, request.format));
+    const written = await this.writeExport(exportId, files);
+
+    return {
+      exportId,
+      files: written.map(file => file.path),
+      metadata: {
+        totalCommunications: produced.length,
+        dateRange: request.dateRange,
+        exportDate: new Date(),
+        format: request.format,
+        hash: crypto.createHash('sha256')
+          .update(written.map(file => `${path.basename(file.path)}:${file.hash}\n`).join(''))
+          .digest('hex'),
+        privilegeLog
+      }
+    };
+  }
+
+  private selectForExport(request: DiscoveryRequest): Array<{ id: string; communication: CommunicationRecord }> {
+    const keywords = (request.keywords || []).map(keyword => `"${keyword.replace(/"/g, '')}"`);
+    const matching = this.index.search(keywords.length > 0 ? parseQuery(keywords.join(' OR ')) : { type: 'all' });
+
+    return [...matching.keys()]
+      .map(id => ({ id, communication: this.records.get(id)! }))
+      .filter(({ communication }) =>
+        communication.caseId === request.caseId &&
+        communication.timestamp >= request.dateRange.start &&
+        communication.timestamp <= request.dateRange.end &&
+        (!request.participants?.length || hasParticipant(communication.participants, request.participants))
+      )
+      .sort((a, b) => a.communication.timestamp.getTime() - b.communication.timestamp.getTime());
+  }
+
+  private renderProduction(
+    exportId: string,
+    produced: Array<{ id: string; communication: CommunicationRecord; redacted: boolean }>,
+    format: DiscoveryRequest['format']
+  ): Array<{ name: string; content: Buffer }> {
+    switch (format) {
+      case 'native':
+        return [{
+          name: 'communications.jsonl',
+          content: Buffer.from(produced.map(entry => JSON.stringify({ ...entry.communication, id: entry.id, redacted: entry.redacted })).join('\n') + '\n', 'utf8')
+        }];
+      case 'pdf':
+        return [{ name: 'communications.pdf', content: this.productionPdf(exportId, produced) }];
+      case 'load_file': {
+        const header = ['DOCID', 'DATE', 'TYPE', 'FROM', 'TO', 'SUBJECT', 'PRIVILEGE', 'REDACTED', 'TEXTPATH'];
+        const rows = produced.map(({ id, communication, redacted }) => {
+          const [author, ...recipients] = communication.participants;
+          return [
+            id,
+            communication.timestamp.toISOString(),
+            communication.type,
+            author ? participantText(author) : '',
+            recipients.map(participantText).join('; '),
+            communication.content.subject || '',
+            communication.privilegeStatus,
+            redacted ? 'Y' : 'N',
+            `TEXT\\${id}.txt`
+          ];
+        });
+        const dat = [header, ...rows]
+          .map(row => row.map(value => `${DAT_QUOTE}${value.replace(/\r?\n/g, DAT_NEWLINE)}${DAT_QUOTE}`).join(DAT_FIELD))
+          .join('\r\n');
+
+        return [
+          { name: 'communications.dat', content: Buffer.from(`\ufeff${dat}\r\n`, 'utf8') },
+          ...produced.map(({ id, communication }) => ({
+            name: path.join('TEXT', `${id}.txt`),
+            content: Buffer.from(communication.content.body, 'utf8')
+          }))
+        ];
+      }
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  private productionPdf(
+    exportId: string,
+    produced: Array<{ id: string; communication: CommunicationRecord; redacted: boolean }>
+  ): Buffer {
+    const width = PDF.width - 2 * PDF.margin;
+    const pages: string[][] = [];
+    let lines: string[] = [];
+    let y = PDF.top;
+
+    const write = (text: string) => {
+      for (const line of text.split('\n').flatMap(paragraph => wrapText(paragraph, width))) {
+        if (y < PDF.bottom) {
+          pages.push(lines);
+          lines = [];
+          y = PDF.top;
+        }
+        lines.push(pdfText(PDF.margin, y, line, PDF.fontSize));
+        y -= PDF.lineHeight;
+      }
+    };
+
+    for (const { id, communication, redacted } of produced) {
+      const [author, ...recipients] = communication.participants;
+      write(`${id} | ${communication.timestamp.toISOString()} | ${communication.type}${redacted ? ' | REDACTED FOR PRIVILEGE' : ''}`);
+      write(`From: ${author ? participantText(author) : ''}`);
+      write(`To: ${recipients.map(participantText).join('; ')}`);
+      write(`Subject: ${communication.content.subject || ''}`);
+      write(communication.content.body);
+      y -= PDF.lineHeight;
+    }
+    if (produced.length === 0) {
+      write('No communications were produced.');
+    }
+    pages.push(lines);
+
+    return encodePdf(pages.map((content, index) => [
+      ...content,
+      ...(this.config.export.watermarking
+        ? [pdfText(PDF.margin, PDF.bottom - 16, `CONFIDENTIAL - Discovery export ${exportId}`, PDF.fontSize)]
+        : []),
+      pdfText(PDF.width - PDF.margin - 60, PDF.bottom - 16, `Page ${index + 1} of ${pages.length}`, PDF.fontSize)
+    ].join('\n')));
+  }
+
+  private async writeExport(
+    exportId: string,
+    files: Array<{ name: string; content: Buffer }>
+  ): Promise<Array<{ path: string; hash: string }>> {
+    const maxBytes = this.config.export.maxFileSize * 1024 * 1024;
+    const prepared = files.map(file => this.config.export.compressionEnabled
+      ? { name: `${file.name}.gz`, content: zlib.gzipSync(file.content) }
+      : file);
+
+    const oversized = prepared.find(file => file.content.length > maxBytes);
+    if (oversized) {
+      throw new Error(`${oversized.name} exceeds the ${this.config.export.maxFileSize} MB export file limit; narrow the request`);
+    }
+
+    const directory = path.join(this.config.export.directory || path.join(os.tmpdir(), 'discovery-exports'), exportId);
+    const written: Array<{ path: string; hash: string }> = [];
+    for (const file of prepared) {
+      const target = path.join(directory, file.name);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content);
+      written.push({ path: target, hash: crypto.createHash('sha256').update(file.content).digest('hex') });
+    }
+    return written;
+  }
+
+  private async attachmentsText(attachments: Attachment[]): Promise<string> {
+    const parts: string[] = [];
+    for (const attachment of attachments) {
+      parts.push(attachment.name);
+      if (this.config.indexing.contentExtraction && this.attachmentText) {
+        try {
+          parts.push(await this.attachmentText.extractText(attachment, { ocr: this.config.indexing.ocrEnabled }));
+        } catch {
+          // Unreadable attachments stay findable by name
+        }
+      }
+    }
+    return parts.join('\n');
+  }
+
+  private highlight(communication: CommunicationRecord, node: QueryNode): string {
+    const options = { stemming: this.config.search.stemming };
+    const terms = new Set(queryWords(node).flatMap(word => this.index.expand(word.replace(/\*$/, ''), false)));
+
+    for (const text of [communication.content.body, communication.content.subject || '']) {
+      const hits = tokenize(text, options).filter(token => terms.has(token.term));
+      if (hits.length === 0) {
+        continue;
+      }
+
+      const start = Math.max(0, hits[0]!.start - SNIPPET_CONTEXT);
+      const end = Math.min(text.length, hits[0]!.end + SNIPPET_CONTEXT);
+      let snippet = '';
+      let cursor = start;
+      for (const hit of hits.filter(token => token.start >= start && token.end <= end)) {
+        snippet += `${escapeHtml(text.slice(cursor, hit.start))}<mark>${escapeHtml(text.slice(hit.start, hit.end))}</mark>`;
+        cursor = hit.end;
+      }
+      snippet += escapeHtml(text.slice(cursor, end));
+      return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+    }
+
+    return escapeHtml(communication.content.body.slice(0, SNIPPET_CONTEXT * 2));
+  }
+}
+
+function matchesFilters(communication: CommunicationRecord, query: SearchQuery): boolean {
+  return (!query.caseId || communication.caseId === query.caseId) &&
+    (!query.dateRange || (communication.timestamp >= query.dateRange.start && communication.timestamp <= query.dateRange.end)) &&
+    (!query.communicationType?.length || query.communicationType.includes(communication.type)) &&
+    (!query.privilegeStatus?.length || query.privilegeStatus.includes(communication.privilegeStatus)) &&
+    (!query.tags?.length || query.tags.some(tag => communication.classification.tags.includes(tag))) &&
+    (!query.participants?.length || hasParticipant(communication.participants, query.participants));
+}
+
+/**
+ * Participants are matched by ID or email address
+ */
+function hasParticipant(participants: Participant[], wanted: string[]): boolean {
+  const keys = new Set(wanted.map(value => value.toLowerCase()));
+  return participants.some(participant =>
+    keys.has(participant.id.toLowerCase()) || (participant.email !== undefined && keys.has(participant.email.toLowerCase()))
+  );
+}
+
+function participantText(participant: Participant): string {
+  return [participant.name, participant.email && `<${participant.email}>`, participant.organization && `(${participant.organization})`]
+    .filter(Boolean)
+    .join(' ');
+}
+
+export function buildFacets(communications: CommunicationRecord[]): SearchFacets {
+  const count = (values: string[]): FacetCount[] => {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    return [...counts]
+      .map(([value, total]) => ({ value, count: total }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, TOP_FACETS);
+  };
+
+  const months = new Map<string, number>();
+  communications.forEach(communication => {
+    const key = periodKey(communication.timestamp, 'month');
+    months.set(key, (months.get(key) ?? 0) + 1);
+  });
+  const dates: DateFacet[] = [...months]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, total]) => ({ period: 'month', date: new Date(`${key}-01T00:00:00Z`), count: total }));
+
+  return {
+    types: count(communications.map(communication => communication.type)),
+    participants: count(communications.flatMap(communication =>
+      [...new Set(communication.participants.map(participant => participant.email?.toLowerCase() || participant.name))]
+    )),
+    dates,
+    tags: count(communications.flatMap(communication => communication.classification.tags)),
+    privilegeStatus: count(communications.map(communication => communication.privilegeStatus))
+  };
+}
+
+/**
+ * UTC period label: 2024-03-15, 2024-W11 (ISO week) or 2024-03
+ */
+export function periodKey(date: Date, groupBy: 'day' | 'week' | 'month'): string {
+  if (groupBy === 'day') {
+    return date.toISOString().slice(0, 10);
+  }
+  if (groupBy === 'month') {
+    return date.toISOString().slice(0, 7);
+  }
+
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const firstThursday = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 4));
+  const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getUTCDay() + 6) % 7)) / 7);
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Other communications in the same thread, or linked by reply or forward
+ */
+function relatedIn(communication: CommunicationRecord, communications: CommunicationRecord[]): string[] {
+  const { threadId, replyTo, forwardedFrom } = communication.metadata;
+  return communications
+    .filter(other => other.id !== communication.id && (
+      (threadId && other.metadata.threadId === threadId) ||
+      other.id === replyTo || other.id === forwardedFrom ||
+      other.metadata.replyTo === communication.id || other.metadata.forwardedFrom === communication.id
+    ))
+    .map(other => other.id);
+}
+
+const IMPORTANCE: TimelineContext['importance'][] = ['low', 'medium', 'high', 'critical'];
+const PRIORITY_IMPORTANCE: Record<string, TimelineContext['importance']> = {
+  low: 'low', medium: 'medium', high: 'high', urgent: 'critical'
+};
+
+function timelineContext(
+  communication: CommunicationRecord,
+  group: CommunicationRecord[],
+  includeContext: boolean
+): TimelineContext {
+  const importance = IMPORTANCE[Math.max(
+    IMPORTANCE.indexOf(PRIORITY_IMPORTANCE[communication.metadata.priority] ?? 'medium'),
+    IMPORTANCE.indexOf(communication.classification.sensitivity)
+  )]!;
+  const summary = communication.content.subject ||
+    communication.content.body.replace(/\s+/g, ' ').trim().slice(0, 120);
+
+  if (!includeContext) {
+    return { summary, keyParticipants: [], relatedEvents: [], importance };
+  }
+
+  const frequency = new Map<string, number>();
+  group.flatMap(member => member.participants).forEach(participant =>
+    frequency.set(participant.name, (frequency.get(participant.name) ?? 0) + 1)
+  );
+
+  return {
+    summary,
+    keyParticipants: [...frequency].sort((a, b) => b[1] - a[1]).slice(0, 5).map(([name]) => name),
+    relatedEvents: group.filter(member => member.id !== communication.id).map(member => member.id),
+    importance
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Supporting interfaces
+
+/**
+ * Privilege decisions and redaction; PrivilegeManager satisfies this
+ */
+export interface PrivilegeSource extends PrivilegeDecisionSource {
+  redact(communication: CommunicationRecord): CommunicationRecord;
+}
+
+/**
+ * Text of an attachment for indexing, e.g. from a document conversion service
+ */
+export interface AttachmentTextExtractor {
+  extractText(attachment: Attachment, options: { ocr: boolean }): Promise<string>;
+}
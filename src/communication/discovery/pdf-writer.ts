@@ -0,0 +1,98 @@
+/**
+ * Minimal single-font PDF writer for tabular reports
+ * Landscape US Letter, Helvetica; text outside Latin-1 is replaced with "?"
+ */
+
+export const PDF = {
+  width: 792,
+  height: 612,
+  margin: 18,
+  top: 580,
+  bottom: 40,
+  fontSize: 7,
+  lineHeight: 9,
+  charWidth: 3.6 // Average Helvetica advance at the body font size
+};
+
+/**
+ * Break text into lines that fit a column width in points
+ */
+export function wrapText(text: string, width: number): string[] {
+  const perLine = Math.max(1, Math.floor(width / PDF.charWidth));
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    for (let start = 0; start < word.length; start += perLine) {
+      const piece = word.slice(start, start + perLine);
+      if (!current) {
+        current = piece;
+      } else if (current.length + 1 + piece.length <= perLine) {
+        current += ` ${piece}`;
+      } else {
+        lines.push(current);
+        current = piece;
+      }
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Content-stream operators drawing one line of text
+ */
+export function pdfText(x: number, y: number, text: string, size: number): string {
+  const escaped = text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+  return `BT /F1 ${size} Tf ${x} ${y} Td (${escaped}) Tj ET`;
+}
+
+/**
+ * Assemble a PDF from one content stream per page
+ */
+export function encodePdf(contents: string[]): Buffer {
+  const pageIds = contents.map((_, index) => 4 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${contents.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  ];
+
+  contents.forEach((content, index) => {
+    const stream = Buffer.from(`0.5 w\n${content}\n`, 'latin1');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF.width} ${PDF.height}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index]! + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream.toString('latin1')}endstream`);
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0]!.length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    const chunk = Buffer.from(`${index + 1} 0 obj\n${body}\nendobj\n`, 'latin1');
+    offsets.push(offset);
+    offset += chunk.length;
+    chunks.push(chunk);
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    ''
+  ].join('\n');
+  chunks.push(Buffer.from(xref, 'latin1'));
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,319 @@
+import { PrivilegeLogEntry } from '../core/types';
+import { CommunicationRecord, Participant, PrivilegeStatus } from '../core/communication-manager';
+import { PrivilegeDecision } from '../security/privilege-manager';
+import { encodePdf, PDF, pdfText, wrapText } from './pdf-writer';
+
+const PRIVILEGE_TYPES: Partial<Record<PrivilegeStatus, string>> = {
+  privileged: 'Attorney-Client Privilege',
+  work_product: 'Attorney Work Product'
+};
+
+const CSV_HEADER = [
+  'Entry', 'Date', 'Type', 'Author', 'Recipients', 'Privilege', 'Treatment', 'Basis', 'Reviewed By', 'Review Date', 'Communication ID'
+];
+
+/**
+ * Build the privilege log for a production from the stored privilege decisions.
+ * Privileged and work-product communications are withheld, or produced redacted
+ * when their decision calls for redaction; each gets one log entry. Anything
+ * that keeps the log from being complete is reported in issues.
+ */
+export async function generatePrivilegeLog(
+  production: PrivilegeLogProduction,
+  decisions: PrivilegeDecisionSource
+): Promise<PrivilegeLog> {
+  const entries: PrivilegeLogEntry[] = [];
+  const withheldIds: string[] = [];
+  const redactedIds: string[] = [];
+  const issues: PrivilegeLogIssue[] = [];
+
+  const ordered = [...production.communications].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  for (const communication of ordered) {
+    const decision = await decisions.getDecision(communication.id);
+
+    if (!decision) {
+      issues.push({ code: 'UNDECIDED', communicationId: communication.id, message: 'No privilege decision recorded' });
+      continue;
+    }
+    if (decision.status === 'pending') {
+      issues.push({ code: 'PENDING_REVIEW', communicationId: communication.id, message: 'Privilege review is still open' });
+      continue;
+    }
+    if (!PRIVILEGE_TYPES[decision.status]) {
+      continue;
+    }
+
+    const treatment = decisions.shouldRedact(decision) ? 'redacted' : 'withheld';
+    (treatment === 'redacted' ? redactedIds : withheldIds).push(communication.id);
+    entries.push(toLogEntry(entries.length + 1, communication, decision, treatment));
+  }
+
+  const log: PrivilegeLog = {
+    productionId: production.productionId,
+    caseId: production.caseId,
+    generatedAt: new Date(),
+    entries,
+    withheldIds,
+    redactedIds,
+    issues
+  };
+  log.issues.push(...checkPrivilegeLog(log));
+  return log;
+}
+
+/**
+ * Consistency checks: every withheld or redacted communication has exactly one
+ * complete entry, and nothing else is logged
+ */
+export function checkPrivilegeLog(log: Pick<PrivilegeLog, 'entries' | 'withheldIds' | 'redactedIds'>): PrivilegeLogIssue[] {
+  const issues: PrivilegeLogIssue[] = [];
+  const expected = new Map<string, 'withheld' | 'redacted'>([
+    ...log.withheldIds.map(id => [id, 'withheld'] as const),
+    ...log.redactedIds.map(id => [id, 'redacted'] as const)
+  ]);
+  const logged = new Map<string, number>();
+
+  for (const entry of log.entries) {
+    logged.set(entry.communicationId, (logged.get(entry.communicationId) ?? 0) + 1);
+
+    const treatment = expected.get(entry.communicationId);
+    if (!treatment) {
+      issues.push({ code: 'UNEXPECTED_ENTRY', communicationId: entry.communicationId, message: 'Logged but not withheld or redacted' });
+    } else if (treatment !== entry.treatment) {
+      issues.push({ code: 'TREATMENT_MISMATCH', communicationId: entry.communicationId, message: `Logged as ${entry.treatment} but ${treatment}` });
+    }
+
+    const missing = [
+      !entry.date || isNaN(entry.date.getTime()) ? 'date' : '',
+      entry.author ? '' : 'author',
+      entry.recipients.length > 0 ? '' : 'recipients',
+      entry.privilegeType ? '' : 'privilege type',
+      entry.reason.trim() ? '' : 'basis'
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      issues.push({ code: 'INCOMPLETE_ENTRY', communicationId: entry.communicationId, message: `Missing ${missing.join(', ')}` });
+    }
+  }
+
+  for (const communicationId of expected.keys()) {
+    const count = logged.get(communicationId) ?? 0;
+    if (count === 0) {
+      issues.push({ code: 'MISSING_ENTRY', communicationId, message: 'Withheld without a log entry' });
+    } else if (count > 1) {
+      issues.push({ code: 'DUPLICATE_ENTRY', communicationId, message: `Logged ${count} times` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Serialize a privilege log. A log with issues is incomplete and cannot be served.
+ */
+export function renderPrivilegeLog(log: PrivilegeLog, format: PrivilegeLogFormat): RenderedPrivilegeLog {
+  if (log.issues.length > 0) {
+    throw new Error(`Privilege log for production ${log.productionId} is incomplete: ${log.issues.length} issue(s)`);
+  }
+
+  const name = `privilege-log-${log.productionId}`;
+  switch (format) {
+    case 'csv':
+      return { content: Buffer.from(privilegeLogToCsv(log), 'utf8'), mimeType: 'text/csv', filename: `${name}.csv` };
+    case 'excel_csv':
+      return { content: Buffer.from(privilegeLogToExcelCsv(log), 'utf8'), mimeType: 'text/csv', filename: `${name}.xlsx.csv` };
+    case 'pdf':
+      return { content: privilegeLogToPdf(log), mimeType: 'application/pdf', filename: `${name}.pdf` };
+    default:
+      throw new Error(`Unsupported privilege log format: ${format}`);
+  }
+}
+
+/**
+ * RFC 4180 CSV, ISO-8601 timestamps
+ */
+export function privilegeLogToCsv(log: PrivilegeLog): string {
+  const rows = log.entries.map(entry => logRow(entry, date => date.toISOString()));
+  return [CSV_HEADER, ...rows].map(row => row.map(value => csvCell(value)).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * CSV that spreadsheet applications open cleanly: a UTF-8 byte order mark so
+ * names keep their accents, plain dates, and cells that would start a formula
+ * neutralized
+ */
+export function privilegeLogToExcelCsv(log: PrivilegeLog): string {
+  const rows = log.entries.map(entry => logRow(entry, isoDate));
+  return '\ufeff' + [CSV_HEADER, ...rows].map(row => row.map(value => csvCell(value, true)).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Landscape table with the production on every page; attorneys are starred
+ */
+export function privilegeLogToPdf(log: PrivilegeLog): Buffer {
+  const columns = [
+    { title: 'No.', width: 28 },
+    { title: 'Date', width: 56 },
+    { title: 'Type', width: 48 },
+    { title: 'Author', width: 100 },
+    { title: 'Recipients', width: 140 },
+    { title: 'Privilege', width: 84 },
+    { title: 'Treatment', width: 50 },
+    { title: 'Basis', width: 206 }
+  ];
+  const rows = log.entries.map(entry => [
+    String(entry.entryNumber),
+    isoDate(entry.date),
+    entry.communicationType,
+    entry.author,
+    entry.recipients.join('; '),
+    entry.privilegeType,
+    entry.treatment,
+    entry.reason
+  ]);
+
+  const pages: string[][] = [];
+  let lines: string[] = [];
+  let y = PDF.top;
+
+  const header = () => {
+    lines = [];
+    y = PDF.top;
+    lines.push(pdfText(PDF.margin, y, `Privilege Log - Production ${log.productionId} - Case ${log.caseId}`, 11));
+    y -= 16;
+    lines.push(pdfText(PDF.margin, y, `Generated ${log.generatedAt.toISOString()}. * denotes an attorney.`, PDF.fontSize));
+    y -= 18;
+    let x = PDF.margin;
+    for (const column of columns) {
+      lines.push(pdfText(x, y, column.title, PDF.fontSize));
+      x += column.width;
+    }
+    y -= 4;
+    lines.push(`${PDF.margin} ${y} m ${PDF.width - PDF.margin} ${y} l S`);
+    y -= PDF.lineHeight;
+  };
+
+  header();
+  for (const row of rows) {
+    const cells = row.map((value, index) => wrapText(value, columns[index]!.width - 4));
+    const height = Math.max(...cells.map(cell => cell.length)) * PDF.lineHeight;
+
+    if (y - height < PDF.bottom) {
+      pages.push(lines);
+      header();
+    }
+
+    let x = PDF.margin;
+    cells.forEach((cell, index) => {
+      cell.forEach((text, line) => lines.push(pdfText(x, y - line * PDF.lineHeight, text, PDF.fontSize)));
+      x += columns[index]!.width;
+    });
+    y -= height + 4;
+  }
+  if (rows.length === 0) {
+    lines.push(pdfText(PDF.margin, y, 'No communications were withheld or redacted.', PDF.fontSize));
+  }
+  pages.push(lines);
+
+  return encodePdf(pages.map((content, index) => [
+    ...content,
+    pdfText(PDF.width - PDF.margin - 60, PDF.bottom - 16, `Page ${index + 1} of ${pages.length}`, PDF.fontSize)
+  ].join('\n')));
+}
+
+function toLogEntry(
+  entryNumber: number,
+  communication: CommunicationRecord,
+  decision: PrivilegeDecision,
+  treatment: 'withheld' | 'redacted'
+): PrivilegeLogEntry {
+  // Channels list the sender first
+  const [author, ...recipients] = communication.participants;
+
+  return {
+    entryNumber,
+    communicationId: communication.id,
+    date: communication.timestamp,
+    communicationType: communication.type,
+    author: author ? participantLabel(author) : '',
+    recipients: recipients.map(participantLabel),
+    status: decision.status,
+    privilegeType: PRIVILEGE_TYPES[decision.status] ?? '',
+    treatment,
+    // A reviewer's reason is the basis; rule reasons stand in when no review was needed
+    reason: decision.reviewedBy ? decision.reasons[decision.reasons.length - 1] ?? '' : decision.reasons.join('; '),
+    reviewedBy: decision.reviewedBy ?? '',
+    reviewDate: decision.reviewedAt ?? decision.decidedAt
+  };
+}
+
+function participantLabel(participant: Participant): string {
+  const name = participant.role === 'attorney' ? `${participant.name}*` : participant.name;
+  return participant.organization ? `${name} (${participant.organization})` : name;
+}
+
+function logRow(entry: PrivilegeLogEntry, formatDate: (date: Date) => string): Array<string | number> {
+  return [
+    entry.entryNumber,
+    formatDate(entry.date),
+    entry.communicationType,
+    entry.author,
+    entry.recipients.join('; '),
+    entry.privilegeType,
+    entry.treatment,
+    entry.reason,
+    entry.reviewedBy,
+    formatDate(entry.reviewDate),
+    entry.communicationId
+  ];
+}
+
+function csvCell(value: string | number, neutralizeFormulas: boolean = false): string {
+  let text = String(value);
+  if (neutralizeFormulas && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Supporting interfaces
+export interface PrivilegeLogProduction {
+  productionId: string;
+  caseId: string;
+  communications: CommunicationRecord[]; // Every communication responsive to the request
+}
+
+/**
+ * Where decisions come from; PrivilegeManager satisfies this
+ */
+export interface PrivilegeDecisionSource {
+  getDecision(communicationId: string): Promise<PrivilegeDecision | null>;
+  shouldRedact(decision: PrivilegeDecision): boolean;
+}
+
+export interface PrivilegeLog {
+  productionId: string;
+  caseId: string;
+  generatedAt: Date;
+  entries: PrivilegeLogEntry[];
+  withheldIds: string[];
+  redactedIds: string[];
+  issues: PrivilegeLogIssue[];
+}
+
+export interface PrivilegeLogIssue {
+  code: 'UNDECIDED' | 'PENDING_REVIEW' | 'MISSING_ENTRY' | 'DUPLICATE_ENTRY' | 'UNEXPECTED_ENTRY' | 'TREATMENT_MISMATCH' | 'INCOMPLETE_ENTRY';
+  communicationId: string;
+  message: string;
+}
+
+export interface RenderedPrivilegeLog {
+  content: Buffer;
+  mimeType: string;
+  filename: string;
+}
+
+export type PrivilegeLogFormat = 'csv' | 'excel_csv' | 'pdf';
@@ -0,0 +1,554 @@
+/**
+ * Embedded full-text index for communications
+ * A positional inverted index with boolean, phrase, proximity, prefix and
+ * fuzzy term queries. Fields share one position space, kept far apart so a
+ * phrase or proximity match never spans two fields.
+ */
+
+export const INDEX_FIELDS = ['subject', 'body', 'participants', 'attachments'] as const;
+export type IndexField = typeof INDEX_FIELDS[number];
+
+const FIELD_GAP = 1_000_000;
+const MAX_EXPANSIONS = 50;
+
+// Common legal-correspondence equivalents, used when synonym expansion is on
+const SYNONYMS: string[][] = [
+  ['attorney', 'lawyer', 'counsel', 'solicitor'],
+  ['agreement', 'contract'],
+  ['settlement', 'resolution'],
+  ['lawsuit', 'litigation', 'suit'],
+  ['deposition', 'testimony'],
+  ['document', 'record', 'file'],
+  ['meeting', 'conference'],
+  ['termination', 'dismissal', 'firing'],
+  ['payment', 'compensation', 'remittance']
+];
+
+export interface TokenizerOptions {
+  stemming: boolean;
+}
+
+export interface Token {
+  term: string;
+  position: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Lower-cased word tokens with their positions and character offsets
+ */
+export function tokenize(text: string, options: TokenizerOptions): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const word = match[0].toLowerCase().replace(/['’]s$/, '').replace(/['’]/g, '');
+    tokens.push({
+      term: options.stemming ? stem(word) : word,
+      position: tokens.length,
+      start: match.index,
+      end: match.index + match[0].length
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Light suffix stripping so inflected forms share a term (settled, settles, settling)
+ */
+export function stem(word: string): string {
+  if (word.length <= 4 || /\d/.test(word)) {
+    return word;
+  }
+
+  // Plural first, then verb endings: meetings -> meeting -> meet
+  const stages: Array<Array<[RegExp, string]>> = [
+    [[/ies$/, 'y'], [/(ss)es$/, '$1'], [/([^s])s$/, '$1']],
+    [[/ied$/, 'y'], [/(...)ed$/, '$1'], [/(...)ing$/, '$1']]
+  ];
+
+  let stemmed = word;
+  for (const rules of stages) {
+    const rule = rules.find(([pattern]) => pattern.test(stemmed));
+    if (rule) {
+      stemmed = stemmed.replace(rule[0], rule[1]);
+    }
+  }
+  // settl(ed), settl(ing) and settl(e) meet
+  return stemmed.length > 3 ? stemmed.replace(/e$/, '') : stemmed;
+}
+
+// Query AST
+
+export type QueryNode =
+  | { type: 'term'; term: string; field?: IndexField; prefix?: boolean }
+  | { type: 'phrase'; terms: string[]; field?: IndexField; slop?: number }
+  | { type: 'near'; left: string; right: string; distance: number; field?: IndexField }
+  | { type: 'and'; nodes: QueryNode[] }
+  | { type: 'or'; nodes: QueryNode[] }
+  | { type: 'not'; node: QueryNode }
+  | { type: 'all' };
+
+type QueryToken =
+  | { kind: 'word'; value: string; field?: IndexField; prefix: boolean }
+  | { kind: 'phrase'; value: string; field?: IndexField; slop?: number }
+  | { kind: 'and' | 'or' | 'not' | 'minus' | 'open' | 'close' }
+  | { kind: 'near'; distance: number };
+
+const FIELD_ALIASES: Record<string, IndexField> = {
+  subject: 'subject',
+  body: 'body',
+  participant: 'participants',
+  participants: 'participants',
+  attachment: 'attachments',
+  attachments: 'attachments'
+};
+
+/**
+ * Parse a query: implicit AND between clauses; AND, OR and NOT (upper case);
+ * "-term" to exclude; parentheses; "exact phrases"; "words within"~N;
+ * left NEAR/N right; prefix*; field:term for subject, body, participant and
+ * attachment. An empty query matches everything.
+ */
+export function parseQuery(query: string): QueryNode {
+  const tokens = lexQuery(query);
+  let index = 0;
+
+  const peek = () => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const nodes = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      index++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0]! : { type: 'or', nodes };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const nodes = [parseUnary()];
+    for (let token = peek(); token && token.kind !== 'or' && token.kind !== 'close'; token = peek()) {
+      if (token.kind === 'and') {
+        index++;
+      }
+      nodes.push(parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0]! : { type: 'and', nodes };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.kind === 'not' || token?.kind === 'minus') {
+      index++;
+      return { type: 'not', node: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index++];
+    if (!token) {
+      throw new Error('Unexpected end of query');
+    }
+
+    if (token.kind === 'open') {
+      const node = parseOr();
+      if (tokens[index++]?.kind !== 'close') {
+        throw new Error('Unbalanced parentheses in query');
+      }
+      return node;
+    }
+
+    if (token.kind === 'phrase') {
+      const terms = tokenize(token.value, { stemming: false }).map(part => part.term);
+      if (terms.length === 0) {
+        throw new Error('Empty phrase in query');
+      }
+      if (terms.length === 1) {
+        return { type: 'term', term: terms[0]!, ...(token.field && { field: token.field }) };
+      }
+      return {
+        type: 'phrase',
+        terms,
+        ...(token.field && { field: token.field }),
+        ...(token.slop !== undefined && { slop: token.slop })
+      };
+    }
+
+    if (token.kind === 'word') {
+      // non-disclosure is indexed as two words, so search it as a phrase
+      const parts = tokenize(token.value, { stemming: false }).map(part => part.term);
+      if (parts.length > 1 && !token.prefix) {
+        return { type: 'phrase', terms: parts, ...(token.field && { field: token.field }) };
+      }
+
+      const next = peek();
+      if (next?.kind === 'near') {
+        index++;
+        const right = tokens[index++];
+        if (right?.kind !== 'word') {
+          throw new Error('NEAR must join two words');
+        }
+        return {
+          type: 'near',
+          left: token.value,
+          right: right.value,
+          distance: next.distance,
+          ...(token.field && { field: token.field })
+        };
+      }
+      return {
+        type: 'term',
+        term: token.value,
+        ...(token.field && { field: token.field }),
+        ...(token.prefix && { prefix: true })
+      };
+    }
+
+    throw new Error(`Unexpected ${token.kind.toUpperCase()} in query`);
+  };
+
+  if (tokens.length === 0) {
+    return { type: 'all' };
+  }
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    throw new Error('Unbalanced parentheses in query');
+  }
+  return node;
+}
+
+function lexQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  const pattern = /\s+|(?:(\()|(\))|(?:(\w+):)?"([^"]*)"(?:~(\d+))?|NEAR\/(\d+)|(-)(?=\S)|(?:(\w+):)?([^\s()"]+))/gy;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < query.length) {
+    const at = pattern.lastIndex;
+    match = pattern.exec(query);
+    if (!match) {
+      throw new Error(`Cannot parse query at: ${query.slice(at)}`);
+    }
+    const [, open, close, phraseField, phrase, slop, near, minus, wordField, word] = match;
+
+    if (open) {
+      tokens.push({ kind: 'open' });
+    } else if (close) {
+      tokens.push({ kind: 'close' });
+    } else if (phrase !== undefined) {
+      const field = resolveField(phraseField);
+      tokens.push({
+        kind: 'phrase',
+        value: phrase,
+        ...(field && { field }),
+        ...(slop !== undefined && { slop: parseInt(slop, 10) })
+      });
+    } else if (near) {
+      tokens.push({ kind: 'near', distance: parseInt(near, 10) });
+    } else if (minus) {
+      tokens.push({ kind: 'minus' });
+    } else if (word !== undefined) {
+      if (!wordField && (word === 'AND' || word === 'OR' || word === 'NOT')) {
+        tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not' });
+        continue;
+      }
+      const field = resolveField(wordField);
+      const prefix = word.endsWith('*');
+      tokens.push({ kind: 'word', value: prefix ? word.slice(0, -1) : word, ...(field && { field }), prefix });
+    }
+  }
+
+  return tokens;
+}
+
+function resolveField(name?: string): IndexField | undefined {
+  if (!name) {
+    return undefined;
+  }
+  const field = FIELD_ALIASES[name.toLowerCase()];
+  if (!field) {
+    throw new Error(`Unknown search field: ${name}`);
+  }
+  return field;
+}
+
+export interface IndexOptions extends TokenizerOptions {
+  fuzzy: boolean;
+  synonyms: boolean;
+}
+
+/**
+ * Positional inverted index over a set of documents
+ */
+export class InvertedIndex {
+  private postings: Map<string, Map<string, number[]>> = new Map();
+  private documentTerms: Map<string, Set<string>> = new Map();
+
+  constructor(private options: IndexOptions) {}
+
+  get size(): number {
+    return this.documentTerms.size;
+  }
+
+  has(documentId: string): boolean {
+    return this.documentTerms.has(documentId);
+  }
+
+  /**
+   * Index a document, replacing any earlier version of it
+   */
+  add(documentId: string, fields: Partial<Record<IndexField, string>>): void {
+    this.remove(documentId);
+    const terms = new Set<string>();
+
+    INDEX_FIELDS.forEach((field, fieldIndex) => {
+      for (const token of tokenize(fields[field] || '', this.options)) {
+        let documents = this.postings.get(token.term);
+        if (!documents) {
+          documents = new Map();
+          this.postings.set(token.term, documents);
+        }
+        let positions = documents.get(documentId);
+        if (!positions) {
+          positions = [];
+          documents.set(documentId, positions);
+        }
+        positions.push(fieldIndex * FIELD_GAP + token.position);
+        terms.add(token.term);
+      }
+    });
+
+    this.documentTerms.set(documentId, terms);
+  }
+
+  remove(documentId: string): void {
+    const terms = this.documentTerms.get(documentId);
+    if (!terms) {
+      return;
+    }
+    for (const term of terms) {
+      const documents = this.postings.get(term);
+      documents?.delete(documentId);
+      if (documents && documents.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documentTerms.delete(documentId);
+  }
+
+  /**
+   * Matching documents with a tf-idf relevance score
+   */
+  search(node: QueryNode): Map<string, number> {
+    switch (node.type) {
+      case 'all':
+        return new Map([...this.documentTerms.keys()].map(id => [id, 0]));
+      case 'term':
+        return this.scoreTerm(node.term, node.field, node.prefix);
+      case 'phrase':
+        return this.scorePositional(node.terms, node.field, positions => node.slop === undefined
+          ? inSequence(positions)
+          : withinWindow(positions, node.terms.length - 1 + node.slop));
+      case 'near':
+        return this.scorePositional([node.left, node.right], node.field, positions => withinWindow(positions, node.distance));
+      case 'and': {
+        const positives = node.nodes.filter(child => child.type !== 'not');
+        const negatives = node.nodes.filter((child): child is Extract<QueryNode, { type: 'not' }> => child.type === 'not');
+
+        let result = positives.length > 0 ? this.search(positives[0]!) : this.search({ type: 'all' });
+        for (const child of positives.slice(1)) {
+          const scores = this.search(child);
+          result = new Map([...result].filter(([id]) => scores.has(id)).map(([id, score]) => [id, score + scores.get(id)!]));
+        }
+        for (const child of negatives) {
+          const excluded = this.search(child.node);
+          result = new Map([...result].filter(([id]) => !excluded.has(id)));
+        }
+        return result;
+      }
+      case 'or': {
+        const result = new Map<string, number>();
+        for (const child of node.nodes) {
+          for (const [id, score] of this.search(child)) {
+            result.set(id, (result.get(id) ?? 0) + score);
+          }
+        }
+        return result;
+      }
+      case 'not': {
+        const excluded = this.search(node.node);
+        return new Map([...this.documentTerms.keys()].filter(id => !excluded.has(id)).map(id => [id, 0]));
+      }
+    }
+  }
+
+  /**
+   * Index terms a query word stands for: its stem, synonyms, prefix
+   * completions and (for longer words) terms one edit away
+   */
+  expand(word: string, prefix: boolean = false): string[] {
+    const normalized = tokenize(word, { stemming: false })[0]?.term;
+    if (!normalized) {
+      return [];
+    }
+
+    if (prefix) {
+      return [...this.postings.keys()].filter(term => term.startsWith(normalized)).slice(0, MAX_EXPANSIONS);
+    }
+
+    const words = new Set([normalized]);
+    if (this.options.synonyms) {
+      for (const group of SYNONYMS) {
+        if (group.includes(normalized)) {
+          group.forEach(synonym => words.add(synonym));
+        }
+      }
+    }
+
+    const terms = new Set([...words].map(value => (this.options.stemming ? stem(value) : value)));
+    if (this.options.fuzzy) {
+      for (const term of [...terms]) {
+        if (term.length < 5) {
+          continue;
+        }
+        for (const candidate of this.postings.keys()) {
+          if (terms.size >= MAX_EXPANSIONS) {
+            break;
+          }
+          if (Math.abs(candidate.length - term.length) <= 1 && editDistanceAtMostOne(term, candidate)) {
+            terms.add(candidate);
+          }
+        }
+      }
+    }
+
+    return [...terms];
+  }
+
+  private scoreTerm(word: string, field?: IndexField, prefix?: boolean): Map<string, number> {
+    const result = new Map<string, number>();
+    for (const term of this.expand(word, prefix)) {
+      const documents = this.postings.get(term);
+      if (!documents) {
+        continue;
+      }
+      const idf = Math.log(1 + this.documentTerms.size / documents.size);
+      for (const [id, positions] of documents) {
+        const count = inField(positions, field).length;
+        if (count > 0) {
+          result.set(id, (result.get(id) ?? 0) + count * idf);
+        }
+      }
+    }
+    return result;
+  }
+
+  private scorePositional(
+    words: string[],
+    field: IndexField | undefined,
+    matches: (positions: number[][]) => number
+  ): Map<string, number> {
+    const perWord = words.map(word => this.positionsFor(word, field));
+    const [first, ...rest] = perWord;
+    const result = new Map<string, number>();
+    if (!first) {
+      return result;
+    }
+
+    for (const id of first.keys()) {
+      if (!rest.every(positions => positions.has(id))) {
+        continue;
+      }
+      const count = matches(perWord.map(positions => positions.get(id)!));
+      if (count > 0) {
+        result.set(id, count * words.length * Math.log(1 + this.documentTerms.size / first.size));
+      }
+    }
+    return result;
+  }
+
+  private positionsFor(word: string, field?: IndexField): Map<string, number[]> {
+    const result = new Map<string, number[]>();
+    for (const term of this.expand(word)) {
+      for (const [id, positions] of this.postings.get(term) ?? []) {
+        const filtered = inField(positions, field);
+        if (filtered.length > 0) {
+          result.set(id, [...(result.get(id) ?? []), ...filtered]);
+        }
+      }
+    }
+    for (const positions of result.values()) {
+      positions.sort((a, b) => a - b);
+    }
+    return result;
+  }
+}
+
+function inField(positions: number[], field?: IndexField): number[] {
+  if (!field) {
+    return positions;
+  }
+  const base = INDEX_FIELDS.indexOf(field) * FIELD_GAP;
+  return positions.filter(position => position >= base && position < base + FIELD_GAP);
+}
+
+/**
+ * Occurrences of the words in order, one after another
+ */
+function inSequence(positions: number[][]): number {
+  const [first, ...rest] = positions;
+  return (first ?? []).filter(start =>
+    rest.every((next, offset) => next.includes(start + offset + 1))
+  ).length;
+}
+
+/**
+ * Occurrences where every word appears, in any order, within a window of
+ * `span` positions after the earliest of them
+ */
+function withinWindow(positions: number[][], span: number): number {
+  const [first, ...rest] = positions;
+  return (first ?? []).filter(anchor =>
+    rest.every(next => next.some(position => Math.abs(position - anchor) <= span))
+  ).length;
+}
+
+function editDistanceAtMostOne(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a.length > b.length) {
+    [a, b] = [b, a];
+  }
+
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) {
+    i++;
+  }
+  return a.length === b.length
+    ? a.slice(i + 1) === b.slice(i + 1)
+    : a.slice(i) === b.slice(i + 1);
+}
+
+/**
+ * Positive query words, for highlighting
+ */
+export function queryWords(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'term':
+      return [node.term];
+    case 'phrase':
+      return node.terms;
+    case 'near':
+      return [node.left, node.right];
+    case 'and':
+    case 'or':
+      return node.nodes.flatMap(queryWords);
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,153 @@
+import { EventEmitter } from 'events';
+import { OutboundCommunication, Priority } from '../core/types';
+
+/**
+ * Hold Notice Dispatcher
+ * Delivers queued legal hold notices, reminders and escalations through the
+ * communication layer and reports each outcome back to the notice outbox
+ */
+export class HoldNoticeDispatcher extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching = false;
+
+  constructor(
+    private sender: OutboundSender,
+    private outbox: HoldNoticeOutbox,
+    private options: HoldNoticeDispatcherOptions = {}
+  ) {
+    super();
+  }
+
+  /**
+   * Claim queued messages and send each one. A failed send is reported to the
+   * outbox, which decides whether to retry it.
+   */
+  async dispatchPending(): Promise<DispatchSummary> {
+    const summary: DispatchSummary = { sent: 0, failed: 0 };
+    if (this.dispatching) {
+      return summary;
+    }
+
+    this.dispatching = true;
+    try {
+      const deliveries = await this.outbox.claim(this.options.batchSize || 50);
+
+      for (const delivery of deliveries) {
+        try {
+          const messageId = await this.sender.sendCommunication(
+            this.options.channelType || 'email',
+            toOutboundCommunication(delivery)
+          );
+          await this.outbox.complete(delivery.id, { sent: true, messageId });
+          this.emit('notice-sent', { delivery, messageId });
+          summary.sent++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          await this.outbox.complete(delivery.id, { sent: false, error: message });
+          this.emit('notice-failed', { delivery, error });
+          summary.failed++;
+        }
+      }
+    } finally {
+      this.dispatching = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Dispatch on an interval until stopped
+   */
+  start(intervalMs: number = 60000): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.dispatchPending().catch(error => this.emit('error', error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+const NOTICE_PRIORITY: Record<HoldNoticeDeliveryKind, Priority> = {
+  NOTICE: 'high',
+  REMINDER: 'high',
+  ESCALATION: 'urgent'
+};
+
+/**
+ * Build the outbound message for a queued notice. Custodian messages ask for
+ * delivery and read receipts so receipt of the notice can be shown later.
+ */
+export function toOutboundCommunication(delivery: HoldNoticeDelivery): OutboundCommunication {
+  return {
+    recipients: [
+      {
+        address: delivery.recipientAddress,
+        ...(delivery.recipientName && { name: delivery.recipientName }),
+        type: 'to'
+      }
+    ],
+    subject: delivery.subject,
+    content: {
+      subject: delivery.subject,
+      body: delivery.body,
+      format: delivery.format
+    },
+    priority: NOTICE_PRIORITY[delivery.kind],
+    metadata: {
+      caseId: delivery.caseReference,
+      templateId: `hold-notice:${delivery.kind.toLowerCase()}`,
+      tracking: true,
+      requireDeliveryReceipt: true,
+      requireReadReceipt: delivery.kind !== 'ESCALATION'
+    }
+  };
+}
+
+// Supporting interfaces
+export interface OutboundSender {
+  sendCommunication(channelType: string, communication: OutboundCommunication): Promise<string>;
+}
+
+/**
+ * Queue of notice messages kept by the legal hold service
+ * (POST /api/evidence/preservation-orders/notices/deliveries/claim and .../{id}/result)
+ */
+export interface HoldNoticeOutbox {
+  claim(limit: number): Promise<HoldNoticeDelivery[]>;
+  complete(deliveryId: string, result: DeliveryResult): Promise<void>;
+}
+
+export interface HoldNoticeDelivery {
+  id: string;
+  noticeId: string;
+  kind: HoldNoticeDeliveryKind;
+  recipientAddress: string;
+  recipientName?: string;
+  subject: string;
+  body: string;
+  format: 'text' | 'html';
+  orderId: string;
+  orderNumber: string;
+  caseReference: string;
+}
+
+export interface HoldNoticeDispatcherOptions {
+  channelType?: string;
+  batchSize?: number;
+}
+
+export interface DispatchSummary {
+  sent: number;
+  failed: number;
+}
+
+export type DeliveryResult = { sent: true; messageId: string } | { sent: false; error: string };
+export type HoldNoticeDeliveryKind = 'NOTICE' | 'REMINDER' | 'ESCALATION';
@@ -0,0 +1,497 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import {
+  AlertAction,
+  AlertSeverity,
+  MonitoringAlert,
+  MonitoringRules,
+  MonitoringRuleType,
+  MonitoringServiceConfig,
+  ParticipantRule
+} from '../core/types';
+import { CommunicationRecord, Participant } from '../core/communication-manager';
+
+// Participant, volume and sentiment rules carry no severity of their own
+const ACTION_SEVERITY: Record<AlertAction, AlertSeverity> = {
+  log: 'info',
+  notify: 'warning',
+  block: 'error',
+  escalate: 'critical'
+};
+
+/**
+ * Socket.io room that receives a case's monitoring alerts. Clients join it by
+ * emitting case-monitoring:subscribe (see the handler in backend/src/server.ts).
+ */
+export function monitoringRoom(caseId: string): string {
+  return `case-monitoring:${caseId}`;
+}
+
+/**
+ * Monitoring Service
+ * Checks each logged communication against the rules of the case it belongs to,
+ * records an alert for every rule hit, pushes alerts to connected clients and
+ * escalates alerts that stay unacknowledged past the configured timeout
+ */
+export class MonitoringService extends EventEmitter {
+  private sessions: Map<string, MonitoringSession> = new Map();
+  private recentAlerts: Map<string, number[]> = new Map();
+  private store: MonitoringAlertStore;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private config: MonitoringServiceConfig, private dependencies: MonitoringServiceDependencies = {}) {
+    super();
+    this.store = dependencies.store ?? new MemoryMonitoringAlertStore();
+  }
+
+  /**
+   * Start monitoring a case, replacing any rules it was already monitored with
+   */
+  startMonitoring(caseId: string, rules: MonitoringRules): void {
+    for (const rule of rules.volume) {
+      if (rule.threshold < 1 || rule.timeWindow <= 0) {
+        throw new Error('Volume rules need a threshold of at least 1 and a positive time window');
+      }
+    }
+    for (const rule of rules.sentiment) {
+      if (rule.threshold < -1 || rule.threshold > 1) {
+        throw new Error('Sentiment thresholds must be between -1 and 1');
+      }
+    }
+
+    this.sessions.set(caseId, {
+      rules,
+      keywords: rules.keywords.map(rule => rule.keywords.map(keywordPattern)),
+      patterns: rules.patterns.map(rule => new RegExp(rule.pattern.source, rule.pattern.flags.replace(/[gy]/g, ''))),
+      timestamps: [],
+      tripped: new Set()
+    });
+    this.emit('monitoring-started', { caseId });
+  }
+
+  stopMonitoring(caseId: string): void {
+    if (this.sessions.delete(caseId)) {
+      this.recentAlerts.delete(caseId);
+      this.emit('monitoring-stopped', { caseId });
+    }
+  }
+
+  isMonitoring(caseId: string): boolean {
+    return this.sessions.has(caseId);
+  }
+
+  /**
+   * Check a communication against its case's rules and record an alert per hit.
+   * The result is blocked when any hit's action is "block".
+   */
+  async processCommunication(communication: CommunicationRecord): Promise<MonitoringResult> {
+    const session = this.sessions.get(communication.caseId);
+    if (!this.config.enabled || !session) {
+      return { alerts: [], blocked: false };
+    }
+
+    const hits = [
+      ...keywordHits(communication, session),
+      ...participantHits(communication, session.rules.participants),
+      ...patternHits(communication, session),
+      ...volumeHits(communication, session),
+      ...await this.sentimentHits(communication, session)
+    ];
+
+    const alerts: MonitoringAlert[] = [];
+    for (const hit of hits) {
+      alerts.push(await this.raise(communication, hit));
+    }
+
+    const blocked = hits.some(hit => hit.action === 'block');
+    if (blocked) {
+      this.emit('communication-blocked', { communicationId: communication.id, caseId: communication.caseId, alerts });
+    }
+    return { alerts, blocked };
+  }
+
+  /**
+   * Alerts for a case, newest first
+   */
+  async getAlerts(filter: MonitoringAlertFilter = {}): Promise<MonitoringAlert[]> {
+    const alerts = await this.store.list(filter);
+    return alerts.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  /**
+   * Acknowledge an alert; acknowledged alerts are no longer escalated
+   */
+  async acknowledgeAlert(alertId: string, userId: string): Promise<MonitoringAlert> {
+    const alert = await this.store.get(alertId);
+    if (!alert) {
+      throw new Error(`Monitoring alert ${alertId} not found`);
+    }
+    if (alert.acknowledged) {
+      throw new Error(`Monitoring alert ${alertId} was already acknowledged by ${alert.acknowledgedBy}`);
+    }
+
+    const acknowledged: MonitoringAlert = {
+      ...alert,
+      acknowledged: true,
+      acknowledgedBy: userId,
+      acknowledgedAt: new Date()
+    };
+    await this.store.save(acknowledged);
+
+    this.emit('alert-acknowledged', acknowledged);
+    this.push(acknowledged.caseId, 'monitoring:alert-acknowledged', { alert: acknowledged });
+    return acknowledged;
+  }
+
+  /**
+   * Escalate unacknowledged alerts older than the timeout for their severity.
+   * Each alert is escalated once.
+   */
+  async processUnacknowledgedAlerts(now: Date = new Date()): Promise<MonitoringAlert[]> {
+    const { escalation } = this.config.alerting;
+    if (!escalation.enabled) {
+      return [];
+    }
+
+    const escalated: MonitoringAlert[] = [];
+    for (const alert of await this.store.list({ acknowledged: false })) {
+      const timeout = escalation.timeouts.find(entry => entry.severity === alert.severity);
+      if (alert.escalatedAt || !timeout || now.getTime() - alert.timestamp.getTime() < timeout.timeout * 60 * 1000) {
+        continue;
+      }
+      escalated.push(await this.escalate(alert, now));
+    }
+    return escalated;
+  }
+
+  /**
+   * Check for unacknowledged alerts on an interval until stopped
+   */
+  start(intervalMs: number = 60000): void {
+    if (this.timer || !this.config.alerting.escalation.enabled) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.processUnacknowledgedAlerts().catch(error => this.emit('error', error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async raise(communication: CommunicationRecord, hit: RuleHit): Promise<MonitoringAlert> {
+    let alert: MonitoringAlert = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      caseId: communication.caseId,
+      communicationId: communication.id,
+      rule: hit.rule,
+      ruleType: hit.ruleType,
+      action: hit.action,
+      severity: hit.severity,
+      message: hit.message,
+      participants: communication.participants.map(participantLabel),
+      acknowledged: false
+    };
+    await this.store.save(alert);
+    this.emit('alert-raised', alert);
+
+    if (hit.action === 'log') {
+      return alert;
+    }
+    // Throttled alerts are still recorded, only the notifications are held back
+    if (this.throttled(alert.caseId)) {
+      this.emit('alert-throttled', alert);
+      return alert;
+    }
+
+    this.notify(alert);
+    if (hit.action === 'escalate' && this.config.alerting.escalation.enabled) {
+      alert = await this.escalate(alert, alert.timestamp);
+    }
+    return alert;
+  }
+
+  private notify(alert: MonitoringAlert): void {
+    let dashboard = false;
+    for (const channel of this.config.alerting.channels) {
+      if (!channel.severity.includes(alert.severity)) {
+        continue;
+      }
+      if (channel.type === 'dashboard') {
+        dashboard = true;
+      } else {
+        this.emit('alert-notification', { channel, alert });
+      }
+    }
+
+    if (dashboard || !this.config.alerting.channels.some(channel => channel.type === 'dashboard')) {
+      this.push(alert.caseId, 'monitoring:alert', { alert });
+    }
+  }
+
+  private async escalate(alert: MonitoringAlert, now: Date): Promise<MonitoringAlert> {
+    const timeout = this.config.alerting.escalation.timeouts.find(entry => entry.severity === alert.severity);
+    const escalated: MonitoringAlert = {
+      ...alert,
+      escalatedTo: timeout?.escalateTo ?? [],
+      escalatedAt: now
+    };
+    await this.store.save(escalated);
+
+    this.emit('alert-escalated', escalated);
+    this.push(escalated.caseId, 'monitoring:alert-escalated', { alert: escalated });
+    return escalated;
+  }
+
+  private push(caseId: string, event: string, payload: Record<string, any>): void {
+    if (this.config.realTime && this.dependencies.broadcaster) {
+      this.dependencies.broadcaster.to(monitoringRoom(caseId)).emit(event, payload);
+    }
+  }
+
+  private throttled(caseId: string): boolean {
+    const { throttling } = this.config.alerting;
+    if (!throttling.enabled) {
+      return false;
+    }
+
+    const now = Date.now();
+    const recent = (this.recentAlerts.get(caseId) ?? []).filter(time => now - time < throttling.timeWindow * 60 * 1000);
+    const throttled = recent.length >= throttling.maxAlerts;
+    if (!throttled) {
+      recent.push(now);
+    }
+    this.recentAlerts.set(caseId, recent);
+    return throttled;
+  }
+
+  private async sentimentHits(communication: CommunicationRecord, session: MonitoringSession): Promise<RuleHit[]> {
+    const scorer = this.dependencies.sentiment;
+    if (!scorer || session.rules.sentiment.length === 0) {
+      return [];
+    }
+
+    const score = await scorer.score(communicationText(communication));
+    return session.rules.sentiment
+      .filter(rule => (rule.direction === 'negative' ? score <= rule.threshold : score >= rule.threshold))
+      .map(rule => ({
+        ruleType: 'sentiment' as const,
+        rule: `Sentiment ${rule.direction} ${rule.direction === 'negative' ? '<=' : '>='} ${rule.threshold}`,
+        action: rule.action,
+        severity: ACTION_SEVERITY[rule.action],
+        message: `Sentiment score ${score.toFixed(2)} crossed the ${rule.direction} threshold of ${rule.threshold}`
+      }));
+  }
+}
+
+function keywordHits(communication: CommunicationRecord, session: MonitoringSession): RuleHit[] {
+  const text = communicationText(communication);
+  const hits: RuleHit[] = [];
+
+  session.rules.keywords.forEach((rule, index) => {
+    const found = rule.keywords.filter((_, keyword) => session.keywords[index]![keyword]!.test(text));
+    if (found.length > 0) {
+      hits.push({
+        ruleType: 'keyword',
+        rule: `Keywords: ${rule.keywords.join(', ')}`,
+        action: rule.action,
+        severity: rule.severity,
+        message: `Matched ${found.map(keyword => `"${keyword}"`).join(', ')}${rule.context ? ` (${rule.context})` : ''}`
+      });
+    }
+  });
+  return hits;
+}
+
+/**
+ * "any" fires when a listed participant took part, "all" when every one of
+ * them did, and "exclude" when none of them did
+ */
+function participantHits(communication: CommunicationRecord, rules: ParticipantRule[]): RuleHit[] {
+  const present = new Set(communication.participants.flatMap(participantKeys));
+  const hits: RuleHit[] = [];
+
+  for (const rule of rules) {
+    const listed = rule.participants.map(entry => entry.trim().toLowerCase());
+    const matched = rule.participants.filter((_, index) => present.has(listed[index]!));
+    const fires = rule.condition === 'any' ? matched.length > 0
+      : rule.condition === 'all' ? matched.length === listed.length && listed.length > 0
+      : matched.length === 0;
+
+    if (fires) {
+      hits.push({
+        ruleType: 'participant',
+        rule: `Participants (${rule.condition}): ${rule.participants.join(', ')}`,
+        action: rule.action,
+        severity: ACTION_SEVERITY[rule.action],
+        message: rule.condition === 'exclude'
+          ? `None of ${rule.participants.join(', ')} took part`
+          : `Involves ${matched.join(', ')}`
+      });
+    }
+  }
+  return hits;
+}
+
+function patternHits(communication: CommunicationRecord, session: MonitoringSession): RuleHit[] {
+  const text = communicationText(communication);
+  const hits: RuleHit[] = [];
+
+  session.rules.patterns.forEach((rule, index) => {
+    if (session.patterns[index]!.test(text)) {
+      hits.push({
+        ruleType: 'pattern',
+        rule: rule.description,
+        action: rule.action,
+        severity: rule.severity,
+        message: `Matched pattern: ${rule.description}`
+      });
+    }
+  });
+  return hits;
+}
+
+/**
+ * Count the case's communications inside each rule's sliding window, ending at
+ * this communication. A rule alerts once when its threshold is reached and
+ * again only after the count has dropped back below it.
+ */
+function volumeHits(communication: CommunicationRecord, session: MonitoringSession): RuleHit[] {
+  const rules = session.rules.volume;
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const time = communication.timestamp.getTime();
+  const timestamps = session.timestamps;
+  let position = timestamps.length;
+  while (position > 0 && timestamps[position - 1]! > time) {
+    position--;
+  }
+  timestamps.splice(position, 0, time);
+
+  const longest = Math.max(...rules.map(rule => rule.timeWindow)) * 60 * 1000;
+  const latest = timestamps[timestamps.length - 1]!;
+  while (timestamps.length > 0 && timestamps[0]! < latest - longest) {
+    timestamps.shift();
+  }
+
+  const hits: RuleHit[] = [];
+  rules.forEach((rule, index) => {
+    const start = time - rule.timeWindow * 60 * 1000;
+    const count = timestamps.filter(stamp => stamp >= start && stamp <= time).length;
+
+    if (count < rule.threshold) {
+      session.tripped.delete(index);
+    } else if (!session.tripped.has(index)) {
+      session.tripped.add(index);
+      hits.push({
+        ruleType: 'volume',
+        rule: `Volume: ${rule.threshold} in ${rule.timeWindow} min`,
+        action: rule.action,
+        severity: ACTION_SEVERITY[rule.action],
+        message: `${count} communications in the last ${rule.timeWindow} minutes (threshold ${rule.threshold})`
+      });
+    }
+  });
+  return hits;
+}
+
+function keywordPattern(keyword: string): RegExp {
+  const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+function communicationText(communication: CommunicationRecord): string {
+  return [communication.content.subject, communication.content.body].filter(Boolean).join('\n');
+}
+
+function participantKeys(participant: Participant): string[] {
+  return [participant.id, participant.name, participant.email, participant.phone]
+    .filter((value): value is string => Boolean(value))
+    .map(value => value.trim().toLowerCase());
+}
+
+function participantLabel(participant: Participant): string {
+  return participant.email || participant.name;
+}
+
+/**
+ * Alerts kept in process memory; for development and tests only
+ */
+export class MemoryMonitoringAlertStore implements MonitoringAlertStore {
+  private alerts: Map<string, MonitoringAlert> = new Map();
+
+  async get(alertId: string): Promise<MonitoringAlert | null> {
+    return this.alerts.get(alertId) ?? null;
+  }
+
+  async save(alert: MonitoringAlert): Promise<void> {
+    this.alerts.set(alert.id, alert);
+  }
+
+  async list(filter: MonitoringAlertFilter): Promise<MonitoringAlert[]> {
+    return [...this.alerts.values()].filter(alert =>
+      (filter.caseId === undefined || alert.caseId === filter.caseId) &&
+      (filter.acknowledged === undefined || alert.acknowledged === filter.acknowledged)
+    );
+  }
+}
+
+// Supporting interfaces
+export interface MonitoringAlertStore {
+  get(alertId: string): Promise<MonitoringAlert | null>;
+  save(alert: MonitoringAlert): Promise<void>;
+  list(filter: MonitoringAlertFilter): Promise<MonitoringAlert[]>;
+}
+
+/**
+ * Where alerts are pushed to connected clients; a socket.io Server satisfies this
+ */
+export interface AlertBroadcaster {
+  to(room: string): { emit(event: string, ...args: any[]): boolean };
+}
+
+/**
+ * Scores text from -1 (negative) to 1 (positive); sentiment rules need one
+ */
+export interface SentimentScorer {
+  score(text: string): Promise<number>;
+}
+
+export interface MonitoringServiceDependencies {
+  store?: MonitoringAlertStore | undefined;
+  broadcaster?: AlertBroadcaster | undefined;
+  sentiment?: SentimentScorer | undefined;
+}
+
+export interface MonitoringAlertFilter {
+  caseId?: string;
+  acknowledged?: boolean;
+}
+
+export interface MonitoringResult {
+  alerts: MonitoringAlert[];
+  blocked: boolean;
+}
+
+interface MonitoringSession {
+  rules: MonitoringRules;
+  keywords: RegExp[][];
+  patterns: RegExp[];
+  timestamps: number[]; // Sorted communication times inside the longest volume window
+  tripped: Set<number>; // Volume rules currently over their threshold
+}
+
+interface RuleHit {
+  ruleType: MonitoringRuleType;
+  rule: string;
+  action: AlertAction;
+  severity: AlertSeverity;
+  message: string;
+}
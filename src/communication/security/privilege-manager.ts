@@ -0,0 +1,508 @@
+import { EventEmitter } from 'events';
+import { PrivilegeCondition, PrivilegeManagerConfig, PrivilegeRule } from '../core/types';
+import { CommunicationRecord, Participant, PrivilegeStatus } from '../core/communication-manager';
+
+// Webmail domains are shared with the public, so they never mark counsel by domain alone
+const PUBLIC_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'outlook.com', 'hotmail.com', 'live.com',
+  'aol.com', 'icloud.com', 'me.com', 'protonmail.com', 'proton.me', 'gmx.com'
+]);
+
+// Anyone outside the privileged circle breaks attorney-client confidentiality
+const WAIVING_ROLES = new Set(['opposing_counsel', 'third_party', 'court']);
+const WAIVING_RELATIONSHIPS = new Set(['opposing_party', 'court', 'vendor']);
+
+const COUNSEL_CACHE_MS = 5 * 60 * 1000;
+const OPEN_REVIEW_STATES: ReviewState[] = ['pending', 'escalated'];
+
+/**
+ * Privilege Manager
+ * Decides the privilege status of each logged communication from the configured
+ * rules and the case's counsel, queues uncertain decisions for attorney review
+ * and escalates reviews that run past the workflow timeout
+ */
+export class PrivilegeManager extends EventEmitter {
+  private rules: PrivilegeRule[];
+  private counsel: Map<string, { index: CounselIndex; loadedAt: number }> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private config: PrivilegeManagerConfig,
+    private store: PrivilegeDecisionStore = new MemoryPrivilegeDecisionStore(),
+    private counselDirectory?: CounselDirectory
+  ) {
+    super();
+    this.rules = [...config.rules].sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Decide and persist the communication's privilege status. A reviewer's
+   * decision is final: re-logging a reviewed communication keeps it.
+   */
+  async applyProtection(communication: CommunicationRecord): Promise<CommunicationRecord> {
+    const existing = await this.store.get(communication.id);
+    if (existing && existing.reviewState === 'reviewed') {
+      return withDecision(communication, existing);
+    }
+
+    const evaluation = evaluatePrivilege(communication, this.rules, await this.getCounsel(communication.caseId));
+    const decision = await this.decide(communication, evaluation);
+
+    for (const ruleId of evaluation.loggedRuleIds) {
+      this.emit('privilege-rule-applied', { communicationId: communication.id, ruleId, status: evaluation.status });
+    }
+
+    return withDecision(communication, decision);
+  }
+
+  /**
+   * Whether a communication would need attorney review, without recording a decision
+   */
+  async requiresReview(
+    communication: Pick<CommunicationRecord, 'caseId' | 'participants' | 'content' | 'metadata'>
+  ): Promise<boolean> {
+    return evaluatePrivilege(communication, this.rules, await this.getCounsel(communication.caseId)).requiresReview;
+  }
+
+  /**
+   * Open reviews, soonest due first; optionally only those assigned to one reviewer
+   */
+  async getReviewQueue(reviewerId?: string): Promise<PrivilegeDecision[]> {
+    const reviews = await this.store.listReviews(OPEN_REVIEW_STATES);
+    return reviews
+      .filter(review => !reviewerId || review.assignedTo === reviewerId)
+      .sort((a, b) => (a.dueAt?.getTime() ?? Infinity) - (b.dueAt?.getTime() ?? Infinity));
+  }
+
+  async getDecision(communicationId: string): Promise<PrivilegeDecision | null> {
+    return await this.store.get(communicationId);
+  }
+
+  /**
+   * Record a reviewer's decision. Only configured reviewers may decide, and
+   * only while the review is open.
+   */
+  async recordReview(communicationId: string, review: PrivilegeReview): Promise<PrivilegeDecision> {
+    if (!this.config.reviewWorkflow.reviewers.includes(review.reviewerId)) {
+      throw new Error(`${review.reviewerId} is not a privilege reviewer`);
+    }
+    if (review.status === 'pending') {
+      throw new Error('A review must decide a privilege status');
+    }
+
+    const decision = await this.store.get(communicationId);
+    if (!decision) {
+      throw new Error(`No privilege decision for communication ${communicationId}`);
+    }
+    if (!OPEN_REVIEW_STATES.includes(decision.reviewState)) {
+      throw new Error(`Privilege review for communication ${communicationId} is not open`);
+    }
+
+    const previousStatus = decision.status;
+    const reviewed: PrivilegeDecision = {
+      ...decision,
+      status: review.status,
+      reasons: [...decision.reasons, review.reason],
+      reviewState: 'reviewed',
+      reviewedBy: review.reviewerId,
+      reviewedAt: new Date()
+    };
+
+    await this.store.save(reviewed);
+    this.emit('privilege-reviewed', { decision: reviewed, previousStatus });
+    return reviewed;
+  }
+
+  /**
+   * Handle reviews past their due time. With escalation on, each is handed to
+   * the next reviewer with a fresh timeout; otherwise it is only reported.
+   */
+  async processOverdueReviews(now: Date = new Date()): Promise<PrivilegeDecision[]> {
+    const { reviewers, escalation } = this.config.reviewWorkflow;
+    const overdue = (await this.store.listReviews(OPEN_REVIEW_STATES))
+      .filter(review => review.dueAt && review.dueAt <= now);
+
+    const handled: PrivilegeDecision[] = [];
+    for (const review of overdue) {
+      if (!escalation || reviewers.length === 0) {
+        this.emit('review-overdue', review);
+        handled.push(review);
+        continue;
+      }
+
+      const escalated: PrivilegeDecision = {
+        ...review,
+        reviewState: 'escalated',
+        assignedTo: nextReviewer(reviewers, review.assignedTo),
+        dueAt: this.dueDate(now),
+        escalatedAt: now,
+        escalationCount: (review.escalationCount ?? 0) + 1
+      };
+      await this.store.save(escalated);
+      this.emit('review-escalated', { decision: escalated, previousReviewer: review.assignedTo });
+      handled.push(escalated);
+    }
+
+    return handled;
+  }
+
+  /**
+   * Copy of a communication with its content replaced by the redaction marker,
+   * for producing privileged communications. Stored content is never changed.
+   */
+  redact(communication: CommunicationRecord): CommunicationRecord {
+    const { marker, preserveFormat, logRedactions } = this.config.redaction;
+    const hide = (text: string) => preserveFormat
+      ? text.split('\n').map(line => (line.trim() ? marker : line)).join('\n')
+      : marker;
+
+    if (logRedactions) {
+      this.emit('communication-redacted', { communicationId: communication.id, status: communication.privilegeStatus });
+    }
+
+    return {
+      ...communication,
+      content: {
+        ...communication.content,
+        ...(communication.content.subject && { subject: hide(communication.content.subject) }),
+        body: hide(communication.content.body)
+      },
+      attachments: []
+    };
+  }
+
+  /**
+   * Whether a decided communication must be redacted when produced
+   */
+  shouldRedact(decision: PrivilegeDecision): boolean {
+    return this.config.redaction.enabled && decision.redact &&
+      (decision.status === 'privileged' || decision.status === 'work_product');
+  }
+
+  /**
+   * Check for overdue reviews on an interval until stopped
+   */
+  start(intervalMs: number = 15 * 60 * 1000): void {
+    if (this.timer || !this.config.reviewWorkflow.enabled) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.processOverdueReviews().catch(error => this.emit('error', error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async decide(communication: CommunicationRecord, evaluation: PrivilegeEvaluation): Promise<PrivilegeDecision> {
+    const workflow = this.config.reviewWorkflow;
+    const queue = evaluation.requiresReview && workflow.enabled;
+    const now = new Date();
+
+    const decision: PrivilegeDecision = {
+      communicationId: communication.id,
+      caseId: communication.caseId,
+      status: queue ? 'pending' : evaluation.status,
+      suggestedStatus: evaluation.status,
+      ruleIds: evaluation.ruleIds,
+      reasons: evaluation.reasons,
+      requiresReview: evaluation.requiresReview,
+      redact: evaluation.redact,
+      reviewState: queue ? 'pending' : 'not_required',
+      decidedAt: now
+    };
+
+    if (queue) {
+      const assignedTo = await this.leastLoadedReviewer();
+      if (assignedTo) {
+        decision.assignedTo = assignedTo;
+      }
+      decision.dueAt = this.dueDate(now);
+    }
+
+    await this.store.save(decision);
+    if (queue) {
+      this.emit('review-queued', decision);
+    }
+    return decision;
+  }
+
+  private async leastLoadedReviewer(): Promise<string | undefined> {
+    const reviewers = this.config.reviewWorkflow.reviewers;
+    const open = await this.store.listReviews(OPEN_REVIEW_STATES);
+    const load = (reviewer: string) => open.filter(review => review.assignedTo === reviewer).length;
+
+    return reviewers.reduce<string | undefined>(
+      (best, reviewer) => (best === undefined || load(reviewer) < load(best) ? reviewer : best),
+      undefined
+    );
+  }
+
+  private dueDate(from: Date): Date {
+    return new Date(from.getTime() + this.config.reviewWorkflow.timeout * 60 * 60 * 1000);
+  }
+
+  private async getCounsel(caseId: string): Promise<CounselIndex> {
+    if (!this.counselDirectory) {
+      return { addresses: new Set(), domains: new Set() };
+    }
+    const cached = this.counsel.get(caseId);
+    if (cached && Date.now() - cached.loadedAt < COUNSEL_CACHE_MS) {
+      return cached.index;
+    }
+
+    const index = indexCounsel(await this.counselDirectory.getCounselAddresses(caseId));
+    this.counsel.set(caseId, { index, loadedAt: Date.now() });
+    return index;
+  }
+}
+
+/**
+ * Known counsel addresses and the firm domains they imply
+ */
+export function indexCounsel(addresses: string[]): CounselIndex {
+  const normalized = addresses.map(address => address.trim().toLowerCase()).filter(Boolean);
+  return {
+    addresses: new Set(normalized),
+    domains: new Set(normalized.map(emailDomain).filter(domain => domain && !PUBLIC_MAIL_DOMAINS.has(domain)))
+  };
+}
+
+/**
+ * Evaluate the rules and counsel participation. The highest-priority matching
+ * rule sets the status; review, redaction and logging apply if any matching
+ * rule asks for them. With no matching rule, counsel-only conversations are
+ * presumed privileged and counsel conversations with outsiders go to review.
+ */
+export function evaluatePrivilege(
+  communication: Pick<CommunicationRecord, 'participants' | 'content' | 'metadata'>,
+  rules: PrivilegeRule[],
+  counsel: CounselIndex
+): PrivilegeEvaluation {
+  const ordered = [...rules].sort((a, b) => b.priority - a.priority);
+  const matched = ordered.filter(rule =>
+    rule.conditions.length > 0 && rule.conditions.every(condition => matchesCondition(communication, condition, counsel))
+  );
+
+  if (matched.length > 0) {
+    return {
+      status: matched[0]!.action.status,
+      ruleIds: matched.map(rule => rule.id),
+      reasons: matched.map(rule => `Rule ${rule.name}`),
+      requiresReview: matched.some(rule => rule.action.requiresReview),
+      redact: matched.some(rule => rule.action.redact),
+      loggedRuleIds: matched.filter(rule => rule.action.log).map(rule => rule.id)
+    };
+  }
+
+  const counselParticipants = communication.participants.filter(participant => isCounsel(participant, counsel));
+  if (counselParticipants.length === 0) {
+    return { status: 'public', ruleIds: [], reasons: [], requiresReview: false, redact: false, loggedRuleIds: [] };
+  }
+
+  const outsiders = communication.participants.filter(participant =>
+    WAIVING_ROLES.has(participant.role) || WAIVING_RELATIONSHIPS.has(participant.relationship)
+  );
+  const names = counselParticipants.map(participant => participant.name).join(', ');
+
+  if (outsiders.length > 0) {
+    return {
+      status: 'confidential',
+      ruleIds: [],
+      reasons: [
+        `Counsel participated (${names}) with outside parties (${outsiders.map(participant => participant.name).join(', ')}); privilege may be waived`
+      ],
+      requiresReview: true,
+      redact: false,
+      loggedRuleIds: []
+    };
+  }
+
+  return {
+    status: 'privileged',
+    ruleIds: [],
+    reasons: [`Attorney-client communication with counsel (${names})`],
+    requiresReview: true,
+    redact: true,
+    loggedRuleIds: []
+  };
+}
+
+/**
+ * A participant condition holds when any participant satisfies it. Besides the
+ * participant's own fields, "domain" is their email domain and "counsel"
+ * whether they are known counsel.
+ */
+export function matchesCondition(
+  communication: Pick<CommunicationRecord, 'participants' | 'content' | 'metadata'>,
+  condition: PrivilegeCondition,
+  counsel: CounselIndex
+): boolean {
+  switch (condition.type) {
+    case 'participant':
+      return communication.participants.some(participant =>
+        compare(participantField(participant, condition.field, counsel), condition)
+      );
+    case 'content':
+      return compare((communication.content as Record<string, any>)[condition.field], condition);
+    case 'metadata':
+      return compare((communication.metadata as Record<string, any>)[condition.field], condition);
+    default:
+      return false;
+  }
+}
+
+function participantField(participant: Participant, field: string, counsel: CounselIndex): any {
+  if (field === 'domain') {
+    return participant.email ? emailDomain(participant.email) : undefined;
+  }
+  if (field === 'counsel') {
+    return isCounsel(participant, counsel);
+  }
+  return (participant as Record<string, any>)[field];
+}
+
+function compare(actual: any, condition: PrivilegeCondition): boolean {
+  if (condition.operator === 'exists') {
+    const present = actual !== undefined && actual !== null && actual !== '' &&
+      !(Array.isArray(actual) && actual.length === 0);
+    return condition.value === false ? !present : present;
+  }
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+  if (Array.isArray(actual)) {
+    return actual.some(item => compare(item, condition));
+  }
+
+  const expected: any[] = Array.isArray(condition.value) ? condition.value : [condition.value];
+  switch (condition.operator) {
+    case 'equals':
+      return expected.some(value => typeof actual === 'string' && typeof value === 'string'
+        ? actual.toLowerCase() === value.toLowerCase()
+        : actual === value);
+    case 'contains':
+      return expected.some(value => String(actual).toLowerCase().includes(String(value).toLowerCase()));
+    case 'matches':
+      return expected.some(value => (value instanceof RegExp ? value : new RegExp(String(value), 'i')).test(String(actual)));
+    default:
+      return false;
+  }
+}
+
+function isCounsel(participant: Participant, counsel: CounselIndex): boolean {
+  if (participant.role === 'opposing_counsel') {
+    return false;
+  }
+  if (participant.role === 'attorney') {
+    return true;
+  }
+  if (!participant.email) {
+    return false;
+  }
+
+  const email = participant.email.trim().toLowerCase();
+  return counsel.addresses.has(email) || counsel.domains.has(emailDomain(email));
+}
+
+function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).trim().toLowerCase();
+}
+
+function nextReviewer(reviewers: string[], current?: string): string {
+  const index = current ? reviewers.indexOf(current) : -1;
+  return reviewers[(index + 1) % reviewers.length]!;
+}
+
+function withDecision(communication: CommunicationRecord, decision: PrivilegeDecision): CommunicationRecord {
+  return {
+    ...communication,
+    privilegeStatus: decision.status,
+    classification: {
+      ...communication.classification,
+      requiresReview: decision.reviewState === 'pending' || decision.reviewState === 'escalated'
+    }
+  };
+}
+
+/**
+ * Decisions kept in process memory; for development and tests only
+ */
+export class MemoryPrivilegeDecisionStore implements PrivilegeDecisionStore {
+  private decisions: Map<string, PrivilegeDecision> = new Map();
+
+  async get(communicationId: string): Promise<PrivilegeDecision | null> {
+    return this.decisions.get(communicationId) ?? null;
+  }
+
+  async save(decision: PrivilegeDecision): Promise<void> {
+    this.decisions.set(decision.communicationId, decision);
+  }
+
+  async listReviews(states: ReviewState[]): Promise<PrivilegeDecision[]> {
+    return [...this.decisions.values()].filter(decision => states.includes(decision.reviewState));
+  }
+}
+
+// Supporting interfaces
+export interface PrivilegeDecisionStore {
+  get(communicationId: string): Promise<PrivilegeDecision | null>;
+  save(decision: PrivilegeDecision): Promise<void>;
+  listReviews(states: ReviewState[]): Promise<PrivilegeDecision[]>;
+}
+
+/**
+ * Email addresses of a case's own counsel (its legal_team stakeholders)
+ */
+export interface CounselDirectory {
+  getCounselAddresses(caseId: string): Promise<string[]>;
+}
+
+export interface CounselIndex {
+  addresses: Set<string>;
+  domains: Set<string>;
+}
+
+export interface PrivilegeEvaluation {
+  status: PrivilegeStatus;
+  ruleIds: string[];
+  reasons: string[];
+  requiresReview: boolean;
+  redact: boolean;
+  loggedRuleIds: string[];
+}
+
+/**
+ * The privilege decision for one communication; status stays "pending" while
+ * a review is open and suggestedStatus holds what the rules concluded
+ */
+export interface PrivilegeDecision {
+  communicationId: string;
+  caseId: string;
+  status: PrivilegeStatus;
+  suggestedStatus: PrivilegeStatus;
+  ruleIds: string[];
+  reasons: string[];
+  requiresReview: boolean;
+  redact: boolean;
+  reviewState: ReviewState;
+  assignedTo?: string;
+  dueAt?: Date;
+  escalatedAt?: Date;
+  escalationCount?: number;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  decidedAt: Date;
+}
+
+export interface PrivilegeReview {
+  reviewerId: string;
+  status: PrivilegeStatus;
+  reason: string;
+}
+
+export type ReviewState = 'not_required' | 'pending' | 'escalated' | 'reviewed';
@@ -32,6 +32,14 @@ CREATE TABLE IF NOT EXISTS stakeholders (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Stakeholders taking part in each case, e.g. the case's own counsel
+CREATE TABLE IF NOT EXISTS case_stakeholders (
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  stakeholder_id UUID NOT NULL REFERENCES stakeholders(id) ON DELETE CASCADE,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (case_id, stakeholder_id)
+);
+
 -- Communication channels configuration
 CREATE TABLE IF NOT EXISTS communication_channels (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -127,6 +135,25 @@ CREATE TABLE IF NOT EXISTS communication_attachments (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Per-folder IMAP sync position; lastUid is only meaningful for its uid_validity
+CREATE TABLE IF NOT EXISTS mailbox_sync_state (
+  account VARCHAR(255) NOT NULL,
+  folder VARCHAR(255) NOT NULL,
+  uid_validity VARCHAR(20) NOT NULL,
+  last_uid BIGINT NOT NULL DEFAULT 0,
+  synced_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (account, folder)
+);
+
+-- Message-IDs ingested per folder, so a resync after a UIDVALIDITY change is not delivered twice
+CREATE TABLE IF NOT EXISTS mailbox_messages (
+  account VARCHAR(255) NOT NULL,
+  folder VARCHAR(255) NOT NULL,
+  message_id VARCHAR(998) NOT NULL,
+  ingested_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (account, folder, message_id)
+);
+
 -- Communication tags (for classification and organization)
 CREATE TABLE IF NOT EXISTS communication_tags (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -153,6 +180,27 @@ CREATE TABLE IF NOT EXISTS privilege_log (
   metadata JSONB DEFAULT '{}'
 );
 
+-- Current privilege decision per communication, with its review queue state
+CREATE TABLE IF NOT EXISTS privilege_decisions (
+  communication_id UUID PRIMARY KEY REFERENCES communications(id) ON DELETE CASCADE,
+  case_id UUID NOT NULL REFERENCES cases(id),
+  status VARCHAR(50) NOT NULL CHECK (status IN ('privileged', 'work_product', 'public', 'confidential', 'pending')),
+  suggested_status VARCHAR(50) NOT NULL, -- What the rules concluded before review
+  rule_ids JSONB DEFAULT '[]',
+  reasons JSONB DEFAULT '[]',
+  requires_review BOOLEAN DEFAULT false,
+  redact BOOLEAN DEFAULT false,
+  review_state VARCHAR(20) NOT NULL CHECK (review_state IN ('not_required', 'pending', 'escalated', 'reviewed')),
+  assigned_to UUID REFERENCES stakeholders(id),
+  due_at TIMESTAMP WITH TIME ZONE,
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  escalation_count INTEGER DEFAULT 0,
+  reviewed_by UUID REFERENCES stakeholders(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  decided_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Monitoring alerts
 CREATE TABLE IF NOT EXISTS monitoring_alerts (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -160,6 +208,7 @@ CREATE TABLE IF NOT EXISTS monitoring_alerts (
   communication_id UUID REFERENCES communications(id),
   rule_type VARCHAR(50) NOT NULL, -- keyword, participant, pattern, volume, sentiment
   rule_name VARCHAR(255) NOT NULL,
+  action VARCHAR(20) NOT NULL DEFAULT 'log' CHECK (action IN ('log', 'notify', 'block', 'escalate')),
   severity VARCHAR(20) NOT NULL CHECK (severity IN ('info', 'warning', 'error', 'critical')),
   
   -- Alert details
@@ -171,6 +220,8 @@ CREATE TABLE IF NOT EXISTS monitoring_alerts (
   acknowledged BOOLEAN DEFAULT false,
   acknowledged_by UUID REFERENCES stakeholders(id),
   acknowledged_at TIMESTAMP WITH TIME ZONE,
+  escalated_to TEXT[],
+  escalated_at TIMESTAMP WITH TIME ZONE,
   resolved BOOLEAN DEFAULT false,
   resolved_by UUID REFERENCES stakeholders(id),
   resolved_at TIMESTAMP WITH TIME ZONE,
@@ -250,12 +301,17 @@ CREATE INDEX IF NOT EXISTS idx_communication_participants_stakeholder_id ON comm
 CREATE INDEX IF NOT EXISTS idx_stakeholders_email ON stakeholders(email);
 CREATE INDEX IF NOT EXISTS idx_stakeholders_role ON stakeholders(role);
 CREATE INDEX IF NOT EXISTS idx_stakeholders_relationship ON stakeholders(relationship);
+CREATE INDEX IF NOT EXISTS idx_case_stakeholders_stakeholder_id ON case_stakeholders(stakeholder_id);
 
 -- Alert indexes
 CREATE INDEX IF NOT EXISTS idx_monitoring_alerts_case_id ON monitoring_alerts(case_id);
 CREATE INDEX IF NOT EXISTS idx_monitoring_alerts_acknowledged ON monitoring_alerts(acknowledged);
 CREATE INDEX IF NOT EXISTS idx_monitoring_alerts_severity ON monitoring_alerts(severity);
 
+-- Privilege review queue indexes
+CREATE INDEX IF NOT EXISTS idx_privilege_decisions_review_state ON privilege_decisions(review_state, due_at);
+CREATE INDEX IF NOT EXISTS idx_privilege_decisions_assigned_to ON privilege_decisions(assigned_to);
+
 -- Attachment indexes
 CREATE INDEX IF NOT EXISTS idx_communication_attachments_comm_id ON communication_attachments(communication_id);
 CREATE INDEX IF NOT EXISTS idx_communication_attachments_hash ON communication_attachments(file_hash);
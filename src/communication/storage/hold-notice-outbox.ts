@@ -0,0 +1,43 @@
+import {
+  DeliveryResult,
+  HoldNoticeDelivery,
+  HoldNoticeOutbox
+} from '../legal-hold/hold-notice-dispatcher';
+
+/**
+ * The notice outbox kept by the case management API, reached over HTTP with a
+ * service account token
+ */
+export class HttpHoldNoticeOutbox implements HoldNoticeOutbox {
+  constructor(private config: HttpHoldNoticeOutboxConfig) {}
+
+  async claim(limit: number): Promise<HoldNoticeDelivery[]> {
+    return await this.post('/deliveries/claim', { limit });
+  }
+
+  async complete(deliveryId: string, result: DeliveryResult): Promise<void> {
+    await this.post(`/deliveries/${encodeURIComponent(deliveryId)}/result`, result);
+  }
+
+  private async post(path: string, body: unknown): Promise<any> {
+    const response = await fetch(`${this.config.baseUrl}/api/evidence/preservation-orders/notices${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.config.token}`
+      },
+      body: JSON.stringify(body)
+    });
+
+    const payload: any = await response.json().catch(() => null);
+    if (!response.ok || !payload?.success) {
+      throw new Error(`Notice outbox ${path} failed: ${payload?.error?.message || response.statusText}`);
+    }
+    return payload.data;
+  }
+}
+
+export interface HttpHoldNoticeOutboxConfig {
+  baseUrl: string; // e.g. http://localhost:3001
+  token: string;
+}
@@ -0,0 +1,56 @@
+import { MailboxSyncState, MailboxSyncStore } from '../channels/email/providers/imap-provider';
+import { SqlClient } from './privilege-store';
+
+/**
+ * IMAP high-water marks persisted in mailbox_sync_state, one row per folder,
+ * and ingested Message-IDs in mailbox_messages
+ */
+export class SqlMailboxSyncStore implements MailboxSyncStore {
+  constructor(private client: SqlClient) {}
+
+  async get(account: string, folder: string): Promise<MailboxSyncState | null> {
+    const result = await this.client.query(
+      'SELECT * FROM mailbox_sync_state WHERE account = $1 AND folder = $2',
+      [account, folder]
+    );
+    const row = result.rows[0];
+    return row
+      ? {
+        account: row.account,
+        folder: row.folder,
+        uidValidity: row.uid_validity,
+        lastUid: Number(row.last_uid),
+        syncedAt: new Date(row.synced_at)
+      }
+      : null;
+  }
+
+  async save(state: MailboxSyncState): Promise<void> {
+    await this.client.query(
+      `INSERT INTO mailbox_sync_state (account, folder, uid_validity, last_uid, synced_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (account, folder) DO UPDATE SET
+        uid_validity = EXCLUDED.uid_validity,
+        last_uid = EXCLUDED.last_uid,
+        synced_at = EXCLUDED.synced_at`,
+      [state.account, state.folder, state.uidValidity, state.lastUid, state.syncedAt]
+    );
+  }
+
+  async hasMessage(account: string, folder: string, messageId: string): Promise<boolean> {
+    const result = await this.client.query(
+      'SELECT 1 FROM mailbox_messages WHERE account = $1 AND folder = $2 AND message_id = $3',
+      [account, folder, messageId]
+    );
+    return result.rows.length > 0;
+  }
+
+  async recordMessage(account: string, folder: string, messageId: string): Promise<void> {
+    await this.client.query(
+      `INSERT INTO mailbox_messages (account, folder, message_id, ingested_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (account, folder, message_id) DO NOTHING`,
+      [account, folder, messageId]
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { MonitoringAlert } from '../core/types';
+import { MonitoringAlertFilter, MonitoringAlertStore } from '../monitoring/monitoring-service';
+import { SqlClient } from './privilege-store';
+
+/**
+ * Monitoring alerts persisted in monitoring_alerts
+ */
+export class SqlMonitoringAlertStore implements MonitoringAlertStore {
+  constructor(private client: SqlClient) {}
+
+  async get(alertId: string): Promise<MonitoringAlert | null> {
+    const result = await this.client.query('SELECT * FROM monitoring_alerts WHERE id = $1', [alertId]);
+    return result.rows[0] ? mapAlertRow(result.rows[0]) : null;
+  }
+
+  async save(alert: MonitoringAlert): Promise<void> {
+    await this.client.query(
+      `INSERT INTO monitoring_alerts (
+        id, case_id, communication_id, rule_type, rule_name, action, severity, message, participants,
+        acknowledged, acknowledged_by, acknowledged_at, escalated_to, escalated_at, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      ON CONFLICT (id) DO UPDATE SET
+        acknowledged = EXCLUDED.acknowledged,
+        acknowledged_by = EXCLUDED.acknowledged_by,
+        acknowledged_at = EXCLUDED.acknowledged_at,
+        escalated_to = EXCLUDED.escalated_to,
+        escalated_at = EXCLUDED.escalated_at`,
+      [
+        alert.id,
+        alert.caseId,
+        alert.communicationId,
+        alert.ruleType,
+        alert.rule,
+        alert.action,
+        alert.severity,
+        alert.message,
+        alert.participants,
+        alert.acknowledged,
+        alert.acknowledgedBy ?? null,
+        alert.acknowledgedAt ?? null,
+        alert.escalatedTo ?? null,
+        alert.escalatedAt ?? null,
+        alert.timestamp
+      ]
+    );
+  }
+
+  async list(filter: MonitoringAlertFilter): Promise<MonitoringAlert[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.caseId !== undefined) {
+      params.push(filter.caseId);
+      conditions.push(`case_id = $${params.length}`);
+    }
+    if (filter.acknowledged !== undefined) {
+      params.push(filter.acknowledged);
+      conditions.push(`acknowledged = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.client.query(`SELECT * FROM monitoring_alerts ${where} ORDER BY created_at DESC`, params);
+    return result.rows.map(mapAlertRow);
+  }
+}
+
+function mapAlertRow(row: any): MonitoringAlert {
+  return {
+    id: row.id,
+    timestamp: new Date(row.created_at),
+    caseId: row.case_id,
+    communicationId: row.communication_id,
+    rule: row.rule_name,
+    ruleType: row.rule_type,
+    action: row.action,
+    severity: row.severity,
+    message: row.message,
+    participants: row.participants || [],
+    acknowledged: row.acknowledged,
+    ...(row.acknowledged_by && { acknowledgedBy: row.acknowledged_by }),
+    ...(row.acknowledged_at && { acknowledgedAt: new Date(row.acknowledged_at) }),
+    ...(row.escalated_to && { escalatedTo: row.escalated_to }),
+    ...(row.escalated_at && { escalatedAt: new Date(row.escalated_at) })
+  };
+}
@@ -0,0 +1,120 @@
+import {
+  CounselDirectory,
+  PrivilegeDecision,
+  PrivilegeDecisionStore,
+  ReviewState
+} from '../security/privilege-manager';
+
+/**
+ * Minimal query interface; a pg Pool or Client satisfies it
+ */
+export interface SqlClient {
+  query(sql: string, params?: any[]): Promise<{ rows: any[] }>;
+}
+
+/**
+ * Privilege decisions persisted in privilege_decisions, one row per communication
+ */
+export class SqlPrivilegeDecisionStore implements PrivilegeDecisionStore {
+  constructor(private client: SqlClient) {}
+
+  async get(communicationId: string): Promise<PrivilegeDecision | null> {
+    const result = await this.client.query(
+      'SELECT * FROM privilege_decisions WHERE communication_id = $1',
+      [communicationId]
+    );
+    return result.rows[0] ? mapDecisionRow(result.rows[0]) : null;
+  }
+
+  async save(decision: PrivilegeDecision): Promise<void> {
+    await this.client.query(
+      `INSERT INTO privilege_decisions (
+        communication_id, case_id, status, suggested_status, rule_ids, reasons, requires_review, redact,
+        review_state, assigned_to, due_at, escalated_at, escalation_count, reviewed_by, reviewed_at, decided_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      ON CONFLICT (communication_id) DO UPDATE SET
+        status = EXCLUDED.status,
+        suggested_status = EXCLUDED.suggested_status,
+        rule_ids = EXCLUDED.rule_ids,
+        reasons = EXCLUDED.reasons,
+        requires_review = EXCLUDED.requires_review,
+        redact = EXCLUDED.redact,
+        review_state = EXCLUDED.review_state,
+        assigned_to = EXCLUDED.assigned_to,
+        due_at = EXCLUDED.due_at,
+        escalated_at = EXCLUDED.escalated_at,
+        escalation_count = EXCLUDED.escalation_count,
+        reviewed_by = EXCLUDED.reviewed_by,
+        reviewed_at = EXCLUDED.reviewed_at,
+        decided_at = EXCLUDED.decided_at,
+        updated_at = CURRENT_TIMESTAMP`,
+      [
+        decision.communicationId,
+        decision.caseId,
+        decision.status,
+        decision.suggestedStatus,
+        JSON.stringify(decision.ruleIds),
+        JSON.stringify(decision.reasons),
+        decision.requiresReview,
+        decision.redact,
+        decision.reviewState,
+        decision.assignedTo ?? null,
+        decision.dueAt ?? null,
+        decision.escalatedAt ?? null,
+        decision.escalationCount ?? 0,
+        decision.reviewedBy ?? null,
+        decision.reviewedAt ?? null,
+        decision.decidedAt
+      ]
+    );
+  }
+
+  async listReviews(states: ReviewState[]): Promise<PrivilegeDecision[]> {
+    const result = await this.client.query(
+      'SELECT * FROM privilege_decisions WHERE review_state = ANY($1) ORDER BY due_at ASC NULLS LAST',
+      [states]
+    );
+    return result.rows.map(mapDecisionRow);
+  }
+}
+
+/**
+ * Counsel addresses from the legal_team stakeholders linked to the case in
+ * case_stakeholders
+ */
+export class SqlCounselDirectory implements CounselDirectory {
+  constructor(private client: SqlClient) {}
+
+  async getCounselAddresses(caseId: string): Promise<string[]> {
+    const result = await this.client.query(
+      `SELECT DISTINCT lower(stakeholders.email) AS email FROM stakeholders
+       JOIN case_stakeholders ON case_stakeholders.stakeholder_id = stakeholders.id
+       WHERE case_stakeholders.case_id = $1
+         AND stakeholders.email IS NOT NULL AND stakeholders.status = 'active'
+         AND (stakeholders.role = 'attorney' OR stakeholders.metadata->>'category' = 'legal_team')`,
+      [caseId]
+    );
+    return result.rows.map(row => row.email);
+  }
+}
+
+function mapDecisionRow(row: any): PrivilegeDecision {
+  return {
+    communicationId: row.communication_id,
+    caseId: row.case_id,
+    status: row.status,
+    suggestedStatus: row.suggested_status,
+    ruleIds: row.rule_ids || [],
+    reasons: row.reasons || [],
+    requiresReview: row.requires_review,
+    redact: row.redact,
+    reviewState: row.review_state,
+    ...(row.assigned_to && { assignedTo: row.assigned_to }),
+    ...(row.due_at && { dueAt: new Date(row.due_at) }),
+    ...(row.escalated_at && { escalatedAt: new Date(row.escalated_at) }),
+    ...(row.escalation_count && { escalationCount: row.escalation_count }),
+    ...(row.reviewed_by && { reviewedBy: row.reviewed_by }),
+    ...(row.reviewed_at && { reviewedAt: new Date(row.reviewed_at) }),
+    decidedAt: new Date(row.decided_at)
+  };
+}
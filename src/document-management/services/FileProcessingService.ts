@@ -9,6 +9,15 @@ import sharp from 'sharp';
 import ffmpeg from 'fluent-ffmpeg';
 import { Document, ProcessingJob, ProcessingStage, DLPResult, DLPFinding } from '../types';
 import { EncryptionService } from './EncryptionService';
+import {
+  PageStamp,
+  StampLayout,
+  DEFAULT_STAMP_LAYOUT,
+  batesRange,
+  buildStampPDF,
+  buildStampSVG,
+  parsePdfInfoPages
+} from './PageEndorsement';
 
 const execAsync = promisify(exec);
 
@@ -67,6 +76,22 @@ export interface PreviewResult {
   };
 }
 
+export interface EndorsementOptions {
+  batesPrefix: string;
+  startNumber: number;
+  padding: number;
+  legend?: string;
+  watermarkText?: string;
+  fontSize?: number;
+}
+
+export interface EndorsementResult {
+  pageCount: number;
+  batesBegin: string;
+  batesEnd: string;
+  nextNumber: number;
+}
+
 export class FileProcessingService {
   private config: ProcessingConfig;
   private encryptionService: EncryptionService;
@@ -586,109 +611,103 @@ export class FileProcessingService {
    * Apply watermark to document
    */
   async applyWatermark(filePath: string, watermarkText: string, outputPath: string): Promise<void> {
-    if (path.extname(filePath).toLowerCase() === '.pdf') {
-      await this.applyPDFWatermark(filePath, watermarkText, outputPath);
+    const pageCount = await this.getPageCount(filePath);
+    await this.stampPages(filePath, outputPath, Array.from({ length: pageCount }, () => ({ watermark: watermarkText })));
+  }
+
+  /**
+   * Endorse every page with a sequential Bates number, plus an optional
+   * confidentiality legend and watermark. Numbers must already be reserved
+   * in the production register; startNumber is the first number of that range.
+   */
+  async endorsePages(filePath: string, outputPath: string, options: EndorsementOptions): Promise<EndorsementResult> {
+    const pageCount = await this.getPageCount(filePath);
+    const batesNumbers = batesRange(options.batesPrefix, options.startNumber, options.padding, pageCount);
+
+    await this.stampPages(
+      filePath,
+      outputPath,
+      batesNumbers.map(batesNumber => ({
+        batesNumber,
+        ...(options.legend && { legend: options.legend }),
+        ...(options.watermarkText && { watermark: options.watermarkText })
+      })),
+      options.fontSize ? { ...DEFAULT_STAMP_LAYOUT, fontSize: options.fontSize } : DEFAULT_STAMP_LAYOUT
+    );
+
+    return {
+      pageCount,
+      batesBegin: batesNumbers[0]!,
+      batesEnd: batesNumbers[batesNumbers.length - 1]!,
+      nextNumber: options.startNumber + pageCount
+    };
+  }
+
+  /**
+   * Number of pages that endorsement will stamp (images are a single page)
+   */
+  async getPageCount(filePath: string): Promise<number> {
+    if (this.isPDF(filePath)) {
+      const { stdout } = await execAsync(`pdfinfo "${filePath}"`);
+      const pages = parseInt(stdout.match(/Pages:\s+(\d+)/)?.[1] || '0');
+      if (!pages) {
+        throw new Error('Unable to determine PDF page count');
+      }
+      return pages;
+    }
+
+    this.assertEndorsable(filePath);
+    return 1;
+  }
+
+  private async stampPages(filePath: string, outputPath: string, stamps: PageStamp[], layout: StampLayout = DEFAULT_STAMP_LAYOUT): Promise<void> {
+    if (this.isPDF(filePath)) {
+      await this.stampPDFPages(filePath, outputPath, stamps, layout);
     } else {
-      await this.applyImageWatermark(filePath, watermarkText, outputPath);
+      this.assertEndorsable(filePath);
+      await this.stampImage(filePath, outputPath, stamps[0]!, layout);
     }
   }
 
-  private async applyPDFWatermark(inputPath: string, watermarkText: string, outputPath: string): Promise<void> {
-    // Using pdftk or similar tool to add watermark
-    const watermarkPDF = await this.createWatermarkPDF(watermarkText);
-    await execAsync(`pdftk "${inputPath}" multistamp "${watermarkPDF}" output "${outputPath}"`);
-    await fs.unlink(watermarkPDF);
+  private async stampPDFPages(inputPath: string, outputPath: string, stamps: PageStamp[], layout: StampLayout): Promise<void> {
+    // Per-page sizes and rotation so each stamp page lines up with its target page
+    const { stdout } = await execAsync(`pdfinfo -f 1 -l ${stamps.length} "${inputPath}"`);
+    const pages = parsePdfInfoPages(stdout);
+
+    const stampPath = path.join(this.config.tempPath, `stamp_${crypto.randomBytes(8).toString('hex')}.pdf`);
+    await fs.writeFile(stampPath, buildStampPDF(pages, stamps, layout));
+
+    try {
+      await execAsync(`pdftk "${inputPath}" multistamp "${stampPath}" output "${outputPath}"`);
+    } finally {
+      await fs.unlink(stampPath);
+    }
   }
 
-  private async applyImageWatermark(inputPath: string, watermarkText: string, outputPath: string): Promise<void> {
+  private async stampImage(inputPath: string, outputPath: string, stamp: PageStamp, layout: StampLayout): Promise<void> {
+    const { width, height } = await sharp(inputPath).metadata();
+    if (!width || !height) {
+      throw new Error('Unable to read image dimensions');
+    }
+
     await sharp(inputPath)
       .composite([{
-        input: Buffer.from(`
-          <svg width="300" height="50">
-            <text x="50%" y="50%" font-family="Arial" font-size="16" fill="rgba(255,255,255,0.7)" 
-                  text-anchor="middle" alignment-baseline="central">${watermarkText}</text>
-          </svg>
-        `),
-        gravity: 'center'
+        input: Buffer.from(buildStampSVG(width, height, stamp, layout)),
+        top: 0,
+        left: 0
       }])
       .toFile(outputPath);
   }
 
-  private async createWatermarkPDF(text: string): Promise<string> {
-    const watermarkPath = path.join(this.config.tempPath, `watermark_${Date.now()}.pdf`);
-    
-    // Create a simple PDF with watermark text
-    // This is a simplified version - in production, use a proper PDF library
-    const pdfContent = `%PDF-1.4
-1 0 obj
-<<
-/Type /Catalog
-/Pages 2 0 R
->>
-endobj
-
-2 0 obj
-<<
-/Type /Pages
-/Kids [3 0 R]
-/Count 1
->>
-endobj
-
-3 0 obj
-<<
-/Type /Page
-/Parent 2 0 R
-/MediaBox [0 0 612 792]
-/Contents 4 0 R
-/Resources <<
-/Font <<
-/F1 5 0 R
->>
->>
->>
-endobj
-
-4 0 obj
-<<
-/Length 100
->>
-stream
-BT
-/F1 24 Tf
-306 396 Td
-(${text}) Tj
-ET
-endstream
-endobj
-
-5 0 obj
-<<
-/Type /Font
-/Subtype /Type1
-/BaseFont /Helvetica
->>
-endobj
-
-xref
-0 6
-0000000000 65535 f 
-0000000009 00000 n 
-0000000058 00000 n 
-0000000115 00000 n 
-0000000269 00000 n 
-0000000420 00000 n 
-trailer
-<<
-/Size 6
-/Root 1 0 R
->>
-startxref
-518
-%%EOF`;
-
-    await fs.writeFile(watermarkPath, pdfContent);
-    return watermarkPath;
+  private isPDF(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.pdf';
+  }
+
+  private assertEndorsable(filePath: string): void {
+    const extension = path.extname(filePath).toLowerCase();
+    if (!['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.tif', '.tiff', '.webp'].includes(extension)) {
+      throw new Error(`Unsupported file type for endorsement: ${extension || 'none'} (convert to PDF first)`);
+    }
   }
 
   /**
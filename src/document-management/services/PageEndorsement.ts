@@ -0,0 +1,254 @@
+/**
+ * Page endorsement stamps: Bates numbers, confidentiality legends and
+ * free-text watermarks rendered as a PDF overlay (applied with pdftk
+ * multistamp) or an SVG overlay for images.
+ */
+
+export interface PageStamp {
+  batesNumber?: string;
+  legend?: string;
+  watermark?: string;
+}
+
+export interface PageGeometry {
+  width: number; // Points, as reported by pdfinfo (unrotated)
+  height: number;
+  rotation: 0 | 90 | 180 | 270;
+}
+
+export interface StampLayout {
+  fontSize: number;
+  margin: number;
+  watermarkFontSize: number;
+  watermarkOpacity: number;
+}
+
+export const DEFAULT_STAMP_LAYOUT: StampLayout = {
+  fontSize: 10,
+  margin: 18,
+  watermarkFontSize: 48,
+  watermarkOpacity: 0.2
+};
+
+// Courier glyphs are all 600/1000 em wide, which lets right-aligned Bates
+// numbers and centred watermarks be placed exactly without font metrics
+const COURIER_ADVANCE = 0.6;
+
+export function formatBatesNumber(prefix: string, value: number, padding: number): string {
+  return `${prefix}${String(value).padStart(padding, '0')}`;
+}
+
+/**
+ * Bates numbers for consecutive pages starting at startNumber
+ */
+export function batesRange(prefix: string, startNumber: number, padding: number, pageCount: number): string[] {
+  return Array.from({ length: pageCount }, (_, i) => formatBatesNumber(prefix, startNumber + i, padding));
+}
+
+/**
+ * Parse per-page size and rotation from `pdfinfo -f 1 -l <n>` output
+ */
+export function parsePdfInfoPages(stdout: string): PageGeometry[] {
+  const pages = new Map<number, PageGeometry>();
+
+  for (const line of stdout.split('\n')) {
+    const size = line.match(/^Page\s+(\d+)\s+size:\s+([\d.]+)\s+x\s+([\d.]+)/);
+    if (size) {
+      const pageNumber = parseInt(size[1]!);
+      pages.set(pageNumber, {
+        rotation: pages.get(pageNumber)?.rotation ?? 0,
+        width: parseFloat(size[2]!),
+        height: parseFloat(size[3]!)
+      });
+      continue;
+    }
+
+    const rot = line.match(/^Page\s+(\d+)\s+rot:\s+(\d+)/);
+    if (rot) {
+      const pageNumber = parseInt(rot[1]!);
+      const rotation = (parseInt(rot[2]!) % 360) as PageGeometry['rotation'];
+      pages.set(pageNumber, { width: 612, height: 792, ...pages.get(pageNumber), rotation });
+    }
+  }
+
+  return [...pages.keys()].sort((a, b) => a - b).map(pageNumber => pages.get(pageNumber)!);
+}
+
+/**
+ * Encode text as a PDF literal string in WinAnsiEncoding
+ */
+export function pdfString(text: string): string {
+  let encoded = '';
+
+  for (const char of text.replace(/[\r\n]+/g, ' ')) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code >= 0x20 && code < 0x7f) {
+      encoded += char;
+    } else if (code >= 0xa0 && code <= 0xff) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += '?';
+    }
+  }
+
+  return `(${encoded})`;
+}
+
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Content stream for one page. Text is laid out in the displayed (rotated)
+ * orientation and mapped back into unrotated page space so that stamps read
+ * upright however the page is viewed.
+ */
+function pageContentStream(geometry: PageGeometry, stamp: PageStamp, layout: StampLayout): string {
+  const { width, height, rotation } = geometry;
+  const sideways = rotation === 90 || rotation === 270;
+  const displayWidth = sideways ? height : width;
+  const displayHeight = sideways ? width : height;
+  const ops: string[] = ['q'];
+
+  switch (rotation) {
+    case 90:
+      ops.push(`0 1 -1 0 ${num(width)} 0 cm`);
+      break;
+    case 180:
+      ops.push(`-1 0 0 -1 ${num(width)} ${num(height)} cm`);
+      break;
+    case 270:
+      ops.push(`0 -1 1 0 0 ${num(height)} cm`);
+      break;
+  }
+
+  if (stamp.watermark) {
+    const size = layout.watermarkFontSize;
+    const textWidth = stamp.watermark.length * size * COURIER_ADVANCE;
+    const angle = Math.atan2(displayHeight, displayWidth);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    // Centre the baseline along the page diagonal, nudged down by half the cap height
+    const x = displayWidth / 2 - (textWidth / 2) * cos + (size * 0.3) * sin;
+    const y = displayHeight / 2 - (textWidth / 2) * sin - (size * 0.3) * cos;
+    ops.push(
+      'q /GS1 gs 0.5 g',
+      `BT /F2 ${size} Tf ${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(x)} ${num(y)} Tm ${pdfString(stamp.watermark)} Tj ET`,
+      'Q'
+    );
+  }
+
+  ops.push('0 g');
+
+  if (stamp.legend) {
+    ops.push(`BT /F1 ${layout.fontSize} Tf ${num(layout.margin)} ${num(layout.margin)} Td ${pdfString(stamp.legend)} Tj ET`);
+  }
+
+  if (stamp.batesNumber) {
+    const textWidth = stamp.batesNumber.length * layout.fontSize * COURIER_ADVANCE;
+    const x = displayWidth - layout.margin - textWidth;
+    ops.push(`BT /F2 ${layout.fontSize} Tf ${num(x)} ${num(layout.margin)} Td ${pdfString(stamp.batesNumber)} Tj ET`);
+  }
+
+  ops.push('Q');
+  return ops.join('\n');
+}
+
+/**
+ * Build a stamp PDF with one page per input page, matching each page's size,
+ * for use with `pdftk <input> multistamp <stamp> output <output>`
+ */
+export function buildStampPDF(
+  pages: PageGeometry[],
+  stamps: PageStamp[],
+  layout: StampLayout = DEFAULT_STAMP_LAYOUT
+): Buffer {
+  if (pages.length === 0 || pages.length !== stamps.length) {
+    throw new Error(`Stamp count (${stamps.length}) does not match page count (${pages.length})`);
+  }
+
+  // Objects 1-5 are shared; each page adds a page object and a content stream
+  const pageObjectNumber = (index: number) => 6 + index * 2;
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectNumber(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Type /ExtGState /ca ${layout.watermarkOpacity} /CA ${layout.watermarkOpacity} >>`
+  ];
+
+  pages.forEach((geometry, i) => {
+    const content = pageContentStream(geometry, stamps[i]!, layout);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(geometry.width)} ${num(geometry.height)}] ` +
+      `/Contents ${pageObjectNumber(i) + 1} 0 R ` +
+      '/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /ExtGState << /GS1 5 0 R >> >> >>',
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Full-size SVG overlay for endorsing a single image with sharp composite
+ */
+export function buildStampSVG(
+  width: number,
+  height: number,
+  stamp: PageStamp,
+  layout: StampLayout = DEFAULT_STAMP_LAYOUT
+): string {
+  // Scale stamp text relative to a US Letter page width
+  const scale = Math.max(width / 612, 1);
+  const fontSize = layout.fontSize * scale;
+  const margin = layout.margin * scale;
+  const elements: string[] = [];
+
+  if (stamp.watermark) {
+    const angle = -Math.atan2(height, width) * 180 / Math.PI;
+    elements.push(
+      `<text x="${num(width / 2)}" y="${num(height / 2)}" font-family="Courier New, monospace" font-weight="bold" ` +
+      `font-size="${num(layout.watermarkFontSize * scale)}" fill="#808080" fill-opacity="${layout.watermarkOpacity}" ` +
+      `text-anchor="middle" dominant-baseline="central" transform="rotate(${num(angle)} ${num(width / 2)} ${num(height / 2)})">` +
+      `${escapeXml(stamp.watermark)}</text>`
+    );
+  }
+
+  if (stamp.legend || stamp.batesNumber) {
+    // White band keeps the endorsement legible over photographs and scans
+    elements.push(`<rect x="0" y="${num(height - margin * 2 - fontSize)}" width="${width}" height="${num(margin * 2 + fontSize)}" fill="#ffffff" fill-opacity="0.8"/>`);
+  }
+
+  if (stamp.legend) {
+    elements.push(
+      `<text x="${num(margin)}" y="${num(height - margin)}" font-family="Helvetica, Arial, sans-serif" font-weight="bold" ` +
+      `font-size="${num(fontSize)}" fill="#000000">${escapeXml(stamp.legend)}</text>`
+    );
+  }
+
+  if (stamp.batesNumber) {
+    elements.push(
+      `<text x="${num(width - margin)}" y="${num(height - margin)}" font-family="Courier New, monospace" font-weight="bold" ` +
+      `font-size="${num(fontSize)}" fill="#000000" text-anchor="end">${escapeXml(stamp.batesNumber)}</text>`
+    );
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${elements.join('')}</svg>`;
+}
@@ -0,0 +1,288 @@
+/**
+ * Minimal ASN.1 DER encoder/decoder used by the RFC 3161 timestamp client.
+ * Only the universal types needed for TSP, CMS and X.509 are supported.
+ */
+
+export const Asn1Tag = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18
+} as const;
+
+export interface Asn1Node {
+  tag: number;
+  tagClass: number; // 0 universal, 1 application, 2 context-specific, 3 private
+  tagNumber: number;
+  constructed: boolean;
+  raw: Buffer; // Full TLV encoding
+  value: Buffer; // Contents octets
+  children: Asn1Node[];
+}
+
+/**
+ * Decode a single DER element (and its children when constructed)
+ */
+export function decodeDer(buffer: Buffer): Asn1Node {
+  const { node, length } = decodeElement(buffer, 0);
+  if (length !== buffer.length) {
+    throw new Error('Trailing data after DER element');
+  }
+  return node;
+}
+
+function decodeElement(buffer: Buffer, offset: number): { node: Asn1Node; length: number } {
+  if (offset + 2 > buffer.length) {
+    throw new Error('Truncated DER element');
+  }
+
+  const tag = buffer[offset]!;
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error('High tag numbers are not supported');
+  }
+
+  let cursor = offset + 1;
+  let contentLength = buffer[cursor++]!;
+
+  if (contentLength & 0x80) {
+    const lengthBytes = contentLength & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error('Unsupported DER length encoding');
+    }
+    contentLength = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      contentLength = contentLength * 256 + buffer[cursor++]!;
+    }
+  }
+
+  const end = cursor + contentLength;
+  if (end > buffer.length) {
+    throw new Error('DER element length exceeds available data');
+  }
+
+  const constructed = (tag & 0x20) !== 0;
+  const value = buffer.subarray(cursor, end);
+  const children: Asn1Node[] = [];
+
+  if (constructed) {
+    let childOffset = 0;
+    while (childOffset < value.length) {
+      const child = decodeElement(value, childOffset);
+      children.push(child.node);
+      childOffset += child.length;
+    }
+  }
+
+  return {
+    node: {
+      tag,
+      tagClass: tag >> 6,
+      tagNumber: tag & 0x1f,
+      constructed,
+      raw: buffer.subarray(offset, end),
+      value,
+      children
+    },
+    length: end - offset
+  };
+}
+
+/**
+ * Get a required child element
+ */
+export function child(node: Asn1Node, index: number): Asn1Node {
+  const found = node.children[index];
+  if (!found) {
+    throw new Error(`Missing ASN.1 element at index ${index}`);
+  }
+  return found;
+}
+
+/**
+ * Find an optional context-specific child ([n])
+ */
+export function contextChild(node: Asn1Node, tagNumber: number): Asn1Node | undefined {
+  return node.children.find(c => c.tagClass === 2 && c.tagNumber === tagNumber);
+}
+
+export function readOid(node: Asn1Node): string {
+  expectTag(node, Asn1Tag.OID);
+  const values: number[] = [];
+
+  let current = 0;
+  for (const byte of node.value) {
+    current = current * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      values.push(current);
+      current = 0;
+    }
+  }
+
+  const first = values.shift() ?? 0;
+  const arc = first < 80 ? Math.floor(first / 40) : 2;
+  return [arc, first - arc * 40, ...values].join('.');
+}
+
+export function readInteger(node: Asn1Node): bigint {
+  expectTag(node, Asn1Tag.INTEGER);
+  if (node.value.length === 0) {
+    return BigInt(0);
+  }
+  let result = BigInt('0x' + node.value.toString('hex'));
+  if (node.value[0]! & 0x80) {
+    result -= BigInt(1) << BigInt(node.value.length * 8);
+  }
+  return result;
+}
+
+export function readBoolean(node: Asn1Node): boolean {
+  expectTag(node, Asn1Tag.BOOLEAN);
+  return node.value[0] !== 0;
+}
+
+export function readString(node: Asn1Node): string {
+  return node.value.toString('utf8');
+}
+
+export function readTime(node: Asn1Node): Date {
+  const text = node.value.toString('ascii');
+
+  if (node.tag === Asn1Tag.UTC_TIME) {
+    const match = /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(text);
+    if (!match) {
+      throw new Error(`Invalid UTCTime: ${text}`);
+    }
+    const year = Number(match[1]) >= 50 ? 1900 + Number(match[1]) : 2000 + Number(match[1]);
+    return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6])));
+  }
+
+  expectTag(node, Asn1Tag.GENERALIZED_TIME);
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d+))?Z$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid GeneralizedTime: ${text}`);
+  }
+  const millis = match[7] ? Number((match[7] + '00').slice(0, 3)) : 0;
+  return new Date(Date.UTC(
+    Number(match[1]), Number(match[2]) - 1, Number(match[3]),
+    Number(match[4]), Number(match[5]), Number(match[6]), millis
+  ));
+}
+
+function expectTag(node: Asn1Node, tag: number): void {
+  if (node.tag !== tag) {
+    throw new Error(`Unexpected ASN.1 tag 0x${node.tag.toString(16)}, expected 0x${tag.toString(16)}`);
+  }
+}
+
+// Encoding
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  const bytes: number[] = [];
+  let remaining = length;
+  while (remaining > 0) {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+export function encodeTlv(tag: number, content: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+}
+
+export const der = {
+  sequence: (...items: Buffer[]): Buffer => encodeTlv(Asn1Tag.SEQUENCE, Buffer.concat(items)),
+
+  /**
+   * SET OF with DER ordering (elements sorted by encoding)
+   */
+  set: (...items: Buffer[]): Buffer => encodeTlv(Asn1Tag.SET, Buffer.concat([...items].sort(Buffer.compare))),
+
+  integer: (value: bigint | number | Buffer): Buffer => {
+    let bytes: Buffer;
+    if (Buffer.isBuffer(value)) {
+      // Unsigned magnitude: strip leading zeros, add one if high bit set
+      let start = 0;
+      while (start < value.length - 1 && value[start] === 0) start++;
+      bytes = value.subarray(start);
+      if (bytes.length === 0) bytes = Buffer.from([0]);
+      if (bytes[0]! & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+    } else {
+      const big = BigInt(value);
+      if (big < BigInt(0)) {
+        throw new Error('Negative integers are not supported');
+      }
+      let hex = big.toString(16);
+      if (hex.length % 2) hex = '0' + hex;
+      bytes = Buffer.from(hex, 'hex');
+      if (bytes[0]! & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+    }
+    return encodeTlv(Asn1Tag.INTEGER, bytes);
+  },
+
+  boolean: (value: boolean): Buffer => encodeTlv(Asn1Tag.BOOLEAN, Buffer.from([value ? 0xff : 0x00])),
+
+  null: (): Buffer => Buffer.from([Asn1Tag.NULL, 0x00]),
+
+  oid: (oid: string): Buffer => {
+    const parts = oid.split('.').map(Number);
+    const bytes: number[] = [parts[0]! * 40 + parts[1]!];
+    for (const part of parts.slice(2)) {
+      const encoded: number[] = [part & 0x7f];
+      let remaining = Math.floor(part / 128);
+      while (remaining > 0) {
+        encoded.unshift((remaining & 0x7f) | 0x80);
+        remaining = Math.floor(remaining / 128);
+      }
+      bytes.push(...encoded);
+    }
+    return encodeTlv(Asn1Tag.OID, Buffer.from(bytes));
+  },
+
+  octetString: (value: Buffer): Buffer => encodeTlv(Asn1Tag.OCTET_STRING, value),
+
+  bitString: (value: Buffer, unusedBits: number = 0): Buffer =>
+    encodeTlv(Asn1Tag.BIT_STRING, Buffer.concat([Buffer.from([unusedBits]), value])),
+
+  utf8String: (value: string): Buffer => encodeTlv(Asn1Tag.UTF8_STRING, Buffer.from(value, 'utf8')),
+
+  printableString: (value: string): Buffer => encodeTlv(Asn1Tag.PRINTABLE_STRING, Buffer.from(value, 'ascii')),
+
+  generalizedTime: (date: Date): Buffer => {
+    const iso = date.toISOString(); // 2024-01-01T00:00:00.000Z
+    const millis = iso.slice(20, 23).replace(/0+$/, '');
+    const text = iso.slice(0, 19).replace(/[-:T]/g, '') + (millis ? `.${millis}` : '') + 'Z';
+    return encodeTlv(Asn1Tag.GENERALIZED_TIME, Buffer.from(text, 'ascii'));
+  },
+
+  utcTime: (date: Date): Buffer => {
+    const text = date.toISOString().slice(2, 19).replace(/[-:T]/g, '') + 'Z';
+    return encodeTlv(Asn1Tag.UTC_TIME, Buffer.from(text, 'ascii'));
+  },
+
+  /**
+   * [n] EXPLICIT wrapper
+   */
+  explicit: (tagNumber: number, inner: Buffer): Buffer => encodeTlv(0xa0 | tagNumber, inner),
+
+  /**
+   * [n] IMPLICIT with the given contents octets
+   */
+  implicit: (tagNumber: number, content: Buffer, constructed: boolean = true): Buffer =>
+    encodeTlv((constructed ? 0xa0 : 0x80) | tagNumber, content),
+
+  algorithmIdentifier: (oid: string, withNullParams: boolean = true): Buffer =>
+    withNullParams ? der.sequence(der.oid(oid), der.null()) : der.sequence(der.oid(oid))
+};
@@ -1,9 +1,16 @@
 import crypto from 'crypto';
-import { DigitalFingerprint, IntegrityProof, DigitalSignature, BlockchainProof, TimestampAuthority, TamperCheck, TamperIndicator, VerificationRecord } from '../types';
+import { DigitalFingerprint, IntegrityProof, DigitalSignature, TransparencyLogProof, TimestampAuthority, TamperCheck, TamperIndicator, VerificationRecord } from '../types';
+import { TimestampAuthorityClient } from './timestamp-authority';
+import { leafHash, merkleTreeHash, verifyTransparencyProof } from './merkle-log';
 
 export class IntegrityService {
   private readonly hashAlgorithms = ['sha256', 'sha1', 'md5', 'sha512'];
   private readonly signatureAlgorithm = 'RSA-SHA256';
+
+  /**
+   * @param timestampAuthority RFC 3161 TSA used to timestamp integrity proofs
+   */
+  constructor(private readonly timestampAuthority?: TimestampAuthorityClient) {}
   
   /**
    * Generate comprehensive digital fingerprint for evidence
@@ -65,15 +72,15 @@ export class IntegrityService {
     );
     
     // Get timestamp from authority
-    const timestampAuthority = await this.getTimestampAuthority(fingerprint.sha256);
+    const timestampAuthority = await this.getTimestampAuthority(data);
     
-    // Create Merkle root for blockchain-style verification
-    const merkleRoot = this.calculateMerkleRoot([
+    // RFC 6962 Merkle root over the individual fingerprint hashes
+    const merkleRoot = merkleTreeHash([
       fingerprint.sha256,
       fingerprint.sha1,
       fingerprint.md5,
       fingerprint.metadataHash
-    ]);
+    ].map(hash => leafHash(hash))).toString('hex');
     
     return {
       id: crypto.randomUUID(),
@@ -91,12 +98,16 @@ export class IntegrityService {
   
   /**
    * Create digital signature
+   *
+   * @param certificateChain PEM certificates for the signing key, signer first and
+   *   root last (for custodians, as issued by the backend signing CA)
    */
   async createDigitalSignature(
     data: string,
     privateKey: string,
     signedBy: string,
-    purpose: 'CUSTODY_TRANSFER' | 'INTEGRITY_VERIFICATION' | 'AUTHENTICATION' | 'NON_REPUDIATION' | 'APPROVAL'
+    purpose: 'CUSTODY_TRANSFER' | 'INTEGRITY_VERIFICATION' | 'AUTHENTICATION' | 'NON_REPUDIATION' | 'APPROVAL',
+    certificateChain: string[] = []
   ): Promise<DigitalSignature> {
     const sign = crypto.createSign(this.signatureAlgorithm);
     sign.update(data);
@@ -116,10 +127,53 @@ export class IntegrityService {
       signedBy,
       signedAt: new Date(),
       purpose,
-      certificateChain: [] // Would be populated with actual certificates
+      certificateChain
     };
   }
   
+  /**
+   * Check that a signature's certificate chain leads from its public key to a trusted root:
+   * the first certificate certifies the signing key, each is issued by the next, all were
+   * valid when the signature was made and the last was issued by the trusted root
+   */
+  verifyCertificateChain(signature: DigitalSignature, trustedRootPem: string): boolean {
+    const chain = signature.certificateChain || [];
+    if (chain.length === 0) {
+      return false;
+    }
+
+    try {
+      const certificates = chain.map(pem => new crypto.X509Certificate(pem));
+      const root = new crypto.X509Certificate(trustedRootPem);
+      const signedAt = new Date(signature.signedAt);
+
+      const signerKey = crypto.createPublicKey(signature.publicKey).export({ type: 'spki', format: 'der' });
+      if (!certificates[0].publicKey.export({ type: 'spki', format: 'der' }).equals(signerKey)) {
+        return false;
+      }
+
+      for (let i = 0; i < certificates.length; i++) {
+        const certificate = certificates[i];
+        const issuer = certificates[i + 1] || root;
+
+        if (signedAt < new Date(certificate.validFrom) || signedAt > new Date(certificate.validTo)) {
+          return false;
+        }
+        if (i > 0 && !certificate.ca) {
+          return false;
+        }
+        if (!certificate.checkIssued(issuer) || !certificate.verify(issuer.publicKey)) {
+          return false;
+        }
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Certificate chain verification failed:', error);
+      return false;
+    }
+  }
+  
   /**
    * Verify digital signature
    */
@@ -158,7 +212,7 @@ export class IntegrityService {
     );
     
     // Check timestamp authority
-    const timestampValid = await this.verifyTimestamp(originalProof.timestampAuthority);
+    const timestampValid = await this.verifyTimestamp(originalProof.timestampAuthority, currentData);
     
     // Calculate confidence score
     let confidence = 0;
@@ -217,6 +271,16 @@ export class IntegrityService {
         confidence: 90
       });
     }
+
+    if (!(await this.verifyTimestamp(originalProof.timestampAuthority, currentData))) {
+      indicators.push({
+        type: 'TIMESTAMP_ANOMALY',
+        severity: 'HIGH',
+        description: 'RFC 3161 timestamp token does not verify for the current data',
+        evidence: `Authority: ${originalProof.timestampAuthority.authority}`,
+        confidence: 90
+      });
+    }
     
     // Signature verification
     const signatureValid = await this.verifyDigitalSignature(
@@ -269,33 +333,23 @@ export class IntegrityService {
   }
   
   /**
-   * Create blockchain-style proof
+   * Verify that a fingerprint's transparency log proof holds: the leaf is the logged
+   * fingerprint, the audit path leads to the tree head's root, and the tree head
+   * carries a valid signature from the log key
    */
-  async createBlockchainProof(
-    data: string,
-    networkId: string = 'evidence-chain'
-  ): Promise<BlockchainProof> {
-    // Simulate blockchain integration
-    const blockHash = crypto.createHash('sha256')
-      .update(data + Date.now().toString())
-      .digest('hex');
-    
-    const transactionHash = crypto.createHash('sha256')
-      .update(blockHash + data)
-      .digest('hex');
-    
-    // Generate Merkle proof
-    const merkleProof = this.generateMerkleProof(data, [blockHash, transactionHash]);
-    
-    return {
-      blockHash,
-      transactionHash,
-      blockNumber: Math.floor(Date.now() / 1000), // Simplified block number
-      networkId,
-      confirmations: 6, // Simulated confirmations
-      timestamp: new Date(),
-      merkleProof
-    };
+  verifyTransparencyProof(
+    fingerprint: DigitalFingerprint,
+    proof: TransparencyLogProof,
+    logPublicKey: string
+  ): boolean {
+    let logged: any;
+    try {
+      logged = JSON.parse(proof.leafData);
+    } catch (error) {
+      return false;
+    }
+
+    return logged.hash === fingerprint.sha256 && verifyTransparencyProof(proof, logPublicKey);
   }
   
   /**
@@ -323,80 +377,51 @@ export class IntegrityService {
   }
   
   /**
-   * Calculate Merkle root
+   * Get an RFC 3161 timestamp token for the data from the configured authority
    */
-  private calculateMerkleRoot(hashes: string[]): string {
-    if (hashes.length === 0) return '';
-    if (hashes.length === 1) return hashes[0];
-    
-    const nextLevel: string[] = [];
-    
-    for (let i = 0; i < hashes.length; i += 2) {
-      const left = hashes[i];
-      const right = i + 1 < hashes.length ? hashes[i + 1] : left;
-      
-      const combined = crypto.createHash('sha256')
-        .update(left + right)
-        .digest('hex');
-      
-      nextLevel.push(combined);
+  private async getTimestampAuthority(data: Buffer): Promise<TimestampAuthority> {
+    if (!this.timestampAuthority) {
+      throw new Error('No RFC 3161 timestamp authority configured');
     }
-    
-    return this.calculateMerkleRoot(nextLevel);
-  }
-  
-  /**
-   * Generate Merkle proof
-   */
-  private generateMerkleProof(data: string, siblings: string[]): string[] {
-    const proof: string[] = [];
-    
-    siblings.forEach(sibling => {
-      const combined = crypto.createHash('sha256')
-        .update(data + sibling)
-        .digest('hex');
-      proof.push(combined);
-    });
-    
-    return proof;
-  }
-  
-  /**
-   * Get timestamp from authority (simulated)
-   */
-  private async getTimestampAuthority(data: string): Promise<TimestampAuthority> {
-    // In production, this would connect to a real timestamp authority
-    const token = crypto.createHash('sha256')
-      .update(data + Date.now().toString())
+
+    const digest = crypto
+      .createHash(this.timestampAuthority.hashAlgorithm)
+      .update(data)
       .digest('hex');
-    
-    const certificate = 'MOCK_CERTIFICATE_' + crypto.randomUUID();
-    
+
+    const { token, info } = await this.timestampAuthority.timestamp(digest);
+
     return {
-      authority: 'RFC3161_TIMESTAMP_AUTHORITY',
-      timestamp: new Date(),
-      token,
-      certificate,
+      authority: this.timestampAuthority.name,
+      timestamp: info.genTime,
+      token: token.toString('base64'),
+      certificate: this.timestampAuthority.certificatePem,
       verified: true
     };
   }
   
   /**
-   * Verify timestamp authority
+   * Verify an RFC 3161 timestamp token: TSA signature, certificate binding,
+   * message imprint (when data is given) and the recorded time
    */
-  private async verifyTimestamp(authority: TimestampAuthority): Promise<boolean> {
-    // In production, this would verify against the actual timestamp authority
-    const now = Date.now();
-    const timestampTime = authority.timestamp.getTime();
-    
-    // Check if timestamp is reasonable (not too far in past/future)
-    const maxAge = 365 * 24 * 60 * 60 * 1000; // 1 year
-    const maxFuture = 5 * 60 * 1000; // 5 minutes
-    
+  private async verifyTimestamp(authority: TimestampAuthority, data?: Buffer): Promise<boolean> {
+    if (!this.timestampAuthority || !authority.token) {
+      return false;
+    }
+
+    const digest = data ?
+      crypto.createHash(this.timestampAuthority.hashAlgorithm).update(data).digest('hex') :
+      undefined;
+
+    const verification = this.timestampAuthority.verifyToken(
+      Buffer.from(authority.token, 'base64'),
+      digest
+    );
+
     return (
-      authority.verified &&
-      timestampTime <= (now + maxFuture) &&
-      timestampTime >= (now - maxAge)
+      verification.valid &&
+      !!verification.info &&
+      verification.info.genTime.getTime() === new Date(authority.timestamp).getTime()
     );
   }
   
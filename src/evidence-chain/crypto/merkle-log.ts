@@ -0,0 +1,6 @@
+/**
+ * RFC 6962 Merkle tree hashing and proofs for the evidence transparency log.
+ * The implementation lives with the log in backend/src/utils/merkleLog.ts, so
+ * the trees the log builds and the proofs checked here cannot drift apart.
+ */
+export * from '../../../backend/src/utils/merkleLog';
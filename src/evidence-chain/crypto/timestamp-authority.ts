@@ -0,0 +1,448 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import { Asn1Node, Asn1Tag, decodeDer, der, child, contextChild, readOid, readInteger, readTime } from './asn1';
+
+export const TspOid = {
+  SIGNED_DATA: '1.2.840.113549.1.7.2',
+  TST_INFO: '1.2.840.113549.1.9.16.1.4',
+  CONTENT_TYPE: '1.2.840.113549.1.9.3',
+  MESSAGE_DIGEST: '1.2.840.113549.1.9.4',
+  SIGNING_CERTIFICATE: '1.2.840.113549.1.9.16.2.12',
+  SIGNING_CERTIFICATE_V2: '1.2.840.113549.1.9.16.2.47',
+  RSA_ENCRYPTION: '1.2.840.113549.1.1.1',
+  EKU_TIME_STAMPING: '1.3.6.1.5.5.7.3.8'
+} as const;
+
+const HASH_OIDS: Record<string, string> = {
+  '1.3.14.3.2.26': 'sha1',
+  '2.16.840.1.101.3.4.2.1': 'sha256',
+  '2.16.840.1.101.3.4.2.2': 'sha384',
+  '2.16.840.1.101.3.4.2.3': 'sha512'
+};
+
+const SIGNATURE_OIDS: Record<string, string> = {
+  '1.2.840.113549.1.1.5': 'sha1',
+  '1.2.840.113549.1.1.11': 'sha256',
+  '1.2.840.113549.1.1.12': 'sha384',
+  '1.2.840.113549.1.1.13': 'sha512',
+  '1.2.840.10045.4.3.2': 'sha256',
+  '1.2.840.10045.4.3.3': 'sha384',
+  '1.2.840.10045.4.3.4': 'sha512'
+};
+
+export type TimestampHashAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+export const PKIStatus = {
+  GRANTED: 0,
+  GRANTED_WITH_MODS: 1,
+  REJECTION: 2,
+  WAITING: 3,
+  REVOCATION_WARNING: 4,
+  REVOCATION_NOTIFICATION: 5
+} as const;
+
+/**
+ * Carries a DER TimeStampReq to a TSA and returns the DER TimeStampResp.
+ * Swap in a local implementation to test against an in-process TSA.
+ */
+export interface TimestampTransport {
+  send(request: Buffer): Promise<Buffer>;
+}
+
+export interface TimestampAuthorityConfig {
+  name: string;
+  url?: string;
+  transport?: TimestampTransport;
+  certificate: string; // Trusted TSA signing certificate (PEM)
+  hashAlgorithm: TimestampHashAlgorithm;
+  policyOid?: string;
+  requestCertificate: boolean;
+  timeoutMs: number;
+}
+
+export interface TimestampTokenInfo {
+  policy: string;
+  hashAlgorithm: string;
+  messageImprint: string; // hex
+  serialNumber: string;
+  genTime: Date;
+  nonce?: string;
+}
+
+export interface TimestampResponse {
+  status: number;
+  statusText: string[];
+  failInfo?: number;
+  token?: Buffer;
+}
+
+export interface TimestampVerification {
+  valid: boolean;
+  errors: string[];
+  info?: TimestampTokenInfo;
+}
+
+interface ParsedToken {
+  info: TimestampTokenInfo;
+  tstInfoDer: Buffer;
+  digestAlgorithm: string;
+  signedAttrs?: Asn1Node;
+  signatureDigest: string;
+  signature: Buffer;
+}
+
+/**
+ * RFC 3161 transport over HTTP(S) (application/timestamp-query)
+ */
+export class HttpTimestampTransport implements TimestampTransport {
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs: number = 30000
+  ) {}
+
+  send(request: Buffer): Promise<Buffer> {
+    const target = new URL(this.url);
+    const client = target.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = client.request(target, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/timestamp-query',
+          'Content-Length': request.length
+        },
+        timeout: this.timeoutMs
+      }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => {
+          if (res.statusCode !== 200) {
+            reject(new Error(`Timestamp authority returned HTTP ${res.statusCode}`));
+            return;
+          }
+          resolve(Buffer.concat(chunks));
+        });
+        res.on('error', reject);
+      });
+
+      req.on('timeout', () => req.destroy(new Error('Timestamp authority request timed out')));
+      req.on('error', reject);
+      req.end(request);
+    });
+  }
+}
+
+export class TimestampAuthorityClient {
+  private config: TimestampAuthorityConfig;
+  private transport: TimestampTransport;
+  private tsaCertificate: crypto.X509Certificate;
+
+  constructor(config: Partial<TimestampAuthorityConfig> = {}) {
+    const certificatePath = process.env.TSA_CERTIFICATE_PATH;
+
+    this.config = {
+      name: process.env.TSA_NAME || 'RFC3161_TIMESTAMP_AUTHORITY',
+      ...(process.env.TSA_URL && { url: process.env.TSA_URL }),
+      certificate: config.certificate || (certificatePath ? fs.readFileSync(certificatePath, 'utf8') : ''),
+      hashAlgorithm: 'sha256',
+      requestCertificate: true,
+      timeoutMs: 30000,
+      ...config
+    };
+
+    if (!this.config.certificate) {
+      throw new Error('Timestamp authority certificate is required (TSA_CERTIFICATE_PATH)');
+    }
+
+    if (this.config.transport) {
+      this.transport = this.config.transport;
+    } else if (this.config.url) {
+      this.transport = new HttpTimestampTransport(this.config.url, this.config.timeoutMs);
+    } else {
+      throw new Error('Timestamp authority requires either a url or a transport');
+    }
+
+    this.tsaCertificate = new crypto.X509Certificate(this.config.certificate);
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get hashAlgorithm(): TimestampHashAlgorithm {
+    return this.config.hashAlgorithm;
+  }
+
+  get certificatePem(): string {
+    return this.tsaCertificate.toString();
+  }
+
+  /**
+   * Obtain a timestamp token for a hex digest produced with the configured hash algorithm
+   */
+  async timestamp(digestHex: string): Promise<{ token: Buffer; info: TimestampTokenInfo }> {
+    const nonce = BigInt('0x' + crypto.randomBytes(8).toString('hex'));
+    const request = this.buildRequest(Buffer.from(digestHex, 'hex'), nonce);
+    const response = this.parseResponse(await this.transport.send(request));
+
+    if (response.status !== PKIStatus.GRANTED && response.status !== PKIStatus.GRANTED_WITH_MODS) {
+      throw new Error(`Timestamp request rejected (status ${response.status}): ${response.statusText.join('; ')}`);
+    }
+    if (!response.token) {
+      throw new Error('Timestamp response granted without a token');
+    }
+
+    const verification = this.verifyToken(response.token, digestHex);
+    if (!verification.valid || !verification.info) {
+      throw new Error(`Timestamp token failed verification: ${verification.errors.join('; ')}`);
+    }
+    if (verification.info.nonce !== nonce.toString()) {
+      throw new Error('Timestamp token nonce does not match request');
+    }
+
+    return { token: response.token, info: verification.info };
+  }
+
+  /**
+   * Build a DER encoded TimeStampReq
+   */
+  buildRequest(digest: Buffer, nonce?: bigint): Buffer {
+    const hashOid = Object.keys(HASH_OIDS).find(oid => HASH_OIDS[oid] === this.config.hashAlgorithm)!;
+
+    return der.sequence(
+      der.integer(1),
+      der.sequence(der.algorithmIdentifier(hashOid), der.octetString(digest)),
+      ...(this.config.policyOid ? [der.oid(this.config.policyOid)] : []),
+      ...(nonce !== undefined ? [der.integer(nonce)] : []),
+      // certReq DEFAULT FALSE must be omitted when false
+      ...(this.config.requestCertificate ? [der.boolean(true)] : [])
+    );
+  }
+
+  /**
+   * Parse a DER encoded TimeStampResp
+   */
+  parseResponse(response: Buffer): TimestampResponse {
+    const root = decodeDer(response);
+    const statusInfo = child(root, 0);
+
+    const result: TimestampResponse = {
+      status: Number(readInteger(child(statusInfo, 0))),
+      statusText: []
+    };
+
+    for (const element of statusInfo.children.slice(1)) {
+      if (element.tag === Asn1Tag.SEQUENCE) {
+        result.statusText = element.children.map(text => text.value.toString('utf8'));
+      } else if (element.tag === Asn1Tag.BIT_STRING) {
+        result.failInfo = element.value.length > 1 ? element.value.readUIntBE(1, Math.min(element.value.length - 1, 4)) : 0;
+      }
+    }
+
+    const token = root.children[1];
+    if (token) {
+      result.token = Buffer.from(token.raw);
+    }
+
+    return result;
+  }
+
+  /**
+   * Decode the TSTInfo carried by a timestamp token without verifying it
+   */
+  parseToken(token: Buffer): TimestampTokenInfo {
+    return this.decodeToken(token).info;
+  }
+
+  /**
+   * Verify a timestamp token against the configured TSA certificate and,
+   * when given, the digest it is expected to cover
+   */
+  verifyToken(token: Buffer, expectedDigestHex?: string): TimestampVerification {
+    const errors: string[] = [];
+    let parsed: ParsedToken;
+
+    try {
+      parsed = this.decodeToken(token);
+    } catch (error) {
+      return { valid: false, errors: [`Malformed timestamp token: ${(error as Error).message}`] };
+    }
+
+    const { info } = parsed;
+
+    if (expectedDigestHex && info.messageImprint !== expectedDigestHex.toLowerCase()) {
+      errors.push('Message imprint does not match the timestamped data');
+    }
+
+    if (!parsed.signedAttrs) {
+      errors.push('Token has no signed attributes');
+    } else {
+      const attributes = this.readAttributes(parsed.signedAttrs);
+
+      const contentType = attributes.get(TspOid.CONTENT_TYPE);
+      if (!contentType || readOid(contentType) !== TspOid.TST_INFO) {
+        errors.push('Content-type attribute is not id-ct-TSTInfo');
+      }
+
+      const messageDigest = attributes.get(TspOid.MESSAGE_DIGEST);
+      const tstInfoDigest = crypto.createHash(parsed.digestAlgorithm).update(parsed.tstInfoDer).digest();
+      if (!messageDigest || !messageDigest.value.equals(tstInfoDigest)) {
+        errors.push('Message-digest attribute does not match TSTInfo');
+      }
+
+      const certificateError = this.checkSigningCertificate(attributes);
+      if (certificateError) {
+        errors.push(certificateError);
+      }
+
+      // Signature covers the DER SET OF signed attributes, not the [0] IMPLICIT form
+      const signedData = Buffer.from(parsed.signedAttrs.raw);
+      signedData[0] = Asn1Tag.SET;
+
+      let signatureValid = false;
+      try {
+        signatureValid = crypto.verify(
+          parsed.signatureDigest,
+          signedData,
+          this.tsaCertificate.publicKey,
+          parsed.signature
+        );
+      } catch (error) {
+        signatureValid = false;
+      }
+
+      if (!signatureValid) {
+        errors.push('TSA signature does not verify with the configured certificate');
+      }
+    }
+
+    const validFrom = new Date(this.tsaCertificate.validFrom);
+    const validTo = new Date(this.tsaCertificate.validTo);
+    if (info.genTime < validFrom || info.genTime > validTo) {
+      errors.push('Timestamp was issued outside the TSA certificate validity period');
+    }
+
+    const extendedKeyUsage = this.tsaCertificate.keyUsage;
+    if (extendedKeyUsage && !extendedKeyUsage.includes(TspOid.EKU_TIME_STAMPING)) {
+      errors.push('TSA certificate is not authorised for time stamping');
+    }
+
+    return { valid: errors.length === 0, errors, info };
+  }
+
+  private decodeToken(token: Buffer): ParsedToken {
+    const contentInfo = decodeDer(token);
+    if (readOid(child(contentInfo, 0)) !== TspOid.SIGNED_DATA) {
+      throw new Error('Token is not CMS SignedData');
+    }
+
+    const signedData = child(child(contentInfo, 1), 0);
+    const encapContentInfo = child(signedData, 2);
+    if (readOid(child(encapContentInfo, 0)) !== TspOid.TST_INFO) {
+      throw new Error('Encapsulated content is not TSTInfo');
+    }
+
+    const eContent = child(child(encapContentInfo, 1), 0);
+    const tstInfoDer = Buffer.from(eContent.value);
+    const info = this.decodeTstInfo(decodeDer(tstInfoDer));
+
+    const signerInfos = signedData.children[signedData.children.length - 1]!;
+    if (signerInfos.tag !== Asn1Tag.SET || signerInfos.children.length !== 1) {
+      throw new Error('Expected exactly one SignerInfo');
+    }
+
+    const signerInfo = child(signerInfos, 0);
+    const digestAlgorithm = this.hashName(readOid(child(child(signerInfo, 2), 0)));
+    const signedAttrs = contextChild(signerInfo, 0);
+    const remainder = signerInfo.children.slice(signedAttrs ? 4 : 3);
+    const signatureAlgorithmOid = readOid(child(remainder[0]!, 0));
+    const signature = remainder[1];
+
+    if (!signature || signature.tag !== Asn1Tag.OCTET_STRING) {
+      throw new Error('SignerInfo has no signature');
+    }
+
+    const signatureDigest = signatureAlgorithmOid === TspOid.RSA_ENCRYPTION ?
+      digestAlgorithm :
+      SIGNATURE_OIDS[signatureAlgorithmOid];
+
+    if (!signatureDigest) {
+      throw new Error(`Unsupported signature algorithm ${signatureAlgorithmOid}`);
+    }
+
+    return {
+      info,
+      tstInfoDer,
+      digestAlgorithm,
+      ...(signedAttrs && { signedAttrs }),
+      signatureDigest,
+      signature: Buffer.from(signature.value)
+    };
+  }
+
+  private decodeTstInfo(tstInfo: Asn1Node): TimestampTokenInfo {
+    const messageImprint = child(tstInfo, 2);
+    const info: TimestampTokenInfo = {
+      policy: readOid(child(tstInfo, 1)),
+      hashAlgorithm: this.hashName(readOid(child(child(messageImprint, 0), 0))),
+      messageImprint: child(messageImprint, 1).value.toString('hex'),
+      serialNumber: readInteger(child(tstInfo, 3)).toString(),
+      genTime: readTime(child(tstInfo, 4))
+    };
+
+    // Optional fields after genTime: accuracy, ordering, nonce, tsa, extensions
+    for (const element of tstInfo.children.slice(5)) {
+      if (element.tag === Asn1Tag.INTEGER) {
+        info.nonce = readInteger(element).toString();
+      }
+    }
+
+    return info;
+  }
+
+  private readAttributes(signedAttrs: Asn1Node): Map<string, Asn1Node> {
+    const attributes = new Map<string, Asn1Node>();
+    for (const attribute of signedAttrs.children) {
+      const values = child(attribute, 1);
+      attributes.set(readOid(child(attribute, 0)), child(values, 0));
+    }
+    return attributes;
+  }
+
+  /**
+   * Check ESS signing-certificate binding (RFC 2634 / RFC 5035) when present
+   */
+  private checkSigningCertificate(attributes: Map<string, Asn1Node>): string | null {
+    const v2 = attributes.get(TspOid.SIGNING_CERTIFICATE_V2);
+    const v1 = attributes.get(TspOid.SIGNING_CERTIFICATE);
+    const signingCertificate = v2 || v1;
+
+    if (!signingCertificate) {
+      return null;
+    }
+
+    const essCertId = child(child(signingCertificate, 0), 0);
+    let hashAlgorithm = v2 ? 'sha256' : 'sha1';
+    let certHash = child(essCertId, 0);
+
+    if (v2 && certHash.tag === Asn1Tag.SEQUENCE) {
+      hashAlgorithm = this.hashName(readOid(child(certHash, 0)));
+      certHash = child(essCertId, 1);
+    }
+
+    const expected = crypto.createHash(hashAlgorithm).update(this.tsaCertificate.raw).digest();
+    return certHash.value.equals(expected) ?
+      null :
+      'Signing-certificate attribute does not reference the configured TSA certificate';
+  }
+
+  private hashName(oid: string): string {
+    const name = HASH_OIDS[oid];
+    if (!name) {
+      throw new Error(`Unsupported hash algorithm ${oid}`);
+    }
+    return name;
+  }
+}
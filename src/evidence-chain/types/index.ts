@@ -276,8 +276,8 @@ export interface DigitalFingerprint {
   // Metadata fingerprint
   metadataHash: string;
   
-  // Blockchain-style proof
-  blockchainProof?: BlockchainProof;
+  // Inclusion in the append-only evidence transparency log
+  transparencyProof?: TransparencyLogProof;
   
   createdAt: Date;
   algorithm: string;
@@ -311,17 +311,27 @@ export enum ProofType {
   PHOTOGRAPHIC = 'PHOTOGRAPHIC',
   WITNESS = 'WITNESS',
   TIMESTAMP = 'TIMESTAMP',
-  BLOCKCHAIN = 'BLOCKCHAIN'
+  TRANSPARENCY_LOG = 'TRANSPARENCY_LOG'
 }
 
-export interface BlockchainProof {
-  blockHash: string;
-  transactionHash: string;
-  blockNumber: number;
-  networkId: string;
-  confirmations: number;
+// RFC 6962 signed tree head; logId is the SHA-256 of the log's public key (SPKI DER)
+export interface SignedTreeHead {
+  logId: string;
+  treeSize: number;
+  rootHash: string;
   timestamp: Date;
-  merkleProof?: string[];
+  signature: string;
+  signatureAlgorithm: string;
+}
+
+export interface TransparencyLogProof {
+  leafIndex: number;
+  leafData: string;
+  leafHash: string;
+  treeSize: number;
+  rootHash: string;
+  inclusionProof: string[];
+  treeHead: SignedTreeHead;
 }
 
 export interface DigitalSignature {
@@ -0,0 +1,95 @@
+import nodemailer from 'nodemailer';
+import {
+  ImapProvider,
+  MemoryMailboxSyncStore,
+} from '../../../../src/communication/channels/email/providers/imap-provider';
+
+// Runs against the GreenMail server from docker-compose:
+//   docker compose --profile mail up -d mailserver
+//   IMAP_TEST_HOST=localhost npx jest tests/backend/integration/mail
+const host = process.env['IMAP_TEST_HOST'];
+const describeWithMailServer = host ? describe : describe.skip;
+
+describeWithMailServer('IMAP Provider against GreenMail', () => {
+  // GreenMail runs with auth disabled and creates the mailbox on first delivery
+  const user = `records-${Date.now()}@localhost`;
+  const config = {
+    host: host as string,
+    port: Number(process.env['IMAP_TEST_PORT'] || 3143),
+    secure: false,
+    auth: { user, pass: 'any' },
+    smtp: { host: host as string, port: Number(process.env['SMTP_TEST_PORT'] || 3025), secure: false, from: user },
+  };
+
+  const deliver = async (subject: string) => {
+    const transport = nodemailer.createTransport({ host: config.smtp.host, port: config.smtp.port, secure: false });
+    await transport.sendMail({ from: 'counsel@example.com', to: user, subject, text: `${subject} body` });
+  };
+
+  const waitFor = async (condition: () => boolean, timeoutMs = 10000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for mail');
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  };
+
+  it('should sync existing mail by UID, pick up new mail while idling and resume from the stored mark', async () => {
+    await deliver('First');
+    await deliver('Second');
+
+    const store = new MemoryMailboxSyncStore();
+    const provider = new ImapProvider(config, store);
+    const emails: any[] = [];
+    provider.on('new-email', email => emails.push(email));
+
+    await provider.initialize();
+    await provider.connect();
+    try {
+      await provider.startRealTimeMonitoring();
+      await waitFor(() => emails.length === 2);
+      expect(emails.map(email => email.raw.toString())).toEqual([
+        expect.stringContaining('Subject: First'),
+        expect.stringContaining('Subject: Second'),
+      ]);
+      expect(emails.every(email => email.messageId && !email.resync)).toBe(true);
+
+      await deliver('Third');
+      await waitFor(() => emails.length === 3);
+      expect(emails[2].raw.toString()).toContain('Subject: Third');
+      expect(emails[2].uid).toBeGreaterThan(emails[1].uid);
+    } finally {
+      await provider.disconnect();
+    }
+
+    await deliver('Fourth');
+    const next = new ImapProvider(config, store);
+    const later: any[] = [];
+    next.on('new-email', email => later.push(email));
+
+    await next.connect();
+    try {
+      await next.startRealTimeMonitoring();
+      await waitFor(() => later.length === 1);
+      expect(later[0].raw.toString()).toContain('Subject: Fourth');
+    } finally {
+      await next.disconnect();
+    }
+  }, 30000);
+
+  it('should find messages with a channel query', async () => {
+    await deliver('Quarterly valuation');
+
+    const provider = new ImapProvider(config);
+    await provider.connect();
+    try {
+      const found = await provider.retrieveEmails({ keywords: ['valuation'], senders: ['counsel@example.com'] } as any);
+      expect(found.length).toBeGreaterThanOrEqual(1);
+      expect(found[0]!.raw.toString()).toContain('Quarterly valuation');
+    } finally {
+      await provider.disconnect();
+    }
+  }, 30000);
+});
@@ -0,0 +1,97 @@
+import {
+  batesRange,
+  buildStampPDF,
+  buildStampSVG,
+  parsePdfInfoPages,
+  pdfString
+} from '../../../../src/document-management/services/PageEndorsement';
+
+describe('PageEndorsement', () => {
+  const letter = { width: 612, height: 792, rotation: 0 as const };
+
+  describe('batesRange', () => {
+    it('should number consecutive pages with zero padding', () => {
+      expect(batesRange('ESOP', 98, 6, 3)).toEqual(['ESOP000098', 'ESOP000099', 'ESOP000100']);
+    });
+  });
+
+  describe('parsePdfInfoPages', () => {
+    it('should read per-page sizes and rotation', () => {
+      const stdout = [
+        'Pages:          2',
+        'Page    1 size: 612 x 792 pts (letter)',
+        'Page    1 rot:  0',
+        'Page    2 size: 841.89 x 595.276 pts (A4)',
+        'Page    2 rot:  90'
+      ].join('\n');
+
+      expect(parsePdfInfoPages(stdout)).toEqual([
+        { width: 612, height: 792, rotation: 0 },
+        { width: 841.89, height: 595.276, rotation: 90 }
+      ]);
+    });
+  });
+
+  describe('pdfString', () => {
+    it('should escape delimiters and encode Latin-1 characters as octal', () => {
+      expect(pdfString('Smith (Draft) \\ Müller')).toBe('(Smith \\(Draft\\) \\\\ M\\374ller)');
+      expect(pdfString('Line one\r\nLine two ☃')).toBe('(Line one Line two ?)');
+    });
+  });
+
+  describe('buildStampPDF', () => {
+    const stamps = [
+      { batesNumber: 'ESOP000001', legend: 'CONFIDENTIAL', watermark: 'DRAFT' },
+      { batesNumber: 'ESOP000002', legend: 'CONFIDENTIAL' }
+    ];
+
+    it('should produce one page per input page with a valid cross-reference table', () => {
+      const pdf = buildStampPDF([letter, { width: 842, height: 595, rotation: 0 }], stamps).toString('latin1');
+
+      expect(pdf).toContain('/Count 2');
+      expect(pdf).toContain('/MediaBox [0 0 842 595]');
+
+      const startxref = parseInt(pdf.match(/startxref\n(\d+)/)![1]!);
+      expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+
+      const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => parseInt(match[1]!));
+      expect(offsets).toHaveLength(9);
+      offsets.forEach((offset, i) => {
+        expect(pdf.slice(offset)).toMatch(new RegExp(`^${i + 1} 0 obj\\n`));
+      });
+    });
+
+    it('should right-align the Bates number and stamp the legend on each page', () => {
+      const pdf = buildStampPDF([letter, letter], stamps).toString('latin1');
+
+      // 10 characters of 10pt Courier end 18pt from the right edge
+      expect(pdf).toContain('BT /F2 10 Tf 534 18 Td (ESOP000001) Tj ET');
+      expect(pdf).toContain('BT /F2 10 Tf 534 18 Td (ESOP000002) Tj ET');
+      expect(pdf.match(/\(CONFIDENTIAL\) Tj/g)).toHaveLength(2);
+      expect(pdf.match(/\(DRAFT\) Tj/g)).toHaveLength(1);
+    });
+
+    it('should keep stamps upright on rotated pages', () => {
+      const pdf = buildStampPDF([{ width: 612, height: 792, rotation: 90 }], [{ batesNumber: 'ESOP000001' }])
+        .toString('latin1');
+
+      expect(pdf).toContain('0 1 -1 0 612 0 cm');
+      // Laid out across the displayed (landscape) width
+      expect(pdf).toContain('BT /F2 10 Tf 714 18 Td (ESOP000001) Tj ET');
+    });
+
+    it('should reject a stamp list that does not match the pages', () => {
+      expect(() => buildStampPDF([letter], stamps)).toThrow('Stamp count (2) does not match page count (1)');
+    });
+  });
+
+  describe('buildStampSVG', () => {
+    it('should escape markup in endorsement text', () => {
+      const svg = buildStampSVG(1224, 1584, { batesNumber: 'ESOP000001', legend: 'AEO <Smith & Co>' });
+
+      expect(svg).toContain('width="1224" height="1584"');
+      expect(svg).toContain('AEO &#60;Smith &#38; Co&#62;');
+      expect(svg).toContain('text-anchor="end">ESOP000001</text>');
+    });
+  });
+});
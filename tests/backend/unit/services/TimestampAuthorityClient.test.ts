@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import { der, decodeDer } from '../../../../src/evidence-chain/crypto/asn1';
+import {
+  TimestampAuthorityClient,
+  TimestampTransport,
+  TspOid
+} from '../../../../src/evidence-chain/crypto/timestamp-authority';
+import { IntegrityService } from '../../../../src/evidence-chain/crypto/integrity-service';
+
+const SHA256 = '2.16.840.1.101.3.4.2.1';
+const SHA256_WITH_RSA = '1.2.840.113549.1.1.11';
+
+/**
+ * In-process RFC 3161 TSA standing in for a real authority
+ */
+class LocalTestTsa implements TimestampTransport {
+  readonly keys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  readonly name = der.sequence(der.set(der.sequence(der.oid('2.5.4.3'), der.utf8String('Local Test TSA'))));
+  readonly certificate: Buffer;
+  status = 0;
+  tamperWith?: (tstInfo: Buffer) => Buffer;
+  private serial = 1;
+
+  constructor(timeStampingUsage: boolean = true) {
+    const eku = der.sequence(
+      der.oid('2.5.29.37'),
+      der.boolean(true),
+      der.octetString(der.sequence(der.oid(timeStampingUsage ? TspOid.EKU_TIME_STAMPING : '1.3.6.1.5.5.7.3.1')))
+    );
+    const tbs = der.sequence(
+      der.explicit(0, der.integer(2)),
+      der.integer(1),
+      der.algorithmIdentifier(SHA256_WITH_RSA),
+      this.name,
+      der.sequence(der.utcTime(new Date(Date.now() - 86400000)), der.utcTime(new Date(Date.now() + 86400000))),
+      this.name,
+      this.keys.publicKey.export({ type: 'spki', format: 'der' }),
+      der.explicit(3, der.sequence(eku))
+    );
+    const signature = crypto.sign('sha256', tbs, this.keys.privateKey);
+    this.certificate = der.sequence(tbs, der.algorithmIdentifier(SHA256_WITH_RSA), der.bitString(signature));
+  }
+
+  get certificatePem(): string {
+    return new crypto.X509Certificate(this.certificate).toString();
+  }
+
+  async send(request: Buffer): Promise<Buffer> {
+    if (this.status !== 0) {
+      return der.sequence(der.sequence(der.integer(this.status), der.sequence(der.utf8String('badRequest'))));
+    }
+
+    const parsed = decodeDer(request);
+    const messageImprint = parsed.children[1]!.raw;
+    const nonce = parsed.children.find((c, i) => i > 1 && c.tag === 0x02);
+
+    let tstInfo = der.sequence(
+      der.integer(1),
+      der.oid('1.2.3.4.1'),
+      messageImprint,
+      der.integer(this.serial++),
+      der.generalizedTime(new Date()),
+      ...(nonce ? [nonce.raw] : [])
+    );
+    const signedTstInfo = tstInfo;
+    if (this.tamperWith) {
+      tstInfo = this.tamperWith(tstInfo);
+    }
+
+    const attributes = der.set(
+      der.sequence(der.oid(TspOid.CONTENT_TYPE), der.set(der.oid(TspOid.TST_INFO))),
+      der.sequence(
+        der.oid(TspOid.MESSAGE_DIGEST),
+        der.set(der.octetString(crypto.createHash('sha256').update(signedTstInfo).digest()))
+      ),
+      der.sequence(
+        der.oid(TspOid.SIGNING_CERTIFICATE_V2),
+        der.set(der.sequence(der.sequence(der.sequence(
+          der.octetString(crypto.createHash('sha256').update(this.certificate).digest())
+        ))))
+      )
+    );
+    const signature = crypto.sign('sha256', attributes, this.keys.privateKey);
+    const implicitAttributes = Buffer.from(attributes);
+    implicitAttributes[0] = 0xa0;
+
+    const signerInfo = der.sequence(
+      der.integer(1),
+      der.sequence(this.name, der.integer(1)),
+      der.algorithmIdentifier(SHA256, false),
+      implicitAttributes,
+      der.algorithmIdentifier(SHA256_WITH_RSA),
+      der.octetString(signature)
+    );
+    const signedData = der.sequence(
+      der.integer(3),
+      der.set(der.algorithmIdentifier(SHA256, false)),
+      der.sequence(der.oid(TspOid.TST_INFO), der.explicit(0, der.octetString(tstInfo))),
+      der.implicit(0, this.certificate),
+      der.set(signerInfo)
+    );
+
+    return der.sequence(
+      der.sequence(der.integer(0)),
+      der.sequence(der.oid(TspOid.SIGNED_DATA), der.explicit(0, signedData))
+    );
+  }
+}
+
+describe('TimestampAuthorityClient', () => {
+  const data = Buffer.from('evidence contents');
+  const digest = crypto.createHash('sha256').update(data).digest('hex');
+  let tsa: LocalTestTsa;
+  let client: TimestampAuthorityClient;
+
+  beforeEach(() => {
+    tsa = new LocalTestTsa();
+    client = new TimestampAuthorityClient({ name: 'Local Test TSA', certificate: tsa.certificatePem, transport: tsa });
+  });
+
+  describe('buildRequest', () => {
+    it('should encode a v1 TimeStampReq with imprint, nonce and certReq', () => {
+      const request = decodeDer(client.buildRequest(Buffer.from(digest, 'hex'), BigInt(42)));
+
+      expect(request.children).toHaveLength(4);
+      expect(request.children[1]!.children[1]!.value.toString('hex')).toBe(digest);
+      expect(request.children[2]!.value).toEqual(Buffer.from([42]));
+      expect(request.children[3]!.value).toEqual(Buffer.from([0xff]));
+    });
+  });
+
+  describe('timestamp', () => {
+    it('should obtain and verify a token for the digest', async () => {
+      const { token, info } = await client.timestamp(digest);
+
+      expect(info.messageImprint).toBe(digest);
+      expect(info.hashAlgorithm).toBe('sha256');
+      expect(info.policy).toBe('1.2.3.4.1');
+      expect(client.verifyToken(token, digest)).toMatchObject({ valid: true, errors: [] });
+    });
+
+    it('should reject a token for different data', async () => {
+      const { token } = await client.timestamp(digest);
+      const other = crypto.createHash('sha256').update('other').digest('hex');
+
+      const result = client.verifyToken(token, other);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Message imprint does not match the timestamped data');
+    });
+
+    it('should surface a rejected request', async () => {
+      tsa.status = 2;
+
+      await expect(client.timestamp(digest)).rejects.toThrow('Timestamp request rejected (status 2): badRequest');
+    });
+
+    it('should refuse a token whose TSTInfo was altered after signing', async () => {
+      tsa.tamperWith = tstInfo => {
+        const altered = Buffer.from(tstInfo);
+        altered[altered.length - 2] ^= 0x01;
+        return altered;
+      };
+
+      await expect(client.timestamp(digest)).rejects.toThrow('Message-digest attribute does not match TSTInfo');
+    });
+
+    it('should not trust a token signed by a different TSA', async () => {
+      const impostor = new LocalTestTsa();
+      const impostorClient = new TimestampAuthorityClient({ certificate: impostor.certificatePem, transport: impostor });
+      const { token } = await impostorClient.timestamp(digest);
+
+      const result = client.verifyToken(token, digest);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('TSA signature does not verify with the configured certificate');
+    });
+
+    it('should reject a certificate without the time stamping extended key usage', async () => {
+      const serverTsa = new LocalTestTsa(false);
+      const serverClient = new TimestampAuthorityClient({ certificate: serverTsa.certificatePem, transport: serverTsa });
+
+      await expect(serverClient.timestamp(digest)).rejects.toThrow('TSA certificate is not authorised for time stamping');
+    });
+  });
+
+  describe('IntegrityService integration', () => {
+    it('should timestamp integrity proofs and verify them against current data', async () => {
+      const service = new IntegrityService(client);
+      const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+
+      const proof = await service.createIntegrityProof('evidence-1', data, pem, 'user-1');
+
+      expect(proof.timestampAuthority.authority).toBe('Local Test TSA');
+      expect(proof.timestampAuthority.certificate).toContain('BEGIN CERTIFICATE');
+
+      const intact = await service.performTamperCheck('evidence-1', data, proof, 'user-1', 'ROUTINE');
+      const altered = await service.performTamperCheck('evidence-1', Buffer.from('altered'), proof, 'user-1', 'ROUTINE');
+
+      expect(intact.tamperIndicators.map(i => i.description))
+        .not.toContain('RFC 3161 timestamp token does not verify for the current data');
+      expect(altered.tamperIndicators.map(i => i.description))
+        .toContain('RFC 3161 timestamp token does not verify for the current data');
+    });
+
+    it('should refuse to create proofs without a configured authority', async () => {
+      const service = new IntegrityService();
+      const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+
+      await expect(service.createIntegrityProof('evidence-1', data, pem, 'user-1'))
+        .rejects.toThrow('No RFC 3161 timestamp authority configured');
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  anonymizeRecords,
+  assessReidentificationRisk,
+  collectPseudonymValues,
+  countResidualIdentifiers,
+  decryptMappingValue,
+  encryptMappingValue,
+  generalizeValue,
+  maskValue,
+  pseudonymDigest,
+  pseudonymFor,
+  randomizeValue,
+  SourceRecord,
+} from '../../../../backend/src/services/anonymization';
+
+describe('Anonymization', () => {
+  describe('techniques', () => {
+    it('should mask letters and digits but keep separators', () => {
+      expect(maskValue('555-867-5309', 'WEAK')).toBe('***-***-5309');
+      expect(maskValue('Jane Doe', 'MEDIUM')).toBe('**** *oe');
+      expect(maskValue('jane@example.com', 'STRONG')).toBe('****@*******.***');
+      expect(maskValue('Jane Doe', 'PERFECT')).toBe('********');
+    });
+
+    it('should never reveal more than half of a short value', () => {
+      expect(maskValue('Al', 'WEAK')).toBe('*l');
+    });
+
+    it('should generalize dates, numbers and places by strength', () => {
+      const date = new Date('2024-03-15T10:30:00Z');
+      expect(generalizeValue(date, 'WEAK')).toBe('2024-03-15');
+      expect(generalizeValue(date, 'MEDIUM')).toBe('2024-03');
+      expect(generalizeValue('2024-03-15T10:30:00Z', 'STRONG')).toBe('2024');
+      expect(generalizeValue(37, 'MEDIUM')).toBe('30-39');
+      expect(generalizeValue('12 Elm Street, Springfield, Illinois, USA', 'MEDIUM')).toBe('Illinois, USA');
+      expect(generalizeValue('Springfield', 'WEAK', 'CITY')).toBe('[CITY]');
+      expect(generalizeValue(37, 'PERFECT')).toBeNull();
+    });
+
+    it('should keep randomized values within the strength bounds', () => {
+      const date = new Date('2024-03-15T00:00:00Z');
+      for (let i = 0; i < 20; i++) {
+        const age = randomizeValue(40, 'MEDIUM');
+        expect(age).toBeGreaterThanOrEqual(36);
+        expect(age).toBeLessThanOrEqual(44);
+
+        const shifted = new Date(randomizeValue(date, 'WEAK')).getTime();
+        expect(Math.abs(shifted - date.getTime())).toBeLessThanOrEqual(3 * 24 * 60 * 60 * 1000);
+      }
+      expect(randomizeValue('Springfield', 'WEAK')).toBeNull();
+    });
+  });
+
+  describe('pseudonyms', () => {
+    it('should derive the same pseudonym for the same person under a key', () => {
+      const digest = pseudonymDigest('key-1', 'jane doe', 'secret');
+      expect(pseudonymDigest('key-1', 'jane doe', 'secret')).toBe(digest);
+      expect(pseudonymDigest('key-2', 'jane doe', 'secret')).not.toBe(digest);
+      expect(pseudonymFor('WITNESS', digest)).toMatch(/^WITNESS-[0-9A-F]{10}$/);
+    });
+
+    it('should collect values once regardless of case and spacing', () => {
+      const records: SourceRecord[] = [
+        { sourceId: 'ev-1', fields: { sourceName: 'Jane Doe' } },
+        { sourceId: 'ev-2', fields: { sourceName: ' jane   DOE ' } },
+      ];
+      const values = collectPseudonymValues(
+        records,
+        [{ field: 'sourceName', technique: 'PSEUDONYMIZATION', strength: 'STRONG', category: 'WITNESS' }],
+        [{ value: 'Mark Hill', technique: 'PSEUDONYMIZATION', strength: 'STRONG' }]
+      );
+
+      expect([...values.keys()]).toEqual(['jane doe', 'mark hill']);
+      expect(values.get('jane doe')).toEqual({ value: 'Jane Doe', category: 'WITNESS' });
+      expect(values.get('mark hill')?.category).toBe('SUBJECT');
+    });
+
+    it('should only recover a mapped value with the private key', () => {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+      const mapping = encryptMappingValue(pem, 'Jane Doe', 'WITNESS-0A1B2C3D4E');
+
+      expect(decryptMappingValue(privateKey, mapping, 'WITNESS-0A1B2C3D4E')).toBe('Jane Doe');
+      expect(() => decryptMappingValue(privateKey, mapping, 'WITNESS-FFFFFFFFFF')).toThrow();
+    });
+  });
+
+  describe('anonymizeRecords', () => {
+    const pseudonyms = new Map([['jane doe', 'WITNESS-0A1B2C3D4E']]);
+
+    it('should apply field rules and scrub terms and contact details from text', () => {
+      const [record] = anonymizeRecords([{
+        sourceId: 'comm-1',
+        fields: {
+          summary: 'Met JANE DOE at 12 Elm Street. Call +1 (555) 867-5309 or jane@example.com before 2024-03-15.',
+          location: '12 Elm Street, Springfield, Illinois',
+          participantNames: ['Jane Doe', 'Mark Hill'],
+          durationMinutes: 45,
+        },
+      }], {
+        rules: [
+          { field: 'location', technique: 'GENERALIZATION', strength: 'STRONG' },
+          { field: 'participantNames', technique: 'SUPPRESSION', strength: 'STRONG' },
+        ],
+        terms: [
+          { value: 'Jane Doe', technique: 'PSEUDONYMIZATION', strength: 'STRONG', category: 'WITNESS' },
+          { value: '12 Elm Street', technique: 'GENERALIZATION', strength: 'STRONG', category: 'ADDRESS' },
+        ],
+        detectPatterns: true,
+        pseudonyms,
+        keyId: 'key-1',
+      });
+
+      expect(record!.fields['summary']).toBe(
+        'Met WITNESS-0A1B2C3D4E at [ADDRESS]. Call +* (***) ***-**** or ****@*******.*** before 2024-03-15.'
+      );
+      expect(record!.fields['location']).toBe('Illinois');
+      expect(record!.fields['participantNames']).toEqual([]);
+      expect(record!.fields['durationMinutes']).toBe(45);
+      expect(record!.methods).toContainEqual({
+        technique: 'PSEUDONYMIZATION', applied: true, strength: 'STRONG', reversible: true, keyId: 'key-1',
+      });
+      expect(record!.methods.map(method => method.technique)).toEqual(
+        expect.arrayContaining(['GENERALIZATION', 'SUPPRESSION', 'MASKING'])
+      );
+    });
+
+    it('should leave text alone when pattern detection is off and no terms are given', () => {
+      const [record] = anonymizeRecords([{ sourceId: 'doc-1', fields: { text: 'Call 555-867-5309' } }], {
+        rules: [],
+        terms: [],
+        detectPatterns: false,
+        pseudonyms: new Map(),
+      });
+
+      expect(record!.fields['text']).toBe('Call 555-867-5309');
+      expect(record!.methods).toEqual([]);
+    });
+  });
+
+  describe('assessReidentificationRisk', () => {
+    const records = [
+      { age: '30-39', city: 'Springfield', tags: ['b', 'a'] },
+      { age: '30-39', city: 'Springfield', tags: ['a', 'b'] },
+      { age: '30-39', city: 'Springfield', tags: ['a', 'b'] },
+      { age: '40-49', city: 'Shelbyville', tags: [] },
+    ];
+
+    it('should find the smallest equivalence class', () => {
+      const risk = assessReidentificationRisk(records, ['age', 'city', 'tags'], 3);
+
+      expect(risk.k).toBe(1);
+      expect(risk.equivalenceClassCount).toBe(2);
+      expect(risk.recordsAtRisk).toBe(1);
+      expect(risk.maxProbability).toBe(1);
+      expect(risk.averageProbability).toBe(0.5);
+      expect(risk.level).toBe('EXTREME');
+      expect(risk.passes).toBe(false);
+      expect(risk.smallestClasses[0]).toEqual({ values: { age: '40-49', city: 'Shelbyville', tags: [] }, size: 1 });
+    });
+
+    it('should pass once generalization merges the classes', () => {
+      const generalized = records.map(record => ({ ...record, age: null, city: 'Illinois' }));
+      const risk = assessReidentificationRisk(generalized, ['age', 'city'], 3);
+
+      expect(risk.k).toBe(4);
+      expect(risk.level).toBe('MEDIUM');
+      expect(risk.passes).toBe(true);
+    });
+
+    it('should fail on residual identifiers even without quasi-identifiers', () => {
+      expect(assessReidentificationRisk([{ text: 'x' }], [], 5).passes).toBe(true);
+      expect(assessReidentificationRisk([{ text: 'x' }], [], 5, 1)).toMatchObject({ passes: false, level: 'EXTREME' });
+    });
+  });
+
+  describe('countResidualIdentifiers', () => {
+    it('should count terms still present as whole words', () => {
+      const records = [{ sourceId: 'doc-1', fields: { text: 'Statement of jane  doe', tags: ['Hillside'] }, methods: [] }];
+
+      expect(countResidualIdentifiers(records, [
+        { value: 'Jane Doe', technique: 'MASKING', strength: 'WEAK' },
+        { value: 'Hill', technique: 'MASKING', strength: 'WEAK' },
+      ])).toBe(1);
+    });
+  });
+});
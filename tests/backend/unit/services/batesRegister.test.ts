@@ -0,0 +1,44 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import { pageInRange, planBatesRanges } from '../../../../backend/src/services/batesRegister';
+
+describe('Bates Register', () => {
+  describe('planBatesRanges', () => {
+    it('should give each document a contiguous range following the previous one', () => {
+      const ranges = planBatesRanges(120, [
+        { documentId: 'doc-1', pageCount: 3 },
+        { documentId: 'doc-2', pageCount: 1 },
+        { documentId: 'doc-3', pageCount: 10 },
+      ]);
+
+      expect(ranges.map(range => [range.documentId, range.beginNumber, range.endNumber])).toEqual([
+        ['doc-1', 120, 122],
+        ['doc-2', 123, 123],
+        ['doc-3', 124, 133],
+      ]);
+    });
+
+    it('should reject documents without a page count', () => {
+      expect(() => planBatesRanges(1, [{ documentId: 'doc-1', pageCount: 0 }]))
+        .toThrow('Document doc-1 has no page count');
+    });
+  });
+
+  describe('pageInRange', () => {
+    const entry = { batesPrefix: 'VOL1-', beginNumber: 41, endNumber: 45 };
+
+    it('should return the page within the document for numbers in range', () => {
+      expect(pageInRange('VOL1-000041', entry)).toBe(1);
+      expect(pageInRange('VOL1-000045', entry)).toBe(5);
+    });
+
+    it('should ignore numbers outside the range or under another prefix', () => {
+      expect(pageInRange('VOL1-000046', entry)).toBeUndefined();
+      expect(pageInRange('VOL2-000041', entry)).toBeUndefined();
+      expect(pageInRange('VOL1-00004A', entry)).toBeUndefined();
+    });
+  });
+});
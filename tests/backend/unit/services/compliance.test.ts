@@ -0,0 +1,270 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  aggregateFindings,
+  combineResults,
+  ComplianceContext,
+  evaluateEvidenceCompliance,
+  mapActionRow,
+  summarizeCaseCompliance,
+} from '../../../../backend/src/services/compliance';
+import { ComplianceStandardSnapshot, CustodyLedgerEntry } from '../../../../backend/src/types';
+
+const now = new Date('2025-06-01T12:00:00Z');
+
+const ledgerEntry = (sequenceNumber: number, custodian: string, transferredFrom?: string): CustodyLedgerEntry => ({
+  id: `entry-${sequenceNumber}`,
+  evidenceId: 'ev-1',
+  sequenceNumber,
+  custodian,
+  ...(transferredFrom && { transferredFrom }),
+  transferReason: sequenceNumber === 1 ? 'COLLECTION' : 'ANALYSIS',
+  transferMethod: 'HAND_DELIVERY',
+  purpose: 'STORAGE',
+  receivedAt: new Date('2025-05-01T10:00:00Z'),
+  storageLocation: 'Vault A',
+  integrityVerified: true,
+  previousHash: '0'.repeat(64),
+  entryHash: 'a'.repeat(64),
+  signature: 'sig',
+  signatureAlgorithm: 'HMAC-SHA256',
+} as CustodyLedgerEntry);
+
+const context = (overrides: Partial<ComplianceContext> = {}): ComplianceContext => ({
+  evidenceId: 'ev-1',
+  status: 'PRESERVED' as any,
+  authenticityVerified: true,
+  verifiedBy: 'user-1',
+  integrityHash: 'f'.repeat(64),
+  lastIntegrityCheck: new Date('2025-05-20T12:00:00Z'),
+  tamperDetected: false,
+  physical: false,
+  activeSeals: [],
+  ledger: [ledgerEntry(1, 'user-1'), ledgerEntry(2, 'user-2', 'user-1')],
+  custody: { evidenceId: 'ev-1', valid: true, entriesChecked: 2, verifiedAt: now },
+  signatures: [],
+  lifecycle: [],
+  ...overrides,
+});
+
+const standard: ComplianceStandardSnapshot = {
+  id: 'std-1',
+  name: 'Chain of Custody Completeness',
+  version: '1.0',
+  authority: 'Internal',
+  requirements: [
+    {
+      id: 'COC-1',
+      description: 'Custody chain verifies end to end',
+      rule: 'CUSTODY_CHAIN_INTACT',
+      appliesTo: 'ALL',
+      severity: 'CRITICAL',
+      remediation: 'Investigate the broken link',
+      remediationDays: 2,
+    },
+    {
+      id: 'COC-2',
+      description: 'Integrity checked in the last 30 days',
+      rule: 'INTEGRITY_CHECK_CURRENT',
+      parameters: { maxAgeDays: 30 },
+      appliesTo: 'ALL',
+      severity: 'MEDIUM',
+      remediation: 'Run an integrity check',
+      remediationDays: 7,
+    },
+    {
+      id: 'COC-3',
+      description: 'Physical items are in an assigned storage location',
+      rule: 'STORAGE_ASSIGNED',
+      appliesTo: 'PHYSICAL',
+      severity: 'HIGH',
+      remediation: 'Assign a storage location',
+      remediationDays: 3,
+    },
+  ],
+};
+
+describe('Evidence Compliance', () => {
+  describe('evaluateEvidenceCompliance', () => {
+    it('should pass a digital item meeting every applicable requirement', () => {
+      const result = evaluateEvidenceCompliance(context(), [standard], now);
+
+      expect(result).toEqual({
+        evidenceId: 'ev-1',
+        result: 'COMPLIANT',
+        score: 100,
+        trialReady: true,
+        requirementsChecked: 2,
+        findings: [],
+      });
+    });
+
+    it('should stay trial-ready with only lower-severity findings', () => {
+      const result = evaluateEvidenceCompliance(
+        context({ lastIntegrityCheck: new Date('2025-04-01T12:00:00Z') }),
+        [standard],
+        now
+      );
+
+      expect(result.result).toBe('PARTIALLY_COMPLIANT');
+      expect(result.trialReady).toBe(true);
+      expect(result.score).toBe(77);
+      expect(result.findings).toHaveLength(1);
+      expect(result.findings[0]).toMatchObject({
+        severity: 'MEDIUM',
+        category: 'INTEGRITY_CHECK_CURRENT',
+        standard: 'Chain of Custody Completeness 1.0',
+        requirement: 'COC-2',
+        evidence: ['ev-1'],
+        deadline: new Date('2025-06-08T12:00:00Z'),
+        details: { ageDays: 61 },
+      });
+    });
+
+    it('should block trial readiness on a broken chain and list findings worst first', () => {
+      const result = evaluateEvidenceCompliance(
+        context({
+          physical: true,
+          lastIntegrityCheck: undefined as any,
+          custody: { evidenceId: 'ev-1', valid: false, entriesChecked: 2, verifiedAt: now },
+        }),
+        [standard],
+        now
+      );
+
+      expect(result.result).toBe('NON_COMPLIANT');
+      expect(result.trialReady).toBe(false);
+      expect(result.score).toBe(0);
+      expect(result.requirementsChecked).toBe(3);
+      expect(result.findings.map(finding => finding.requirement)).toEqual(['COC-1', 'COC-3', 'COC-2']);
+    });
+  });
+
+  describe('rules', () => {
+    const signingStandard: ComplianceStandardSnapshot = {
+      ...standard,
+      requirements: [
+        {
+          id: 'SIG',
+          description: 'Custodian and witness signed every entry',
+          rule: 'CUSTODY_SIGNED',
+          parameters: { roles: ['CUSTODIAN', 'WITNESS'] },
+          appliesTo: 'ALL',
+          severity: 'HIGH',
+          remediation: 'Collect the missing signatures',
+          remediationDays: 5,
+        },
+        {
+          id: 'CONT',
+          description: 'No gaps between custodians',
+          rule: 'CUSTODY_CONTINUOUS',
+          appliesTo: 'ALL',
+          severity: 'HIGH',
+          remediation: 'Document the gap',
+          remediationDays: 5,
+        },
+      ],
+    };
+
+    it('should report unsigned roles and custody gaps by sequence number', () => {
+      const result = evaluateEvidenceCompliance(
+        context({
+          ledger: [ledgerEntry(1, 'user-1'), ledgerEntry(2, 'user-3', 'user-2')],
+          signatures: [
+            { custodyEntryId: 'entry-1', role: 'CUSTODIAN', valid: true },
+            { custodyEntryId: 'entry-1', role: 'WITNESS', valid: true },
+            { custodyEntryId: 'entry-2', role: 'CUSTODIAN', valid: false },
+          ] as any,
+        }),
+        [signingStandard],
+        now
+      );
+
+      const details = Object.fromEntries(result.findings.map(finding => [finding.requirement, finding.details]));
+      expect(details['SIG']).toEqual({
+        unsigned: [
+          { sequenceNumber: 2, role: 'CUSTODIAN' },
+          { sequenceNumber: 2, role: 'WITNESS' },
+        ],
+      });
+      expect(details['CONT']).toEqual({ sequenceNumbers: [2] });
+    });
+  });
+
+  describe('combineResults', () => {
+    it('should let the worst item decide', () => {
+      expect(combineResults(['COMPLIANT', 'COMPLIANT'])).toBe('COMPLIANT');
+      expect(combineResults(['COMPLIANT', 'PARTIALLY_COMPLIANT'])).toBe('PARTIALLY_COMPLIANT');
+      expect(combineResults(['PARTIALLY_COMPLIANT', 'UNDER_REVIEW'])).toBe('UNDER_REVIEW');
+      expect(combineResults(['UNDER_REVIEW', 'NON_COMPLIANT'])).toBe('NON_COMPLIANT');
+    });
+  });
+
+  describe('aggregateFindings', () => {
+    it('should merge the same failed requirement across items', () => {
+      const stale = { lastIntegrityCheck: new Date('2025-01-01T00:00:00Z') };
+      const findings = aggregateFindings([
+        evaluateEvidenceCompliance(context(stale), [standard], now),
+        evaluateEvidenceCompliance(context({ ...stale, evidenceId: 'ev-2', physical: true }), [standard], now),
+      ]);
+
+      expect(findings.map(finding => [finding.requirement, finding.evidence])).toEqual([
+        ['COC-3', ['ev-2']],
+        ['COC-2', ['ev-1', 'ev-2']],
+      ]);
+      expect(findings[1]!.details).toBeUndefined();
+    });
+  });
+
+  describe('summarizeCaseCompliance', () => {
+    it('should count unchecked items as not trial-ready', () => {
+      const checkedAt = new Date('2025-05-31T00:00:00Z');
+      const passing = evaluateEvidenceCompliance(context(), [standard], now);
+      const failing = evaluateEvidenceCompliance(
+        context({ evidenceId: 'ev-2', physical: true }),
+        [standard],
+        now
+      );
+
+      const summary = summarizeCaseCompliance(
+        'CASE-1',
+        ['ev-1', 'ev-2', 'ev-3'],
+        [{ ...passing, checkId: 'check-1', checkedAt }, { ...failing, checkId: 'check-1', checkedAt }],
+        { open: 1, overdue: 0 },
+        now
+      );
+
+      expect(summary.result).toBe('NON_COMPLIANT');
+      expect(summary.checkedCount).toBe(2);
+      expect(summary.trialReadyCount).toBe(1);
+      expect(summary.averageScore).toBe(86);
+      expect(summary.findingsBySeverity).toEqual({ CRITICAL: 0, HIGH: 1, MEDIUM: 0, LOW: 0 });
+      expect(summary.notTrialReady.map(item => item.evidenceId)).toEqual(['ev-3', 'ev-2']);
+      expect(summary.openActions).toBe(1);
+    });
+  });
+
+  describe('mapActionRow', () => {
+    const row = {
+      id: 'action-1',
+      check_id: 'check-1',
+      standard: 'Chain of Custody Completeness 1.0',
+      requirement: 'COC-2',
+      description: 'Integrity checked in the last 30 days. Run an integrity check',
+      priority: 'MEDIUM',
+      assigned_to: 'user-1',
+      due_date: '2025-05-30T00:00:00Z',
+      status: 'IN_PROGRESS',
+      evidence: '["ev-1"]',
+    };
+
+    it('should report unfinished actions past their due date as overdue', () => {
+      expect(mapActionRow(row, now).status).toBe('OVERDUE');
+      expect(mapActionRow({ ...row, status: 'COMPLETED' }, now).status).toBe('COMPLETED');
+      expect(mapActionRow(row, new Date('2025-05-01T00:00:00Z')).status).toBe('IN_PROGRESS');
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  ExportEvidenceMaterial,
+  assembleExportBundle,
+  buildExportTimeline,
+  hashDownloadToken,
+  matchesDownloadToken,
+} from '../../../../backend/src/services/courtExport';
+import {
+  GENESIS_HASH,
+  computeEntryHash,
+  loadSigningKey,
+  signEntryHash,
+} from '../../../../backend/src/services/custodyLedger';
+import { CustodyLedgerEntry } from '../../../../backend/src/types';
+
+/**
+ * Read the entries of a ZIP archive by walking its local file headers
+ */
+const readZip = (archive: Buffer): Map<string, Buffer> => {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const method = archive.readUInt16LE(offset + 8);
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const extraLength = archive.readUInt16LE(offset + 28);
+    const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength + extraLength;
+    const content = archive.subarray(start, start + compressedSize);
+
+    files.set(name, method === 8 ? zlib.inflateRawSync(content) : content);
+    offset = start + compressedSize;
+  }
+
+  return files;
+};
+
+describe('Court Export', () => {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  const signingKey = loadSigningKey(privateKey.export({ type: 'pkcs8', format: 'pem' }) as string);
+  const certifier = { id: 'user-1', email: 'paralegal@example.com' };
+  const authorizer = { id: 'user-2', email: 'counsel@example.com' };
+  const exportRecord = {
+    id: 'export-1',
+    caseId: 'case-1',
+    caseNumber: '1:24-cv-01234',
+    court: 'U.S. District Court',
+    jurisdiction: 'Federal',
+    exportType: 'DISCOVERY_PRODUCTION' as const,
+    format: 'NATIVE' as const,
+    includeChainOfCustody: true,
+    includeIntegrityProof: true,
+    includeTimeline: true,
+  };
+
+  const buildLedger = (evidenceId: string, length: number): CustodyLedgerEntry[] => {
+    const entries: CustodyLedgerEntry[] = [];
+    let previousHash = GENESIS_HASH;
+
+    for (let i = 0; i < length; i++) {
+      const content = {
+        evidenceId,
+        sequenceNumber: i,
+        custodian: `custodian-${i}`,
+        transferReason: 'STORAGE' as const,
+        transferMethod: 'HAND_DELIVERY' as const,
+        purpose: 'STORAGE' as const,
+        receivedAt: new Date(Date.UTC(2024, 1, i + 1)),
+        storageLocation: `Vault ${i}`,
+        integrityVerified: true,
+        previousHash,
+      };
+      const entryHash = computeEntryHash(content);
+
+      entries.push({
+        ...content,
+        id: `${evidenceId}-entry-${i}`,
+        entryHash,
+        signature: signEntryHash(entryHash, signingKey),
+        signatureAlgorithm: signingKey.algorithm,
+        signingKeyFingerprint: signingKey.fingerprint,
+        createdAt: new Date(),
+      });
+      previousHash = entryHash;
+    }
+
+    return entries;
+  };
+
+  const buildMaterial = (evidenceId: string, contents: string): ExportEvidenceMaterial => {
+    const content = Buffer.from(contents);
+    return {
+      evidenceId,
+      evidenceType: 'email',
+      authenticityVerified: true,
+      verifiedAt: new Date(Date.UTC(2024, 2, 1)),
+      integrityHash: crypto.createHash('sha256').update(content).digest('hex'),
+      createdAt: new Date(Date.UTC(2024, 0, 15)),
+      native: { filename: '../../message.eml', mimeType: 'message/rfc822', content },
+      custodyLedger: buildLedger(evidenceId, 2),
+    };
+  };
+
+  describe('assembleExportBundle', () => {
+    it('should list every bundled file in the manifest with its SHA-256 hash', () => {
+      const bundle = assembleExportBundle(
+        exportRecord, [buildMaterial('ev-1', 'first'), buildMaterial('ev-2', 'second')], certifier, authorizer, signingKey
+      );
+      const files = readZip(bundle.archive);
+
+      expect(files.get('natives/ev-1/message.eml')!.toString()).toBe('first');
+      expect(bundle.manifest.files.map(file => file.path)).toEqual(
+        [...files.keys()].filter(name => !name.startsWith('manifest'))
+      );
+      for (const file of bundle.manifest.files) {
+        expect(crypto.createHash('sha256').update(files.get(file.path)!).digest('hex')).toBe(file.sha256);
+      }
+    });
+
+    it('should sign the manifest so it can be verified with the bundled public key', () => {
+      const bundle = assembleExportBundle(exportRecord, [buildMaterial('ev-1', 'first')], certifier, authorizer, signingKey);
+      const files = readZip(bundle.archive);
+      const signature = JSON.parse(files.get('manifest.sig.json')!.toString());
+      const manifestHash = crypto.createHash('sha256').update(files.get('manifest.json')!).digest('hex');
+
+      expect(signature.manifestSha256).toBe(manifestHash);
+      expect(crypto.verify(
+        null,
+        Buffer.from(manifestHash, 'hex'),
+        crypto.createPublicKey(signature.publicKey),
+        Buffer.from(signature.signature, 'base64')
+      )).toBe(true);
+    });
+
+    it('should certify a clean production', () => {
+      const bundle = assembleExportBundle(exportRecord, [buildMaterial('ev-1', 'first')], certifier, authorizer, signingKey);
+
+      expect(bundle.certification).toMatchObject({
+        certifiedBy: 'user-1',
+        authenticityVerified: true,
+        completenessVerified: true,
+        integrityVerified: true,
+      });
+      expect(readZip(bundle.archive).get('certification.txt')!.toString()).toContain('Case number: 1:24-cv-01234');
+    });
+
+    it('should record integrity exceptions on the certification page', () => {
+      const altered = { ...buildMaterial('ev-1', 'first'), integrityHash: 'a'.repeat(64) };
+      const broken = buildMaterial('ev-2', 'second');
+      broken.custodyLedger[1]!.storageLocation = 'Elsewhere';
+
+      const bundle = assembleExportBundle(exportRecord, [altered, broken], certifier, authorizer, signingKey);
+
+      expect(bundle.certification.integrityVerified).toBe(false);
+      expect(bundle.certification.certificationText).toContain(
+        'Evidence ev-1: native file does not match the recorded integrity hash'
+      );
+      expect(bundle.certification.certificationText).toContain(
+        'Evidence ev-2: custody ledger broken at entry 1 (ENTRY_HASH_MISMATCH)'
+      );
+    });
+
+    it('should flag items without a native file as incomplete', () => {
+      const { native, ...withoutNative } = buildMaterial('ev-1', 'first');
+
+      const bundle = assembleExportBundle(exportRecord, [withoutNative], certifier, authorizer, signingKey);
+
+      expect(bundle.certification.completenessVerified).toBe(false);
+    });
+
+    it('should leave natives out of JSON productions', () => {
+      const bundle = assembleExportBundle(
+        { ...exportRecord, format: 'JSON' }, [buildMaterial('ev-1', 'first')], certifier, authorizer, signingKey
+      );
+
+      expect([...readZip(bundle.archive).keys()].some(name => name.startsWith('natives/'))).toBe(false);
+      expect(bundle.certification.completenessVerified).toBe(true);
+    });
+
+    it('should produce Bates-numbered natives with DAT and OPT load files', () => {
+      const bundle = assembleExportBundle(
+        {
+          ...exportRecord,
+          format: 'LOAD_FILE',
+          loadFileOptions: {
+            batesPrefix: 'DEF',
+            batesStart: 100,
+            batesDigits: 6,
+            volume: 'VOL001',
+            fieldMap: [{ header: 'BEGBATES', field: 'batesBegin' }, { header: 'CUSTODIAN', field: 'custodian' }],
+            dateFormat: 'YYYY-MM-DD',
+          },
+        },
+        [buildMaterial('ev-1', 'first')], certifier, authorizer, signingKey
+      );
+      const files = readZip(bundle.archive);
+
+      expect(files.get('NATIVES/VOL001/DEF000100.eml')!.toString()).toBe('first');
+      expect(files.get('DATA/VOL001.dat')!.toString('utf8')).toContain('þDEF000100þ\u0014þcustodian-1þ');
+      expect(files.has('DATA/VOL001.opt')).toBe(true);
+    });
+  });
+
+  describe('buildExportTimeline', () => {
+    it('should order events across all exported items', () => {
+      const timeline = buildExportTimeline([buildMaterial('ev-1', 'first'), buildMaterial('ev-2', 'second')]);
+
+      expect(timeline).toHaveLength(8);
+      expect(timeline.map(event => event.occurredAt.getTime())).toEqual(
+        [...timeline.map(event => event.occurredAt.getTime())].sort((a, b) => a - b)
+      );
+      expect(timeline[0]!.event).toBe('EVIDENCE_REGISTERED');
+      expect(timeline[timeline.length - 1]!.event).toBe('AUTHENTICITY_VERIFIED');
+    });
+  });
+
+  describe('matchesDownloadToken', () => {
+    it('should only accept the token whose hash was stored', () => {
+      const token = crypto.randomBytes(32).toString('hex');
+      const storedHash = hashDownloadToken(token);
+
+      expect(matchesDownloadToken(token, storedHash)).toBe(true);
+      expect(matchesDownloadToken(crypto.randomBytes(32).toString('hex'), storedHash)).toBe(false);
+      expect(matchesDownloadToken(token, null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  CustodySigningKey,
+  GENESIS_HASH,
+  canonicalize,
+  computeEntryHash,
+  loadSigningKey,
+  signEntryHash,
+  verifyCustodyChain,
+} from '../../../../backend/src/services/custodyLedger';
+import { CustodyLedgerEntry } from '../../../../backend/src/types';
+
+describe('Custody Ledger', () => {
+  const evidenceId = '6f1c2b9e-3f4a-4c2d-9a51-0d7f3e8b1a22';
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  const signingKey = loadSigningKey(privateKey.export({ type: 'pkcs8', format: 'pem' }) as string);
+
+  const buildChain = (length: number, keyFor: (index: number) => CustodySigningKey = () => signingKey): CustodyLedgerEntry[] => {
+    const entries: CustodyLedgerEntry[] = [];
+    let previousHash = GENESIS_HASH;
+
+    for (let i = 0; i < length; i++) {
+      const content = {
+        evidenceId,
+        sequenceNumber: i,
+        custodian: `user-${i}`,
+        transferReason: 'STORAGE' as const,
+        transferMethod: 'HAND_DELIVERY' as const,
+        purpose: 'STORAGE' as const,
+        receivedAt: new Date(Date.UTC(2024, 0, i + 1)),
+        storageLocation: `Locker ${i}`,
+        storageConditions: { lightExposure: 'DARK', temperature: 18 },
+        integrityVerified: true,
+        previousHash,
+      };
+      const entryHash = computeEntryHash(content);
+      const key = keyFor(i);
+
+      entries.push({
+        ...content,
+        id: `entry-${i}`,
+        entryHash,
+        signature: signEntryHash(entryHash, key),
+        signatureAlgorithm: key.algorithm,
+        signingKeyFingerprint: key.fingerprint,
+        createdAt: new Date(),
+      });
+      previousHash = entryHash;
+    }
+
+    return entries;
+  };
+
+  describe('canonicalize', () => {
+    it('should be independent of object key order', () => {
+      expect(canonicalize({ b: 1, a: { d: 2, c: 3 } })).toBe(canonicalize({ a: { c: 3, d: 2 }, b: 1 }));
+    });
+
+    it('should serialize dates as ISO strings', () => {
+      expect(canonicalize({ at: new Date(0) })).toBe('{"at":"1970-01-01T00:00:00.000Z"}');
+    });
+  });
+
+  describe('verifyCustodyChain', () => {
+    it('should accept an untouched chain', () => {
+      const entries = buildChain(4);
+      const result = verifyCustodyChain(evidenceId, entries, signingKey);
+
+      expect(result.valid).toBe(true);
+      expect(result.entriesChecked).toBe(4);
+      expect(result.headHash).toBe(entries[3]!.entryHash);
+      expect(result.firstBrokenLink).toBeUndefined();
+    });
+
+    it('should report edited content as an entry hash mismatch', () => {
+      const entries = buildChain(4);
+      entries[2]!.storageLocation = 'Somewhere else';
+
+      const result = verifyCustodyChain(evidenceId, entries, signingKey);
+
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink).toMatchObject({ sequenceNumber: 2, reason: 'ENTRY_HASH_MISMATCH' });
+    });
+
+    it('should report a removed entry as a sequence gap', () => {
+      const entries = buildChain(4);
+      entries.splice(1, 1);
+
+      const result = verifyCustodyChain(evidenceId, entries, signingKey);
+
+      expect(result.firstBrokenLink).toMatchObject({ sequenceNumber: 2, reason: 'SEQUENCE_GAP' });
+    });
+
+    it('should report a rehashed entry that no longer links to its predecessor', () => {
+      const entries = buildChain(3);
+      const forged = { ...entries[1]!, previousHash: 'f'.repeat(64) };
+      forged.entryHash = computeEntryHash(forged);
+      forged.signature = signEntryHash(forged.entryHash, signingKey);
+      entries[1] = forged;
+
+      const result = verifyCustodyChain(evidenceId, entries, signingKey);
+
+      expect(result.firstBrokenLink).toMatchObject({ sequenceNumber: 1, reason: 'PREVIOUS_HASH_MISMATCH' });
+    });
+
+    it('should reject entries re-signed with a different key', () => {
+      const entries = buildChain(2);
+      const { privateKey: otherKey } = crypto.generateKeyPairSync('ed25519');
+      const attacker = loadSigningKey(otherKey.export({ type: 'pkcs8', format: 'pem' }) as string);
+      entries[1]!.signature = signEntryHash(entries[1]!.entryHash, attacker);
+
+      const result = verifyCustodyChain(evidenceId, entries, signingKey);
+
+      expect(result.firstBrokenLink).toMatchObject({ sequenceNumber: 1, reason: 'SIGNATURE_INVALID' });
+    });
+
+    it('should verify entries signed before a key rotation with the retired key', () => {
+      const { privateKey: retiredPrivateKey } = crypto.generateKeyPairSync('ed25519');
+      const retired = loadSigningKey(retiredPrivateKey.export({ type: 'pkcs8', format: 'pem' }) as string);
+      const entries = buildChain(3, index => (index < 2 ? retired : signingKey));
+
+      expect(verifyCustodyChain(evidenceId, entries, [signingKey, retired]).valid).toBe(true);
+      expect(verifyCustodyChain(evidenceId, entries, signingKey).firstBrokenLink)
+        .toMatchObject({ sequenceNumber: 0, reason: 'UNKNOWN_SIGNING_KEY' });
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DiscoveryEngine } from '../../../../src/communication/discovery/discovery-engine';
+import { parseQuery } from '../../../../src/communication/discovery/search-index';
+
+describe('Discovery Engine', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'discovery-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const config = (overrides: Record<string, any> = {}): any => ({
+    indexing: { enabled: true, realTime: true, batchSize: 10, contentExtraction: false, ocrEnabled: false },
+    search: { stemming: true, fuzzySearch: false, synonyms: false, maxResults: 50, highlightEnabled: true },
+    export: { formats: ['native', 'pdf', 'load_file'], maxFileSize: 10, compressionEnabled: false, watermarking: false, directory },
+    ...overrides,
+  });
+
+  const client = { id: 'p1', name: 'Sam Client', email: 'sam@acme.com', role: 'client', relationship: 'attorney_client' };
+  const counsel = { id: 'p2', name: 'Jane Counsel', email: 'jane@firm-law.com', role: 'attorney', relationship: 'attorney_client' };
+  const opponent = { id: 'p3', name: 'Pat Opposing', email: 'pat@other.com', role: 'opposing_counsel', relationship: 'opposing_party' };
+
+  const communication = (id: string, timestamp: string, subject: string, body: string, overrides: Record<string, any> = {}): any => ({
+    id,
+    type: 'email',
+    timestamp: new Date(timestamp),
+    caseId: 'case-1',
+    participants: [client, counsel],
+    content: { subject, body, format: 'text' },
+    metadata: { channel: 'email', direction: 'inbound', priority: 'medium', status: 'delivered' },
+    attachments: [],
+    classification: { sensitivity: 'medium', category: 'email', requiresReview: false, tags: [] },
+    privilegeStatus: 'public',
+    ...overrides,
+  });
+
+  const corpus = () => [
+    communication('c1', '2025-01-10T09:00:00Z', 'Settlement terms', 'We settled the dispute on favourable terms.', {
+      privilegeStatus: 'privileged',
+      classification: { sensitivity: 'high', category: 'email', requiresReview: false, tags: ['settlement'] },
+    }),
+    communication('c2', '2025-01-20T09:00:00Z', 'Meeting notes', 'The board meeting covered the settlement offer and payroll.', {
+      participants: [client, opponent],
+    }),
+    communication('c3', '2025-02-05T09:00:00Z', 'Draft contract', 'Attached is the draft non-disclosure agreement for review.', {
+      type: 'sms',
+      privilegeStatus: 'work_product',
+      classification: { sensitivity: 'medium', category: 'sms', requiresReview: false, tags: ['contract', 'settlement'] },
+    }),
+    communication('c4', '2025-02-06T09:00:00Z', 'Lunch', 'Lunch on Friday?'),
+  ];
+
+  const indexed = async (engineConfig = config(), privilege?: any) => {
+    const engine = new DiscoveryEngine(engineConfig, privilege);
+    for (const record of corpus()) {
+      await engine.indexCommunication(record, record.id);
+    }
+    return engine;
+  };
+
+  const ids = (results: { communications: Array<{ id: string }> }) => results.communications.map(record => record.id);
+
+  describe('parseQuery', () => {
+    it('should parse boolean operators, exclusions, fields, phrases, proximity and prefixes', () => {
+      expect(parseQuery('subject:settle* AND (offer OR "draft agreement"~2) -lunch')).toEqual({
+        type: 'and',
+        nodes: [
+          { type: 'term', term: 'settle', field: 'subject', prefix: true },
+          { type: 'or', nodes: [{ type: 'term', term: 'offer' }, { type: 'phrase', terms: ['draft', 'agreement'], slop: 2 }] },
+          { type: 'not', node: { type: 'term', term: 'lunch' } },
+        ],
+      });
+      expect(parseQuery('board NEAR/3 payroll')).toEqual({ type: 'near', left: 'board', right: 'payroll', distance: 3 });
+      expect(parseQuery('')).toEqual({ type: 'all' });
+    });
+
+    it('should reject malformed queries', () => {
+      expect(() => parseQuery('(offer OR terms')).toThrow('Unbalanced parentheses in query');
+      expect(() => parseQuery('sender:jane')).toThrow('Unknown search field: sender');
+      expect(() => parseQuery('offer NEAR/2 "a phrase"')).toThrow('NEAR must join two words');
+    });
+  });
+
+  describe('search', () => {
+    it('should match stemmed terms, phrases, proximity, prefixes and fields', async () => {
+      const engine = await indexed();
+
+      expect(ids(await engine.search({ terms: 'settling' } as any))).toEqual(['c1']);
+      expect(ids(await engine.search({ terms: '"settlement offer"' } as any))).toEqual(['c2']);
+      expect(ids(await engine.search({ terms: 'non-disclosure' } as any))).toEqual(['c3']);
+      expect(ids(await engine.search({ terms: 'board NEAR/7 payroll' } as any))).toEqual(['c2']);
+      expect(ids(await engine.search({ terms: 'board NEAR/6 payroll' } as any))).toEqual([]);
+      expect(ids(await engine.search({ terms: 'contr*' } as any))).toEqual(['c3']);
+      expect(ids(await engine.search({ terms: 'subject:settlement' } as any))).toEqual(['c1']);
+      expect(ids(await engine.search({ terms: 'participant:opposing' } as any))).toEqual(['c2']);
+      expect(ids(await engine.search({ terms: 'settlement -board' } as any))).toEqual(['c1']);
+    });
+
+    it('should expand synonyms and near misses when enabled', async () => {
+      const engine = await indexed(config({
+        search: { stemming: true, fuzzySearch: true, synonyms: true, maxResults: 50, highlightEnabled: false },
+      }));
+
+      expect(ids(await engine.search({ terms: 'contract' } as any))).toEqual(['c3']);
+      expect(ids(await engine.search({ terms: 'agreement' } as any))).toEqual(['c3']);
+      expect(ids(await engine.search({ terms: 'setlement' } as any)).sort()).toEqual(['c1', 'c2']);
+    });
+
+    it('should apply filters, order by date without terms and page results', async () => {
+      const engine = await indexed();
+
+      const newest = await engine.search({ limit: 2 } as any);
+      expect(ids(newest)).toEqual(['c4', 'c3']);
+      expect(newest.total).toBe(4);
+      expect(ids(await engine.search({ limit: 2, offset: 2 } as any))).toEqual(['c2', 'c1']);
+
+      expect(ids(await engine.search({ participants: ['PAT@other.com'] } as any))).toEqual(['c2']);
+      expect(ids(await engine.search({ communicationType: ['sms'] } as any))).toEqual(['c3']);
+      expect(ids(await engine.search({ privilegeStatus: ['privileged', 'work_product'] } as any))).toEqual(['c3', 'c1']);
+      expect(ids(await engine.search({
+        dateRange: { start: new Date('2025-01-15T00:00:00Z'), end: new Date('2025-02-05T23:59:59Z') },
+      } as any))).toEqual(['c3', 'c2']);
+    });
+
+    it('should count facets over every match, not just the returned page', async () => {
+      const engine = await indexed();
+      const { facets } = await engine.search({ terms: 'settlement OR lunch OR draft', limit: 1 } as any);
+
+      expect(facets.types).toEqual([{ value: 'email', count: 3 }, { value: 'sms', count: 1 }]);
+      expect(facets.tags).toEqual([{ value: 'settlement', count: 2 }, { value: 'contract', count: 1 }]);
+      expect(facets.privilegeStatus).toEqual([
+        { value: 'public', count: 2 },
+        { value: 'privileged', count: 1 },
+        { value: 'work_product', count: 1 },
+      ]);
+      expect(facets.participants[0]).toEqual({ value: 'sam@acme.com', count: 4 });
+      expect(facets.dates).toEqual([
+        { period: 'month', date: new Date('2025-01-01T00:00:00Z'), count: 2 },
+        { period: 'month', date: new Date('2025-02-01T00:00:00Z'), count: 2 },
+      ]);
+    });
+
+    it('should highlight matches with escaped snippets', async () => {
+      const engine = new DiscoveryEngine(config());
+      await engine.indexCommunication(communication('c9', '2025-03-01T09:00:00Z', 'Re', 'Terms <draft> & the settlement.'), 'c9');
+
+      const { highlights } = await engine.search({ terms: 'settlement' } as any);
+      expect(highlights).toEqual({ c9: 'Terms &lt;draft&gt; &amp; the <mark>settlement</mark>.' });
+    });
+
+    it('should hold communications for a batch until searched, and forget removed ones', async () => {
+      const engine = new DiscoveryEngine(config({
+        indexing: { enabled: true, realTime: false, batchSize: 100, contentExtraction: false, ocrEnabled: false },
+      }));
+      for (const record of corpus()) {
+        await engine.indexCommunication(record, record.id);
+      }
+
+      expect((await engine.search({ terms: 'lunch' } as any)).total).toBe(1);
+      engine.removeCommunication('c4');
+      expect((await engine.search({ terms: 'lunch' } as any)).total).toBe(0);
+    });
+  });
+
+  describe('exportForDiscovery', () => {
+    const request = (overrides: Record<string, any> = {}): any => ({
+      caseId: 'case-1',
+      dateRange: { start: new Date('2025-01-01T00:00:00Z'), end: new Date('2025-12-31T00:00:00Z') },
+      format: 'native',
+      privilegeFilter: 'exclude_privileged',
+      ...overrides,
+    });
+
+    const privilegeSource = (decisions: Record<string, any>) => ({
+      getDecision: async (communicationId: string) => decisions[communicationId] ?? null,
+      shouldRedact: (decision: any) => decision.redact,
+      redact: (record: any) => ({ ...record, content: { ...record.content, body: '[PRIVILEGED]' } }),
+    });
+
+    const decision = (communicationId: string, status: string, redact = false) => ({
+      communicationId,
+      status,
+      ruleIds: [],
+      reasons: ['Counsel-only conversation'],
+      redact,
+      reviewState: 'not_required',
+      decidedAt: new Date('2025-03-01T00:00:00Z'),
+    });
+
+    const readJsonl = async (file: string) =>
+      (await fs.readFile(file, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+
+    it('should withhold privileged communications, redact where decided and serve the privilege log', async () => {
+      const engine = await indexed(config(), privilegeSource({
+        c1: decision('c1', 'privileged'),
+        c2: decision('c2', 'public'),
+        c3: decision('c3', 'work_product', true),
+        c4: decision('c4', 'public'),
+      }));
+
+      const result = await engine.exportForDiscovery(request());
+
+      expect(result.files.map(file => path.basename(file))).toEqual(['communications.jsonl', 'privilege-log.csv', 'privilege-log.pdf']);
+      const produced = await readJsonl(result.files[0]!);
+      expect(produced.map(record => [record.id, record.redacted])).toEqual([['c2', false], ['c3', true], ['c4', false]]);
+      expect(produced[1].content.body).toBe('[PRIVILEGED]');
+
+      expect(result.metadata.totalCommunications).toBe(3);
+      expect(result.metadata.privilegeLog.map(entry => [entry.communicationId, entry.treatment])).toEqual([
+        ['c1', 'withheld'],
+        ['c3', 'redacted'],
+      ]);
+      const csv = await fs.readFile(result.files[1]!, 'utf8');
+      expect(csv.split('\r\n')).toHaveLength(4);
+      expect((await fs.readFile(result.files[2]!)).subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should refuse to export while a privilege decision is missing or under review', async () => {
+      const engine = await indexed(config(), privilegeSource({
+        c1: decision('c1', 'pending'),
+        c2: decision('c2', 'public'),
+        c3: decision('c3', 'public'),
+        c4: decision('c4', 'public'),
+      }));
+
+      await expect(engine.exportForDiscovery(request()))
+        .rejects.toThrow('Cannot export: privilege log has 1 issue(s), e.g. PENDING_REVIEW for c1');
+      await expect((await indexed()).exportForDiscovery(request()))
+        .rejects.toThrow('Privilege decisions are required to withhold privileged communications');
+    });
+
+    it('should select by keyword, participant and date range, and produce only privileged records on request', async () => {
+      const engine = await indexed();
+
+      const privileged = await engine.exportForDiscovery(request({ privilegeFilter: 'privileged_only' }));
+      expect((await readJsonl(privileged.files[0]!)).map(record => record.id)).toEqual(['c1', 'c3']);
+      expect(privileged.metadata.privilegeLog).toEqual([]);
+
+      const selected = await engine.exportForDiscovery(request({
+        privilegeFilter: 'include_all',
+        keywords: ['settlement offer', 'lunch'],
+        dateRange: { start: new Date('2025-01-01T00:00:00Z'), end: new Date('2025-01-31T00:00:00Z') },
+      }));
+      expect((await readJsonl(selected.files[0]!)).map(record => record.id)).toEqual(['c2']);
+    });
+
+    it('should write a Concordance load file with one text file per record', async () => {
+      const engine = await indexed();
+      const result = await engine.exportForDiscovery(request({ format: 'load_file', privilegeFilter: 'include_all' }));
+
+      expect(result.files.map(file => path.relative(path.dirname(result.files[0]!), file))).toEqual([
+        'communications.dat',
+        path.join('TEXT', 'c1.txt'),
+        path.join('TEXT', 'c2.txt'),
+        path.join('TEXT', 'c3.txt'),
+        path.join('TEXT', 'c4.txt'),
+      ]);
+      const [header, first] = (await fs.readFile(result.files[0]!, 'utf8')).replace(/^\ufeff/, '').split('\r\n');
+      expect(header!.split('\u0014')[0]).toBe('þDOCIDþ');
+      expect(first!.split('\u0014')).toEqual(expect.arrayContaining(['þc1þ', 'þprivilegedþ', 'þTEXT\\c1.txtþ']));
+    });
+
+    it('should reject formats that are not enabled', async () => {
+      const engine = await indexed(config({
+        export: { formats: ['native'], maxFileSize: 10, compressionEnabled: false, watermarking: false, directory },
+      }));
+      await expect(engine.exportForDiscovery(request({ format: 'pdf' }))).rejects.toThrow('Export format pdf is not enabled');
+    });
+  });
+});
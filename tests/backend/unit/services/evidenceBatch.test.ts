@@ -0,0 +1,126 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  applyMetadataChanges,
+  batchProgress,
+  batchReportToCsv,
+  finalBatchStatus,
+  mapBatchRow,
+} from '../../../../backend/src/services/evidenceBatch';
+import { BatchItemResult, EvidenceBatchReport } from '../../../../backend/src/types';
+
+describe('Evidence Batch Operations', () => {
+  describe('batchProgress', () => {
+    it('should round down to whole percentages and treat an empty batch as complete', () => {
+      expect(batchProgress(0, 300)).toBe(0);
+      expect(batchProgress(299, 300)).toBe(99);
+      expect(batchProgress(300, 300)).toBe(100);
+      expect(batchProgress(0, 0)).toBe(100);
+    });
+  });
+
+  describe('finalBatchStatus', () => {
+    it('should report partial failure separately from total failure', () => {
+      expect(finalBatchStatus(300, 0)).toBe('COMPLETED');
+      expect(finalBatchStatus(297, 3)).toBe('PARTIAL');
+      expect(finalBatchStatus(0, 3)).toBe('FAILED');
+    });
+  });
+
+  describe('applyMetadataChanges', () => {
+    const current = {
+      tags: ['Board', 'valuation'],
+      keywords: ['ESOP'],
+      statutes: ['29 U.S.C. § 1104'],
+    };
+
+    it('should add normalised terms, remove without case and return only changed lists', () => {
+      expect(applyMetadataChanges(current, {
+        addTags: ['  Privileged ', 'board'],
+        removeTags: ['VALUATION'],
+        addKeywords: ['esop'],
+      })).toEqual({ tags: ['Board', 'Privileged'] });
+    });
+
+    it('should return nothing when no list changes', () => {
+      expect(applyMetadataChanges(current, { removeStatutes: ['18 U.S.C. § 1519'] })).toEqual({});
+    });
+  });
+
+  describe('mapBatchRow', () => {
+    it('should split item outcomes and compute progress', () => {
+      const items: BatchItemResult[] = [
+        { evidenceId: 'ev-1', sequence: 1, status: 'SUCCEEDED' },
+        { evidenceId: 'ev-2', sequence: 2, status: 'FAILED', errorCode: 'NOT_HELD', error: 'Item has no manual hold' },
+        { evidenceId: 'ev-3', sequence: 3, status: 'SKIPPED' },
+      ];
+
+      const batch = mapBatchRow({
+        id: 'batch-1',
+        type: 'REMOVE_LEGAL_HOLD',
+        parameters: '{"orderId":"order-1"}',
+        status: 'CANCELLED',
+        total_items: 3,
+        processed_items: 2,
+        requested_by: 'user-1',
+        requested_at: '2025-05-01T10:00:00Z',
+        cancelled_by: 'user-2',
+      }, items);
+
+      expect(batch.parameters).toEqual({ orderId: 'order-1' });
+      expect(batch.progress).toBe(66);
+      expect(batch.evidenceIds).toEqual(['ev-1', 'ev-2', 'ev-3']);
+      expect(batch.successful).toEqual(['ev-1']);
+      expect(batch.failed).toEqual([{ evidenceId: 'ev-2', errorCode: 'NOT_HELD', error: 'Item has no manual hold' }]);
+      expect(batch.skipped).toEqual(['ev-3']);
+      expect(batch.cancelledBy).toBe('user-2');
+    });
+  });
+
+  describe('batchReportToCsv', () => {
+    it('should write one row per item with details as JSON', () => {
+      const report: EvidenceBatchReport = {
+        batch: {
+          id: 'batch-1',
+          type: 'VERIFY_INTEGRITY',
+          parameters: {},
+          status: 'PARTIAL',
+          progress: 100,
+          processed: 2,
+          requestedBy: 'user-1',
+          requestedAt: new Date('2025-05-01T10:00:00Z'),
+        },
+        totals: { PENDING: 0, SUCCEEDED: 1, FAILED: 1, SKIPPED: 0 },
+        items: [
+          {
+            evidenceId: 'ev-1',
+            sequence: 1,
+            status: 'SUCCEEDED',
+            details: { checkId: 'check-1', integrityScore: 100 },
+            processedAt: new Date('2025-05-01T10:00:01Z'),
+          },
+          {
+            evidenceId: 'ev-2',
+            sequence: 2,
+            status: 'FAILED',
+            errorCode: 'TAMPER_DETECTED',
+            error: 'Integrity check detected tampering',
+            processedAt: new Date('2025-05-01T10:00:02Z'),
+          },
+        ],
+        generatedAt: new Date('2025-05-01T10:05:00Z'),
+      };
+
+      const lines = batchReportToCsv(report).trimEnd().split('\r\n');
+
+      expect(lines).toEqual([
+        'Sequence,Evidence ID,Status,Error Code,Error,Details,Processed At',
+        '1,ev-1,SUCCEEDED,,,"{""checkId"":""check-1"",""integrityScore"":100}",2025-05-01T10:00:01.000Z',
+        '2,ev-2,FAILED,TAMPER_DETECTED,Integrity check detected tampering,,2025-05-01T10:00:02.000Z',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+jest.mock('../../../../backend/src/services/legalHold', () => ({
+  getActiveHolds: jest.fn(),
+}));
+
+import database from '../../../../backend/src/config/database';
+import { getActiveHolds } from '../../../../backend/src/services/legalHold';
+import { loadSigningKey, signEntryHash } from '../../../../backend/src/services/custodyLedger';
+import {
+  approvalOutcome,
+  certificateNumber,
+  executeDisposition,
+  getCourtOrderAttachmentTypes,
+  getHeldStoredFiles,
+  hashCertificateContent,
+  mapDispositionRow,
+  verifyCertificate,
+} from '../../../../backend/src/services/evidenceDisposition';
+import { DispositionCertificate } from '../../../../backend/src/types';
+
+describe('Evidence Disposition', () => {
+  describe('approvalOutcome', () => {
+    it('should need two approvals and end on any rejection', () => {
+      expect(approvalOutcome([])).toBe('PENDING_APPROVAL');
+      expect(approvalOutcome([{ decision: 'APPROVED' }])).toBe('PENDING_APPROVAL');
+      expect(approvalOutcome([{ decision: 'APPROVED' }, { decision: 'APPROVED' }])).toBe('APPROVED');
+      expect(approvalOutcome([{ decision: 'APPROVED' }, { decision: 'REJECTED' }])).toBe('REJECTED');
+    });
+  });
+
+  describe('getCourtOrderAttachmentTypes', () => {
+    const original = process.env['DISPOSITION_COURT_ORDER_REQUIRED'];
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env['DISPOSITION_COURT_ORDER_REQUIRED'];
+      } else {
+        process.env['DISPOSITION_COURT_ORDER_REQUIRED'] = original;
+      }
+    });
+
+    it('should require no attachment unless configured', () => {
+      delete process.env['DISPOSITION_COURT_ORDER_REQUIRED'];
+      expect(getCourtOrderAttachmentTypes()).toEqual([]);
+    });
+
+    it('should read a comma-separated list and ignore unknown types', () => {
+      process.env['DISPOSITION_COURT_ORDER_REQUIRED'] = ' destruction, RETURN ,ARCHIVAL';
+      expect(getCourtOrderAttachmentTypes()).toEqual(['DESTRUCTION', 'RETURN']);
+    });
+  });
+
+  describe('certificateNumber', () => {
+    it('should prefix by type and include the issue date', () => {
+      const issuedAt = new Date('2025-03-04T15:00:00Z');
+      expect(certificateNumber('DESTRUCTION', '9b2f4c1e-0000-4000-8000-000000000000', issuedAt)).toBe('COD-20250304-9B2F4C1E');
+      expect(certificateNumber('RETURN', '0a1b2c3d-0000-4000-8000-000000000000', issuedAt)).toBe('RTN-20250304-0A1B2C3D');
+    });
+  });
+
+  describe('verifyCertificate', () => {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    const signingKey = loadSigningKey(privateKey.export({ type: 'pkcs8', format: 'pem' }) as string);
+
+    const issue = (content: Record<string, any>): DispositionCertificate => {
+      const contentHash = hashCertificateContent(content);
+      return {
+        id: 'certificate-1',
+        dispositionId: 'disposition-1',
+        evidenceId: 'ev-1',
+        certificateType: 'CERTIFICATE_OF_DESTRUCTION',
+        certificateNumber: 'COD-20250304-9B2F4C1E',
+        content,
+        contentHash,
+        signature: signEntryHash(contentHash, signingKey),
+        signatureAlgorithm: signingKey.algorithm,
+        signingKeyFingerprint: signingKey.fingerprint,
+        issuedAt: new Date('2025-03-04T15:00:00Z'),
+      };
+    };
+
+    const content = {
+      certificateNumber: 'COD-20250304-9B2F4C1E',
+      issuedAt: new Date('2025-03-04T15:00:00Z'),
+      evidence: { id: 'ev-1', integrityHash: 'a'.repeat(64) },
+      erasures: [{ documentId: 'doc-1', status: 'ERASED' }],
+    };
+
+    it('should verify a certificate read back from storage', () => {
+      const certificate = issue(content);
+      const stored = { ...certificate, content: JSON.parse(JSON.stringify(certificate.content)) };
+
+      expect(verifyCertificate(stored, signingKey)).toMatchObject({
+        valid: true,
+        contentHashMatches: true,
+        signatureValid: true,
+      });
+    });
+
+    it('should detect altered content and a foreign signing key', () => {
+      const certificate = issue(content);
+      const altered = { ...certificate, content: { ...content, erasures: [] } };
+      expect(verifyCertificate(altered, signingKey)).toMatchObject({ valid: false, contentHashMatches: false });
+
+      const other = loadSigningKey(
+        crypto.generateKeyPairSync('ed25519').privateKey.export({ type: 'pkcs8', format: 'pem' }) as string
+      );
+      expect(verifyCertificate(certificate, other)).toMatchObject({ valid: false, signatureValid: false });
+    });
+  });
+
+  describe('mapDispositionRow', () => {
+    it('should parse the recipient and erasures and omit empty fields', () => {
+      const disposition = mapDispositionRow({
+        id: 'disposition-1',
+        evidence_id: 'ev-1',
+        disposition_type: 'RETURN',
+        status: 'COMPLETED',
+        method: 'COURIER',
+        reason: 'Case closed',
+        recipient: '{"name":"Jordan Reyes","organization":"Reyes Holdings"}',
+        court_order_reference: null,
+        requested_by: 'user-1',
+        requested_at: '2025-03-01T09:00:00Z',
+        executed_by: 'user-4',
+        executed_at: '2025-03-04T15:00:00Z',
+        certificate_id: 'certificate-1',
+      }, [{ approverId: 'user-2', decision: 'APPROVED', decidedAt: new Date('2025-03-02T09:00:00Z') }]);
+
+      expect(disposition.recipient).toEqual({ name: 'Jordan Reyes', organization: 'Reyes Holdings' });
+      expect(disposition.courtOrderReference).toBeUndefined();
+      expect(disposition.erasures).toBeUndefined();
+      expect(disposition.approvals).toHaveLength(1);
+      expect(disposition.certificateId).toBe('certificate-1');
+    });
+  });
+
+  describe('stored file holds', () => {
+    // Knex-style builder: every call chains, awaiting it yields the table's rows
+    const tables: Record<string, any[]> = {};
+    const builder = (table: string): any => {
+      const query: any = new Proxy({}, {
+        get: (_, property) => {
+          if (property === 'then') {
+            return (resolve: (rows: any[]) => void) => resolve(tables[table] ?? []);
+          }
+          if (property === 'first') {
+            return async () => (tables[table] ?? [])[0];
+          }
+          if (property === 'pluck') {
+            return async () => [];
+          }
+          return () => query;
+        },
+      });
+      return query;
+    };
+
+    const evidence = { id: 'ev-1', evidence_type: 'DOCUMENT', document_id: 'doc-1', chain_of_custody: '[]' };
+    const hold = { orderId: 'order-1', orderNumber: 'PO-2025-0001', matchSource: 'KEYWORD' };
+
+    beforeEach(() => {
+      tables['evidence_items'] = [evidence];
+      tables['documents'] = [
+        { id: 'doc-1', file_path: 'doc-1.pdf', file_hash: 'aa' },
+        { id: 'doc-1-v2', file_path: 'doc-1-v2.pdf', file_hash: 'bb' },
+      ];
+      (database as unknown as jest.Mock).mockImplementation(builder);
+      (getActiveHolds as jest.Mock).mockImplementation(async (_type: string, id: string) => (id === 'doc-1-v2' ? [hold] : []));
+    });
+
+    it('should check the document and every version for holds of their own', async () => {
+      expect(await getHeldStoredFiles(evidence)).toEqual([{ documentId: 'doc-1-v2', holds: [hold] }]);
+      expect((getActiveHolds as jest.Mock).mock.calls).toEqual([['document', 'doc-1'], ['document', 'doc-1-v2']]);
+      expect(await getHeldStoredFiles({ id: 'ev-2' })).toEqual([]);
+    });
+
+    it('should refuse to execute, erasing nothing, while a stored file is held', async () => {
+      const disposition = mapDispositionRow({
+        id: 'disposition-1',
+        evidence_id: 'ev-1',
+        disposition_type: 'DESTRUCTION',
+        status: 'APPROVED',
+        method: 'CRYPTOGRAPHIC_ERASURE',
+        reason: 'Retention period ended',
+        requested_by: 'user-1',
+        requested_at: '2025-03-01T09:00:00Z',
+      });
+
+      const result = await executeDisposition(disposition, { id: 'user-4', email: 'clerk@example.com' });
+
+      expect(result).toEqual({ disposition, certificate: null, heldFiles: [{ documentId: 'doc-1-v2', holds: [hold] }] });
+      expect((database as unknown as jest.Mock).mock.calls.map(([table]) => table)).not.toContain('evidence_dispositions');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  EdgeLoader,
+  findShortestPath,
+  followRelationship,
+  traverseGraph,
+} from '../../../../backend/src/services/evidenceGraph';
+import { EvidenceRelationship, EvidenceRelationshipType } from '../../../../backend/src/types';
+
+describe('Evidence Graph', () => {
+  const relationship = (
+    id: string,
+    source: string,
+    target: string,
+    relationshipType: EvidenceRelationshipType
+  ): EvidenceRelationship => ({
+    id,
+    caseId: 'case-1',
+    sourceEvidenceId: source,
+    targetEvidenceId: target,
+    relationshipType,
+    strength: 'STRONG',
+    confidence: 80,
+    description: `${source} ${relationshipType} ${target}`,
+    method: 'Manual review',
+    evidence: [],
+    tags: [],
+    establishedBy: 'user-1',
+    establishedAt: new Date(Date.UTC(2024, 0, 1)),
+    verified: false,
+  });
+
+  // statement-1 contradicts ledger; ledger is derived from the bank export, which supports invoice
+  const relationships = [
+    relationship('r1', 'statement-1', 'ledger', 'CONTRADICTS'),
+    relationship('r2', 'ledger', 'bank-export', 'DERIVED_FROM'),
+    relationship('r3', 'bank-export', 'invoice', 'SUPPORTS'),
+    relationship('r4', 'statement-2', 'statement-1', 'SUPPORTS'),
+  ];
+
+  const loader = (): EdgeLoader & jest.Mock =>
+    jest.fn(async (ids: string[]) => relationships.filter(rel =>
+      ids.includes(rel.sourceEvidenceId) || ids.includes(rel.targetEvidenceId)));
+
+  describe('followRelationship', () => {
+    it('should follow directed relationships only in the requested direction', () => {
+      const derived = relationships[1]!;
+
+      expect(followRelationship(derived, 'ledger', 'out')).toBe('bank-export');
+      expect(followRelationship(derived, 'ledger', 'in')).toBeUndefined();
+      expect(followRelationship(derived, 'bank-export', 'in')).toBe('ledger');
+      expect(followRelationship(derived, 'bank-export', 'both')).toBe('ledger');
+    });
+
+    it('should follow symmetric relationships either way', () => {
+      const contradiction = relationships[0]!;
+
+      expect(followRelationship(contradiction, 'ledger', 'out')).toBe('statement-1');
+      expect(followRelationship(contradiction, 'statement-1', 'in')).toBe('ledger');
+    });
+  });
+
+  describe('traverseGraph', () => {
+    it('should return items nearest first up to the requested depth', async () => {
+      const load = loader();
+      const result = await traverseGraph('ledger', 2, 'both', load);
+
+      expect(result.evidenceIds).toEqual(['ledger', 'statement-1', 'bank-export', 'invoice', 'statement-2']);
+      expect(result.relationships.map(rel => rel.id).sort()).toEqual(['r1', 'r2', 'r3', 'r4']);
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('should respect direction for outgoing walks', async () => {
+      const result = await traverseGraph('statement-2', 3, 'out', loader());
+
+      // statement-2 -> statement-1 (SUPPORTS), statement-1 <-> ledger (CONTRADICTS), ledger -> bank-export
+      expect(result.evidenceIds).toEqual(['statement-2', 'statement-1', 'ledger', 'bank-export']);
+    });
+  });
+
+  describe('findShortestPath', () => {
+    it('should find the shortest chain regardless of direction', async () => {
+      const path = await findShortestPath('statement-2', 'invoice', 8, loader());
+
+      expect(path?.evidenceIds).toEqual(['statement-2', 'statement-1', 'ledger', 'bank-export', 'invoice']);
+      expect(path?.relationships.map(rel => rel.id)).toEqual(['r4', 'r1', 'r2', 'r3']);
+    });
+
+    it('should give up beyond the maximum length', async () => {
+      expect(await findShortestPath('statement-2', 'invoice', 3, loader())).toBeNull();
+      expect(await findShortestPath('statement-2', 'unrelated', 8, loader())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  isTransitionAllowed,
+  LifecycleContext,
+  lifecycleRequirements,
+  unmetRequirements,
+} from '../../../../backend/src/services/evidenceLifecycle';
+
+describe('Evidence Lifecycle', () => {
+  const context = (overrides: Partial<LifecycleContext> = {}): LifecycleContext => ({
+    authenticityVerified: true,
+    custody: { evidenceId: 'ev-1', valid: true, entriesChecked: 3, verifiedAt: new Date() },
+    activeHolds: [],
+    ...overrides,
+  });
+
+  describe('isTransitionAllowed', () => {
+    it('should follow the collection to presentation path', () => {
+      expect(isTransitionAllowed('COLLECTED', 'PROCESSING')).toBe(true);
+      expect(isTransitionAllowed('PROCESSING', 'ANALYZED')).toBe(true);
+      expect(isTransitionAllowed('ANALYZED', 'PRESENTED')).toBe(true);
+      expect(isTransitionAllowed('PRESENTED', 'ARCHIVED')).toBe(true);
+      expect(isTransitionAllowed('ARCHIVED', 'DESTROYED')).toBe(true);
+    });
+
+    it('should reject skipped stages and leaving DESTROYED', () => {
+      expect(isTransitionAllowed('COLLECTED', 'PRESENTED')).toBe(false);
+      expect(isTransitionAllowed('PROCESSING', 'DESTROYED')).toBe(false);
+      expect(isTransitionAllowed('DESTROYED', 'ARCHIVED')).toBe(false);
+      expect(isTransitionAllowed('RETURNED', 'PRESENTED')).toBe(false);
+      expect(isTransitionAllowed('COLLECTED', 'COLLECTED')).toBe(false);
+    });
+  });
+
+  describe('lifecycleRequirements', () => {
+    it('should require an intact custody chain and verified authenticity before presentation', () => {
+      const broken = context({
+        authenticityVerified: false,
+        custody: {
+          evidenceId: 'ev-1',
+          valid: false,
+          entriesChecked: 2,
+          firstBrokenLink: { sequenceNumber: 2, entryId: 'entry-2', reason: 'ENTRY_HASH_MISMATCH', message: 'Entry hash does not match' },
+          verifiedAt: new Date(),
+        },
+      });
+
+      const unmet = unmetRequirements(lifecycleRequirements('PRESENTED', broken));
+      expect(unmet.map(requirement => requirement.type)).toEqual(['CUSTODY_CHAIN_INTACT', 'AUTHENTICITY_VERIFIED']);
+      expect(unmet[0]!.details?.['firstBrokenLink']).toEqual(expect.objectContaining({ sequenceNumber: 2 }));
+
+      expect(unmetRequirements(lifecycleRequirements('PRESENTED', context()))).toEqual([]);
+    });
+
+    it('should require a court order, an approved disposition and no legal hold before destruction', () => {
+      const held = context({ activeHolds: [{ orderId: 'order-1', orderNumber: 'PO-1', matchSource: 'SCOPE' }] });
+
+      expect(unmetRequirements(lifecycleRequirements('DESTROYED', held)).map(requirement => requirement.type))
+        .toEqual(['COURT_ORDER', 'DISPOSITION_APPROVED', 'NO_ACTIVE_LEGAL_HOLD']);
+      expect(unmetRequirements(lifecycleRequirements('DESTROYED', context(), { courtOrderReference: 'Order 2024/117' }))
+        .map(requirement => requirement.type)).toEqual(['DISPOSITION_APPROVED']);
+      expect(unmetRequirements(lifecycleRequirements('DESTROYED', context(), {
+        courtOrderReference: 'Order 2024/117',
+        dispositionId: 'disposition-1',
+      }))).toEqual([]);
+    });
+
+    it('should only return evidence to its owner through an approved disposition', () => {
+      expect(unmetRequirements(lifecycleRequirements('RETURNED', context())).map(requirement => requirement.type))
+        .toEqual(['DISPOSITION_APPROVED']);
+      expect(unmetRequirements(lifecycleRequirements('RETURNED', context(), { dispositionId: 'disposition-1' }))).toEqual([]);
+    });
+
+    it('should require results when analysis is completed', () => {
+      expect(unmetRequirements(lifecycleRequirements('ANALYZED', context(), { results: '  ' }))).toHaveLength(1);
+      expect(unmetRequirements(lifecycleRequirements('ANALYZED', context(), { results: 'No alterations found' }))).toEqual([]);
+      expect(lifecycleRequirements('PROCESSING', context())).toEqual([]);
+    });
+  });
+});
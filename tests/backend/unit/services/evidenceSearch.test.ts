@@ -0,0 +1,142 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  buildFacet,
+  filterCondition,
+  normalizeSearchQuery,
+  normalizeSearchTerms,
+  RelevanceComponents,
+  scoreRelevance,
+} from '../../../../backend/src/services/evidenceSearch';
+
+describe('Evidence Search', () => {
+  describe('normalizeSearchTerms', () => {
+    it('should trim, collapse whitespace and drop case-insensitive duplicates', () => {
+      expect(normalizeSearchTerms(['  Wire  Fraud ', 'wire fraud', '', 'ESOP', 'esop', '18 U.S.C. § 1519']))
+        .toEqual(['Wire Fraud', 'ESOP', '18 U.S.C. § 1519']);
+    });
+  });
+
+  describe('normalizeSearchQuery', () => {
+    it('should fill in defaults', () => {
+      expect(normalizeSearchQuery({ query: '  valuation  ' })).toEqual({
+        query: 'valuation',
+        filters: [],
+        pagination: { page: 1, limit: 20 },
+        searchScope: ['FULL_TEXT'],
+      });
+    });
+
+    it('should keep given options and drop repeated scopes', () => {
+      const normalized = normalizeSearchQuery({
+        query: '',
+        searchScope: ['METADATA', 'METADATA', 'CUSTODY_RECORDS'],
+        pagination: { page: 3, limit: 50 },
+        caseId: 'CASE-1',
+      });
+
+      expect(normalized.searchScope).toEqual(['METADATA', 'CUSTODY_RECORDS']);
+      expect(normalized.pagination).toEqual({ page: 3, limit: 50 });
+      expect(normalized.caseId).toBe('CASE-1');
+    });
+  });
+
+  describe('filterCondition', () => {
+    it('should compare text fields without case', () => {
+      expect(filterCondition({ field: 'evidenceType', operator: 'IN', value: ['Email', 'CONTRACT'] })).toEqual({
+        sql: 'COALESCE(lower(evidence_items.evidence_type) IN (?, ?), false)',
+        bindings: ['email', 'contract'],
+      });
+    });
+
+    it('should match list fields element-wise and negate with NOT EXISTS', () => {
+      const { sql, bindings } = filterCondition({ field: 'tags', operator: 'NOT_IN', value: ['Privileged'] });
+
+      expect(sql).toBe(
+        'NOT EXISTS (SELECT 1 FROM jsonb_array_elements_text(evidence_items.tags) AS element(value) ' +
+        'WHERE lower(element.value) IN (?))'
+      );
+      expect(bindings).toEqual(['privileged']);
+    });
+
+    it('should escape LIKE wildcards in text matches', () => {
+      expect(filterCondition({ field: 'statutes', operator: 'STARTS_WITH', value: '18_U%' }).bindings)
+        .toEqual(['18\\_u\\%%']);
+      expect(filterCondition({ field: 'title', operator: 'CONTAINS', value: 'Board' }).bindings).toEqual(['%board%']);
+    });
+
+    it('should coerce numbers, booleans and dates', () => {
+      expect(filterCondition({ field: 'significanceLevel', operator: 'BETWEEN', value: ['7', 10] })).toEqual({
+        sql: 'COALESCE(evidence_items.significance_level BETWEEN ? AND ?, false)',
+        bindings: [7, 10],
+      });
+      expect(filterCondition({ field: 'authenticityVerified', operator: 'EQUALS', value: 'true' }).bindings).toEqual([true]);
+      expect(filterCondition({ field: 'createdAt', operator: 'GREATER_THAN', value: '2024-01-01T00:00:00Z' }).bindings)
+        .toEqual([new Date('2024-01-01T00:00:00Z')]);
+    });
+
+    it('should reject unknown fields', () => {
+      expect(() => filterCondition({ field: 'integrityHash', operator: 'EQUALS', value: 'x' }))
+        .toThrow('Unknown search field');
+    });
+  });
+
+  describe('scoreRelevance', () => {
+    const components: RelevanceComponents = {
+      title: 0.5,
+      document: 0,
+      metadata: 0.2,
+      description: 0,
+      custody: 0,
+      relationships: 1,
+      significance: 0.8,
+      verified: 1,
+    };
+
+    it('should weight each component and list only contributing factors', () => {
+      const score = scoreRelevance('ev-1', components, []);
+
+      expect(score.factors).toEqual([
+        { factor: 'title', weight: 1, contribution: 0.5 },
+        { factor: 'metadata', weight: 0.7, contribution: 0.14 },
+        { factor: 'relationships', weight: 0.2, contribution: 0.2 },
+        { factor: 'significance', weight: 0.2, contribution: 0.16 },
+        { factor: 'verified', weight: 0.1, contribution: 0.1 },
+      ]);
+      expect(score.score).toBe(1.1);
+    });
+
+    it('should add the weight of weighted filters', () => {
+      const score = scoreRelevance('ev-1', components, [
+        { field: 'tags', operator: 'IN', value: ['board'], weight: 2 },
+        { field: 'status', operator: 'EQUALS', value: 'READY' },
+      ]);
+
+      expect(score.factors).toContainEqual({ factor: 'filter:tags', weight: 2, contribution: 2 });
+      expect(score.score).toBe(3.1);
+    });
+  });
+
+  describe('buildFacet', () => {
+    it('should count values and mark those selected by EQUALS or IN filters', () => {
+      const facet = buildFacet('evidenceType', [
+        { value: 'EMAIL', count: '12' },
+        { value: 'CONTRACT', count: '4' },
+      ], [
+        { field: 'evidenceType', operator: 'IN', value: ['email'] },
+        { field: 'status', operator: 'EQUALS', value: 'CONTRACT' },
+      ]);
+
+      expect(facet).toEqual({
+        field: 'evidenceType',
+        values: [
+          { value: 'EMAIL', count: 12, selected: true },
+          { value: 'CONTRACT', count: 4, selected: false },
+        ],
+      });
+    });
+  });
+});
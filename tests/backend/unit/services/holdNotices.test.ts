@@ -0,0 +1,115 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  complianceReportCsv,
+  findUnknownPlaceholders,
+  planNoticeFollowUp,
+  renderNoticeTemplate,
+  summarizeNoticeCompliance,
+} from '../../../../backend/src/services/holdNotices';
+import { HoldNotice } from '../../../../backend/src/types';
+
+describe('Hold Notices', () => {
+  const day = (n: number) => new Date(Date.UTC(2024, 2, n));
+
+  const notice = (overrides: Partial<HoldNotice> = {}): HoldNotice => ({
+    id: 'notice-1',
+    orderId: 'order-1',
+    recipientName: 'Jane Doe',
+    recipientEmail: 'jane@example.com',
+    subject: 'Legal hold notice: PO-1',
+    body: 'Acknowledge at {{acknowledgementUrl}}',
+    format: 'text',
+    status: 'PENDING',
+    issuedBy: 'user-1',
+    issuedAt: day(1),
+    dueAt: day(8),
+    reminderIntervalDays: 3,
+    maxReminders: 2,
+    reminderCount: 0,
+    nextReminderAt: day(4),
+    ...overrides,
+  });
+
+  describe('renderNoticeTemplate', () => {
+    it('should fill supplied placeholders and leave the rest for later', () => {
+      const rendered = renderNoticeTemplate(
+        'Dear {{ custodianName }}, see order {{orderNumber}}: {{acknowledgementUrl}}',
+        { custodianName: 'Jane Doe', orderNumber: 'PO-1' },
+        'text'
+      );
+
+      expect(rendered).toBe('Dear Jane Doe, see order PO-1: {{acknowledgementUrl}}');
+    });
+
+    it('should escape values in HTML templates', () => {
+      expect(renderNoticeTemplate('<p>{{custodianName}}</p>', { custodianName: 'O\'Brien & <Co>' }, 'html'))
+        .toBe('<p>O&#39;Brien &amp; &lt;Co&gt;</p>');
+    });
+
+    it('should report placeholders it does not know', () => {
+      expect(findUnknownPlaceholders('{{custodianName}} {{caseNumber}} {{caseNumber}} {{dueDate}}')).toEqual(['caseNumber']);
+    });
+  });
+
+  describe('planNoticeFollowUp', () => {
+    it('should send reminders on schedule until the limit is reached', () => {
+      expect(planNoticeFollowUp(notice(), day(3))).toEqual({ reminder: false, escalate: false });
+      expect(planNoticeFollowUp(notice(), day(4))).toEqual({ reminder: true, escalate: false });
+      expect(planNoticeFollowUp(notice({ reminderCount: 2 }), day(7))).toEqual({ reminder: false, escalate: false });
+    });
+
+    it('should escalate once the acknowledgement deadline passes', () => {
+      expect(planNoticeFollowUp(notice({ reminderCount: 2 }), day(8))).toEqual({ reminder: false, escalate: true });
+      expect(planNoticeFollowUp(notice({ status: 'ESCALATED', reminderCount: 2 }), day(9)).escalate).toBe(false);
+    });
+
+    it('should stop following up acknowledged and withdrawn notices', () => {
+      expect(planNoticeFollowUp(notice({ status: 'ACKNOWLEDGED' }), day(20))).toEqual({ reminder: false, escalate: false });
+      expect(planNoticeFollowUp(notice({ status: 'WITHDRAWN' }), day(20))).toEqual({ reminder: false, escalate: false });
+    });
+  });
+
+  describe('summarizeNoticeCompliance', () => {
+    const notices = [
+      notice({ status: 'ACKNOWLEDGED', acknowledgedAt: day(2), acknowledgedName: 'Jane Doe' }),
+      notice({ id: 'notice-2', recipientName: 'Smith, John', recipientEmail: 'john@example.com', status: 'ESCALATED', escalatedAt: day(8), reminderCount: 2 }),
+      notice({ id: 'notice-3', recipientName: 'Ann Lee', recipientEmail: 'ann@example.com', dueAt: day(20) }),
+      notice({ id: 'notice-4', recipientName: 'Old Custodian', recipientEmail: 'old@example.com', status: 'WITHDRAWN' }),
+    ];
+    const report = summarizeNoticeCompliance(
+      { id: 'order-1', orderNumber: 'PO-1' },
+      notices,
+      new Map([['notice-2', 'FAILED' as const], ['notice-3', 'SENT' as const]]),
+      day(10)
+    );
+
+    it('should count acknowledged, outstanding, overdue and escalated custodians', () => {
+      expect(report.totals).toEqual({
+        issued: 4,
+        acknowledged: 1,
+        outstanding: 2,
+        overdue: 1,
+        escalated: 1,
+        withdrawn: 1,
+        deliveryFailures: 1,
+      });
+      expect(report.acknowledgementRate).toBe(0.333);
+      expect(report.custodians.find(entry => entry.noticeId === 'notice-2')).toMatchObject({
+        overdue: true,
+        lastDeliveryStatus: 'FAILED',
+      });
+    });
+
+    it('should export a spreadsheet with quoted cells where needed', () => {
+      const lines = complianceReportCsv(report).trimEnd().split('\r\n');
+
+      expect(lines).toHaveLength(5);
+      expect(lines[0]).toBe('Custodian,Email,Status,Issued,Due,Overdue,Reminders,Escalated,Acknowledged,Acknowledged By,Last Delivery');
+      expect(lines[2]).toMatch(/^"Smith, John",john@example\.com,ESCALATED,.*,yes,2,2024-03-08T00:00:00\.000Z,,,FAILED$/);
+    });
+  });
+});
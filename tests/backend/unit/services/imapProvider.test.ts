@@ -0,0 +1,230 @@
+import { EventEmitter } from 'events';
+
+// A scripted stand-in for an IMAP connection: folders hold messages by UID
+class MockImapClient extends EventEmitter {
+  static folders: Record<string, { uidValidity: number; messages: Array<{ uid: number; messageId?: string }> }> = {};
+  static instances: MockImapClient[] = [];
+  static failConnects = 0;
+
+  usable = false;
+  mailbox: any = null;
+
+  constructor() {
+    super();
+    MockImapClient.instances.push(this);
+  }
+
+  async connect() {
+    if (MockImapClient.failConnects > 0) {
+      MockImapClient.failConnects--;
+      throw new Error('connect ECONNREFUSED');
+    }
+    this.usable = true;
+  }
+
+  async getMailboxLock(path: string) {
+    this.select(path);
+    return { release: () => undefined };
+  }
+
+  async mailboxOpen(path: string) {
+    this.select(path);
+  }
+
+  async *fetch(range: string, _fields: unknown, _options: unknown) {
+    const from = Number(range.split(':')[0]);
+    const messages = MockImapClient.folders[this.mailbox.path]!.messages;
+    // Like a real server, n:* always returns at least the highest UID
+    const matched = messages.filter(message => message.uid >= from);
+    for (const message of matched.length > 0 ? matched : messages.slice(-1)) {
+      yield {
+        uid: message.uid,
+        source: Buffer.from(`Subject: ${message.uid}\r\n\r\nbody`),
+        internalDate: new Date('2025-03-01T09:00:00Z'),
+        flags: new Set(['\\Seen']),
+        envelope: { messageId: message.messageId },
+      };
+    }
+  }
+
+  async logout() {
+    this.drop();
+  }
+
+  close() {
+    this.drop();
+  }
+
+  drop() {
+    this.usable = false;
+    this.emit('close');
+  }
+
+  private select(path: string) {
+    const folder = MockImapClient.folders[path]!;
+    const last = folder.messages[folder.messages.length - 1];
+    this.mailbox = {
+      path,
+      uidValidity: BigInt(folder.uidValidity),
+      exists: folder.messages.length,
+      uidNext: (last ? last.uid : 0) + 1,
+    };
+  }
+}
+
+// A plain class rather than jest.fn, so resetMocks leaves it in place
+jest.mock('imapflow', () => ({ ImapFlow: MockImapClient }));
+
+import {
+  backoffDelay,
+  ImapProvider,
+  MemoryMailboxSyncStore,
+} from '../../../../src/communication/channels/email/providers/imap-provider';
+
+describe('IMAP Provider', () => {
+  const config = { host: 'imap.example.com', auth: { user: 'records', pass: 'secret' } };
+
+  const received = (provider: ImapProvider) => {
+    const emails: any[] = [];
+    provider.on('new-email', email => emails.push(email));
+    return emails;
+  };
+
+  beforeEach(() => {
+    MockImapClient.folders = {
+      INBOX: {
+        uidValidity: 100,
+        messages: [{ uid: 1, messageId: '<a@example.com>' }, { uid: 2, messageId: '<b@example.com>' }],
+      },
+    };
+    MockImapClient.instances = [];
+    MockImapClient.failConnects = 0;
+  });
+
+  describe('backoffDelay', () => {
+    it('should double from the initial delay up to the maximum, with jitter in the upper half', () => {
+      const random = jest.spyOn(Math, 'random');
+
+      random.mockReturnValue(1);
+      expect([0, 1, 2, 3, 10].map(attempt => backoffDelay(attempt, 1000, 5000))).toEqual([1000, 2000, 4000, 5000, 5000]);
+
+      random.mockReturnValue(0);
+      expect(backoffDelay(2, 1000, 5000)).toBe(2000);
+
+      random.mockRestore();
+    });
+  });
+
+  describe('incremental sync', () => {
+    it('should deliver each message once, resuming from the stored high-water mark', async () => {
+      const store = new MemoryMailboxSyncStore();
+      const provider = new ImapProvider(config, store);
+      const emails = received(provider);
+
+      await provider.connect();
+      await provider.startRealTimeMonitoring();
+      expect(emails.map(email => email.uid)).toEqual([1, 2]);
+      expect(emails[0]).toEqual(expect.objectContaining({ folder: 'INBOX', messageId: '<a@example.com>' }));
+      expect(await store.get('records@imap.example.com', 'INBOX')).toEqual(expect.objectContaining({ uidValidity: '100', lastUid: 2 }));
+
+      // New mail announced by the server while idling
+      MockImapClient.folders['INBOX']!.messages.push({ uid: 3, messageId: '<c@example.com>' });
+      MockImapClient.instances[0]!.emit('exists', { path: 'INBOX' });
+      await provider.startRealTimeMonitoring();
+      expect(emails.map(email => email.uid)).toEqual([1, 2, 3]);
+
+      await provider.disconnect();
+
+      // A fresh provider over the same store picks up where the last one stopped
+      const next = new ImapProvider(config, store);
+      const later = received(next);
+      MockImapClient.folders['INBOX']!.messages.push({ uid: 4, messageId: '<d@example.com>' });
+      await next.connect();
+      await next.startRealTimeMonitoring();
+      expect(later.map(email => email.uid)).toEqual([4]);
+      await next.disconnect();
+    });
+
+    it('should resync after a UIDVALIDITY change without delivering known messages again', async () => {
+      const store = new MemoryMailboxSyncStore();
+      const provider = new ImapProvider(config, store);
+      const emails = received(provider);
+      const resets: any[] = [];
+      provider.on('sync-reset', reset => resets.push(reset));
+
+      await provider.connect();
+      await provider.startRealTimeMonitoring();
+
+      // The server renumbered the folder; b survived and e is new
+      MockImapClient.folders['INBOX'] = {
+        uidValidity: 200,
+        messages: [{ uid: 1, messageId: '<b@example.com>' }, { uid: 2, messageId: '<e@example.com>' }, { uid: 3 }],
+      };
+      await provider.startRealTimeMonitoring();
+
+      expect(resets).toEqual([{ folder: 'INBOX', previousUidValidity: '100', uidValidity: '200' }]);
+      expect(emails.slice(2)).toEqual([
+        expect.objectContaining({ uid: 2, messageId: '<e@example.com>', resync: true }),
+        expect.objectContaining({ uid: 3, resync: true }),
+      ]);
+      expect(await store.get('records@imap.example.com', 'INBOX')).toEqual(expect.objectContaining({ uidValidity: '200', lastUid: 3 }));
+      await provider.disconnect();
+    });
+  });
+
+  describe('reconnect', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should reconnect with growing delays and catch up on mail that arrived meanwhile', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      const provider = new ImapProvider({ ...config, reconnect: { initialDelay: 1000, maxDelay: 10000 } });
+      const emails = received(provider);
+      const attempts: any[] = [];
+      provider.on('reconnecting', attempt => attempts.push(attempt));
+      provider.on('error', () => undefined);
+      const connected = jest.fn();
+      provider.on('connected', connected);
+
+      await provider.connect();
+      await provider.startRealTimeMonitoring();
+
+      MockImapClient.failConnects = 1;
+      MockImapClient.folders['INBOX']!.messages.push({ uid: 3, messageId: '<c@example.com>' });
+      MockImapClient.instances[0]!.drop();
+      expect(attempts).toEqual([{ attempt: 1, delay: 1000 }]);
+
+      // The first attempt is refused, so the next waits twice as long
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(attempts).toEqual([{ attempt: 1, delay: 1000 }, { attempt: 2, delay: 2000 }]);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(connected).toHaveBeenCalledTimes(2);
+      expect(emails.map(email => email.uid)).toEqual([1, 2, 3]);
+
+      // A successful connection resets the backoff
+      MockImapClient.instances[MockImapClient.instances.length - 1]!.drop();
+      expect(attempts[2]).toEqual({ attempt: 1, delay: 1000 });
+
+      await provider.disconnect();
+      jest.restoreAllMocks();
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const provider = new ImapProvider({ ...config, reconnect: { initialDelay: 10, maxAttempts: 1 } });
+      const errors: Error[] = [];
+      provider.on('error', error => errors.push(error));
+
+      await provider.connect();
+      MockImapClient.failConnects = 5;
+      MockImapClient.instances[0]!.drop();
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(errors.map(error => error.message)).toEqual([
+        'connect ECONNREFUSED',
+        'IMAP reconnect gave up after 1 attempts',
+      ]);
+      await provider.disconnect();
+    });
+  });
+});
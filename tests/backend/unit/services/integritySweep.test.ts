@@ -0,0 +1,111 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import database from '../../../../backend/src/config/database';
+import {
+  checkIntegrityItem,
+  evaluateDocumentIntegrity,
+  evaluateEvidenceIntegrity,
+  integrityScore,
+} from '../../../../backend/src/services/integritySweep';
+import { CustodyVerificationResult } from '../../../../backend/src/types';
+
+describe('Integrity Sweep', () => {
+  const recorded = 'a'.repeat(64);
+  const intactCustody: CustodyVerificationResult = {
+    evidenceId: 'ev-1',
+    valid: true,
+    entriesChecked: 2,
+    headHash: 'c'.repeat(64),
+    verifiedAt: new Date('2025-04-01T12:00:00Z'),
+  };
+
+  describe('integrityScore', () => {
+    it('should deduct by severity like performTamperCheck and never go below zero', () => {
+      expect(integrityScore([])).toBe(100);
+      expect(integrityScore([
+        { type: 'METADATA_CHANGE', severity: 'HIGH', description: '', confidence: 90 },
+        { type: 'TIMESTAMP_ANOMALY', severity: 'LOW', description: '', confidence: 50 },
+      ])).toBe(70);
+      expect(integrityScore(Array(3).fill({ type: 'HASH_MISMATCH', severity: 'CRITICAL', description: '', confidence: 95 })))
+        .toBe(0);
+    });
+  });
+
+  describe('evaluateDocumentIntegrity', () => {
+    it('should pass a document whose stored file still hashes to the recorded hash', () => {
+      expect(evaluateDocumentIntegrity(recorded, { hash: recorded }))
+        .toEqual({ indicators: [], expectedHash: recorded, actualHash: recorded });
+    });
+
+    it('should flag a changed or unreadable stored file', () => {
+      const changed = evaluateDocumentIntegrity(recorded, { hash: 'b'.repeat(64) });
+      expect(changed.indicators).toEqual([expect.objectContaining({ type: 'HASH_MISMATCH', severity: 'CRITICAL' })]);
+      expect(changed.actualHash).toBe('b'.repeat(64));
+
+      const unreadable = evaluateDocumentIntegrity(recorded, { error: 'Unsupported state or unable to authenticate data' });
+      expect(unreadable.indicators).toEqual([expect.objectContaining({ type: 'FILE_MODIFICATION', severity: 'CRITICAL' })]);
+      expect(unreadable.actualHash).toBeUndefined();
+    });
+  });
+
+  describe('evaluateEvidenceIntegrity', () => {
+    it('should pass evidence whose file, fingerprint and custody ledger all agree', () => {
+      const evaluation = evaluateEvidenceIntegrity({
+        integrityHash: recorded,
+        documentHash: recorded,
+        stored: { hash: recorded },
+        custody: intactCustody,
+        custodyIntegrityHash: recorded,
+      });
+
+      expect(evaluation.indicators).toEqual([]);
+    });
+
+    it('should flag a fingerprint that no longer matches the document or the ledger', () => {
+      const evaluation = evaluateEvidenceIntegrity({
+        integrityHash: 'b'.repeat(64),
+        documentHash: recorded,
+        stored: { hash: recorded },
+        custody: intactCustody,
+        custodyIntegrityHash: recorded,
+      });
+
+      expect(evaluation.indicators.map(indicator => indicator.type))
+        .toEqual(['METADATA_CHANGE', 'HASH_MISMATCH', 'METADATA_CHANGE']);
+      expect(evaluation.expectedHash).toBe('b'.repeat(64));
+    });
+
+    it('should report a broken custody chain', () => {
+      const broken = (reason: 'SIGNATURE_INVALID' | 'PREVIOUS_HASH_MISMATCH') => evaluateEvidenceIntegrity({
+        custody: {
+          ...intactCustody,
+          valid: false,
+          firstBrokenLink: { sequenceNumber: 1, entryId: 'entry-1', reason, message: 'Broken' },
+        },
+      });
+
+      expect(broken('SIGNATURE_INVALID').indicators)
+        .toEqual([expect.objectContaining({ type: 'SIGNATURE_INVALID', severity: 'CRITICAL' })]);
+      expect(broken('PREVIOUS_HASH_MISMATCH').indicators)
+        .toEqual([expect.objectContaining({ type: 'METADATA_CHANGE', severity: 'CRITICAL' })]);
+    });
+  });
+
+  describe('checkIntegrityItem', () => {
+    beforeEach(() => {
+      const query: any = {};
+      for (const method of ['where', 'leftJoin', 'select']) {
+        query[method] = jest.fn(() => query);
+      }
+      query.first = jest.fn().mockResolvedValue(undefined);
+      (database as unknown as jest.Mock).mockImplementation(() => query);
+    });
+
+    it('should return null for evidence that does not exist', async () => {
+      await expect(checkIntegrityItem('EVIDENCE', 'missing', 'TRIGGERED', 'user-1')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  HoldCandidate,
+  isNamedCustodian,
+  parseScope,
+  scopeMatches,
+  toHoldCandidate,
+} from '../../../../backend/src/services/legalHold';
+
+describe('Legal Hold', () => {
+  const email: HoldCandidate = {
+    itemType: 'communication',
+    itemId: 'comm-1',
+    occurredAt: new Date(Date.UTC(2023, 5, 15)),
+    custodians: ['stakeholder-1', 'stakeholder-2'],
+    text: ['Re: ESOP valuation', 'Discussed the 2022 appraisal'],
+    types: ['email'],
+    locations: ['Boardroom'],
+  };
+
+  describe('scopeMatches', () => {
+    it('should require every criterion that is set on the scope', () => {
+      const scope = parseScope({
+        timeRange: { from: '2023-01-01T00:00:00Z', to: '2023-12-31T23:59:59Z' },
+        custodians: ['STAKEHOLDER-2'],
+        keywords: ['appraisal', 'trustee'],
+      });
+
+      expect(scopeMatches(email, scope)).toBe(true);
+      expect(scopeMatches({ ...email, occurredAt: new Date(Date.UTC(2024, 0, 2)) }, scope)).toBe(false);
+      expect(scopeMatches({ ...email, custodians: ['stakeholder-3'] }, scope)).toBe(false);
+      expect(scopeMatches({ ...email, text: ['Lunch order'] }, scope)).toBe(false);
+    });
+
+    it('should match evidence types and categories case-insensitively', () => {
+      expect(scopeMatches(email, parseScope({ categories: ['EMAIL'] }))).toBe(true);
+      expect(scopeMatches(email, parseScope({ evidenceTypes: ['PHYSICAL'] }))).toBe(false);
+    });
+
+    it('should not match items that have no field for a criterion', () => {
+      const document = toHoldCandidate('document', {
+        id: 'doc-1',
+        title: 'Appraisal report',
+        custodian: 'Jane Doe',
+        uploaded_by: 'user-1',
+        created_at: '2023-06-01T00:00:00Z',
+      });
+
+      expect(scopeMatches(document, parseScope({ custodians: ['jane doe'] }))).toBe(true);
+      expect(scopeMatches(document, parseScope({ custodians: ['jane doe'], locations: ['Vault'] }))).toBe(false);
+    });
+
+    it('should match nothing when the scope has no criteria', () => {
+      expect(scopeMatches(email, parseScope({ keywords: [] }))).toBe(false);
+    });
+  });
+
+  describe('toHoldCandidate', () => {
+    it('should treat source stakeholders and ledger custodians as evidence custodians', () => {
+      const candidate = toHoldCandidate('evidence', {
+        id: 'ev-1',
+        document_id: 'doc-1',
+        evidence_type: 'financial_record',
+        source_stakeholder_id: 'stakeholder-1',
+        notes: null,
+        created_at: '2023-03-01T00:00:00Z',
+        ledger_custodians: '["user-7"]',
+        storage_location: 'Evidence Vault B',
+      });
+
+      expect(candidate).toMatchObject({
+        custodians: ['stakeholder-1', 'user-7'],
+        locations: ['Evidence Vault B'],
+        linkedDocumentId: 'doc-1',
+      });
+      expect(scopeMatches(candidate, parseScope({ locations: ['vault b'] }))).toBe(true);
+    });
+  });
+
+  describe('isNamedCustodian', () => {
+    it('should recognise stakeholders named by ID or name', () => {
+      const scope = parseScope({ custodians: ['stakeholder-9', 'John Smith'] });
+
+      expect(isNamedCustodian({ id: 'stakeholder-9', name: 'Someone Else' }, scope)).toBe(true);
+      expect(isNamedCustodian({ id: 'stakeholder-1', name: 'john smith' }, scope)).toBe(true);
+      expect(isNamedCustodian({ id: 'stakeholder-2', name: 'Jane Doe' }, scope)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  DAT_DELIMITERS,
+  DEFAULT_EXPORT_FIELD_MAP,
+  buildLoadFileProduction,
+  formatBatesNumber,
+  matchesProducedHash,
+  parseDatFile,
+  parseLoadFileDate,
+  parseOptFile,
+  resolveImportFieldMap,
+  writeDatFile,
+  writeOptFile,
+} from '../../../../backend/src/services/loadFile';
+import { LoadFileOptions, LoadFileRecord } from '../../../../backend/src/types';
+
+describe('Load Files', () => {
+  const options: LoadFileOptions = {
+    batesPrefix: 'ESOP',
+    batesStart: 41,
+    batesDigits: 6,
+    volume: 'VOL002',
+    fieldMap: DEFAULT_EXPORT_FIELD_MAP,
+    dateFormat: 'MM/DD/YYYY',
+  };
+
+  describe('formatBatesNumber', () => {
+    it('should zero-pad the number after the prefix', () => {
+      expect(formatBatesNumber('ESOP', 42, 6)).toBe('ESOP000042');
+    });
+  });
+
+  describe('writeDatFile / parseDatFile', () => {
+    const record: LoadFileRecord = {
+      batesBegin: 'ESOP000001',
+      batesEnd: 'ESOP000003',
+      pageCount: 3,
+      custodian: 'Jane Doe',
+      dateSent: new Date(Date.UTC(2023, 6, 4)),
+      title: 'Board minutes\r\nDraft þ2',
+      imageLinks: [],
+    };
+    const fieldMap = [
+      { header: 'BEGBATES', field: 'batesBegin' as const },
+      { header: 'CUSTODIAN', field: 'custodian' as const },
+      { header: 'DATESENT', field: 'dateSent' as const },
+      { header: 'TITLE', field: 'title' as const },
+      { header: 'NATIVELINK', field: 'nativeLink' as const },
+    ];
+
+    it('should use Concordance delimiters with a UTF-8 BOM and CRLF records', () => {
+      const dat = writeDatFile([record], fieldMap, 'MM/DD/YYYY');
+
+      expect([...dat.subarray(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+      const lines = dat.subarray(3).toString('utf8').split('\r\n');
+      expect(lines[0]).toBe(['BEGBATES', 'CUSTODIAN', 'DATESENT', 'TITLE', 'NATIVELINK']
+        .map(header => `þ${header}þ`).join(DAT_DELIMITERS.field));
+      expect(lines[1]).toContain('þ07/04/2023þ');
+      expect(lines[1]).toContain('þBoard minutes®Draft 2þ');
+    });
+
+    it('should read back what it writes', () => {
+      const parsed = parseDatFile(writeDatFile([record], fieldMap, 'MM/DD/YYYY'));
+
+      expect(parsed.headers).toEqual(['BEGBATES', 'CUSTODIAN', 'DATESENT', 'TITLE', 'NATIVELINK']);
+      expect(parsed.rows).toEqual([{
+        BEGBATES: 'ESOP000001',
+        CUSTODIAN: 'Jane Doe',
+        DATESENT: '07/04/2023',
+        TITLE: 'Board minutes\nDraft 2',
+        NATIVELINK: '',
+      }]);
+    });
+
+    it('should parse ANSI load files from other review platforms', () => {
+      const ansi = Buffer.from(
+        'þBEGDOCþ\u0014þENDDOCþ\u0014þCUSTODIANþ\r\nþABC0001þ\u0014þABC0002þ\u0014þJosé Núñezþ\r\n',
+        'latin1'
+      );
+
+      expect(parseDatFile(ansi).rows[0]).toEqual({ BEGDOC: 'ABC0001', ENDDOC: 'ABC0002', CUSTODIAN: 'José Núñez' });
+    });
+
+    it('should reject rows with the wrong number of fields', () => {
+      const dat = Buffer.from('þAþ\u0014þBþ\r\nþ1þ\r\n', 'utf8');
+
+      expect(() => parseDatFile(dat)).toThrow('DAT row 1 has 1 fields, expected 2');
+    });
+  });
+
+  describe('writeOptFile / parseOptFile', () => {
+    it('should mark document breaks and page counts', () => {
+      const opt = writeOptFile([{
+        batesBegin: 'ESOP000001',
+        batesEnd: 'ESOP000002',
+        pageCount: 2,
+        imageLinks: ['IMAGES\\VOL001\\ESOP000001.tif', 'IMAGES\\VOL001\\ESOP000002.tif'],
+      }], 'VOL001');
+
+      expect(opt.toString()).toBe(
+        'ESOP000001,VOL001,IMAGES\\VOL001\\ESOP000001.tif,Y,,,2\r\n' +
+        'ESOP000001_2,VOL001,IMAGES\\VOL001\\ESOP000002.tif,,,,\r\n'
+      );
+      expect(parseOptFile(opt)).toEqual([
+        { imageKey: 'ESOP000001', volume: 'VOL001', imagePath: 'IMAGES\\VOL001\\ESOP000001.tif', documentBreak: true, pageCount: 2 },
+        { imageKey: 'ESOP000001_2', volume: 'VOL001', imagePath: 'IMAGES\\VOL001\\ESOP000002.tif', documentBreak: false },
+      ]);
+    });
+  });
+
+  describe('buildLoadFileProduction', () => {
+    it('should assign consecutive Bates ranges and lay out natives, images and load files', () => {
+      const production = buildLoadFileProduction([
+        { evidenceId: 'ev-1', fileName: 'contract.pdf', mimeType: 'application/pdf', pageCount: 3, content: Buffer.from('pdf') },
+        { evidenceId: 'ev-2', fileName: 'photo.png', mimeType: 'image/png', content: Buffer.from('png') },
+        { evidenceId: 'ev-3' },
+      ], options);
+
+      expect(production.records.map(record => [record.batesBegin, record.batesEnd])).toEqual([
+        ['ESOP000041', 'ESOP000043'],
+        ['ESOP000044', 'ESOP000044'],
+        ['ESOP000045', 'ESOP000045'],
+      ]);
+      expect(production.nextBatesNumber).toBe(46);
+      expect(production.files.map(file => file.name)).toEqual([
+        'NATIVES/VOL002/ESOP000041.pdf',
+        'IMAGES/VOL002/ESOP000044.png',
+        'DATA/VOL002.dat',
+        'DATA/VOL002.opt',
+      ]);
+
+      const dat = parseDatFile(production.files[2]!.data);
+      expect(dat.rows[0]).toMatchObject({ BEGBATES: 'ESOP000041', NATIVELINK: 'NATIVES\\VOL002\\ESOP000041.pdf' });
+      expect(dat.rows[2]).toMatchObject({ BEGBATES: 'ESOP000045', NATIVELINK: '' });
+      expect(parseOptFile(production.files[3]!.data)).toEqual([
+        { imageKey: 'ESOP000044', volume: 'VOL002', imagePath: 'IMAGES\\VOL002\\ESOP000044.png', documentBreak: true, pageCount: 1 },
+      ]);
+    });
+  });
+
+  describe('resolveImportFieldMap', () => {
+    it('should recognise common header names and apply explicit overrides', () => {
+      const fieldMap = resolveImportFieldMap(
+        ['PRODBEG', 'PRODEND', 'Custodian', 'MD5HASH', 'Email Subject', 'SENT_ON'],
+        { SENT_ON: 'dateSent' }
+      );
+
+      expect(fieldMap).toMatchObject({
+        batesBegin: 'PRODBEG',
+        batesEnd: 'PRODEND',
+        custodian: 'Custodian',
+        hash: 'MD5HASH',
+        title: 'Email Subject',
+        dateSent: 'SENT_ON',
+      });
+    });
+
+    it('should reject overrides for fields that are not in the load file', () => {
+      expect(() => resolveImportFieldMap(['BEGBATES'], { MISSING: 'custodian' }))
+        .toThrow('Mapped DAT field MISSING is not present in the load file');
+    });
+  });
+
+  describe('matchesProducedHash', () => {
+    it('should detect the hash algorithm from the value length', () => {
+      const content = Buffer.from('produced native');
+
+      expect(matchesProducedHash(content, crypto.createHash('md5').update(content).digest('hex').toUpperCase())).toBe(true);
+      expect(matchesProducedHash(content, crypto.createHash('sha256').update('other').digest('hex'))).toBe(false);
+      expect(matchesProducedHash(content, 'not-a-hash')).toBeUndefined();
+    });
+  });
+
+  describe('parseLoadFileDate', () => {
+    it('should parse US dates with 12-hour times and ISO dates', () => {
+      expect(parseLoadFileDate('3/7/2022 4:05 PM')).toEqual(new Date(Date.UTC(2022, 2, 7, 16, 5)));
+      expect(parseLoadFileDate('2022-03-07')).toEqual(new Date(Date.UTC(2022, 2, 7)));
+      expect(parseLoadFileDate('')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  MemoryMonitoringAlertStore,
+  monitoringRoom,
+  MonitoringService,
+} from '../../../../src/communication/monitoring/monitoring-service';
+
+describe('Monitoring Service', () => {
+  const config = (overrides: Record<string, any> = {}): any => ({
+    enabled: true,
+    realTime: true,
+    alerting: {
+      channels: [
+        { type: 'dashboard', config: {}, severity: ['warning', 'error', 'critical'] },
+        { type: 'email', config: { to: 'records@firm-law.com' }, severity: ['critical'] },
+      ],
+      escalation: {
+        enabled: true,
+        timeouts: [
+          { severity: 'warning', timeout: 30, escalateTo: ['supervisor'] },
+          { severity: 'critical', timeout: 5, escalateTo: ['partner'] },
+        ],
+      },
+      throttling: { enabled: false, maxAlerts: 10, timeWindow: 60 },
+      ...overrides['alerting'],
+    },
+    reporting: { enabled: false, schedule: '0 8 * * *', recipients: [], format: 'json' },
+  });
+
+  const rules = (overrides: Record<string, any> = {}): any => ({
+    keywords: [],
+    participants: [],
+    patterns: [],
+    volume: [],
+    sentiment: [],
+    ...overrides,
+  });
+
+  const start = new Date('2025-03-01T09:00:00Z').getTime();
+  let sequence = 0;
+
+  const communication = (minutes: number, overrides: Record<string, any> = {}): any => ({
+    id: `c${++sequence}`,
+    type: 'email',
+    timestamp: new Date(start + minutes * 60 * 1000),
+    caseId: 'case-1',
+    participants: [{ id: 'p1', name: 'Sam Client', email: 'sam@acme.com', role: 'client', relationship: 'attorney_client' }],
+    content: { subject: 'Update', body: 'Nothing to report.', format: 'text' },
+    metadata: { channel: 'email', direction: 'inbound', priority: 'medium', status: 'delivered' },
+    attachments: [],
+    classification: { sensitivity: 'medium', category: 'email', requiresReview: false, tags: [] },
+    privilegeStatus: 'public',
+    ...overrides,
+  });
+
+  const broadcaster = () => {
+    const emitted: Array<{ room: string; event: string; payload: any }> = [];
+    return {
+      emitted,
+      to: (room: string) => ({
+        emit: (event: string, payload: any) => {
+          emitted.push({ room, event, payload });
+          return true;
+        },
+      }),
+    };
+  };
+
+  describe('volume rules', () => {
+    const volumeAlerts = async (service: MonitoringService, minutes: number[]) => {
+      const counts: number[] = [];
+      for (const minute of minutes) {
+        counts.push((await service.processCommunication(communication(minute))).alerts.length);
+      }
+      return counts;
+    };
+
+    it('should alert once when a window reaches its threshold and again only after dropping below it', async () => {
+      const service = new MonitoringService(config());
+      service.startMonitoring('case-1', rules({ volume: [{ threshold: 3, timeWindow: 10, action: 'notify' }] }));
+
+      expect(await volumeAlerts(service, [0, 2, 4, 5, 9])).toEqual([0, 0, 1, 0, 0]);
+      // At minute 30 the window holds one communication, so the rule re-arms
+      expect(await volumeAlerts(service, [30, 31, 32])).toEqual([0, 0, 1]);
+
+      const [alert] = await service.getAlerts({ caseId: 'case-1' });
+      expect(alert).toEqual(expect.objectContaining({
+        ruleType: 'volume',
+        rule: 'Volume: 3 in 10 min',
+        severity: 'warning',
+        message: '3 communications in the last 10 minutes (threshold 3)',
+      }));
+    });
+
+    it('should slide the window back to the time of a late-arriving communication', async () => {
+      const service = new MonitoringService(config());
+      service.startMonitoring('case-1', rules({ volume: [{ threshold: 3, timeWindow: 10, action: 'log' }] }));
+
+      expect(await volumeAlerts(service, [0, 6])).toEqual([0, 0]);
+      // Logged late but sent at minute 3: the window ending then holds two, not three
+      expect(await volumeAlerts(service, [3])).toEqual([0]);
+      expect(await volumeAlerts(service, [4])).toEqual([1]);
+    });
+
+    it('should track each window separately', async () => {
+      const service = new MonitoringService(config());
+      service.startMonitoring('case-1', rules({
+        volume: [
+          { threshold: 2, timeWindow: 1, action: 'log' },
+          { threshold: 4, timeWindow: 60, action: 'escalate' },
+        ],
+      }));
+
+      await volumeAlerts(service, [0, 0.5, 20, 40]);
+      const alerts = await service.getAlerts({ caseId: 'case-1' });
+      expect(alerts.map(alert => alert.rule).sort()).toEqual(['Volume: 2 in 1 min', 'Volume: 4 in 60 min']);
+    });
+
+    it('should reject rules that can never fire sensibly', () => {
+      const service = new MonitoringService(config());
+      expect(() => service.startMonitoring('case-1', rules({ volume: [{ threshold: 0, timeWindow: 10, action: 'log' }] })))
+        .toThrow('Volume rules need a threshold of at least 1 and a positive time window');
+      expect(() => service.startMonitoring('case-1', rules({ sentiment: [{ threshold: -2, direction: 'negative', action: 'log' }] })))
+        .toThrow('Sentiment thresholds must be between -1 and 1');
+      expect(service.isMonitoring('case-1')).toBe(false);
+    });
+  });
+
+  describe('processCommunication', () => {
+    it('should only check cases being monitored', async () => {
+      const service = new MonitoringService(config());
+      service.startMonitoring('case-2', rules({ keywords: [{ keywords: ['update'], severity: 'info', action: 'log' }] }));
+
+      expect(await service.processCommunication(communication(0))).toEqual({ alerts: [], blocked: false });
+    });
+
+    it('should block when a matching rule says so', async () => {
+      const service = new MonitoringService(config());
+      const blocked = jest.fn();
+      service.on('communication-blocked', blocked);
+      service.startMonitoring('case-1', rules({
+        keywords: [{ keywords: ['shred', 'delete the files'], severity: 'critical', action: 'block', context: 'Spoliation' }],
+        participants: [{ participants: ['SAM@acme.com'], condition: 'any', action: 'log' }],
+      }));
+
+      const result = await service.processCommunication(communication(0, {
+        content: { subject: 'Cleanup', body: 'Please delete   the files today.', format: 'text' },
+      }));
+
+      expect(result.blocked).toBe(true);
+      expect(result.alerts.map(alert => alert.message)).toEqual([
+        'Matched "delete the files" (Spoliation)',
+        'Involves SAM@acme.com',
+      ]);
+      expect(blocked).toHaveBeenCalledWith(expect.objectContaining({ caseId: 'case-1', alerts: result.alerts }));
+    });
+  });
+
+  describe('acknowledgement', () => {
+    const raiseAlert = async (service: MonitoringService) => {
+      service.startMonitoring('case-1', rules({ keywords: [{ keywords: ['settlement'], severity: 'warning', action: 'notify' }] }));
+      const { alerts } = await service.processCommunication(communication(0, {
+        content: { subject: 'Settlement', body: 'Call me.', format: 'text' },
+      }));
+      return alerts[0]!;
+    };
+
+    it('should record who acknowledged an alert and push it to the case room', async () => {
+      const sockets = broadcaster();
+      const service = new MonitoringService(config(), { broadcaster: sockets });
+      const alert = await raiseAlert(service);
+
+      const acknowledged = await service.acknowledgeAlert(alert.id, 'user-7');
+
+      expect(acknowledged).toEqual(expect.objectContaining({ acknowledged: true, acknowledgedBy: 'user-7' }));
+      expect(acknowledged.acknowledgedAt).toBeInstanceOf(Date);
+      expect(await service.getAlerts({ acknowledged: false })).toEqual([]);
+      expect(sockets.emitted.map(({ room, event }) => [room, event])).toEqual([
+        [monitoringRoom('case-1'), 'monitoring:alert'],
+        [monitoringRoom('case-1'), 'monitoring:alert-acknowledged'],
+      ]);
+    });
+
+    it('should refuse unknown and already acknowledged alerts', async () => {
+      const service = new MonitoringService(config());
+      const alert = await raiseAlert(service);
+      await service.acknowledgeAlert(alert.id, 'user-7');
+
+      await expect(service.acknowledgeAlert(alert.id, 'user-8'))
+        .rejects.toThrow(`Monitoring alert ${alert.id} was already acknowledged by user-7`);
+      await expect(service.acknowledgeAlert('missing', 'user-8')).rejects.toThrow('Monitoring alert missing not found');
+    });
+
+    it('should escalate alerts left unacknowledged past their timeout, once', async () => {
+      const store = new MemoryMonitoringAlertStore();
+      const service = new MonitoringService(config(), { store });
+      const open = await raiseAlert(service);
+      const handled = await raiseAlert(service);
+      await service.acknowledgeAlert(handled.id, 'user-7');
+
+      const raisedAt = open.timestamp.getTime();
+      expect(await service.processUnacknowledgedAlerts(new Date(raisedAt + 29 * 60 * 1000))).toEqual([]);
+
+      const later = new Date(raisedAt + 31 * 60 * 1000);
+      const escalated = await service.processUnacknowledgedAlerts(later);
+      expect(escalated).toEqual([expect.objectContaining({ id: open.id, escalatedTo: ['supervisor'], escalatedAt: later })]);
+      expect(await service.processUnacknowledgedAlerts(new Date(raisedAt + 90 * 60 * 1000))).toEqual([]);
+      expect((await store.get(open.id))!.escalatedAt).toEqual(later);
+    });
+
+    it('should escalate "escalate" alerts immediately and notify their channels', async () => {
+      const service = new MonitoringService(config());
+      const notifications = jest.fn();
+      service.on('alert-notification', notifications);
+      service.startMonitoring('case-1', rules({ volume: [{ threshold: 1, timeWindow: 5, action: 'escalate' }] }));
+
+      const { alerts } = await service.processCommunication(communication(0));
+
+      expect(alerts[0]).toEqual(expect.objectContaining({ severity: 'critical', escalatedTo: ['partner'] }));
+      expect(notifications).toHaveBeenCalledWith(expect.objectContaining({ channel: expect.objectContaining({ type: 'email' }) }));
+      expect(await service.processUnacknowledgedAlerts(new Date(Date.now() + 60 * 60 * 1000))).toEqual([]);
+    });
+
+    it('should hold back notifications, not alerts, once throttled', async () => {
+      const sockets = broadcaster();
+      const service = new MonitoringService(
+        config({ alerting: { throttling: { enabled: true, maxAlerts: 1, timeWindow: 60 } } }),
+        { broadcaster: sockets }
+      );
+      const throttled = jest.fn();
+      service.on('alert-throttled', throttled);
+
+      await raiseAlert(service);
+      await raiseAlert(service);
+
+      expect(await service.getAlerts({ caseId: 'case-1' })).toHaveLength(2);
+      expect(sockets.emitted).toHaveLength(1);
+      expect(throttled).toHaveBeenCalledTimes(1);
+    });
+  });
+});
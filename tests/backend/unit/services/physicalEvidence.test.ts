@@ -0,0 +1,184 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import zlib from 'zlib';
+import {
+  describeLocation,
+  generateLabelCode,
+  inventoryToCsv,
+  planSealHandOff,
+  renderLabels,
+} from '../../../../backend/src/services/physicalEvidence';
+import {
+  encodeCode128,
+  encodeQrCode,
+  qrFormatBits,
+  qrVersionBits,
+  reedSolomonRemainder,
+} from '../../../../backend/src/utils/barcode';
+import { crc32 } from '../../../../backend/src/utils/zipArchive';
+import { LocationInventoryReport, StorageLocation } from '../../../../backend/src/types';
+
+describe('Physical Evidence', () => {
+  const location: StorageLocation = {
+    id: 'loc-1',
+    labelCode: 'LOC-7KQ2M9XA3D',
+    facility: 'Central Property Room',
+    room: 'B12',
+    shelf: '3',
+    bin: 'C',
+    accessLevel: 'SECURE',
+    securityLevel: 'HIGH',
+    active: true,
+    createdAt: new Date('2025-04-01T12:00:00Z'),
+    updatedAt: new Date('2025-04-01T12:00:00Z'),
+  };
+
+  describe('generateLabelCode', () => {
+    it('should produce prefixed Crockford base32 codes', () => {
+      expect(generateLabelCode('PE')).toMatch(/^PE-[0-9A-HJKMNP-TV-Z]{10}$/);
+      expect(generateLabelCode('LOC')).toMatch(/^LOC-[0-9A-HJKMNP-TV-Z]{10}$/);
+      expect(generateLabelCode('SL')).not.toBe(generateLabelCode('SL'));
+    });
+  });
+
+  describe('describeLocation', () => {
+    it('should include shelf and bin only when set', () => {
+      expect(describeLocation(location)).toBe('Central Property Room / B12 / Shelf 3 / Bin C');
+      expect(describeLocation({ facility: 'Annex', room: 'Vault 1' })).toBe('Annex / Vault 1');
+    });
+  });
+
+  describe('planSealHandOff', () => {
+    it('should accept a hand-off that accounts for every active seal', () => {
+      const plan = planSealHandOff(['S-1', 'S-2'], [
+        { sealNumber: 'S-1', condition: 'INTACT' },
+        { sealNumber: 'S-2', condition: 'INTACT', removed: true },
+      ]);
+
+      expect(plan).toEqual({ missing: [], unknown: [], breaches: [] });
+    });
+
+    it('should report unchecked seals, unknown seals and breaches', () => {
+      const plan = planSealHandOff(['S-1', 'S-2'], [
+        { sealNumber: 'S-1', condition: 'TAMPERED', notes: 'Tape lifted' },
+        { sealNumber: 'S-9', condition: 'INTACT' },
+      ]);
+
+      expect(plan.missing).toEqual(['S-2']);
+      expect(plan.unknown).toEqual(['S-9']);
+      expect(plan.breaches).toEqual([{ sealNumber: 'S-1', condition: 'TAMPERED', notes: 'Tape lifted' }]);
+    });
+  });
+
+  describe('inventoryToCsv', () => {
+    it('should write one row per item, empty locations and items out of storage', () => {
+      const report: LocationInventoryReport = {
+        generatedAt: new Date('2025-04-02T09:00:00Z'),
+        generatedBy: 'user-1',
+        totalItems: 2,
+        locations: [
+          {
+            location,
+            items: [{
+              evidenceId: 'ev-1',
+              labelCode: 'PE-AAAAAAAAAA',
+              description: 'Laptop, "silver"',
+              status: 'COLLECTED',
+              activeSeals: [
+                { sealNumber: 'S-1', condition: 'INTACT' },
+                { sealNumber: 'S-2', condition: 'BROKEN' },
+              ],
+            }],
+            sealIssues: 1,
+          },
+          { location: { ...location, id: 'loc-2', bin: 'D' }, items: [], sealIssues: 0 },
+          {
+            items: [{
+              evidenceId: 'ev-2',
+              labelCode: 'PE-BBBBBBBBBB',
+              description: 'Phone',
+              status: 'PROCESSING',
+              custodian: 'analyst@example.com',
+              activeSeals: [],
+            }],
+            sealIssues: 0,
+          },
+        ],
+      };
+
+      const lines = inventoryToCsv(report).trimEnd().split('\r\n');
+
+      expect(lines).toHaveLength(4);
+      expect(lines[1]).toBe(
+        'Central Property Room,B12,3,C,LOC-7KQ2M9XA3D,SECURE,ev-1,PE-AAAAAAAAAA,"Laptop, ""silver""",,COLLECTED,,,' +
+        'S-1 (INTACT); S-2 (BROKEN)'
+      );
+      expect(lines[2]).toBe('Central Property Room,B12,3,D,LOC-7KQ2M9XA3D,SECURE,,,,,,,,');
+      expect(lines[3]).toBe('OUT OF STORAGE,,,,,,ev-2,PE-BBBBBBBBBB,Phone,,PROCESSING,analyst@example.com,,');
+    });
+  });
+
+  describe('barcodes', () => {
+    it('should compute QR Reed-Solomon codewords for the reference HELLO WORLD example', () => {
+      const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+      expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+    });
+
+    it('should compute BCH-protected format and version information', () => {
+      expect(qrFormatBits(0).toString(2).padStart(15, '0')).toBe('101010000010010');
+      expect(qrVersionBits(7)).toBe(0x07c94);
+    });
+
+    it('should size QR codes by payload length', () => {
+      expect(encodeQrCode('PE-7KQ2M9XA3D')).toHaveLength(21);
+      expect(encodeQrCode('SL-7KQ2M9XA3D-EXTRA-DATA')).toHaveLength(25);
+      expect(() => encodeQrCode('x'.repeat(500))).toThrow();
+    });
+
+    it('should encode Code 128 with start, checksum and stop symbols', () => {
+      const modules = encodeCode128('PE-1');
+
+      // Start B, four characters and the checksum at 11 modules each, then the 13-module stop
+      expect(modules).toHaveLength(6 * 11 + 13);
+      expect(modules.slice(0, 11).map(Number).join('')).toBe('11010010000');
+      expect(modules.slice(-13).map(Number).join('')).toBe('1100011101011');
+      expect(() => encodeCode128('SEAL\n')).toThrow();
+    });
+  });
+
+  describe('renderLabels', () => {
+    const labels = [
+      { heading: 'Evidence', code: 'PE-7KQ2M9XA3D', lines: ['Laptop'] },
+      { heading: 'Evidence seal', code: 'SL-7KQ2M9XA3D', lines: ['Seal S-1'] },
+    ];
+
+    it('should write a valid grayscale PNG for the first label', () => {
+      const png = renderLabels(labels, 'png');
+
+      expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+      expect(png.subarray(12, 16).toString('ascii')).toBe('IHDR');
+      expect(png.readUInt32BE(29)).toBe(crc32(png.subarray(12, 29)));
+
+      const width = png.readUInt32BE(16);
+      const height = png.readUInt32BE(20);
+      const idatStart = png.indexOf('IDAT') - 4;
+      const pixels = zlib.inflateSync(png.subarray(idatStart + 8, idatStart + 8 + png.readUInt32BE(idatStart)));
+      expect(pixels).toHaveLength((width + 1) * height);
+    });
+
+    it('should write a PDF page per label', () => {
+      const pdf = renderLabels(labels, 'pdf').toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('/Count 2');
+      expect(pdf.match(/\/Type \/Page /g)).toHaveLength(2);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+      const startxref = Number(pdf.slice(pdf.lastIndexOf('startxref') + 10).split('\n')[0]);
+      expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    });
+  });
+});
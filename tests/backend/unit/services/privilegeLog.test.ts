@@ -0,0 +1,200 @@
+import {
+  checkPrivilegeLog,
+  generatePrivilegeLog,
+  privilegeLogToCsv,
+  privilegeLogToExcelCsv,
+  renderPrivilegeLog,
+} from '../../../../src/communication/discovery/privilege-log';
+
+describe('Privilege Log', () => {
+  const client = { id: 'p1', name: 'Sam Client', email: 'sam@acme.com', role: 'client', organization: 'Acme' };
+  const counsel = { id: 'p2', name: 'Jane Counsel', email: 'jane@firm-law.com', role: 'attorney', organization: 'Firm' };
+  const paralegal = { id: 'p3', name: 'Lee Paralegal', email: 'lee@firm-law.com', role: 'paralegal' };
+
+  const communication = (id: string, timestamp: string, participants: any[] = [client, counsel]): any => ({
+    id,
+    type: 'email',
+    timestamp: new Date(timestamp),
+    caseId: 'case-1',
+    participants,
+    content: { subject: 'Advice', body: 'Body', format: 'text' },
+    attachments: [],
+  });
+
+  const decision = (communicationId: string, overrides: Record<string, any> = {}): any => ({
+    communicationId,
+    status: 'privileged',
+    ruleIds: [],
+    reasons: ['Counsel-only conversation'],
+    redact: false,
+    reviewState: 'not_required',
+    decidedAt: new Date('2025-03-02T10:00:00Z'),
+    ...overrides,
+  });
+
+  const source = (decisions: any[]) => {
+    const byId = new Map(decisions.map(item => [item.communicationId, item]));
+    return {
+      getDecision: async (communicationId: string) => byId.get(communicationId) ?? null,
+      shouldRedact: (item: any) => item.redact,
+    };
+  };
+
+  const production = (communications: any[]) => ({ productionId: 'prod-7', caseId: 'case-1', communications });
+
+  describe('generatePrivilegeLog', () => {
+    it('should log withheld and redacted communications in date order and leave public ones out', async () => {
+      const log = await generatePrivilegeLog(
+        production([
+          communication('c2', '2025-03-05T09:00:00Z', [counsel, client, paralegal]),
+          communication('c1', '2025-03-01T09:00:00Z'),
+          communication('c3', '2025-03-03T09:00:00Z'),
+        ]),
+        source([
+          decision('c1'),
+          decision('c2', { status: 'work_product', redact: true }),
+          decision('c3', { status: 'public' }),
+        ])
+      );
+
+      expect(log.issues).toEqual([]);
+      expect(log.withheldIds).toEqual(['c1']);
+      expect(log.redactedIds).toEqual(['c2']);
+      expect(log.entries.map(entry => [entry.entryNumber, entry.communicationId, entry.treatment])).toEqual([
+        [1, 'c1', 'withheld'],
+        [2, 'c2', 'redacted'],
+      ]);
+      expect(log.entries[1]).toEqual(expect.objectContaining({
+        author: 'Jane Counsel* (Firm)',
+        recipients: ['Sam Client (Acme)', 'Lee Paralegal'],
+        privilegeType: 'Attorney Work Product',
+      }));
+    });
+
+    it("should use the reviewer's reason as the basis once reviewed", async () => {
+      const log = await generatePrivilegeLog(
+        production([communication('c1', '2025-03-01T09:00:00Z')]),
+        source([decision('c1', {
+          reasons: ['Counsel-only conversation', 'Legal advice on settlement'],
+          reviewState: 'reviewed',
+          reviewedBy: 'reviewer-a',
+          reviewedAt: new Date('2025-03-04T10:00:00Z'),
+        })])
+      );
+
+      expect(log.entries[0]).toEqual(expect.objectContaining({
+        reason: 'Legal advice on settlement',
+        reviewedBy: 'reviewer-a',
+        reviewDate: new Date('2025-03-04T10:00:00Z'),
+      }));
+    });
+
+    it('should report undecided and pending communications instead of logging them', async () => {
+      const log = await generatePrivilegeLog(
+        production([communication('c1', '2025-03-01T09:00:00Z'), communication('c2', '2025-03-02T09:00:00Z')]),
+        source([decision('c2', { status: 'pending' })])
+      );
+
+      expect(log.entries).toEqual([]);
+      expect(log.issues.map(issue => [issue.code, issue.communicationId])).toEqual([
+        ['UNDECIDED', 'c1'],
+        ['PENDING_REVIEW', 'c2'],
+      ]);
+    });
+  });
+
+  describe('checkPrivilegeLog', () => {
+    it('should find missing, duplicate, unexpected, mismatched and incomplete entries', async () => {
+      const { entries } = await generatePrivilegeLog(
+        production([communication('c1', '2025-03-01T09:00:00Z'), communication('c2', '2025-03-02T09:00:00Z')]),
+        source([decision('c1'), decision('c2')])
+      );
+      const [first, second] = entries;
+
+      const issues = checkPrivilegeLog({
+        entries: [first!, first!, { ...second!, treatment: 'redacted', recipients: [], reason: ' ' }],
+        withheldIds: ['c1', 'c2', 'c4'],
+        redactedIds: [],
+      });
+
+      expect(issues.map(issue => [issue.code, issue.communicationId])).toEqual([
+        ['TREATMENT_MISMATCH', 'c2'],
+        ['INCOMPLETE_ENTRY', 'c2'],
+        ['DUPLICATE_ENTRY', 'c1'],
+        ['MISSING_ENTRY', 'c4'],
+      ]);
+      expect(issues[1]!.message).toBe('Missing recipients, basis');
+
+      expect(checkPrivilegeLog({ entries: [first!], withheldIds: [], redactedIds: [] }).map(issue => issue.code))
+        .toEqual(['UNEXPECTED_ENTRY']);
+    });
+  });
+
+  describe('renderPrivilegeLog', () => {
+    const completeLog = () => generatePrivilegeLog(
+      production([
+        communication('c1', '2025-03-01T09:00:00Z', [
+          { ...client, name: '=HYPERLINK("http://x")' },
+          { ...counsel, name: 'José Núñez, Esq.' },
+        ]),
+      ]),
+      source([decision('c1', { reasons: ['Advice re "term sheet"'] })])
+    );
+
+    it('should refuse to serve a log with issues', async () => {
+      const log = await generatePrivilegeLog(production([communication('c1', '2025-03-01T09:00:00Z')]), source([]));
+      expect(() => renderPrivilegeLog(log, 'csv')).toThrow('Privilege log for production prod-7 is incomplete: 1 issue(s)');
+    });
+
+    it('should write RFC 4180 CSV with ISO timestamps', async () => {
+      const csv = privilegeLogToCsv(await completeLog());
+      const lines = csv.split('\r\n');
+
+      expect(lines[0]).toBe('Entry,Date,Type,Author,Recipients,Privilege,Treatment,Basis,Reviewed By,Review Date,Communication ID');
+      expect(lines[1]).toBe(
+        '1,2025-03-01T09:00:00.000Z,email,"=HYPERLINK(""http://x"") (Acme)","José Núñez, Esq.* (Firm)",' +
+        'Attorney-Client Privilege,withheld,"Advice re ""term sheet""",,2025-03-02T10:00:00.000Z,c1'
+      );
+      expect(lines[2]).toBe('');
+    });
+
+    it('should write spreadsheet CSV with a byte order mark, plain dates and formulas neutralized', async () => {
+      const csv = privilegeLogToExcelCsv(await completeLog());
+
+      expect(csv.startsWith('\ufeffEntry,')).toBe(true);
+      expect(csv.split('\r\n')[1]).toMatch(/^1,2025-03-01,email,"'=HYPERLINK\(""http:\/\/x""\) \(Acme\)",/);
+      expect(csv.split('\r\n')[1]).toContain(',2025-03-02,c1');
+    });
+
+    it('should name each format after the production', async () => {
+      const log = await completeLog();
+
+      expect(renderPrivilegeLog(log, 'csv')).toEqual(expect.objectContaining({ filename: 'privilege-log-prod-7.csv', mimeType: 'text/csv' }));
+      expect(renderPrivilegeLog(log, 'excel_csv').filename).toBe('privilege-log-prod-7.xlsx.csv');
+      expect(renderPrivilegeLog(log, 'pdf')).toEqual(expect.objectContaining({ filename: 'privilege-log-prod-7.pdf', mimeType: 'application/pdf' }));
+    });
+
+    it('should draw a PDF table with the production on every page', async () => {
+      const log = await completeLog();
+      const pdf = renderPrivilegeLog(log, 'pdf').content.toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('(Privilege Log - Production prod-7 - Case case-1) Tj');
+      expect(pdf).toContain('(Jos\xe9 N\xfa\xf1ez, Esq.* \\(Firm\\)) Tj');
+      expect(pdf).toContain('(Page 1 of 1) Tj');
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+      const many = { ...log, entries: Array.from({ length: 120 }, (_, index) => ({ ...log.entries[0]!, entryNumber: index + 1 })) };
+      const paged = renderPrivilegeLog(many, 'pdf').content.toString('latin1');
+      const pages = Number(/\/Count (\d+)/.exec(paged)![1]);
+      expect(pages).toBeGreaterThan(1);
+      expect(paged.match(/Privilege Log - Production prod-7/g)).toHaveLength(pages);
+      expect(paged).toContain(`(Page ${pages} of ${pages}) Tj`);
+    });
+
+    it('should say so when nothing was withheld', async () => {
+      const log = await generatePrivilegeLog(production([]), source([]));
+      expect(renderPrivilegeLog(log, 'pdf').content.toString('latin1')).toContain('No communications were withheld or redacted.');
+    });
+  });
+});
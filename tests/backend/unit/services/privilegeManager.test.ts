@@ -0,0 +1,199 @@
+import {
+  evaluatePrivilege,
+  indexCounsel,
+  MemoryPrivilegeDecisionStore,
+  PrivilegeManager,
+} from '../../../../src/communication/security/privilege-manager';
+
+describe('Privilege Manager', () => {
+  const counselAddresses = ['jane@firm-law.com'];
+  const counsel = indexCounsel(counselAddresses);
+
+  const participant = (overrides: Record<string, any>) => ({
+    id: overrides['name'],
+    role: 'client',
+    relationship: 'attorney_client',
+    ...overrides,
+  });
+
+  const communication = (id: string, participants: any[], overrides: Record<string, any> = {}): any => ({
+    id,
+    type: 'email',
+    timestamp: new Date('2025-03-01T09:00:00Z'),
+    caseId: 'case-1',
+    participants,
+    content: { subject: 'Settlement position', body: 'Draft attached.\n\nRegards', format: 'text' },
+    metadata: { channel: 'email', direction: 'inbound', priority: 'medium', status: 'delivered' },
+    attachments: [],
+    classification: { sensitivity: 'medium', category: 'email', requiresReview: false, tags: [] },
+    privilegeStatus: 'pending',
+    ...overrides,
+  });
+
+  const client = participant({ name: 'Sam Client', email: 'sam@acme.com' });
+  const partner = participant({ name: 'Jane Counsel', email: 'jane@firm-law.com' });
+  const associate = participant({ name: 'Lee Associate', email: 'lee@firm-law.com' });
+  const opponent = participant({ name: 'Pat Opposing', email: 'pat@other.com', role: 'opposing_counsel', relationship: 'opposing_party' });
+
+  const config = (overrides: Record<string, any> = {}): any => ({
+    rules: [],
+    reviewWorkflow: { enabled: true, reviewers: ['reviewer-a', 'reviewer-b'], timeout: 48, escalation: true },
+    redaction: { enabled: true, marker: '[PRIVILEGED]', preserveFormat: true, logRedactions: false },
+    ...overrides,
+  });
+
+  describe('indexCounsel', () => {
+    it('should index firm domains but never public webmail domains', () => {
+      const index = indexCounsel([' Jane@Firm-Law.com ', 'solo.practitioner@gmail.com']);
+      expect([...index.addresses]).toEqual(['jane@firm-law.com', 'solo.practitioner@gmail.com']);
+      expect([...index.domains]).toEqual(['firm-law.com']);
+    });
+  });
+
+  describe('evaluatePrivilege', () => {
+    it('should presume counsel-only conversations privileged and queue them for review', () => {
+      const evaluation = evaluatePrivilege(communication('c1', [client, associate]), [], counsel);
+      expect(evaluation).toEqual(expect.objectContaining({ status: 'privileged', requiresReview: true, redact: true }));
+      expect(evaluation.reasons[0]).toContain('Lee Associate');
+    });
+
+    it('should flag a possible waiver when counsel talks with outside parties', () => {
+      const evaluation = evaluatePrivilege(communication('c2', [client, partner, opponent]), [], counsel);
+      expect(evaluation).toEqual(expect.objectContaining({ status: 'confidential', requiresReview: true, redact: false }));
+      expect(evaluation.reasons[0]).toContain('Pat Opposing');
+    });
+
+    it('should leave conversations without counsel public', () => {
+      expect(evaluatePrivilege(communication('c3', [client, opponent]), [], counsel).status).toBe('public');
+    });
+
+    it('should let the highest-priority matching rule set the status and any matching rule ask for review', () => {
+      const rules: any[] = [
+        {
+          id: 'work-product',
+          name: 'Work product',
+          priority: 10,
+          conditions: [{ type: 'content', field: 'subject', operator: 'contains', value: 'settlement' }],
+          action: { status: 'work_product', requiresReview: false, redact: true, log: true },
+        },
+        {
+          id: 'counsel-domain',
+          name: 'Counsel domain',
+          priority: 5,
+          conditions: [{ type: 'participant', field: 'domain', operator: 'equals', value: 'FIRM-LAW.COM' }],
+          action: { status: 'confidential', requiresReview: true, redact: false, log: false },
+        },
+        {
+          id: 'never',
+          name: 'Never matches',
+          priority: 20,
+          conditions: [{ type: 'metadata', field: 'threadId', operator: 'exists', value: true }],
+          action: { status: 'public', requiresReview: false, redact: false, log: false },
+        },
+      ];
+
+      expect(evaluatePrivilege(communication('c4', [client, partner]), rules, counsel)).toEqual({
+        status: 'work_product',
+        ruleIds: ['work-product', 'counsel-domain'],
+        reasons: ['Rule Work product', 'Rule Counsel domain'],
+        requiresReview: true,
+        redact: true,
+        loggedRuleIds: ['work-product'],
+      });
+    });
+  });
+
+  describe('review queue', () => {
+    it('should queue uncertain decisions with the least-loaded reviewer and a due date', async () => {
+      const manager = new PrivilegeManager(config(), new MemoryPrivilegeDecisionStore(), {
+        getCounselAddresses: async () => counselAddresses,
+      });
+      const queued = jest.fn();
+      manager.on('review-queued', queued);
+
+      const first = await manager.applyProtection(communication('c1', [client, partner]));
+      await manager.applyProtection(communication('c2', [client, associate]));
+      await manager.applyProtection(communication('c3', [client, opponent]));
+
+      expect(first.privilegeStatus).toBe('pending');
+      expect(first.classification.requiresReview).toBe(true);
+      expect(queued).toHaveBeenCalledTimes(2);
+
+      const queue = await manager.getReviewQueue();
+      expect(queue.map(review => [review.communicationId, review.assignedTo])).toEqual([
+        ['c1', 'reviewer-a'],
+        ['c2', 'reviewer-b'],
+      ]);
+      expect(queue[0]!.suggestedStatus).toBe('privileged');
+      expect(queue[0]!.dueAt!.getTime() - queue[0]!.decidedAt.getTime()).toBe(48 * 60 * 60 * 1000);
+      expect((await manager.getReviewQueue('reviewer-b')).map(review => review.communicationId)).toEqual(['c2']);
+      expect((await manager.getDecision('c3'))!.reviewState).toBe('not_required');
+    });
+
+    it('should accept decisions only from reviewers on open reviews, and keep them when re-logged', async () => {
+      const manager = new PrivilegeManager(config(), new MemoryPrivilegeDecisionStore(), {
+        getCounselAddresses: async () => counselAddresses,
+      });
+      const record = communication('c1', [client, partner]);
+      await manager.applyProtection(record);
+
+      await expect(manager.recordReview('c1', { reviewerId: 'intern', status: 'public', reason: 'x' }))
+        .rejects.toThrow('intern is not a privilege reviewer');
+      await expect(manager.recordReview('c1', { reviewerId: 'reviewer-a', status: 'pending', reason: 'x' }))
+        .rejects.toThrow('A review must decide a privilege status');
+
+      const reviewed = await manager.recordReview('c1', { reviewerId: 'reviewer-a', status: 'work_product', reason: 'Litigation strategy' });
+      expect(reviewed).toEqual(expect.objectContaining({ status: 'work_product', reviewState: 'reviewed', reviewedBy: 'reviewer-a' }));
+      expect(reviewed.reasons).toContain('Litigation strategy');
+
+      await expect(manager.recordReview('c1', { reviewerId: 'reviewer-b', status: 'public', reason: 'x' }))
+        .rejects.toThrow('is not open');
+      expect((await manager.applyProtection(record)).privilegeStatus).toBe('work_product');
+      expect(await manager.getReviewQueue()).toEqual([]);
+    });
+
+    it('should hand overdue reviews to the next reviewer', async () => {
+      const manager = new PrivilegeManager(config(), new MemoryPrivilegeDecisionStore(), {
+        getCounselAddresses: async () => counselAddresses,
+      });
+      await manager.applyProtection(communication('c1', [client, partner]));
+
+      expect(await manager.processOverdueReviews(new Date())).toEqual([]);
+
+      const later = new Date(Date.now() + 49 * 60 * 60 * 1000);
+      const [escalated] = await manager.processOverdueReviews(later);
+      expect(escalated).toEqual(expect.objectContaining({
+        reviewState: 'escalated',
+        assignedTo: 'reviewer-b',
+        escalationCount: 1,
+        escalatedAt: later,
+      }));
+      expect(escalated!.dueAt!.getTime()).toBe(later.getTime() + 48 * 60 * 60 * 1000);
+    });
+
+    it('should look counsel up per case and cache it', async () => {
+      const getCounselAddresses = jest.fn(async (caseId: string) => (caseId === 'case-1' ? counselAddresses : []));
+      const manager = new PrivilegeManager(config(), new MemoryPrivilegeDecisionStore(), { getCounselAddresses });
+
+      const inCase = await manager.applyProtection(communication('c1', [client, associate]));
+      const otherCase = await manager.applyProtection(communication('c2', [client, associate], { caseId: 'case-2' }));
+      await manager.requiresReview(communication('c3', [client, associate]));
+
+      expect(inCase.privilegeStatus).toBe('pending');
+      expect(otherCase.privilegeStatus).toBe('public');
+      expect(getCounselAddresses.mock.calls).toEqual([['case-1'], ['case-2']]);
+    });
+  });
+
+  describe('redaction', () => {
+    it('should replace content line by line and drop attachments without changing the original', () => {
+      const manager = new PrivilegeManager(config());
+      const original = communication('c1', [client, partner], { attachments: [{ id: 'a1' }] });
+      const redacted = manager.redact(original);
+
+      expect(redacted.content).toEqual({ subject: '[PRIVILEGED]', body: '[PRIVILEGED]\n\n[PRIVILEGED]', format: 'text' });
+      expect(redacted.attachments).toEqual([]);
+      expect(original.content.body).toBe('Draft attached.\n\nRegards');
+    });
+  });
+});
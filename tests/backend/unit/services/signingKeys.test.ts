@@ -0,0 +1,149 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import crypto from 'crypto';
+import {
+  createAuthorityCertificate,
+  decryptPrivateKey,
+  encryptPrivateKey,
+  issueUserCertificate,
+  KeyDerivationParams,
+  verifyCustodySignature,
+} from '../../../../backend/src/services/signingKeys';
+import { signEntryHash, signingKeyFromPrivateKey } from '../../../../backend/src/services/custodyLedger';
+import { CustodySignature, UserSigningKey } from '../../../../backend/src/types';
+import { IntegrityService } from '../../../../src/evidence-chain/crypto/integrity-service';
+import { SignaturePurpose } from '../../../../src/evidence-chain/types';
+
+describe('Signing Keys', () => {
+  // Cheap scrypt parameters keep the tests fast
+  const kdf: KeyDerivationParams = { algorithm: 'scrypt', cost: 1024, blockSize: 8, parallelization: 1 };
+  const issuedAt = new Date('2025-03-01T09:00:00Z');
+
+  const authorityKey = signingKeyFromPrivateKey(crypto.generateKeyPairSync('ed25519').privateKey);
+  const authority = { keyFingerprint: authorityKey.fingerprint, ...createAuthorityCertificate(authorityKey, issuedAt) };
+
+  const userKey = signingKeyFromPrivateKey(crypto.generateKeyPairSync('ed25519').privateKey);
+  const issued = issueUserCertificate(
+    { id: '2c4d6e8f-1a3b-4c5d-8e7f-9a0b1c2d3e4f', email: 'custodian@example.org' },
+    userKey.publicKey,
+    authorityKey,
+    authority,
+    issuedAt
+  );
+
+  const entry = { id: 'entry-2', sequenceNumber: 2, entryHash: 'c'.repeat(64) };
+  const activeKey: Pick<UserSigningKey, 'certificateSerial' | 'status' | 'revocationReason' | 'revokedAt'> = {
+    certificateSerial: issued.serialNumber,
+    status: 'ACTIVE',
+  };
+
+  const signature = (overrides: Partial<CustodySignature> = {}): CustodySignature => ({
+    id: 'signature-1',
+    custodyEntryId: entry.id,
+    evidenceId: 'ev-1',
+    role: 'CUSTODIAN',
+    signerId: '2c4d6e8f-1a3b-4c5d-8e7f-9a0b1c2d3e4f',
+    signingKeyId: 'key-1',
+    entryHash: entry.entryHash,
+    signature: signEntryHash(entry.entryHash, userKey),
+    signatureAlgorithm: userKey.algorithm,
+    publicKey: userKey.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    certificateChain: [issued.certificate, authority.certificate],
+    signedAt: new Date('2025-04-01T12:00:00Z'),
+    ...overrides,
+  });
+
+  describe('certificates', () => {
+    it('should issue a user certificate that chains to the CA certificate', () => {
+      const root = new crypto.X509Certificate(authority.certificate);
+      const certificate = new crypto.X509Certificate(issued.certificate);
+
+      expect(root.ca).toBe(true);
+      expect(root.verify(authorityKey.publicKey)).toBe(true);
+
+      expect(certificate.ca).toBe(false);
+      expect(certificate.checkIssued(root)).toBe(true);
+      expect(certificate.verify(authorityKey.publicKey)).toBe(true);
+      expect(certificate.subject).toContain('CN=custodian@example.org');
+      expect(certificate.serialNumber).toBe(issued.serialNumber);
+      expect(certificate.publicKey.export({ type: 'spki', format: 'der' }))
+        .toEqual(userKey.publicKey.export({ type: 'spki', format: 'der' }));
+      expect(new Date(certificate.validFrom)).toEqual(issuedAt);
+      expect(issued.notAfter.getTime() - issuedAt.getTime()).toBe(365 * 24 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('private key encryption', () => {
+    it('should only decrypt with the right passphrase for the same key', async () => {
+      const encrypted = await encryptPrivateKey(userKey.privateKey, 'correct horse battery', userKey.fingerprint, kdf);
+
+      const decrypted = await decryptPrivateKey(encrypted, 'correct horse battery', userKey.fingerprint, kdf);
+      expect(decrypted?.export({ type: 'pkcs8', format: 'der' })).toEqual(userKey.privateKey.export({ type: 'pkcs8', format: 'der' }));
+
+      expect(await decryptPrivateKey(encrypted, 'wrong horse battery', userKey.fingerprint, kdf)).toBeNull();
+      expect(await decryptPrivateKey(encrypted, 'correct horse battery', 'f'.repeat(64), kdf)).toBeNull();
+    });
+  });
+
+  describe('verifyCustodySignature', () => {
+    it('should accept a signature made with a certified, unrevoked key', () => {
+      expect(verifyCustodySignature(signature(), entry, activeKey, [authority.certificate]))
+        .toEqual(expect.objectContaining({ valid: true, sequenceNumber: 2, certificateSerial: issued.serialNumber }));
+    });
+
+    it('should reject signatures over another hash or from an untrusted CA', () => {
+      expect(verifyCustodySignature(signature(), { ...entry, entryHash: 'd'.repeat(64) }, activeKey, [authority.certificate]).reason)
+        .toBe('ENTRY_HASH_MISMATCH');
+
+      const otherAuthorityKey = signingKeyFromPrivateKey(crypto.generateKeyPairSync('ed25519').privateKey);
+      const otherAuthority = createAuthorityCertificate(otherAuthorityKey, issuedAt);
+      expect(verifyCustodySignature(signature(), entry, activeKey, [otherAuthority.certificate]).reason)
+        .toBe('CERTIFICATE_UNTRUSTED');
+
+      const forged = signEntryHash(entry.entryHash, otherAuthorityKey);
+      expect(verifyCustodySignature(signature({ signature: forged }), entry, activeKey, [authority.certificate]).reason)
+        .toBe('SIGNATURE_INVALID');
+    });
+
+    it('should reject signatures made outside the certificate validity period', () => {
+      const check = verifyCustodySignature(
+        signature({ signedAt: new Date('2026-06-01T00:00:00Z') }), entry, activeKey, [authority.certificate]
+      );
+      expect(check.reason).toBe('CERTIFICATE_NOT_VALID_AT_SIGNING');
+    });
+
+    it('should keep earlier signatures after routine revocation but not after key compromise', () => {
+      const superseded = { ...activeKey, status: 'REVOKED' as const, revocationReason: 'SUPERSEDED' as const, revokedAt: new Date('2025-05-01T00:00:00Z') };
+      expect(verifyCustodySignature(signature(), entry, superseded, [authority.certificate]).valid).toBe(true);
+      expect(verifyCustodySignature(signature({ signedAt: new Date('2025-06-01T00:00:00Z') }), entry, superseded, [authority.certificate]).reason)
+        .toBe('CERTIFICATE_REVOKED');
+
+      const compromised = { ...superseded, revocationReason: 'KEY_COMPROMISE' as const };
+      expect(verifyCustodySignature(signature(), entry, compromised, [authority.certificate]).reason).toBe('CERTIFICATE_REVOKED');
+    });
+  });
+
+  describe('offline verification', () => {
+    it('should accept the exported certificate chain against the CA certificate', () => {
+      const service = new IntegrityService();
+      const exported = {
+        signature: '',
+        algorithm: 'Ed25519',
+        publicKey: signature().publicKey,
+        signedBy: 'custodian@example.org',
+        signedAt: signature().signedAt,
+        purpose: SignaturePurpose.CUSTODY_TRANSFER,
+        certificateChain: [issued.certificate, authority.certificate],
+      };
+
+      expect(service.verifyCertificateChain(exported, authority.certificate)).toBe(true);
+      expect(service.verifyCertificateChain({ ...exported, certificateChain: [] }, authority.certificate)).toBe(false);
+
+      const otherKey = crypto.generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'pem' }).toString();
+      expect(service.verifyCertificateChain({ ...exported, publicKey: otherKey }, authority.certificate)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  findBlockingRestriction,
+  mapProtectionRow,
+  sourceAccessibleCondition,
+} from '../../../../backend/src/services/sourceProtection';
+import { SourceProtection, SourceRestriction } from '../../../../backend/src/types';
+
+describe('Source Protection', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+  const officer = { id: 'user-1', roleType: 'government_entity' as const };
+  const counsel = { id: 'user-2', roleType: 'legal_team' as const };
+
+  const protect = (restrictions: SourceRestriction[], overrides: Partial<SourceProtection> = {}): SourceProtection => ({
+    evidenceId: 'ev-1',
+    protectionRequired: true,
+    protectionType: ['IDENTITY_PROTECTION'],
+    restrictions,
+    authorizedPersonnel: ['user-9'],
+    reviewDate: new Date('2024-12-01T00:00:00Z'),
+    createdBy: 'user-9',
+    updatedBy: 'user-9',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+
+  const restriction = (overrides: Partial<SourceRestriction> = {}): SourceRestriction => ({
+    type: 'ACCESS',
+    description: 'Confidential informant',
+    scope: [],
+    authority: 'Protective order 24-118',
+    ...overrides,
+  });
+
+  describe('findBlockingRestriction', () => {
+    it('should restrict everyone when the scope is empty or "*"', () => {
+      expect(findBlockingRestriction(protect([restriction()]), officer, ['ACCESS'], now)?.authority)
+        .toBe('Protective order 24-118');
+      expect(findBlockingRestriction(protect([restriction({ scope: ['*'] })]), counsel, ['ACCESS'], now)).not.toBeNull();
+    });
+
+    it('should only restrict the users and roles in scope, minus exceptions', () => {
+      const byRole = protect([restriction({ scope: ['legal_team'] })]);
+      expect(findBlockingRestriction(byRole, counsel, ['ACCESS'], now)).not.toBeNull();
+      expect(findBlockingRestriction(byRole, officer, ['ACCESS'], now)).toBeNull();
+
+      const excepted = protect([restriction({ scope: ['*'], exceptions: ['user-2'] })]);
+      expect(findBlockingRestriction(excepted, counsel, ['ACCESS'], now)).toBeNull();
+      expect(findBlockingRestriction(excepted, officer, ['ACCESS'], now)).not.toBeNull();
+    });
+
+    it('should only consider restrictions of the requested types', () => {
+      const protection = protect([restriction({ type: 'SHARING' })]);
+
+      expect(findBlockingRestriction(protection, officer, ['ACCESS'], now)).toBeNull();
+      expect(findBlockingRestriction(protection, officer, ['ACCESS', 'SHARING'], now)?.type).toBe('SHARING');
+    });
+
+    it('should ignore expired restrictions', () => {
+      const protection = protect([restriction({ expiresAt: new Date('2024-05-31T23:59:59Z') })]);
+
+      expect(findBlockingRestriction(protection, officer, ['ACCESS'], now)).toBeNull();
+      expect(findBlockingRestriction(protection, officer, ['ACCESS'], new Date('2024-05-01T00:00:00Z'))).not.toBeNull();
+    });
+
+    it('should never restrict authorized personnel or an unprotected item', () => {
+      expect(findBlockingRestriction(protect([restriction()], { authorizedPersonnel: ['user-1'] }), officer, ['ACCESS'], now))
+        .toBeNull();
+      expect(findBlockingRestriction(protect([restriction()], { protectionRequired: false }), officer, ['ACCESS'], now))
+        .toBeNull();
+      expect(findBlockingRestriction(null, officer, ['ACCESS'], now)).toBeNull();
+    });
+  });
+
+  describe('mapProtectionRow', () => {
+    it('should parse JSON columns and restriction dates', () => {
+      const protection = mapProtectionRow({
+        evidence_id: 'ev-1',
+        protection_required: true,
+        protection_types: '["LOCATION_PROTECTION"]',
+        restrictions: JSON.stringify([{
+          type: 'DISCLOSURE',
+          description: 'Safe house address',
+          authority: 'Court order',
+          exceptions: [],
+          expiresAt: '2025-01-01T00:00:00.000Z',
+        }]),
+        authorized_personnel: ['user-9'],
+        review_date: '2024-12-01T00:00:00.000Z',
+        notes: null,
+        created_by: 'user-9',
+        updated_by: 'user-9',
+        created_at: '2024-06-01T00:00:00.000Z',
+        updated_at: '2024-06-01T00:00:00.000Z',
+      });
+
+      expect(protection.protectionType).toEqual(['LOCATION_PROTECTION']);
+      expect(protection.restrictions).toEqual([{
+        type: 'DISCLOSURE',
+        description: 'Safe house address',
+        scope: [],
+        authority: 'Court order',
+        expiresAt: new Date('2025-01-01T00:00:00.000Z'),
+      }]);
+      expect(protection.authorizedPersonnel).toEqual(['user-9']);
+      expect(protection).not.toHaveProperty('notes');
+    });
+  });
+
+  describe('sourceAccessibleCondition', () => {
+    it('should bind one placeholder per value', () => {
+      const condition = sourceAccessibleCondition('evidence_items.id', officer, ['DISCLOSURE', 'COPYING'], now);
+
+      expect(condition.sql).toContain('protection.evidence_id = evidence_items.id');
+      expect(condition.sql.split('?').length - 1).toBe(condition.bindings.length);
+      expect(condition.bindings).toEqual([
+        'user-1', 'DISCLOSURE', 'COPYING', now, '*', 'user-1', 'government_entity', 'user-1', 'government_entity',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import {
+  assembleTimeline,
+  bucketTimelineEvents,
+  matchesTimelineFilter,
+  TimelineSourceData,
+} from '../../../../backend/src/services/timeline';
+import { TimelineEvent } from '../../../../backend/src/types';
+
+describe('Timeline', () => {
+  const at = (day: number, hour: number, minute = 0) => new Date(Date.UTC(2024, 2, day, hour, minute));
+
+  const sources = (overrides: Partial<TimelineSourceData> = {}): TimelineSourceData => ({
+    evidence: [{
+      id: 'ev-1',
+      document_id: 'doc-1',
+      evidence_type: 'document',
+      chain_of_custody: [
+        { fromUser: 'system', toUser: 'user-1', transferredAt: at(5, 9, 20).toISOString(), reason: 'Initial collection' },
+      ],
+    }],
+    ledgerEntries: [{
+      id: 'ledger-1',
+      evidence_id: 'ev-1',
+      sequence_number: 1,
+      custodian: 'user-1',
+      received_at: at(5, 9),
+      storage_location: 'Locker 4',
+    }],
+    communications: [{
+      id: 'comm-1',
+      communication_type: 'email',
+      subject: 'Quarterly figures',
+      participants: ['stakeholder-1', 'stakeholder-2'],
+      initiated_by: 'stakeholder-1',
+      occurred_at: at(3, 14),
+    }],
+    documents: [{
+      id: 'doc-1',
+      title: 'Q1 ledger',
+      document_date: at(3, 12),
+      load_file_fields: { DOCDATE: '03/03/2024' },
+    }],
+    attachments: [{ communication_id: 'comm-1', document_id: 'doc-1' }],
+    temporalSequences: [],
+    ...overrides,
+  });
+
+  it('should merge sources that agree and order the chronology', () => {
+    const timeline = assembleTimeline(sources(), { toleranceMinutes: 60 * 24 });
+
+    expect(timeline.events.map(event => event.eventType)).toEqual(['CREATION', 'COMMUNICATION', 'COLLECTION']);
+    expect(timeline.conflicts).toEqual([]);
+
+    const collection = timeline.events[2]!;
+    expect(collection.certainty).toBe('CONFIRMED');
+    expect(collection.location).toBe('Locker 4');
+    expect(collection.records.map(record => record.type)).toEqual(['custody_ledger', 'custody_summary']);
+
+    const communication = timeline.events[1]!;
+    expect(communication.participants).toEqual([
+      { id: 'stakeholder-1', role: 'CREATOR', anonymized: false },
+      { id: 'stakeholder-2', role: 'RECIPIENT', anonymized: false },
+    ]);
+  });
+
+  it('should flag sources that disagree and downgrade the weaker one', () => {
+    const timeline = assembleTimeline(sources(), { toleranceMinutes: 10 });
+
+    const disagreement = timeline.conflicts.find(conflict => conflict.kind === 'DISAGREEMENT'
+      && conflict.eventIds.includes('custody_ledger:ledger-1'));
+    expect(disagreement?.eventIds).toEqual(['custody_ledger:ledger-1', 'custody_summary:ev-1#0']);
+    expect(disagreement?.differenceMinutes).toBe(20);
+
+    const summary = timeline.events.find(event => event.id === 'custody_summary:ev-1#0');
+    expect(summary?.certainty).toBe('POSSIBLE');
+    expect(summary?.tags).toContain('conflict');
+    expect(timeline.events.find(event => event.id === 'custody_ledger:ledger-1')?.certainty).toBe('CONFIRMED');
+  });
+
+  it('should flag attachments dated after the message that carried them', () => {
+    const data = sources();
+    data.documents[0].document_date = at(4, 8);
+    data.documents[0].load_file_fields = {};
+
+    const timeline = assembleTimeline(data, {});
+
+    const sequence = timeline.conflicts.find(conflict => conflict.kind === 'SEQUENCE');
+    expect(sequence?.eventIds).toEqual(['document:doc-1', 'communication:comm-1']);
+    expect(sequence?.differenceMinutes).toBe(18 * 60);
+    expect(timeline.events.find(event => event.id === 'document:doc-1')?.certainty).toBe('POSSIBLE');
+    expect(timeline.events.find(event => event.id === 'communication:comm-1')?.certainty).toBe('POSSIBLE');
+  });
+
+  describe('matchesTimelineFilter', () => {
+    const event: TimelineEvent = {
+      id: 'communication:comm-1',
+      eventType: 'COMMUNICATION',
+      timestamp: at(3, 14),
+      duration: 30,
+      title: 'Quarterly figures',
+      description: '',
+      participants: [{ id: 'stakeholder-1', role: 'CREATOR', anonymized: false }],
+      certainty: 'PROBABLE',
+      sources: [],
+      records: [{ type: 'communication', id: 'comm-1', field: 'occurred_at', timestamp: at(3, 14) }],
+      tags: ['email'],
+    };
+
+    it('should compare strings case-insensitively and dates by time', () => {
+      expect(matchesTimelineFilter(event, { field: 'title', operator: 'STARTS_WITH', value: 'quarterly', active: true })).toBe(true);
+      expect(matchesTimelineFilter(event, {
+        field: 'timestamp', operator: 'BETWEEN', value: [at(3, 0).toISOString(), at(3, 23).toISOString()], active: true,
+      })).toBe(true);
+      expect(matchesTimelineFilter(event, { field: 'duration', operator: 'GREATER_THAN', value: 45, active: true })).toBe(false);
+    });
+
+    it('should match list fields on any element and ignore inactive filters', () => {
+      expect(matchesTimelineFilter(event, { field: 'participants', operator: 'IN', value: ['stakeholder-1'], active: true })).toBe(true);
+      expect(matchesTimelineFilter(event, { field: 'participants', operator: 'NOT_IN', value: ['stakeholder-1'], active: true })).toBe(false);
+      expect(matchesTimelineFilter(event, { field: 'recordTypes', operator: 'EQUALS', value: 'document', active: true })).toBe(false);
+      expect(matchesTimelineFilter(event, { field: 'recordTypes', operator: 'EQUALS', value: 'document', active: false })).toBe(true);
+    });
+  });
+
+  describe('bucketTimelineEvents', () => {
+    it('should group events into UTC weeks starting on Monday', () => {
+      const events = assembleTimeline(sources(), { toleranceMinutes: 60 * 24 }).events;
+
+      // 3 March 2024 is a Sunday, 5 March a Tuesday
+      const buckets = bucketTimelineEvents(events, 'WEEK');
+      expect(buckets.map(bucket => bucket.start.toISOString())).toEqual([
+        '2024-02-26T00:00:00.000Z',
+        '2024-03-04T00:00:00.000Z',
+      ]);
+      expect(buckets[0]!.eventTypes).toEqual({ CREATION: 1, COMMUNICATION: 1 });
+      expect(bucketTimelineEvents(events, 'NONE')).toEqual([]);
+    });
+  });
+});
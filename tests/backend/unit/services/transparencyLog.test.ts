@@ -0,0 +1,109 @@
+jest.mock('../../../../backend/src/config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+
+import crypto from 'crypto';
+import { fingerprintLeaf, signTreeHead } from '../../../../backend/src/services/transparencyLog';
+import { loadSigningKey } from '../../../../backend/src/services/custodyLedger';
+import {
+  consistencyProof,
+  inclusionProof,
+  leafHash,
+  merkleTreeHash,
+  verifyConsistency,
+  verifyInclusion,
+  verifyTransparencyProof,
+  verifyTreeHead,
+} from '../../../../src/evidence-chain/crypto/merkle-log';
+
+describe('Transparency Log', () => {
+  // Leaf inputs and roots from the Certificate Transparency reference test vectors
+  const referenceLeaves = [
+    '', '\x00', '\x10', '\x20\x21', '\x30\x31', '\x40\x41\x42\x43',
+    '\x50\x51\x52\x53\x54\x55\x56\x57',
+    '\x60\x61\x62\x63\x64\x65\x66\x67\x68\x69\x6a\x6b\x6c\x6d\x6e\x6f',
+  ];
+  const referenceRoots = [
+    '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+    'fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125',
+    'aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77',
+    'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+    '4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4',
+    '76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef',
+    'ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c',
+    '5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328',
+  ];
+
+  const leaves = (count: number) => Array.from({ length: count }, (_, index) => leafHash(`leaf-${index}`));
+
+  it('should match the RFC 6962 reference tree hashes', () => {
+    const hashes = referenceLeaves.map(data => leafHash(data));
+
+    referenceRoots.forEach((root, index) => {
+      expect(merkleTreeHash(hashes.slice(0, index + 1)).toString('hex')).toBe(root);
+    });
+    expect(merkleTreeHash([]).toString('hex')).toBe(crypto.createHash('sha256').digest('hex'));
+  });
+
+  it('should produce audit paths the offline verifier accepts', () => {
+    for (let size = 1; size <= 17; size++) {
+      const hashes = leaves(size);
+      const root = merkleTreeHash(hashes);
+
+      for (let index = 0; index < size; index++) {
+        const path = inclusionProof(index, hashes);
+        expect(verifyInclusion(hashes[index]!, index, size, path, root)).toBe(true);
+        expect(verifyInclusion(leafHash('forged'), index, size, path, root)).toBe(false);
+      }
+    }
+  });
+
+  it('should produce consistency proofs the offline verifier accepts', () => {
+    const hashes = leaves(17);
+
+    for (let second = 1; second <= 17; second++) {
+      const secondRoot = merkleTreeHash(hashes.slice(0, second));
+      for (let first = 1; first <= second; first++) {
+        const firstRoot = merkleTreeHash(hashes.slice(0, first));
+        const proof = consistencyProof(first, hashes.slice(0, second));
+        expect(verifyConsistency(first, second, firstRoot, secondRoot, proof)).toBe(true);
+      }
+    }
+
+    // A log rewritten after the first head no longer proves consistent with it
+    const rewritten = [...hashes.slice(0, 4), leafHash('rewritten'), ...hashes.slice(5)];
+    const firstRoot = merkleTreeHash(hashes.slice(0, 6));
+    const proof = consistencyProof(6, rewritten);
+    expect(verifyConsistency(6, 17, firstRoot, merkleTreeHash(rewritten), proof)).toBe(false);
+  });
+
+  it('should export proofs that verify against the signed tree head', () => {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    const key = loadSigningKey(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString());
+    const publicKeyPem = key.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+    const leaf = fingerprintLeaf('9b2f1c1e-5d7a-4a7e-9d55-8f0e2b8f6c11', 'a'.repeat(64));
+    const hashes = [...leaves(5), leafHash(leaf.leafData), ...leaves(2)];
+    const treeHead = signTreeHead(hashes.length, merkleTreeHash(hashes).toString('hex'), new Date(), key);
+
+    const proof = {
+      leafIndex: 5,
+      leafData: leaf.leafData,
+      leafHash: leafHash(leaf.leafData).toString('hex'),
+      treeSize: treeHead.treeSize,
+      rootHash: treeHead.rootHash,
+      inclusionProof: inclusionProof(5, hashes).map(node => node.toString('hex')),
+      treeHead,
+    };
+
+    expect(verifyTreeHead(treeHead, publicKeyPem)).toBe(true);
+    expect(verifyTransparencyProof(proof, publicKeyPem)).toBe(true);
+
+    expect(verifyTreeHead({ ...treeHead, treeSize: 9 }, publicKeyPem)).toBe(false);
+    expect(verifyTransparencyProof({ ...proof, leafData: leaf.leafData.replace('aaaa', 'bbbb') }, publicKeyPem)).toBe(false);
+
+    const otherKey = crypto.generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    expect(verifyTreeHead(treeHead, otherKey)).toBe(false);
+  });
+});